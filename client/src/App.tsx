@@ -2,6 +2,7 @@
  * Author: gpt-5-codex
  * Date: 2025-11-06T04:07:30Z
  * PURPOSE: Root React application wiring QueryClient, theming, routing, and linking the ARC agent workspace route.
+ *          /documents is the Document Builder for template-driven documents (grant proposals, RFCs, reviews).
  * SRP/DRY check: Pass - component orchestrates providers and route declarations without embedding feature logic.
  */
 
@@ -24,7 +25,10 @@ import PlanAssessmentPage from "@/pages/plan-assessment";
 import NotFound from "@/pages/not-found";
 import BillingPage from "@/pages/billing";
 import VixraPage from "./pages/vixra";
+import DocumentsPage from "./pages/documents";
 import ArcAgiPage from "./pages/ARC";
+import LeaderboardPage from "@/pages/leaderboard";
+import BatchRunsPage from "@/pages/batch-runs";
 
 function Router() {
   return (
@@ -35,9 +39,12 @@ function Router() {
       <Route path="/creative-combat" component={CreativeCombat} />
       <Route path="/debate" component={Debate} />
       <Route path="/vixra" component={VixraPage} />
+      <Route path="/documents" component={DocumentsPage} />
       <Route path="/arc-agi" component={ArcAgiPage} />
       <Route path="/agent-workspace" component={AgentWorkspacePage} />
       <Route path="/plan-assessment" component={PlanAssessmentPage} />
+      <Route path="/leaderboard" component={LeaderboardPage} />
+      <Route path="/batch-runs" component={BatchRunsPage} />
       <Route path="/billing" component={BillingPage} />
       <Route component={NotFound} />
     </Switch>
@@ -33,7 +33,10 @@ import {
   FileText,
   Monitor,
   Menu,
-  Home
+  Home,
+  Trophy,
+  Layers,
+  FileStack
 } from "lucide-react";
 
 interface NavigationMode {
@@ -87,6 +90,22 @@ const navigationModes: NavigationMode[] = [
     description: "Critique a plan across models",
     category: 'advanced'
   },
+  {
+    id: "leaderboard",
+    name: "Leaderboard",
+    path: "/leaderboard",
+    icon: Trophy,
+    description: "Model ratings from votes and judges",
+    category: 'advanced'
+  },
+  {
+    id: "batch-runs",
+    name: "Batch",
+    path: "/batch-runs",
+    icon: Layers,
+    description: "Run prompt suites across models",
+    category: 'advanced'
+  },
   {
     id: "arc-agent-workspace",
     name: "ARC Workspace",
@@ -103,6 +122,14 @@ const navigationModes: NavigationMode[] = [
     description: "Generate satirical academic papers",
     category: 'experimental'
   },
+  {
+    id: "documents",
+    name: "Documents",
+    path: "/documents",
+    icon: FileStack,
+    description: "Build proposals, RFCs and reviews from templates",
+    category: 'experimental'
+  },
   {
     id: "arc-agi",
     name: "ARC-AGI",
@@ -77,6 +77,7 @@ interface MessageCardProps {
   className?: string;
   seatColor?: string; // For battle-chat mode seat colors
   footerActions?: ReactNode;
+  contentOverride?: ReactNode; // Rendered in place of the plain content text, e.g. annotated debate turns
 }
 
 export function MessageCard({
@@ -86,7 +87,8 @@ export function MessageCard({
   showFooter = true,
   className = '',
   seatColor,
-  footerActions
+  footerActions,
+  contentOverride
 }: MessageCardProps) {
   const { toast } = useToast();
   const [isCopying, setIsCopying] = useState(false);
@@ -212,7 +214,7 @@ export function MessageCard({
       <CardContent className={variant === 'compact' ? 'p-1' : 'p-2'}>
         <div className="prose prose-sm dark:prose-invert max-w-none text-sm">
           <div className="text-gray-900 dark:text-gray-100 leading-snug whitespace-pre-wrap p-1 bg-gray-50/30 dark:bg-gray-800/30 rounded border-l-2 border-blue-500">
-            {message.content}
+            {contentOverride ?? message.content}
           </div>
         </div>
 
@@ -4,6 +4,8 @@
  * PURPOSE: Enhanced ResponseCard component using improved shadcn/ui patterns.
  * Better status badges, alerts for errors, proper skeleton states, and consistent typography.
  * Uses new centralized model configuration for provider colors and information.
+ * While a response is still loading, any streamed reasoning/content is shown in place of the skeleton.
+ * When the prompt has a reference answer, a Correct/Incorrect badge shows the grade.
  * SRP/DRY check: Pass - Single responsibility (response display), reuses shadcn/ui components
  * shadcn/ui: Pass - Uses Card, Badge, Alert, Skeleton, Collapsible, and other shadcn/ui components
  */
@@ -28,12 +30,14 @@ import {
   ChevronUp,
   FileText,
   DollarSign,
-  Activity
+  Activity,
+  XCircle
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 import { formatCost, formatTokens, formatResponseTime } from "@/lib/formatUtils";
 import type { AIModel, ModelResponse } from "@/types/ai-models";
+import type { ResponseGrade } from "@shared/reference-answer";
 
 interface ResponseCardProps {
   model: AIModel;
@@ -41,9 +45,12 @@ interface ResponseCardProps {
   onRetry?: () => void;
   showTiming?: boolean;
   systemPrompt?: string;
+  /** Reference-answer grade for this response, if the prompt was graded */
+  grade?: ResponseGrade;
+  referenceAnswer?: string;
 }
 
-export function ResponseCard({ model, response, onRetry, showTiming, systemPrompt }: ResponseCardProps) {
+export function ResponseCard({ model, response, onRetry, showTiming, systemPrompt, grade, referenceAnswer }: ResponseCardProps) {
   const { toast } = useToast();
   const [isCopying, setIsCopying] = useState(false);
   const [showReasoning, setShowReasoning] = useState(false);
@@ -137,11 +144,35 @@ export function ResponseCard({ model, response, onRetry, showTiming, systemPromp
 
             <div>
               <h3 className="font-semibold text-sm">{model.name}</h3>
-              <p className="text-xs text-muted-foreground">{model.provider}</p>
+              <p className="text-xs text-muted-foreground">
+                {response?.route?.fallbackUsed
+                  ? `${model.provider} → served by ${response.route.servedModelId} (${response.route.provider})`
+                  : model.provider}
+              </p>
             </div>
           </div>
 
           <div className="flex items-center space-x-1.5">
+            {grade && (
+              <Badge
+                variant="outline"
+                className={cn(
+                  "text-xs",
+                  grade.passed
+                    ? "border-green-500 text-green-700 dark:text-green-300"
+                    : "border-red-500 text-red-700 dark:text-red-300"
+                )}
+                title={[
+                  referenceAnswer ? `Reference: ${referenceAnswer}` : null,
+                  grade.extractedAnswer ? `Answered: ${grade.extractedAnswer}` : null,
+                  `Grader: ${grade.fallbackFrom ? `${grade.fallbackFrom} → ${grade.grader}` : grade.grader}`,
+                  grade.explanation,
+                ].filter(Boolean).join('\n')}
+              >
+                {grade.passed ? <CheckCircle className="w-3 h-3 mr-1" /> : <XCircle className="w-3 h-3 mr-1" />}
+                {grade.passed ? 'Correct' : 'Incorrect'}
+              </Badge>
+            )}
             {getStatusBadge()}
             {response && showTiming && (
               <Badge variant="outline" className="text-xs">
@@ -154,8 +185,31 @@ export function ResponseCard({ model, response, onRetry, showTiming, systemPromp
       </CardHeader>
 
       <CardContent className="pt-0">
-        {response?.status === 'loading' ? (
+        {response?.status === 'loading' && (response.content || response.reasoning) ? (
+          <div className="space-y-3" aria-live="polite">
+            {/* Streaming partial output */}
+            {response.reasoning && (
+              <div className="p-2.5 bg-amber-50 dark:bg-amber-950/20 rounded-lg border border-amber-200 dark:border-amber-800">
+                <pre className="text-xs text-muted-foreground whitespace-pre-wrap">
+                  {response.reasoning}
+                </pre>
+              </div>
+            )}
+            {response.content ? (
+              <div className="p-3 bg-muted/40 rounded-lg border-l-2 border-primary/80">
+                <pre className="whitespace-pre-wrap font-sans text-sm leading-relaxed">
+                  {response.content}
+                </pre>
+              </div>
+            ) : (
+              <Skeleton className="h-12 w-full" />
+            )}
+          </div>
+        ) : response?.status === 'loading' ? (
           <div className="space-y-3">
+            {response.statusMessage && (
+              <p className="text-xs text-muted-foreground" aria-live="polite">{response.statusMessage}</p>
+            )}
             <div className="space-y-2">
               <Skeleton className="h-4 w-full" />
               <Skeleton className="h-4 w-3/4" />
@@ -0,0 +1,192 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Selected batch run view: status, progress, cost and credits with pause/resume/cancel controls,
+ *          a per-model roll-up, and the prompt x model result matrix (click a cell to read the response).
+ * SRP/DRY check: Pass - Display only; data and actions come from useBatchRuns.
+ * shadcn/ui: Pass - Uses Card, Badge, Button, Progress, Table and Dialog
+ */
+
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Pause, Play, Square } from "lucide-react";
+import { formatCost } from "@/lib/formatUtils";
+import type { AIModel } from "@/types/ai-models";
+import type { BatchModelStats, BatchRunSummary } from "@shared/batch-types";
+import type { BatchRunItemView } from "@/hooks/useBatchRuns";
+
+interface BatchRunDetailProps {
+  run: BatchRunSummary;
+  models: AIModel[];
+  modelStats: BatchModelStats[];
+  items: BatchRunItemView[];
+  isActing: boolean;
+  onAction: (action: 'pause' | 'resume' | 'cancel') => void;
+}
+
+const CELL_STYLES: Record<BatchRunItemView['status'], string> = {
+  pending: "bg-muted text-muted-foreground",
+  running: "bg-blue-100 text-blue-700 dark:bg-blue-950 dark:text-blue-300",
+  success: "bg-green-100 text-green-700 dark:bg-green-950 dark:text-green-300",
+  error: "bg-red-100 text-red-700 dark:bg-red-950 dark:text-red-300",
+};
+
+export function BatchRunDetail({ run, models, modelStats, items, isActing, onAction }: BatchRunDetailProps) {
+  const [openItem, setOpenItem] = useState<BatchRunItemView | null>(null);
+  const modelName = (modelId: string) => models.find(model => model.id === modelId)?.name ?? modelId;
+  const done = run.progress.succeeded + run.progress.failed;
+
+  // One row per prompt, cells keyed by model id
+  const rows = useMemo(() => {
+    const byPrompt = new Map<number, { promptId: string; prompt: string; cells: Record<string, BatchRunItemView> }>();
+    for (const item of items) {
+      const row = byPrompt.get(item.promptIndex) ?? { promptId: item.promptId, prompt: item.prompt, cells: {} };
+      row.cells[item.modelId] = item;
+      byPrompt.set(item.promptIndex, row);
+    }
+    return Array.from(byPrompt.entries()).sort(([a], [b]) => a - b).map(([, row]) => row);
+  }, [items]);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-2">
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              {run.name}
+              <Badge variant={run.status === 'failed' ? 'destructive' : 'secondary'}>{run.status}</Badge>
+            </CardTitle>
+            <div className="flex items-center gap-2">
+              {run.status === 'running' && (
+                <Button size="sm" variant="outline" disabled={isActing} onClick={() => onAction('pause')}>
+                  <Pause className="w-4 h-4 mr-1" /> Pause
+                </Button>
+              )}
+              {run.status === 'paused' && (
+                <Button size="sm" variant="outline" disabled={isActing} onClick={() => onAction('resume')}>
+                  <Play className="w-4 h-4 mr-1" /> Resume
+                </Button>
+              )}
+              {(run.status === 'running' || run.status === 'paused') && (
+                <Button size="sm" variant="ghost" disabled={isActing} onClick={() => onAction('cancel')}>
+                  <Square className="w-4 h-4 mr-1" /> Cancel
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Progress value={run.progress.total > 0 ? (done / run.progress.total) * 100 : 0} />
+          <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+            <span>{done}/{run.progress.total} done</span>
+            <span>{run.progress.failed} failed</span>
+            {run.progress.running > 0 && (
+              <span className="flex items-center gap-1"><Loader2 className="w-3 h-3 animate-spin" />{run.progress.running} in flight</span>
+            )}
+            <span>Cost {formatCost(run.totalCost)}</span>
+            <span>{run.creditsUsed} credits</span>
+            <span>Concurrency {run.concurrency}</span>
+          </div>
+          {run.statusReason && <p className="text-xs text-amber-600 dark:text-amber-400">{run.statusReason}</p>}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Model</TableHead>
+                <TableHead className="text-right">Succeeded</TableHead>
+                <TableHead className="text-right">Failed</TableHead>
+                <TableHead className="text-right">Avg time</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {modelStats.map(stats => (
+                <TableRow key={stats.modelId}>
+                  <TableCell className="font-medium">{modelName(stats.modelId)}</TableCell>
+                  <TableCell className="text-right">{stats.succeeded}</TableCell>
+                  <TableCell className="text-right">{stats.failed}</TableCell>
+                  <TableCell className="text-right">
+                    {stats.avgResponseTimeMs !== null ? `${(stats.avgResponseTimeMs / 1000).toFixed(1)}s` : '-'}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCost(stats.totalCost)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-4 overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="min-w-48">Prompt</TableHead>
+                {run.modelIds.map(modelId => (
+                  <TableHead key={modelId} className="text-center">{modelName(modelId)}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.promptId}>
+                  <TableCell className="text-xs max-w-md truncate" title={row.prompt}>
+                    <span className="font-mono text-muted-foreground mr-2">{row.promptId}</span>
+                    {row.prompt}
+                  </TableCell>
+                  {run.modelIds.map(modelId => {
+                    const item = row.cells[modelId];
+                    return (
+                      <TableCell key={modelId} className="text-center">
+                        {item && (
+                          <button
+                            type="button"
+                            className={`rounded px-2 py-0.5 text-xs ${CELL_STYLES[item.status]}`}
+                            disabled={item.status === 'pending' || item.status === 'running'}
+                            onClick={() => setOpenItem(item)}
+                          >
+                            {item.status === 'success' && item.responseTimeMs !== null
+                              ? `${(item.responseTimeMs / 1000).toFixed(1)}s`
+                              : item.status}
+                          </button>
+                        )}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={openItem !== null} onOpenChange={open => !open && setOpenItem(null)}>
+        <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-sm">
+              {openItem && `${openItem.promptId} - ${modelName(openItem.modelId)}`}
+            </DialogTitle>
+          </DialogHeader>
+          {openItem && (
+            <div className="space-y-3 text-sm">
+              <p className="text-muted-foreground whitespace-pre-wrap">{openItem.prompt}</p>
+              {openItem.status === 'error'
+                ? <p className="text-destructive">{openItem.error}</p>
+                : <p className="whitespace-pre-wrap">{openItem.content}</p>}
+              {openItem.cost && <p className="text-xs text-muted-foreground">Cost {formatCost(openItem.cost.total)}</p>}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
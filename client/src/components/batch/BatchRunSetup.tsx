@@ -0,0 +1,137 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Form for starting a batch evaluation run: pick a compare-prompts.md section or upload a JSONL
+ *          prompt file, choose models and concurrency, and see how many calls the matrix will make.
+ * SRP/DRY check: Pass - Form state only; submission goes through useBatchRuns and model picking reuses
+ *                ModelSelector.
+ * shadcn/ui: Pass - Uses Card, Input, Label, Select, Tabs and Button
+ */
+
+import { useState, type ChangeEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ModelSelector } from "@/components/ModelSelector";
+import { Loader2, Play } from "lucide-react";
+import type { AIModel } from "@/types/ai-models";
+import type { StartBatchRunInput } from "@/hooks/useBatchRuns";
+
+interface TemplateModesResponse {
+  modes: Array<{ mode: string; categories: Array<{ id: string; name: string; templateCount: number }> }>;
+}
+
+interface BatchRunSetupProps {
+  models: AIModel[];
+  isStarting: boolean;
+  onStart: (input: StartBatchRunInput) => void;
+}
+
+export function BatchRunSetup({ models, isStarting, onStart }: BatchRunSetupProps) {
+  const [name, setName] = useState("");
+  const [sourceType, setSourceType] = useState<'category' | 'jsonl'>('category');
+  const [categoryId, setCategoryId] = useState("");
+  const [jsonlFile, setJsonlFile] = useState<{ name: string; content: string; lines: number } | null>(null);
+  const [selectedModels, setSelectedModels] = useState<string[]>([]);
+  const [concurrency, setConcurrency] = useState(4);
+
+  const { data: templateModes } = useQuery<TemplateModesResponse>({ queryKey: ["/api/templates"] });
+  const categories = templateModes?.modes.find(entry => entry.mode === 'compare')?.categories ?? [];
+
+  const promptCount = sourceType === 'category'
+    ? categories.find(category => category.id === categoryId)?.templateCount ?? 0
+    : jsonlFile?.lines ?? 0;
+  const cells = promptCount * selectedModels.length;
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      setJsonlFile(null);
+      return;
+    }
+    const content = await file.text();
+    setJsonlFile({ name: file.name, content, lines: content.split(/\r?\n/).filter(line => line.trim()).length });
+  };
+
+  const handleStart = () => {
+    onStart({
+      name: name.trim() || undefined,
+      modelIds: selectedModels,
+      concurrency,
+      source: sourceType === 'category'
+        ? { type: 'category', categoryId }
+        : { type: 'jsonl', content: jsonlFile?.content ?? '', fileName: jsonlFile?.name },
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">New batch run</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <Label htmlFor="batch-name">Name</Label>
+          <Input id="batch-name" value={name} placeholder="HLE sample, reasoning sweep..." onChange={event => setName(event.target.value)} />
+        </div>
+
+        <Tabs value={sourceType} onValueChange={value => setSourceType(value as 'category' | 'jsonl')}>
+          <TabsList className="grid grid-cols-2">
+            <TabsTrigger value="category">Prompt category</TabsTrigger>
+            <TabsTrigger value="jsonl">JSONL upload</TabsTrigger>
+          </TabsList>
+          <TabsContent value="category" className="pt-2">
+            <Select value={categoryId} onValueChange={setCategoryId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a compare-prompts section" />
+              </SelectTrigger>
+              <SelectContent>
+                {categories.map(category => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.name} ({category.templateCount})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </TabsContent>
+          <TabsContent value="jsonl" className="pt-2 space-y-1">
+            <Input type="file" accept=".jsonl,.ndjson,application/jsonl" onChange={handleFile} />
+            <p className="text-xs text-muted-foreground">
+              One JSON object per line with a <code>prompt</code> (or <code>question</code>) and an optional <code>id</code>.
+            </p>
+          </TabsContent>
+        </Tabs>
+
+        <div className="space-y-1">
+          <Label>Models</Label>
+          <ModelSelector models={models} selectedModels={selectedModels} onSelectionChange={setSelectedModels} />
+        </div>
+
+        <div className="flex items-end gap-3">
+          <div className="space-y-1 w-28">
+            <Label htmlFor="batch-concurrency">Concurrency</Label>
+            <Input
+              id="batch-concurrency"
+              type="number"
+              min={1}
+              max={16}
+              value={concurrency}
+              onChange={event => setConcurrency(Math.max(1, Number.parseInt(event.target.value, 10) || 1))}
+            />
+          </div>
+          <div className="flex-1 text-xs text-muted-foreground pb-2">
+            {cells > 0 ? `${promptCount} prompts x ${selectedModels.length} models = ${cells} calls` : 'Pick prompts and models'}
+          </div>
+          <Button onClick={handleStart} disabled={cells === 0 || isStarting}>
+            {isStarting ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Play className="w-4 h-4 mr-1" />}
+            Start
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
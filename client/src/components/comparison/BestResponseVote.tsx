@@ -0,0 +1,56 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: "Which response was best?" vote bar for a finished comparison. One button per model plus
+ *          a tie option; the pick is recorded on the leaderboard as pairwise human-vote matchups.
+ *          Rendered above the response grid by ComparisonResults.
+ * SRP/DRY check: Pass - Display only; the vote request lives in useComparison.
+ * shadcn/ui: Pass - Uses Button
+ */
+
+import { Button } from "@/components/ui/button";
+import { Check, Loader2, ThumbsUp } from "lucide-react";
+import type { AIModel } from "@/types/ai-models";
+
+interface BestResponseVoteProps {
+  models: AIModel[];
+  /** Undefined until the user has voted; null means they voted for a tie */
+  votedWinnerId: string | null | undefined;
+  isVoting: boolean;
+  onVote: (winnerModelId: string | null) => void;
+}
+
+export function BestResponseVote({ models, votedWinnerId, isVoting, onVote }: BestResponseVoteProps) {
+  if (models.length < 2) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="flex items-center gap-1 text-muted-foreground">
+        {isVoting ? <Loader2 className="w-4 h-4 animate-spin" /> : <ThumbsUp className="w-4 h-4" />}
+        Best response:
+      </span>
+      {models.map(model => (
+        <Button
+          key={model.id}
+          size="sm"
+          variant={votedWinnerId === model.id ? "default" : "outline"}
+          className="h-7"
+          disabled={isVoting}
+          onClick={() => onVote(model.id)}
+        >
+          {votedWinnerId === model.id && <Check className="w-3 h-3 mr-1" />}
+          {model.name}
+        </Button>
+      ))}
+      <Button
+        size="sm"
+        variant={votedWinnerId === null ? "default" : "ghost"}
+        className="h-7"
+        disabled={isVoting}
+        onClick={() => onVote(null)}
+      >
+        Tie
+      </Button>
+    </div>
+  );
+}
@@ -4,6 +4,9 @@
  * PURPOSE: Modular comparison results component extracted from home.tsx monolith.
  *          Container for ResponseCard components with empty state handling.
  *          Maintains grid layout and retry functionality delegation.
+ *          Shows the LLM judge ranking (when judging is wired up) above the grid.
+ *          Shows the best-response vote bar once the comparison is persisted.
+ *          Passes reference-answer pass/fail grades down to each ResponseCard.
  * SRP/DRY check: Pass - Single responsibility (results display), reuses ResponseCard
  * shadcn/ui: Pass - Uses Card components and ResponseCard
  */
@@ -12,7 +15,11 @@ import { Card, CardContent } from "@/components/ui/card";
 import { MessageSquare } from "lucide-react";
 import { ResponseCard } from "@/components/ResponseCard";
 import { ExportButton } from "@/components/ExportButton";
+import { JudgeRankingPanel } from "@/components/comparison/JudgeRankingPanel";
+import { BestResponseVote } from "@/components/comparison/BestResponseVote";
 import type { AIModel, ModelResponse } from "@/types/ai-models";
+import type { ComparisonJudgementResult } from "@shared/judge-types";
+import type { ComparisonGradingResult } from "@shared/reference-answer";
 
 interface ComparisonResultsProps {
   models: AIModel[];
@@ -22,6 +29,17 @@ interface ComparisonResultsProps {
   showTiming: boolean;
   prompt: string;
   isComparing: boolean;
+  /** Judge wiring is optional so other pages can reuse the grid without it */
+  judgement?: ComparisonJudgementResult | null;
+  canJudge?: boolean;
+  isJudging?: boolean;
+  onJudge?: () => void;
+  /** Leaderboard voting is optional for the same reason */
+  humanVote?: { winnerModelId: string | null } | null;
+  isVoting?: boolean;
+  onVote?: (winnerModelId: string | null) => void;
+  /** Reference-answer grades, when the prompt has a known answer */
+  grading?: ComparisonGradingResult | null;
 }
 
 export function ComparisonResults({
@@ -31,7 +49,15 @@ export function ComparisonResults({
   onRetry,
   showTiming,
   prompt,
-  isComparing
+  isComparing,
+  judgement = null,
+  canJudge = false,
+  isJudging = false,
+  onJudge,
+  humanVote = null,
+  isVoting = false,
+  onVote,
+  grading = null
 }: ComparisonResultsProps) {
   
   // Filter models to only show selected ones
@@ -64,6 +90,25 @@ export function ComparisonResults({
         />
       </div>
 
+      {onJudge && (
+        <JudgeRankingPanel
+          models={models}
+          judgement={judgement}
+          canJudge={canJudge && !isComparing}
+          isJudging={isJudging}
+          onJudge={onJudge}
+        />
+      )}
+
+      {onVote && canJudge && !isComparing && (
+        <BestResponseVote
+          models={selectedModelData.filter(model => responses[model.id]?.status === 'success')}
+          votedWinnerId={humanVote ? humanVote.winnerModelId : undefined}
+          isVoting={isVoting}
+          onVote={onVote}
+        />
+      )}
+
       {/* Results Grid */}
       <div className="grid grid-cols-1 gap-3">
         {selectedModelData.map((model) => (
@@ -73,6 +118,8 @@ export function ComparisonResults({
             response={responses[model.id]}
             onRetry={() => onRetry(model.id)}
             showTiming={showTiming}
+            grade={grading?.grades.find(grade => grade.modelId === model.id)}
+            referenceAnswer={grading?.reference?.answer}
           />
         ))}
       </div>
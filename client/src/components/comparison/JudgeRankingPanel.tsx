@@ -0,0 +1,112 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Shows the LLM judge's verdict for a finished comparison: a "Judge responses" action,
+ *          then a ranked list with each model's overall score, per-criterion scores and the
+ *          judge's rationale. Rendered above the response grid by ComparisonResults.
+ * SRP/DRY check: Pass - Display only; judging state and the API call live in useComparison.
+ * shadcn/ui: Pass - Uses Card, Badge, Button and Collapsible
+ */
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, ChevronUp, Gavel, Loader2, Trophy } from "lucide-react";
+import { formatCost } from "@/lib/formatUtils";
+import type { AIModel } from "@/types/ai-models";
+import type { ComparisonJudgementResult } from "@shared/judge-types";
+
+interface JudgeRankingPanelProps {
+  models: AIModel[];
+  judgement: ComparisonJudgementResult | null;
+  canJudge: boolean;
+  isJudging: boolean;
+  onJudge: () => void;
+}
+
+export function JudgeRankingPanel({ models, judgement, canJudge, isJudging, onJudge }: JudgeRankingPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const modelName = (modelId: string) => models.find(model => model.id === modelId)?.name ?? modelId;
+
+  if (!judgement) {
+    if (!canJudge) return null;
+    return (
+      <div className="flex justify-end">
+        <Button size="sm" variant="outline" onClick={onJudge} disabled={isJudging}>
+          {isJudging ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Gavel className="w-4 h-4 mr-1" />}
+          {isJudging ? "Judging..." : "Judge responses"}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Trophy className="w-4 h-4 text-amber-500" />
+            <h3 className="text-sm font-semibold">Judge ranking</h3>
+            <span className="text-xs text-muted-foreground">by {modelName(judgement.judgeModelId)}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            {judgement.cost && (
+              <span className="text-xs text-muted-foreground">{formatCost(judgement.cost.total)}</span>
+            )}
+            <Button size="sm" variant="ghost" onClick={onJudge} disabled={isJudging || !canJudge}>
+              {isJudging ? <Loader2 className="w-4 h-4 animate-spin" /> : "Re-judge"}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {judgement.rankings.map(entry => {
+          const score = judgement.scores[entry.modelId];
+          return (
+            <div key={entry.modelId} className="flex items-start gap-3 text-sm">
+              <Badge variant={entry.rank === 1 ? "default" : "secondary"} className="shrink-0">#{entry.rank}</Badge>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium truncate">{modelName(entry.modelId)}</span>
+                  <span className="font-mono">{entry.overall.toFixed(1)}/10</span>
+                </div>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {judgement.rubric.map(criterion => (
+                    <Badge key={criterion.id} variant="outline" className="text-xs font-normal">
+                      {criterion.label} {score?.criteria[criterion.id] ?? '-'}
+                    </Badge>
+                  ))}
+                </div>
+                {expanded && score?.rationale && (
+                  <p className="text-xs text-muted-foreground mt-1">{score.rationale}</p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        {judgement.excludedModelIds.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Not judged (no successful response): {judgement.excludedModelIds.map(modelName).join(', ')}
+          </p>
+        )}
+
+        <Collapsible open={expanded} onOpenChange={setExpanded}>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs">
+              {expanded ? <ChevronUp className="w-3 h-3 mr-1" /> : <ChevronDown className="w-3 h-3 mr-1" />}
+              {expanded ? "Hide rationale" : "Show rationale"}
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            {judgement.summary && (
+              <p className="text-xs text-muted-foreground border-l-2 pl-2 mt-1">{judgement.summary}</p>
+            )}
+          </CollapsibleContent>
+        </Collapsible>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,102 @@
+// * Author: agent
+// * Date: 2026-10-19
+// * PURPOSE: Controls for server-driven debate runs. Queues the debate (or its remaining turns) on the
+//            server so it keeps playing after the tab closes, and shows the run's status, turn progress,
+//            credits charged and why it stopped, with stop and resume for the device that started it.
+// * SRP/DRY check: Pass - Presentation only; run state and the live event stream come from useDebateAutoRun.
+// * shadcn/ui: Pass - Uses Button, Badge and Progress
+import { Loader2, Play, Radio, Server, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import type { DebateRunSummary } from '@shared/debate-run-types';
+
+interface DebateAutoRunPanelProps {
+  run: DebateRunSummary | null;
+  isAttached: boolean;
+  /** Label of the seat speaking in the live turn */
+  liveSpeaker?: string;
+  /** Create the session (if needed) and hand every turn to the server */
+  onQueue?: () => void;
+  onStop: () => void;
+  onResume: () => void;
+  canQueue: boolean;
+  isPending: boolean;
+}
+
+const STATUS_VARIANTS: Record<DebateRunSummary['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  running: 'default',
+  stopped: 'secondary',
+  completed: 'outline',
+  failed: 'destructive',
+};
+
+export function DebateAutoRunPanel({
+  run,
+  isAttached,
+  liveSpeaker,
+  onQueue,
+  onStop,
+  onResume,
+  canQueue,
+  isPending,
+}: DebateAutoRunPanelProps) {
+  const canResume = run !== null && (run.status === 'stopped' || run.status === 'failed' || (run.status === 'running' && !run.live));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Server className="w-4 h-4" />
+          <span className="text-sm font-semibold">Server Run</span>
+        </div>
+        {run && <Badge variant={STATUS_VARIANTS[run.status]}>{run.status}</Badge>}
+      </div>
+
+      {!run && (
+        <p className="text-xs text-muted-foreground">
+          Let the server play every turn in the background. The debate keeps going after you close this tab,
+          and you can come back to watch it or read the transcript later.
+        </p>
+      )}
+
+      {run && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs">
+            <span>Turn {run.turnsCompleted} of {run.targetTurns}</span>
+            <span className="text-muted-foreground">{run.creditsUsed} credits</span>
+          </div>
+          <Progress value={(run.turnsCompleted / Math.max(run.targetTurns, 1)) * 100} className="h-2" />
+          {run.currentTurn !== null && (
+            <div className="flex items-center gap-2 text-xs">
+              <Radio className={`w-3 h-3 ${isAttached ? 'text-red-500' : 'text-muted-foreground'}`} />
+              <span>Playing turn {run.currentTurn}{liveSpeaker ? ` · ${liveSpeaker}` : ''}</span>
+            </div>
+          )}
+          {run.statusReason && <p className="text-xs text-muted-foreground">{run.statusReason}</p>}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {onQueue && (!run || run.status === 'completed') && (
+          <Button size="sm" className="flex-1" disabled={!canQueue || isPending} onClick={onQueue}>
+            {isPending ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Play className="w-3 h-3 mr-1" />}
+            Queue on server
+          </Button>
+        )}
+        {run?.status === 'running' && run.live && (
+          <Button size="sm" variant="outline" className="flex-1" disabled={isPending} onClick={onStop}>
+            <Square className="w-3 h-3 mr-1" />
+            Stop after this turn
+          </Button>
+        )}
+        {canResume && (
+          <Button size="sm" variant="outline" className="flex-1" disabled={isPending} onClick={onResume}>
+            <Play className="w-3 h-3 mr-1" />
+            Resume
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
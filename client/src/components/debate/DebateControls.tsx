@@ -1,12 +1,14 @@
 // * Author: gpt-5-codex
 // * Date: 2025-10-17 19:26 UTC
 // * PURPOSE: Expand debate controls with phase toggles, floor status, and optional jury review cues for upcoming turns.
+//            Optionally records the jury's points as a leaderboard verdict for the persisted session, and asks the
+//            judge model to adjudicate the session once closing arguments are reached.
 // * SRP/DRY check: Pass - Still orchestrates debate-level controls without absorbing other responsibilities.
 /**
  * Debate controls component for managing debate flow
  */
 
-import { ChevronUp, ChevronDown, Download, Copy, RotateCcw, Gavel, Clock, AlertTriangle } from 'lucide-react';
+import { ChevronUp, ChevronDown, Download, Copy, RotateCcw, Gavel, Clock, AlertTriangle, Trophy, Scale } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { formatCost } from '@/lib/formatUtils';
 import { Badge } from '@/components/ui/badge';
@@ -28,6 +30,11 @@ interface DebateControlsProps {
   isFloorOpen: boolean;
   onToggleFloor: () => void;
   hasJuryPending: boolean;
+  onRecordVerdict?: () => void;
+  isRecordingVerdict?: boolean;
+  onAdjudicate?: () => void;
+  isAdjudicating?: boolean;
+  hasJudgeVerdict?: boolean;
 }
 
 export function DebateControls({
@@ -46,6 +53,11 @@ export function DebateControls({
   isFloorOpen,
   onToggleFloor,
   hasJuryPending,
+  onRecordVerdict,
+  isRecordingVerdict = false,
+  onAdjudicate,
+  isAdjudicating = false,
+  hasJudgeVerdict = false,
 }: DebateControlsProps) {
   const phaseLabel: Record<DebatePhase, string> = {
     OPENING_STATEMENTS: 'Opening Statements',
@@ -164,6 +176,28 @@ export function DebateControls({
             Closing arguments in progress. Capture verdicts before ending the session.
           </div>
         )}
+        {onRecordVerdict && isFinalPhase && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onRecordVerdict}
+            disabled={hasJuryPending || isPending || isRecordingVerdict}
+          >
+            <Trophy className="w-4 h-4 mr-2" />
+            {isRecordingVerdict ? 'Recording...' : 'Record Verdict'}
+          </Button>
+        )}
+        {onAdjudicate && isFinalPhase && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onAdjudicate}
+            disabled={isPending || isAdjudicating}
+          >
+            <Scale className="w-4 h-4 mr-2" />
+            {isAdjudicating ? 'Adjudicating...' : hasJudgeVerdict ? 'Re-adjudicate' : 'Ask Judge'}
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,157 @@
+// * Author: agent
+// * Date: 2026-10-19
+// * PURPOSE: Dialog for forking a debate at a saved turn. Each seat keeps its model or is handed to another
+// *          model (or to you), and the intensity for the remaining turns can be changed, so the same position
+// *          can be replayed by different debaters and compared.
+// * SRP/DRY check: Pass - Collects fork options only; the page sends the request and opens the new session.
+// * shadcn/ui: Pass - Uses Dialog, Select, Button and Badge
+import { useEffect, useState } from 'react';
+import { GitBranch, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import type { AIModel } from '@/types/ai-models';
+import { DEBATE_HUMAN_MODEL_ID, type DebateParticipant } from '@shared/debate-participants';
+
+const INTENSITY_LEVELS = [
+  { id: 1, name: 'Respectful' },
+  { id: 2, name: 'Assertive' },
+  { id: 3, name: 'Aggressive' },
+  { id: 4, name: 'Combative' },
+];
+
+export interface DebateForkOptions {
+  /** Seat id -> new model; only seats that change are listed */
+  seatModels: Record<string, string>;
+  adversarialLevel: number;
+}
+
+interface DebateForkDialogProps {
+  /** Turn the fork copies up to; the dialog is closed when null */
+  turnNumber: number | null;
+  participants: DebateParticipant[];
+  models: AIModel[];
+  adversarialLevel: number;
+  isForking?: boolean;
+  onClose: () => void;
+  onConfirm: (options: DebateForkOptions) => void;
+}
+
+export function DebateForkDialog({
+  turnNumber,
+  participants,
+  models,
+  adversarialLevel,
+  isForking = false,
+  onClose,
+  onConfirm,
+}: DebateForkDialogProps) {
+  const [seatModels, setSeatModels] = useState<Record<string, string>>({});
+  const [level, setLevel] = useState(adversarialLevel);
+
+  // Every fork starts from the current seating and intensity
+  useEffect(() => {
+    if (turnNumber !== null) {
+      setSeatModels(Object.fromEntries(participants.map(seat => [seat.id, seat.modelId])));
+      setLevel(adversarialLevel);
+    }
+  }, [turnNumber, participants, adversarialLevel]);
+
+  const changedSeats = Object.fromEntries(
+    participants
+      .filter(seat => seatModels[seat.id] && seatModels[seat.id] !== seat.modelId)
+      .map(seat => [seat.id, seatModels[seat.id]])
+  );
+  const allHuman = participants.every(seat => (seatModels[seat.id] ?? seat.modelId) === DEBATE_HUMAN_MODEL_ID);
+
+  return (
+    <Dialog open={turnNumber !== null} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitBranch className="w-4 h-4" />
+            Fork at Turn {turnNumber}
+          </DialogTitle>
+          <DialogDescription>
+            The new debate keeps turns 1-{turnNumber} and continues from there. Change a seat's model or the
+            intensity to see how the debate would have gone instead.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {participants.map(seat => (
+            <div key={seat.id} className="space-y-1">
+              <label className="text-xs font-medium flex items-center gap-2">
+                {seat.label}
+                {changedSeats[seat.id] && <Badge variant="secondary" className="text-[10px]">Changed</Badge>}
+              </label>
+              <Select
+                value={seatModels[seat.id] ?? seat.modelId}
+                onValueChange={(value) => setSeatModels(current => ({ ...current, [seat.id]: value }))}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEBATE_HUMAN_MODEL_ID}>
+                    <span className="text-sm">You (human)</span>
+                  </SelectItem>
+                  {models.map(model => (
+                    <SelectItem key={model.id} value={model.id}>
+                      <div className="flex items-center space-x-2">
+                        <span className="text-sm">{model.name}</span>
+                        <Badge variant="outline" className="text-xs">{model.provider}</Badge>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+
+          <div className="space-y-1">
+            <label className="text-xs font-medium">Intensity</label>
+            <Select value={String(level)} onValueChange={(value) => setLevel(Number(value))}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INTENSITY_LEVELS.map(option => (
+                  <SelectItem key={option.id} value={String(option.id)}>
+                    Level {option.id} · {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {allHuman && (
+            <p className="text-xs text-destructive">At least one debater must be a model.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            disabled={isForking || allHuman}
+            onClick={() => onConfirm({ seatModels: changedSeats, adversarialLevel: level })}
+          >
+            {isForking ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <GitBranch className="w-4 h-4 mr-2" />}
+            Fork Debate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,68 @@
+// * Author: agent
+// * Date: 2026-10-19
+// * PURPOSE: Choose a structured debate format (Lincoln-Douglas, Oxford, parliamentary, ...) defined in
+//            debate-prompts.md, or keep the open-ended opening/rebuttal flow. Lists the chosen format's
+//            phases with their time or token limits.
+// * SRP/DRY check: Pass - Edits formatId in the debate setup store only; formats are parsed from markdown elsewhere.
+// * shadcn/ui: Pass - Uses Select and Badge
+import { ListOrdered } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { useDebateSetup } from '@/hooks/useDebateSetup';
+import { describePhaseLimit, findDebateFormat, type DebateFormat } from '@shared/debate-formats';
+
+const OPEN_ENDED = 'open-ended';
+
+interface DebateFormatSelectorProps {
+  formats: DebateFormat[];
+  disabled?: boolean;
+}
+
+export function DebateFormatSelector({ formats, disabled = false }: DebateFormatSelectorProps) {
+  const { formatId, setFormatId } = useDebateSetup();
+  const format = findDebateFormat(formats, formatId);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center space-x-2">
+        <ListOrdered className="w-4 h-4" />
+        <label className="text-sm font-semibold">Debate Format</label>
+      </div>
+
+      <Select
+        value={format?.id ?? OPEN_ENDED}
+        onValueChange={value => setFormatId(value === OPEN_ENDED ? null : value)}
+        disabled={disabled}
+      >
+        <SelectTrigger className="h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={OPEN_ENDED}>Open-ended (continue until you stop)</SelectItem>
+          {formats.map(entry => (
+            <SelectItem key={entry.id} value={entry.id}>{entry.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {format && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">{format.summary}</p>
+          <ol className="space-y-1">
+            {format.phases.map((phase, index) => {
+              const limit = describePhaseLimit(phase);
+              return (
+                <li key={phase.id} className="flex items-center gap-2 text-xs">
+                  <Badge variant="secondary">{index + 1}</Badge>
+                  <span className="flex-1">{phase.name}</span>
+                  {phase.kind === 'cross-examination' && <Badge variant="outline">Cross-ex</Badge>}
+                  {limit && <span className="text-muted-foreground">{limit}</span>}
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,11 +3,13 @@
  * Author: gpt-5-codex
  * Date: October 17, 2025 at 19:15 UTC
  * PURPOSE: Drawer component that surfaces persisted debate sessions (topic, duration, cost, jury summary) and
- *          lets users reopen a session to hydrate the transcript and scoring state.
+ *          lets users reopen a session to hydrate the transcript and scoring state. Forked debates are listed
+ *          as a tree under the session they branched from, labelled with the turn they were forked at.
  * SRP/DRY check: Pass - Focused on history presentation/selection while relying on hooks for state hydration.
  */
 
-import { History, RefreshCw, Clock, Scale } from 'lucide-react';
+import type { ReactNode } from 'react';
+import { History, RefreshCw, Clock, Scale, GitBranch } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -61,6 +63,22 @@ function formatTimestamp(timestamp?: string): string {
   return value.toLocaleString();
 }
 
+interface SessionTreeNode {
+  session: DebateSessionSummary;
+  forks: SessionTreeNode[];
+}
+
+/** Nests forks under the session they were forked from; a fork whose parent is not listed becomes a root */
+function buildSessionTree(sessions: DebateSessionSummary[]): SessionTreeNode[] {
+  const nodes = new Map(sessions.map(session => [session.id, { session, forks: [] as SessionTreeNode[] }]));
+  const roots: SessionTreeNode[] = [];
+  for (const node of Array.from(nodes.values())) {
+    const parent = node.session.parentSessionId ? nodes.get(node.session.parentSessionId) : undefined;
+    (parent ? parent.forks : roots).push(node);
+  }
+  return roots;
+}
+
 export function DebateHistoryDrawer({
   sessions,
   onRefresh,
@@ -70,6 +88,78 @@ export function DebateHistoryDrawer({
 }: DebateHistoryDrawerProps) {
   const hasSessions = sessions.length > 0;
 
+  const renderNode = ({ session, forks }: SessionTreeNode): ReactNode => {
+    const isActive = session.id === activeSessionId;
+    const duration = formatDuration(session.durationMs, session.createdAt, session.updatedAt);
+    const verdictText = session.jury?.verdict || session.jury?.summary;
+
+    return (
+      <div key={session.id} className="space-y-3">
+        <div
+          className={`rounded-lg border p-4 transition-colors ${
+            isActive ? 'border-primary bg-primary/5' : 'border-muted'
+          }`}
+        >
+          <div className="flex items-start justify-between gap-3">
+            <div className="space-y-1">
+              <p className="text-sm font-medium leading-tight">{session.topic}</p>
+              <p className="text-xs text-muted-foreground">
+                Started {formatTimestamp(session.createdAt)}
+              </p>
+              {session.parentSessionId && (
+                <p className="flex items-center space-x-1 text-xs text-muted-foreground">
+                  <GitBranch className="w-3 h-3" />
+                  <span>Forked at turn {session.forkedAtTurn}</span>
+                </p>
+              )}
+            </div>
+            <div className="flex items-center space-x-2">
+              {verdictText && (
+                <Badge variant={isActive ? 'default' : 'outline'} className="text-[10px]">
+                  {verdictText}
+                </Badge>
+              )}
+              <Button
+                size="sm"
+                variant={isActive ? 'default' : 'outline'}
+                onClick={() => onSelectSession(session)}
+              >
+                {isActive ? 'Active' : 'Reopen'}
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 mt-3 text-xs text-muted-foreground">
+            <div className="flex items-center space-x-2">
+              <Clock className="w-3 h-3" />
+              <span>Duration: {duration}</span>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Scale className="w-3 h-3" />
+              <span>Cost: {formatCost(session.totalCost)}</span>
+            </div>
+            {session.turnCount !== undefined && (
+              <div className="col-span-2">
+                Turns Recorded: {session.turnCount}
+              </div>
+            )}
+            {session.jury?.summary && (
+              <div className="col-span-2 text-muted-foreground italic">
+                Jury: {session.jury.summary}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {forks.length > 0 && (
+          <div className="ml-4 pl-3 border-l-2 border-dashed border-muted space-y-3">
+            {forks.map(renderNode)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <Card className="shadow-sm">
       <CardHeader className="pb-2">
@@ -97,64 +187,7 @@ export function DebateHistoryDrawer({
 
               <div className="px-6 pb-6 space-y-3 max-h-[60vh] overflow-y-auto">
                 {hasSessions ? (
-                  sessions.map(session => {
-                    const isActive = session.id === activeSessionId;
-                    const duration = formatDuration(session.durationMs, session.createdAt, session.updatedAt);
-                    const verdictText = session.jury?.verdict || session.jury?.summary;
-
-                    return (
-                      <div
-                        key={session.id}
-                        className={`rounded-lg border p-4 transition-colors ${
-                          isActive ? 'border-primary bg-primary/5' : 'border-muted'
-                        }`}
-                      >
-                        <div className="flex items-start justify-between gap-3">
-                          <div className="space-y-1">
-                            <p className="text-sm font-medium leading-tight">{session.topic}</p>
-                            <p className="text-xs text-muted-foreground">
-                              Started {formatTimestamp(session.createdAt)}
-                            </p>
-                          </div>
-                          <div className="flex items-center space-x-2">
-                            {verdictText && (
-                              <Badge variant={isActive ? 'default' : 'outline'} className="text-[10px]">
-                                {verdictText}
-                              </Badge>
-                            )}
-                            <Button
-                              size="sm"
-                              variant={isActive ? 'default' : 'outline'}
-                              onClick={() => onSelectSession(session)}
-                            >
-                              {isActive ? 'Active' : 'Reopen'}
-                            </Button>
-                          </div>
-                        </div>
-
-                        <div className="grid grid-cols-2 gap-3 mt-3 text-xs text-muted-foreground">
-                          <div className="flex items-center space-x-2">
-                            <Clock className="w-3 h-3" />
-                            <span>Duration: {duration}</span>
-                          </div>
-                          <div className="flex items-center space-x-2">
-                            <Scale className="w-3 h-3" />
-                            <span>Cost: {formatCost(session.totalCost)}</span>
-                          </div>
-                          {session.turnCount !== undefined && (
-                            <div className="col-span-2">
-                              Turns Recorded: {session.turnCount}
-                            </div>
-                          )}
-                          {session.jury?.summary && (
-                            <div className="col-span-2 text-muted-foreground italic">
-                              Jury: {session.jury.summary}
-                            </div>
-                          )}
-                        </div>
-                      </div>
-                    );
-                  })
+                  buildSessionTree(sessions).map(renderNode)
                 ) : (
                   <div className="rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">
                     No stored debates yet. Start a session and it will appear here.
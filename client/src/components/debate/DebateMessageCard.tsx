@@ -2,12 +2,15 @@
  * Author: GPT-5 Codex
  * Date: 2025-10-17 19:18 UTC
  * PURPOSE: Wrap MessageCard with a debate-specific log drawer that replays reasoning chunks and analytics.
+ *          Fact-checked turns show their claims marked inline, with disputed ones highlighted, and a claim summary.
+ *          A Fork action branches the debate from this turn.
  * SRP/DRY check: Pass - Component coordinates debate message presentation and log replay without owning session state.
  */
 
 import { useMemo, useState } from 'react';
 import { MessageCard, type MessageCardData } from '@/components/MessageCard';
 import { ReasoningTimeline } from '@/components/debate/ReasoningTimeline';
+import { FactCheckedText, FactCheckSummary } from '@/components/debate/FactCheckedContent';
 import {
   Drawer,
   DrawerTrigger,
@@ -21,7 +24,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
-import { Flame, Link as LinkIcon, FileText, Coins } from 'lucide-react';
+import { Flame, Link as LinkIcon, FileText, Coins, SearchCheck, Loader2, GitBranch } from 'lucide-react';
 import type { DebateMessage } from '@/hooks/useDebateSession';
 import type { AIModel } from '@/types/ai-models';
 import { computeInflectionThreshold, weightChunks } from '@/lib/chunkAnalytics';
@@ -32,6 +35,11 @@ interface DebateMessageCardProps {
   models: AIModel[];
   seatColor?: string;
   opponentMessages: DebateMessage[];
+  /** Runs (or re-runs) the fact-check for this turn; the action is hidden when omitted */
+  onFactCheck?: () => void;
+  isFactChecking?: boolean;
+  /** Opens the fork dialog for this turn; the action is hidden when omitted */
+  onFork?: () => void;
 }
 
 interface ChunkInsight<T extends ContentStreamChunk | ReasoningStreamChunk> {
@@ -128,7 +136,10 @@ export function DebateMessageCard({
   message,
   models,
   seatColor,
-  opponentMessages
+  opponentMessages,
+  onFactCheck,
+  isFactChecking = false,
+  onFork
 }: DebateMessageCardProps) {
   const messageData = useMemo(() => toMessageCardData(message, models), [message, models]);
   const reasoningChunks = message.reasoningChunks ?? [];
@@ -197,17 +208,41 @@ export function DebateMessageCard({
         showFooter
         className="shadow-sm"
         seatColor={seatColor}
+        contentOverride={
+          message.factCheck ? <FactCheckedText content={message.content} factCheck={message.factCheck} /> : undefined
+        }
         footerActions={
-          (reasoningChunks.length > 0 || contentChunks.length > 0) && (
-            <DrawerTrigger asChild>
-              <Button size="sm" variant="outline" className="h-8 text-xs font-semibold">
-                <FileText className="mr-2 h-4 w-4" />
-                View Log
+          <>
+            {onFactCheck && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-8 text-xs font-semibold"
+                disabled={isFactChecking}
+                onClick={onFactCheck}
+              >
+                {isFactChecking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <SearchCheck className="mr-2 h-4 w-4" />}
+                {message.factCheck ? 'Re-check Facts' : 'Fact-check'}
+              </Button>
+            )}
+            {onFork && (
+              <Button size="sm" variant="outline" className="h-8 text-xs font-semibold" onClick={onFork}>
+                <GitBranch className="mr-2 h-4 w-4" />
+                Fork
               </Button>
-            </DrawerTrigger>
-          )
+            )}
+            {(reasoningChunks.length > 0 || contentChunks.length > 0) && (
+              <DrawerTrigger asChild>
+                <Button size="sm" variant="outline" className="h-8 text-xs font-semibold">
+                  <FileText className="mr-2 h-4 w-4" />
+                  View Log
+                </Button>
+              </DrawerTrigger>
+            )}
+          </>
         }
       />
+      {message.factCheck && <FactCheckSummary factCheck={message.factCheck} />}
 
       <DrawerContent className="max-h-[85vh]">
         <DrawerHeader className="text-left">
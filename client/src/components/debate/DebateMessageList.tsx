@@ -1,6 +1,9 @@
 // * Author: GPT-5 Codex
 // * Date: 2025-10-17 19:47 UTC
 // * PURPOSE: Clean debate transcript list post-merge, delegating rendering to DebateMessageCard while guarding continue controls.
+// *          Each message is labelled and coloured by the seat that spoke, so panel debates read clearly.
+// *          Format sessions label each message with its phase (and question or answer in cross-examination).
+// *          Saved turns offer a fact-check action when the page supplies one, and a fork action likewise.
 // * SRP/DRY check: Pass - Component focuses on list composition and continue button state.
 
 import { Play, Loader2 } from 'lucide-react';
@@ -9,64 +12,100 @@ import { Badge } from '@/components/ui/badge';
 import type { AIModel } from '@/types/ai-models';
 import type { DebateMessage } from '@/hooks/useDebateSession';
 import { DebateMessageCard } from '@/components/debate/DebateMessageCard';
+import type { DebateParticipant } from '@shared/debate-participants';
+import { debateTurnSlot, speakerForFormatTurn, type DebateTurnSlot } from '@shared/debate-formats';
 
 interface DebateMessageListProps {
   messages: DebateMessage[];
   models: AIModel[];
-  model1Id: string;
-  model2Id: string;
+  participants: DebateParticipant[];
+  speakingOrder: string[] | null;
+  /** Turn plan of the session's debate format; null for the open-ended flow */
+  turnPlan?: DebateTurnSlot[] | null;
   currentRound: number;
   isStreaming: boolean;
   onContinueDebate: () => void;
   disableContinue?: boolean;
   disableReason?: string;
+  /** Fact-checks one saved turn; omitted before the session is saved */
+  onFactCheckTurn?: (turnNumber: number) => void;
+  /** Turn whose fact-check is in flight, if any */
+  factCheckingTurn?: number | null;
+  /** Forks the debate at one saved turn; omitted before the session is saved or while a turn streams */
+  onForkTurn?: (turnNumber: number) => void;
 }
 
+const SEAT_COLORS = [
+  { dot: 'bg-blue-500', card: 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800' },
+  { dot: 'bg-green-500', card: 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800' },
+  { dot: 'bg-amber-500', card: 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800' },
+  { dot: 'bg-purple-500', card: 'bg-purple-50 dark:bg-purple-900/20 border-purple-200 dark:border-purple-800' },
+  { dot: 'bg-rose-500', card: 'bg-rose-50 dark:bg-rose-900/20 border-rose-200 dark:border-rose-800' },
+  { dot: 'bg-cyan-500', card: 'bg-cyan-50 dark:bg-cyan-900/20 border-cyan-200 dark:border-cyan-800' },
+];
+
 export function DebateMessageList({
   messages,
   models,
-  model1Id,
-  model2Id,
+  participants,
+  speakingOrder,
+  turnPlan = null,
   currentRound,
   isStreaming,
   onContinueDebate,
   disableContinue = false,
   disableReason,
+  onFactCheckTurn,
+  factCheckingTurn = null,
+  onForkTurn,
 }: DebateMessageListProps) {
+  const seating = {
+    model1Id: participants[0]?.modelId ?? '',
+    model2Id: participants[1]?.modelId ?? '',
+    participants,
+    speakingOrder,
+  };
+  // Messages from before seats were recorded fall back to the speaking order
+  const seatOf = (message: DebateMessage) =>
+    participants.find(seat => seat.id === message.participantId) ?? speakerForFormatTurn(seating, turnPlan, message.turnNumber);
+  const nextModelId = speakerForFormatTurn(seating, turnPlan, currentRound + 1).modelId;
+  const nextModelName = models.find(model => model.id === nextModelId)?.name ?? 'Next Model';
+
   return (
     <div className="space-y-4">
       {messages.map((message, index) => {
-        const seatColor =
-          message.modelId === model1Id
-            ? 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800'
-            : 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800';
-        const opponentMessages = messages.filter(m => m.modelId !== message.modelId);
+        const seat = seatOf(message);
+        const seatIndex = Math.max(0, participants.findIndex(participant => participant.id === seat.id));
+        const colors = SEAT_COLORS[seatIndex % SEAT_COLORS.length];
+        const sidesWithOpener = seatIndex === 0 || (seat.team !== null && seat.team === participants[0]?.team);
+        const opponentMessages = messages.filter(m => seatOf(m).id !== seat.id);
         const continueDisabled = isStreaming || disableContinue;
-        const nextModelId = currentRound % 2 === 1 ? model2Id : model1Id;
-        const nextModelName = models.find(model => model.id === nextModelId)?.name ?? 'Next Model';
+        const slot = debateTurnSlot(turnPlan, message.turnNumber);
+        const stage = slot
+          ? `${slot.phase.name}${slot.action === 'speech' ? '' : slot.action === 'question' ? ' · Question' : ' · Answer'}`
+          : `Round ${message.round}`;
 
         return (
           <div
             key={message.id}
             id={message.id}
-            className={message.modelId === model1Id ? 'ml-0 mr-8' : 'ml-8 mr-0'}
+            className={sidesWithOpener ? 'ml-0 mr-8' : 'ml-8 mr-0'}
           >
             <div className="flex items-center space-x-2 mb-2">
-              <div
-                className={`w-3 h-3 rounded-full ${
-                  message.modelId === model1Id ? 'bg-blue-500' : 'bg-green-500'
-                }`}
-              />
+              <div className={`w-3 h-3 rounded-full ${colors.dot}`} />
               <Badge variant="outline" className="text-xs">
-                {message.modelId === model1Id ? 'Affirmative' : 'Negative'} · Round {message.round}
+                {seat.label} · {stage}
               </Badge>
             </div>
 
             <DebateMessageCard
               message={message}
               models={models}
-              seatColor={seatColor}
+              seatColor={colors.card}
               opponentMessages={opponentMessages}
+              onFactCheck={onFactCheckTurn && message.content.trim() ? () => onFactCheckTurn(message.turnNumber) : undefined}
+              isFactChecking={factCheckingTurn === message.turnNumber}
+              onFork={onForkTurn ? () => onForkTurn(message.turnNumber) : undefined}
             />
 
             {index === messages.length - 1 && currentRound > 0 && (
@@ -0,0 +1,162 @@
+// * Author: agent
+// * Date: 2026-10-19
+// * PURPOSE: Add panelists beyond the Affirmative and Negative debaters for panel formats and multi-way policy
+//            debates. Each panelist joins a team or argues its own stated position, and the speaking order of
+//            all seats can be rearranged.
+// * SRP/DRY check: Pass - Edits panel seats in the debate setup store only; seat normalization is shared.
+// * shadcn/ui: Pass - Uses Select, Input, Button and Badge
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ModelConfigurationPanel } from '@/components/ModelConfigurationPanel';
+import { useDebateSetup } from '@/hooks/useDebateSetup';
+import { selectDebateParticipants } from '@/stores/useDebateSetupStore';
+import type { AIModel } from '@/types/ai-models';
+import { DEBATE_MAX_PARTICIPANTS, resolveSpeakingOrder } from '@shared/debate-participants';
+
+const OWN_POSITION = 'own';
+
+interface DebateParticipantsEditorProps {
+  models: AIModel[];
+  isStreaming: boolean;
+}
+
+export function DebateParticipantsEditor({ models, isStreaming }: DebateParticipantsEditorProps) {
+  const debateSetup = useDebateSetup();
+  const {
+    extraParticipants,
+    addExtraParticipant,
+    updateExtraParticipant,
+    removeExtraParticipant,
+    setSpeakingOrder,
+  } = debateSetup;
+
+  const participants = selectDebateParticipants(debateSetup);
+  const order = resolveSpeakingOrder({
+    model1Id: debateSetup.model1Id,
+    model2Id: debateSetup.model2Id,
+    participants,
+    speakingOrder: debateSetup.speakingOrder,
+  });
+  const modelName = (modelId: string) => models.find(model => model.id === modelId)?.name ?? modelId;
+
+  const moveSeat = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= order.length) return;
+    const next = [...order];
+    [next[index], next[target]] = [next[target], next[index]];
+    setSpeakingOrder(next);
+  };
+
+  return (
+    <div className="space-y-3 pt-2 border-t">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-medium">Panelists</h4>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs"
+          disabled={isStreaming || participants.length >= DEBATE_MAX_PARTICIPANTS || models.length === 0}
+          onClick={() => addExtraParticipant(models[0].id)}
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Add panelist
+        </Button>
+      </div>
+
+      {extraParticipants.map((seat, index) => {
+        const seatModel = models.find(model => model.id === seat.modelId);
+        return (
+          <div key={index} className="space-y-2 rounded border p-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium">{participants[index + 2]?.label}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                disabled={isStreaming}
+                onClick={() => removeExtraParticipant(index)}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+
+            <Select value={seat.modelId} onValueChange={modelId => updateExtraParticipant(index, { modelId })}>
+              <SelectTrigger className="h-8">
+                <SelectValue placeholder="Select panelist" />
+              </SelectTrigger>
+              <SelectContent>
+                {models.map(model => (
+                  <SelectItem key={model.id} value={model.id}>
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm">{model.name}</span>
+                      <Badge variant="outline" className="text-xs">{model.provider}</Badge>
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={seat.team ?? OWN_POSITION}
+              onValueChange={value => updateExtraParticipant(index, { team: value === OWN_POSITION ? null : value })}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="Affirmative">Joins the Affirmative team</SelectItem>
+                <SelectItem value="Negative">Joins the Negative team</SelectItem>
+                <SelectItem value={OWN_POSITION}>Argues its own position</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {seat.team === null && (
+              <Input
+                className="h-8 text-xs"
+                placeholder="e.g. Fund bus rapid transit instead"
+                value={seat.position}
+                onChange={event => updateExtraParticipant(index, { position: event.target.value })}
+              />
+            )}
+
+            <ModelConfigurationPanel
+              configuration={seat.config}
+              onConfigurationChange={config => updateExtraParticipant(index, { config })}
+              modelName={seatModel?.name}
+              modelProvider={seatModel?.provider}
+              modelSupportsTemperature={seatModel?.supportsTemperature}
+              modelIsReasoning={seatModel?.isReasoning}
+              modelSupportsStructuredOutput={seatModel?.supportsStructuredOutput}
+              isStreaming={isStreaming}
+            />
+          </div>
+        );
+      })}
+
+      {extraParticipants.length > 0 && (
+        <div className="space-y-1">
+          <h4 className="text-xs font-medium">Speaking order</h4>
+          {order.map((seatId, index) => {
+            const seat = participants.find(participant => participant.id === seatId);
+            if (!seat) return null;
+            return (
+              <div key={seatId} className="flex items-center gap-2 text-xs">
+                <Badge variant="secondary">{index + 1}</Badge>
+                <span className="flex-1 truncate">{seat.label} · {modelName(seat.modelId)}</span>
+                <Button variant="ghost" size="sm" className="h-6 w-6 p-0" disabled={isStreaming || index === 0} onClick={() => moveSeat(index, -1)}>
+                  <ArrowUp className="w-3 h-3" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-6 w-6 p-0" disabled={isStreaming || index === order.length - 1} onClick={() => moveSeat(index, 1)}>
+                  <ArrowDown className="w-3 h-3" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
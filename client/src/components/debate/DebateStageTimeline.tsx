@@ -1,10 +1,10 @@
 // * Author: gpt-5-codex
 // * Date: 2025-10-17 18:40 UTC
 // * PURPOSE: Visualize Robert's Rules debate phases with timers, speaker order, and floor status cues.
+// *          Structured debate formats supply their own phases, with each phase's time or token limit.
 // * SRP/DRY check: Pass - Dedicated to rendering the stage timeline without managing external state.
 import { useEffect, useMemo, useState } from 'react';
 import { Gavel, Users, Timer, CheckCircle2, Circle } from 'lucide-react';
-import type { DebatePhase } from '@/hooks/useDebateSession';
 import { Badge } from '@/components/ui/badge';
 
 interface SpeakerInfo {
@@ -14,17 +14,22 @@ interface SpeakerInfo {
 }
 
 interface PhaseDescriptor {
-  id: DebatePhase;
+  /** A Robert's Rules DebatePhase or a debate format's phase id */
+  id: string;
   label: string;
   description: string;
   speakers: SpeakerInfo[];
+  /** e.g. "6 min (about 900 words)" for format phases */
+  limit?: string | null;
 }
 
 interface DebateStageTimelineProps {
   phases: PhaseDescriptor[];
-  currentPhase: DebatePhase;
-  phaseTimestamps: Partial<Record<DebatePhase, number>>;
+  currentPhase: string;
+  phaseTimestamps: Partial<Record<string, number>>;
   floorOpen: boolean;
+  /** Name of the structured format being followed; Robert's Rules when omitted */
+  formatName?: string | null;
   currentSpeaker?: SpeakerInfo | null;
   rebuttalQueue?: SpeakerInfo[];
 }
@@ -48,6 +53,7 @@ export function DebateStageTimeline({
   floorOpen,
   currentSpeaker,
   rebuttalQueue = [],
+  formatName,
 }: DebateStageTimelineProps) {
   const [now, setNow] = useState(() => Date.now());
 
@@ -81,7 +87,7 @@ export function DebateStageTimeline({
             <Gavel className="w-4 h-4" /> Debate Stage Timeline
           </h2>
           <p className="text-xs text-muted-foreground">
-            Track procedural phases and speaker order following Robert's Rules.
+            Track procedural phases and speaker order following {formatName ?? "Robert's Rules"}.
           </p>
         </div>
         <Badge variant={floorOpen ? 'outline' : 'secondary'} className={floorOpen ? 'border-green-600 text-green-700 dark:text-green-400 dark:border-green-500' : 'bg-amber-500/20 text-amber-600 dark:text-amber-300'}>
@@ -111,7 +117,10 @@ export function DebateStageTimeline({
                   <Circle className="w-4 h-4 text-muted-foreground" />
                 )}
                 <div>
-                  <div className="text-sm font-medium">{phase.label}</div>
+                  <div className="text-sm font-medium flex items-center gap-2">
+                    {phase.label}
+                    {phase.limit && <Badge variant="outline" className="text-[10px] font-normal">{phase.limit}</Badge>}
+                  </div>
                   <div className="text-xs text-muted-foreground">{phase.description}</div>
                 </div>
               </div>
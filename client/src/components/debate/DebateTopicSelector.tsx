@@ -5,15 +5,28 @@
  * Date: 2025-10-22 (REVISED)
  * PURPOSE: Compact topic selection showing full topic text prominently.
  *          Displays selected topic with description, allows quick changes.
+ *          Topics come from the catalog API with their difficulty and tags, can be narrowed by tag,
+ *          and a custom proposition can be saved to the catalog for reuse.
  * SRP/DRY check: Pass - Single responsibility, no duplication
  */
 
-import { Edit2 } from 'lucide-react';
+import { useState } from 'react';
+import { Edit2, Loader2, Save } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { useDebateSetup } from '@/hooks/useDebateSetup';
-import { useDebatePrompts } from '@/hooks/useDebatePrompts';
+import { useDebateTopics } from '@/hooks/useDebateTopics';
+import {
+  DEBATE_TOPIC_DIFFICULTIES,
+  DEFAULT_DEBATE_TOPIC_DIFFICULTY,
+  DEBATE_TOPIC_MAX_TAGS,
+  type DebateTopicDifficulty,
+} from '@shared/debate-topic-types';
+
+const ALL_TAGS = '__all__';
 
 export function DebateTopicSelector() {
   const {
@@ -25,7 +38,11 @@ export function DebateTopicSelector() {
     setUseCustomTopic,
   } = useDebateSetup();
 
-  const { debateData } = useDebatePrompts();
+  const { topics, tags, isLoading, createTopic, isCreating } = useDebateTopics();
+  const [tagFilter, setTagFilter] = useState(ALL_TAGS);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [draftTags, setDraftTags] = useState('');
+  const [draftDifficulty, setDraftDifficulty] = useState<DebateTopicDifficulty>(DEFAULT_DEBATE_TOPIC_DIFFICULTY);
 
   const handleTopicChange = (value: string) => {
     if (value === '__custom__') {
@@ -36,9 +53,30 @@ export function DebateTopicSelector() {
     }
   };
 
+  const handleSaveTopic = async () => {
+    try {
+      const topic = await createTopic({
+        title: draftTitle.trim(),
+        proposition: customTopic.trim(),
+        tags: draftTags.split(',').map(tag => tag.trim()).filter(Boolean).slice(0, DEBATE_TOPIC_MAX_TAGS),
+        difficulty: draftDifficulty,
+      });
+      setDraftTitle('');
+      setDraftTags('');
+      setSelectedTopic(topic.id);
+      setUseCustomTopic(false);
+    } catch {
+      // The hook reports the failure; keep the draft so it can be fixed
+    }
+  };
+
   // Get the selected topic object for display
-  const selectedTopicObj = debateData?.topics.find(t => t.id === selectedTopic);
+  const selectedTopicObj = topics.find(t => t.id === selectedTopic);
   const displayTopic = useCustomTopic ? customTopic : selectedTopicObj?.proposition || '';
+  // The selected topic stays listed even when the tag filter would hide it
+  const visibleTopics = topics.filter(topic =>
+    tagFilter === ALL_TAGS || topic.tags.includes(tagFilter) || topic.id === selectedTopic
+  );
 
   return (
     <div className="space-y-2">
@@ -51,6 +89,15 @@ export function DebateTopicSelector() {
           <p className="text-sm font-medium text-gray-900 dark:text-white leading-snug">
             {displayTopic}
           </p>
+          {!useCustomTopic && selectedTopicObj && (
+            <div className="mt-2 flex flex-wrap gap-1">
+              <Badge variant="secondary" className="text-[10px] capitalize">{selectedTopicObj.difficulty}</Badge>
+              {selectedTopicObj.source === 'custom' && <Badge variant="outline" className="text-[10px]">Custom</Badge>}
+              {selectedTopicObj.tags.map(tag => (
+                <Badge key={tag} variant="outline" className="text-[10px]">{tag}</Badge>
+              ))}
+            </div>
+          )}
         </div>
       )}
 
@@ -63,12 +110,13 @@ export function DebateTopicSelector() {
               onValueChange={handleTopicChange}
             >
               <SelectTrigger className="w-full text-sm">
-                <SelectValue placeholder="Choose debate topic..." />
+                <SelectValue placeholder={isLoading ? 'Loading topics...' : 'Choose debate topic...'} />
               </SelectTrigger>
               <SelectContent>
-                {debateData?.topics.map((topic) => (
+                {visibleTopics.map((topic) => (
                   <SelectItem key={topic.id} value={topic.id}>
                     {topic.title}
+                    <span className="ml-2 text-xs text-muted-foreground capitalize">{topic.difficulty}</span>
                   </SelectItem>
                 ))}
                 <SelectItem value="__custom__">
@@ -86,6 +134,20 @@ export function DebateTopicSelector() {
           )}
         </div>
 
+        {!useCustomTopic && tags.length > 0 && (
+          <Select value={tagFilter} onValueChange={setTagFilter}>
+            <SelectTrigger className="w-32 text-xs">
+              <SelectValue placeholder="Tag" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_TAGS}>All tags</SelectItem>
+              {tags.map(tag => (
+                <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
         {useCustomTopic && (
           <Button
             onClick={() => setUseCustomTopic(false)}
@@ -97,6 +159,45 @@ export function DebateTopicSelector() {
           </Button>
         )}
       </div>
+
+      {/* Save the custom proposition to the catalog */}
+      {useCustomTopic && customTopic.trim().length >= 10 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            value={draftTitle}
+            onChange={(e) => setDraftTitle(e.target.value)}
+            placeholder="Short title"
+            maxLength={120}
+            className="h-8 flex-1 min-w-[8rem] text-xs"
+          />
+          <Input
+            value={draftTags}
+            onChange={(e) => setDraftTags(e.target.value)}
+            placeholder="Tags, comma-separated"
+            className="h-8 flex-1 min-w-[8rem] text-xs"
+          />
+          <Select value={draftDifficulty} onValueChange={(value) => setDraftDifficulty(value as DebateTopicDifficulty)}>
+            <SelectTrigger className="h-8 w-32 text-xs capitalize">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DEBATE_TOPIC_DIFFICULTIES.map(level => (
+                <SelectItem key={level} value={level} className="capitalize">{level}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8 text-xs"
+            disabled={!draftTitle.trim() || isCreating}
+            onClick={() => void handleSaveTopic()}
+          >
+            {isCreating ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Save className="w-3 h-3 mr-1" />}
+            Save topic
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
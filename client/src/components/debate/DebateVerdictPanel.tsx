@@ -0,0 +1,100 @@
+// * Author: agent
+// * Date: 2026-10-19
+// * PURPOSE: Show the judge model's adjudication of a debate: winner, per-side average, a score and comment
+//            for every turn, and the strongest and weakest points it cited. Panel verdicts list every side.
+// * SRP/DRY check: Pass - Display only; the verdict is requested and held by the debate page.
+// * shadcn/ui: Pass - Uses Card and Badge
+import { Scale, ThumbsDown, ThumbsUp, Trophy } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { formatCost } from '@/lib/formatUtils';
+import type { AIModel } from '@/types/ai-models';
+import { DEBATE_ARGUMENT_SCORE_MAX, debateSideLabel, type DebateCitedPoint, type DebateVerdict } from '@shared/debate-verdict-types';
+
+interface DebateVerdictPanelProps {
+  verdict: DebateVerdict;
+  models: AIModel[];
+}
+
+export function DebateVerdictPanel({ verdict, models }: DebateVerdictPanelProps) {
+  const modelName = (modelId: string) => models.find(model => model.id === modelId)?.name ?? modelId;
+  const sideLabel = (side: string) => debateSideLabel(verdict, side);
+
+  const renderPoints = (points: DebateCitedPoint[]) => (
+    <ul className="space-y-1">
+      {points.map((point, index) => (
+        <li key={`${point.side}-${point.turn ?? 'none'}-${index}`} className="text-xs">
+          <span className="font-medium">
+            {sideLabel(point.side)}{point.turn !== null ? `, turn ${point.turn}` : ''}:
+          </span>{' '}
+          {point.point}
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <Scale className="w-4 h-4" />
+            Judge Verdict
+          </span>
+          <span className="text-xs font-normal text-muted-foreground">
+            {modelName(verdict.judgeModelId)}{verdict.cost ? ` • ${formatCost(verdict.cost.total)}` : ''}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Trophy className="w-4 h-4 text-amber-500" />
+          {verdict.winner === 'tie' || !verdict.winnerModelId ? (
+            <span className="text-sm font-semibold">Tie</span>
+          ) : (
+            <span className="text-sm font-semibold">
+              {modelName(verdict.winnerModelId)} ({sideLabel(verdict.winner)}) wins
+            </span>
+          )}
+          {Object.entries(verdict.sideAverages).map(([side, average]) => (
+            <Badge key={side} variant="outline">{sideLabel(side)} avg {average}</Badge>
+          ))}
+        </div>
+
+        <p className="text-sm text-muted-foreground">{verdict.summary}</p>
+
+        <div className="space-y-1">
+          {verdict.turnScores.map(score => (
+            <div key={score.turn} className="flex items-start gap-2 text-xs">
+              <Badge variant="secondary" className="shrink-0">{score.score}/{DEBATE_ARGUMENT_SCORE_MAX}</Badge>
+              <div>
+                <span className="font-medium">
+                  Turn {score.turn} - {modelName(score.modelId)} ({sideLabel(score.side)})
+                </span>
+                {score.comment && <span className="text-muted-foreground"> {score.comment}</span>}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {verdict.strongestPoints.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-xs font-semibold flex items-center gap-1 text-green-700 dark:text-green-400">
+              <ThumbsUp className="w-3 h-3" /> Strongest points
+            </div>
+            {renderPoints(verdict.strongestPoints)}
+          </div>
+        )}
+
+        {verdict.weakestPoints.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-xs font-semibold flex items-center gap-1 text-red-700 dark:text-red-400">
+              <ThumbsDown className="w-3 h-3" /> Weakest points
+            </div>
+            {renderPoints(verdict.weakestPoints)}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,95 @@
+// * Author: agent
+// * Date: 2026-10-19
+// * PURPOSE: Renders a fact-checked debate turn: the spoken text with each checked claim marked in place
+// *          (disputed claims highlighted, unverified and supported ones underlined, the checker's note on hover),
+// *          plus a short summary listing the claims with their ratings.
+// * SRP/DRY check: Pass - Presentation only; claims come from the turn's stored fact-check.
+// * shadcn/ui: Pass - Uses Badge
+import { Badge } from '@/components/ui/badge';
+import type { DebateClaimRating, DebateFactCheckClaim, DebateTurnFactCheck } from '@shared/debate-fact-check-types';
+
+interface ContentSegment {
+  text: string;
+  claim?: DebateFactCheckClaim;
+}
+
+const CLAIM_STYLES: Record<DebateClaimRating, string> = {
+  disputed: 'rounded bg-red-200/80 px-0.5 text-red-900 dark:bg-red-900/60 dark:text-red-100',
+  unverified: 'underline decoration-amber-500 decoration-dotted decoration-2 underline-offset-2',
+  supported: 'underline decoration-green-500/70 decoration-dotted underline-offset-2',
+};
+
+const RATING_BADGES: Record<DebateClaimRating, string> = {
+  disputed: 'bg-red-500/10 text-red-700 dark:text-red-300',
+  unverified: 'bg-amber-500/10 text-amber-700 dark:text-amber-300',
+  supported: 'bg-green-500/10 text-green-700 dark:text-green-300',
+};
+
+/** Splits content around the first occurrence of each quote; claims that overlap an earlier one are left unmarked */
+const segmentContent = (content: string, claims: DebateFactCheckClaim[]): ContentSegment[] => {
+  const ranges = claims
+    .map(claim => ({ claim, start: content.indexOf(claim.quote) }))
+    .filter(range => range.start !== -1 && range.claim.quote.length > 0)
+    .sort((a, b) => a.start - b.start);
+
+  const segments: ContentSegment[] = [];
+  let cursor = 0;
+  for (const { claim, start } of ranges) {
+    if (start < cursor) continue;
+    if (start > cursor) segments.push({ text: content.slice(cursor, start) });
+    segments.push({ text: claim.quote, claim });
+    cursor = start + claim.quote.length;
+  }
+  if (cursor < content.length) segments.push({ text: content.slice(cursor) });
+  return segments;
+};
+
+export function FactCheckedText({ content, factCheck }: { content: string; factCheck: DebateTurnFactCheck }) {
+  return (
+    <>
+      {segmentContent(content, factCheck.claims).map((segment, index) => {
+        if (!segment.claim) return <span key={index}>{segment.text}</span>;
+        const title = `${segment.claim.rating} ${segment.claim.kind}${segment.claim.note ? `: ${segment.claim.note}` : ''}`;
+        return segment.claim.rating === 'disputed' ? (
+          <mark key={index} className={CLAIM_STYLES.disputed} title={title}>{segment.text}</mark>
+        ) : (
+          <span key={index} className={CLAIM_STYLES[segment.claim.rating]} title={title}>{segment.text}</span>
+        );
+      })}
+    </>
+  );
+}
+
+export function FactCheckSummary({ factCheck }: { factCheck: DebateTurnFactCheck }) {
+  if (factCheck.claims.length === 0) {
+    return (
+      <p className="mt-2 text-xs text-muted-foreground">
+        Fact-check by {factCheck.checkerModelId}: no factual claims found.
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-2 space-y-1 rounded-md border border-slate-200 dark:border-slate-700 p-2 text-xs">
+      <div className="flex items-center justify-between text-muted-foreground">
+        <span>Fact-check by {factCheck.checkerModelId}</span>
+        <Badge variant="outline" className={factCheck.disputedCount > 0 ? RATING_BADGES.disputed : ''}>
+          {factCheck.disputedCount} disputed of {factCheck.claims.length}
+        </Badge>
+      </div>
+      <ul className="space-y-1">
+        {factCheck.claims.map((claim, index) => (
+          <li key={index} className="flex items-start gap-2">
+            <Badge variant="secondary" className={`shrink-0 text-[10px] ${RATING_BADGES[claim.rating]}`}>
+              {claim.rating}
+            </Badge>
+            <span>
+              <span className="italic">"{claim.quote}"</span>
+              {claim.note && <span className="text-muted-foreground"> · {claim.note}</span>}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
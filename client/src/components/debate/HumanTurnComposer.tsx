@@ -0,0 +1,89 @@
+// * Author: agent
+// * Date: 2026-10-19
+// * PURPOSE: Text box for the human seat of a practice debate. Shows whose turn it is, the side being argued
+//            and the format phase, then submits the typed argument as that turn so the model can answer it.
+// * SRP/DRY check: Pass - Presentation and local draft state only; the page records the turn through the API.
+// * shadcn/ui: Pass - Uses Card, Textarea, Button and Badge
+import { useState } from 'react';
+import { Loader2, Send, User } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { DEBATE_HUMAN_TURN_MAX_CHARS, type DebateParticipant } from '@shared/debate-participants';
+
+interface HumanTurnComposerProps {
+  participant: DebateParticipant;
+  turnNumber: number;
+  /** Format phase of the turn, e.g. "Cross-Examination"; omitted for the open-ended flow */
+  phaseName?: string;
+  intensityLabel?: string;
+  isSubmitting: boolean;
+  /** Resolves once the turn is saved; the draft is cleared then */
+  onSubmit: (content: string) => Promise<void>;
+}
+
+export function HumanTurnComposer({
+  participant,
+  turnNumber,
+  phaseName,
+  intensityLabel,
+  isSubmitting,
+  onSubmit,
+}: HumanTurnComposerProps) {
+  const [draft, setDraft] = useState('');
+  const trimmed = draft.trim();
+
+  const handleSubmit = async () => {
+    if (!trimmed || isSubmitting) return;
+    try {
+      await onSubmit(trimmed);
+      setDraft('');
+    } catch {
+      // The page reports the failure; keep the draft so nothing is lost
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center justify-between text-sm">
+          <span className="flex items-center space-x-2">
+            <User className="w-4 h-4" />
+            <span>Your turn {turnNumber} · {participant.label}</span>
+          </span>
+          <span className="flex gap-1">
+            {phaseName && <Badge variant="secondary">{phaseName}</Badge>}
+            <Badge variant="outline">{participant.position}</Badge>
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-2">
+        <Textarea
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) {
+              event.preventDefault();
+              void handleSubmit();
+            }
+          }}
+          maxLength={DEBATE_HUMAN_TURN_MAX_CHARS}
+          rows={6}
+          placeholder="Type your argument. The model answers it on the next turn."
+          disabled={isSubmitting}
+        />
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>
+            {intensityLabel ? `Your opponent argues at ${intensityLabel}. ` : ''}
+            {draft.length}/{DEBATE_HUMAN_TURN_MAX_CHARS}
+          </span>
+          <Button size="sm" disabled={!trimmed || isSubmitting} onClick={() => void handleSubmit()}>
+            {isSubmitting ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Send className="w-3 h-3 mr-1" />}
+            Submit turn
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
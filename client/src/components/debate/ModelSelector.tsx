@@ -5,7 +5,9 @@
  * Date: 2025-10-22
  * PURPOSE: Handles model selection and configuration for both debate participants.
  *          Refactored to use useDebateSetup and useQuery hooks directly.
- *          Includes collapsible config panels to reduce visual clutter.
+ *          Includes collapsible config panels to reduce visual clutter. Panelists beyond the two
+ *          debaters are edited in DebateParticipantsEditor. Either debater can be "You (human)" to
+ *          practice arguing against a model; a human seat has no model configuration.
  * SRP/DRY check: Pass - Single responsibility for model selection, uses existing hooks
  */
 
@@ -14,9 +16,11 @@ import { useQuery } from '@tanstack/react-query';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { ModelConfigurationPanel } from '@/components/ModelConfigurationPanel';
+import { DebateParticipantsEditor } from '@/components/debate/DebateParticipantsEditor';
 import { useDebateSetup } from '@/hooks/useDebateSetup';
 import { useDebateStreaming } from '@/hooks/useDebateStreaming';
 import type { AIModel } from '@/types/ai-models';
+import { DEBATE_HUMAN_MODEL_ID } from '@shared/debate-participants';
 
 export function ModelSelector() {
   const {
@@ -57,6 +61,9 @@ export function ModelSelector() {
               <SelectValue placeholder="Select Pro debater" />
             </SelectTrigger>
             <SelectContent>
+              <SelectItem value={DEBATE_HUMAN_MODEL_ID}>
+                <span className="text-sm">You (human)</span>
+              </SelectItem>
               {models.map((model) => (
                 <SelectItem key={model.id} value={model.id}>
                   <div className="flex items-center space-x-2">
@@ -78,6 +85,9 @@ export function ModelSelector() {
               <SelectValue placeholder="Select Con debater" />
             </SelectTrigger>
             <SelectContent>
+              <SelectItem value={DEBATE_HUMAN_MODEL_ID}>
+                <span className="text-sm">You (human)</span>
+              </SelectItem>
               {models.map((model) => (
                 <SelectItem key={model.id} value={model.id}>
                   <div className="flex items-center space-x-2">
@@ -92,7 +102,7 @@ export function ModelSelector() {
       </div>
 
       {/* Model Configuration Panels - Always Expanded */}
-      {model1Id && (
+      {model1Id && model1Id !== DEBATE_HUMAN_MODEL_ID && (
         <div className="pt-2 border-t">
           <div className="mb-2">
             <h4 className="text-xs font-medium">Model 1 Config</h4>
@@ -110,7 +120,7 @@ export function ModelSelector() {
         </div>
       )}
 
-      {model2Id && (
+      {model2Id && model2Id !== DEBATE_HUMAN_MODEL_ID && (
         <div className="pt-2 border-t">
           <div className="mb-2">
             <h4 className="text-xs font-medium">Model 2 Config</h4>
@@ -127,6 +137,8 @@ export function ModelSelector() {
           />
         </div>
       )}
+
+      <DebateParticipantsEditor models={models} isStreaming={isStreaming} />
     </div>
   );
 }
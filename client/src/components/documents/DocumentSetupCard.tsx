@@ -0,0 +1,243 @@
+/**
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Setup card of the Document Builder: pick a document template (grant proposal, technical RFC,
+ *          literature review, ...), fill in the variables it declares, choose the model that writes every
+ *          section, and optionally have extra models write a version of some sections (SectionEnsembleConfig).
+ *          Variables with choices render as a select, required free-text ones as a textarea; blank optional
+ *          ones show the default or helper that will fill them in.
+ * SRP/DRY check: Pass - Document configuration input only; the page loads templates and starts the pipeline.
+ * shadcn/ui: Pass - Uses Card, Select, Input, Textarea, Label, Button; reuses FloatingModelPicker, ModelPill and SectionEnsembleConfig
+ */
+
+import { useState, type ReactNode } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileStack, Plus, Settings } from "lucide-react";
+import { FloatingModelPicker } from "@/components/comparison/FloatingModelPicker";
+import { ModelPill } from "@/components/comparison/ModelPill";
+import { SectionEnsembleConfig } from "@/components/vixra/SectionEnsembleConfig";
+import type { AIModel } from "@/types/ai-models";
+import type { DocumentTemplate, DocumentTemplateSummary, DocumentTemplateVariable } from "@shared/document-templates";
+import type { VixraPickMode } from "@shared/vixra-pipeline";
+
+interface DocumentSetupCardProps {
+  templates: DocumentTemplateSummary[];
+  templateId: string;
+  onTemplateChange: (templateId: string) => void;
+  /** The selected template; undefined while it loads */
+  template?: DocumentTemplate;
+  variables: Record<string, string>;
+  onVariableChange: (name: string, value: string) => void;
+
+  selectedModel: string;
+  models: AIModel[];
+  onModelSelect: (modelId: string) => void;
+  sectionExtraModels: Record<string, string[]>;
+  onSectionExtraModelsChange: (extraModels: Record<string, string[]>) => void;
+  pickMode: VixraPickMode;
+  onPickModeChange: (pickMode: VixraPickMode) => void;
+
+  onGenerate: () => void;
+  isGenerating: boolean;
+  disabled?: boolean;
+}
+
+/** Required variables that nothing fills in on the server when left blank */
+export function missingDocumentVariables(template: DocumentTemplate | undefined, variables: Record<string, string>): DocumentTemplateVariable[] {
+  return (template?.variables ?? []).filter(variable => (
+    variable.required && !variable.generate && !variable.defaultValue && !variables[variable.name]?.trim()
+  ));
+}
+
+function variablePlaceholder(variable: DocumentTemplateVariable): string {
+  if (variable.generate) return 'Leave blank and the model writes it';
+  if (variable.defaultValue) return `Default: ${variable.defaultValue}`;
+  return variable.required ? '' : 'Optional';
+}
+
+export function DocumentSetupCard({
+  templates,
+  templateId,
+  onTemplateChange,
+  template,
+  variables,
+  onVariableChange,
+  selectedModel,
+  models,
+  onModelSelect,
+  sectionExtraModels,
+  onSectionExtraModelsChange,
+  pickMode,
+  onPickModeChange,
+  onGenerate,
+  isGenerating,
+  disabled = false
+}: DocumentSetupCardProps) {
+  const [showAdvanced, setShowAdvanced] = useState(false);
+
+  const selectedModelData = models.find(m => m.id === selectedModel);
+  const missing = missingDocumentVariables(template, variables);
+  const canGenerate = !disabled && !isGenerating && Boolean(template) && Boolean(selectedModel) && missing.length === 0;
+
+  const renderVariable = (variable: DocumentTemplateVariable) => {
+    const id = `variable-${variable.name}`;
+    const value = variables[variable.name] ?? '';
+    let input: ReactNode;
+    if (variable.options) {
+      input = (
+        <Select value={value || variable.defaultValue || ''} onValueChange={(next) => onVariableChange(variable.name, next)} disabled={isGenerating}>
+          <SelectTrigger id={id} className="mt-2">
+            <SelectValue placeholder={variablePlaceholder(variable)} />
+          </SelectTrigger>
+          <SelectContent>
+            {variable.options.map(option => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    } else if (variable.required && !variable.generate) {
+      input = (
+        <Textarea
+          id={id}
+          value={value}
+          onChange={(e) => onVariableChange(variable.name, e.target.value)}
+          className="mt-2"
+          rows={3}
+          disabled={isGenerating}
+        />
+      );
+    } else {
+      input = (
+        <Input
+          id={id}
+          value={value}
+          onChange={(e) => onVariableChange(variable.name, e.target.value)}
+          placeholder={variablePlaceholder(variable)}
+          className="mt-2"
+          disabled={isGenerating}
+        />
+      );
+    }
+    return (
+      <>
+        <Label htmlFor={id} className="text-sm font-medium">
+          {variable.label}{variable.required && !variable.generate && !variable.defaultValue ? ' *' : ''}
+        </Label>
+        {input}
+      </>
+    );
+  };
+
+  return (
+    <Card className="border-2 border-primary/20 shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-2xl">
+          <FileStack className="w-6 h-6 text-primary" />
+          <span>Build a Document</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div>
+          <Label htmlFor="document-template" className="text-base font-semibold">Template</Label>
+          <Select value={templateId} onValueChange={onTemplateChange} disabled={isGenerating}>
+            <SelectTrigger id="document-template" className="mt-2 text-base">
+              <SelectValue placeholder="Select a template..." />
+            </SelectTrigger>
+            <SelectContent>
+              {templates.map(summary => (
+                <SelectItem key={summary.id} value={summary.id}>
+                  {summary.name} ({summary.sectionCount} sections)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {template?.description && (
+            <p className="text-xs text-muted-foreground mt-1">{template.description}</p>
+          )}
+        </div>
+
+        {template && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            {template.variables.map(variable => (
+              <div key={variable.name} className={variable.required && !variable.options ? 'sm:col-span-2' : undefined}>
+                {renderVariable(variable)}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <Label className="text-sm font-medium">AI Model</Label>
+          <div className="flex items-center gap-2 mt-2 flex-wrap">
+            {selectedModelData && (
+              <ModelPill model={selectedModelData} onRemove={() => {}} />
+            )}
+            <FloatingModelPicker
+              models={models}
+              selectedModels={selectedModel ? [selectedModel] : []}
+              onToggleModel={onModelSelect}
+              onSelectAllModels={(modelIds) => {
+                if (modelIds.length > 0) onModelSelect(modelIds[0]);
+              }}
+              onClearAllModels={() => {}}
+              disabled={isGenerating}
+              trigger={
+                <Button variant="outline" size="sm" disabled={isGenerating}>
+                  <Plus className="w-4 h-4 mr-1" />
+                  {selectedModel ? 'Change Model' : 'Select Model'}
+                </Button>
+              }
+            />
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            This model writes every section on the server; independent sections generate in parallel
+          </p>
+        </div>
+
+        {template && (
+          <>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowAdvanced(!showAdvanced)}
+              disabled={isGenerating}
+              className="w-full justify-start"
+            >
+              <Settings className="w-4 h-4 mr-2" />
+              {showAdvanced ? 'Hide' : 'Show'} Section Ensembles
+            </Button>
+            {showAdvanced && (
+              <div className="pl-4 border-l-2 border-muted">
+                <SectionEnsembleConfig
+                  models={models}
+                  sections={template.sections}
+                  selectedModel={selectedModel}
+                  extraModels={sectionExtraModels}
+                  onExtraModelsChange={onSectionExtraModelsChange}
+                  pickMode={pickMode}
+                  onPickModeChange={onPickModeChange}
+                  disabled={isGenerating}
+                />
+              </div>
+            )}
+          </>
+        )}
+
+        <Button onClick={onGenerate} disabled={!canGenerate} className="w-full h-12 text-lg font-semibold" size="lg">
+          {isGenerating ? <span className="animate-pulse">Generating...</span> : `Generate ${template?.name ?? 'Document'}`}
+        </Button>
+        {missing.length > 0 && !isGenerating && (
+          <p className="text-xs text-muted-foreground text-center">
+            Fill in {missing.map(variable => variable.label).join(', ')} to start.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,6 +4,7 @@
  * PURPOSE: Export controls footer for completed Vixra papers.
  *          Appears after Abstract (draft mode) and after full completion.
  *          Provides PDF download, markdown copy, and print functionality.
+ *          PDF and LaTeX source (arXiv-style .tar.gz) downloads are rendered by the server.
  *          Shows paper statistics and celebration animation on completion.
  * SRP/DRY check: Pass - Single responsibility (export orchestration)
  * shadcn/ui: Pass - Uses Card, Button, Badge
@@ -13,7 +14,7 @@ import { useEffect, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Download, Copy, Printer, FileText, Sparkles, Clock, BookOpen } from "lucide-react";
+import { Download, Copy, Printer, FileText, FileCode, Sparkles, Clock, BookOpen } from "lucide-react";
 import type { Section } from "./SectionProgressTracker";
 
 interface PaperExportFooterProps {
@@ -21,6 +22,7 @@ interface PaperExportFooterProps {
   paperTitle: string;
   paperAuthor: string;
   onExportPDF: () => void;
+  onExportLatex: () => void;
   onExportMarkdown: () => void;
   onPrint: () => void;
   visible: boolean;
@@ -32,6 +34,7 @@ export function PaperExportFooter({
   paperTitle,
   paperAuthor,
   onExportPDF,
+  onExportLatex,
   onExportMarkdown,
   onPrint,
   visible,
@@ -129,6 +132,15 @@ export function PaperExportFooter({
                 {isComplete ? 'Download PDF' : 'Download Draft'}
               </Button>
               
+              <Button
+                onClick={onExportLatex}
+                size="sm"
+                variant="outline"
+              >
+                <FileCode className="w-4 h-4 mr-2" />
+                LaTeX Source
+              </Button>
+
               <Button
                 onClick={onExportMarkdown}
                 size="sm"
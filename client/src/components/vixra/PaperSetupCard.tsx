@@ -5,6 +5,7 @@
  *          Provides Author (required with default), Science Category dropdown with random option,
  *          optional Title field, single model selection as pill, and mode toggle (manual/auto).
  *          Primary CTA button initiates paper generation.
+ *          In auto mode the advanced settings also configure section ensembles (SectionEnsembleConfig).
  * SRP/DRY check: Pass - Single responsibility (paper configuration input)
  * shadcn/ui: Pass - Uses Select, Input, Button, Switch, Badge, Card, Label
  */
@@ -22,7 +23,9 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/comp
 import { Plus, Zap, Settings, FileText, Sparkles, Dices } from "lucide-react";
 import { FloatingModelPicker } from "@/components/comparison/FloatingModelPicker";
 import { ModelPill } from "@/components/comparison/ModelPill";
+import { SectionEnsembleConfig } from "./SectionEnsembleConfig";
 import type { AIModel } from "@/types/ai-models";
+import type { VixraPickMode } from "@shared/vixra-pipeline";
 
 interface PaperSetupCardProps {
   // Paper config
@@ -41,6 +44,12 @@ interface PaperSetupCardProps {
   onModelSelect: (modelId: string) => void;
   modelConfig: ModelConfiguration;
   onModelConfigChange: (config: ModelConfiguration) => void;
+
+  // Section ensembles (auto mode)
+  sectionExtraModels: Record<string, string[]>;
+  onSectionExtraModelsChange: (extraModels: Record<string, string[]>) => void;
+  pickMode: VixraPickMode;
+  onPickModeChange: (pickMode: VixraPickMode) => void;
   
   // Mode & generation
   isAutoMode: boolean;
@@ -68,6 +77,10 @@ export function PaperSetupCard({
   isGenerating,
   modelConfig,
   onModelConfigChange,
+  sectionExtraModels,
+  onSectionExtraModelsChange,
+  pickMode,
+  onPickModeChange,
   disabled = false
 }: PaperSetupCardProps) {
   const [showAdvanced, setShowAdvanced] = useState<boolean>(false);
@@ -217,6 +230,18 @@ export function PaperSetupCard({
                 </p>
               )}
             </div>
+
+            {isAutoMode && (
+              <SectionEnsembleConfig
+                models={models}
+                selectedModel={selectedModel}
+                extraModels={sectionExtraModels}
+                onExtraModelsChange={onSectionExtraModelsChange}
+                pickMode={pickMode}
+                onPickModeChange={onPickModeChange}
+                disabled={isGenerating}
+              />
+            )}
           </div>
         )}
 
@@ -0,0 +1,87 @@
+/**
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Every model's version of a Vixra ensemble section, side by side in tabs. Marks the winner and
+ *          who picked it (judge, user, or the only version that succeeded) with the judge's rationale, and
+ *          lets the user pick another version to swap in, or pick the winner when the pipeline waits for it.
+ * SRP/DRY check: Pass - Version display and pick controls only; useVixraPipeline sends the pick.
+ * shadcn/ui: Pass - Uses Tabs, Badge, Button
+ */
+
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Check, Gavel } from "lucide-react";
+import type { VixraSectionResponse } from "@shared/schema";
+
+interface SectionAlternativesProps {
+  /** Model id -> that model's version */
+  versions: Record<string, VixraSectionResponse>;
+  /** The section's saved output; absent while the section waits for its pick */
+  winner?: VixraSectionResponse;
+  onPick: (modelId: string) => void;
+  disabled?: boolean;
+}
+
+const PICKED_BY_LABELS: Record<NonNullable<VixraSectionResponse['pickedBy']>, string> = {
+  judge: 'Judge pick',
+  user: 'Your pick',
+  'only-success': 'Only version',
+};
+
+export function SectionAlternatives({ versions, winner, onPick, disabled = false }: SectionAlternativesProps) {
+  const entries = Object.entries(versions);
+  if (entries.length === 0) return null;
+  const winnerModelId = winner?.modelId;
+
+  return (
+    <div className="space-y-3">
+      {winner?.pickedBy === 'judge' && winner.pickRationale && (
+        <p className="text-xs text-muted-foreground flex items-start gap-2">
+          <Gavel className="w-3 h-3 mt-0.5 shrink-0" />
+          <span>{winner.pickRationale}</span>
+        </p>
+      )}
+      <Tabs defaultValue={winnerModelId ?? entries[0][0]}>
+        <TabsList className="flex-wrap h-auto">
+          {entries.map(([modelId, version]) => (
+            <TabsTrigger key={modelId} value={modelId} className="gap-1">
+              {modelId === winnerModelId && <Check className="w-3 h-3" />}
+              {version.modelName}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+        {entries.map(([modelId, version]) => (
+          <TabsContent key={modelId} value={modelId} className="space-y-3">
+            {version.status === 'success' ? (
+              <div className="whitespace-pre-wrap text-sm leading-relaxed max-h-96 overflow-y-auto">
+                {version.content}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {version.status === 'loading' ? 'Still generating...' : `Failed: ${version.error ?? 'unknown error'}`}
+              </p>
+            )}
+            <div className="flex items-center gap-2">
+              {modelId === winnerModelId ? (
+                <Badge variant="default" className="bg-green-600">
+                  {winner?.pickedBy ? PICKED_BY_LABELS[winner.pickedBy] : 'In the paper'}
+                </Badge>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onPick(modelId)}
+                  disabled={disabled || version.status !== 'success'}
+                >
+                  <Check className="w-3 h-3 mr-2" />
+                  Use this version
+                </Button>
+              )}
+            </div>
+          </TabsContent>
+        ))}
+      </Tabs>
+    </div>
+  );
+}
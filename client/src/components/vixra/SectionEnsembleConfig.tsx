@@ -0,0 +1,146 @@
+/**
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Auto-mode settings for Vixra section ensembles: per section, extra models that write their own
+ *          version next to the paper's model, and whether a judge model or the user picks the winner.
+ *          "Apply to all" copies one section's extra models to every section. Lists the Vixra sections unless
+ *          given another document template's sections.
+ * SRP/DRY check: Pass - Ensemble configuration input only; the page sends it with the pipeline start request.
+ * shadcn/ui: Pass - Uses Select, Button, Label, Badge; reuses FloatingModelPicker and ModelPill
+ */
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Plus } from "lucide-react";
+import { FloatingModelPicker } from "@/components/comparison/FloatingModelPicker";
+import { ModelPill } from "@/components/comparison/ModelPill";
+import type { AIModel } from "@/types/ai-models";
+import { VIXRA_SECTIONS, type VixraPickMode } from "@shared/vixra-pipeline";
+
+/** Matches the server's default VIXRA_ENSEMBLE_MAX_MODELS, counting the paper's own model */
+const MAX_MODELS_PER_SECTION = 4;
+
+interface SectionEnsembleConfigProps {
+  models: AIModel[];
+  /** Sections that can have an ensemble; defaults to the Vixra paper's */
+  sections?: ReadonlyArray<{ id: string; name: string }>;
+  /** The paper's model, which always writes every section */
+  selectedModel: string;
+  /** Section id -> models writing a version besides the paper's model */
+  extraModels: Record<string, string[]>;
+  onExtraModelsChange: (extraModels: Record<string, string[]>) => void;
+  pickMode: VixraPickMode;
+  onPickModeChange: (pickMode: VixraPickMode) => void;
+  disabled?: boolean;
+}
+
+export function SectionEnsembleConfig({
+  models,
+  sections = VIXRA_SECTIONS,
+  selectedModel,
+  extraModels,
+  onExtraModelsChange,
+  pickMode,
+  onPickModeChange,
+  disabled = false
+}: SectionEnsembleConfigProps) {
+  const setSectionModels = (sectionId: string, modelIds: string[]) => {
+    const next = { ...extraModels };
+    if (modelIds.length > 0) {
+      next[sectionId] = modelIds;
+    } else {
+      delete next[sectionId];
+    }
+    onExtraModelsChange(next);
+  };
+
+  const handleToggleModel = (sectionId: string, modelId: string) => {
+    const current = extraModels[sectionId] ?? [];
+    if (current.includes(modelId)) {
+      setSectionModels(sectionId, current.filter(id => id !== modelId));
+    } else if (modelId !== selectedModel && current.length < MAX_MODELS_PER_SECTION - 1) {
+      setSectionModels(sectionId, [...current, modelId]);
+    }
+  };
+
+  const handleApplyToAll = (sectionId: string) => {
+    const modelIds = extraModels[sectionId] ?? [];
+    onExtraModelsChange(Object.fromEntries(sections.map(section => [section.id, modelIds])));
+  };
+
+  const hasEnsembles = Object.values(extraModels).some(modelIds => modelIds.length > 0);
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label className="text-sm font-medium">Section Ensembles</Label>
+        <p className="text-xs text-muted-foreground mt-1">
+          Extra models write their own version of a section; only the winning version feeds later sections.
+          Each version costs the usual section credits.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {sections.map(section => {
+          const sectionExtras = extraModels[section.id] ?? [];
+          return (
+            <div key={section.id} className="flex items-center gap-2 flex-wrap">
+              <span className="text-sm w-32 shrink-0">{section.name}</span>
+              {sectionExtras.map(modelId => {
+                const model = models.find(m => m.id === modelId);
+                return model ? (
+                  <ModelPill
+                    key={modelId}
+                    model={model}
+                    onRemove={() => handleToggleModel(section.id, modelId)}
+                    variant="compact"
+                  />
+                ) : null;
+              })}
+              <FloatingModelPicker
+                models={models.filter(m => m.id !== selectedModel)}
+                selectedModels={sectionExtras}
+                onToggleModel={(modelId) => handleToggleModel(section.id, modelId)}
+                onSelectAllModels={(modelIds) => setSectionModels(section.id, modelIds.slice(0, MAX_MODELS_PER_SECTION - 1))}
+                onClearAllModels={() => setSectionModels(section.id, [])}
+                disabled={disabled}
+                trigger={
+                  <Button variant="outline" size="sm" disabled={disabled || sectionExtras.length >= MAX_MODELS_PER_SECTION - 1}>
+                    <Plus className="w-3 h-3 mr-1" />
+                    Add Model
+                  </Button>
+                }
+              />
+              {sectionExtras.length > 0 && (
+                <Button variant="ghost" size="sm" onClick={() => handleApplyToAll(section.id)} disabled={disabled}>
+                  <Copy className="w-3 h-3 mr-1" />
+                  Apply to all
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {hasEnsembles && (
+        <div className="flex items-center gap-3">
+          <Label htmlFor="pick-mode" className="text-sm">Winner picked by</Label>
+          <Select value={pickMode} onValueChange={(value) => onPickModeChange(value as VixraPickMode)} disabled={disabled}>
+            <SelectTrigger id="pick-mode" className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="judge">Judge model</SelectItem>
+              <SelectItem value="manual">Me, as versions arrive</SelectItem>
+            </SelectContent>
+          </Select>
+          {pickMode === 'manual' && (
+            <Badge variant="outline" className="text-xs">Dependent sections wait for your pick</Badge>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,17 +5,22 @@
  *          Displays horizontal grid of section status badges with dependency-aware states.
  *          Shows overall progress bar and estimated time remaining.
  *          Sections are clickable to scroll to completed/generating sections.
+ *          Ensemble sections whose versions wait for the user's pick show as awaiting-pick (amber).
+ *          Sections built on an older version of a dependency show as stale (orange), with a one-click
+ *          button that regenerates every stale section.
  * SRP/DRY check: Pass - Single responsibility (progress visualization)
- * shadcn/ui: Pass - Uses Badge, Progress, Card, Tooltip
+ * shadcn/ui: Pass - Uses Badge, Progress, Card, Tooltip, Button
  */
 
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { CheckCircle2, Loader2, Lock, Circle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { CheckCircle2, Loader2, Lock, Circle, ListChecks, AlertTriangle, RotateCw } from "lucide-react";
 
-export type SectionStatus = 'locked' | 'pending' | 'generating' | 'completed' | 'failed';
+/** 'stale' sections keep their content but were written from an older version of a dependency */
+export type SectionStatus = 'locked' | 'pending' | 'generating' | 'awaiting-pick' | 'completed' | 'stale' | 'failed';
 
 export interface Section {
   id: string;
@@ -39,14 +44,20 @@ interface SectionProgressTrackerProps {
   currentSectionId: string | null;
   onSectionClick: (sectionId: string) => void;
   showProgress?: boolean;
+  /** Regenerates every stale section, in dependency order */
+  onRegenerateStale?: () => void;
+  regenerateDisabled?: boolean;
 }
 
 export function SectionProgressTracker({
   sections,
   currentSectionId,
   onSectionClick,
-  showProgress = true
+  showProgress = true,
+  onRegenerateStale,
+  regenerateDisabled = false
 }: SectionProgressTrackerProps) {
+  const staleSections = sections.filter(s => s.status === 'stale');
   const completedCount = sections.filter(s => s.status === 'completed').length;
   const totalCount = sections.length;
   const progressPercentage = totalCount > 0 ? (completedCount / totalCount) * 100 : 0;
@@ -67,6 +78,10 @@ export function SectionProgressTracker({
         return <Loader2 className="w-4 h-4 animate-spin" />;
       case 'locked':
         return <Lock className="w-3 h-3" />;
+      case 'awaiting-pick':
+        return <ListChecks className="w-4 h-4" />;
+      case 'stale':
+        return <AlertTriangle className="w-4 h-4" />;
       case 'failed':
         return <span className="text-destructive">✗</span>;
       default:
@@ -96,6 +111,10 @@ export function SectionProgressTracker({
         return `${base} bg-blue-600 text-white animate-pulse`;
       case 'locked':
         return `${base} bg-gray-300 dark:bg-gray-700 text-gray-500 dark:text-gray-400 cursor-not-allowed hover:scale-100`;
+      case 'awaiting-pick':
+        return `${base} bg-amber-500 text-white hover:bg-amber-600`;
+      case 'stale':
+        return `${base} bg-orange-500 text-white hover:bg-orange-600`;
       case 'failed':
         return `${base} bg-red-600 text-white hover:bg-red-700`;
       default:
@@ -105,7 +124,7 @@ export function SectionProgressTracker({
 
   const handleSectionClick = (section: Section) => {
     if (section.status === 'locked') return;
-    if (section.status === 'completed' || section.status === 'generating') {
+    if (section.status === 'completed' || section.status === 'stale' || section.status === 'generating' || section.status === 'awaiting-pick') {
       onSectionClick(section.id);
     }
   };
@@ -149,6 +168,16 @@ export function SectionProgressTracker({
                     <p className="text-xs">
                       Status: <span className="capitalize">{section.status}</span>
                     </p>
+                    {section.status === 'awaiting-pick' && (
+                      <p className="text-xs text-muted-foreground">
+                        Pick the version to keep
+                      </p>
+                    )}
+                    {section.status === 'stale' && (
+                      <p className="text-xs text-muted-foreground">
+                        Written before a section it builds on changed. {getDependencyText(section)}
+                      </p>
+                    )}
                     {section.status === 'locked' && (
                       <p className="text-xs text-muted-foreground">
                         {getDependencyText(section)}
@@ -168,7 +197,7 @@ export function SectionProgressTracker({
                         )}
                       </>
                     )}
-                    {(section.status === 'completed' || section.status === 'generating') && (
+                    {(section.status === 'completed' || section.status === 'stale' || section.status === 'generating' || section.status === 'awaiting-pick') && (
                       <p className="text-xs text-blue-400 mt-1">Click to view</p>
                     )}
                   </div>
@@ -178,6 +207,19 @@ export function SectionProgressTracker({
           </TooltipProvider>
         </div>
 
+        {/* Stale sections: one click regenerates all of them in dependency order */}
+        {staleSections.length > 0 && onRegenerateStale && (
+          <div className="flex items-center justify-between gap-3 rounded-md border border-orange-300 dark:border-orange-900 bg-orange-50 dark:bg-orange-950/20 px-3 py-2">
+            <p className="text-sm">
+              {staleSections.length} section{staleSections.length !== 1 ? 's were' : ' was'} written from older text: {staleSections.map(s => s.name).join(', ')}
+            </p>
+            <Button size="sm" variant="outline" onClick={onRegenerateStale} disabled={regenerateDisabled} className="shrink-0">
+              <RotateCw className="w-3 h-3 mr-2" />
+              Regenerate Stale
+            </Button>
+          </div>
+        )}
+
         {/* Overall Progress Bar */}
         {showProgress && (
           <div className="space-y-2">
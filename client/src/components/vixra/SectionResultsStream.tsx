@@ -5,6 +5,9 @@
  *          Shows empty state grid with placeholders, skeleton loaders during generation,
  *          and full ResponseCard content when sections complete.
  *          Handles smooth scrolling and per-section export controls.
+ *          Ensemble sections show every model's version (SectionAlternatives), with a pick card while they wait.
+ *          Stale sections stay readable with an "Out of date" badge; any finished section can be regenerated
+ *          together with every section built on it.
  * SRP/DRY check: Pass - Single responsibility (section display orchestration)
  * shadcn/ui: Pass - Uses Card, Skeleton, Button, Badge
  */
@@ -15,23 +18,35 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ResponseCard } from "@/components/ResponseCard";
-import { Copy, RotateCw, XCircle, FileText, Lock, Clock } from "lucide-react";
+import { Copy, RotateCw, XCircle, FileText, Lock, Clock, ListChecks, AlertTriangle, GitBranch } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { SectionAlternatives } from "./SectionAlternatives";
 import type { Section } from "./SectionProgressTracker";
 import type { AIModel } from "@/types/ai-models";
+import type { VixraSectionAlternatives, VixraSectionResponse } from "@shared/schema";
 
 interface SectionResultsStreamProps {
   sections: Section[];
   models: AIModel[];
-  onRegenerateSection: (sectionId: string) => void;
+  /** With `cascade`, every section built on this one is regenerated after it */
+  onRegenerateSection: (sectionId: string, cascade?: boolean) => void;
   isGenerating: boolean;
+  /** Ensemble sections: every model's version, and the saved winners */
+  alternatives?: VixraSectionAlternatives;
+  winners?: Record<string, VixraSectionResponse>;
+  onPickAlternative?: (sectionId: string, modelId: string) => void;
+  isPicking?: boolean;
 }
 
 export function SectionResultsStream({
   sections,
   models,
   onRegenerateSection,
-  isGenerating
+  isGenerating,
+  alternatives = {},
+  winners = {},
+  onPickAlternative,
+  isPicking = false
 }: SectionResultsStreamProps) {
   const { toast } = useToast();
   const lastCompletedRef = useRef<string | null>(null);
@@ -148,23 +163,34 @@ export function SectionResultsStream({
   return (
     <div className="space-y-6">
       {sections.map((section) => {
-        // Completed section - show full content
-        if (section.status === 'completed' && section.content) {
+        // Completed (or stale) section - show full content
+        if ((section.status === 'completed' || section.status === 'stale') && section.content) {
+          const isStale = section.status === 'stale';
+          const hasFinishedDependents = sections.some(s => (
+            s.dependencies.includes(section.id) && (s.status === 'completed' || s.status === 'stale')
+          ));
           return (
             <div 
               key={section.id} 
               id={`section-${section.id}`}
               className="scroll-mt-6"
             >
-              <Card className="border-2 border-green-500/20">
+              <Card className={`border-2 ${isStale ? 'border-orange-500/40' : 'border-green-500/20'}`}>
                 <CardHeader className="pb-3">
                   <CardTitle className="flex items-center justify-between">
                     <div className="flex items-center space-x-2">
                       <span className="text-2xl">{getSectionIcon(section.id)}</span>
                       <span className="text-lg">{section.name}</span>
-                      <Badge variant="default" className="bg-green-600">
-                        ✓ Complete
-                      </Badge>
+                      {isStale ? (
+                        <Badge variant="default" className="bg-orange-500">
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          Out of date
+                        </Badge>
+                      ) : (
+                        <Badge variant="default" className="bg-green-600">
+                          ✓ Complete
+                        </Badge>
+                      )}
                     </div>
                     <div className="flex items-center gap-2">
                       {section.metadata?.responseTime && (
@@ -194,6 +220,17 @@ export function SectionResultsStream({
                     </div>
                   </div>
                   
+                  {Object.keys(alternatives[section.id] ?? {}).length > 1 && onPickAlternative && (
+                    <div className="pt-4 border-t">
+                      <SectionAlternatives
+                        versions={alternatives[section.id]}
+                        winner={winners[section.id]}
+                        onPick={(modelId) => onPickAlternative(section.id, modelId)}
+                        disabled={isPicking}
+                      />
+                    </div>
+                  )}
+
                   {/* Per-section controls */}
                   <div className="flex items-center gap-2 pt-4 border-t">
                     <Button
@@ -213,6 +250,17 @@ export function SectionResultsStream({
                       <RotateCw className="w-3 h-3 mr-2" />
                       Regenerate
                     </Button>
+                    {hasFinishedDependents && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onRegenerateSection(section.id, true)}
+                        disabled={isGenerating}
+                      >
+                        <GitBranch className="w-3 h-3 mr-2" />
+                        Regenerate with Dependents
+                      </Button>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -253,6 +301,40 @@ export function SectionResultsStream({
           );
         }
 
+        // Ensemble section waiting for the user to pick its winner
+        if (section.status === 'awaiting-pick' && onPickAlternative) {
+          return (
+            <div
+              key={section.id}
+              id={`section-${section.id}`}
+              className="scroll-mt-6"
+            >
+              <Card className="border-2 border-amber-500/40">
+                <CardHeader className="pb-3">
+                  <CardTitle className="flex items-center space-x-2">
+                    <span className="text-2xl">{getSectionIcon(section.id)}</span>
+                    <span className="text-lg">{section.name}</span>
+                    <Badge variant="secondary" className="bg-amber-500 text-white">
+                      <ListChecks className="w-3 h-3 mr-1" />
+                      Pick a version
+                    </Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-sm text-muted-foreground mb-3">
+                    Sections that build on the {section.name.toLowerCase()} wait until you pick the version to keep.
+                  </p>
+                  <SectionAlternatives
+                    versions={alternatives[section.id] ?? {}}
+                    onPick={(modelId) => onPickAlternative(section.id, modelId)}
+                    disabled={isPicking}
+                  />
+                </CardContent>
+              </Card>
+            </div>
+          );
+        }
+
         // Failed section - show error card
         if (section.status === 'failed') {
           return (
@@ -3,15 +3,23 @@
  * Date: 2025-10-22 01:16 UTC
  * PURPOSE: Stream debate responses via SSE using ref-backed buffers to avoid stale closures, throttle React
  *          renders, and maintain accurate OpenAI Responses API metadata propagation to the debate UI.
+ *          A dropped connection is left to the browser's EventSource reconnect, which sends Last-Event-ID so the
+ *          server replays the missed events; chunk buffers follow the server's cumulative text.
  * SRP/DRY check: Pass - Hook continues to coordinate debate streaming state only; buffering helpers prevent
  *                duplication while keeping provider logic server-side.
  */
 import { useState, useCallback, useRef, useEffect } from 'react';
 
+/** Consecutive reconnects allowed before a dropped stream is reported as lost */
+const MAX_RECONNECT_ATTEMPTS = 3;
+
 export interface StreamingOptions {
   modelId: string;
   topic: string;
-  role: 'AFFIRMATIVE' | 'NEGATIVE';
+  /** Upper-cased seat label, e.g. 'AFFIRMATIVE' or 'PANELIST 3' */
+  role: string;
+  /** Seat id ("p1", "p2", ...); the server otherwise picks the next seat in the speaking order */
+  participantId?: string;
   intensityLevel: number;
   intensityGuidance: string;
   intensityHeading?: string;
@@ -144,6 +152,7 @@ export function useAdvancedStreaming() {
   const progressRef = useRef<number>(0);
   const estimatedCostRef = useRef<number>(0);
   const streamEndedRef = useRef<boolean>(false);
+  const reconnectAttemptsRef = useRef<number>(0);
 
   const flushPendingRef = useRef<boolean>(false);
   const flushCancelRef = useRef<(() => void) | null>(null);
@@ -326,6 +335,7 @@ export function useAdvancedStreaming() {
 
   const startStream = useCallback(async (options: StreamingOptions) => {
     streamEndedRef.current = false;
+    reconnectAttemptsRef.current = 0;
     closeEventSource(true);
 
     if (abortControllerRef.current) {
@@ -440,7 +450,7 @@ export function useAdvancedStreaming() {
           if (!delta) {
             return;
           }
-          reasoningBufferRef.current += delta;
+          reasoningBufferRef.current = typeof data.cumulative === 'string' ? data.cumulative : reasoningBufferRef.current + delta;
           const previousChunk = reasoningChunksRef.current[reasoningChunksRef.current.length - 1] ?? null;
           const chunk: ReasoningStreamChunk = {
             type: 'reasoning',
@@ -464,7 +474,7 @@ export function useAdvancedStreaming() {
           if (!delta) {
             return;
           }
-          contentBufferRef.current += delta;
+          contentBufferRef.current = typeof data.cumulative === 'string' ? data.cumulative : contentBufferRef.current + delta;
           const previousChunk = contentChunksRef.current[contentChunksRef.current.length - 1] ?? null;
           const chunk: ContentStreamChunk = {
             type: 'content',
@@ -624,6 +634,14 @@ export function useAdvancedStreaming() {
           closeEventSource(true);
           return;
         }
+        // CONNECTING means the browser is already retrying with Last-Event-ID; the server replays what was missed
+        if (eventSource.readyState === EventSource.CONNECTING && reconnectAttemptsRef.current < MAX_RECONNECT_ATTEMPTS) {
+          reconnectAttemptsRef.current += 1;
+          patchState({
+            statusMessage: `Connection dropped, reconnecting (attempt ${reconnectAttemptsRef.current} of ${MAX_RECONNECT_ATTEMPTS})`
+          });
+          return;
+        }
         streamEndedRef.current = true;
         closeEventSource(true);
         progressRef.current = 0;
@@ -645,6 +663,9 @@ export function useAdvancedStreaming() {
       eventSource.addEventListener('stream.complete', handleComplete as EventListener);
       eventSource.addEventListener('stream.error', handleStreamErrorEvent as EventListener);
       eventSource.onerror = handleError;
+      eventSource.onopen = () => {
+        reconnectAttemptsRef.current = 0;
+      };
     } catch (error: any) {
       if (error?.name === 'AbortError') {
         return;
@@ -0,0 +1,109 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Data hook for the batch evaluation page: lists runs, loads the selected run's summary,
+ *          per-model stats and cell results (polling while it is running), and starts, pauses,
+ *          resumes or cancels runs through /api/batch-runs.
+ * SRP/DRY check: Pass - API/state only; rendering lives in pages/batch-runs.tsx and components/batch.
+ * shadcn/ui: Pass - No UI components, pure logic hook
+ */
+
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import type { BatchItemStatus, BatchModelStats, BatchRunSummary } from '@shared/batch-types';
+
+const POLL_INTERVAL_MS = 2000;
+
+export interface BatchRunItemView {
+  id: string;
+  promptIndex: number;
+  promptId: string;
+  prompt: string;
+  modelId: string;
+  status: BatchItemStatus;
+  content: string | null;
+  responseTimeMs: number | null;
+  cost: { total: number } | null;
+  error: string | null;
+}
+
+export interface StartBatchRunInput {
+  name?: string;
+  modelIds: string[];
+  concurrency?: number;
+  source:
+    | { type: 'category'; categoryId: string }
+    | { type: 'jsonl'; content: string; fileName?: string };
+}
+
+type BatchAction = 'pause' | 'resume' | 'cancel';
+
+export function useBatchRuns() {
+  const { toast } = useToast();
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+
+  const runsQuery = useQuery<BatchRunSummary[]>({
+    queryKey: ['/api/batch-runs'],
+    refetchInterval: (query) => query.state.data?.some(run => run.status === 'running') ? POLL_INTERVAL_MS : false,
+  });
+
+  const detailQuery = useQuery<{ run: BatchRunSummary; models: BatchModelStats[] }>({
+    queryKey: ['/api/batch-runs', selectedRunId ?? ''],
+    enabled: Boolean(selectedRunId),
+    refetchInterval: (query) => query.state.data?.run.status === 'running' ? POLL_INTERVAL_MS : false,
+  });
+
+  const isSelectedRunning = detailQuery.data?.run.status === 'running';
+  const itemsQuery = useQuery<BatchRunItemView[]>({
+    queryKey: ['/api/batch-runs', selectedRunId ?? '', 'items'],
+    enabled: Boolean(selectedRunId),
+    refetchInterval: isSelectedRunning ? POLL_INTERVAL_MS : false,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['/api/batch-runs'] });
+
+  const startMutation = useMutation({
+    mutationFn: async (input: StartBatchRunInput) => {
+      const response = await apiRequest('POST', '/api/batch-runs', input);
+      return await response.json() as BatchRunSummary;
+    },
+    onSuccess: (run) => {
+      setSelectedRunId(run.id);
+      refresh();
+      toast({
+        title: "Batch Started",
+        description: `${run.progress.total} calls queued across ${run.modelIds.length} models.`,
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Batch Not Started", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ runId, action }: { runId: string; action: BatchAction }) => {
+      const response = await apiRequest('POST', `/api/batch-runs/${encodeURIComponent(runId)}/${action}`);
+      return await response.json() as BatchRunSummary;
+    },
+    onSuccess: () => refresh(),
+    onError: (error) => {
+      toast({ title: "Batch Action Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    runs: runsQuery.data ?? [],
+    isLoadingRuns: runsQuery.isLoading,
+    selectedRunId,
+    selectRun: setSelectedRunId,
+    selectedRun: detailQuery.data?.run ?? null,
+    modelStats: detailQuery.data?.models ?? [],
+    items: itemsQuery.data ?? [],
+    startRun: (input: StartBatchRunInput) => startMutation.mutate(input),
+    isStarting: startMutation.isPending,
+    runAction: (runId: string, action: BatchAction) => actionMutation.mutate({ runId, action }),
+    isActing: actionMutation.isPending,
+  };
+}
@@ -4,21 +4,45 @@
  * PURPOSE: Custom hook for managing AI model comparison state and API interactions.
  *          Extracts all comparison logic from the massive home.tsx component.
  *          Handles model selection, API calls, response management, and loading states.
+ *          Comparisons stream over a single multiplexed SSE channel so each card fills in
+ *          as its model produces reasoning/content; retries still use /api/models/respond.
+ *          Once the stream persists the comparison, it can be scored by the LLM judge
+ *          and the user can vote for the best response (feeds the leaderboard).
+ *          Prompts with a reference answer are graded automatically (pass/fail per model).
  * SRP/DRY check: Pass - Single responsibility for comparison state management
  * shadcn/ui: Pass - No UI components, pure logic hook
  */
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useMutation } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
 import type { ModelResponse } from '@/types/ai-models';
+import type { ComparisonJudgementResult } from '@shared/judge-types';
+import type { ComparisonGradingResult } from '@shared/reference-answer';
+
+interface CompareStreamInitResponse {
+  sessionId: string;
+  taskId: string;
+  modelKey: string;
+  modelIds: string[];
+  expiresAt: string;
+  /** Held until the stream settles; stream.complete reports what was charged */
+  creditsReserved: number;
+}
 
 export interface ComparisonState {
   selectedModels: string[];
   responses: Record<string, ModelResponse>;
   loadingModels: Set<string>;
   completedModels: Set<string>;
+  /** Id of the persisted comparison, known once the stream completes */
+  comparisonId: string | null;
+  judgement: ComparisonJudgementResult | null;
+  /** The user's best-response vote for this comparison; winnerModelId null is a tie */
+  humanVote: { winnerModelId: string | null } | null;
+  /** Reference-answer grades; null when the prompt has no known answer */
+  grading: ComparisonGradingResult | null;
 }
 
 export interface ComparisonActions {
@@ -29,12 +53,16 @@ export interface ComparisonActions {
   startComparison: (prompt: string) => void;
   retryModel: (modelId: string, prompt: string) => void;
   resetComparison: () => void;
+  judgeComparison: () => void;
+  voteBest: (winnerModelId: string | null) => void;
 }
 
 export interface ComparisonStatus {
   isComparing: boolean;
   hasResponses: boolean;
   canStartComparison: (prompt: string) => boolean;
+  isJudging: boolean;
+  isVoting: boolean;
 }
 
 export function useComparison() {
@@ -45,6 +73,135 @@ export function useComparison() {
   const [responses, setResponses] = useState<Record<string, ModelResponse>>({});
   const [loadingModels, setLoadingModels] = useState<Set<string>>(new Set());
   const [completedModels, setCompletedModels] = useState<Set<string>>(new Set());
+  const [comparisonId, setComparisonId] = useState<string | null>(null);
+  const [judgement, setJudgement] = useState<ComparisonJudgementResult | null>(null);
+  const [humanVote, setHumanVote] = useState<ComparisonState['humanVote']>(null);
+  const [grading, setGrading] = useState<ComparisonGradingResult | null>(null);
+  const eventSourceRef = useRef<EventSource | null>(null);
+
+  const closeStream = () => {
+    eventSourceRef.current?.close();
+    eventSourceRef.current = null;
+  };
+
+  useEffect(() => closeStream, []);
+
+  const markModelDone = (modelId: string, succeeded: boolean) => {
+    setLoadingModels(prev => {
+      const newSet = new Set(prev);
+      newSet.delete(modelId);
+      return newSet;
+    });
+    if (succeeded) {
+      setCompletedModels(prev => new Set([...Array.from(prev), modelId]));
+    }
+  };
+
+  const patchResponse = (modelId: string, patch: Partial<ModelResponse>) => {
+    setResponses(prev => {
+      const existing: ModelResponse = prev[modelId] ?? { content: '', status: 'loading', responseTime: 0 };
+      return { ...prev, [modelId]: { ...existing, ...patch } };
+    });
+  };
+
+  const failPendingModels = (modelIds: string[], message: string) => {
+    modelIds.forEach(modelId => {
+      setResponses(prev => prev[modelId]?.status === 'loading' || !prev[modelId]
+        ? { ...prev, [modelId]: { content: prev[modelId]?.content ?? '', status: 'error', responseTime: 0, error: message } }
+        : prev);
+      markModelDone(modelId, false);
+    });
+  };
+
+  const openComparisonStream = (init: CompareStreamInitResponse) => {
+    closeStream();
+    const pending = new Set(init.modelIds);
+    const url = `/api/models/compare/stream/${encodeURIComponent(init.taskId)}/${encodeURIComponent(init.modelKey)}/${encodeURIComponent(init.sessionId)}`;
+    const source = new EventSource(url);
+    eventSourceRef.current = source;
+
+    const parse = (event: MessageEvent) => {
+      try {
+        return JSON.parse(event.data);
+      } catch {
+        return null;
+      }
+    };
+
+    source.addEventListener('stream.status', (event) => {
+      const payload = parse(event as MessageEvent);
+      if (!payload?.modelId) return;
+      if (payload.phase === 'queued') {
+        patchResponse(payload.modelId, { statusMessage: `Queued for ${payload.provider} (position ${payload.position})` });
+      } else if (payload.phase === 'retrying') {
+        patchResponse(payload.modelId, { statusMessage: `Retrying in ${Math.ceil(payload.delayMs / 1000)}s (${payload.reason})` });
+      } else if (payload.phase === 'dequeued' || payload.phase === 'stream_start') {
+        patchResponse(payload.modelId, { statusMessage: undefined });
+      }
+    });
+
+    source.addEventListener('stream.chunk', (event) => {
+      const payload = parse(event as MessageEvent);
+      if (!payload?.modelId) return;
+      if (payload.type === 'reasoning') {
+        patchResponse(payload.modelId, { reasoning: payload.cumulative, statusMessage: undefined });
+      } else if (payload.type === 'text') {
+        patchResponse(payload.modelId, { content: payload.cumulative, statusMessage: undefined });
+      }
+    });
+
+    source.addEventListener('stream.model.complete', (event) => {
+      const payload = parse(event as MessageEvent);
+      if (!payload?.modelId) return;
+      pending.delete(payload.modelId);
+      patchResponse(payload.modelId, {
+        status: 'success',
+        statusMessage: undefined,
+        content: payload.content,
+        reasoning: payload.reasoning || undefined,
+        responseTime: payload.responseTime,
+        tokenUsage: payload.tokenUsage,
+        cost: payload.cost,
+        route: payload.route,
+      });
+      markModelDone(payload.modelId, true);
+    });
+
+    source.addEventListener('stream.model.error', (event) => {
+      const payload = parse(event as MessageEvent);
+      if (!payload?.modelId) return;
+      pending.delete(payload.modelId);
+      patchResponse(payload.modelId, { status: 'error', error: payload.error });
+      markModelDone(payload.modelId, false);
+    });
+
+    source.addEventListener('stream.complete', (event) => {
+      const payload = parse(event as MessageEvent);
+      closeStream();
+      setComparisonId(payload?.id ?? null);
+      failPendingModels(Array.from(pending), 'Stream ended before this model finished');
+      if (payload?.id) {
+        gradeMutation.mutate(payload.id);
+      }
+      toast({
+        title: "Comparison Complete",
+        description: `${init.modelIds.length} model${init.modelIds.length === 1 ? '' : 's'} finished streaming.`,
+      });
+    });
+
+    source.addEventListener('stream.error', (event) => {
+      const payload = parse(event as MessageEvent);
+      closeStream();
+      failPendingModels(Array.from(pending), payload?.error ?? 'Stream failed');
+    });
+
+    source.onerror = () => {
+      if (eventSourceRef.current === source) {
+        closeStream();
+        failPendingModels(Array.from(pending), 'Lost connection to comparison stream');
+      }
+    };
+  };
 
   // Individual model response mutation for parallel requests
   const modelResponseMutation = useMutation({
@@ -95,6 +252,75 @@ export function useComparison() {
     },
   });
 
+  // Scores the persisted comparison with the server-side LLM judge
+  const judgeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/models/comparisons/${encodeURIComponent(id)}/judge`, {});
+      return await response.json() as ComparisonJudgementResult;
+    },
+    onSuccess: (result) => {
+      setJudgement(result);
+      const winner = result.rankings[0];
+      toast({
+        title: "Judging Complete",
+        description: winner ? `Top ranked: ${winner.modelId} (${winner.overall.toFixed(1)}/10)` : 'No responses were ranked.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Judging Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Grades responses against the prompt's reference answer; the server answers with no grades when there is none
+  const gradeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/models/comparisons/${encodeURIComponent(id)}/grade`, {});
+      return await response.json() as ComparisonGradingResult;
+    },
+    onSuccess: (result) => {
+      if (!result.reference) return;
+      setGrading(result);
+      const passed = result.grades.filter(grade => grade.passed).length;
+      toast({
+        title: "Answers Graded",
+        description: `${passed}/${result.grades.length} responses match the reference answer.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Grading Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Records the user's pick as pairwise matchups on the leaderboard; re-voting replaces it
+  const voteMutation = useMutation({
+    mutationFn: async ({ id, winnerModelId, modelIds }: { id: string; winnerModelId: string | null; modelIds: string[] }) => {
+      await apiRequest('POST', '/api/leaderboard/votes', { comparisonId: id, winnerModelId, modelIds });
+      return winnerModelId;
+    },
+    onSuccess: (winnerModelId) => {
+      setHumanVote({ winnerModelId });
+      toast({
+        title: "Vote Recorded",
+        description: winnerModelId ? `Voted ${winnerModelId} best response.` : 'Recorded as a tie.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Vote Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Actions
   const toggleModel = (modelId: string) => {
     setSelectedModels(prev => 
@@ -113,9 +339,26 @@ export function useComparison() {
   };
 
   const resetComparison = () => {
+    closeStream();
     setResponses({});
     setLoadingModels(new Set());
     setCompletedModels(new Set());
+    setComparisonId(null);
+    setJudgement(null);
+    setHumanVote(null);
+    setGrading(null);
+  };
+
+  const judgeComparison = () => {
+    if (!comparisonId || judgeMutation.isPending) return;
+    judgeMutation.mutate(comparisonId);
+  };
+
+  const voteBest = (winnerModelId: string | null) => {
+    if (!comparisonId || voteMutation.isPending) return;
+    // Failed responses did not compete, so only successful models are part of the vote
+    const modelIds = Object.keys(responses).filter(modelId => responses[modelId]?.status === 'success');
+    voteMutation.mutate({ id: comparisonId, winnerModelId, modelIds });
   };
 
   const canStartComparison = (prompt: string): boolean => {
@@ -143,17 +386,30 @@ export function useComparison() {
 
     // Reset state for new comparison
     resetComparison();
-    setLoadingModels(new Set(selectedModels));
-    
-    // Start all model requests in parallel for incremental rendering
-    selectedModels.forEach(modelId => {
-      modelResponseMutation.mutate({ prompt, modelId });
-    });
-    
-    toast({
-      title: "Comparison Started",
-      description: `Requesting responses from ${selectedModels.length} models...`,
-    });
+    const modelIds = [...selectedModels];
+    setLoadingModels(new Set(modelIds));
+    setResponses(Object.fromEntries(
+      modelIds.map(modelId => [modelId, { content: '', status: 'loading' as const, responseTime: 0 }])
+    ));
+
+    // One handshake, then every model streams into its own card over a shared SSE channel
+    apiRequest('POST', '/api/models/compare/stream/init', { prompt, modelIds })
+      .then(response => response.json() as Promise<CompareStreamInitResponse>)
+      .then(init => {
+        openComparisonStream(init);
+        toast({
+          title: "Comparison Started",
+          description: `Streaming responses from ${modelIds.length} models...`,
+        });
+      })
+      .catch((error: Error) => {
+        failPendingModels(modelIds, error.message);
+        toast({
+          title: "Comparison Failed",
+          description: error.message,
+          variant: "destructive",
+        });
+      });
   };
 
   const retryModel = (modelId: string, prompt: string) => {
@@ -182,6 +438,10 @@ export function useComparison() {
     responses,
     loadingModels,
     completedModels,
+    comparisonId,
+    judgement,
+    humanVote,
+    grading,
   };
 
   // Actions object
@@ -193,6 +453,8 @@ export function useComparison() {
     startComparison,
     retryModel,
     resetComparison,
+    judgeComparison,
+    voteBest,
   };
 
   // Status object
@@ -200,6 +462,8 @@ export function useComparison() {
     isComparing: loadingModels.size > 0,
     hasResponses: Object.keys(responses).length > 0,
     canStartComparison,
+    isJudging: judgeMutation.isPending,
+    isVoting: voteMutation.isPending,
   };
 
   return {
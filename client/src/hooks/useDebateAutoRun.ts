@@ -0,0 +1,148 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Data hook for server-driven debate runs: loads the session's run, attaches to its
+ *          /run/events stream while it is playing (re-attaching after a reload picks up the in-progress
+ *          turn from the snapshot), refetches the session transcript whenever a turn is saved, and
+ *          starts, stops or resumes the run through /api/debate/session/:id/run.
+ * SRP/DRY check: Pass - API/state only; rendering lives in components/debate/DebateAutoRunPanel.tsx.
+ * shadcn/ui: Pass - No UI components, pure logic hook
+ */
+
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import type { DebateRunSeatSettings, DebateRunSummary } from '@shared/debate-run-types';
+
+export interface DebateLiveTurn {
+  turnNumber: number;
+  participantId: string;
+  modelId: string;
+  content: string;
+  reasoning: string;
+}
+
+export interface StartDebateRunInput {
+  sessionId: string;
+  turns?: number;
+  seatSettings?: Record<string, DebateRunSeatSettings>;
+}
+
+type DebateRunAction = 'stop' | 'resume';
+
+export function useDebateAutoRun(sessionId: string | null) {
+  const { toast } = useToast();
+  const [liveTurn, setLiveTurn] = useState<DebateLiveTurn | null>(null);
+  const [isAttached, setIsAttached] = useState(false);
+
+  const runQuery = useQuery<DebateRunSummary | null>({
+    queryKey: ['/api/debate/session', sessionId ?? '', 'run'],
+    enabled: Boolean(sessionId),
+    refetchOnWindowFocus: false,
+    queryFn: async () => {
+      const response = await fetch(`/api/debate/session/${encodeURIComponent(sessionId ?? '')}/run`);
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error('Failed to fetch debate run');
+      return response.json();
+    },
+  });
+
+  const run = runQuery.data ?? null;
+  const isRunning = run?.status === 'running';
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/debate/session', sessionId ?? ''] });
+  };
+
+  useEffect(() => {
+    if (!sessionId || !isRunning) return;
+
+    const source = new EventSource(`/api/debate/session/${encodeURIComponent(sessionId)}/run/events`);
+    const parse = (event: MessageEvent) => JSON.parse(event.data);
+    setIsAttached(true);
+
+    source.addEventListener('run.snapshot', (event) => {
+      const payload = parse(event as MessageEvent);
+      setLiveTurn(payload.liveTurn ?? null);
+    });
+    source.addEventListener('turn.init', (event) => {
+      const payload = parse(event as MessageEvent);
+      setLiveTurn({ turnNumber: payload.turnNumber, participantId: payload.participantId, modelId: payload.modelId, content: '', reasoning: '' });
+    });
+    source.addEventListener('turn.chunk', (event) => {
+      const payload = parse(event as MessageEvent);
+      setLiveTurn(current => {
+        if (!current || current.turnNumber !== payload.turnNumber || typeof payload.cumulative !== 'string') return current;
+        if (payload.type === 'text') return { ...current, content: payload.cumulative };
+        if (payload.type === 'reasoning') return { ...current, reasoning: payload.cumulative };
+        return current;
+      });
+    });
+    source.addEventListener('turn.complete', () => {
+      setLiveTurn(null);
+      refresh();
+    });
+    source.addEventListener('turn.error', (event) => {
+      const payload = parse(event as MessageEvent);
+      setLiveTurn(null);
+      toast({ title: `Turn ${payload.turnNumber} Failed`, description: payload.error, variant: 'destructive' });
+    });
+    source.addEventListener('run.end', () => {
+      source.close();
+      setIsAttached(false);
+      setLiveTurn(null);
+      refresh();
+    });
+    source.onerror = () => {
+      // The browser retries on its own; a retry lands on a fresh snapshot
+      setIsAttached(source.readyState === EventSource.OPEN);
+    };
+
+    return () => {
+      source.close();
+      setIsAttached(false);
+    };
+  }, [sessionId, isRunning]);
+
+  const startMutation = useMutation({
+    mutationFn: async ({ sessionId: targetId, ...body }: StartDebateRunInput) => {
+      const response = await apiRequest('POST', `/api/debate/session/${encodeURIComponent(targetId)}/run`, body);
+      return await response.json() as DebateRunSummary;
+    },
+    onSuccess: (started) => {
+      queryClient.setQueryData(['/api/debate/session', started.sessionId, 'run'], started);
+      toast({
+        title: "Debate Queued on Server",
+        description: `Turns ${started.turnsCompleted + 1}-${started.targetTurns} will play even if you close this tab.`,
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Debate Run Not Started", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: DebateRunAction) => {
+      const response = await apiRequest('POST', `/api/debate/session/${encodeURIComponent(sessionId ?? '')}/run/${action}`);
+      return await response.json() as DebateRunSummary;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['/api/debate/session', updated.sessionId, 'run'], updated);
+    },
+    onError: (error) => {
+      toast({ title: "Debate Run Action Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    run,
+    liveTurn,
+    isAttached,
+    startRun: (input: StartDebateRunInput) => startMutation.mutateAsync(input),
+    isStarting: startMutation.isPending,
+    stopRun: () => actionMutation.mutate('stop'),
+    resumeRun: () => actionMutation.mutate('resume'),
+    isActing: actionMutation.isPending,
+  };
+}
@@ -1,6 +1,7 @@
 // * Author: GPT-5 Codex
 // * Date: 2025-10-17 19:47 UTC
 // * PURPOSE: Rebuild debate export hook post-merge to emit debate turn history exports aligned with new session state and jury summaries.
+//            Includes the judge model's verdict when the session has been adjudicated.
 // * SRP/DRY check: Pass - Hook focuses on export orchestration while reusing shared export utilities.
 
 import { useCallback } from 'react';
@@ -14,6 +15,7 @@ import {
 } from '@/lib/exportUtils';
 import type { AIModel, ModelResponse } from '@/types/ai-models';
 import type { DebateTurnHistoryEntry, DebateTurnJuryAnnotation } from '@/hooks/useDebateSession';
+import type { DebateVerdict } from '@shared/debate-verdict-types';
 
 export interface DebateExportParams {
   turnHistory: DebateTurnHistoryEntry[];
@@ -22,6 +24,7 @@ export interface DebateExportParams {
   customTopic: string;
   useCustomTopic: boolean;
   jurySummary?: DebateTurnJuryAnnotation | null;
+  judgeVerdict?: DebateVerdict | null;
 }
 
 export interface DebateExportState {
@@ -90,7 +93,7 @@ export function useDebateExport(): DebateExportState {
   const { toast } = useToast();
 
   const buildExportData = useCallback((params: DebateExportParams): ExportData | null => {
-    const { turnHistory, models, selectedTopic, customTopic, useCustomTopic, jurySummary } = params;
+    const { turnHistory, models, selectedTopic, customTopic, useCustomTopic, jurySummary, judgeVerdict } = params;
 
     if (turnHistory.length === 0) {
       return null;
@@ -117,6 +120,7 @@ export function useDebateExport(): DebateExportState {
       models: timeline,
       mode: 'debate',
       jurySummary: jurySummary ?? null,
+      judgeVerdict: judgeVerdict ?? null,
     };
   }, []);
 
@@ -3,12 +3,15 @@
  *
  * Author: Cascade
  * Date: October 15, 2025
- * PURPOSE: Handle debate data loading from markdown files and prompt generation logic
+ * PURPOSE: Handle debate data loading from markdown files and prompt generation logic.
+ *          Topics come from the persisted catalog (/api/debate/topics); the markdown topics are only
+ *          used until the catalog has loaded, or when it is unavailable.
  * SRP/DRY check: Pass - Single responsibility for debate prompts management, no duplication with other data loading hooks
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { parseDebatePromptsFromMarkdown, type DebateInstructions } from '@/lib/promptParser';
+import { useDebateTopics } from '@/hooks/useDebateTopics';
 import { applyTemplateReplacements } from '@/lib/debatePromptUtils';
 import { getDebateIntensityDescriptor } from '@shared/debate-instructions.ts';
 
@@ -30,7 +33,7 @@ export interface DebatePromptsState {
 }
 
 export function useDebatePrompts(): DebatePromptsState {
-  const [debateData, setDebateData] = useState<DebateInstructions | null>(null);
+  const [instructions, setInstructions] = useState<DebateInstructions | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -42,7 +45,7 @@ export function useDebatePrompts(): DebatePromptsState {
       try {
         const data = await parseDebatePromptsFromMarkdown();
         if (!data) throw new Error('Failed to parse debate prompts');
-        setDebateData(data);
+        setInstructions(data);
       } catch (e: any) {
         console.error(e);
         setError(e.message || 'Failed to load debate prompts');
@@ -53,6 +56,12 @@ export function useDebatePrompts(): DebatePromptsState {
     loadDebate();
   }, []);
 
+  const { topics: catalogTopics } = useDebateTopics();
+  const debateData = useMemo<DebateInstructions | null>(() => {
+    if (!instructions) return null;
+    return catalogTopics.length > 0 ? { ...instructions, topics: catalogTopics } : instructions;
+  }, [instructions, catalogTopics]);
+
   // Generate Robert's Rules debate prompts using parsed templates
   const generateDebatePrompts = (params: {
     selectedTopic: string;
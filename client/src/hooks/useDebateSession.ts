@@ -1,10 +1,24 @@
 // * Author: GPT-5 Codex
 // * Date: 2025-10-22 00:50 UTC
 // * PURPOSE: Revert debate session state manager to main branch baseline to restore reliable resets and hydration.
+// *          Turns carry the seat (participantId) that spoke, so panel debates resume with the right speaker
+// *          and each seat's own previous response id. Sessions following a structured debate format resume
+// *          with the seat the format's turn plan names. A turn's fact-check, when one was run, is carried
+// *          from the stored turn record onto its message, and fresh checks are applied in place. Session
+// *          summaries carry the parent session and fork turn of forked debates. Jury annotations are keyed
+// *          by participant id so every panel seat is scored on its own.
 // * SRP/DRY check: Pass - Hook returns to proven single-responsibility logic without redundant helpers.
 
 import { useCallback, useMemo, useRef, useState } from 'react';
 import type { ContentStreamChunk, ReasoningStreamChunk } from '@/hooks/useAdvancedStreaming';
+import type { DebateVerdict } from '@shared/debate-verdict-types';
+import type { DebateTurnFactCheck } from '@shared/debate-fact-check-types';
+import {
+  resolveDebateParticipants,
+  type DebateParticipant,
+  type DebateParticipantSource,
+} from '@shared/debate-participants';
+import { speakerForFormatTurn, type DebateTurnSlot } from '@shared/debate-formats';
 
 export type DebatePhase = 'OPENING_STATEMENTS' | 'REBUTTALS' | 'CLOSING_ARGUMENTS';
 
@@ -15,6 +29,8 @@ export const ROBERTS_RULES_PHASES: readonly DebatePhase[] = [
 ] as const;
 
 export interface JuryAnnotation {
+  /** Seat the points belong to; absent on annotations keyed by model id */
+  participantId?: string;
   modelId: string;
   modelName: string;
   points: number;
@@ -23,6 +39,7 @@ export interface JuryAnnotation {
   needsReview: boolean;
 }
 
+/** Keyed by participant id, so two seats playing the same model are scored apart */
 export type JuryAnnotationsMap = Record<string, JuryAnnotation>;
 
 export interface DebateTurnJuryAnnotation {
@@ -36,6 +53,7 @@ export interface DebateTurnJuryAnnotation {
 export interface DebateTurnHistoryEntry {
   turn: number;
   modelId: string;
+  participantId?: string;
   modelName?: string;
   content: string;
   reasoning?: string;
@@ -56,6 +74,7 @@ export interface DebateTurnHistoryEntry {
   durationMs?: number;
   createdAt?: string | number | Date;
   jury?: DebateTurnJuryAnnotation;
+  factCheck?: DebateTurnFactCheck | null;
 }
 
 export interface DebateSessionSummary {
@@ -70,6 +89,11 @@ export interface DebateSessionSummary {
   durationMs?: number;
   turnCount?: number;
   jury?: DebateTurnJuryAnnotation;
+  participants?: DebateParticipant[];
+  format?: string | null;
+  /** Session this one was forked from, and the last turn copied from it */
+  parentSessionId?: string | null;
+  forkedAtTurn?: number | null;
 }
 
 export interface DebateSessionHydration {
@@ -81,10 +105,17 @@ export interface DebateSessionHydration {
   turnHistory: DebateTurnHistoryEntry[];
   model1ResponseIds?: string[];
   model2ResponseIds?: string[];
+  participants?: DebateParticipant[];
+  speakingOrder?: string[];
+  participantResponseIds?: Record<string, string[]>;
+  format?: string | null;
   totalCost?: number;
   createdAt?: string;
   updatedAt?: string;
   jurySummary?: DebateTurnJuryAnnotation | null;
+  verdict?: DebateVerdict | null;
+  parentSessionId?: string | null;
+  forkedAtTurn?: number | null;
 }
 
 export interface DebateSessionMetadata {
@@ -92,10 +123,16 @@ export interface DebateSessionMetadata {
   model1Id: string | null;
   model2Id: string | null;
   adversarialLevel: number | null;
+  participants?: DebateParticipant[] | null;
+  speakingOrder?: string[] | null;
+  format?: string | null;
 }
 
 export interface DebateResumeContext {
   nextTurnNumber: number;
+  nextParticipant: DebateParticipant;
+  /** Seat index of nextParticipant; 0 and 1 are the model1/model2 seats */
+  nextSeatIndex: number;
   nextModelId: string;
   isModelBTurn: boolean;
   previousResponseId: string | null;
@@ -104,6 +141,7 @@ export interface DebateResumeContext {
 export interface DebateMessage {
   id: string;
   modelId: string;
+  participantId?: string;
   modelName: string;
   content: string;
   timestamp: number;
@@ -139,6 +177,7 @@ export interface DebateMessage {
       reasoningPerMillion?: number;
     };
   };
+  factCheck?: DebateTurnFactCheck | null;
 }
 
 export interface DebateSessionState {
@@ -173,12 +212,12 @@ export interface DebateSessionState {
 
   // Jury annotations
   juryAnnotations: JuryAnnotationsMap;
-  initializeJury: (speakers: Array<{ modelId: string; modelName: string }>) => void;
-  incrementJuryPoints: (modelId: string) => void;
-  decrementJuryPoints: (modelId: string) => void;
-  toggleJuryTag: (modelId: string, tag: string) => void;
-  setJuryNotes: (modelId: string, notes: string) => void;
-  markJuryReviewed: (modelId: string, reviewed?: boolean) => void;
+  initializeJury: (speakers: Array<{ participantId?: string; modelId: string; modelName: string }>) => void;
+  incrementJuryPoints: (seatId: string) => void;
+  decrementJuryPoints: (seatId: string) => void;
+  toggleJuryTag: (seatId: string, tag: string) => void;
+  setJuryNotes: (seatId: string, notes: string) => void;
+  markJuryReviewed: (seatId: string, reviewed?: boolean) => void;
   hasUnresolvedJuryTasks: () => boolean;
 
   // Helper functions
@@ -188,7 +227,9 @@ export interface DebateSessionState {
     modelLookup: Map<string, { name: string; provider?: string }>
   ) => void;
   updateJurySummary: (summary: DebateTurnJuryAnnotation | null) => void;
-  getResumeContext: (params: { model1Id: string; model2Id: string }) => DebateResumeContext;
+  applyFactChecks: (results: Array<{ turn: number; factCheck: DebateTurnFactCheck }>) => void;
+  getResumeContext: (params: DebateParticipantSource, turnPlan?: DebateTurnSlot[] | null) => DebateResumeContext;
+  hasRecordedResponse: (responseId: string) => boolean;
   resetSession: () => void;
   calculateTotalCost: () => number;
 }
@@ -198,6 +239,9 @@ const INITIAL_METADATA: DebateSessionMetadata = {
   model1Id: null,
   model2Id: null,
   adversarialLevel: null,
+  participants: null,
+  speakingOrder: null,
+  format: null,
 };
 
 function normalizeTurn(entry: DebateTurnHistoryEntry): DebateTurnHistoryEntry {
@@ -208,7 +252,7 @@ function normalizeTurn(entry: DebateTurnHistoryEntry): DebateTurnHistoryEntry {
   };
 }
 
-function buildMessageFromTurn(turn: DebateTurnHistoryEntry, fallbackName: string): DebateMessage {
+function buildMessageFromTurn(turn: DebateTurnHistoryEntry, fallbackName: string, seatCount = 2): DebateMessage {
   const timestampValue =
     typeof turn.createdAt === 'number'
       ? turn.createdAt
@@ -245,15 +289,17 @@ function buildMessageFromTurn(turn: DebateTurnHistoryEntry, fallbackName: string
   return {
     id: turnIdentifier,
     modelId: turn.modelId,
+    participantId: turn.participantId,
     modelName: turn.modelName ?? fallbackName,
     content: turn.content,
     timestamp: timestampValue,
-    round: Math.max(1, Math.ceil(turn.turn / 2)),
+    round: Math.max(1, Math.ceil(turn.turn / seatCount)),
     turnNumber: turn.turn,
     reasoning: turn.reasoning,
     responseId: turn.responseId ?? null,
     responseTime: turn.durationMs ?? 0,
     tokenUsage,
+    factCheck: turn.factCheck ?? null,
     cost:
       costTotal !== undefined
         ? {
@@ -325,8 +371,9 @@ export function useDebateSession(): DebateSessionState {
 
   const isFloorOpen = useCallback((): boolean => floorOpen, [floorOpen]);
 
-  const ensureAnnotation = useCallback((modelId: string, modelName: string): JuryAnnotation => {
+  const ensureAnnotation = useCallback((modelId: string, modelName: string, participantId?: string): JuryAnnotation => {
     return {
+      participantId,
       modelId,
       modelName,
       points: 0,
@@ -368,28 +415,29 @@ export function useDebateSession(): DebateSessionState {
   }, []);
 
   const initializeJury = useCallback(
-    (speakers: Array<{ modelId: string; modelName: string }>) => {
+    (speakers: Array<{ participantId?: string; modelId: string; modelName: string }>) => {
       setJuryAnnotations(prev => {
         const next: JuryAnnotationsMap = { ...prev };
         let changed = false;
 
-        speakers.forEach(({ modelId, modelName }) => {
-          const existing = next[modelId];
+        speakers.forEach(({ participantId, modelId, modelName }) => {
+          const seatId = participantId ?? modelId;
+          const existing = next[seatId];
           if (existing) {
-            if (existing.modelName !== modelName) {
-              next[modelId] = { ...existing, modelName };
+            if (existing.modelName !== modelName || existing.modelId !== modelId) {
+              next[seatId] = { ...existing, modelId, modelName };
               changed = true;
             }
           } else {
-            next[modelId] = ensureAnnotation(modelId, modelName);
+            next[seatId] = ensureAnnotation(modelId, modelName, participantId);
             changed = true;
           }
         });
 
-        const activeIds = new Set(speakers.map(s => s.modelId));
-        Object.keys(next).forEach(modelId => {
-          if (!activeIds.has(modelId)) {
-            delete next[modelId];
+        const activeIds = new Set(speakers.map(s => s.participantId ?? s.modelId));
+        Object.keys(next).forEach(seatId => {
+          if (!activeIds.has(seatId)) {
+            delete next[seatId];
             changed = true;
           }
         });
@@ -400,16 +448,16 @@ export function useDebateSession(): DebateSessionState {
     [ensureAnnotation]
   );
 
-  const adjustPoints = useCallback((modelId: string, delta: number) => {
+  const adjustPoints = useCallback((seatId: string, delta: number) => {
     setJuryAnnotations(prev => {
-      const current = prev[modelId];
+      const current = prev[seatId];
       if (!current) {
         return prev;
       }
       const nextPoints = Math.max(0, current.points + delta);
       return {
         ...prev,
-        [modelId]: {
+        [seatId]: {
           ...current,
           points: nextPoints,
         },
@@ -417,19 +465,19 @@ export function useDebateSession(): DebateSessionState {
     });
   }, []);
 
-  const incrementJuryPoints = useCallback((modelId: string) => adjustPoints(modelId, 1), [adjustPoints]);
-  const decrementJuryPoints = useCallback((modelId: string) => adjustPoints(modelId, -1), [adjustPoints]);
+  const incrementJuryPoints = useCallback((seatId: string) => adjustPoints(seatId, 1), [adjustPoints]);
+  const decrementJuryPoints = useCallback((seatId: string) => adjustPoints(seatId, -1), [adjustPoints]);
 
-  const toggleJuryTag = useCallback((modelId: string, tag: string) => {
+  const toggleJuryTag = useCallback((seatId: string, tag: string) => {
     setJuryAnnotations(prev => {
-      const current = prev[modelId];
+      const current = prev[seatId];
       if (!current) {
         return prev;
       }
       const hasTag = current.tags.includes(tag);
       return {
         ...prev,
-        [modelId]: {
+        [seatId]: {
           ...current,
           tags: hasTag ? current.tags.filter(t => t !== tag) : [...current.tags, tag],
           needsReview: true,
@@ -438,9 +486,9 @@ export function useDebateSession(): DebateSessionState {
     });
   }, []);
 
-  const setJuryNotes = useCallback((modelId: string, notes: string) => {
+  const setJuryNotes = useCallback((seatId: string, notes: string) => {
     setJuryAnnotations(prev => {
-      const current = prev[modelId];
+      const current = prev[seatId];
       if (!current) {
         return prev;
       }
@@ -449,7 +497,7 @@ export function useDebateSession(): DebateSessionState {
       }
       return {
         ...prev,
-        [modelId]: {
+        [seatId]: {
           ...current,
           notes,
           needsReview: true,
@@ -458,15 +506,15 @@ export function useDebateSession(): DebateSessionState {
     });
   }, []);
 
-  const markJuryReviewed = useCallback((modelId: string, reviewed = true) => {
+  const markJuryReviewed = useCallback((seatId: string, reviewed = true) => {
     setJuryAnnotations(prev => {
-      const current = prev[modelId];
+      const current = prev[seatId];
       if (!current) {
         return prev;
       }
       return {
         ...prev,
-        [modelId]: {
+        [seatId]: {
           ...current,
           needsReview: !reviewed,
         },
@@ -553,13 +601,14 @@ export function useDebateSession(): DebateSessionState {
       });
 
       setJuryAnnotations(prev => {
-        const existing = prev[normalizedMessage.modelId];
+        const seatId = normalizedMessage.participantId ?? normalizedMessage.modelId;
+        const existing = prev[seatId];
         if (!existing) {
           return prev;
         }
         return {
           ...prev,
-          [normalizedMessage.modelId]: {
+          [seatId]: {
             ...existing,
             needsReview: true,
           },
@@ -569,6 +618,7 @@ export function useDebateSession(): DebateSessionState {
       upsertTurnHistory({
         turn: normalizedMessage.turnNumber,
         modelId: normalizedMessage.modelId,
+        participantId: normalizedMessage.participantId,
         modelName: normalizedMessage.modelName,
         content: normalizedMessage.content,
         reasoning: normalizedMessage.reasoning,
@@ -599,9 +649,13 @@ export function useDebateSession(): DebateSessionState {
         model1Id: session.model1Id,
         model2Id: session.model2Id,
         adversarialLevel: session.adversarialLevel,
+        participants: session.participants ?? null,
+        speakingOrder: session.speakingOrder ?? null,
+        format: session.format ?? null,
       });
 
       setDebateSessionId(session.id);
+      const seatCount = resolveDebateParticipants(session).length;
       responseRegistryRef.current.clear();
 
       const normalizedTurns = session.turnHistory.map(turn => {
@@ -621,7 +675,7 @@ export function useDebateSession(): DebateSessionState {
       setMessagesState(() => {
         const mapped = normalizedTurns.map(turn => {
           const fallbackName = modelLookup.get(turn.modelId)?.name ?? turn.modelName ?? 'Model';
-          const message = buildMessageFromTurn(turn, fallbackName);
+          const message = buildMessageFromTurn(turn, fallbackName, seatCount);
           const capabilities = turn.reasoning
             ? { reasoning: true, multimodal: false, functionCalling: false, streaming: true }
             : { reasoning: false, multimodal: false, functionCalling: false, streaming: true };
@@ -659,11 +713,26 @@ export function useDebateSession(): DebateSessionState {
     setJurySummary(summary);
   }, []);
 
+  const applyFactChecks = useCallback((results: Array<{ turn: number; factCheck: DebateTurnFactCheck }>) => {
+    if (results.length === 0) return;
+    const byTurn = new Map(results.map(result => [result.turn, result.factCheck]));
+    setTurnHistory(prev =>
+      prev.map(turn => (byTurn.has(turn.turn) ? { ...turn, factCheck: byTurn.get(turn.turn) } : turn))
+    );
+    setMessagesState(prev =>
+      prev.map(message =>
+        byTurn.has(message.turnNumber) ? { ...message, factCheck: byTurn.get(message.turnNumber) } : message
+      )
+    );
+  }, []);
+
+  // Turns recorded before seats existed are matched by model id
   const findLastResponseId = useCallback(
-    (modelId: string): string | null => {
+    (participant: DebateParticipant): string | null => {
       for (let index = turnHistory.length - 1; index >= 0; index -= 1) {
         const turn = turnHistory[index];
-        if (turn.modelId === modelId && turn.responseId) {
+        const isSeat = turn.participantId ? turn.participantId === participant.id : turn.modelId === participant.modelId;
+        if (isSeat && turn.responseId) {
           return turn.responseId;
         }
       }
@@ -673,23 +742,28 @@ export function useDebateSession(): DebateSessionState {
   );
 
   const getResumeContext = useCallback(
-    (params: { model1Id: string; model2Id: string }): DebateResumeContext => {
-      const { model1Id, model2Id } = params;
+    (params: DebateParticipantSource, turnPlan?: DebateTurnSlot[] | null): DebateResumeContext => {
       const nextTurnNumber = currentRound + 1;
-      const isModelBTurn = currentRound % 2 === 1;
-      const nextModelId = isModelBTurn ? model2Id : model1Id;
-      const previousResponseId = findLastResponseId(nextModelId);
+      const nextParticipant = speakerForFormatTurn(params, turnPlan, nextTurnNumber);
+      const nextSeatIndex = resolveDebateParticipants(params).findIndex(seat => seat.id === nextParticipant.id);
 
       return {
         nextTurnNumber,
-        nextModelId,
-        isModelBTurn,
-        previousResponseId,
+        nextParticipant,
+        nextSeatIndex,
+        nextModelId: nextParticipant.modelId,
+        isModelBTurn: nextSeatIndex === 1,
+        previousResponseId: findLastResponseId(nextParticipant),
       };
     },
     [currentRound, findLastResponseId]
   );
 
+  const hasRecordedResponse = useCallback(
+    (responseId: string): boolean => responseRegistryRef.current.has(responseId),
+    []
+  );
+
   const resetSession = useCallback(() => {
     setMessagesState([]);
     setTurnHistory([]);
@@ -770,7 +844,9 @@ export function useDebateSession(): DebateSessionState {
       addMessage,
       hydrateFromSession,
       updateJurySummary,
+      applyFactChecks,
       getResumeContext,
+      hasRecordedResponse,
       resetSession,
       calculateTotalCost,
     }),
@@ -812,7 +888,9 @@ export function useDebateSession(): DebateSessionState {
       addMessage,
       hydrateFromSession,
       updateJurySummary,
+      applyFactChecks,
       getResumeContext,
+      hasRecordedResponse,
       resetSession,
       calculateTotalCost,
     ]
@@ -0,0 +1,53 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Data hook for the debate topic catalog: loads topics and tags from /api/debate/topics and
+ *          submits custom topics, refreshing the shared catalog query so every selector sees them.
+ * SRP/DRY check: Pass - API/state only; rendering lives in components/debate/DebateTopicSelector.tsx.
+ * shadcn/ui: Pass - No UI components, pure logic hook
+ */
+
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import type { DebateTopicCatalog, DebateTopicDifficulty, DebateTopicEntry } from '@shared/debate-topic-types';
+
+export const DEBATE_TOPICS_QUERY_KEY = ['/api/debate/topics'];
+
+export interface CreateDebateTopicInput {
+  title: string;
+  proposition: string;
+  tags?: string[];
+  difficulty?: DebateTopicDifficulty;
+}
+
+export function useDebateTopics() {
+  const { toast } = useToast();
+
+  const catalogQuery = useQuery<DebateTopicCatalog>({
+    queryKey: DEBATE_TOPICS_QUERY_KEY,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (input: CreateDebateTopicInput) => {
+      const response = await apiRequest('POST', '/api/debate/topics', input);
+      return await response.json() as DebateTopicEntry;
+    },
+    onSuccess: (topic) => {
+      queryClient.invalidateQueries({ queryKey: DEBATE_TOPICS_QUERY_KEY });
+      toast({ title: "Topic Saved", description: `"${topic.title}" was added to the topic catalog.` });
+    },
+    onError: (error) => {
+      toast({ title: "Topic Not Saved", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    topics: catalogQuery.data?.topics ?? [],
+    tags: catalogQuery.data?.tags ?? [],
+    isLoading: catalogQuery.isLoading,
+    error: catalogQuery.error,
+    createTopic: (input: CreateDebateTopicInput) => createMutation.mutateAsync(input),
+    isCreating: createMutation.isPending,
+  };
+}
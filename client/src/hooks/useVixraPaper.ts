@@ -5,6 +5,7 @@
  *          Centralizes paper configuration, model selection, generation mode,
  *          section tracking, and progress calculation.
  *          Implements smart defaults (Dr. Max Power, General Science, gpt-5-nano, auto-mode).
+ *          Regenerated sections mark their finished transitive dependents stale.
  * SRP/DRY check: Pass - Single responsibility (Vixra state management)
  * shadcn/ui: N/A - Pure state management hook
  */
@@ -20,6 +21,7 @@ import {
   calculateEstimatedTime,
   countWords
 } from "@/lib/vixraUtils";
+import { getVixraDependentSections } from "@shared/vixra-pipeline";
 
 // Smart defaults
 const DEFAULT_AUTHOR = "Dr. Max Power";
@@ -80,6 +82,9 @@ export interface VixraPaperActions {
   updateSectionStatus: (sectionId: string, status: Section['status'], content?: string, metadata?: Section['metadata']) => void;
   getSectionById: (sectionId: string) => Section | undefined;
   getCompletedSectionIds: () => string[];
+  /** Finished sections built on `sectionId` turn stale; call after it gets new content */
+  markDependentsStale: (sectionId: string) => void;
+  getStaleSectionIds: () => string[];
   
   // Navigation
   scrollToSection: (sectionId: string) => void;
@@ -217,6 +222,19 @@ export function useVixraPaper() {
     return sections.filter(s => s.status === 'completed').map(s => s.id);
   }, [sections]);
 
+  const markDependentsStale = useCallback((sectionId: string) => {
+    const dependents: readonly string[] = getVixraDependentSections(sectionId);
+    setSections(prevSections => prevSections.map(section => (
+      section.status === 'completed' && dependents.includes(section.id)
+        ? { ...section, status: 'stale' as const }
+        : section
+    )));
+  }, []);
+
+  const getStaleSectionIds = useCallback(() => {
+    return sections.filter(s => s.status === 'stale').map(s => s.id);
+  }, [sections]);
+
   const scrollToSection = useCallback((sectionId: string) => {
     const element = document.getElementById(`section-${sectionId}`);
     if (element) {
@@ -266,6 +284,8 @@ export function useVixraPaper() {
     updateSectionStatus,
     getSectionById,
     getCompletedSectionIds,
+    markDependentsStale,
+    getStaleSectionIds,
     scrollToSection,
     resetPaper
   };
@@ -0,0 +1,241 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Data hook for server-side Vixra pipelines: saves the paper as a Vixra session and starts its
+ *          pipeline through /api/sessions/:id/pipeline, attaches to /pipeline/events while it runs and
+ *          hands each section event to the page. The session id is remembered in localStorage, so after a
+ *          reload or a visit elsewhere the page reloads the saved sections and re-attaches if still running.
+ *          For ensemble sections it keeps every model's version and the winners, and picks versions through
+ *          /api/sessions/:id/sections/:sectionId/pick. Finished papers regenerate sections (and optionally
+ *          their dependents) through /pipeline/regenerate. Other document templates (grant proposals, RFCs, ...)
+ *          run through the same hook with their template id and a localStorage key of their own.
+ * SRP/DRY check: Pass - API/state only; the page maps events onto its section state (useVixraPaper).
+ * shadcn/ui: Pass - No UI components, pure logic hook
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import type { VixraSectionAlternatives, VixraSectionResponse, VixraSession } from '@shared/schema';
+import { VIXRA_TEMPLATE_ID, type VixraPickMode, type VixraPipelineCallOptions, type VixraPipelineSummary } from '@shared/vixra-pipeline';
+
+const PIPELINE_SESSION_KEY = 'vixra-pipeline-session';
+
+export interface VixraPipelineOptions {
+  /** Document template new sessions run; defaults to the Vixra paper */
+  template?: string;
+  /** localStorage key remembering the session; pages running different templates keep their own */
+  storageKey?: string;
+}
+
+export interface VixraPipelineHandlers {
+  /** The saved session, on mount and whenever the pipeline ends */
+  onSessionLoaded: (session: VixraSession) => void;
+  onSectionStart: (sectionId: string) => void;
+  onSectionComplete: (sectionId: string, response: VixraSectionResponse) => void;
+  onSectionError: (sectionId: string, error: string) => void;
+  /** An ensemble section's versions are saved and the owner has to pick the winner */
+  onSectionAwaitingPick: (sectionId: string) => void;
+  onEnd: (pipeline: VixraPipelineSummary | null) => void;
+}
+
+export interface StartVixraPipelineInput {
+  variables: Record<string, string>;
+  modelId: string;
+  options?: VixraPipelineCallOptions;
+  /** Section id -> every model writing a version of it, the paper's model included */
+  sectionModels?: Record<string, string[]>;
+  pickMode?: VixraPickMode;
+}
+
+export interface RegenerateVixraSectionsInput {
+  sectionIds: string[];
+  /** Also regenerate every section built on them */
+  cascade?: boolean;
+  modelId?: string;
+}
+
+interface PickAlternativeResult {
+  sectionId: string;
+  response: VixraSectionResponse;
+  pipeline: VixraPipelineSummary | null;
+}
+
+function pipelineQueryKey(sessionId: string | null) {
+  return ['/api/sessions', sessionId ?? '', 'pipeline'];
+}
+
+async function fetchSession(sessionId: string): Promise<VixraSession | null> {
+  const response = await fetch(`/api/sessions/${encodeURIComponent(sessionId)}`);
+  return response.ok ? await response.json() as VixraSession : null;
+}
+
+export function useVixraPipeline(
+  handlers: VixraPipelineHandlers,
+  { template = VIXRA_TEMPLATE_ID, storageKey = PIPELINE_SESSION_KEY }: VixraPipelineOptions = {},
+) {
+  const { toast } = useToast();
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const [sessionId, setSessionId] = useState<string | null>(() => (
+    typeof window !== 'undefined' ? localStorage.getItem(storageKey) : null
+  ));
+  const [alternatives, setAlternatives] = useState<VixraSectionAlternatives>({});
+  const [winners, setWinners] = useState<Record<string, VixraSectionResponse>>({});
+
+  const loadSession = (session: VixraSession) => {
+    setAlternatives(session.alternatives ?? {});
+    setWinners(Object.fromEntries(Object.entries(session.responses ?? {}).filter(([, response]) => response.status === 'success')));
+    handlersRef.current.onSessionLoaded(session);
+  };
+
+  const completeSection = (sectionId: string, response: VixraSectionResponse) => {
+    setWinners(current => ({ ...current, [sectionId]: response }));
+    handlersRef.current.onSectionComplete(sectionId, response);
+  };
+
+  const pipelineQuery = useQuery<VixraPipelineSummary | null>({
+    queryKey: pipelineQueryKey(sessionId),
+    enabled: Boolean(sessionId),
+    refetchOnWindowFocus: false,
+    queryFn: async () => {
+      const response = await fetch(`/api/sessions/${encodeURIComponent(sessionId ?? '')}/pipeline`);
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error('Failed to fetch Vixra pipeline');
+      return response.json();
+    },
+  });
+
+  const pipeline = pipelineQuery.data ?? null;
+  const isRunning = pipeline?.status === 'running';
+
+  // Restore the remembered paper once; a session that no longer exists is forgotten
+  useEffect(() => {
+    if (!sessionId) return;
+    void fetchSession(sessionId).then(session => {
+      if (session) {
+        loadSession(session);
+      } else {
+        localStorage.removeItem(storageKey);
+        setSessionId(null);
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!sessionId || !isRunning) return;
+
+    const source = new EventSource(`/api/sessions/${encodeURIComponent(sessionId)}/pipeline/events`);
+    const parse = (event: Event) => JSON.parse((event as MessageEvent).data);
+
+    source.addEventListener('section.start', (event) => {
+      handlersRef.current.onSectionStart(parse(event).sectionId);
+    });
+    source.addEventListener('section.complete', (event) => {
+      const payload = parse(event);
+      completeSection(payload.sectionId, payload.response);
+    });
+    source.addEventListener('section.alternative', (event) => {
+      const payload = parse(event);
+      setAlternatives(current => ({
+        ...current,
+        [payload.sectionId]: { ...current[payload.sectionId], [payload.modelId]: payload.response },
+      }));
+    });
+    source.addEventListener('section.awaiting-pick', (event) => {
+      handlersRef.current.onSectionAwaitingPick(parse(event).sectionId);
+    });
+    source.addEventListener('section.error', (event) => {
+      const payload = parse(event);
+      handlersRef.current.onSectionError(payload.sectionId, payload.error ?? 'Section failed');
+    });
+    source.addEventListener('pipeline.end', (event) => {
+      const payload = parse(event);
+      source.close();
+      queryClient.setQueryData(pipelineQueryKey(sessionId), payload.pipeline ?? null);
+      void fetchSession(sessionId).then(session => {
+        if (session) loadSession(session);
+        handlersRef.current.onEnd(payload.pipeline ?? null);
+      });
+    });
+
+    return () => {
+      source.close();
+    };
+  }, [sessionId, isRunning]);
+
+  const startMutation = useMutation({
+    mutationFn: async ({ variables, modelId, options, sectionModels, pickMode }: StartVixraPipelineInput) => {
+      const sessionResponse = await apiRequest('POST', '/api/sessions', { variables, template, responses: {} });
+      const session = await sessionResponse.json() as VixraSession;
+      const response = await apiRequest('POST', `/api/sessions/${encodeURIComponent(session.id)}/pipeline`, {
+        modelId,
+        options,
+        sectionModels,
+        pickMode,
+      });
+      return await response.json() as VixraPipelineSummary;
+    },
+    onSuccess: (started) => {
+      setAlternatives({});
+      setWinners({});
+      localStorage.setItem(storageKey, started.sessionId);
+      queryClient.setQueryData(pipelineQueryKey(started.sessionId), started);
+      setSessionId(started.sessionId);
+      toast({
+        title: "Paper Queued on Server",
+        description: "Sections generate in parallel and keep going even if you leave this page.",
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Paper Not Started", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (input: RegenerateVixraSectionsInput) => {
+      const response = await apiRequest('POST', `/api/sessions/${encodeURIComponent(sessionId ?? '')}/pipeline/regenerate`, input);
+      return await response.json() as VixraPipelineSummary;
+    },
+    onSuccess: (summary) => {
+      queryClient.setQueryData(pipelineQueryKey(summary.sessionId), summary);
+    },
+    onError: (error) => {
+      toast({ title: "Sections Not Regenerated", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const pickMutation = useMutation({
+    mutationFn: async ({ sectionId, modelId }: { sectionId: string; modelId: string }) => {
+      const response = await apiRequest(
+        'POST',
+        `/api/sessions/${encodeURIComponent(sessionId ?? '')}/sections/${encodeURIComponent(sectionId)}/pick`,
+        { modelId },
+      );
+      return await response.json() as PickAlternativeResult;
+    },
+    onSuccess: (result) => {
+      completeSection(result.sectionId, result.response);
+      if (result.pipeline) {
+        queryClient.setQueryData(pipelineQueryKey(result.pipeline.sessionId), result.pipeline);
+      }
+    },
+    onError: (error) => {
+      toast({ title: "Version Not Picked", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    sessionId,
+    pipeline,
+    isRunning,
+    startPipeline: (input: StartVixraPipelineInput) => startMutation.mutateAsync(input),
+    isStarting: startMutation.isPending,
+    alternatives,
+    winners,
+    regenerateSections: (input: RegenerateVixraSectionsInput) => regenerateMutation.mutateAsync(input),
+    pickAlternative: (sectionId: string, modelId: string) => pickMutation.mutate({ sectionId, modelId }),
+    isPicking: pickMutation.isPending,
+  };
+}
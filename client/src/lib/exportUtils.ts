@@ -10,13 +10,14 @@
  *
  * Author: gpt-5-codex
  * Date: October 17, 2025 at 19:10 UTC
- * PURPOSE: Export utilities that support debate turn history exports with jury annotations while preserving
- *          compatibility for comparison/battle exports.
+ * PURPOSE: Export utilities that support debate turn history exports with jury annotations and the judge
+ *          model's verdict (every side of a panel verdict) while preserving compatibility for comparison/battle exports.
  * SRP/DRY check: Pass - Centralized formatting logic for exports without duplicating mode-specific code elsewhere.
  */
 
 import type { AIModel, ModelResponse } from "@/types/ai-models";
 import type { DebatePhase, JuryAnnotationsMap } from "@/hooks/useDebateSession";
+import { debateSideLabel, type DebateCitedPoint, type DebateVerdict } from "@shared/debate-verdict-types";
 
 export interface ExportJuryAnnotation {
   verdict?: string;
@@ -40,6 +41,7 @@ export interface ExportData {
   models: ExportTimelineEntry[];
   mode?: "comparison" | "battle" | "debate";
   jurySummary?: ExportJuryAnnotation | null;
+  judgeVerdict?: DebateVerdict | null;
 }
 
 function formatMetadataList(response: ModelResponse): string {
@@ -64,6 +66,70 @@ function formatMetadataList(response: ModelResponse): string {
   return metadata.length > 0 ? `${metadata.join("\n")}` : "";
 }
 
+function exportModelName(data: ExportData, modelId: string): string {
+  return data.models.find(item => item.model.id === modelId)?.model.name ?? modelId;
+}
+
+function formatVerdictWinner(data: ExportData, verdict: DebateVerdict): string {
+  if (verdict.winner === "tie" || !verdict.winnerModelId) {
+    return "Tie";
+  }
+  return `${exportModelName(data, verdict.winnerModelId)} (${debateSideLabel(verdict, verdict.winner)})`;
+}
+
+function formatCitedPoint(verdict: DebateVerdict, point: DebateCitedPoint): string {
+  return `${debateSideLabel(verdict, point.side)}${point.turn !== null ? `, turn ${point.turn}` : ""}: ${point.point}`;
+}
+
+function formatSideAverages(verdict: DebateVerdict): string {
+  return Object.entries(verdict.sideAverages)
+    .map(([side, average]) => `${debateSideLabel(verdict, side)} ${average}`)
+    .join(", ");
+}
+
+function formatVerdictMarkdown(data: ExportData, verdict: DebateVerdict): string {
+  let markdown = `## Judge Verdict\n\n`;
+  markdown += `- Winner: ${formatVerdictWinner(data, verdict)}\n`;
+  markdown += `- Judge: ${exportModelName(data, verdict.judgeModelId)}\n`;
+  markdown += `- Average score: ${formatSideAverages(verdict)}\n\n`;
+  markdown += `${verdict.summary}\n\n`;
+
+  markdown += `| Turn | Debater | Score | Comment |\n|---|---|---|---|\n`;
+  verdict.turnScores.forEach(score => {
+    markdown += `| ${score.turn} | ${exportModelName(data, score.modelId)} | ${score.score} | ${score.comment.replace(/\|/g, "\\|")} |\n`;
+  });
+  markdown += `\n`;
+
+  if (verdict.strongestPoints.length > 0) {
+    markdown += `**Strongest points**\n\n${verdict.strongestPoints.map(point => `- ${formatCitedPoint(verdict, point)}`).join("\n")}\n\n`;
+  }
+  if (verdict.weakestPoints.length > 0) {
+    markdown += `**Weakest points**\n\n${verdict.weakestPoints.map(point => `- ${formatCitedPoint(verdict, point)}`).join("\n")}\n\n`;
+  }
+  return markdown;
+}
+
+function formatVerdictText(data: ExportData, verdict: DebateVerdict): string {
+  let text = `JUDGE VERDICT:\n`;
+  text += `Winner: ${formatVerdictWinner(data, verdict)}\n`;
+  text += `Judge: ${exportModelName(data, verdict.judgeModelId)}\n`;
+  text += `Average score: ${formatSideAverages(verdict)}\n`;
+  text += `${verdict.summary}\n\n`;
+
+  verdict.turnScores.forEach(score => {
+    text += `Turn ${score.turn} (${exportModelName(data, score.modelId)}): ${score.score} - ${score.comment}\n`;
+  });
+  text += `\n`;
+
+  if (verdict.strongestPoints.length > 0) {
+    text += `Strongest points:\n${verdict.strongestPoints.map(point => `- ${formatCitedPoint(verdict, point)}`).join("\n")}\n\n`;
+  }
+  if (verdict.weakestPoints.length > 0) {
+    text += `Weakest points:\n${verdict.weakestPoints.map(point => `- ${formatCitedPoint(verdict, point)}`).join("\n")}\n\n`;
+  }
+  return text;
+}
+
 function formatDebateMarkdown(data: ExportData): string {
   const header = `# Debate Session Export\n\n`;
   let markdown = header;
@@ -91,6 +157,10 @@ function formatDebateMarkdown(data: ExportData): string {
     markdown += `\n`;
   }
 
+  if (data.judgeVerdict) {
+    markdown += formatVerdictMarkdown(data, data.judgeVerdict);
+  }
+
   markdown += `## Transcript\n\n`;
 
   const orderedEntries = [...data.models].sort((a, b) => {
@@ -238,6 +308,10 @@ function formatDebateText(data: ExportData): string {
     text += `\n`;
   }
 
+  if (data.judgeVerdict) {
+    text += formatVerdictText(data, data.judgeVerdict);
+  }
+
   text += `TRANSCRIPT:\n\n`;
 
   const orderedEntries = [...data.models].sort((a, b) => {
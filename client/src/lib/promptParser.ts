@@ -14,11 +14,14 @@ import {
   type DebateInstructions,
   type DebateTopic,
 } from '@shared/debate-instructions.ts';
+import { extractReferenceAnswer, type ReferenceAnswer } from '@shared/reference-answer.ts';
 
 export interface PromptTemplate {
   id: string;
   name: string;
   content: string;
+  /** Known correct answer from a `> Answer:` annotation (stripped from content) */
+  referenceAnswer?: ReferenceAnswer;
 }
 
 export interface PromptCategory {
@@ -116,7 +119,7 @@ export async function parsePromptsFromMarkdown(): Promise<PromptCategory[]> {
       categories.push(currentCategory);
     }
     
-    return categories;
+    return withReferenceAnswers(categories);
   } catch (error) {
     console.error('Error parsing prompts from markdown:', error);
     return [];
@@ -320,7 +323,20 @@ async function parsePromptsFromStandardMarkdown(markdown: string): Promise<Promp
     categories.push(currentCategory);
   }
   
-  return categories;
+  return withReferenceAnswers(categories);
+}
+
+/**
+ * Moves `> Answer:` / `> Grader:` / `> Tolerance:` annotations out of prompt content
+ */
+function withReferenceAnswers(categories: PromptCategory[]): PromptCategory[] {
+  return categories.map(category => ({
+    ...category,
+    prompts: category.prompts.map(prompt => {
+      const { content, referenceAnswer } = extractReferenceAnswer(prompt.content);
+      return referenceAnswer ? { ...prompt, content, referenceAnswer } : prompt;
+    })
+  }));
 }
 
 /**
@@ -3,34 +3,33 @@
  * Author: Codex using GPT-5
  * Date: 2025-09-28T11:29:14-04:00
  * PURPOSE: Browser-side utilities for Vixra mode covering variable preparation, template parsing, and export helpers while integrating with the shared model response API.
+ *          The section DAG, template parsing and variable substitution come from shared/vixra-pipeline.ts so the browser and the server pipeline agree.
+ *          LaTeX and PDF downloads save the paper as a session and fetch the server's /api/sessions/:id/export renderers;
+ *          downloadSessionExport fetches them for a session that already exists, like a Document Builder run.
  * SRP/DRY check: Pass - Centralizes Vixra helper routines reused by the page without duplicating workflow logic present elsewhere.
  * shadcn/ui: Pass - Pure utility module with no UI rendering; UI components continue to come from shadcn/ui.
  */
 
 import { apiRequest } from "@/lib/queryClient";
 import type { AIModel, ModelResponse } from "@/types/ai-models";
+import type { VixraSectionResponse } from "@shared/schema";
+import {
+  parseVixraTemplates as parseSharedVixraTemplates,
+  substituteVixraVariables,
+  VIXRA_DEFAULT_CATEGORY,
+  VIXRA_SECTIONS,
+  VIXRA_VARIABLE_TEMPLATES,
+} from "@shared/vixra-pipeline";
 
 export type VixraVariables = Record<string, string>;
 export type VixraSectionResponses = Record<string, Record<string, ModelResponse>>;
 
-const DEFAULT_CATEGORY = "General Science and Philosophy";
+const DEFAULT_CATEGORY = VIXRA_DEFAULT_CATEGORY;
 
-const VARIABLE_PROMPTS = {
-  title: "generate-title",
-  author: "generate-author"
-} as const;
+const VARIABLE_PROMPTS = VIXRA_VARIABLE_TEMPLATES;
 
 // Section order with dependencies for Vixra paper generation
-export const SECTION_ORDER = [
-  { id: 'abstract', name: 'Abstract', dependencies: [] },
-  { id: 'introduction', name: 'Introduction', dependencies: ['abstract'] },
-  { id: 'methodology', name: 'Methodology', dependencies: ['introduction'] },
-  { id: 'results', name: 'Results', dependencies: ['abstract', 'methodology'] },
-  { id: 'discussion', name: 'Discussion', dependencies: ['results'] },
-  { id: 'conclusion', name: 'Conclusion', dependencies: ['discussion'] },
-  { id: 'citations', name: 'Citations', dependencies: ['abstract', 'results'] },
-  { id: 'acknowledgments', name: 'Acknowledgments', dependencies: ['conclusion'] },
-] as const;
+export const SECTION_ORDER = VIXRA_SECTIONS;
 
 export const SCIENCE_CATEGORIES = [
   'Physics - High Energy Particle Physics',
@@ -78,10 +77,6 @@ function hasValue(value: string | undefined | null): value is string {
   return typeof value === "string" && value.trim().length > 0;
 }
 
-function escapeRegExp(value: string): string {
-  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-}
-
 export function sanitizeTitleCandidate(candidate: string): string {
   if (!candidate) return "";
   const cleaned = candidate
@@ -339,30 +334,14 @@ export function substituteVariables(
   template: string,
   variables: VixraVariables
 ): string {
-  let result = template;
-  for (const [key, value] of Object.entries(variables)) {
-    if (!key) continue;
-    const replacement = hasValue(value) ? value : "";
-    const pattern = new RegExp(`\\{${escapeRegExp(key)}\\}`, "g");
-    result = result.replace(pattern, replacement);
-  }
-  return result;
+  return substituteVixraVariables(template, variables);
 }
 
 /**
  * Extract section templates delimited by <!-- SECTION_START:id --> markers.
  */
 export function parseVixraTemplates(markdownContent: string): Map<string, string> {
-  const templates = new Map<string, string>();
-  const sectionRegex = /<!-- SECTION_START:(\w+) -->([\s\S]*?)<!-- SECTION_END:\1 -->/g;
-
-  let match: RegExpExecArray | null;
-  while ((match = sectionRegex.exec(markdownContent)) !== null) {
-    const [, sectionId, content] = match;
-    templates.set(sectionId, content.trim());
-  }
-
-  return templates;
+  return parseSharedVixraTemplates(markdownContent);
 }
 
 const PAPER_SECTIONS: Array<{ id: string; title: string }> = [
@@ -665,6 +644,53 @@ export function printVixraPaper(
   }, 250);
 }
 
+/**
+ * Save the paper as a Vixra session and download the server-rendered LaTeX bundle (.tar.gz) or typeset PDF.
+ */
+export async function downloadVixraServerExport(
+  variables: VixraVariables,
+  sectionResponses: VixraSectionResponses,
+  selectedModels: AIModel[],
+  format: "latex" | "pdf"
+): Promise<void> {
+  const responses: Record<string, VixraSectionResponse> = {};
+  for (const [sectionId, modelResponses] of Object.entries(sectionResponses)) {
+    const [modelId, response] = Object.entries(modelResponses)[0] ?? [];
+    if (!modelId || response?.status !== "success") {
+      continue;
+    }
+    responses[sectionId] = {
+      content: response.content,
+      status: "success",
+      responseTime: response.responseTime,
+      modelName: selectedModels.find(model => model.id === modelId)?.name ?? modelId,
+      modelId,
+    };
+  }
+
+  const sessionResponse = await apiRequest("POST", "/api/sessions", { variables, template: "vixra", responses });
+  const session = await sessionResponse.json() as { id: string };
+  await downloadSessionExport(session.id, format);
+}
+
+/**
+ * Download the server-rendered LaTeX bundle (.tar.gz) or typeset PDF of a saved session, whatever its template.
+ */
+export async function downloadSessionExport(sessionId: string, format: "latex" | "pdf"): Promise<void> {
+  const exportResponse = await apiRequest("GET", `/api/sessions/${encodeURIComponent(sessionId)}/export/${format}`);
+  const filename = exportResponse.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1]
+    ?? (format === "pdf" ? "vixra-paper.pdf" : "vixra-paper.tar.gz");
+
+  const url = URL.createObjectURL(await exportResponse.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
 function extractTitleFromMarkdown(markdown: string): string | null {
   const match = markdown.match(/^#\s+(.+)$/m);
   return match ? match[1].trim() : null;
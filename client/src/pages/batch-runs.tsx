@@ -0,0 +1,94 @@
+/**
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Batch evaluation page. Start a run of a prompt suite (compare-prompts.md section or JSONL
+ *          upload) across many models, follow its progress, and browse stored results and costs,
+ *          instead of pasting questions into the compare page one at a time.
+ * SRP/DRY check: Pass - Page layout only; data lives in useBatchRuns, UI in components/batch.
+ * shadcn/ui: Pass - Uses Card, Badge and Progress
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import AppNavigation from "@/components/AppNavigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { BatchRunSetup } from "@/components/batch/BatchRunSetup";
+import { BatchRunDetail } from "@/components/batch/BatchRunDetail";
+import { useBatchRuns } from "@/hooks/useBatchRuns";
+import { cn } from "@/lib/utils";
+import { Layers } from "lucide-react";
+import type { AIModel } from "@/types/ai-models";
+
+export default function BatchRunsPage() {
+  const { data: models = [] } = useQuery<AIModel[]>({ queryKey: ["/api/models"] });
+  const batch = useBatchRuns();
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <AppNavigation
+        title="Batch Runs"
+        subtitle="Run prompt suites across models and keep every result"
+        icon={Layers}
+      />
+      <main className="flex-1 container mx-auto px-4 py-6 grid grid-cols-1 lg:grid-cols-[24rem_1fr] gap-4">
+        <div className="space-y-4">
+          <BatchRunSetup models={models} isStarting={batch.isStarting} onStart={batch.startRun} />
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Runs</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {batch.runs.length === 0 && !batch.isLoadingRuns && (
+                <p className="text-sm text-muted-foreground">No batch runs yet.</p>
+              )}
+              {batch.runs.map(run => {
+                const done = run.progress.succeeded + run.progress.failed;
+                return (
+                  <button
+                    key={run.id}
+                    type="button"
+                    onClick={() => batch.selectRun(run.id)}
+                    className={cn(
+                      "w-full text-left rounded-md border p-2 space-y-1 hover:bg-muted/50",
+                      batch.selectedRunId === run.id && "border-primary"
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium truncate">{run.name}</span>
+                      <Badge variant="outline" className="text-xs">{run.status}</Badge>
+                    </div>
+                    <Progress value={run.progress.total > 0 ? (done / run.progress.total) * 100 : 0} className="h-1.5" />
+                    <div className="text-xs text-muted-foreground">
+                      {done}/{run.progress.total} - {run.modelIds.length} models
+                    </div>
+                  </button>
+                );
+              })}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div>
+          {batch.selectedRun ? (
+            <BatchRunDetail
+              run={batch.selectedRun}
+              models={models}
+              modelStats={batch.modelStats}
+              items={batch.items}
+              isActing={batch.isActing}
+              onAction={(action) => batch.runAction(batch.selectedRun!.id, action)}
+            />
+          ) : (
+            <Card>
+              <CardContent className="py-12 text-center text-sm text-muted-foreground">
+                Start a batch or pick a run to see its results.
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
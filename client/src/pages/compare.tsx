@@ -115,6 +115,14 @@ export default function Compare() {
                 showTiming={showTiming}
                 prompt={prompt}
                 isComparing={status.isComparing}
+                judgement={state.judgement}
+                canJudge={state.comparisonId !== null}
+                isJudging={status.isJudging}
+                onJudge={actions.judgeComparison}
+                humanVote={state.humanVote}
+                isVoting={status.isVoting}
+                onVote={actions.voteBest}
+                grading={state.grading}
               />
             )}
           </div>
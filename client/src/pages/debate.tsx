@@ -2,10 +2,22 @@
  * Author: gpt-5-codex
  * Date: 2025-10-22 01:18 UTC
  * PURPOSE: Maintain debate workflow, enrich intensity payloads with descriptive rhetoric guidance, and preserve session flows.
+ *          The jury's final points can be recorded as a leaderboard verdict for the persisted session, and the
+ *          judge model can adjudicate the session; its verdict is shown above the transcript and exported.
+ *          The server adjudicates a format debate on its own after the last turn, and the page polls for that verdict.
+ *          Panel seats from the setup store are sent with the session, and each turn streams for the seat
+ *          the speaking order names, with that seat's configuration. A structured debate format, when
+ *          chosen, names the seat for every turn, ends the debate after its last phase and drives the
+ *          stage timeline. A debate can be queued on the server, which plays its turns in the background;
+ *          the page attaches to the run's event stream and shows the turn in progress. When the next
+ *          seat is "You (human)", a composer replaces the stream and the typed argument is saved as the
+ *          turn; the model answering it receives it as its opponent's message. Any saved turn can be
+ *          fact-checked; its claims are then marked inline, with disputed ones highlighted. Any saved turn
+ *          can also be forked into a new session, with other seat models or intensity, which then opens.
  * SRP/DRY check: Pass - Component orchestrates debate UI/state without duplicating service or transport concerns.
  */
 
-import { useRef, useEffect, useMemo } from "react";
+import { useRef, useEffect, useMemo, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -17,6 +29,7 @@ import { AppNavigation } from "@/components/AppNavigation";
 import { apiRequest } from "@/lib/queryClient";
 import type { AIModel } from '@/types/ai-models';
 import { useDebateSetup } from "@/hooks/useDebateSetup";
+import { selectDebateParticipants, selectSeatConfig } from "@/stores/useDebateSetupStore";
 import {
   useDebateSession,
   ROBERTS_RULES_PHASES,
@@ -34,30 +47,83 @@ import { AdversarialLevelSelector } from "@/components/debate/AdversarialLevelSe
 import { DebateControls } from "@/components/debate/DebateControls";
 import { DebateMessageList } from "@/components/debate/DebateMessageList";
 import { DebateHistoryDrawer } from "@/components/debate/DebateHistoryDrawer";
+import { DebateVerdictPanel } from "@/components/debate/DebateVerdictPanel";
+import { DebateFormatSelector } from "@/components/debate/DebateFormatSelector";
+import { DebateStageTimeline } from "@/components/debate/DebateStageTimeline";
+import { DebateAutoRunPanel } from "@/components/debate/DebateAutoRunPanel";
+import { HumanTurnComposer } from "@/components/debate/HumanTurnComposer";
+import { DebateForkDialog, type DebateForkOptions } from "@/components/debate/DebateForkDialog";
+import { useDebateAutoRun } from "@/hooks/useDebateAutoRun";
+import type { DebateTurnFactCheck } from "@shared/debate-fact-check-types";
+import type { DebateVerdict } from "@shared/debate-verdict-types";
+import { isHumanParticipant, type DebateParticipant, type DebateParticipantSource } from "@shared/debate-participants";
+import {
+  buildDebateTurnPlan,
+  debateTurnSlot,
+  describePhaseLimit,
+  findDebateFormat,
+  speakerForFormatTurn,
+} from "@shared/debate-formats";
+
+/** How long the page waits for the verdict the server starts after a format debate's last turn */
+const VERDICT_POLL_INTERVAL_MS = 3000;
+const VERDICT_POLL_ATTEMPTS = 20;
 
 interface CreateDebateSessionResponse {
   id: string;
   topic: string;
   model1Id: string;
   model2Id: string;
+  participants: DebateParticipant[];
+  speakingOrder: string[];
+  format: string | null;
   adversarialLevel: number;
 }
 
+/** Setup-store panel seats for a loaded session's seats beyond the first two */
+function toExtraSeats(participants: DebateParticipant[] | undefined) {
+  return (participants ?? []).slice(2).map(seat => ({
+    modelId: seat.modelId,
+    team: seat.team,
+    position: seat.position,
+  }));
+}
+
 export default function Debate() {
   const { toast } = useToast();
   const chatEndRef = useRef<HTMLDivElement>(null);
 
   const debateSetup = useDebateSetup();
   const debateSession = useDebateSession();
+  const autoRun = useDebateAutoRun(debateSession.debateSessionId);
   const debateStreaming = useDebateStreaming();
 
   const { debateData, loading: debateLoading, error: debateError, generateDebatePrompts } = useDebatePrompts();
   const { exportMarkdown, copyToClipboard } = useDebateExport();
+  const [judgeVerdict, setJudgeVerdict] = useState<DebateVerdict | null>(null);
+  // Turn whose fork dialog is open
+  const [forkTurn, setForkTurn] = useState<number | null>(null);
 
   const setupSelectedTopic = debateSetup.selectedTopic;
   const setupUseCustomTopic = debateSetup.useCustomTopic;
   const setSetupSelectedTopic = debateSetup.setSelectedTopic;
 
+  const participants = useMemo(
+    () => selectDebateParticipants(debateSetup),
+    [debateSetup.model1Id, debateSetup.model2Id, debateSetup.extraParticipants]
+  );
+  const seating = useMemo<DebateParticipantSource>(
+    () => ({
+      model1Id: debateSetup.model1Id,
+      model2Id: debateSetup.model2Id,
+      participants,
+      speakingOrder: debateSetup.speakingOrder.length > 0 ? debateSetup.speakingOrder : null,
+    }),
+    [debateSetup.model1Id, debateSetup.model2Id, participants, debateSetup.speakingOrder]
+  );
+  const seatIndexOf = (participant: DebateParticipant) => participants.findIndex(seat => seat.id === participant.id);
+  const hasHumanSeat = participants.some(isHumanParticipant);
+
   const { data: models = [] } = useQuery({
     queryKey: ['/api/models'],
     queryFn: async () => {
@@ -90,9 +156,26 @@ export default function Debate() {
     debateSetup.model2Id,
   ]);
 
+  const activeFormat = useMemo(
+    () => findDebateFormat(debateData?.formats, debateSetup.formatId),
+    [debateData, debateSetup.formatId]
+  );
+  const turnPlan = useMemo(
+    () => (activeFormat ? buildDebateTurnPlan(activeFormat, seating) : null),
+    [activeFormat, seating]
+  );
+
   // Create debate session mutation; streaming kickoff happens in handleStartDebate to leverage latest dependencies
   const createDebateSessionMutation = useMutation({
-    mutationFn: async (data: { topic: string; model1Id: string; model2Id: string; adversarialLevel: number }) => {
+    mutationFn: async (data: {
+      topic: string;
+      model1Id: string;
+      model2Id: string;
+      participants: DebateParticipant[];
+      speakingOrder: string[] | null;
+      format: string | null;
+      adversarialLevel: number;
+    }) => {
       const response = await apiRequest('POST', '/api/debate/session', data);
       return response.json() as Promise<CreateDebateSessionResponse>;
     },
@@ -132,6 +215,10 @@ export default function Debate() {
       durationMs: session.durationMs,
       turnCount,
       jury,
+      participants: Array.isArray(session.participants) ? session.participants : undefined,
+      format: session.format ?? null,
+      parentSessionId: session.parentSessionId ?? null,
+      forkedAtTurn: session.forkedAtTurn ?? null,
     };
   };
 
@@ -194,11 +281,14 @@ export default function Debate() {
       debateStreaming.content &&
       debateSession.messages.length === 0
     ) {
-      const model1 = debateService?.getModel(debateSetup.model1Id);
+      const opener = speakerForFormatTurn(seating, turnPlan, 1);
+      const openerConfig = selectSeatConfig(debateSetup, seatIndexOf(opener));
+      const openerModel = debateService?.getModel(opener.modelId);
       const initialMessage = {
         id: "msg-1",
-        modelId: debateSetup.model1Id,
-        modelName: model1?.name ?? "Model 1",
+        modelId: opener.modelId,
+        participantId: opener.id,
+        modelName: openerModel?.name ?? "Model 1",
         content: debateStreaming.content,
         reasoning: debateStreaming.reasoning,
         reasoningChunks: debateStreaming.reasoningChunks.map(chunk => ({ ...chunk })),
@@ -212,7 +302,7 @@ export default function Debate() {
         cost: debateStreaming.cost,
         modelConfig: {
           capabilities: {
-            reasoning: Boolean(debateSetup.model1Config.enableReasoning),
+            reasoning: Boolean(openerConfig.enableReasoning),
             multimodal: false,
             functionCalling: false,
             streaming: true,
@@ -225,7 +315,9 @@ export default function Debate() {
       };
 
       debateSession.addMessage(initialMessage);
-      debateSession.setModelALastResponseId(debateStreaming.responseId);
+      if (seatIndexOf(opener) === 0) {
+        debateSession.setModelALastResponseId(debateStreaming.responseId);
+      }
       debateSession.setCurrentRound(1);
       // Keep setup panel visible so users can adjust reasoning/token controls
     }
@@ -243,7 +335,8 @@ export default function Debate() {
     debateSession.setCurrentRound,
     debateSetup.setShowSetup,
     debateService,
-    debateSetup.model1Id,
+    seating,
+    turnPlan,
     debateSetup.model1Config.enableReasoning,
     debateSetup.model1Config.maxTokens
   ]);
@@ -253,25 +346,25 @@ export default function Debate() {
       debateStreaming.responseId &&
       debateStreaming.content &&
       debateSession.messages.length > 0 &&
-      debateStreaming.responseId !== debateSession.modelALastResponseId &&
-      debateStreaming.responseId !== debateSession.modelBLastResponseId
+      !debateSession.hasRecordedResponse(debateStreaming.responseId)
     ) {
-      const isModelBTurn = debateSession.currentRound % 2 === 1;
-      const nextModelId = isModelBTurn ? debateSetup.model2Id : debateSetup.model1Id;
-      const nextModelConfig = isModelBTurn ? debateSetup.model2Config : debateSetup.model1Config;
-      const model = debateService?.getModel(nextModelId);
       const nextTurn = debateSession.currentRound + 1;
+      const speaker = speakerForFormatTurn(seating, turnPlan, nextTurn);
+      const seatIndex = seatIndexOf(speaker);
+      const nextModelConfig = selectSeatConfig(debateSetup, seatIndex);
+      const model = debateService?.getModel(speaker.modelId);
 
       debateSession.addMessage({
         id: `msg-${nextTurn}`,
-        modelId: nextModelId,
+        modelId: speaker.modelId,
+        participantId: speaker.id,
         modelName: model?.name || "Model",
         content: debateStreaming.content,
         reasoning: debateStreaming.reasoning,
         reasoningChunks: debateStreaming.reasoningChunks.map(chunk => ({ ...chunk })),
         contentChunks: debateStreaming.contentChunks.map(chunk => ({ ...chunk })),
         timestamp: Date.now(),
-        round: Math.ceil(nextTurn / 2),
+        round: Math.ceil(nextTurn / participants.length),
         turnNumber: nextTurn,
         responseId: debateStreaming.responseId,
         responseTime: 0,
@@ -285,9 +378,9 @@ export default function Debate() {
         },
       });
 
-      if (isModelBTurn) {
+      if (seatIndex === 1) {
         debateSession.setModelBLastResponseId(debateStreaming.responseId);
-      } else {
+      } else if (seatIndex === 0) {
         debateSession.setModelALastResponseId(debateStreaming.responseId);
       }
 
@@ -304,11 +397,11 @@ export default function Debate() {
     debateSession.messages.length,
     debateSession.currentRound,
     debateService,
-    debateSetup.model1Id,
-    debateSetup.model2Id,
+    seating,
+    turnPlan,
     debateSetup.model1Config.enableReasoning,
     debateSetup.model2Config.enableReasoning,
-    debateSetup.model2Config.enableReasoning
+    debateSetup.extraParticipants
   ]);
 
   useEffect(() => {
@@ -318,10 +411,14 @@ export default function Debate() {
 
     debateSetup.setModel1Id(sessionDetailsQuery.data.model1Id);
     debateSetup.setModel2Id(sessionDetailsQuery.data.model2Id);
+    debateSetup.setExtraParticipants(toExtraSeats(sessionDetailsQuery.data.participants));
+    debateSetup.setSpeakingOrder(sessionDetailsQuery.data.speakingOrder ?? []);
+    debateSetup.setFormatId(sessionDetailsQuery.data.format ?? null);
     debateSetup.setUseCustomTopic(true);
     debateSetup.setCustomTopic(sessionDetailsQuery.data.topic);
     debateSetup.setSelectedTopic('custom');
     debateSetup.setAdversarialLevel(sessionDetailsQuery.data.adversarialLevel);
+    setJudgeVerdict(sessionDetailsQuery.data.verdict ?? null);
     // Keep setup panel visible when loading historical session
   }, [sessionDetailsQuery.data, models]);
 
@@ -348,21 +445,22 @@ export default function Debate() {
 
     if (!debateSetup.model1Id || !debateSetup.model2Id || !debateService) return;
     if (debateSession.messages.length === 0) return;
+    if (turnPlan && debateSession.currentRound >= turnPlan.length) return;
 
-    const resume = debateSession.getResumeContext({
-      model1Id: debateSetup.model1Id,
-      model2Id: debateSetup.model2Id,
-    });
+    const resume = debateSession.getResumeContext(seating, turnPlan);
+    // Human turns are submitted from the composer, not streamed
+    if (isHumanParticipant(resume.nextParticipant)) return;
 
     const lastMessage = debateSession.messages[debateSession.messages.length - 1];
-    const nextModelConfig = resume.isModelBTurn ? debateSetup.model2Config : debateSetup.model1Config;
+    const nextModelConfig = selectSeatConfig(debateSetup, resume.nextSeatIndex);
 
     const intensity = debateService.getIntensityContext();
 
     await debateStreaming.startStream({
       modelId: resume.nextModelId,
       topic: debateService.getTopicText(),
-      role: resume.isModelBTurn ? 'NEGATIVE' : 'AFFIRMATIVE',
+      role: resume.nextParticipant.label.toUpperCase(),
+      participantId: resume.nextParticipant.id,
       intensityLevel: intensity.level,
       intensityGuidance: intensity.guidance,
       intensityHeading: intensity.heading,
@@ -383,6 +481,43 @@ export default function Debate() {
     });
   };
 
+  /** Creates the session for the current setup and makes it the active one */
+  const createSessionFromSetup = async (topicText: string) => {
+    debateSession.setSessionMetadata({
+      topic: topicText,
+      model1Id: debateSetup.model1Id,
+      model2Id: debateSetup.model2Id,
+      adversarialLevel: debateSetup.adversarialLevel,
+      participants,
+      speakingOrder: seating.speakingOrder,
+      format: debateSetup.formatId,
+    });
+
+    const sessionData = await createDebateSessionMutation.mutateAsync({
+      topic: topicText,
+      model1Id: debateSetup.model1Id,
+      model2Id: debateSetup.model2Id,
+      participants,
+      speakingOrder: seating.speakingOrder ?? null,
+      format: debateSetup.formatId,
+      adversarialLevel: debateSetup.adversarialLevel,
+    });
+
+    debateSession.setDebateSessionId(sessionData.id);
+    debateSession.setSessionMetadata({
+      topic: sessionData.topic,
+      model1Id: sessionData.model1Id,
+      model2Id: sessionData.model2Id,
+      adversarialLevel: sessionData.adversarialLevel,
+      participants: sessionData.participants,
+      speakingOrder: sessionData.speakingOrder,
+      format: sessionData.format,
+    });
+    debateSession.updateJurySummary(null);
+    setJudgeVerdict(null);
+    return sessionData;
+  };
+
   const handleStartDebate = async () => {
     if (!debateService?.canStartDebate()) {
       toast({
@@ -400,39 +535,28 @@ export default function Debate() {
     const prompts = debateService.generatePrompts();
     const intensity = prompts.intensity ?? debateService.getIntensityContext();
 
-    debateSession.setSessionMetadata({
-      topic: prompts.topicText,
-      model1Id: debateSetup.model1Id,
-      model2Id: debateSetup.model2Id,
-      adversarialLevel: debateSetup.adversarialLevel,
-    });
-
     try {
-      const sessionData = await createDebateSessionMutation.mutateAsync({
-        topic: prompts.topicText,
-        model1Id: debateSetup.model1Id,
-        model2Id: debateSetup.model2Id,
-        adversarialLevel: debateSetup.adversarialLevel,
-      });
-
-      debateSession.setDebateSessionId(sessionData.id);
-      debateSession.setSessionMetadata({
-        topic: sessionData.topic,
-        model1Id: sessionData.model1Id,
-        model2Id: sessionData.model2Id,
-        adversarialLevel: sessionData.adversarialLevel,
-      });
-      debateSession.updateJurySummary(null);
+      const sessionData = await createSessionFromSetup(prompts.topicText);
 
       toast({
         title: "Debate Session Created",
         description: "Starting debate with session tracking",
       });
 
+      const opener = speakerForFormatTurn(seating, turnPlan, 1);
+      if (isHumanParticipant(opener)) {
+        toast({
+          title: "Your Opening",
+          description: `You speak first as ${opener.label}. Type your opening argument below.`,
+        });
+        return;
+      }
+      const openerConfig = selectSeatConfig(debateSetup, seatIndexOf(opener));
       await debateStreaming.startStream({
-        modelId: debateSetup.model1Id,
+        modelId: opener.modelId,
         topic: prompts.topicText,
-        role: 'AFFIRMATIVE',
+        role: opener.label.toUpperCase(),
+        participantId: opener.id,
         intensityLevel: intensity.level,
         intensityGuidance: intensity.guidance,
         intensityHeading: intensity.heading,
@@ -445,11 +569,11 @@ export default function Debate() {
         sessionId: sessionData.id,
         model1Id: debateSetup.model1Id,
         model2Id: debateSetup.model2Id,
-        reasoningEffort: debateSetup.model1Config.reasoningEffort,
-        reasoningSummary: debateSetup.model1Config.reasoningSummary,
-        textVerbosity: debateSetup.model1Config.textVerbosity,
-        temperature: debateSetup.model1Config.temperature,
-        maxTokens: debateSetup.model1Config.maxTokens,
+        reasoningEffort: openerConfig.reasoningEffort,
+        reasoningSummary: openerConfig.reasoningSummary,
+        textVerbosity: openerConfig.textVerbosity,
+        temperature: openerConfig.temperature,
+        maxTokens: openerConfig.maxTokens,
       });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to create debate session';
@@ -461,9 +585,92 @@ export default function Debate() {
     }
   };
 
+  // Hands the active session (or a new one for the current setup) to the server to play in the background
+  const handleQueueOnServer = async () => {
+    if (!debateService?.canStartDebate()) {
+      toast({
+        title: "Select Both Models",
+        description: "Please select two models for the debate.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    let sessionId = debateSession.debateSessionId;
+    if (!sessionId) {
+      try {
+        sessionId = (await createSessionFromSetup(debateService.generatePrompts().topicText)).id;
+      } catch (error) {
+        toast({
+          title: "Failed to Create Session",
+          description: error instanceof Error ? error.message : 'Failed to create debate session',
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    const seatSettings = Object.fromEntries(participants.map((seat, index) => {
+      const config = selectSeatConfig(debateSetup, index);
+      return [seat.id, {
+        reasoningEffort: config.reasoningEffort,
+        reasoningSummary: config.reasoningSummary,
+        reasoningVerbosity: config.textVerbosity,
+        temperature: config.temperature,
+        maxTokens: config.maxTokens,
+      }];
+    }));
+    // Failures are reported by the hook's toast
+    await autoRun.startRun({ sessionId, seatSettings }).catch(() => undefined);
+    loadDebateSessionsMutation.mutate();
+  };
+
+  const humanTurnMutation = useMutation({
+    mutationFn: async (input: { sessionId: string; turnNumber: number; participantId: string; content: string }) => {
+      const { sessionId, ...body } = input;
+      const response = await apiRequest('POST', `/api/debate/session/${encodeURIComponent(sessionId)}/human-turn`, body);
+      return response.json() as Promise<{ turnNumber: number; participantId: string; content: string }>;
+    },
+  });
+
+  // Saves the human seat's argument as the next turn; the model answers it with Continue
+  const handleSubmitHumanTurn = async (participant: DebateParticipant, turnNumber: number, content: string) => {
+    if (!debateSession.debateSessionId) return;
+    try {
+      const saved = await humanTurnMutation.mutateAsync({
+        sessionId: debateSession.debateSessionId,
+        turnNumber,
+        participantId: participant.id,
+        content,
+      });
+      debateSession.addMessage({
+        id: `msg-${saved.turnNumber}`,
+        modelId: participant.modelId,
+        participantId: participant.id,
+        modelName: 'You',
+        content: saved.content,
+        timestamp: Date.now(),
+        round: Math.ceil(saved.turnNumber / participants.length),
+        turnNumber: saved.turnNumber,
+        responseId: null,
+        responseTime: 0,
+      });
+      debateSession.setCurrentRound(saved.turnNumber);
+      loadDebateSessionsMutation.mutate();
+    } catch (error) {
+      toast({
+        title: "Turn Not Saved",
+        description: error instanceof Error ? error.message : 'Failed to save your turn.',
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
   const handleResetDebate = () => {
     debateSetup.resetSetup();
     debateSession.resetSession();
+    setJudgeVerdict(null);
     toast({
       title: "Debate Reset",
       description: "All debate data has been cleared.",
@@ -478,6 +685,7 @@ export default function Debate() {
       customTopic: debateSetup.customTopic,
       useCustomTopic: debateSetup.useCustomTopic,
       jurySummary: debateSession.jurySummary,
+      judgeVerdict,
     });
   };
 
@@ -489,6 +697,7 @@ export default function Debate() {
       customTopic: debateSetup.customTopic,
       useCustomTopic: debateSetup.useCustomTopic,
       jurySummary: debateSession.jurySummary,
+      judgeVerdict,
     });
   };
 
@@ -499,12 +708,18 @@ export default function Debate() {
       model1Id: session.model1Id,
       model2Id: session.model2Id,
       adversarialLevel: session.adversarialLevel ?? debateSetup.adversarialLevel,
+      participants: session.participants ?? null,
+      format: session.format ?? null,
     });
     debateSession.setDebateSessionId(session.id);
     debateSession.updateJurySummary(session.jury ?? null);
+    setJudgeVerdict(null);
 
     debateSetup.setModel1Id(session.model1Id);
     debateSetup.setModel2Id(session.model2Id);
+    debateSetup.setExtraParticipants(toExtraSeats(session.participants));
+    debateSetup.setSpeakingOrder([]);
+    debateSetup.setFormatId(session.format ?? null);
     debateSetup.setUseCustomTopic(true);
     debateSetup.setCustomTopic(session.topic);
     debateSetup.setSelectedTopic('custom');
@@ -519,9 +734,173 @@ export default function Debate() {
   const currentPhase = debateSession.getCurrentPhase();
   const floorOpen = debateSession.isFloorOpen();
   const juryPending = debateSession.hasUnresolvedJuryTasks();
-  const continueDisabledReason = !floorOpen
-    ? 'The debate floor is closed. Reopen the floor to allow the next speaker.'
+  const formatComplete = turnPlan !== null && debateSession.currentRound >= turnPlan.length;
+  const serverRunActive = autoRun.run?.status === 'running';
+  const liveSpeaker = autoRun.liveTurn
+    ? participants.find(seat => seat.id === autoRun.liveTurn?.participantId)
     : undefined;
+  const humanSeatUp = useMemo(() => {
+    if (!debateSession.debateSessionId || formatComplete) return null;
+    const seat = speakerForFormatTurn(seating, turnPlan, debateSession.currentRound + 1);
+    return isHumanParticipant(seat) ? seat : null;
+  }, [debateSession.debateSessionId, debateSession.currentRound, formatComplete, seating, turnPlan]);
+  const continueDisabledReason = formatComplete
+    ? `The ${activeFormat?.name} format is complete.`
+    : humanSeatUp
+      ? 'It is your turn. Submit your argument below.'
+      : serverRunActive
+      ? 'The server is playing this debate. Stop the server run to continue by hand.'
+      : !floorOpen
+      ? 'The debate floor is closed. Reopen the floor to allow the next speaker.'
+      : undefined;
+
+  const recordVerdictMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      const response = await apiRequest(
+        'POST',
+        `/api/leaderboard/debates/${encodeURIComponent(sessionId)}/jury`,
+        { annotations: debateSession.juryAnnotations },
+      );
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Verdict Recorded",
+        description: "Jury points were added to the model leaderboard.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Verdict Not Recorded",
+        description: error instanceof Error ? error.message : 'Failed to record jury verdict.',
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRecordVerdict = () => {
+    if (!debateSession.debateSessionId || recordVerdictMutation.isPending) return;
+    recordVerdictMutation.mutate(debateSession.debateSessionId);
+  };
+
+  const adjudicateMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      const response = await apiRequest('POST', `/api/debate/session/${encodeURIComponent(sessionId)}/adjudicate`, {});
+      return response.json() as Promise<{ verdict: DebateVerdict; creditsUsed: number }>;
+    },
+    onSuccess: ({ verdict }) => {
+      setJudgeVerdict(verdict);
+      loadDebateSessionsMutation.mutate();
+      toast({
+        title: "Debate Adjudicated",
+        description: verdict.winner === 'tie'
+          ? "The judge scored the debate a tie."
+          : `The judge awarded the debate to the ${verdict.winner}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Adjudication Failed",
+        description: error instanceof Error ? error.message : 'Failed to adjudicate the debate.',
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAdjudicate = () => {
+    if (!debateSession.debateSessionId || adjudicateMutation.isPending) return;
+    adjudicateMutation.mutate(debateSession.debateSessionId);
+  };
+
+  // The server adjudicates a format debate once its last turn is saved; pick up the verdict when it lands
+  useEffect(() => {
+    const sessionId = debateSession.debateSessionId;
+    if (!sessionId || !formatComplete || judgeVerdict || serverRunActive) return;
+    let attempts = 0;
+    const timer = window.setInterval(async () => {
+      attempts++;
+      try {
+        const response = await fetch(`/api/debate/session/${encodeURIComponent(sessionId)}`);
+        const details = response.ok ? await response.json() as DebateSessionHydration : null;
+        if (details?.verdict) {
+          window.clearInterval(timer);
+          setJudgeVerdict(details.verdict);
+          return;
+        }
+      } catch {
+        // Retried on the next tick
+      }
+      if (attempts >= VERDICT_POLL_ATTEMPTS) window.clearInterval(timer);
+    }, VERDICT_POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [debateSession.debateSessionId, formatComplete, judgeVerdict, serverRunActive]);
+
+  const factCheckMutation = useMutation({
+    mutationFn: async ({ sessionId, turnNumber }: { sessionId: string; turnNumber: number }) => {
+      const response = await apiRequest('POST', `/api/debate/session/${encodeURIComponent(sessionId)}/fact-check`, {
+        turns: [turnNumber],
+        force: true,
+      });
+      return response.json() as Promise<{
+        results: Array<{ turn: number; factCheck: DebateTurnFactCheck }>;
+        failures: Array<{ turn: number; error: string }>;
+        creditsUsed: number;
+      }>;
+    },
+    onSuccess: ({ results }) => {
+      debateSession.applyFactChecks(results);
+      const disputed = results.reduce((sum, result) => sum + result.factCheck.disputedCount, 0);
+      toast({
+        title: "Fact-check Complete",
+        description: disputed > 0
+          ? `${disputed} disputed claim${disputed === 1 ? '' : 's'} highlighted in the transcript.`
+          : "No disputed claims found.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Fact-check Failed",
+        description: error instanceof Error ? error.message : 'Failed to fact-check the turn.',
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFactCheckTurn = (turnNumber: number) => {
+    if (!debateSession.debateSessionId || factCheckMutation.isPending) return;
+    factCheckMutation.mutate({ sessionId: debateSession.debateSessionId, turnNumber });
+  };
+
+  const forkMutation = useMutation({
+    mutationFn: async ({ sessionId, turnNumber, options }: { sessionId: string; turnNumber: number; options: DebateForkOptions }) => {
+      const response = await apiRequest('POST', `/api/debate/session/${encodeURIComponent(sessionId)}/fork`, {
+        atTurn: turnNumber,
+        ...options,
+      });
+      return response.json();
+    },
+    onSuccess: (fork) => {
+      setForkTurn(null);
+      handleSelectHistorySession(normalizeSummary(fork));
+      loadDebateSessionsMutation.mutate();
+      toast({
+        title: "Debate Forked",
+        description: `Continuing a copy of the debate from turn ${fork.forkedAtTurn}. The original is unchanged.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Fork Failed",
+        description: error instanceof Error ? error.message : 'Failed to fork the debate.',
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleForkTurn = (options: DebateForkOptions) => {
+    if (!debateSession.debateSessionId || forkTurn === null || forkMutation.isPending) return;
+    forkMutation.mutate({ sessionId: debateSession.debateSessionId, turnNumber: forkTurn, options });
+  };
 
   const handleAdvancePhase = () => {
     if (juryPending) {
@@ -545,29 +924,20 @@ export default function Debate() {
     debateSession.advancePhase();
   };
 
-  const stageSpeakers = useMemo(() => {
-    const model1 = debateService?.getModel(debateSetup.model1Id ?? '')?.name || 'Affirmative';
-    const model2 = debateService?.getModel(debateSetup.model2Id ?? '')?.name || 'Negative';
-    return [
-      {
-        modelId: debateSetup.model1Id ?? 'affirmative-placeholder',
-        modelName: model1,
-        role: 'Affirmative',
-      },
-      {
-        modelId: debateSetup.model2Id ?? 'negative-placeholder',
-        modelName: model2,
-        role: 'Negative',
-      },
-    ];
-  }, [debateService, debateSetup.model1Id, debateSetup.model2Id]);
+  const stageSpeakers = useMemo(
+    () =>
+      participants.map(seat => ({
+        participantId: seat.id,
+        modelId: seat.modelId || `${seat.id}-placeholder`,
+        modelName: debateService?.getModel(seat.modelId)?.name || seat.label,
+        role: seat.label,
+      })),
+    [debateService, participants]
+  );
 
   const activeSpeakers = useMemo(
-    () =>
-      stageSpeakers.filter(
-        speaker => speaker.modelId === debateSetup.model1Id || speaker.modelId === debateSetup.model2Id
-      ),
-    [stageSpeakers, debateSetup.model1Id, debateSetup.model2Id]
+    () => stageSpeakers.filter(speaker => participants.some(seat => seat.modelId === speaker.modelId)),
+    [stageSpeakers, participants]
   );
 
   const phaseMetadata: Record<DebatePhase, { label: string; description: string }> = {
@@ -596,32 +966,58 @@ export default function Debate() {
     [stageSpeakers]
   );
 
+  // Format sessions: one timeline entry per format phase, timed from the first turn spoken in it
+  const formatTimeline = useMemo(() => {
+    if (!activeFormat || !turnPlan) return null;
+    const phases = activeFormat.phases.map((phase, phaseIndex) => {
+      const seatIds = Array.from(new Set(
+        turnPlan.filter(slot => slot.phaseIndex === phaseIndex).map(slot => slot.participantId)
+      ));
+      return {
+        id: phase.id,
+        label: phase.name,
+        description: phase.description,
+        limit: describePhaseLimit(phase),
+        speakers: seatIds.flatMap(seatId => stageSpeakers.filter(speaker => speaker.participantId === seatId)),
+      };
+    });
+    const phaseTimestamps: Record<string, number> = {};
+    debateSession.messages.forEach(message => {
+      const slot = debateTurnSlot(turnPlan, message.turnNumber);
+      if (slot && phaseTimestamps[slot.phase.id] === undefined) {
+        phaseTimestamps[slot.phase.id] = message.timestamp;
+      }
+    });
+    const nextSlot = debateTurnSlot(turnPlan, debateSession.currentRound + 1) ?? turnPlan[turnPlan.length - 1];
+    return { phases, phaseTimestamps, currentPhase: nextSlot?.phase.id ?? '' };
+  }, [activeFormat, turnPlan, stageSpeakers, debateSession.messages, debateSession.currentRound]);
+
   useEffect(() => {
     if (activeSpeakers.length > 0) {
       debateSession.initializeJury(
-        activeSpeakers.map(speaker => ({ modelId: speaker.modelId, modelName: speaker.modelName }))
+        activeSpeakers.map(speaker => ({ participantId: speaker.participantId, modelId: speaker.modelId, modelName: speaker.modelName }))
       );
     }
   }, [activeSpeakers, debateSession.initializeJury]);
 
-  const nextSpeakerId = useMemo(() => {
+  const nextParticipant = useMemo(() => {
     if (!debateService || activeSpeakers.length === 0) return null;
-    return debateService.getNextDebater(debateSession.currentRound);
-  }, [debateService, debateSession.currentRound, activeSpeakers.length]);
+    return speakerForFormatTurn(seating, turnPlan, debateSession.currentRound + 1);
+  }, [debateService, seating, turnPlan, debateSession.currentRound, activeSpeakers.length]);
 
   const currentSpeaker = useMemo(() => {
-    if (!nextSpeakerId) {
+    if (!nextParticipant) {
       return stageSpeakers[0] ?? null;
     }
-    return activeSpeakers.find(speaker => speaker.modelId === nextSpeakerId) ?? null;
-  }, [activeSpeakers, nextSpeakerId, stageSpeakers]);
+    return activeSpeakers.find(speaker => speaker.participantId === nextParticipant.id) ?? null;
+  }, [activeSpeakers, nextParticipant, stageSpeakers]);
 
   const nextSpeakerModel = useMemo(() => {
-    if (!nextSpeakerId || !debateService) {
+    if (!nextParticipant || !debateService) {
       return null;
     }
-    return debateService.getModel(nextSpeakerId) ?? null;
-  }, [debateService, nextSpeakerId]);
+    return debateService.getModel(nextParticipant.modelId) ?? null;
+  }, [debateService, nextParticipant]);
 
   const rebuttalQueue = useMemo(() => {
     const queueSource = activeSpeakers.length > 0 ? activeSpeakers : stageSpeakers;
@@ -631,7 +1027,7 @@ export default function Debate() {
     if (!currentSpeaker) {
       return queueSource;
     }
-    return queueSource.filter(speaker => speaker.modelId !== currentSpeaker.modelId);
+    return queueSource.filter(speaker => speaker.participantId !== currentSpeaker.participantId);
   }, [activeSpeakers, currentSpeaker, floorOpen, stageSpeakers]);
 
   return (
@@ -720,6 +1116,23 @@ export default function Debate() {
               </Card>
             )}
 
+            {debateSetup.showSetup && (debateData?.formats.length ?? 0) > 0 && (
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="flex items-center space-x-2 text-sm">
+                    <Settings className="w-4 h-4" />
+                    <span>Debate Format</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="pt-0">
+                  <DebateFormatSelector
+                    formats={debateData?.formats ?? []}
+                    disabled={debateSession.messages.length > 0 || debateStreaming.isStreaming}
+                  />
+                </CardContent>
+              </Card>
+            )}
+
             {/* Debate Intensity + Start Button */}
             {debateSetup.showSetup && (
               <Card>
@@ -738,6 +1151,21 @@ export default function Debate() {
               </Card>
             )}
 
+            {(debateSetup.showSetup || autoRun.run) && (
+              <Card className="p-3">
+                <DebateAutoRunPanel
+                  run={autoRun.run}
+                  isAttached={autoRun.isAttached}
+                  liveSpeaker={liveSpeaker?.label}
+                  onQueue={handleQueueOnServer}
+                  onStop={autoRun.stopRun}
+                  onResume={autoRun.resumeRun}
+                  canQueue={!debateStreaming.isStreaming && !formatComplete && !hasHumanSeat && Boolean(debateSetup.model1Id && debateSetup.model2Id)}
+                  isPending={autoRun.isStarting || autoRun.isActing || createDebateSessionMutation.isPending}
+                />
+              </Card>
+            )}
+
             <DebateHistoryDrawer
               sessions={debateSession.existingDebateSessions}
               onRefresh={() => loadDebateSessionsMutation.mutate()}
@@ -764,6 +1192,25 @@ export default function Debate() {
               isFloorOpen={floorOpen}
               onToggleFloor={debateSession.toggleFloor}
               hasJuryPending={juryPending}
+              onRecordVerdict={debateSession.debateSessionId ? handleRecordVerdict : undefined}
+              isRecordingVerdict={recordVerdictMutation.isPending}
+              onAdjudicate={debateSession.debateSessionId ? handleAdjudicate : undefined}
+              isAdjudicating={adjudicateMutation.isPending}
+              hasJudgeVerdict={judgeVerdict !== null}
+                />
+              </Card>
+            )}
+
+            {formatTimeline && debateSession.messages.length > 0 && (
+              <Card className="p-3">
+                <DebateStageTimeline
+                  phases={formatTimeline.phases}
+                  currentPhase={formatTimeline.currentPhase}
+                  phaseTimestamps={formatTimeline.phaseTimestamps}
+                  floorOpen={floorOpen}
+                  currentSpeaker={formatComplete ? null : currentSpeaker}
+                  rebuttalQueue={formatComplete ? [] : rebuttalQueue}
+                  formatName={activeFormat?.name}
                 />
               </Card>
             )}
@@ -795,19 +1242,60 @@ export default function Debate() {
               />
             )}
 
+            {autoRun.liveTurn && !debateStreaming.isStreaming && (
+              <StreamingDisplay
+                reasoning={autoRun.liveTurn.reasoning}
+                content={autoRun.liveTurn.content}
+                isStreaming
+                error={null}
+                modelName={debateService?.getModel(autoRun.liveTurn.modelId)?.name ?? autoRun.liveTurn.modelId}
+                modelProvider={debateService?.getModel(autoRun.liveTurn.modelId)?.provider}
+                disableAutoScroll
+              />
+            )}
+
+            {judgeVerdict && <DebateVerdictPanel verdict={judgeVerdict} models={models} />}
+
             {debateSession.messages.length > 0 && (
               <DebateMessageList
                 messages={debateSession.messages}
                 models={models}
-                model1Id={debateSetup.model1Id}
-                model2Id={debateSetup.model2Id}
+                participants={participants}
+                speakingOrder={seating.speakingOrder ?? null}
+                turnPlan={turnPlan}
                 currentRound={debateSession.currentRound}
                 isStreaming={debateStreaming.isStreaming}
                 onContinueDebate={continueDebate}
+                disableContinue={formatComplete || serverRunActive || humanSeatUp !== null}
+                disableReason={continueDisabledReason}
+                onFactCheckTurn={debateSession.debateSessionId ? handleFactCheckTurn : undefined}
+                factCheckingTurn={factCheckMutation.isPending ? factCheckMutation.variables?.turnNumber ?? null : null}
+                onForkTurn={debateSession.debateSessionId && !debateStreaming.isStreaming && !serverRunActive ? setForkTurn : undefined}
+              />
+            )}
+
+            <DebateForkDialog
+              turnNumber={forkTurn}
+              participants={participants}
+              models={models}
+              adversarialLevel={debateSetup.adversarialLevel}
+              isForking={forkMutation.isPending}
+              onClose={() => setForkTurn(null)}
+              onConfirm={handleForkTurn}
+            />
+
+            {humanSeatUp && !debateStreaming.isStreaming && (
+              <HumanTurnComposer
+                participant={humanSeatUp}
+                turnNumber={debateSession.currentRound + 1}
+                phaseName={turnPlan ? debateTurnSlot(turnPlan, debateSession.currentRound + 1)?.phase.name : undefined}
+                intensityLabel={debateService?.getIntensityContext().label}
+                isSubmitting={humanTurnMutation.isPending}
+                onSubmit={(content) => handleSubmitHumanTurn(humanSeatUp, debateSession.currentRound + 1, content)}
               />
             )}
 
-            {debateSession.messages.length === 0 && !debateSetup.showSetup && (
+            {debateSession.messages.length === 0 && !debateSetup.showSetup && !humanSeatUp && (
               <Card className="p-8">
                 <CardContent className="text-center py-8">
                   <MessageSquare className="w-12 h-12 text-gray-300 dark:text-gray-600 mx-auto mb-3" />
@@ -0,0 +1,269 @@
+/**
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Document Builder - the Vixra assembly line for any document template (grant proposals, technical
+ *          RFCs, literature reviews, or templates added to client/public/docs/templates). The user picks a
+ *          template and fills in its variables; the server pipeline generates the sections along the
+ *          template's dependency DAG while the page shows the same progress tracker, section stream,
+ *          ensemble picks and stale-section regeneration as Vixra mode, and downloads the PDF or LaTeX export.
+ *          Section states come from the pipeline summary, overlaid with live pipeline events.
+ * SRP/DRY check: Pass - Page orchestration only; reuses useVixraPipeline and the Vixra section components.
+ * shadcn/ui: Pass - Uses AppNavigation, Card, Button and the Vixra section components built on shadcn/ui
+ */
+
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { FileStack, Download, FileCode } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import type { AIModel } from "@/types/ai-models";
+import type { DocumentTemplate, DocumentTemplateSummary } from "@shared/document-templates";
+import { VIXRA_TEMPLATE_ID, type VixraPickMode, type VixraPipelineSectionStatus } from "@shared/vixra-pipeline";
+
+import { AppNavigation } from "@/components/AppNavigation";
+import { DocumentSetupCard } from "@/components/documents/DocumentSetupCard";
+import { SectionProgressTracker, type Section, type SectionStatus } from "@/components/vixra/SectionProgressTracker";
+import { SectionResultsStream } from "@/components/vixra/SectionResultsStream";
+import { useVixraPipeline } from "@/hooks/useVixraPipeline";
+import { downloadSessionExport } from "@/lib/vixraUtils";
+
+const DOCUMENT_SESSION_KEY = 'document-pipeline-session';
+
+function toSectionStatus(status: VixraPipelineSectionStatus | undefined, hasDependencies: boolean): SectionStatus {
+  if (status === 'running') return 'generating';
+  return status ?? (hasDependencies ? 'locked' : 'pending');
+}
+
+export default function DocumentsPage() {
+  const { toast } = useToast();
+  const [templateId, setTemplateId] = useState('');
+  const [variables, setVariables] = useState<Record<string, string>>({});
+  const [selectedModel, setSelectedModel] = useState('');
+  const [sectionExtraModels, setSectionExtraModels] = useState<Record<string, string[]>>({});
+  const [pickMode, setPickMode] = useState<VixraPickMode>('judge');
+  // Template of the document the pipeline holds; the tracker only shows while it is the selected one
+  const [documentTemplateId, setDocumentTemplateId] = useState<string | null>(null);
+  // Section events since the last summary, which stay authoritative until the pipeline ends
+  const [liveStatus, setLiveStatus] = useState<Record<string, SectionStatus>>({});
+  const [currentSectionId, setCurrentSectionId] = useState<string | null>(null);
+
+  const { data: models = [], isLoading: modelsLoading } = useQuery({
+    queryKey: ['/api/models'],
+    queryFn: async () => {
+      const response = await fetch('/api/models');
+      if (!response.ok) throw new Error('Failed to fetch models');
+      return response.json() as Promise<AIModel[]>;
+    },
+  });
+
+  // Vixra papers keep their own page
+  const { data: templates = [] } = useQuery({
+    queryKey: ['/api/document-templates'],
+    queryFn: async () => {
+      const response = await fetch('/api/document-templates');
+      if (!response.ok) throw new Error('Failed to fetch document templates');
+      const all = await response.json() as DocumentTemplateSummary[];
+      return all.filter(summary => summary.id !== VIXRA_TEMPLATE_ID);
+    },
+  });
+
+  const { data: template } = useQuery({
+    queryKey: ['/api/document-templates', templateId],
+    enabled: Boolean(templateId),
+    queryFn: async () => {
+      const response = await fetch(`/api/document-templates/${encodeURIComponent(templateId)}`);
+      if (!response.ok) throw new Error('Failed to fetch document template');
+      return response.json() as Promise<DocumentTemplate>;
+    },
+  });
+
+  useEffect(() => {
+    if (!templateId && templates.length > 0) {
+      setTemplateId(templates[0].id);
+    }
+  }, [templateId, templates]);
+
+  useEffect(() => {
+    if (models.length > 0 && !selectedModel) {
+      setSelectedModel((models.find(m => m.id === 'gpt-5-nano-2025-08-07') ?? models[0]).id);
+    }
+  }, [models, selectedModel]);
+
+  const setStatus = (sectionId: string, status: SectionStatus) => {
+    setLiveStatus(current => ({ ...current, [sectionId]: status }));
+  };
+
+  const sectionName = (sectionId: string) => template?.sections.find(section => section.id === sectionId)?.name ?? sectionId;
+
+  const pipeline = useVixraPipeline({
+    onSessionLoaded: (session) => {
+      setTemplateId(session.template);
+      setDocumentTemplateId(session.template);
+      setVariables(session.variables ?? {});
+      setLiveStatus({});
+    },
+    onSectionStart: (sectionId) => {
+      setStatus(sectionId, 'generating');
+      setCurrentSectionId(sectionId);
+    },
+    onSectionComplete: (sectionId) => {
+      setStatus(sectionId, 'completed');
+    },
+    onSectionError: (sectionId, error) => {
+      setStatus(sectionId, 'failed');
+      toast({
+        title: 'Generation Failed',
+        description: `Failed to generate ${sectionName(sectionId)}: ${error}. Sections that do not depend on it keep generating.`,
+        variant: "destructive",
+      });
+    },
+    onSectionAwaitingPick: (sectionId) => {
+      setStatus(sectionId, 'awaiting-pick');
+      toast({
+        title: 'Pick a Version',
+        description: `Every version of ${sectionName(sectionId)} is ready. Pick the one to keep so dependent sections can continue.`,
+      });
+    },
+    onEnd: (summary) => {
+      setCurrentSectionId(null);
+      if (summary?.status === 'completed') {
+        toast({ title: "Document Complete", description: summary.statusReason ?? "Every section is ready to review and export." });
+      } else if (summary?.statusReason) {
+        toast({ title: "Document Generation Ended", description: summary.statusReason, variant: "destructive" });
+      }
+    },
+  }, { template: templateId, storageKey: DOCUMENT_SESSION_KEY });
+
+  const isGenerating = pipeline.isRunning || pipeline.isStarting;
+  const showsDocument = Boolean(pipeline.sessionId) && documentTemplateId === templateId;
+
+  const summarySections = pipeline.pipeline?.sections ?? {};
+  const sections: Section[] = (template?.sections ?? []).map(section => {
+    const winner = pipeline.winners[section.id];
+    return {
+      id: section.id,
+      name: section.name,
+      dependencies: section.dependencies,
+      status: liveStatus[section.id] ?? toSectionStatus(summarySections[section.id], section.dependencies.length > 0),
+      content: winner?.content,
+      metadata: winner ? { responseTime: winner.responseTime } : undefined,
+    };
+  });
+  const hasCompletedSections = sections.some(section => section.status === 'completed' || section.status === 'stale');
+
+  const handleGenerate = async () => {
+    if (!template) return;
+    const entries = Object.entries(sectionExtraModels)
+      .filter(([sectionId, modelIds]) => modelIds.length > 0 && template.sections.some(section => section.id === sectionId))
+      .map(([sectionId, modelIds]) => [sectionId, [selectedModel, ...modelIds.filter(id => id !== selectedModel)]]);
+    const sectionModels = entries.length > 0 ? Object.fromEntries(entries) : undefined;
+    setLiveStatus({});
+    try {
+      await pipeline.startPipeline({ variables, modelId: selectedModel, sectionModels, pickMode });
+      setDocumentTemplateId(template.id);
+    } catch {
+      // The hook reports the failure
+    }
+  };
+
+  const handleRegenerate = async (sectionIds: string[], cascade = false) => {
+    setLiveStatus({});
+    try {
+      await pipeline.regenerateSections({ sectionIds, cascade });
+    } catch {
+      // The hook reports the failure
+    }
+  };
+
+  const handleExport = async (format: 'pdf' | 'latex') => {
+    if (!pipeline.sessionId) return;
+    try {
+      await downloadSessionExport(pipeline.sessionId, format);
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Could not export document",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const scrollToSection = (sectionId: string) => {
+    document.getElementById(`section-${sectionId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <AppNavigation
+        title="Document Builder"
+        subtitle="Grant proposals, RFCs and literature reviews, section by section"
+        icon={FileStack}
+      />
+
+      <div className="flex-1">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 py-6">
+          <div className="space-y-6">
+            <DocumentSetupCard
+              templates={templates}
+              templateId={templateId}
+              onTemplateChange={setTemplateId}
+              template={template}
+              variables={variables}
+              onVariableChange={(name, value) => setVariables(current => ({ ...current, [name]: value }))}
+              selectedModel={selectedModel}
+              models={models}
+              onModelSelect={setSelectedModel}
+              sectionExtraModels={sectionExtraModels}
+              onSectionExtraModelsChange={setSectionExtraModels}
+              pickMode={pickMode}
+              onPickModeChange={setPickMode}
+              onGenerate={handleGenerate}
+              isGenerating={isGenerating}
+              disabled={modelsLoading}
+            />
+
+            {showsDocument && (
+              <>
+                <SectionProgressTracker
+                  sections={sections}
+                  currentSectionId={currentSectionId}
+                  onSectionClick={scrollToSection}
+                  onRegenerateStale={() => handleRegenerate(sections.filter(s => s.status === 'stale').map(s => s.id))}
+                  regenerateDisabled={isGenerating}
+                />
+
+                {hasCompletedSections && (
+                  <Card>
+                    <CardContent className="flex items-center gap-3 py-4 flex-wrap">
+                      <span className="text-sm font-medium flex-1">{variables.Title || template?.name}</span>
+                      <Button variant="outline" size="sm" onClick={() => handleExport('pdf')} disabled={isGenerating}>
+                        <Download className="w-4 h-4 mr-2" />
+                        PDF
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleExport('latex')} disabled={isGenerating}>
+                        <FileCode className="w-4 h-4 mr-2" />
+                        LaTeX
+                      </Button>
+                    </CardContent>
+                  </Card>
+                )}
+
+                <SectionResultsStream
+                  sections={sections}
+                  models={models}
+                  onRegenerateSection={(sectionId, cascade) => handleRegenerate([sectionId], cascade)}
+                  isGenerating={isGenerating}
+                  alternatives={pipeline.alternatives}
+                  winners={pipeline.winners}
+                  onPickAlternative={pipeline.pickAlternative}
+                  isPicking={pipeline.isPicking}
+                />
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+/**
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Model leaderboard page. Shows Elo or Bradley-Terry ratings built from human compare votes,
+ *          LLM judge verdicts, debate jury scores and battle outcomes, filterable by compare-prompts.md
+ *          category and by matchup source. Below the ratings, reference-answer accuracy per model
+ *          (graded compare responses) for the same category.
+ * SRP/DRY check: Pass - Read-only view over GET /api/leaderboard; ratings are computed server-side.
+ * shadcn/ui: Pass - Uses Card, Select, Table, Badge and ToggleGroup
+ */
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import AppNavigation from "@/components/AppNavigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Loader2, Trophy } from "lucide-react";
+import type { AIModel } from "@/types/ai-models";
+import {
+  MATCHUP_SOURCES,
+  type LeaderboardCategory,
+  type LeaderboardResult,
+  type MatchupSource,
+  type RatingMethod,
+} from "@shared/leaderboard-types";
+import type { ModelAccuracy } from "@shared/reference-answer";
+
+const ALL_CATEGORIES = "all";
+
+const SOURCE_LABELS: Record<MatchupSource, string> = {
+  human_vote: "Human votes",
+  judge: "LLM judge",
+  debate_jury: "Debate jury",
+  battle: "Battles",
+};
+
+export default function LeaderboardPage() {
+  const [method, setMethod] = useState<RatingMethod>("elo");
+  const [category, setCategory] = useState<string>(ALL_CATEGORIES);
+  // Empty selection means every source
+  const [sources, setSources] = useState<MatchupSource[]>([]);
+
+  const { data: models = [] } = useQuery<AIModel[]>({ queryKey: ["/api/models"] });
+  const { data: categories = [] } = useQuery<LeaderboardCategory[]>({ queryKey: ["/api/leaderboard/categories"] });
+
+  const params = new URLSearchParams({ method });
+  if (category !== ALL_CATEGORIES) params.set("category", category);
+  if (sources.length > 0) params.set("source", sources.join(","));
+
+  const { data: leaderboard, isLoading, error } = useQuery<LeaderboardResult>({
+    queryKey: [`/api/leaderboard?${params.toString()}`],
+    staleTime: 30_000,
+  });
+
+  const accuracyParams = new URLSearchParams();
+  if (category !== ALL_CATEGORIES) accuracyParams.set("category", category);
+  const { data: accuracy = [] } = useQuery<ModelAccuracy[]>({
+    queryKey: [`/api/models/accuracy?${accuracyParams.toString()}`],
+    staleTime: 30_000,
+  });
+
+  const modelName = (modelId: string) => models.find(model => model.id === modelId)?.name ?? modelId;
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <AppNavigation
+        title="Leaderboard"
+        subtitle="Pairwise model ratings from votes, judges and debate juries"
+        icon={Trophy}
+      />
+      <main className="flex-1 container mx-auto px-4 py-6 max-w-5xl space-y-4">
+        <Card>
+          <CardContent className="pt-4 flex flex-wrap items-center gap-4">
+            <ToggleGroup
+              type="single"
+              value={method}
+              onValueChange={(value) => value && setMethod(value as RatingMethod)}
+            >
+              <ToggleGroupItem value="elo" size="sm">Elo</ToggleGroupItem>
+              <ToggleGroupItem value="bradley-terry" size="sm">Bradley-Terry</ToggleGroupItem>
+            </ToggleGroup>
+
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger className="w-56 h-9">
+                <SelectValue placeholder="Category" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                {categories.map(entry => (
+                  <SelectItem key={entry.id} value={entry.id}>{entry.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <ToggleGroup
+              type="multiple"
+              value={sources}
+              onValueChange={(value) => setSources(value as MatchupSource[])}
+            >
+              {MATCHUP_SOURCES.map(source => (
+                <ToggleGroupItem key={source} value={source} size="sm">{SOURCE_LABELS[source]}</ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center justify-between">
+              <span>Ratings</span>
+              {leaderboard && (
+                <span className="text-xs font-normal text-muted-foreground">
+                  {leaderboard.totalMatches.toLocaleString()} matchups
+                </span>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : error ? (
+              <p className="text-sm text-destructive py-4">Failed to load leaderboard: {(error as Error).message}</p>
+            ) : !leaderboard || leaderboard.entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4 text-center">
+                No matchups yet. Vote on comparisons, judge them, or record debate jury verdicts to populate the table.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">#</TableHead>
+                    <TableHead>Model</TableHead>
+                    <TableHead className="text-right">Rating</TableHead>
+                    <TableHead className="text-right">Matches</TableHead>
+                    <TableHead className="text-right">W / L / T</TableHead>
+                    <TableHead className="text-right">Win rate</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {leaderboard.entries.map(entry => (
+                    <TableRow key={entry.modelId}>
+                      <TableCell>
+                        <Badge variant={entry.rank === 1 ? "default" : "secondary"}>{entry.rank}</Badge>
+                      </TableCell>
+                      <TableCell className="font-medium">{modelName(entry.modelId)}</TableCell>
+                      <TableCell className="text-right font-mono">{entry.rating.toFixed(0)}</TableCell>
+                      <TableCell className="text-right">{entry.matches}</TableCell>
+                      <TableCell className="text-right font-mono text-xs">
+                        {entry.wins} / {entry.losses} / {entry.ties}
+                      </TableCell>
+                      <TableCell className="text-right">{(entry.winRate * 100).toFixed(1)}%</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {accuracy.length > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Reference answer accuracy</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Model</TableHead>
+                    <TableHead className="text-right">Correct</TableHead>
+                    <TableHead className="text-right">Graded</TableHead>
+                    <TableHead className="text-right">Accuracy</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {accuracy.map(entry => (
+                    <TableRow key={entry.modelId}>
+                      <TableCell className="font-medium">{modelName(entry.modelId)}</TableCell>
+                      <TableCell className="text-right">{entry.passed}</TableCell>
+                      <TableCell className="text-right">{entry.graded}</TableCell>
+                      <TableCell className="text-right">{(entry.accuracy * 100).toFixed(1)}%</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
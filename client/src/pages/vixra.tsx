@@ -5,6 +5,12 @@
  *          Single-column layout with PaperSetupCard hero, progress tracker,
  *          streaming section results, and export footer.
  *          Optimized for single-model auto-mode workflow while supporting manual mode.
+ *          Auto mode hands the paper to the server-side pipeline, which generates independent sections in
+ *          parallel and keeps going after the page closes; manual mode still generates one section per request.
+ *          PDF and LaTeX downloads come from the server renderers; Print keeps the browser print dialog.
+ *          Auto mode can have several models write a section; the page shows their versions and sends picks.
+ *          Regenerating a section marks the sections built on it stale; a cascade regenerates them in order
+ *          (on the server for pipeline papers, one request at a time in the browser otherwise).
  * SRP/DRY check: Pass - Page orchestration only, delegates to components
  * shadcn/ui: Pass - Uses AppNavigation and custom Vixra components built on shadcn/ui
  */
@@ -13,9 +19,10 @@ import { useState, useEffect, useCallback, useMemo } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { FileText } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { ToastAction } from "@/components/ui/toast";
 import { apiRequest } from "@/lib/queryClient";
 import type { AIModel, ModelResponse } from "@/types/ai-models";
+import type { VixraSectionResponse } from "@shared/schema";
+import { getStaleVixraSections, getVixraDependentSections, type VixraPickMode } from "@shared/vixra-pipeline";
 
 // Components
 import { AppNavigation } from "@/components/AppNavigation";
@@ -28,6 +35,7 @@ import { ModelPill } from "@/components/comparison/ModelPill";
 
 // State management and utilities
 import { useVixraPaper } from "@/hooks/useVixraPaper";
+import { useVixraPipeline } from "@/hooks/useVixraPipeline";
 import { 
   parseVixraTemplates, 
   generateMissingVariables, 
@@ -36,6 +44,7 @@ import {
   downloadVixraPaper,
   copyVixraPaper,
   printVixraPaper,
+  downloadVixraServerExport,
   extractTitleFromAbstract,
   hasMeaningfulText,
   SCIENCE_CATEGORIES,
@@ -43,6 +52,17 @@ import {
   type VixraSectionResponses
 } from "@/lib/vixraUtils";
 
+function sectionMetadata(responseTime: number, tokenUsage?: { input?: number; output?: number; reasoning?: number }): Section['metadata'] {
+  return {
+    responseTime,
+    tokenUsage: tokenUsage ? {
+      prompt: tokenUsage.input || 0,
+      completion: tokenUsage.output || 0,
+      total: (tokenUsage.input || 0) + (tokenUsage.output || 0) + (tokenUsage.reasoning || 0)
+    } : undefined,
+  };
+}
+
 export default function VixraPage() {
   const { toast } = useToast();
   const { state, actions } = useVixraPaper();
@@ -51,6 +71,13 @@ export default function VixraPage() {
   const [promptTemplates, setPromptTemplates] = useState<Map<string, string>>(new Map());
   const [templatesLoaded, setTemplatesLoaded] = useState(false);
 
+  // Section ensembles (auto mode): models writing a section besides the paper's model
+  const [sectionExtraModels, setSectionExtraModels] = useState<Record<string, string[]>>({});
+  const [pickMode, setPickMode] = useState<VixraPickMode>('judge');
+
+  // Sections still to regenerate, in paper order, after the one generating now
+  const [cascadeQueue, setCascadeQueue] = useState<string[]>([]);
+
   // Fetch available models
   const { data: models = [], isLoading: modelsLoading } = useQuery({
     queryKey: ['/api/models'],
@@ -104,6 +131,88 @@ export default function VixraPage() {
     loadTemplates();
   }, [toast]);
 
+  // Extract title from Abstract section if generated
+  const adoptAbstractTitle = (content: string) => {
+    if (content && !hasMeaningfulText(state.paperConfig.title)) {
+      const extractedTitle = extractTitleFromAbstract(content);
+      if (hasMeaningfulText(extractedTitle)) {
+        actions.updateTitle(extractedTitle);
+      }
+    }
+  };
+
+  const sectionName = (sectionId: string) => state.sections.find(s => s.id === sectionId)?.name || sectionId;
+
+  // Auto mode: the server generates the paper; events from its pipeline drive the section list
+  const pipeline = useVixraPipeline({
+    onSessionLoaded: (session) => {
+      for (const [sectionId, response] of Object.entries(session.responses ?? {})) {
+        if (response.status === 'success') {
+          actions.updateSectionStatus(sectionId, 'completed', response.content, sectionMetadata(response.responseTime, response.tokenUsage));
+        } else if (response.status === 'error') {
+          actions.updateSectionStatus(sectionId, 'failed');
+        }
+      }
+      for (const sectionId of getStaleVixraSections(session.responses ?? {})) {
+        actions.updateSectionStatus(sectionId, 'stale');
+      }
+      for (const [sectionId, versions] of Object.entries(session.alternatives ?? {})) {
+        const hasWinner = session.responses?.[sectionId]?.status === 'success';
+        if (!hasWinner && Object.values(versions).some(version => version.status === 'success')) {
+          actions.updateSectionStatus(sectionId, 'awaiting-pick');
+        }
+      }
+      if (!hasMeaningfulText(state.paperConfig.title) && hasMeaningfulText(session.variables?.Title)) {
+        actions.updateTitle(session.variables.Title);
+      }
+    },
+    onSectionStart: (sectionId) => {
+      actions.updateSectionStatus(sectionId, 'generating');
+      actions.setCurrentSectionId(sectionId);
+    },
+    onSectionComplete: (sectionId: string, response: VixraSectionResponse) => {
+      actions.updateSectionStatus(sectionId, 'completed', response.content, sectionMetadata(response.responseTime, response.tokenUsage));
+      actions.markDependentsStale(sectionId);
+      if (sectionId === 'abstract') {
+        adoptAbstractTitle(response.content);
+      }
+    },
+    onSectionError: (sectionId, error) => {
+      actions.updateSectionStatus(sectionId, 'failed');
+      toast({
+        title: 'Generation Failed',
+        description: `Failed to generate ${sectionName(sectionId)}: ${error}. Sections that do not depend on it keep generating.`,
+        variant: "destructive",
+      });
+    },
+    onSectionAwaitingPick: (sectionId) => {
+      actions.updateSectionStatus(sectionId, 'awaiting-pick');
+      toast({
+        title: 'Pick a Version',
+        description: `Every version of ${sectionName(sectionId)} is ready. Pick the one to keep so dependent sections can continue.`,
+      });
+    },
+    onEnd: (summary) => {
+      actions.setIsGenerating(false);
+      actions.setCurrentSectionId(null);
+      if (summary?.status === 'completed') {
+        toast({
+          title: "Paper Complete! 🎉",
+          description: "Your satirical masterpiece is ready to revolutionize science!",
+        });
+      } else if (summary?.statusReason) {
+        toast({ title: "Paper Generation Ended", description: summary.statusReason, variant: "destructive" });
+      }
+    },
+  });
+
+  // A pipeline still running after a reload keeps the page in its generating state
+  useEffect(() => {
+    if (pipeline.isRunning && !state.isGenerating) {
+      actions.setIsGenerating(true);
+    }
+  }, [pipeline.isRunning, state.isGenerating, actions]);
+
   // Individual model response mutation
   const modelResponseMutation = useMutation({
     mutationFn: async (data: { prompt: string; modelId: string; sectionId: string; options?: Record<string, unknown> }) => {
@@ -124,99 +233,34 @@ export default function VixraPage() {
         data.sectionId, 
         'completed',
         data.content,
-        {
-          responseTime: data.responseTime,
-          tokenUsage: data.tokenUsage ? {
-            prompt: data.tokenUsage.input || 0,
-            completion: data.tokenUsage.output || 0,
-            total: (data.tokenUsage.input || 0) + (data.tokenUsage.output || 0) + (data.tokenUsage.reasoning || 0)
-          } : undefined,
-        }
+        sectionMetadata(data.responseTime, data.tokenUsage)
       );
+      actions.markDependentsStale(data.sectionId);
 
-      // Extract title from Abstract section if generated
-      if (data.sectionId === 'abstract' && data.content && !hasMeaningfulText(state.paperConfig.title)) {
-        const extractedTitle = extractTitleFromAbstract(data.content);
-        if (hasMeaningfulText(extractedTitle)) {
-          actions.updateTitle(extractedTitle);
-        }
+      if (data.sectionId === 'abstract') {
+        adoptAbstractTitle(data.content);
       }
 
       toast({
         title: 'Section Complete',
-        description: `${state.sections.find(s => s.id === data.sectionId)?.name || data.sectionId} generated successfully`,
+        description: `${sectionName(data.sectionId)} generated successfully`,
       });
 
-      // Auto mode: Continue to next section
-      if (state.generationMode === 'auto' && state.isGenerating) {
-        const completedIds = actions.getCompletedSectionIds();
-        const nextSection = getNextEligibleSection([...completedIds, data.sectionId]);
-        
-        if (nextSection) {
-          // Small delay for UX
-          setTimeout(() => {
-            generateSection(nextSection);
-          }, 1500);
-        } else {
-          // All sections complete
-          actions.setIsGenerating(false);
-          actions.setCurrentSectionId(null);
-          toast({
-            title: "Paper Complete! 🎉",
-            description: "Your satirical masterpiece is ready to revolutionize science!",
-          });
-        }
-      } else {
-        // Manual mode: Stop generating, user controls next section
-        actions.setIsGenerating(false);
-        actions.setCurrentSectionId(null);
-      }
+      // One section per request; the next one is the user's call
+      actions.setIsGenerating(false);
+      actions.setCurrentSectionId(null);
     },
     onError: (error: Error, variables) => {
       actions.updateSectionStatus(variables.sectionId, 'failed');
       actions.setCurrentSectionId(null);
-      
-      const sectionName = state.sections.find(s => s.id === variables.sectionId)?.name || variables.sectionId;
-      
-      // In auto-mode, offer to stop generation
-      const toastAction = state.generationMode === 'auto' ? (
-        <ToastAction 
-          altText="Stop auto-mode generation"
-          onClick={() => {
-            actions.setIsGenerating(false);
-            actions.setCurrentSectionId(null);
-          }}
-        >
-          Stop Auto-Mode
-        </ToastAction>
-      ) : undefined;
-      
+      actions.setIsGenerating(false);
+      setCascadeQueue([]);
+
       toast({
         title: 'Generation Failed',
-        description: `Failed to generate ${sectionName}: ${error.message}. ${state.generationMode === 'auto' ? 'Continuing to next section...' : 'Try changing models or regenerating.'}`,
+        description: `Failed to generate ${sectionName(variables.sectionId)}: ${error.message}. Try changing models or regenerating.`,
         variant: "destructive",
-        action: toastAction,
       });
-
-      // Auto mode: Continue despite error (but user can stop via toast action)
-      if (state.generationMode === 'auto' && state.isGenerating) {
-        const completedIds = actions.getCompletedSectionIds();
-        const nextSection = getNextEligibleSection(completedIds);
-        
-        if (nextSection) {
-          setTimeout(() => {
-            // Check if still generating (user might have stopped via toast)
-            if (state.isGenerating) {
-              generateSection(nextSection);
-            }
-          }, 2500); // Slightly longer delay after errors
-        } else {
-          actions.setIsGenerating(false);
-        }
-      } else {
-        // Manual mode: Stop generating on error, user must retry manually
-        actions.setIsGenerating(false);
-      }
     },
   });
 
@@ -300,6 +344,14 @@ export default function VixraPage() {
     return options;
   }, [selectedModelData, state.modelConfig]);
 
+  // The paper's model writes every section; ensemble sections add their extra models
+  const buildSectionModels = useCallback((): Record<string, string[]> | undefined => {
+    const entries = Object.entries(sectionExtraModels)
+      .filter(([, modelIds]) => modelIds.length > 0)
+      .map(([sectionId, modelIds]) => [sectionId, [state.selectedModel, ...modelIds.filter(id => id !== state.selectedModel)]]);
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  }, [sectionExtraModels, state.selectedModel]);
+
   const generateSection = useCallback(async (sectionId?: string) => {
     const targetSection = sectionId || state.currentSectionId || getNextEligibleSection(actions.getCompletedSectionIds());
 
@@ -309,6 +361,7 @@ export default function VixraPage() {
         description: "All sections are completed",
         variant: "destructive",
       });
+      actions.setIsGenerating(false);
       return;
     }
 
@@ -318,6 +371,7 @@ export default function VixraPage() {
         description: "Please select an AI model to generate sections",
         variant: "destructive",
       });
+      actions.setIsGenerating(false);
       return;
     }
 
@@ -327,6 +381,7 @@ export default function VixraPage() {
         description: "Please select a science category",
         variant: "destructive",
       });
+      actions.setIsGenerating(false);
       return;
     }
 
@@ -340,6 +395,8 @@ export default function VixraPage() {
         options: buildModelCallOptions()
       });
     } catch (error) {
+      actions.setIsGenerating(false);
+      setCascadeQueue([]);
       toast({
         title: "Prompt generation failed",
         description: error instanceof Error ? error.message : "Unknown error",
@@ -369,15 +426,45 @@ export default function VixraPage() {
     }
 
     actions.setIsGenerating(true);
-    
+
+    if (state.generationMode === 'auto') {
+      pipeline.startPipeline({
+        variables: {
+          Author: state.paperConfig.author,
+          ScienceCategory: state.paperConfig.scienceCategory,
+          Title: state.paperConfig.title,
+        },
+        modelId: state.selectedModel,
+        options: buildModelCallOptions(),
+        sectionModels: buildSectionModels(),
+        pickMode,
+      }).catch(() => {
+        // The hook reports the failure
+        actions.setIsGenerating(false);
+      });
+      return;
+    }
+
     const firstSection = getNextEligibleSection([]);
     if (firstSection) {
       generateSection(firstSection);
     }
-  }, [state.paperConfig, state.selectedModel, actions, toast, generateSection]);
+  }, [state.paperConfig, state.selectedModel, state.generationMode, actions, toast, generateSection, pipeline, buildModelCallOptions, buildSectionModels, pickMode]);
+
+  // Papers generated by the server pipeline regenerate on the server, so the saved session stays current
+  const regeneratesOnServer = state.generationMode === 'auto' && Boolean(pipeline.pipeline);
 
-  // Regenerate a specific section
-  const handleRegenerateSection = useCallback((sectionId: string) => {
+  // Browser cascade: generate the queued sections one after another, each from the fresh text before it
+  useEffect(() => {
+    if (state.isGenerating || cascadeQueue.length === 0) return;
+    const [next, ...rest] = cascadeQueue;
+    setCascadeQueue(rest);
+    actions.setIsGenerating(true);
+    generateSection(next);
+  }, [cascadeQueue, state.isGenerating, actions, generateSection]);
+
+  // Regenerate a specific section; with cascade, every finished section built on it follows
+  const handleRegenerateSection = useCallback((sectionId: string, cascade = false) => {
     if (state.isGenerating) {
       toast({
         title: "Generation in progress",
@@ -387,8 +474,34 @@ export default function VixraPage() {
       return;
     }
 
+    if (regeneratesOnServer) {
+      pipeline.regenerateSections({ sectionIds: [sectionId], cascade, modelId: state.selectedModel }).catch(() => {
+        // The hook reports the failure
+      });
+      return;
+    }
+
+    if (cascade) {
+      const finished = new Set(state.sections.filter(s => s.status === 'completed' || s.status === 'stale').map(s => s.id));
+      setCascadeQueue(getVixraDependentSections(sectionId).filter(id => finished.has(id)));
+    }
+    actions.setIsGenerating(true);
     generateSection(sectionId);
-  }, [state.isGenerating, toast, generateSection]);
+  }, [state.isGenerating, state.sections, state.selectedModel, toast, generateSection, regeneratesOnServer, pipeline, actions]);
+
+  // One click for every stale section, in paper order so each one is written from fresh dependencies
+  const handleRegenerateStale = useCallback(() => {
+    const staleIds = actions.getStaleSectionIds();
+    if (state.isGenerating || staleIds.length === 0) return;
+
+    if (regeneratesOnServer) {
+      pipeline.regenerateSections({ sectionIds: staleIds, modelId: state.selectedModel }).catch(() => {
+        // The hook reports the failure
+      });
+      return;
+    }
+    setCascadeQueue(staleIds);
+  }, [state.isGenerating, state.selectedModel, actions, regeneratesOnServer, pipeline]);
 
   // Export handlers
   const buildSectionResponses = useCallback((): VixraSectionResponses => {
@@ -397,8 +510,9 @@ export default function VixraPage() {
       return responses;
     }
 
+    // Stale sections are out of date but still part of the paper
     state.sections.forEach(section => {
-      if (section.status === 'completed' && section.content) {
+      if ((section.status === 'completed' || section.status === 'stale') && section.content) {
         responses[section.id] = {
           [state.selectedModel]: {
             content: section.content,
@@ -413,7 +527,38 @@ export default function VixraPage() {
     return responses;
   }, [state.sections, state.selectedModel]);
 
-  const handleExportPDF = useCallback(() => {
+  // PDF and LaTeX downloads are rendered on the server from a saved session of the paper
+  const handleServerExport = useCallback(async (format: 'pdf' | 'latex') => {
+    try {
+      const sectionResponses = buildSectionResponses();
+      const variables: VixraVariables = {
+        Author: state.paperConfig.author,
+        ScienceCategory: state.paperConfig.scienceCategory,
+        Title: state.paperConfig.title,
+      };
+
+      const selectedModelData = models.find(m => m.id === state.selectedModel);
+      await downloadVixraServerExport(variables, sectionResponses, selectedModelData ? [selectedModelData] : [], format);
+
+      toast({
+        title: format === 'pdf' ? "PDF downloaded" : "LaTeX source downloaded",
+        description: format === 'pdf'
+          ? "The paper was typeset on the server"
+          : "Unpack the bundle and run pdflatex main.tex, or upload it to arXiv",
+      });
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Could not export paper",
+        variant: "destructive",
+      });
+    }
+  }, [buildSectionResponses, state.paperConfig, models, state.selectedModel, toast]);
+
+  const handleExportPDF = useCallback(() => handleServerExport('pdf'), [handleServerExport]);
+  const handleExportLatex = useCallback(() => handleServerExport('latex'), [handleServerExport]);
+
+  const handlePrint = useCallback(() => {
     try {
       const sectionResponses = buildSectionResponses();
       const variables: VixraVariables = {
@@ -463,8 +608,6 @@ export default function VixraPage() {
     }
   }, [buildSectionResponses, state.paperConfig, models, state.selectedModel, toast]);
 
-  const handlePrint = handleExportPDF;
-
   // Check if export footer should be visible
   const abstractComplete = state.sections.find(s => s.id === 'abstract')?.status === 'completed';
   const allComplete = state.sections.every(s => s.status === 'completed');
@@ -502,6 +645,10 @@ export default function VixraPage() {
               onModelSelect={actions.selectModel}
               modelConfig={state.modelConfig}
               onModelConfigChange={actions.updateModelConfig}
+              sectionExtraModels={sectionExtraModels}
+              onSectionExtraModelsChange={setSectionExtraModels}
+              pickMode={pickMode}
+              onPickModeChange={setPickMode}
               isAutoMode={state.generationMode === 'auto'}
               onModeToggle={(enabled) => actions.setGenerationMode(enabled ? 'auto' : 'manual')}
               onGenerate={handleGeneratePaper}
@@ -516,6 +663,8 @@ export default function VixraPage() {
                 currentSectionId={state.currentSectionId}
                 onSectionClick={actions.scrollToSection}
                 showProgress={true}
+                onRegenerateStale={handleRegenerateStale}
+                regenerateDisabled={state.isGenerating}
               />
             )}
 
@@ -525,6 +674,10 @@ export default function VixraPage() {
               models={models}
               onRegenerateSection={handleRegenerateSection}
               isGenerating={state.isGenerating}
+              alternatives={pipeline.alternatives}
+              winners={pipeline.winners}
+              onPickAlternative={pipeline.sessionId ? pipeline.pickAlternative : undefined}
+              isPicking={pipeline.isPicking}
             />
           </div>
         </div>
@@ -537,6 +690,7 @@ export default function VixraPage() {
           paperTitle={state.paperConfig.title}
           paperAuthor={state.paperConfig.author}
           onExportPDF={handleExportPDF}
+          onExportLatex={handleExportLatex}
           onExportMarkdown={handleExportMarkdown}
           onPrint={handlePrint}
           visible={true}
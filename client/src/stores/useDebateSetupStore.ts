@@ -3,12 +3,15 @@
  * Date: 2025-10-22
  * PURPOSE: Zustand store for debate setup state (models, configs, topic, intensity).
  *          Converted from useState hook to fix state sharing issue - all components
- *          now access the same shared state instance.
+ *          now access the same shared state instance. Seats beyond the two main debaters join a
+ *          team or argue their own position, and an optional speaking order reorders the seats.
+ *          An optional structured format (from debate-prompts.md) replaces the open-ended flow.
  * SRP/DRY check: Pass - Single source of truth for debate setup configuration
  */
 
 import { create } from 'zustand';
 import type { ModelConfiguration } from '@/components/ModelConfigurationPanel';
+import { normalizeDebateParticipants, type DebateParticipant } from '@shared/debate-participants';
 
 const initialModelConfig: ModelConfiguration = {
   reasoningEffort: 'medium',
@@ -24,6 +27,15 @@ const DEFAULT_MODEL_1_ID = 'gpt-5-mini-2025-08-07';
 const DEFAULT_MODEL_2_ID = 'gpt-5-nano-2025-08-07';
 const DEFAULT_INTENSITY = 3;
 
+/** A panelist after the Affirmative and Negative seats */
+export interface DebateExtraSeat {
+  modelId: string;
+  /** 'Affirmative' or 'Negative' to join that team; null to argue `position` alone */
+  team: string | null;
+  position: string;
+  config: ModelConfiguration;
+}
+
 export interface DebateSetupState {
   // Topic state
   selectedTopic: string;
@@ -38,6 +50,13 @@ export interface DebateSetupState {
   model1Config: ModelConfiguration;
   model2Config: ModelConfiguration;
 
+  // Panel seats and turn order (seat ids "p1".."pN"; empty means seat order)
+  extraParticipants: DebateExtraSeat[];
+  speakingOrder: string[];
+
+  // Structured debate format id; null for the open-ended opening/rebuttal flow
+  formatId: string | null;
+
   // Intensity
   adversarialLevel: number;
 
@@ -53,6 +72,12 @@ export interface DebateSetupState {
   setModel2Id: (modelId: string) => void;
   setModel1Config: (config: ModelConfiguration) => void;
   setModel2Config: (config: ModelConfiguration) => void;
+  addExtraParticipant: (modelId: string) => void;
+  updateExtraParticipant: (index: number, patch: Partial<DebateExtraSeat>) => void;
+  removeExtraParticipant: (index: number) => void;
+  setExtraParticipants: (seats: Array<Omit<DebateExtraSeat, 'config'> & { config?: ModelConfiguration }>) => void;
+  setSpeakingOrder: (order: string[]) => void;
+  setFormatId: (formatId: string | null) => void;
   setAdversarialLevel: (level: number) => void;
   setShowSetup: (show: boolean) => void;
   setShowSystemPrompts: (show: boolean) => void;
@@ -68,6 +93,9 @@ export const useDebateSetupStore = create<DebateSetupState>((set) => ({
   model2Id: DEFAULT_MODEL_2_ID,
   model1Config: { ...initialModelConfig },
   model2Config: { ...initialModelConfig },
+  extraParticipants: [],
+  speakingOrder: [],
+  formatId: null,
   adversarialLevel: DEFAULT_INTENSITY,
   showSetup: true,
   showSystemPrompts: false,
@@ -80,6 +108,22 @@ export const useDebateSetupStore = create<DebateSetupState>((set) => ({
   setModel2Id: (modelId) => set({ model2Id: modelId }),
   setModel1Config: (config) => set({ model1Config: config }),
   setModel2Config: (config) => set({ model2Config: config }),
+  addExtraParticipant: (modelId) => set((state) => ({
+    extraParticipants: [...state.extraParticipants, { modelId, team: 'Negative', position: '', config: { ...initialModelConfig } }],
+    speakingOrder: [],
+  })),
+  updateExtraParticipant: (index, patch) => set((state) => ({
+    extraParticipants: state.extraParticipants.map((seat, seatIndex) => (seatIndex === index ? { ...seat, ...patch } : seat)),
+  })),
+  removeExtraParticipant: (index) => set((state) => ({
+    extraParticipants: state.extraParticipants.filter((_, seatIndex) => seatIndex !== index),
+    speakingOrder: [],
+  })),
+  setExtraParticipants: (seats) => set({
+    extraParticipants: seats.map(seat => ({ ...seat, config: { ...initialModelConfig, ...seat.config } })),
+  }),
+  setSpeakingOrder: (order) => set({ speakingOrder: order }),
+  setFormatId: (formatId) => set({ formatId }),
   setAdversarialLevel: (level) => set({ adversarialLevel: level }),
   setShowSetup: (show) => set({ showSetup: show }),
   setShowSystemPrompts: (show) => set({ showSystemPrompts: show }),
@@ -92,7 +136,26 @@ export const useDebateSetupStore = create<DebateSetupState>((set) => ({
     model2Id: DEFAULT_MODEL_2_ID,
     model1Config: { ...initialModelConfig },
     model2Config: { ...initialModelConfig },
+    extraParticipants: [],
+    speakingOrder: [],
+    formatId: null,
     showSetup: true,
     showSystemPrompts: false,
   }),
 }));
+
+/** Seats for the session request; the first two are the Affirmative and Negative debaters */
+export function selectDebateParticipants(state: DebateSetupState): DebateParticipant[] {
+  return normalizeDebateParticipants([
+    { modelId: state.model1Id },
+    { modelId: state.model2Id },
+    ...state.extraParticipants.map(seat => ({ modelId: seat.modelId, team: seat.team, position: seat.position })),
+  ]);
+}
+
+/** Model configuration for a seat index: 0 is model1Config, 1 model2Config, then the panelists */
+export function selectSeatConfig(state: DebateSetupState, seatIndex: number): ModelConfiguration {
+  if (seatIndex <= 0) return state.model1Config;
+  if (seatIndex === 1) return state.model2Config;
+  return state.extraParticipants[seatIndex - 2]?.config ?? state.model1Config;
+}
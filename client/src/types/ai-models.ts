@@ -53,6 +53,8 @@ export interface ModelResponse {
   status: 'success' | 'error' | 'loading';
   responseTime: number;
   error?: string;
+  /** Transient progress note while loading, e.g. queue position or retry countdown */
+  statusMessage?: string;
   reasoning?: string;
   systemPrompt?: string;
   tokenUsage?: {
@@ -79,6 +81,13 @@ export interface ModelResponse {
       reasoningPerMillion?: number;
     };
   };
+  /** Set by the server when a provider fallback chain served the call */
+  route?: {
+    requestedModelId: string;
+    servedModelId: string;
+    provider: string;
+    fallbackUsed: boolean;
+  };
 }
 
 export interface ComparisonResult {
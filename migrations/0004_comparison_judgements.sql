@@ -0,0 +1,21 @@
+--
+-- Author: agent
+-- Date: 2026-10-19
+-- PURPOSE: Persist LLM judge verdicts (rubric, per-model scores, rationale, ranking) for comparisons.
+-- SRP/DRY check: Pass - one table keyed to comparisons; no changes to existing tables.
+--
+
+CREATE TABLE "comparison_judgements" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "comparison_id" varchar NOT NULL REFERENCES "comparisons"("id") ON DELETE cascade,
+  "judge_model_id" varchar NOT NULL,
+  "rubric" jsonb NOT NULL,
+  "scores" jsonb NOT NULL,
+  "rankings" jsonb NOT NULL,
+  "summary" text,
+  "excluded_model_ids" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "cost" jsonb,
+  "created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX "comparison_judgements_comparison_id_idx" ON "comparison_judgements" ("comparison_id");
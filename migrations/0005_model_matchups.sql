@@ -0,0 +1,22 @@
+--
+-- Author: agent
+-- Date: 2026-10-19
+-- PURPOSE: Store pairwise model outcomes (human votes, judge verdicts, debate jury, battles) for the leaderboard.
+-- SRP/DRY check: Pass - one append-mostly table; ratings are computed from it on read.
+--
+
+CREATE TABLE "model_matchups" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "model_a_id" varchar NOT NULL,
+  "model_b_id" varchar NOT NULL,
+  "outcome" varchar NOT NULL,
+  "source" varchar NOT NULL,
+  "category" varchar,
+  "reference_id" varchar,
+  "voter_id" varchar,
+  "created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX "model_matchups_category_idx" ON "model_matchups" ("category");
+--> statement-breakpoint
+CREATE INDEX "model_matchups_reference_idx" ON "model_matchups" ("source", "reference_id");
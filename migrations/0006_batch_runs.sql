@@ -0,0 +1,41 @@
+--
+-- Author: agent
+-- Date: 2026-10-19
+-- PURPOSE: Store batch evaluation runs (prompt suite x model list) and one result row per (prompt, model) cell.
+-- SRP/DRY check: Pass - run metadata and cell results only; progress and cost roll-ups are computed from the items.
+--
+
+CREATE TABLE "batch_runs" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "name" text NOT NULL,
+  "status" varchar NOT NULL,
+  "source" jsonb NOT NULL,
+  "model_ids" jsonb NOT NULL,
+  "concurrency" integer NOT NULL,
+  "owner_id" varchar,
+  "credits_used" integer DEFAULT 0 NOT NULL,
+  "status_reason" text,
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now(),
+  "completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "batch_run_items" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "run_id" varchar NOT NULL REFERENCES "batch_runs"("id") ON DELETE cascade,
+  "prompt_index" integer NOT NULL,
+  "prompt_id" varchar NOT NULL,
+  "prompt" text NOT NULL,
+  "model_id" varchar NOT NULL,
+  "status" varchar NOT NULL,
+  "content" text,
+  "reasoning" text,
+  "response_time_ms" integer,
+  "token_usage" jsonb,
+  "cost" jsonb,
+  "error" text,
+  "created_at" timestamp DEFAULT now(),
+  "completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX "batch_run_items_run_id_idx" ON "batch_run_items" ("run_id", "status");
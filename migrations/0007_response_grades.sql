@@ -0,0 +1,24 @@
+--
+-- Author: agent
+-- Date: 2026-10-19
+-- PURPOSE: Store pass/fail grades of comparison responses against a prompt's reference answer.
+-- SRP/DRY check: Pass - one row per graded response; per-model accuracy is aggregated on read.
+--
+
+CREATE TABLE "response_grades" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "comparison_id" varchar NOT NULL REFERENCES "comparisons"("id") ON DELETE cascade,
+  "model_id" varchar NOT NULL,
+  "template_id" varchar,
+  "category" varchar,
+  "reference" jsonb NOT NULL,
+  "grader" varchar NOT NULL,
+  "fallback_from" varchar,
+  "passed" boolean NOT NULL,
+  "extracted_answer" text,
+  "explanation" text,
+  "cost" jsonb,
+  "created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX "response_grades_comparison_id_idx" ON "response_grades" ("comparison_id");
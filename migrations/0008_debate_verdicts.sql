@@ -0,0 +1,8 @@
+--
+-- Author: agent
+-- Date: 2026-10-19
+-- PURPOSE: Store the judge-model verdict (winner, per-turn scores, cited points) on a debate session.
+-- SRP/DRY check: Pass - one nullable jsonb column; debate_sessions itself is created by ensureTablesExist.
+--
+
+ALTER TABLE IF EXISTS "debate_sessions" ADD COLUMN IF NOT EXISTS "verdict" jsonb;
@@ -0,0 +1,13 @@
+--
+-- Author: agent
+-- Date: 2026-10-19
+-- PURPOSE: Let debate sessions seat more than two models: participant seats with positions and teams,
+--          a speaking order, and a previous-response chain per seat.
+-- SRP/DRY check: Pass - nullable columns only; sessions without participants keep the model1/model2 pair.
+--
+
+ALTER TABLE IF EXISTS "debate_sessions" ADD COLUMN IF NOT EXISTS "participants" jsonb;
+--> statement-breakpoint
+ALTER TABLE IF EXISTS "debate_sessions" ADD COLUMN IF NOT EXISTS "speaking_order" jsonb;
+--> statement-breakpoint
+ALTER TABLE IF EXISTS "debate_sessions" ADD COLUMN IF NOT EXISTS "participant_response_ids" jsonb;
@@ -0,0 +1,9 @@
+--
+-- Author: agent
+-- Date: 2026-10-19
+-- PURPOSE: Record which structured debate format (Lincoln-Douglas, Oxford, parliamentary, ...) a debate
+--          session follows, so every turn is planned against the same phases.
+-- SRP/DRY check: Pass - nullable column only; sessions without a format keep the open-ended flow.
+--
+
+ALTER TABLE IF EXISTS "debate_sessions" ADD COLUMN IF NOT EXISTS "format" text;
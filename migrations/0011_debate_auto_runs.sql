@@ -0,0 +1,10 @@
+--
+-- Author: agent
+-- Date: 2026-10-19
+-- PURPOSE: Store the state of server-driven debate runs (status, target turn count, per-seat settings,
+--          credits charged) on the debate session they play, so a run survives the browser closing and
+--          can be resumed after a server restart.
+-- SRP/DRY check: Pass - nullable column only; browser-driven sessions leave it null.
+--
+
+ALTER TABLE IF EXISTS "debate_sessions" ADD COLUMN IF NOT EXISTS "auto_run" jsonb;
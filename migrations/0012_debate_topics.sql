@@ -0,0 +1,19 @@
+--
+-- Author: agent
+-- Date: 2026-10-19
+-- PURPOSE: Persist the debate topic catalog: topics seeded from debate-prompts.md plus topics users submit,
+--          each with tags and a difficulty level.
+-- SRP/DRY check: Pass - topic rows only; sessions keep their own copy of the proposition text.
+--
+
+CREATE TABLE IF NOT EXISTS "debate_topics" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "title" text NOT NULL,
+  "proposition" text NOT NULL,
+  "tags" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "difficulty" varchar NOT NULL,
+  "source" varchar NOT NULL,
+  "owner_id" varchar,
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
@@ -0,0 +1,11 @@
+--
+-- Author: agent
+-- Date: 2026-10-19
+-- PURPOSE: Record where a forked debate session came from: the parent session and the last turn copied
+--          from it. Both are null for debates started from scratch.
+-- SRP/DRY check: Pass - lineage columns only; the copied turns and response chains use the existing columns.
+--
+
+ALTER TABLE IF EXISTS "debate_sessions" ADD COLUMN IF NOT EXISTS "parent_session_id" text;
+--> statement-breakpoint
+ALTER TABLE IF EXISTS "debate_sessions" ADD COLUMN IF NOT EXISTS "forked_at_turn" integer;
@@ -0,0 +1,10 @@
+--
+-- Author: agent
+-- Date: 2026-10-19
+-- PURPOSE: Store the state of server-side Vixra pipelines (status, model and settings, credits charged)
+--          on the paper session they generate, so a paper keeps generating after the browser closes and
+--          can be resumed after a server restart.
+-- SRP/DRY check: Pass - nullable column only; section outputs stay in the existing `responses` column.
+--
+
+ALTER TABLE IF EXISTS "vixra_sessions" ADD COLUMN IF NOT EXISTS "pipeline" jsonb;
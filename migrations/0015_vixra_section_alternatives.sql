@@ -0,0 +1,9 @@
+--
+-- Author: agent
+-- Date: 2026-10-19
+-- PURPOSE: Keep every model's version of Vixra ensemble sections on the paper session, so the picked
+--          winner (stored in `responses` as before) can later be swapped for another version.
+-- SRP/DRY check: Pass - nullable column only; winners and single-model sections stay in `responses`.
+--
+
+ALTER TABLE IF EXISTS "vixra_sessions" ADD COLUMN IF NOT EXISTS "alternatives" jsonb;
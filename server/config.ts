@@ -16,6 +16,8 @@
  * Date: 2025-08-26
  */
 
+import { DEFAULT_JUDGE_RUBRIC, type JudgeCriterion } from '../shared/judge-types.js';
+
 export interface DatabaseConfig {
   url?: string;
   ssl: boolean;
@@ -56,6 +58,8 @@ export interface SecurityConfig {
     windowMs: number;
     max: number;
   };
+  /** Shared secret for operator-only endpoints; admin routes are disabled when unset */
+  adminToken?: string;
 }
 
 export interface CircuitBreakerConfig {
@@ -84,6 +88,173 @@ export interface ArcAgentConfig {
   maxTurns: number;
 }
 
+export interface MockProviderConfig {
+  enabled: boolean;
+  seed: number;
+  latencyMs: number;
+  chunkDelayMs: number;
+  scriptPath?: string;
+}
+
+export type ProviderCassetteMode = 'off' | 'record' | 'replay';
+
+export interface ProviderCassetteConfig {
+  mode: ProviderCassetteMode;
+  dir: string;
+  replaySpeed: number;
+}
+
+export interface ProviderRetryConfig {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Retry-After values above this give up instead of holding the request open */
+  maxRetryAfterMs: number;
+}
+
+export interface RateLimitSpec {
+  /** Requests allowed in flight at once; 0 = unlimited */
+  maxConcurrent: number;
+  /** Token-bucket refill rate (and burst size); 0 = unlimited */
+  requestsPerMinute: number;
+}
+
+export interface ProviderLimitsConfig {
+  providerDefaults: RateLimitSpec;
+  modelDefaults: RateLimitSpec;
+  /** Overrides keyed by provider name (e.g. "OpenAI") */
+  providers: Record<string, Partial<RateLimitSpec>>;
+  /** Overrides keyed by model id */
+  models: Record<string, Partial<RateLimitSpec>>;
+}
+
+function parseLimitOverrides(raw: string | undefined): Pick<ProviderLimitsConfig, 'providers' | 'models'> {
+  if (!raw) {
+    return { providers: {}, models: {} };
+  }
+  try {
+    const parsed = JSON.parse(raw) as { providers?: Record<string, Partial<RateLimitSpec>>; models?: Record<string, Partial<RateLimitSpec>> };
+    return { providers: parsed.providers ?? {}, models: parsed.models ?? {} };
+  } catch {
+    throw new Error('PROVIDER_LIMITS must be a JSON object like {"providers":{"OpenAI":{"maxConcurrent":8}},"models":{}}');
+  }
+}
+
+export interface ProviderFallbackConfig {
+  /** Requested model id -> ordered model ids to try when its provider's circuit breaker is OPEN */
+  chains: Record<string, string[]>;
+}
+
+/** Direct Anthropic models fall back to the same model served through OpenRouter */
+const DEFAULT_FALLBACK_CHAINS: Record<string, string[]> = {
+  'claude-sonnet-4-5': ['openrouter/claude-sonnet-4.5'],
+  'claude-haiku-4-5-20251015': ['openrouter/claude-haiku-4.5'],
+};
+
+function parseFallbackChains(raw: string | undefined): Record<string, string[]> {
+  if (!raw) {
+    return DEFAULT_FALLBACK_CHAINS;
+  }
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.entries(parsed)
+        .filter(([, chain]) => Array.isArray(chain))
+        .map(([modelId, chain]) => [modelId, (chain as unknown[]).filter((id): id is string => typeof id === 'string')])
+    );
+  } catch {
+    throw new Error('PROVIDER_FALLBACK_CHAINS must be a JSON object mapping model ids to arrays of model ids');
+  }
+}
+
+export interface JudgeConfig {
+  /** Model that scores comparison responses; requests may override it per call */
+  modelId: string;
+  rubric: JudgeCriterion[];
+  creditCost: number;
+}
+
+function parseJudgeRubric(raw: string | undefined): JudgeCriterion[] {
+  if (!raw) {
+    return DEFAULT_JUDGE_RUBRIC;
+  }
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!Array.isArray(parsed) || parsed.length === 0) {
+      throw new Error('empty');
+    }
+    return parsed.map((entry: any) => ({
+      id: String(entry.id),
+      label: String(entry.label ?? entry.id),
+      description: String(entry.description ?? ''),
+      weight: Number(entry.weight ?? 1) || 1,
+    }));
+  } catch {
+    throw new Error('COMPARE_JUDGE_RUBRIC must be a non-empty JSON array like [{"id":"accuracy","label":"Accuracy","description":"...","weight":2}]');
+  }
+}
+
+export interface LeaderboardConfig {
+  /** Elo update step per matchup */
+  eloK: number;
+  /** Models with fewer matchups than this are left off the table */
+  minMatches: number;
+}
+
+export interface BatchConfig {
+  /** Upper bound on parallel model calls per batch run */
+  maxConcurrency: number;
+  /** Largest prompts x models matrix a single run may contain */
+  maxCells: number;
+  /** Credits charged per successful cell */
+  creditsPerCall: number;
+}
+
+export interface GradingConfig {
+  /** Model that grades answers when the reference grader is 'llm' or as the fallback */
+  modelId: string;
+  /** Ask the grading model to re-check deterministic misses (answers phrased differently) */
+  llmFallback: boolean;
+  /** Credits charged per grading-model call */
+  creditCost: number;
+}
+
+export interface DebateJudgeConfig {
+  /** Model that adjudicates finished debates; requests may override it per call */
+  modelId: string;
+  /** Credits charged per adjudication */
+  creditCost: number;
+}
+
+export interface DebateFactCheckConfig {
+  /** Model that extracts and rates the factual claims of a debate turn; requests may override it per call */
+  modelId: string;
+  /** Credits charged per turn checked */
+  creditCost: number;
+  /** Most claims kept per turn */
+  maxClaims: number;
+}
+
+export interface DebateRunConfig {
+  /** Credits charged per turn a server-driven debate run plays */
+  creditsPerTurn: number;
+  /** Most turns a single run may play */
+  maxTurns: number;
+}
+
+export interface VixraPipelineConfig {
+  /** Credits charged per section a server-side Vixra pipeline generates */
+  creditsPerSection: number;
+  /** Most sections generated at the same time */
+  maxConcurrency: number;
+  /** Most models in one section's ensemble */
+  maxModelsPerSection: number;
+  /** Model that picks ensemble winners when a run does not name one */
+  judgeModelId: string;
+  /** Credits charged per judge call that picks an ensemble winner */
+  judgeCredits: number;
+}
+
 export interface AppConfig {
   server: ServerConfig;
   database: DatabaseConfig;
@@ -93,6 +264,19 @@ export interface AppConfig {
   circuitBreaker: CircuitBreakerConfig;
   luigi: LuigiConfig;
   arcAgent: ArcAgentConfig;
+  mockProvider: MockProviderConfig;
+  cassette: ProviderCassetteConfig;
+  fallback: ProviderFallbackConfig;
+  retry: ProviderRetryConfig;
+  limits: ProviderLimitsConfig;
+  judge: JudgeConfig;
+  leaderboard: LeaderboardConfig;
+  batch: BatchConfig;
+  grading: GradingConfig;
+  debateJudge: DebateJudgeConfig;
+  debateFactCheck: DebateFactCheckConfig;
+  debateRun: DebateRunConfig;
+  vixraPipeline: VixraPipelineConfig;
 }
 
 /**
@@ -156,7 +340,8 @@ export function loadConfig(): AppConfig {
         enabled: process.env.ENABLE_RATE_LIMITING === 'true', // Disabled by default for hobby project
         windowMs: parseInt(process.env.RATE_LIMIT_WINDOW || '900000', 10), // 15 minutes
         max: parseInt(process.env.RATE_LIMIT_MAX || '100', 10)
-      }
+      },
+      adminToken: process.env.ADMIN_API_TOKEN?.trim() || undefined
     },
 
     circuitBreaker: {
@@ -178,6 +363,82 @@ export function loadConfig(): AppConfig {
     arcAgent: {
       model: process.env.ARC_AGENT_MODEL || 'openai/gpt-5',
       maxTurns: Number.parseInt(process.env.ARC_AGENT_MAX_TURNS || '6', 10) || 6,
+    },
+    mockProvider: {
+      // Offline provider for CI and laptops without vendor keys; always on under NODE_ENV=test.
+      enabled: process.env.MOCK_PROVIDER_ENABLED === 'true' || environment === 'test',
+      seed: Number.parseInt(process.env.MOCK_PROVIDER_SEED || '42', 10) || 42,
+      latencyMs: Number.parseInt(process.env.MOCK_PROVIDER_LATENCY_MS || '0', 10) || 0,
+      chunkDelayMs: Number.parseInt(process.env.MOCK_PROVIDER_CHUNK_DELAY_MS || '0', 10) || 0,
+      scriptPath: process.env.MOCK_PROVIDER_SCRIPT || undefined,
+    },
+    cassette: {
+      mode: (['record', 'replay'].includes(process.env.PROVIDER_CASSETTE_MODE || '')
+        ? process.env.PROVIDER_CASSETTE_MODE
+        : 'off') as ProviderCassetteMode,
+      dir: process.env.PROVIDER_CASSETTE_DIR || './tests/fixtures/cassettes',
+      // 0 replays streamed chunks instantly; 1 reproduces the recorded timings
+      replaySpeed: Math.max(0, Number.parseFloat(process.env.PROVIDER_CASSETTE_REPLAY_SPEED || '0') || 0),
+    },
+    fallback: {
+      // Set PROVIDER_FALLBACK_CHAINS='{}' to disable fallbacks entirely
+      chains: parseFallbackChains(process.env.PROVIDER_FALLBACK_CHAINS),
+    },
+    retry: {
+      maxAttempts: Number.parseInt(process.env.PROVIDER_RETRY_MAX_ATTEMPTS || '3', 10) || 3,
+      baseDelayMs: Number.parseInt(process.env.PROVIDER_RETRY_BASE_DELAY_MS || '500', 10) || 0,
+      maxDelayMs: Number.parseInt(process.env.PROVIDER_RETRY_MAX_DELAY_MS || '8000', 10) || 8000,
+      maxRetryAfterMs: Number.parseInt(process.env.PROVIDER_RETRY_MAX_RETRY_AFTER_MS || '30000', 10) || 30000,
+    },
+    limits: {
+      providerDefaults: {
+        maxConcurrent: Number.parseInt(process.env.PROVIDER_MAX_CONCURRENCY || '8', 10) || 0,
+        requestsPerMinute: Number.parseInt(process.env.PROVIDER_REQUESTS_PER_MINUTE || '120', 10) || 0,
+      },
+      modelDefaults: {
+        maxConcurrent: Number.parseInt(process.env.MODEL_MAX_CONCURRENCY || '4', 10) || 0,
+        requestsPerMinute: Number.parseInt(process.env.MODEL_REQUESTS_PER_MINUTE || '0', 10) || 0,
+      },
+      ...parseLimitOverrides(process.env.PROVIDER_LIMITS),
+    },
+    judge: {
+      modelId: process.env.COMPARE_JUDGE_MODEL || 'gpt-5-mini-2025-08-07',
+      rubric: parseJudgeRubric(process.env.COMPARE_JUDGE_RUBRIC),
+      creditCost: Number.parseInt(process.env.COMPARE_JUDGE_CREDITS || '5', 10) || 0,
+    },
+    leaderboard: {
+      eloK: Number.parseFloat(process.env.LEADERBOARD_ELO_K || '32') || 32,
+      minMatches: Math.max(1, Number.parseInt(process.env.LEADERBOARD_MIN_MATCHES || '1', 10) || 1),
+    },
+    batch: {
+      maxConcurrency: Math.max(1, Number.parseInt(process.env.BATCH_MAX_CONCURRENCY || '4', 10) || 4),
+      maxCells: Math.max(1, Number.parseInt(process.env.BATCH_MAX_CELLS || '500', 10) || 500),
+      creditsPerCall: Math.max(0, Number.parseInt(process.env.BATCH_CREDITS_PER_CALL || '5', 10) || 0),
+    },
+    grading: {
+      modelId: process.env.REFERENCE_GRADER_MODEL || process.env.COMPARE_JUDGE_MODEL || 'gpt-5-mini-2025-08-07',
+      llmFallback: process.env.REFERENCE_GRADER_LLM_FALLBACK !== 'false',
+      creditCost: Math.max(0, Number.parseInt(process.env.REFERENCE_GRADER_CREDITS || '1', 10) || 0),
+    },
+    debateJudge: {
+      modelId: process.env.DEBATE_JUDGE_MODEL || process.env.COMPARE_JUDGE_MODEL || 'gpt-5-mini-2025-08-07',
+      creditCost: Math.max(0, Number.parseInt(process.env.DEBATE_JUDGE_CREDITS || '5', 10) || 0),
+    },
+    debateFactCheck: {
+      modelId: process.env.DEBATE_FACT_CHECK_MODEL || process.env.DEBATE_JUDGE_MODEL || process.env.COMPARE_JUDGE_MODEL || 'gpt-5-mini-2025-08-07',
+      creditCost: Math.max(0, Number.parseInt(process.env.DEBATE_FACT_CHECK_CREDITS || '2', 10) || 0),
+      maxClaims: Math.max(1, Number.parseInt(process.env.DEBATE_FACT_CHECK_MAX_CLAIMS || '8', 10) || 8),
+    },
+    debateRun: {
+      creditsPerTurn: Math.max(0, Number.parseInt(process.env.DEBATE_RUN_CREDITS_PER_TURN || '5', 10) || 0),
+      maxTurns: Math.max(1, Number.parseInt(process.env.DEBATE_RUN_MAX_TURNS || '20', 10) || 20),
+    },
+    vixraPipeline: {
+      creditsPerSection: Math.max(0, Number.parseInt(process.env.VIXRA_PIPELINE_CREDITS_PER_SECTION || '5', 10) || 0),
+      maxConcurrency: Math.max(1, Number.parseInt(process.env.VIXRA_PIPELINE_CONCURRENCY || '3', 10) || 3),
+      maxModelsPerSection: Math.max(1, Number.parseInt(process.env.VIXRA_ENSEMBLE_MAX_MODELS || '4', 10) || 4),
+      judgeModelId: process.env.VIXRA_JUDGE_MODEL || process.env.COMPARE_JUDGE_MODEL || 'gpt-5-mini-2025-08-07',
+      judgeCredits: Math.max(0, Number.parseInt(process.env.VIXRA_JUDGE_CREDITS || '2', 10) || 0),
     }
   };
 }
@@ -211,6 +472,10 @@ export function validateConfig(config: AppConfig): void {
     errors.push(`Invalid recovery timeout: ${config.circuitBreaker.recoveryTimeout}. Must be between 1000ms and 300000ms.`);
   }
 
+  if (config.retry.maxAttempts < 1 || config.retry.maxAttempts > 10) {
+    errors.push(`Invalid provider retry attempts: ${config.retry.maxAttempts}. Must be between 1 and 10.`);
+  }
+
   if (errors.length > 0) {
     throw new Error(`Configuration validation failed:\n${errors.join('\n')}`);
   }
@@ -247,3 +512,55 @@ export function getLuigiConfig(): LuigiConfig {
 export function getArcAgentConfig(): ArcAgentConfig {
   return config.arcAgent;
 }
+
+export function getMockProviderConfig(): MockProviderConfig {
+  return config.mockProvider;
+}
+
+export function getProviderCassetteConfig(): ProviderCassetteConfig {
+  return config.cassette;
+}
+
+export function getProviderFallbackConfig(): ProviderFallbackConfig {
+  return config.fallback;
+}
+
+export function getProviderRetryConfig(): ProviderRetryConfig {
+  return config.retry;
+}
+
+export function getProviderLimitsConfig(): ProviderLimitsConfig {
+  return config.limits;
+}
+
+export function getJudgeConfig(): JudgeConfig {
+  return config.judge;
+}
+
+export function getLeaderboardConfig(): LeaderboardConfig {
+  return config.leaderboard;
+}
+
+export function getBatchConfig(): BatchConfig {
+  return config.batch;
+}
+
+export function getGradingConfig(): GradingConfig {
+  return config.grading;
+}
+
+export function getDebateJudgeConfig(): DebateJudgeConfig {
+  return config.debateJudge;
+}
+
+export function getDebateFactCheckConfig(): DebateFactCheckConfig {
+  return config.debateFactCheck;
+}
+
+export function getDebateRunConfig(): DebateRunConfig {
+  return config.debateRun;
+}
+
+export function getVixraPipelineConfig(): VixraPipelineConfig {
+  return config.vixraPipeline;
+}
@@ -188,17 +188,108 @@ export class DatabaseManager {
         );
       `);
       
+      await this.db.execute(`
+        CREATE TABLE IF NOT EXISTS "comparison_judgements" (
+          "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+          "comparison_id" varchar NOT NULL REFERENCES "comparisons"("id") ON DELETE cascade,
+          "judge_model_id" varchar NOT NULL,
+          "rubric" jsonb NOT NULL,
+          "scores" jsonb NOT NULL,
+          "rankings" jsonb NOT NULL,
+          "summary" text,
+          "excluded_model_ids" jsonb NOT NULL DEFAULT '[]'::jsonb,
+          "cost" jsonb,
+          "created_at" timestamp DEFAULT now()
+        );
+      `);
+
+      await this.db.execute(`
+        CREATE TABLE IF NOT EXISTS "model_matchups" (
+          "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+          "model_a_id" varchar NOT NULL,
+          "model_b_id" varchar NOT NULL,
+          "outcome" varchar NOT NULL,
+          "source" varchar NOT NULL,
+          "category" varchar,
+          "reference_id" varchar,
+          "voter_id" varchar,
+          "created_at" timestamp DEFAULT now()
+        );
+      `);
+
+      await this.db.execute(`
+        CREATE TABLE IF NOT EXISTS "batch_runs" (
+          "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+          "name" text NOT NULL,
+          "status" varchar NOT NULL,
+          "source" jsonb NOT NULL,
+          "model_ids" jsonb NOT NULL,
+          "concurrency" integer NOT NULL,
+          "owner_id" varchar,
+          "credits_used" integer DEFAULT 0 NOT NULL,
+          "status_reason" text,
+          "created_at" timestamp DEFAULT now(),
+          "updated_at" timestamp DEFAULT now(),
+          "completed_at" timestamp
+        );
+      `);
+
+      await this.db.execute(`
+        CREATE TABLE IF NOT EXISTS "batch_run_items" (
+          "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+          "run_id" varchar NOT NULL REFERENCES "batch_runs"("id") ON DELETE cascade,
+          "prompt_index" integer NOT NULL,
+          "prompt_id" varchar NOT NULL,
+          "prompt" text NOT NULL,
+          "model_id" varchar NOT NULL,
+          "status" varchar NOT NULL,
+          "content" text,
+          "reasoning" text,
+          "response_time_ms" integer,
+          "token_usage" jsonb,
+          "cost" jsonb,
+          "error" text,
+          "created_at" timestamp DEFAULT now(),
+          "completed_at" timestamp
+        );
+      `);
+
+      await this.db.execute(`
+        CREATE TABLE IF NOT EXISTS "response_grades" (
+          "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+          "comparison_id" varchar NOT NULL REFERENCES "comparisons"("id") ON DELETE cascade,
+          "model_id" varchar NOT NULL,
+          "template_id" varchar,
+          "category" varchar,
+          "reference" jsonb NOT NULL,
+          "grader" varchar NOT NULL,
+          "fallback_from" varchar,
+          "passed" boolean NOT NULL,
+          "extracted_answer" text,
+          "explanation" text,
+          "cost" jsonb,
+          "created_at" timestamp DEFAULT now()
+        );
+      `);
+
       await this.db.execute(`
         CREATE TABLE IF NOT EXISTS "vixra_sessions" (
           "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
           "variables" jsonb NOT NULL,
           "template" text NOT NULL,
           "responses" jsonb NOT NULL,
+          "pipeline" jsonb,
+          "alternatives" jsonb,
           "created_at" timestamp DEFAULT now(),
           "updated_at" timestamp DEFAULT now()
         );
       `);
 
+      await this.db.execute(`
+        ALTER TABLE "vixra_sessions" ADD COLUMN IF NOT EXISTS "pipeline" jsonb;
+        ALTER TABLE "vixra_sessions" ADD COLUMN IF NOT EXISTS "alternatives" jsonb;
+      `);
+
       await this.db.execute(`
         CREATE TABLE IF NOT EXISTS "debate_sessions" (
           "id" text PRIMARY KEY,
@@ -209,7 +300,40 @@ export class DatabaseManager {
           "turn_history" jsonb NOT NULL DEFAULT '[]'::jsonb,
           "model1_response_ids" jsonb NOT NULL DEFAULT '[]'::jsonb,
           "model2_response_ids" jsonb NOT NULL DEFAULT '[]'::jsonb,
+          "participants" jsonb,
+          "speaking_order" jsonb,
+          "participant_response_ids" jsonb,
+          "format" text,
           "total_cost" numeric DEFAULT '0',
+          "verdict" jsonb,
+          "auto_run" jsonb,
+          "parent_session_id" text,
+          "forked_at_turn" integer,
+          "created_at" timestamp DEFAULT now(),
+          "updated_at" timestamp DEFAULT now()
+        );
+      `);
+
+      await this.db.execute(`
+        ALTER TABLE "debate_sessions" ADD COLUMN IF NOT EXISTS "verdict" jsonb;
+        ALTER TABLE "debate_sessions" ADD COLUMN IF NOT EXISTS "participants" jsonb;
+        ALTER TABLE "debate_sessions" ADD COLUMN IF NOT EXISTS "speaking_order" jsonb;
+        ALTER TABLE "debate_sessions" ADD COLUMN IF NOT EXISTS "participant_response_ids" jsonb;
+        ALTER TABLE "debate_sessions" ADD COLUMN IF NOT EXISTS "format" text;
+        ALTER TABLE "debate_sessions" ADD COLUMN IF NOT EXISTS "auto_run" jsonb;
+        ALTER TABLE "debate_sessions" ADD COLUMN IF NOT EXISTS "parent_session_id" text;
+        ALTER TABLE "debate_sessions" ADD COLUMN IF NOT EXISTS "forked_at_turn" integer;
+      `);
+
+      await this.db.execute(`
+        CREATE TABLE IF NOT EXISTS "debate_topics" (
+          "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+          "title" text NOT NULL,
+          "proposition" text NOT NULL,
+          "tags" jsonb NOT NULL DEFAULT '[]'::jsonb,
+          "difficulty" varchar NOT NULL,
+          "source" varchar NOT NULL,
+          "owner_id" varchar,
           "created_at" timestamp DEFAULT now(),
           "updated_at" timestamp DEFAULT now()
         );
@@ -179,6 +179,14 @@ export async function commitDeviceCredits(req: Request): Promise<void> {
     return;
   }
 
+  await commitCreditReservation(reservationId);
+}
+
+/**
+ * Commit a reservation by id, for work that finishes after the request that reserved it
+ * (e.g. a streamed comparison opened by a later GET)
+ */
+export async function commitCreditReservation(reservationId: string): Promise<void> {
   try {
     const storage = await getStorage();
     await storage.commitReservation(reservationId);
@@ -203,6 +211,13 @@ export async function refundDeviceCredits(req: Request): Promise<void> {
     return;
   }
 
+  await refundCreditReservation(reservationId);
+}
+
+/**
+ * Refund a reservation by id, for work that ends after the request that reserved it
+ */
+export async function refundCreditReservation(reservationId: string): Promise<void> {
   try {
     const storage = await getStorage();
     await storage.refundReservation(reservationId);
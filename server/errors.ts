@@ -6,8 +6,14 @@
  * 
  * Author: Claude Code
  * Date: 2025-08-26
+ * PURPOSE: sendRouteError gives route handlers one catch-all mapping of request validation, domain
+ *          and unexpected errors onto API responses.
  */
 
+import type { Response } from "express";
+import { ZodError } from "zod";
+import { ApiResponse } from "./utils/response.js";
+
 export abstract class ModelCompareError extends Error {
   abstract readonly code: string;
   abstract readonly statusCode: number;
@@ -87,6 +93,60 @@ export class DatabaseError extends ModelCompareError {
   }
 }
 
+export class JudgeError extends ModelCompareError {
+  readonly code = 'JUDGE_ERROR';
+  readonly statusCode = 502;
+
+  constructor(message: string, context: Record<string, any> = {}) {
+    super(message, context);
+  }
+}
+
+export class GraderError extends ModelCompareError {
+  readonly code = 'GRADER_ERROR';
+  readonly statusCode = 502;
+
+  constructor(message: string, context: Record<string, any> = {}) {
+    super(message, context);
+  }
+}
+
+export class BatchRunStateError extends ModelCompareError {
+  readonly code = 'BATCH_RUN_STATE';
+  readonly statusCode = 409;
+
+  constructor(message: string, context: Record<string, any> = {}) {
+    super(message, context);
+  }
+}
+
+export class DebateRunStateError extends ModelCompareError {
+  readonly code = 'DEBATE_RUN_STATE';
+  readonly statusCode = 409;
+
+  constructor(message: string, context: Record<string, any> = {}) {
+    super(message, context);
+  }
+}
+
+export class VixraPipelineStateError extends ModelCompareError {
+  readonly code = 'VIXRA_PIPELINE_STATE';
+  readonly statusCode = 409;
+
+  constructor(message: string, context: Record<string, any> = {}) {
+    super(message, context);
+  }
+}
+
+export class DebateTopicConflictError extends ModelCompareError {
+  readonly code = 'DEBATE_TOPIC_CONFLICT';
+  readonly statusCode = 409;
+
+  constructor(message: string, context: Record<string, any> = {}) {
+    super(message, context);
+  }
+}
+
 /**
  * Error response middleware for consistent API error formatting
  */
@@ -111,4 +171,19 @@ export function formatErrorResponse(error: Error): {
     message: error.message || 'An unexpected error occurred',
     statusCode: 500
   };
+}
+
+/**
+ * Route catch-all: 400 for request validation, the error's own status for domain errors,
+ * otherwise logs the error and sends 500 with `fallback` as the message
+ */
+export function sendRouteError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof ZodError) {
+    return ApiResponse.error(res, "Invalid request data", 400, error.errors);
+  }
+  if (error instanceof ModelCompareError) {
+    return ApiResponse.error(res, error.message, error.statusCode, { code: error.code, ...error.context });
+  }
+  console.error(`${fallback}:`, error);
+  return ApiResponse.error(res, fallback, 500, error instanceof Error ? error.message : 'Unknown error');
 }
\ No newline at end of file
@@ -38,6 +38,7 @@ import { config, isDevelopment, isProduction, getSecurityConfig, getServerConfig
 import { configurePassport, configureSession } from "./auth.js";
 import { validateStripeConfig } from "./stripe.js";
 import { getStorage } from "./storage.js";
+import { debateOrchestrator } from "./services/debate-orchestrator.service.js";
 
 const app = express();
 
@@ -193,6 +194,18 @@ app.use((req, res, next) => {
     }
   })();
 
+  // Debate runs this process is not playing were cut off by the last shutdown; mark them failed so they can be resumed
+  (async () => {
+    try {
+      const orphaned = await debateOrchestrator.recoverOrphanedRuns();
+      if (orphaned > 0) {
+        contextLog(`⚠️ Marked ${orphaned} debate run(s) interrupted by the restart as failed`);
+      }
+    } catch (error) {
+      contextError('Failed to recover orphaned debate runs:', error);
+    }
+  })();
+
   // Graceful shutdown handling
   const gracefulShutdown = async (signal: string) => {
     contextLog(`📨 Received ${signal}, starting graceful shutdown...`);
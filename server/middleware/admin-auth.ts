@@ -0,0 +1,43 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Guards operator-only endpoints (e.g. circuit breaker overrides under /health) with the
+ *          shared ADMIN_API_TOKEN, accepted as an `x-admin-token` header or a Bearer token. When no
+ *          token is configured the endpoints are disabled rather than left open.
+ * SRP/DRY check: Pass - Only admin token checking; device and OAuth auth stay in their own modules.
+ */
+import { timingSafeEqual } from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { getSecurityConfig } from "../config.js";
+
+function readAdminToken(req: Request): string | undefined {
+  const header = req.headers["x-admin-token"];
+  if (typeof header === "string" && header.length > 0) {
+    return header;
+  }
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim();
+  }
+  return undefined;
+}
+
+function tokensMatch(provided: string, expected: string): boolean {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export const requireAdminToken = (req: Request, res: Response, next: NextFunction) => {
+  const expected = getSecurityConfig().adminToken;
+  if (!expected) {
+    return res.status(403).json({ error: 'Admin endpoints disabled', message: 'Set ADMIN_API_TOKEN to enable operator actions.' });
+  }
+
+  const provided = readAdminToken(req);
+  if (!provided || !tokensMatch(provided, expected)) {
+    return res.status(401).json({ error: 'Unauthorized', message: 'A valid admin token is required.' });
+  }
+
+  next();
+};
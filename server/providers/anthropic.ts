@@ -13,6 +13,8 @@ import { BaseProvider, ModelConfig, ModelResponse, ModelMessage, CallOptions } f
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY,
+  // Retries are handled by the shared provider retry policy (server/providers/retry-policy.ts)
+  maxRetries: 0,
 });
 
 export class AnthropicProvider extends BaseProvider {
@@ -61,6 +61,22 @@ export interface ModelResponse {
       reasoningPerMillion?: number;
     };
   };
+  route?: ModelRoute;
+  /** Provider response id, set by providers that chain conversations with previousResponseId */
+  responseId?: string;
+}
+
+/**
+ * Records which route actually served a call once provider fallback chains are involved.
+ * Cost and modelConfig on the response always describe the served model, not the requested one.
+ */
+export interface ModelRoute {
+  requestedModelId: string;
+  servedModelId: string;
+  provider: string;
+  fallbackUsed: boolean;
+  /** Hops abandoned because their provider's circuit breaker was OPEN */
+  skipped: Array<{ modelId: string; provider: string; reason: string }>;
 }
 
 /**
@@ -105,6 +121,8 @@ export interface CallOptions {
   };
   /** Optional stored prompt reference with variable payload */
   prompt?: PromptReference;
+  /** Progress phases raised by the registry (queued, dequeued, retrying); providers ignore it */
+  onStatus?: (phase: string, data?: Record<string, unknown>) => void;
 }
 
 export interface StreamingCompleteExtras {
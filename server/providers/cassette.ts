@@ -0,0 +1,319 @@
+/**
+ * Provider Cassettes
+ *
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Record-and-replay layer for provider traffic. In record mode every provider call,
+ *          streamed turn, and Responses API fetch is saved to disk as a JSON cassette; in replay
+ *          mode the same request (hashed from model, messages, and options) is served from disk
+ *          without touching the network. Streamed cassettes keep per-chunk offsets so replays can
+ *          reproduce timing. Lets debate routes, Luigi/ARC executors, and Vixra generation be
+ *          regression-tested against real transcripts offline.
+ * SRP/DRY check: Pass - Only persists and replays provider I/O; providers and routes stay unaware
+ *                beyond the registry and Responses client hooks.
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import type { BaseProvider, StreamingCallOptions, StreamingCompleteExtras } from './base.js';
+import { ProviderError } from '../errors.js';
+import { getProviderCassetteConfig, type ProviderCassetteConfig } from '../config.js';
+
+type CassetteKind = 'call' | 'stream' | 'fetch';
+
+type StreamEvent =
+  | { type: 'status'; offsetMs: number; phase: string; data?: Record<string, unknown> }
+  | { type: 'reasoning' | 'content'; offsetMs: number; chunk: string }
+  | { type: 'json'; offsetMs: number; chunk: unknown };
+
+interface RecordedError {
+  message: string;
+  name?: string;
+  status?: number;
+}
+
+interface CassetteFile {
+  key: string;
+  kind: CassetteKind;
+  recordedAt: string;
+  request: unknown;
+  response?: unknown;
+  error?: RecordedError;
+  events?: StreamEvent[];
+  complete?: {
+    offsetMs: number;
+    responseId: string;
+    tokenUsage: unknown;
+    cost: unknown;
+    extras?: StreamingCompleteExtras;
+  };
+}
+
+/** JSON.stringify with sorted keys and functions dropped, so equivalent requests hash identically */
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item)).join(',')}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => typeof v !== 'function' && v !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+}
+
+function stripCallbacks(options: StreamingCallOptions): Record<string, unknown> {
+  return JSON.parse(stableStringify(options));
+}
+
+function serializeError(error: unknown): RecordedError {
+  if (error instanceof Error) {
+    const status = (error as { status?: number; statusCode?: number }).status
+      ?? (error as { statusCode?: number }).statusCode;
+    return { message: error.message, name: error.name, status };
+  }
+  return { message: String(error) };
+}
+
+function hydrateError(recorded: RecordedError): Error {
+  const error = new Error(recorded.message);
+  if (recorded.name) {
+    error.name = recorded.name;
+  }
+  if (recorded.status !== undefined) {
+    (error as Error & { status?: number }).status = recorded.status;
+  }
+  return error;
+}
+
+function sleep(ms: number): Promise<void> {
+  return ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve();
+}
+
+export class ProviderCassette {
+  private readonly config: ProviderCassetteConfig;
+
+  constructor(config: ProviderCassetteConfig) {
+    this.config = config;
+  }
+
+  get mode(): ProviderCassetteConfig['mode'] {
+    return this.config.mode;
+  }
+
+  get isActive(): boolean {
+    return this.config.mode !== 'off';
+  }
+
+  keyFor(kind: CassetteKind, request: unknown): string {
+    return createHash('sha256').update(`${kind}|${stableStringify(request)}`).digest('hex');
+  }
+
+  /**
+   * Wrap a non-streaming provider call. Recorded failures are replayed as thrown errors so
+   * circuit-breaker and error-path tests see the same behaviour as the original run.
+   */
+  async wrapCall<T>(request: { modelId: string } & Record<string, unknown>, operation: () => Promise<T>): Promise<T> {
+    if (!this.isActive) {
+      return operation();
+    }
+
+    const key = this.keyFor('call', request);
+    if (this.config.mode === 'replay') {
+      const cassette = this.read(key, 'call', request.modelId);
+      if (cassette.error) {
+        throw hydrateError(cassette.error);
+      }
+      return cassette.response as T;
+    }
+
+    try {
+      const response = await operation();
+      this.write({ key, kind: 'call', recordedAt: new Date().toISOString(), request, response });
+      return response;
+    } catch (error) {
+      this.write({ key, kind: 'call', recordedAt: new Date().toISOString(), request, error: serializeError(error) });
+      throw error;
+    }
+  }
+
+  /** Record or replay a streamed provider turn, preserving status phases and chunk offsets */
+  async wrapStreaming(provider: BaseProvider, options: StreamingCallOptions): Promise<void> {
+    if (!provider.callModelStreaming) {
+      throw new ProviderError(`Streaming not supported for provider ${provider.name}`, { provider: provider.name });
+    }
+    if (!this.isActive) {
+      return provider.callModelStreaming(options);
+    }
+
+    const request = { provider: provider.name, ...stripCallbacks(options) };
+    const key = this.keyFor('stream', request);
+
+    if (this.config.mode === 'replay') {
+      let cassette: CassetteFile;
+      try {
+        cassette = this.read(key, 'stream', options.modelId);
+      } catch (error) {
+        options.onError(error as Error);
+        return;
+      }
+      await this.replayStream(cassette, options);
+      return;
+    }
+
+    const startedAt = Date.now();
+    const events: StreamEvent[] = [];
+    const elapsed = () => Date.now() - startedAt;
+    const persist = (extra: Partial<CassetteFile>) => {
+      this.write({ key, kind: 'stream', recordedAt: new Date().toISOString(), request, events, ...extra });
+    };
+
+    await provider.callModelStreaming({
+      ...options,
+      onStatus: (phase, data) => {
+        events.push({ type: 'status', offsetMs: elapsed(), phase, data });
+        options.onStatus?.(phase, data);
+      },
+      onReasoningChunk: chunk => {
+        events.push({ type: 'reasoning', offsetMs: elapsed(), chunk });
+        options.onReasoningChunk(chunk);
+      },
+      onContentChunk: chunk => {
+        events.push({ type: 'content', offsetMs: elapsed(), chunk });
+        options.onContentChunk(chunk);
+      },
+      onJsonChunk: chunk => {
+        events.push({ type: 'json', offsetMs: elapsed(), chunk });
+        options.onJsonChunk?.(chunk);
+      },
+      onComplete: (responseId, tokenUsage, cost, extras) => {
+        persist({ complete: { offsetMs: elapsed(), responseId, tokenUsage, cost, extras } });
+        return options.onComplete(responseId, tokenUsage, cost, extras);
+      },
+      onError: error => {
+        persist({ error: serializeError(error) });
+        options.onError(error);
+      },
+    });
+  }
+
+  /** Wrap a fetch implementation (used by the Responses API client for Luigi/ARC agents) */
+  wrapFetch(fetchFn: typeof fetch): typeof fetch {
+    if (!this.isActive) {
+      return fetchFn;
+    }
+
+    return (async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+      const body = typeof init?.body === 'string' ? safeJson(init.body) : null;
+      const request = { url, method: init?.method ?? 'GET', body };
+      const modelId = typeof (body as { model?: unknown } | null)?.model === 'string'
+        ? (body as { model: string }).model
+        : url;
+      const key = this.keyFor('fetch', request);
+
+      if (this.config.mode === 'replay') {
+        const cassette = this.read(key, 'fetch', modelId);
+        const recorded = cassette.response as { status: number; body: string };
+        return new Response(recorded.body, {
+          status: recorded.status,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      const response = await fetchFn(input, init);
+      const text = await response.clone().text();
+      this.write({
+        key,
+        kind: 'fetch',
+        recordedAt: new Date().toISOString(),
+        request,
+        response: { status: response.status, body: text },
+      });
+      return response;
+    }) as typeof fetch;
+  }
+
+  private async replayStream(cassette: CassetteFile, options: StreamingCallOptions): Promise<void> {
+    let cursor = 0;
+    const waitUntil = async (offsetMs: number) => {
+      await sleep((offsetMs - cursor) * this.config.replaySpeed);
+      cursor = Math.max(cursor, offsetMs);
+    };
+
+    for (const event of cassette.events ?? []) {
+      await waitUntil(event.offsetMs);
+      switch (event.type) {
+        case 'status':
+          options.onStatus?.(event.phase, { ...(event.data ?? {}), replayed: true });
+          break;
+        case 'reasoning':
+          options.onReasoningChunk(event.chunk);
+          break;
+        case 'content':
+          options.onContentChunk(event.chunk);
+          break;
+        case 'json':
+          options.onJsonChunk?.(event.chunk);
+          break;
+      }
+    }
+
+    if (cassette.complete) {
+      await waitUntil(cassette.complete.offsetMs);
+      const { responseId, tokenUsage, cost, extras } = cassette.complete;
+      await options.onComplete(responseId, tokenUsage, cost, extras);
+      return;
+    }
+
+    options.onError(hydrateError(cassette.error ?? { message: 'Cassette ended without completion' }));
+  }
+
+  private filePath(kind: CassetteKind, key: string): string {
+    return path.resolve(this.config.dir, `${kind}-${key.slice(0, 32)}.json`);
+  }
+
+  private read(key: string, kind: CassetteKind, modelId: string): CassetteFile {
+    const file = this.filePath(kind, key);
+    if (!existsSync(file)) {
+      throw new ProviderError(`No recorded cassette for ${kind} request to ${modelId}`, {
+        modelId,
+        cassetteKey: key,
+        cassetteDir: this.config.dir,
+      });
+    }
+    return JSON.parse(readFileSync(file, 'utf-8')) as CassetteFile;
+  }
+
+  private write(cassette: CassetteFile): void {
+    try {
+      mkdirSync(this.config.dir, { recursive: true });
+      writeFileSync(this.filePath(cassette.kind, cassette.key), JSON.stringify(cassette, null, 2));
+    } catch (error) {
+      console.warn(`Failed to write provider cassette ${cassette.key}:`, error);
+    }
+  }
+}
+
+function safeJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+let cachedCassette: ProviderCassette | null = null;
+
+export function getProviderCassette(): ProviderCassette {
+  if (!cachedCassette) {
+    cachedCassette = new ProviderCassette(getProviderCassetteConfig());
+  }
+  return cachedCassette;
+}
+
+export function setProviderCassette(cassette: ProviderCassette | null): void {
+  cachedCassette = cassette;
+}
@@ -1,9 +1,12 @@
 /**
  * Circuit Breaker Pattern for Provider Resilience
- * 
+ *
  * Prevents cascade failures when external AI providers are down or slow.
  * Implements a simple circuit breaker with configurable failure thresholds.
- * 
+ * Also keeps a rolling window (monitoringPeriod) of call outcomes so the health routes can
+ * report failure rate, latency percentiles and the last error class per provider, and can be
+ * reset or forced open by an operator.
+ *
  * Author: Claude Code
  * Date: 2025-08-26
  */
@@ -14,10 +17,58 @@ export interface CircuitBreakerConfig {
   monitoringPeriod: number;
 }
 
+export type CircuitBreakerState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+interface CallSample {
+  at: number;
+  latencyMs: number;
+  success: boolean;
+}
+
+export interface CircuitBreakerLastError {
+  errorClass: string;
+  message: string;
+  status?: number;
+  at: string;
+}
+
+export interface CircuitBreakerMetrics {
+  state: CircuitBreakerState;
+  forcedOpen: boolean;
+  failureCount: number;
+  lastFailureAt: string | null;
+  /** When an OPEN breaker will next let a trial call through (null while forced open) */
+  retryAt: string | null;
+  windowMs: number;
+  recentCalls: number;
+  recentFailures: number;
+  /** Calls refused while OPEN within the window */
+  recentRejections: number;
+  failureRate: number | null;
+  latencyP50Ms: number | null;
+  latencyP95Ms: number | null;
+  lastError: CircuitBreakerLastError | null;
+}
+
+// Bound memory on very busy providers; percentiles over the newest samples are good enough
+const MAX_SAMPLES = 1000;
+
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) {
+    return null;
+  }
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
+
 export class CircuitBreaker {
   private failures = 0;
-  private state: 'CLOSED' | 'OPEN' | 'HALF_OPEN' = 'CLOSED';
+  private state: CircuitBreakerState = 'CLOSED';
   private lastFailureTime = 0;
+  private forcedOpen = false;
+  private samples: CallSample[] = [];
+  private rejections: number[] = [];
+  private lastError: CircuitBreakerLastError | null = null;
   private config: CircuitBreakerConfig;
 
   constructor(config: Partial<CircuitBreakerConfig> = {}) {
@@ -31,18 +82,23 @@ export class CircuitBreaker {
 
   async execute<T>(operation: () => Promise<T>): Promise<T> {
     if (this.state === 'OPEN') {
-      if (Date.now() - this.lastFailureTime > this.config.recoveryTimeout) {
+      if (!this.forcedOpen && Date.now() - this.lastFailureTime > this.config.recoveryTimeout) {
         this.state = 'HALF_OPEN';
       } else {
+        this.rejections.push(Date.now());
         throw new Error('Circuit breaker is OPEN - service temporarily unavailable');
       }
     }
 
+    const startedAt = Date.now();
     try {
       const result = await operation();
+      this.recordSample(startedAt, true);
       this.onSuccess();
       return result;
     } catch (error) {
+      this.recordSample(startedAt, false);
+      this.recordError(error);
       this.onFailure();
       throw error;
     }
@@ -62,6 +118,24 @@ export class CircuitBreaker {
     }
   }
 
+  private recordSample(startedAt: number, success: boolean): void {
+    const at = Date.now();
+    this.samples.push({ at, latencyMs: at - startedAt, success });
+    if (this.samples.length > MAX_SAMPLES) {
+      this.samples.splice(0, this.samples.length - MAX_SAMPLES);
+    }
+  }
+
+  private recordError(error: unknown): void {
+    const status = (error as { status?: unknown } | null)?.status;
+    this.lastError = {
+      errorClass: error instanceof Error ? (error.constructor?.name || error.name) : typeof error,
+      message: error instanceof Error ? error.message : String(error),
+      status: typeof status === 'number' ? status : undefined,
+      at: new Date().toISOString(),
+    };
+  }
+
   getState(): string {
     return this.state;
   }
@@ -70,9 +144,45 @@ export class CircuitBreaker {
     return this.failures;
   }
 
+  getMetrics(): CircuitBreakerMetrics {
+    const now = Date.now();
+    const windowStart = now - this.config.monitoringPeriod;
+    this.samples = this.samples.filter(sample => sample.at >= windowStart);
+    this.rejections = this.rejections.filter(at => at >= windowStart);
+
+    const recentFailures = this.samples.filter(sample => !sample.success).length;
+    const latencies = this.samples.map(sample => sample.latencyMs).sort((a, b) => a - b);
+
+    return {
+      state: this.state,
+      forcedOpen: this.forcedOpen,
+      failureCount: this.failures,
+      lastFailureAt: this.lastFailureTime ? new Date(this.lastFailureTime).toISOString() : null,
+      retryAt: this.state === 'OPEN' && !this.forcedOpen
+        ? new Date(this.lastFailureTime + this.config.recoveryTimeout).toISOString()
+        : null,
+      windowMs: this.config.monitoringPeriod,
+      recentCalls: this.samples.length,
+      recentFailures,
+      recentRejections: this.rejections.length,
+      failureRate: this.samples.length > 0 ? recentFailures / this.samples.length : null,
+      latencyP50Ms: percentile(latencies, 50),
+      latencyP95Ms: percentile(latencies, 95),
+      lastError: this.lastError,
+    };
+  }
+
+  /** Hold the breaker OPEN until reset(), e.g. while a vendor incident is being triaged */
+  forceOpen(): void {
+    this.forcedOpen = true;
+    this.state = 'OPEN';
+    this.lastFailureTime = Date.now();
+  }
+
   reset(): void {
     this.failures = 0;
     this.state = 'CLOSED';
     this.lastFailureTime = 0;
+    this.forcedOpen = false;
   }
-}
\ No newline at end of file
+}
@@ -12,6 +12,8 @@ import { BaseProvider, ModelConfig, ModelResponse, ModelMessage, CallOptions } f
 
 const deepseek = new OpenAI({
   apiKey: process.env.DEEPSEEK_API_KEY,
+  // Retries are handled by the shared provider retry policy (server/providers/retry-policy.ts)
+  maxRetries: 0,
   baseURL: 'https://api.deepseek.com',
 });
 
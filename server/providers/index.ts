@@ -1,20 +1,24 @@
 /**
  * Author: Cascade (GPT-4o)
  * Date: 2025-10-25 at 17:20 EDT
- * PURPOSE: Maintain the centralized AI provider registry, wiring shared circuit breakers and resolving providers for each model without duplicating instances. Updates ensure DeepSeek and OpenRouter models resolve correctly after Responses API migration.
+ * PURPOSE: Maintain the centralized AI provider registry, wiring shared circuit breakers (with configurable fallback chains when a breaker is OPEN; streamed calls pass through the same breakers and walk the same chains) the shared retry policy, and per-provider/per-model rate limiting and resolving providers for each model without duplicating instances. Updates ensure DeepSeek and OpenRouter models resolve correctly after Responses API migration.
  * SRP/DRY check: Pass - Registry concerns remain isolated, leveraging shared provider singletons without duplicating construction logic.
  */
 
-import { BaseProvider, type ModelConfig, type ModelResponse, type ModelMessage, type CallOptions } from './base.js';
+import { BaseProvider, type ModelConfig, type ModelResponse, type ModelMessage, type CallOptions, type StreamingCallOptions, type ModelRoute } from './base.js';
 import { OpenAIProvider } from './openai.js';
 import { AnthropicProvider } from './anthropic.js';
 import { GoogleProvider } from './google.js';
 import { DeepSeekProvider } from './deepseek.js';
 
 import { OpenRouterProvider } from './openrouter.js';
-import { CircuitBreaker } from './circuit-breaker.js';
+import { MockProvider } from './mock.js';
+import { CircuitBreaker, type CircuitBreakerMetrics } from './circuit-breaker.js';
+import { getProviderCassette } from './cassette.js';
+import { getProviderRetryPolicy } from './retry-policy.js';
+import { getProviderRateLimiter, type QueueHooks, type RateLimitKey } from './rate-limiter.js';
 import { ModelNotFoundError, ProviderError, CircuitBreakerError } from '../errors.js';
-import { getCircuitBreakerConfig } from '../config.js';
+import { getCircuitBreakerConfig, getMockProviderConfig, getProviderFallbackConfig } from '../config.js';
 
 // Initialize all providers with circuit breakers
 // Note: xAI provider deprecated - Grok models now available via OpenRouter
@@ -26,6 +30,11 @@ const providers: BaseProvider[] = [
   new OpenRouterProvider(),
 ];
 
+// Offline mock provider for CI and key-less local runs (MOCK_PROVIDER_ENABLED=true or NODE_ENV=test)
+if (getMockProviderConfig().enabled) {
+  providers.push(new MockProvider());
+}
+
 // Circuit breaker per provider for resilience
 const circuitBreakers = new Map<string, CircuitBreaker>();
 const circuitBreakerConfig = getCircuitBreakerConfig();
@@ -58,9 +67,50 @@ export function getProviderForModel(modelId: string): BaseProvider {
     throw new ModelNotFoundError(modelId);
   }
 
+  // Streamed calls get the provider's circuit breaker and fallback chain, the shared retry policy and rate
+  // limiter, and go through the record/replay cassette layer when PROVIDER_CASSETTE_MODE is set
+  if (provider.callModelStreaming) {
+    return new Proxy(provider, {
+      get(target, prop, receiver) {
+        if (prop === 'callModelStreaming') {
+          return (options: StreamingCallOptions) => streamWithFallback(target, options);
+        }
+        return Reflect.get(target, prop, receiver);
+      }
+    });
+  }
+
   return provider;
 }
 
+/** Breaker state plus rolling failure/latency metrics for every registered provider */
+export function getCircuitBreakerMetrics(): Record<string, CircuitBreakerMetrics> {
+  const metrics: Record<string, CircuitBreakerMetrics> = {};
+  for (const [providerName, breaker] of Array.from(circuitBreakers.entries())) {
+    metrics[providerName] = breaker.getMetrics();
+  }
+  return metrics;
+}
+
+/**
+ * Operator override for a provider's breaker. Returns null when the provider is unknown.
+ * Matching is case-insensitive so `/openai/reset` works as well as `/OpenAI/reset`.
+ */
+export function setCircuitBreakerOverride(providerName: string, action: 'reset' | 'force-open'): CircuitBreakerMetrics | null {
+  const entry = Array.from(circuitBreakers.entries())
+    .find(([name]) => name.toLowerCase() === providerName.toLowerCase());
+  if (!entry) {
+    return null;
+  }
+  const [, breaker] = entry;
+  if (action === 'reset') {
+    breaker.reset();
+  } else {
+    breaker.forceOpen();
+  }
+  return breaker.getMetrics();
+}
+
 export function getModelsByCapability(capability: keyof ModelConfig['capabilities']): ModelConfig[] {
   return providers.flatMap(provider => provider.getModelsByCapability(capability));
 }
@@ -76,7 +126,7 @@ export function getReasoningModels(): ModelConfig[] {
  * @param modelId Model identifier
  * @returns Promise resolving to model response with config
  */
-export async function callModel(prompt: string, modelId: string, options?: CallOptions): Promise<ModelResponse & { modelConfig: ModelConfig }> {
+export async function callModel(prompt: string, modelId: string, options?: CallOptions): Promise<ModelResponse & { modelConfig: ModelConfig; route: ModelRoute }> {
   const messages: ModelMessage[] = [{ role: 'user', content: prompt }];
   return callModelWithMessages(messages, modelId, options);
 }
@@ -84,12 +134,62 @@ export async function callModel(prompt: string, modelId: string, options?: CallO
 /**
  * New structured message function for advanced prompt engineering
  * Supports proper system/user/context role separation
+ * When the model's provider circuit breaker is OPEN, the configured fallback chain
+ * (PROVIDER_FALLBACK_CHAINS) is tried in order; `route` on the response records which
+ * model actually answered, and cost/modelConfig describe that model.
  * @param messages Array of structured messages with roles
  * @param modelId Model identifier  
  * @param options Optional generation parameters
  * @returns Promise resolving to model response with config
  */
-export async function callModelWithMessages(messages: ModelMessage[], modelId: string, options?: CallOptions): Promise<ModelResponse & { modelConfig: ModelConfig }> {
+export async function callModelWithMessages(messages: ModelMessage[], modelId: string, options?: CallOptions): Promise<ModelResponse & { modelConfig: ModelConfig; route: ModelRoute }> {
+  const chain = [modelId, ...getFallbackChain(modelId)];
+  const skipped: ModelRoute['skipped'] = [];
+
+  for (let index = 0; index < chain.length; index++) {
+    const candidateId = chain[index];
+    const isLast = index === chain.length - 1;
+    try {
+      const { response, modelConfig, provider } = await callOnProvider(messages, candidateId, options);
+      const route: ModelRoute = {
+        requestedModelId: modelId,
+        servedModelId: candidateId,
+        provider,
+        fallbackUsed: candidateId !== modelId,
+        skipped,
+      };
+      if (route.fallbackUsed) {
+        console.warn(`Provider fallback: ${modelId} served by ${candidateId} (${provider})`);
+      }
+      return { ...response, modelConfig, route };
+    } catch (error) {
+      // Only an OPEN breaker moves down the chain; ordinary provider errors surface as before
+      if (!(error instanceof CircuitBreakerError) || isLast) {
+        throw error;
+      }
+      skipped.push({
+        modelId: candidateId,
+        provider: error.context.providerName,
+        reason: error.message,
+      });
+    }
+  }
+
+  // Unreachable: the loop either returns or rethrows on the last hop
+  throw new ModelNotFoundError(modelId);
+}
+
+/** Configured fallback model ids for a model, ignoring entries that are not registered */
+export function getFallbackChain(modelId: string): string[] {
+  const chain = getProviderFallbackConfig().chains[modelId] ?? [];
+  return chain.filter(candidateId => candidateId !== modelId && getModelById(candidateId) !== undefined);
+}
+
+async function callOnProvider(
+  messages: ModelMessage[],
+  modelId: string,
+  options?: CallOptions
+): Promise<{ response: ModelResponse; modelConfig: ModelConfig; provider: string }> {
   const provider = getProviderForModel(modelId);
   const modelConfig = getModelById(modelId);
   
@@ -106,10 +206,30 @@ export async function callModelWithMessages(messages: ModelMessage[], modelId: s
   }
   
   try {
+    // Retries happen inside the breaker so only an exhausted call counts as a failure; each
+    // attempt waits its turn in the provider/model rate limiter
+    const key = { provider: provider.name, modelId };
     const response = await circuitBreaker.execute(async () => {
-      return await provider.callModel(messages, modelConfig.model, options);
+      return await getProviderRetryPolicy().execute(
+        () => getProviderRateLimiter().run(
+          key,
+          () => getProviderCassette().wrapCall(
+            { modelId, messages, options },
+            () => provider.callModel(messages, modelConfig.model, options)
+          ),
+          queueStatusHooks(key, options?.onStatus)
+        ),
+        {
+          onRetry: info => {
+            console.warn(
+              `Retrying ${provider.name} ${modelId} (attempt ${info.attempt + 1}/${info.maxAttempts}) in ${info.delayMs}ms: ${info.reason}`
+            );
+            options?.onStatus?.('retrying', { ...info });
+          }
+        }
+      );
     });
-    return { ...response, modelConfig };
+    return { response, modelConfig, provider: provider.name };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
     
@@ -130,5 +250,110 @@ export async function callModelWithMessages(messages: ModelMessage[], modelId: s
   }
 }
 
-export { BaseProvider, ModelConfig, ModelResponse };
-export { OpenAIProvider, AnthropicProvider, GoogleProvider, DeepSeekProvider, OpenRouterProvider };
\ No newline at end of file
+/**
+ * The streaming counterpart of callModelWithMessages: while a candidate's breaker is OPEN the stream moves
+ * down the fallback chain, announced by a `fallback` status, before any chunk is sent. Candidates that
+ * cannot stream are left out. A stream continuing a previousResponseId conversation stays on its model,
+ * since that conversation only exists at the requested provider.
+ */
+async function streamWithFallback(provider: BaseProvider, options: StreamingCallOptions): Promise<void> {
+  const fallbacks = options.previousResponseId ? [] : getFallbackChain(options.modelId)
+    .map(candidateId => ({ candidateId, candidate: providers.find(p => p.getModel(candidateId)) }))
+    .filter(({ candidate }) => candidate?.callModelStreaming);
+  const chain = [{ candidateId: options.modelId, candidate: provider }, ...fallbacks] as Array<{
+    candidateId: string;
+    candidate: BaseProvider;
+  }>;
+
+  for (let index = 0; index < chain.length; index++) {
+    const { candidateId, candidate } = chain[index];
+    const isLast = index === chain.length - 1;
+    let refused: CircuitBreakerError | null = null;
+    await streamOnProvider(candidate, {
+      ...options,
+      modelId: candidateId,
+      // Only an OPEN breaker moves down the chain; ordinary stream errors surface as before
+      onError: error => {
+        if (error instanceof CircuitBreakerError && !isLast) {
+          refused = error;
+        } else {
+          options.onError(error);
+        }
+      },
+    });
+    if (!refused) {
+      return;
+    }
+
+    const next = chain[index + 1];
+    console.warn(`Provider fallback: ${options.modelId} stream moving from ${candidateId} to ${next.candidateId} (${next.candidate.name})`);
+    options.onStatus?.('fallback', {
+      requestedModelId: options.modelId,
+      skippedModelId: candidateId,
+      servedModelId: next.candidateId,
+      provider: next.candidate.name,
+      reason: (refused as CircuitBreakerError).message,
+    });
+  }
+}
+
+function streamOnProvider(provider: BaseProvider, options: StreamingCallOptions): Promise<void> {
+  const circuitBreaker = circuitBreakers.get(provider.name);
+  const stream = (onError: StreamingCallOptions['onError']) => getProviderRetryPolicy().executeStreaming(
+    { ...options, onError },
+    attemptOptions => {
+      const key = { provider: provider.name, modelId: attemptOptions.modelId };
+      return getProviderRateLimiter().run(
+        key,
+        () => getProviderCassette().wrapStreaming(provider, attemptOptions),
+        queueStatusHooks(key, attemptOptions.onStatus)
+      );
+    }
+  );
+  return circuitBreaker ? streamThroughBreaker(circuitBreaker, provider.name, options.onError, stream) : stream(options.onError);
+}
+
+/**
+ * Run a stream inside its provider's breaker. Retries happen inside, so only a stream that still fails
+ * after its attempts counts as a breaker failure; an OPEN breaker reports CircuitBreakerError to onError.
+ */
+async function streamThroughBreaker(
+  circuitBreaker: CircuitBreaker,
+  providerName: string,
+  onError: StreamingCallOptions['onError'],
+  stream: (onError: StreamingCallOptions['onError']) => Promise<void>
+): Promise<void> {
+  let started = false;
+  let streamError: Error | null = null;
+  try {
+    await circuitBreaker.execute(async () => {
+      started = true;
+      await stream(error => {
+        streamError = error;
+      });
+      if (streamError) {
+        throw streamError;
+      }
+    });
+  } catch (error) {
+    if (!started) {
+      onError(new CircuitBreakerError(providerName, circuitBreaker.getFailureCount()));
+    } else {
+      onError(streamError ?? (error instanceof Error ? error : new Error(String(error))));
+    }
+  }
+}
+
+/** Relay limiter queue movement as `queued` / `dequeued` status phases */
+function queueStatusHooks(key: RateLimitKey, onStatus?: (phase: string, data?: Record<string, unknown>) => void): QueueHooks {
+  if (!onStatus) {
+    return {};
+  }
+  return {
+    onQueued: (position, queueLength) => onStatus('queued', { ...key, position, queueLength }),
+    onDequeued: waitedMs => onStatus('dequeued', { ...key, waitedMs }),
+  };
+}
+
+export { BaseProvider, ModelConfig, ModelResponse, ModelRoute };
+export { OpenAIProvider, AnthropicProvider, GoogleProvider, DeepSeekProvider, OpenRouterProvider, MockProvider };
@@ -0,0 +1,312 @@
+/**
+ * Mock Provider
+ *
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Deterministic offline provider used for CI and local runs without vendor API keys.
+ *          Implements both callModel and callModelStreaming so /api/generate, /api/models/compare
+ *          and the debate SSE flow can be exercised end to end. Output is either scripted via a
+ *          JSON file (MOCK_PROVIDER_SCRIPT) or generated from a seeded PRNG keyed by the prompt,
+ *          so identical requests always produce identical content, reasoning, usage and cost.
+ * SRP/DRY check: Pass - Provider only fabricates responses; registry wiring stays in index.ts and
+ *                cost math reuses BaseProvider.calculateCost.
+ */
+
+import { readFileSync } from 'node:fs';
+import { createHash } from 'node:crypto';
+import { BaseProvider, ModelConfig, ModelResponse, ModelMessage, CallOptions, StreamingCallOptions } from './base.js';
+import { getMockProviderConfig } from '../config.js';
+
+interface MockScriptEntry {
+  /** Substring, or /pattern/flags regex, matched against the flattened prompt */
+  match?: string;
+  /** Restrict the entry to a single mock model id */
+  modelId?: string;
+  content: string;
+  reasoning?: string;
+  /** Simulate a vendor failure with the given HTTP status instead of answering */
+  errorStatus?: number;
+  errorMessage?: string;
+}
+
+interface MockCompletion {
+  content: string;
+  reasoning: string;
+  responseId: string;
+  tokenUsage: { input: number; output: number; reasoning?: number };
+}
+
+const WORD_BANK = [
+  'model', 'evidence', 'argument', 'baseline', 'signal', 'latency', 'context', 'premise',
+  'benchmark', 'tradeoff', 'inference', 'token', 'outcome', 'hypothesis', 'variance', 'claim',
+  'pipeline', 'rubric', 'summary', 'position', 'constraint', 'estimate', 'analysis', 'result',
+];
+
+const MOCK_ERROR_STATUS = 503;
+
+/** Small, fast, seedable PRNG so mock output is stable across runs and platforms */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function estimateTokens(text: string): number {
+  return text.length === 0 ? 0 : Math.ceil(text.length / 4);
+}
+
+function sleep(ms: number): Promise<void> {
+  return ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve();
+}
+
+function splitIntoChunks(text: string, wordsPerChunk = 4): string[] {
+  const words = text.split(/(\s+)/).filter(part => part.length > 0);
+  const chunks: string[] = [];
+  for (let i = 0; i < words.length; i += wordsPerChunk * 2) {
+    chunks.push(words.slice(i, i + wordsPerChunk * 2).join(''));
+  }
+  return chunks;
+}
+
+export class MockProvider extends BaseProvider {
+  name = 'Mock';
+
+  models: ModelConfig[] = [
+    {
+      id: "mock-fast",
+      name: "Mock Fast (offline)",
+      provider: "Mock",
+      model: "mock-fast",
+      knowledgeCutoff: "N/A",
+      capabilities: {
+        reasoning: false,
+        multimodal: false,
+        functionCalling: false,
+        streaming: true,
+      },
+      pricing: {
+        inputPerMillion: 1.00,
+        outputPerMillion: 2.00,
+      },
+      limits: {
+        maxTokens: 4096,
+        contextWindow: 128000,
+      },
+    },
+    {
+      id: "mock-reasoning",
+      name: "Mock Reasoning (offline)",
+      provider: "Mock",
+      model: "mock-reasoning",
+      knowledgeCutoff: "N/A",
+      capabilities: {
+        reasoning: true,
+        multimodal: false,
+        functionCalling: false,
+        streaming: true,
+      },
+      pricing: {
+        inputPerMillion: 2.00,
+        outputPerMillion: 8.00,
+        reasoningPerMillion: 8.00,
+      },
+      limits: {
+        maxTokens: 16384,
+        contextWindow: 200000,
+      },
+    },
+    {
+      id: "mock-outage",
+      name: "Mock Outage (always fails)",
+      provider: "Mock",
+      model: "mock-outage",
+      knowledgeCutoff: "N/A",
+      capabilities: {
+        reasoning: false,
+        multimodal: false,
+        functionCalling: false,
+        streaming: true,
+      },
+      pricing: {
+        inputPerMillion: 0,
+        outputPerMillion: 0,
+      },
+      limits: {
+        maxTokens: 1024,
+        contextWindow: 8192,
+      },
+    },
+  ];
+
+  private scriptCache: { path: string; entries: MockScriptEntry[] } | null = null;
+
+  async callModel(messages: ModelMessage[], model: string, options?: CallOptions): Promise<ModelResponse> {
+    const startTime = Date.now();
+    const modelConfig = this.requireModel(model);
+    const settings = getMockProviderConfig();
+
+    await sleep(settings.latencyMs);
+    const completion = this.complete(modelConfig, messages, options?.previousResponseId);
+
+    return {
+      content: completion.content,
+      reasoning: completion.reasoning || undefined,
+      responseTime: Date.now() - startTime,
+      systemPrompt: messages.map(m => `${m.role}: ${m.content}`).join('\n\n'),
+      tokenUsage: completion.tokenUsage,
+      cost: this.calculateCost(modelConfig, completion.tokenUsage),
+      modelConfig: {
+        capabilities: modelConfig.capabilities,
+        pricing: modelConfig.pricing,
+      },
+      responseId: completion.responseId,
+    };
+  }
+
+  /**
+   * Streams the same deterministic completion in word-sized chunks, emitting reasoning first
+   * and then content, and reports usage in the Responses API shape the debate routes expect.
+   */
+  async callModelStreaming(options: StreamingCallOptions): Promise<void> {
+    const { modelId, messages, previousResponseId, onStatus, onReasoningChunk, onContentChunk, onComplete, onError } = options;
+    const settings = getMockProviderConfig();
+
+    try {
+      const modelConfig = this.requireModel(modelId);
+      const normalizedMessages: ModelMessage[] = messages.map(message => ({
+        role: (['system', 'user', 'assistant', 'context', 'developer'] as const).includes(message.role as any)
+          ? (message.role as ModelMessage['role'])
+          : 'user',
+        content: message.content,
+      }));
+
+      onStatus?.('mock_stream_start', { modelId });
+      await sleep(settings.latencyMs);
+      const completion = this.complete(modelConfig, normalizedMessages, previousResponseId);
+
+      if (completion.reasoning) {
+        onStatus?.('reasoning', { modelId });
+        for (const chunk of splitIntoChunks(completion.reasoning)) {
+          await sleep(settings.chunkDelayMs);
+          onReasoningChunk(chunk);
+        }
+      }
+
+      onStatus?.('content', { modelId });
+      for (const chunk of splitIntoChunks(completion.content)) {
+        await sleep(settings.chunkDelayMs);
+        onContentChunk(chunk);
+      }
+
+      const usage = {
+        input_tokens: completion.tokenUsage.input,
+        output_tokens: completion.tokenUsage.output,
+        output_tokens_details: { reasoning_tokens: completion.tokenUsage.reasoning ?? 0 },
+      };
+
+      onComplete(completion.responseId, usage, this.calculateCost(modelConfig, completion.tokenUsage), {
+        content: completion.content,
+        reasoning: completion.reasoning,
+      });
+    } catch (error) {
+      onError(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  private requireModel(model: string): ModelConfig {
+    const modelConfig = this.models.find(m => m.id === model || m.model === model);
+    if (!modelConfig) {
+      throw new Error(`Mock model not found: ${model}`);
+    }
+    return modelConfig;
+  }
+
+  private complete(modelConfig: ModelConfig, messages: ModelMessage[], previousResponseId?: string): MockCompletion {
+    const prompt = messages.map(m => `${m.role}: ${m.content}`).join('\n');
+    const scripted = this.findScriptEntry(modelConfig.id, prompt);
+
+    if (modelConfig.id === 'mock-outage' || scripted?.errorStatus) {
+      const status = scripted?.errorStatus ?? MOCK_ERROR_STATUS;
+      const error = new Error(scripted?.errorMessage ?? `Mock provider simulated outage (HTTP ${status})`);
+      (error as Error & { status?: number }).status = status;
+      throw error;
+    }
+
+    const digest = createHash('sha256')
+      .update(`${getMockProviderConfig().seed}|${modelConfig.id}|${previousResponseId ?? ''}|${prompt}`)
+      .digest('hex');
+    const random = mulberry32(parseInt(digest.slice(0, 8), 16));
+
+    const content = scripted?.content ?? this.generateParagraph(random, modelConfig.name, 3);
+    const reasoning = modelConfig.capabilities.reasoning
+      ? (scripted?.reasoning ?? this.generateParagraph(random, 'Reasoning', 2))
+      : '';
+
+    const reasoningTokens = estimateTokens(reasoning);
+    return {
+      content,
+      reasoning,
+      responseId: `mock_resp_${digest.slice(0, 24)}`,
+      tokenUsage: {
+        input: estimateTokens(prompt),
+        output: estimateTokens(content),
+        reasoning: modelConfig.capabilities.reasoning ? reasoningTokens : undefined,
+      },
+    };
+  }
+
+  private generateParagraph(random: () => number, label: string, sentences: number): string {
+    const lines: string[] = [];
+    for (let s = 0; s < sentences; s++) {
+      const length = 6 + Math.floor(random() * 8);
+      const words: string[] = [];
+      for (let w = 0; w < length; w++) {
+        words.push(WORD_BANK[Math.floor(random() * WORD_BANK.length)]);
+      }
+      lines.push(`${words.join(' ')}.`);
+    }
+    return `[${label}] ${lines.map(line => line.charAt(0).toUpperCase() + line.slice(1)).join(' ')}`;
+  }
+
+  private findScriptEntry(modelId: string, prompt: string): MockScriptEntry | undefined {
+    const entries = this.loadScript();
+    return entries.find(entry => {
+      if (entry.modelId && entry.modelId !== modelId) {
+        return false;
+      }
+      if (!entry.match) {
+        return true;
+      }
+      const regexMatch = entry.match.match(/^\/(.+)\/([a-z]*)$/);
+      if (regexMatch) {
+        return new RegExp(regexMatch[1], regexMatch[2]).test(prompt);
+      }
+      return prompt.includes(entry.match);
+    });
+  }
+
+  private loadScript(): MockScriptEntry[] {
+    const scriptPath = getMockProviderConfig().scriptPath;
+    if (!scriptPath) {
+      return [];
+    }
+    if (this.scriptCache?.path === scriptPath) {
+      return this.scriptCache.entries;
+    }
+    try {
+      const parsed = JSON.parse(readFileSync(scriptPath, 'utf-8'));
+      const entries: MockScriptEntry[] = Array.isArray(parsed) ? parsed : parsed?.responses ?? [];
+      this.scriptCache = { path: scriptPath, entries };
+      return entries;
+    } catch (error) {
+      console.warn(`Failed to load mock provider script at ${scriptPath}:`, error);
+      this.scriptCache = { path: scriptPath, entries: [] };
+      return [];
+    }
+  }
+}
@@ -2,7 +2,7 @@
  * Author: gpt-5-codex
  * Date: 2025-10-16 18:34 UTC
  * PURPOSE: Provides the OpenAI provider implementation using the Responses API, including
- *          structured payload construction, retry/timeout logic, and reasoning-aware streaming.
+ *          structured payload construction, timeout handling, and reasoning-aware streaming.
  *          Updated to send native message arrays, adopt the correct streaming lifecycle events,
  *          and expose instructions plus conversation chaining support per October 2025 guidance.
  * SRP/DRY check: Pass - focuses solely on OpenAI API integration and reuses shared provider
@@ -21,6 +21,8 @@ type ResponseMessage = {
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
+  // Retries are handled by the shared provider retry policy (server/providers/retry-policy.ts)
+  maxRetries: 0,
 });
 
 export class OpenAIProvider extends BaseProvider {
@@ -552,98 +554,79 @@ export class OpenAIProvider extends BaseProvider {
     const desiredMax = envMax ?? (isGpt5Series ? 128000 : 16384);
     const maxOutputTokens = Math.max(16300, desiredMax);
 
-    // Timeout and retries
+    // Timeout only; retries are owned by the shared provider retry policy in the registry
     const timeoutMs = process.env.OPENAI_TIMEOUT_MS ? parseInt(process.env.OPENAI_TIMEOUT_MS, 10) : 600000; // 10 minutes
-    const maxAttempts = 3;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new Error('Request timeout')), timeoutMs);
+    try {
+      const requestPayload: Record<string, any> = {
+        model: modelConfig?.model ?? model,
+        max_output_tokens: options?.maxTokens ?? maxOutputTokens,
+        store: true,
+      };
 
-    let lastError: any;
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-      const controller = new AbortController();
-      const timer = setTimeout(() => controller.abort(new Error('Request timeout')), timeoutMs);
-      try {
-        const requestPayload: Record<string, any> = {
-          model: modelConfig?.model ?? model,
-          max_output_tokens: options?.maxTokens ?? maxOutputTokens,
-          store: true,
-        };
-
-        if (!promptReference || input.length > 0) {
-          requestPayload.input = input;
-        }
+      if (!promptReference || input.length > 0) {
+        requestPayload.input = input;
+      }
 
-        if (promptReference) {
-          requestPayload.prompt = this.buildPromptPayload(promptReference);
-        }
+      if (promptReference) {
+        requestPayload.prompt = this.buildPromptPayload(promptReference);
+      }
 
-        if (options?.temperature !== undefined && this.supportsTemperature(modelConfig?.model ?? model)) {
-          requestPayload.temperature = options.temperature;
-        }
+      if (options?.temperature !== undefined && this.supportsTemperature(modelConfig?.model ?? model)) {
+        requestPayload.temperature = options.temperature;
+      }
 
-        if (options?.instructions?.trim()) {
-          requestPayload.instructions = options.instructions.trim();
-        }
+      if (options?.instructions?.trim()) {
+        requestPayload.instructions = options.instructions.trim();
+      }
 
-        if (options?.previousResponseId) {
-          requestPayload.previous_response_id = options.previousResponseId;
-        }
+      if (options?.previousResponseId) {
+        requestPayload.previous_response_id = options.previousResponseId;
+      }
 
-        if (modelConfig?.capabilities.reasoning) {
-          const { reasoning, text } = this.buildReasoningPayload(modelConfig.model, options?.reasoningConfig);
-          if (reasoning) {
-            requestPayload.reasoning = reasoning;
-          }
-          if (text) {
-            requestPayload.text = { ...(requestPayload.text ?? {}), ...text };
-          }
+      if (modelConfig?.capabilities.reasoning) {
+        const { reasoning, text } = this.buildReasoningPayload(modelConfig.model, options?.reasoningConfig);
+        if (reasoning) {
+          requestPayload.reasoning = reasoning;
         }
-
-        const response: any = await openai.responses.create(requestPayload, { signal: controller.signal as any });
-
-        clearTimeout(timer);
-
-        const parsedContent = this.extractContentText(response);
-        const parsedReasoning = this.extractReasoningSummary(response);
-        const content = parsedContent || 'No response generated';
-        const reasoningSummary = parsedReasoning || undefined;
-
-        return {
-          content,
-          reasoning: reasoningSummary,
-          responseTime: Date.now() - startTime,
-          systemPrompt: options?.systemPrompt,
-          tokenUsage: (response.usage ? {
-            input: response.usage.input_tokens ?? 0,
-            output: response.usage.output_tokens ?? 0,
-            reasoning: response.usage.output_tokens_details?.reasoning_tokens ?? undefined,
-          } : undefined),
-          cost: (response.usage && modelConfig ? this.calculateCost(modelConfig, {
-            input: response.usage.input_tokens ?? 0,
-            output: response.usage.output_tokens ?? 0,
-            reasoning: response.usage.output_tokens_details?.reasoning_tokens ?? undefined,
-          }) : undefined),
-          modelConfig: modelConfig ? {
-            capabilities: modelConfig.capabilities,
-            pricing: modelConfig.pricing,
-          } : undefined,
-          // @ts-ignore - extend shape with responseId for downstream use
-          responseId: response.id,
-        } as any;
-      } catch (error: any) {
-        clearTimeout(timer);
-        lastError = error;
-        const status = (error && (error.status || error.statusCode)) ?? undefined;
-        const retriable = status === 429 || (status && status >= 500 && status < 600) || (error?.name === 'AbortError');
-        if (attempt < maxAttempts && retriable) {
-          const backoffMs = 500 * Math.pow(2, attempt - 1);
-          await new Promise(r => setTimeout(r, backoffMs));
-          continue;
+        if (text) {
+          requestPayload.text = { ...(requestPayload.text ?? {}), ...text };
         }
-        // On timeout or error without response, include partials if any aren't available in this SDK error
-        throw error;
       }
+
+      const response: any = await openai.responses.create(requestPayload, { signal: controller.signal as any });
+
+      const parsedContent = this.extractContentText(response);
+      const parsedReasoning = this.extractReasoningSummary(response);
+      const content = parsedContent || 'No response generated';
+      const reasoningSummary = parsedReasoning || undefined;
+
+      return {
+        content,
+        reasoning: reasoningSummary,
+        responseTime: Date.now() - startTime,
+        systemPrompt: options?.systemPrompt,
+        tokenUsage: (response.usage ? {
+          input: response.usage.input_tokens ?? 0,
+          output: response.usage.output_tokens ?? 0,
+          reasoning: response.usage.output_tokens_details?.reasoning_tokens ?? undefined,
+        } : undefined),
+        cost: (response.usage && modelConfig ? this.calculateCost(modelConfig, {
+          input: response.usage.input_tokens ?? 0,
+          output: response.usage.output_tokens ?? 0,
+          reasoning: response.usage.output_tokens_details?.reasoning_tokens ?? undefined,
+        }) : undefined),
+        modelConfig: modelConfig ? {
+          capabilities: modelConfig.capabilities,
+          pricing: modelConfig.pricing,
+        } : undefined,
+        // @ts-ignore - extend shape with responseId for downstream use
+        responseId: response.id,
+      } as any;
+    } finally {
+      clearTimeout(timer);
     }
-    // If loop exits unexpectedly, throw last error
-    throw lastError || new Error('OpenAI Responses request failed');
   }
 
   /**
@@ -15,6 +15,8 @@ import { BaseProvider, ModelConfig, ModelResponse, ModelMessage, CallOptions } f
 
 const openrouter = new OpenAI({
   apiKey: process.env.OPENROUTER_API_KEY,
+  // Retries are handled by the shared provider retry policy (server/providers/retry-policy.ts)
+  maxRetries: 0,
   baseURL: 'https://openrouter.ai/api/v1',
   defaultHeaders: {
     'HTTP-Referer': 'https://modelcompare.dev',
@@ -238,6 +240,49 @@ export class OpenRouterProvider extends BaseProvider {
         contextWindow: 128000,
       },
     },
+    // Anthropic models via OpenRouter - fallback routes when the direct Anthropic circuit is OPEN
+    {
+      id: "openrouter/claude-sonnet-4.5",
+      name: "Claude Sonnet 4.5 (via OpenRouter)",
+      provider: "OpenRouter",
+      model: "anthropic/claude-sonnet-4.5",
+      knowledgeCutoff: "April 2024",
+      capabilities: {
+        reasoning: true,
+        multimodal: true,
+        functionCalling: true,
+        streaming: true,
+      },
+      pricing: {
+        inputPerMillion: 3.00,
+        outputPerMillion: 15.00,
+      },
+      limits: {
+        maxTokens: 64000,
+        contextWindow: 200000,
+      },
+    },
+    {
+      id: "openrouter/claude-haiku-4.5",
+      name: "Claude Haiku 4.5 (via OpenRouter)",
+      provider: "OpenRouter",
+      model: "anthropic/claude-haiku-4.5",
+      knowledgeCutoff: "Unknown",
+      capabilities: {
+        reasoning: true,
+        multimodal: true,
+        functionCalling: true,
+        streaming: true,
+      },
+      pricing: {
+        inputPerMillion: 1.00,
+        outputPerMillion: 5.00,
+      },
+      limits: {
+        maxTokens: 16000,
+        contextWindow: 200000,
+      },
+    },
   ];
 
   /**
@@ -0,0 +1,316 @@
+/**
+ * Provider Rate Limiter
+ *
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Token-bucket plus concurrency limiter applied per provider and per model before any
+ *          vendor request leaves the server. Requests that cannot start immediately wait in a FIFO
+ *          queue per provider and are told their 1-based queue position (and again whenever it
+ *          changes) so streaming routes can relay it as a `queued` status phase. A waiter whose
+ *          model is saturated does not block waiters for other models of the same provider. A waiter
+ *          whose caller's AbortSignal fires leaves the queue and rejects with the signal's reason.
+ *          Used by callModelWithMessages, the streaming proxy in the registry, and the Responses
+ *          API client behind Luigi/ARC jobs.
+ * SRP/DRY check: Pass - Only admission control; retries, breakers and cassettes stay in their own
+ *                modules and compose around this one in the registry.
+ */
+
+import { getProviderLimitsConfig, type ProviderLimitsConfig, type RateLimitSpec } from '../config.js';
+
+export interface RateLimitKey {
+  provider: string;
+  modelId: string;
+}
+
+export interface QueueHooks {
+  /** Called with the waiter's 1-based position whenever it is queued or moves up */
+  onQueued?: (position: number, queueLength: number) => void;
+  /** Called once a queued request is admitted */
+  onDequeued?: (waitedMs: number) => void;
+  /** Gives up the wait when aborted; the operation never runs */
+  signal?: AbortSignal;
+}
+
+export interface LaneSnapshot {
+  active: number;
+  queued: number;
+  tokens: number | null;
+  maxConcurrent: number;
+  requestsPerMinute: number;
+}
+
+/** One concurrency counter plus token bucket; 0 disables either limit */
+class Lane {
+  active = 0;
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(readonly spec: RateLimitSpec, private readonly now: () => number) {
+    this.tokens = spec.requestsPerMinute;
+    this.lastRefill = now();
+  }
+
+  private refill(): void {
+    if (this.spec.requestsPerMinute <= 0) {
+      return;
+    }
+    const current = this.now();
+    const perMs = this.spec.requestsPerMinute / 60_000;
+    this.tokens = Math.min(this.spec.requestsPerMinute, this.tokens + (current - this.lastRefill) * perMs);
+    this.lastRefill = current;
+  }
+
+  canStart(): boolean {
+    this.refill();
+    const hasSlot = this.spec.maxConcurrent <= 0 || this.active < this.spec.maxConcurrent;
+    const hasToken = this.spec.requestsPerMinute <= 0 || this.tokens >= 1;
+    return hasSlot && hasToken;
+  }
+
+  /** Milliseconds until a token is available, or 0 when only concurrency is blocking */
+  msUntilToken(): number {
+    if (this.spec.requestsPerMinute <= 0 || this.tokens >= 1) {
+      return 0;
+    }
+    return Math.ceil((1 - this.tokens) / (this.spec.requestsPerMinute / 60_000));
+  }
+
+  take(): void {
+    this.active++;
+    if (this.spec.requestsPerMinute > 0) {
+      this.tokens -= 1;
+    }
+  }
+
+  release(): void {
+    this.active = Math.max(0, this.active - 1);
+  }
+
+  snapshot(queued: number): LaneSnapshot {
+    this.refill();
+    return {
+      active: this.active,
+      queued,
+      tokens: this.spec.requestsPerMinute > 0 ? Math.floor(this.tokens) : null,
+      maxConcurrent: this.spec.maxConcurrent,
+      requestsPerMinute: this.spec.requestsPerMinute,
+    };
+  }
+}
+
+interface Waiter {
+  modelId: string;
+  enqueuedAt: number;
+  lastReportedPosition: number;
+  hooks: QueueHooks;
+  admit: () => void;
+}
+
+export class ProviderRateLimiter {
+  private readonly config: ProviderLimitsConfig;
+  private readonly now: () => number;
+  private readonly providerLanes = new Map<string, Lane>();
+  private readonly modelLanes = new Map<string, Lane>();
+  private readonly queues = new Map<string, Waiter[]>();
+  private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor(config: ProviderLimitsConfig, now: () => number = Date.now) {
+    this.config = config;
+    this.now = now;
+  }
+
+  /** Wait for a slot, run the operation, and always give the slot back */
+  async run<T>(key: RateLimitKey, operation: () => Promise<T>, hooks: QueueHooks = {}): Promise<T> {
+    const release = await this.acquire(key, hooks);
+    try {
+      return await operation();
+    } finally {
+      release();
+    }
+  }
+
+  acquire(key: RateLimitKey, hooks: QueueHooks = {}): Promise<() => void> {
+    const providerLane = this.providerLane(key.provider);
+    const modelLane = this.modelLane(key.modelId);
+    const queue = this.queue(key.provider);
+
+    const signal = hooks.signal;
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    let released = false;
+    const release = () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      providerLane.release();
+      modelLane.release();
+      this.drain(key.provider);
+    };
+
+    // Fast path only when nobody is already waiting on this provider, to keep FIFO fairness
+    if (queue.length === 0 && providerLane.canStart() && modelLane.canStart()) {
+      providerLane.take();
+      modelLane.take();
+      return Promise.resolve(release);
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const index = queue.indexOf(waiter);
+        if (index === -1) {
+          return;
+        }
+        queue.splice(index, 1);
+        reject(signal!.reason);
+        // Waiters behind this one move up
+        this.drain(key.provider);
+      };
+      const waiter: Waiter = {
+        modelId: key.modelId,
+        enqueuedAt: this.now(),
+        lastReportedPosition: 0,
+        hooks,
+        admit: () => {
+          signal?.removeEventListener('abort', onAbort);
+          providerLane.take();
+          modelLane.take();
+          hooks.onDequeued?.(this.now() - waiter.enqueuedAt);
+          resolve(release);
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      queue.push(waiter);
+      // Another model's waiters may be ahead; this one can still start if its own lanes are free
+      this.drain(key.provider);
+    });
+  }
+
+  snapshot(): { providers: Record<string, LaneSnapshot>; models: Record<string, LaneSnapshot> } {
+    const providers: Record<string, LaneSnapshot> = {};
+    for (const [provider, lane] of Array.from(this.providerLanes.entries())) {
+      providers[provider] = lane.snapshot(this.queue(provider).length);
+    }
+    const models: Record<string, LaneSnapshot> = {};
+    for (const [modelId, lane] of Array.from(this.modelLanes.entries())) {
+      const queued = Array.from(this.queues.values()).reduce(
+        (count, queue) => count + queue.filter(waiter => waiter.modelId === modelId).length,
+        0
+      );
+      models[modelId] = lane.snapshot(queued);
+    }
+    return { providers, models };
+  }
+
+  /**
+   * Wrap a fetch implementation so JSON requests carrying a `model` field are admitted through
+   * the limiter (used by the Responses API client for Luigi/ARC agent runs).
+   */
+  wrapFetch(fetchFn: typeof fetch, provider: string): typeof fetch {
+    return (async (input: RequestInfo | URL, init?: RequestInit) => {
+      let modelId = provider;
+      if (typeof init?.body === 'string') {
+        try {
+          const parsed = JSON.parse(init.body) as { model?: unknown };
+          if (typeof parsed.model === 'string') {
+            modelId = parsed.model;
+          }
+        } catch {
+          // Non-JSON bodies are limited at the provider level only
+        }
+      }
+      return this.run({ provider, modelId }, () => fetchFn(input, init), { signal: init?.signal ?? undefined });
+    }) as typeof fetch;
+  }
+
+  private drain(provider: string): void {
+    const queue = this.queue(provider);
+    const providerLane = this.providerLane(provider);
+
+    for (let index = 0; index < queue.length && providerLane.canStart(); ) {
+      const waiter = queue[index];
+      if (this.modelLane(waiter.modelId).canStart()) {
+        queue.splice(index, 1);
+        waiter.admit();
+      } else {
+        index++;
+      }
+    }
+
+    this.reportPositions(queue);
+    if (queue.length > 0) {
+      this.scheduleDrain(provider);
+    }
+  }
+
+  /** When only token buckets are blocking, nothing will release a slot, so wake up on refill */
+  private scheduleDrain(provider: string): void {
+    if (this.timers.has(provider)) {
+      return;
+    }
+    const queue = this.queue(provider);
+    const waits = [this.providerLane(provider).msUntilToken(), ...queue.map(w => this.modelLane(w.modelId).msUntilToken())]
+      .filter(ms => ms > 0);
+    if (waits.length === 0) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.timers.delete(provider);
+      this.drain(provider);
+    }, Math.min(...waits));
+    timer.unref?.();
+    this.timers.set(provider, timer);
+  }
+
+  private reportPositions(queue: Waiter[]): void {
+    queue.forEach((waiter, index) => {
+      const position = index + 1;
+      if (position !== waiter.lastReportedPosition) {
+        waiter.lastReportedPosition = position;
+        waiter.hooks.onQueued?.(position, queue.length);
+      }
+    });
+  }
+
+  private queue(provider: string): Waiter[] {
+    let queue = this.queues.get(provider);
+    if (!queue) {
+      queue = [];
+      this.queues.set(provider, queue);
+    }
+    return queue;
+  }
+
+  private providerLane(provider: string): Lane {
+    let lane = this.providerLanes.get(provider);
+    if (!lane) {
+      lane = new Lane({ ...this.config.providerDefaults, ...this.config.providers[provider] }, this.now);
+      this.providerLanes.set(provider, lane);
+    }
+    return lane;
+  }
+
+  private modelLane(modelId: string): Lane {
+    let lane = this.modelLanes.get(modelId);
+    if (!lane) {
+      lane = new Lane({ ...this.config.modelDefaults, ...this.config.models[modelId] }, this.now);
+      this.modelLanes.set(modelId, lane);
+    }
+    return lane;
+  }
+}
+
+let cachedLimiter: ProviderRateLimiter | null = null;
+
+export function getProviderRateLimiter(): ProviderRateLimiter {
+  if (!cachedLimiter) {
+    cachedLimiter = new ProviderRateLimiter(getProviderLimitsConfig());
+  }
+  return cachedLimiter;
+}
+
+export function setProviderRateLimiter(limiter: ProviderRateLimiter | null): void {
+  cachedLimiter = limiter;
+}
@@ -0,0 +1,254 @@
+/**
+ * Provider Retry Policy
+ *
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Shared retry policy for every provider call made through the registry. Separates
+ *          transient failures (429, most 5xx, Anthropic 529, connection resets and timeouts) from
+ *          permanent ones, honours Retry-After / retry-after-ms headers, and otherwise backs off
+ *          exponentially with jitter. Streamed calls are only retried before the first chunk is
+ *          delivered, and each retry is announced through the caller's onStatus callback so SSE
+ *          clients see a `retrying` phase. Retries run inside the circuit breaker, so only a call
+ *          that exhausts its attempts counts as a breaker failure. Aborts are never retried: they come
+ *          from the call's own timeout or a caller's signal, so another attempt would wait or be
+ *          cancelled the same way.
+ * SRP/DRY check: Pass - Owns retry timing and error classification only; providers make a single
+ *                attempt and the registry decides where the policy wraps them.
+ */
+
+import type { StreamingCallOptions } from './base.js';
+import { getProviderRetryConfig, type ProviderRetryConfig } from '../config.js';
+
+const RETRYABLE_NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+const RETRYABLE_ERROR_NAMES = new Set(['APIConnectionError', 'FetchError']);
+
+// Fetch/DOM aborts, AbortSignal.timeout() and the OpenAI/Anthropic SDKs' abort and request-timeout errors
+const ABORT_ERROR_NAMES = new Set(['AbortError', 'TimeoutError', 'APIUserAbortError', 'APIConnectionTimeoutError']);
+
+export interface RetryAttemptInfo {
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  status?: number;
+  reason: string;
+  retryAfterMs?: number;
+}
+
+export interface RetryHooks {
+  onRetry?: (info: RetryAttemptInfo) => void;
+}
+
+interface RetryPolicyDeps {
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve();
+}
+
+/** HTTP status carried by SDK errors (OpenAI/Anthropic `status`), fetch-style errors or wrapped causes */
+export function getErrorStatus(error: unknown): number | undefined {
+  const candidate = error as { status?: unknown; statusCode?: unknown; response?: { status?: unknown } } | null;
+  const status = candidate?.status ?? candidate?.statusCode ?? candidate?.response?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+function readHeader(headers: unknown, name: string): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const record = headers as Record<string, unknown>;
+  const key = Object.keys(record).find(k => k.toLowerCase() === name);
+  const value = key ? record[key] : undefined;
+  return typeof value === 'string' ? value : Array.isArray(value) ? String(value[0]) : undefined;
+}
+
+/** Parse Retry-After (seconds or HTTP date) or retry-after-ms from an SDK error's headers */
+export function getRetryAfterMs(error: unknown, now: number = Date.now()): number | undefined {
+  const candidate = error as { headers?: unknown; response?: { headers?: unknown } } | null;
+  const headers = candidate?.headers ?? candidate?.response?.headers;
+
+  const retryAfterMs = readHeader(headers, 'retry-after-ms');
+  if (retryAfterMs !== undefined) {
+    const parsed = Number.parseFloat(retryAfterMs);
+    if (Number.isFinite(parsed) && parsed >= 0) {
+      return parsed;
+    }
+  }
+
+  const retryAfter = readHeader(headers, 'retry-after');
+  if (retryAfter === undefined) {
+    return undefined;
+  }
+  const seconds = Number.parseFloat(retryAfter);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isFinite(date) ? Math.max(0, date - now) : undefined;
+}
+
+/** True when the call was cancelled by its own timeout or by a caller-supplied signal */
+export function isAbortError(error: unknown): boolean {
+  const candidate = error as { name?: unknown; code?: unknown } | null;
+  return (typeof candidate?.name === 'string' && ABORT_ERROR_NAMES.has(candidate.name))
+    || candidate?.code === 'ABORT_ERR';
+}
+
+/** True for rate limits, transient server errors and dropped connections; false for 4xx client errors and aborts */
+export function isRetryableError(error: unknown): boolean {
+  if (isAbortError(error)) {
+    return false;
+  }
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return status === 408 || status === 409 || status === 425 || status === 429
+      || (status >= 500 && status !== 501 && status !== 505);
+  }
+
+  const candidate = error as { code?: unknown; name?: unknown; cause?: { code?: unknown } } | null;
+  const code = candidate?.code ?? candidate?.cause?.code;
+  if (typeof code === 'string' && RETRYABLE_NETWORK_CODES.has(code)) {
+    return true;
+  }
+  return typeof candidate?.name === 'string' && RETRYABLE_ERROR_NAMES.has(candidate.name);
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export class RetryPolicy {
+  private readonly config: ProviderRetryConfig;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly random: () => number;
+
+  constructor(config: ProviderRetryConfig, deps: RetryPolicyDeps = {}) {
+    this.config = config;
+    this.sleep = deps.sleep ?? defaultSleep;
+    this.random = deps.random ?? Math.random;
+  }
+
+  get maxAttempts(): number {
+    return Math.max(1, this.config.maxAttempts);
+  }
+
+  /**
+   * Delay before the next attempt, or null when the error should not be retried. A Retry-After
+   * longer than maxRetryAfterMs gives up immediately rather than holding the request open.
+   */
+  nextDelayMs(error: unknown, attempt: number): number | null {
+    if (attempt >= this.maxAttempts || !isRetryableError(error)) {
+      return null;
+    }
+
+    const retryAfterMs = getRetryAfterMs(error);
+    if (retryAfterMs !== undefined) {
+      return retryAfterMs <= this.config.maxRetryAfterMs ? retryAfterMs : null;
+    }
+
+    // Equal jitter: half the exponential step is fixed, the other half random
+    const exponential = Math.min(this.config.maxDelayMs, this.config.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(exponential / 2 + this.random() * (exponential / 2));
+  }
+
+  async execute<T>(operation: (attempt: number) => Promise<T>, hooks: RetryHooks = {}): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation(attempt);
+      } catch (error) {
+        const delayMs = this.nextDelayMs(error, attempt);
+        if (delayMs === null) {
+          throw error;
+        }
+        hooks.onRetry?.(this.describeAttempt(error, attempt, delayMs));
+        await this.sleep(delayMs);
+      }
+    }
+  }
+
+  /**
+   * Retry a streamed call while nothing has reached the client yet. Once a reasoning, content or
+   * JSON chunk has been forwarded, failures go straight to onError to avoid duplicated output.
+   */
+  async executeStreaming(
+    options: StreamingCallOptions,
+    invoke: (options: StreamingCallOptions) => Promise<void>
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      let streamed = false;
+      let failure: Error | null = null;
+      const markStreamed = <A extends unknown[]>(callback: ((...args: A) => void) | undefined) =>
+        (...args: A) => {
+          streamed = true;
+          callback?.(...args);
+        };
+
+      try {
+        await invoke({
+          ...options,
+          onReasoningChunk: markStreamed(options.onReasoningChunk),
+          onContentChunk: markStreamed(options.onContentChunk),
+          onJsonChunk: options.onJsonChunk ? markStreamed(options.onJsonChunk) : undefined,
+          onError: error => {
+            failure = error;
+          },
+        });
+      } catch (error) {
+        failure = error instanceof Error ? error : new Error(String(error));
+      }
+
+      if (!failure) {
+        return;
+      }
+
+      const delayMs = streamed ? null : this.nextDelayMs(failure, attempt);
+      if (delayMs === null) {
+        options.onError(failure);
+        return;
+      }
+
+      const info = this.describeAttempt(failure, attempt, delayMs);
+      options.onStatus?.('retrying', { ...info });
+      await this.sleep(delayMs);
+    }
+  }
+
+  private describeAttempt(error: unknown, attempt: number, delayMs: number): RetryAttemptInfo {
+    return {
+      attempt,
+      maxAttempts: this.maxAttempts,
+      delayMs,
+      status: getErrorStatus(error),
+      reason: describeError(error),
+      retryAfterMs: getRetryAfterMs(error),
+    };
+  }
+}
+
+let cachedPolicy: RetryPolicy | null = null;
+
+export function getProviderRetryPolicy(): RetryPolicy {
+  if (!cachedPolicy) {
+    cachedPolicy = new RetryPolicy(getProviderRetryConfig());
+  }
+  return cachedPolicy;
+}
+
+export function setProviderRetryPolicy(policy: RetryPolicy | null): void {
+  cachedPolicy = policy;
+}
@@ -14,12 +14,16 @@ import { modelsRoutes } from "./routes/models.routes";
 import { generateRoutes } from "./routes/generate.routes";
 import { templatesRoutes } from "./routes/templates.routes";
 import { sessionsRoutes } from "./routes/sessions.routes";
+import { documentTemplateRoutes } from "./routes/document-templates.routes";
 import { auditsRoutes } from "./routes/audits.routes";
 import { healthRoutes } from "./routes/health.routes";
 import { arcAgiRoutes } from "./routes/arc-agi.routes";
 import { creativeRoutes } from "./routes/creative.routes";
 import { webhookRoutes } from "./routes/webhook.routes";
 import { debateRoutes } from "./routes/debate.routes";
+import { debateTopicRoutes } from "./routes/debate-topics.routes";
+import { leaderboardRoutes } from "./routes/leaderboard.routes";
+import { batchRoutes } from "./routes/batch.routes";
 import { createArcAgentRouter } from "./routes/arc-agent.routes";
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -32,14 +36,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use('/api/stripe', creditsRoutes);
   app.use('/api/models', modelsRoutes);
   app.use('/api/generate', generateRoutes);
+  app.use('/api/debate/topics', debateTopicRoutes);
   app.use('/api/debate', debateRoutes);
   app.use('/api/templates', templatesRoutes);
   app.use('/api/sessions', sessionsRoutes);
+  app.use('/api/document-templates', documentTemplateRoutes);
   app.use('/api/audits', auditsRoutes);
   app.use('/health', healthRoutes);
   app.use('/api/arc-agi', arcAgiRoutes);
   app.use('/api/creative', creativeRoutes);
   app.use('/api/webhooks', webhookRoutes);
+  app.use('/api/leaderboard', leaderboardRoutes);
+  app.use('/api/batch-runs', batchRoutes);
 
   // Global error handler
   app.use(errorHandler);
@@ -0,0 +1,168 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Batch evaluation HTTP endpoints: start a run from a compare-prompts.md section or uploaded
+ *          JSONL against a list of models, list and inspect runs (progress, per-model stats, cell
+ *          results), and pause, resume or cancel them. Only the device that started a run may control it.
+ * SRP/DRY check: Pass - Request validation, ownership and credit pre-checks only; scheduling lives in
+ *                BatchRunner.
+ */
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import { batchRunner, parsePromptJsonl, promptsFromCategory } from "../services/batch-runner.service.js";
+import { getStorage } from "../storage.js";
+import { getBatchConfig } from "../config.js";
+import { sendRouteError } from "../errors.js";
+import { ensureDeviceUser } from "../device-auth.js";
+import { ApiResponse } from "../utils/response.js";
+import { BATCH_ITEM_STATUSES, type BatchPrompt, type BatchPromptSource } from "../../shared/batch-types.js";
+import type { BatchRun } from "../../shared/schema.js";
+
+const router = Router();
+
+const createBatchRunSchema = z.object({
+  name: z.string().max(200).optional(),
+  modelIds: z.array(z.string().min(1)).min(1),
+  concurrency: z.number().int().min(1).optional(),
+  source: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('category'), categoryId: z.string().min(1) }),
+    // The uploaded file's text; one {"id"?, "prompt"} object per line
+    z.object({ type: z.literal('jsonl'), content: z.string().min(1), fileName: z.string().max(200).optional() }),
+  ]),
+});
+
+const itemsQuerySchema = z.object({
+  status: z.enum(BATCH_ITEM_STATUSES).optional(),
+});
+
+/** 402 in the same shape as reserveDeviceCredits when the device cannot cover `cells` more calls */
+async function ensureCreditsFor(req: Request, res: Response, cells: number): Promise<boolean> {
+  const creditsNeeded = cells * getBatchConfig().creditsPerCall;
+  if (!req.deviceUser || creditsNeeded === 0) return true;
+  const storage = await getStorage();
+  const credits = await storage.getUserCredits(req.deviceUser.id);
+  if (credits >= creditsNeeded) return true;
+  res.status(402).json({
+    error: 'Insufficient credits',
+    message: `This batch needs ${creditsNeeded} credits (${cells} calls); you have ${credits}.`,
+    credits,
+    requiresPayment: true,
+  });
+  return false;
+}
+
+/** Loads the run and checks the caller owns it; responds 404/403 and returns null otherwise */
+async function loadOwnedRun(req: Request, res: Response): Promise<BatchRun | null> {
+  const storage = await getStorage();
+  const run = await storage.getBatchRun(req.params.id);
+  if (!run) {
+    ApiResponse.error(res, "Batch run not found", 404);
+    return null;
+  }
+  if (run.ownerId && run.ownerId !== req.deviceUser?.id) {
+    ApiResponse.error(res, "Only the device that started this batch run can control it", 403);
+    return null;
+  }
+  return run;
+}
+
+router.get("/", async (req, res) => {
+  try {
+    const limit = Math.min(Number.parseInt(req.query.limit as string, 10) || 20, 100);
+    return ApiResponse.success(res, await batchRunner.listRuns(limit));
+  } catch (error) {
+    return sendRouteError(res, error, "Failed to list batch runs");
+  }
+});
+
+// Start a run: prompts x modelIds cells, executed in the background with bounded concurrency
+router.post("/", ensureDeviceUser, async (req, res) => {
+  try {
+    const body = createBatchRunSchema.parse(req.body ?? {});
+    let prompts: BatchPrompt[];
+    let source: BatchPromptSource;
+    if (body.source.type === 'category') {
+      prompts = promptsFromCategory(req.app.locals.templateCompiler, body.source.categoryId);
+      source = { type: 'category', categoryId: body.source.categoryId };
+    } else {
+      prompts = parsePromptJsonl(body.source.content);
+      source = { type: 'jsonl', fileName: body.source.fileName };
+    }
+
+    if (!(await ensureCreditsFor(req, res, prompts.length * new Set(body.modelIds).size))) return;
+
+    const run = await batchRunner.createRun({
+      name: body.name,
+      modelIds: body.modelIds,
+      concurrency: body.concurrency,
+      source,
+      prompts,
+      ownerId: req.deviceUser?.id ?? null,
+    });
+    return ApiResponse.success(res, run, 201);
+  } catch (error) {
+    return sendRouteError(res, error, "Failed to start batch run");
+  }
+});
+
+router.get("/:id", async (req, res) => {
+  try {
+    const run = await batchRunner.getSummary(req.params.id);
+    if (!run) {
+      return ApiResponse.error(res, "Batch run not found", 404);
+    }
+    return ApiResponse.success(res, { run, models: await batchRunner.getModelStats(run.id) });
+  } catch (error) {
+    return sendRouteError(res, error, "Failed to fetch batch run");
+  }
+});
+
+// Cell results, ordered by prompt then model; ?status=pending|running|success|error
+router.get("/:id/items", async (req, res) => {
+  try {
+    const { status } = itemsQuerySchema.parse(req.query);
+    const storage = await getStorage();
+    if (!(await storage.getBatchRun(req.params.id))) {
+      return ApiResponse.error(res, "Batch run not found", 404);
+    }
+    const items = await batchRunner.getItems(req.params.id);
+    return ApiResponse.success(res, status ? items.filter(item => item.status === status) : items);
+  } catch (error) {
+    return sendRouteError(res, error, "Failed to fetch batch run items");
+  }
+});
+
+router.post("/:id/pause", ensureDeviceUser, async (req, res) => {
+  try {
+    const run = await loadOwnedRun(req, res);
+    if (!run) return;
+    return ApiResponse.success(res, await batchRunner.pauseRun(run.id));
+  } catch (error) {
+    return sendRouteError(res, error, "Failed to pause batch run");
+  }
+});
+
+router.post("/:id/resume", ensureDeviceUser, async (req, res) => {
+  try {
+    const run = await loadOwnedRun(req, res);
+    if (!run) return;
+    const items = await batchRunner.getItems(run.id);
+    const remaining = items.filter(item => item.status === 'pending' || item.status === 'running').length;
+    if (!(await ensureCreditsFor(req, res, remaining))) return;
+    return ApiResponse.success(res, await batchRunner.resumeRun(run.id));
+  } catch (error) {
+    return sendRouteError(res, error, "Failed to resume batch run");
+  }
+});
+
+router.post("/:id/cancel", ensureDeviceUser, async (req, res) => {
+  try {
+    const run = await loadOwnedRun(req, res);
+    if (!run) return;
+    return ApiResponse.success(res, await batchRunner.cancelRun(run.id));
+  } catch (error) {
+    return sendRouteError(res, error, "Failed to cancel batch run");
+  }
+});
+
+export { router as batchRoutes };
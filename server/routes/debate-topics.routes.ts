@@ -0,0 +1,124 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Debate topic catalog HTTP endpoints: list topics (filtered by tag, difficulty, source or text),
+ *          fetch one, submit a custom topic, and edit or delete it. Seed topics from debate-prompts.md are
+ *          read-only; a custom topic may only be changed by the device that submitted it.
+ * SRP/DRY check: Pass - Request validation and ownership checks only; catalog rules live in
+ *                DebateTopicCatalogService.
+ */
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import { debateTopicCatalog, toDebateTopicEntry } from "../services/debate-topic.service.js";
+import { sendRouteError } from "../errors.js";
+import { ensureDeviceUser } from "../device-auth.js";
+import { ApiResponse } from "../utils/response.js";
+import {
+  DEBATE_TOPIC_DIFFICULTIES,
+  DEBATE_TOPIC_MAX_TAGS,
+  DEBATE_TOPIC_SOURCES,
+} from "../../shared/debate-topic-types.js";
+import type { DebateTopicRecord } from "../../shared/schema.js";
+
+const router = Router();
+
+const topicFields = {
+  title: z.string().trim().min(1).max(120),
+  proposition: z.string().trim().min(10).max(600),
+  tags: z.array(z.string().trim().min(1).max(32)).max(DEBATE_TOPIC_MAX_TAGS),
+  difficulty: z.enum(DEBATE_TOPIC_DIFFICULTIES),
+};
+
+const createTopicSchema = z.object({
+  title: topicFields.title,
+  proposition: topicFields.proposition,
+  tags: topicFields.tags.optional(),
+  difficulty: topicFields.difficulty.optional(),
+});
+
+const updateTopicSchema = createTopicSchema.partial().refine(
+  body => Object.values(body).some(value => value !== undefined),
+  { message: "Provide at least one field to update" },
+);
+
+const listQuerySchema = z.object({
+  tag: z.string().optional(),
+  difficulty: z.enum(DEBATE_TOPIC_DIFFICULTIES).optional(),
+  source: z.enum(DEBATE_TOPIC_SOURCES).optional(),
+  q: z.string().max(200).optional(),
+});
+
+/** Loads a custom topic the caller submitted; responds 404/403 and returns null otherwise */
+async function loadOwnedTopic(req: Request, res: Response): Promise<DebateTopicRecord | null> {
+  const topic = await debateTopicCatalog.get(req.params.id);
+  if (!topic) {
+    ApiResponse.error(res, "Debate topic not found", 404);
+    return null;
+  }
+  if (topic.source === 'seed') {
+    ApiResponse.error(res, "Seed topics are read-only; edit debate-prompts.md before the catalog is first seeded", 403);
+    return null;
+  }
+  if (topic.ownerId && topic.ownerId !== req.deviceUser?.id) {
+    ApiResponse.error(res, "Only the device that submitted this topic can change it", 403);
+    return null;
+  }
+  return topic;
+}
+
+router.get("/", async (req, res) => {
+  try {
+    return ApiResponse.success(res, await debateTopicCatalog.list(listQuerySchema.parse(req.query)));
+  } catch (error) {
+    return sendRouteError(res, error, "Failed to list debate topics");
+  }
+});
+
+router.get("/:id", async (req, res) => {
+  try {
+    const topic = await debateTopicCatalog.get(req.params.id);
+    if (!topic) {
+      return ApiResponse.error(res, "Debate topic not found", 404);
+    }
+    return ApiResponse.success(res, toDebateTopicEntry(topic));
+  } catch (error) {
+    return sendRouteError(res, error, "Failed to fetch debate topic");
+  }
+});
+
+router.post("/", ensureDeviceUser, async (req, res) => {
+  try {
+    const body = createTopicSchema.parse(req.body ?? {});
+    return ApiResponse.success(res, await debateTopicCatalog.create(body, req.deviceUser?.id ?? null), 201);
+  } catch (error) {
+    return sendRouteError(res, error, "Failed to create debate topic");
+  }
+});
+
+router.patch("/:id", ensureDeviceUser, async (req, res) => {
+  try {
+    const body = updateTopicSchema.parse(req.body ?? {});
+    const topic = await loadOwnedTopic(req, res);
+    if (!topic) return;
+    const updated = await debateTopicCatalog.update(topic.id, body);
+    if (!updated) {
+      return ApiResponse.error(res, "Debate topic not found", 404);
+    }
+    return ApiResponse.success(res, updated);
+  } catch (error) {
+    return sendRouteError(res, error, "Failed to update debate topic");
+  }
+});
+
+router.delete("/:id", ensureDeviceUser, async (req, res) => {
+  try {
+    const topic = await loadOwnedTopic(req, res);
+    if (!topic) return;
+    await debateTopicCatalog.delete(topic.id);
+    return res.status(204).end();
+  } catch (error) {
+    return sendRouteError(res, error, "Failed to delete debate topic");
+  }
+});
+
+export { router as debateTopicRoutes };
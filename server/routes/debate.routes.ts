@@ -5,50 +5,80 @@
  *          SSE dispatcher, shared streaming logic, heartbeat keepalives, and resilient asset loading so
  *          modern React clients can consume Responses API streams without premature proxy disconnects while
  *          persisting debate turns. Removed caching of debate prompts - file is read fresh each time for
- *          simplicity and to avoid stale data in production.
+ *          simplicity and to avoid stale data in production. Finished sessions can be adjudicated by a
+ *          judge model whose verdict is stored on the session and returned with it. Sessions seat two to
+ *          six participants with assigned positions or teams, a speaking order, and one
+ *          previous_response_id chain per seat. Sessions may follow a structured format from
+ *          debate-prompts.md, whose turn plan fixes the speaker, phase instruction and token cap of each turn.
+ *          Prompt assembly and turn streaming live in debate-turn.service.ts; /session/:id/run hands a
+ *          session to the server-side orchestrator and /session/:id/run/events streams its progress.
+ *          Turn streams number their events and buffer them per session, so a client that reconnects with
+ *          Last-Event-ID is sent the events it missed and then follows the live turn. A seat can be
+ *          played by a person: /session/:id/human-turn records their typed argument, and the model
+ *          answering it receives that text as opponentMessage. /session/:id/fact-check has a checker
+ *          model rate the factual claims of finished turns and stores the ratings on the turn records.
+ *          /session/:id/fork copies a debate up to a chosen turn into a child session, optionally with
+ *          other seat models or intensity, and session payloads carry parentSessionId/forkedAtTurn.
+ *          Saving the last turn of a format debate (streamed or typed by a human) has the judge model
+ *          adjudicate it in the background; /session/:id/adjudicate stays available to re-run it.
  * SRP/DRY check: Pass - Route module handles debate HTTP concerns only; shared helpers prevent duplication
  *                across init and SSE entry points, including prompt asset resolution.
  */
-import { readFileSync } from "node:fs";
-import path from "node:path";
-import { Router } from "express";
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
 import {
-  extractDebateInstructions,
-  formatDebateTemplate,
-  getDebateIntensityDescriptor,
-  type DebateInstructions,
-} from "@shared/debate-instructions.ts";
-import { getProviderForModel, type BaseProvider } from "../providers/index.js";
+  DEBATE_HUMAN_TURN_MAX_CHARS,
+  DEBATE_MAX_PARTICIPANTS,
+  DEBATE_MIN_PARTICIPANTS,
+  isHumanParticipant,
+  normalizeDebateParticipants,
+  resolveDebateParticipants,
+  resolveParticipantResponseIds,
+  resolveSpeakingOrder,
+  speakerForTurn,
+  type DebateParticipant,
+} from "@shared/debate-participants.ts";
+import {
+  buildDebateTurnPlan,
+  debateTurnSlot,
+  findDebateFormat,
+  type DebateFormat,
+  type DebateTurnSlot,
+} from "@shared/debate-formats.ts";
+import type { DebateSession } from "../../shared/schema.js";
 import { storage } from "../storage.js";
 import { StreamSessionRegistry } from "../streaming/session-registry.js";
 import { SseStreamManager } from "../streaming/sse-manager.js";
-import { StreamHarness } from "../streaming/stream-harness.js";
-import { ensureDeviceUser, reserveDeviceCredits, commitDeviceCredits, refundDeviceCredits } from "../device-auth.js";
+import { StreamHarness, type StreamEventSink } from "../streaming/stream-harness.js";
+import {
+  ensureDeviceUser,
+  reserveDeviceCredits,
+  commitDeviceCredits,
+  refundDeviceCredits,
+  deductCreditsForSuccessfulCalls,
+} from "../device-auth.js";
+import { getDebateFactCheckConfig, getDebateJudgeConfig, getDebateRunConfig } from "../config.js";
+import { sendRouteError } from "../errors.js";
+import { debateAdjudicatorService } from "../services/debate-adjudicator.service.js";
+import { debateFactCheckService } from "../services/debate-fact-check.service.js";
+import { debateForkService } from "../services/debate-fork.service.js";
+import { debateOrchestrator } from "../services/debate-orchestrator.service.js";
+import {
+  loadDebateInstructions,
+  normalizeMaxTokens,
+  normalizeReasoningEffort,
+  normalizeReasoningSummary,
+  normalizeReasoningVerbosity,
+  normalizeTemperature,
+  plannedDebateTurnCount,
+  previousHumanTurn,
+  recordHumanTurn,
+  streamDebateTurn,
+  type DebateStreamPayload,
+} from "../services/debate-turn.service.js";
 
 const router = Router();
 
-const DEBATE_PROMPTS_PATH = path.resolve(
-  process.cwd(),
-  "client",
-  "public",
-  "docs",
-  "debate-prompts.md",
-);
-
-function loadDebateInstructions(): DebateInstructions | null {
-  try {
-    // Read file fresh every time - no caching for simplicity
-    const markdown = readFileSync(DEBATE_PROMPTS_PATH, "utf-8");
-    return extractDebateInstructions(markdown);
-  } catch (error) {
-    console.error(
-      `Failed to load debate prompts markdown at ${DEBATE_PROMPTS_PATH}:`,
-      error,
-    );
-    return null;
-  }
-}
-
 class HttpError extends Error {
   statusCode: number;
 
@@ -59,51 +89,18 @@ class HttpError extends Error {
   }
 }
 
-type DebateRole = "AFFIRMATIVE" | "NEGATIVE";
-
-interface DebateStreamPayload {
-  modelId: string;
-  topic: string;
-  role: DebateRole;
-  position: "FOR" | "AGAINST";
-  intensityLevel: number;
-  intensityGuidance: string;
-  intensityHeading: string;
-  intensityLabel: string;
-  intensitySummary: string;
-  intensityFullText: string;
-  opponentMessage: string | null;
-  previousResponseId: string | null;
-  turnNumber: number;
-  reasoningEffort: "low" | "medium" | "high";
-  reasoningSummary: "auto" | "detailed";
-  reasoningVerbosity: "low" | "medium" | "high";
-  temperature: number;
-  maxTokens: number;
-  debateSessionId: string;
-  model1Id: string;
-  model2Id: string;
-}
-
 const STREAM_SESSION_TTL_MS = 5 * 60 * 1000;
-const streamSessionRegistry = new StreamSessionRegistry<DebateStreamPayload>(STREAM_SESSION_TTL_MS);
-
-/*
- * Author: gpt-5-codex
- * Date: 2025-10-22 19:40 UTC
- * PURPOSE: Default debate Prompt Template reference. Use version "latest" and let the provider
- *          omit the explicit version so OpenAI resolves to the newest published template.
- * SRP/DRY check: Pass - Centralized default for debate prompt reference only.
- */
-const STORED_DEBATE_PROMPT: { id: string; version: string } = {
-  id: "pmpt_6856e018a02c8196aa1ccd7eac56ee020cbd4441b7c750b1",
-  version: "latest"
+/** Events kept per turn stream for Last-Event-ID replay; chunks carry cumulative text, so a gap heals on the next one */
+const STREAM_REPLAY_BUFFER_SIZE = 2000;
+const STREAM_RETRY_MS = 1000;
+/** A turn stream waiting for its SSE connection, with the device that opened it */
+type RegisteredDebateStream = DebateStreamPayload & {
+  /** Charged the judge credits when this turn closes a format debate */
+  ownerId: string | null;
 };
-
-const VALID_ROLES: DebateRole[] = ["AFFIRMATIVE", "NEGATIVE"];
-const VALID_REASONING_EFFORTS = new Set(["minimal", "low", "medium", "high"]);
-const VALID_REASONING_SUMMARIES = new Set(["auto", "detailed", "concise"]);
-const VALID_REASONING_VERBOSITIES = new Set(["low", "medium", "high"]);
+const streamSessionRegistry = new StreamSessionRegistry<RegisteredDebateStream>(STREAM_SESSION_TTL_MS, {
+  replayBufferSize: STREAM_REPLAY_BUFFER_SIZE,
+});
 
 function isStreamingEnabled(): boolean {
   const flagValue =
@@ -120,6 +117,57 @@ function cleanupExpiredStreamSessions(): void {
   streamSessionRegistry.cleanupExpired();
 }
 
+/** Forwards turn events to `sink` and resolves once the turn completes (true, and saved) or fails */
+function watchTurn(sink: StreamEventSink): { sink: StreamEventSink; finished: Promise<boolean> } {
+  let settle: (completed: boolean) => void = () => undefined;
+  const finished = new Promise<boolean>(resolve => {
+    settle = resolve;
+  });
+  return {
+    finished,
+    sink: {
+      init: payload => sink.init(payload),
+      status: payload => sink.status(payload),
+      chunk: payload => sink.chunk(payload),
+      error: payload => {
+        sink.error(payload);
+        settle(false);
+      },
+      complete: payload => {
+        sink.complete(payload);
+        settle(true);
+      },
+    },
+  };
+}
+
+/**
+ * Has the judge model adjudicate a format debate once the turn just saved is the last of its plan.
+ * Open-ended debates have no planned end, so they are adjudicated on request or by a server run.
+ */
+async function adjudicateAfterFinalTurn(debateSessionId: string, turnNumber: number, ownerId: string | null): Promise<void> {
+  try {
+    const session = await storage.getDebateSession(debateSessionId);
+    const plannedTurns = session ? plannedDebateTurnCount(session) : null;
+    if (plannedTurns === null || turnNumber < plannedTurns) {
+      return;
+    }
+    await debateAdjudicatorService.autoAdjudicate(debateSessionId, { finalTurn: turnNumber, ownerId });
+  } catch (error) {
+    console.warn(`Automatic adjudication after turn ${turnNumber} of ${debateSessionId} failed:`, error);
+  }
+}
+
+/** The `Last-Event-ID` header an EventSource sends on reconnect, or a `lastEventId` query for manual reconnects */
+function parseLastEventId(req: Request): number | null {
+  const raw = req.get("last-event-id") ?? (typeof req.query.lastEventId === "string" ? req.query.lastEventId : undefined);
+  if (raw === undefined || raw.trim() === "") {
+    return null;
+  }
+  const parsed = Number.parseInt(raw, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
 function ensureString(value: unknown, fieldName: string): string {
   if (typeof value !== "string" || value.trim().length === 0) {
     throw new HttpError(`${fieldName} is required`, 400);
@@ -135,94 +183,146 @@ function ensureNumber(value: unknown, fieldName: string): number {
   return parsed;
 }
 
-function normalizeRole(value: unknown): DebateRole {
-  if (typeof value !== "string") {
-    throw new HttpError("role is required", 400);
-  }
-  const upper = value.toUpperCase();
-  if (!VALID_ROLES.includes(upper as DebateRole)) {
-    throw new HttpError("role must be AFFIRMATIVE or NEGATIVE", 400);
-  }
-  return upper as DebateRole;
+interface DebateSeating {
+  participants: DebateParticipant[];
+  speakingOrder: string[];
 }
 
-function normalizeReasoningEffort(value: unknown): "low" | "medium" | "high" {
-  if (typeof value !== "string") {
-    return "medium";
+/** Validates an optional `participants`/`speakingOrder` pair from a request body; null when absent */
+function parseDebateSeating(body: any): DebateSeating | null {
+  if (body?.participants === undefined || body.participants === null) {
+    return null;
   }
-  const normalized = value.toLowerCase();
-  if (!VALID_REASONING_EFFORTS.has(normalized)) {
-    return "medium";
+  if (!Array.isArray(body.participants)) {
+    throw new HttpError("participants must be an array", 400);
   }
-  if (normalized === "minimal") {
-    return "low";
+  if (body.participants.length < DEBATE_MIN_PARTICIPANTS || body.participants.length > DEBATE_MAX_PARTICIPANTS) {
+    throw new HttpError(`participants must list between ${DEBATE_MIN_PARTICIPANTS} and ${DEBATE_MAX_PARTICIPANTS} debaters`, 400);
   }
-  return (normalized as "low" | "medium" | "high") || "medium";
-}
 
-function normalizeReasoningSummary(value: unknown): "auto" | "detailed" {
-  if (typeof value !== "string") {
-    return "detailed";
-  }
-  const normalized = value.toLowerCase();
-  if (!VALID_REASONING_SUMMARIES.has(normalized)) {
-    return "detailed";
-  }
-  if (normalized === "concise") {
-    return "auto";
+  const participants = normalizeDebateParticipants(
+    body.participants.map((entry: any, index: number) => ({
+      id: typeof entry?.id === "string" ? entry.id : undefined,
+      modelId: ensureString(entry?.modelId, `participants[${index}].modelId`),
+      label: typeof entry?.label === "string" ? entry.label : undefined,
+      position: typeof entry?.position === "string" ? entry.position : undefined,
+      team: typeof entry?.team === "string" || entry?.team === null ? entry.team : undefined,
+    }))
+  );
+
+  participants.forEach((participant, index) => {
+    if (!participant.position) {
+      throw new HttpError(`participants[${index}] needs a position or a team with one`, 400);
+    }
+    if (participants.findIndex(other => other.id === participant.id) !== index) {
+      throw new HttpError(`Duplicate participant id "${participant.id}"`, 400);
+    }
+  });
+
+  const requestedOrder = body.speakingOrder ?? null;
+  if (requestedOrder !== null) {
+    const seatIds = participants.map(participant => participant.id);
+    if (!Array.isArray(requestedOrder) || requestedOrder.some((id: unknown) => typeof id !== "string" || !seatIds.includes(id))) {
+      throw new HttpError(`speakingOrder must only contain participant ids (${seatIds.join(", ")})`, 400);
+    }
   }
-  return (normalized as "auto" | "detailed") || "detailed";
+
+  return {
+    participants,
+    speakingOrder: resolveSpeakingOrder({
+      model1Id: participants[0].modelId,
+      model2Id: participants[1].modelId,
+      participants,
+      speakingOrder: requestedOrder,
+    }),
+  };
 }
 
-function normalizeReasoningVerbosity(value: unknown): "low" | "medium" | "high" {
-  if (typeof value !== "string") {
-    return "high";
+/** Validates an optional `format` id against the formats defined in debate-prompts.md; null when absent */
+function parseDebateFormat(body: any): DebateFormat | null {
+  if (body?.format === undefined || body.format === null || body.format === "") {
+    return null;
   }
-  const normalized = value.toLowerCase();
-  if (!VALID_REASONING_VERBOSITIES.has(normalized)) {
-    return "high";
+  const formatId = ensureString(body.format, "format");
+  const formats = loadDebateInstructions()?.formats ?? [];
+  const format = findDebateFormat(formats, formatId);
+  if (!format) {
+    const known = formats.map(entry => entry.id).join(", ") || "none";
+    throw new HttpError(`Unknown debate format "${formatId}" (available: ${known})`, 400);
   }
-  return normalized as "low" | "medium" | "high";
+  return format;
 }
 
-function normalizeTemperature(value: unknown): number {
-  if (value === null || value === undefined) {
-    return 0.7;
+/** Format a stored session follows; a format removed from the markdown since creation is a 400 */
+function resolveSessionFormat(session: DebateSession): DebateFormat | null {
+  if (!session.format) {
+    return null;
   }
-  const parsed = Number(value);
-  if (!Number.isFinite(parsed)) {
-    return 0.7;
+  const format = findDebateFormat(loadDebateInstructions()?.formats, session.format);
+  if (!format) {
+    throw new HttpError(`Debate format "${session.format}" is no longer defined`, 400);
   }
-  return Math.min(Math.max(parsed, 0), 2);
+  return format;
 }
 
-function normalizeMaxTokens(value: unknown): number {
-  if (value === null || value === undefined) {
-    return 16384;
+/**
+ * Picks the seat speaking this turn: an explicit participantId, else the seat named by a legacy
+ * AFFIRMATIVE/NEGATIVE role, else the format's planned seat or the next seat in the speaking order.
+ * The model must match the seat, and a format session only accepts its planned seat.
+ */
+function resolveStreamParticipant(
+  session: DebateSession,
+  body: any,
+  modelId: string,
+  turnNumber: number,
+  formatSlot: DebateTurnSlot | null,
+): DebateParticipant {
+  const participants = resolveDebateParticipants(session);
+  let participant: DebateParticipant | undefined;
+
+  if (body.participantId !== undefined && body.participantId !== null) {
+    const participantId = ensureString(body.participantId, "participantId");
+    participant = participants.find(seat => seat.id === participantId);
+    if (!participant) {
+      throw new HttpError(`Unknown participantId "${participantId}"`, 400);
+    }
+  } else if (typeof body.role === "string") {
+    const role = body.role.trim().toUpperCase();
+    participant = participants.find(seat => seat.label.toUpperCase() === role);
   }
-  const parsed = Number(value);
-  if (!Number.isFinite(parsed) || parsed <= 0) {
-    return 16384;
+
+  participant ??= (formatSlot && participants.find(seat => seat.id === formatSlot.participantId))
+    || speakerForTurn(session, turnNumber);
+  if (formatSlot && participant.id !== formatSlot.participantId) {
+    throw new HttpError(
+      `Turn ${turnNumber} (${formatSlot.phase.name}) belongs to participant ${formatSlot.participantId}, not ${participant.id}`,
+      400
+    );
+  }
+  if (participant.modelId !== modelId) {
+    throw new HttpError(`modelId "${modelId}" does not match participant ${participant.id} ("${participant.modelId}")`, 400);
   }
-  return Math.floor(parsed);
+  return participant;
 }
 
-async function resolveDebateSessionId(params: {
+async function resolveDebateSession(params: {
   sessionId?: string;
   turnNumber: number;
   topic: string;
   model1Id: string;
   model2Id: string;
   intensityLevel: number;
-}): Promise<string> {
-  const { sessionId, turnNumber, topic, model1Id, model2Id, intensityLevel } = params;
+  seating: DebateSeating | null;
+  format: DebateFormat | null;
+}): Promise<DebateSession> {
+  const { sessionId, turnNumber, topic, model1Id, model2Id, intensityLevel, seating, format } = params;
 
   if (sessionId) {
     const existing = await storage.getDebateSession(sessionId);
     if (!existing) {
       throw new HttpError("Debate session not found", 404);
     }
-    return sessionId;
+    return existing;
   }
 
   if (turnNumber !== 1) {
@@ -237,9 +337,12 @@ async function resolveDebateSessionId(params: {
       adversarialLevel: intensityLevel,
       turnHistory: [],
       model1ResponseIds: [],
-      model2ResponseIds: []
+      model2ResponseIds: [],
+      participants: seating?.participants ?? null,
+      speakingOrder: seating?.speakingOrder ?? null,
+      format: format?.id ?? null
     });
-    return debateSession.id;
+    return debateSession;
   } catch (error) {
     console.error("Failed to create debate session:", error);
     throw new HttpError("Failed to create debate session", 500);
@@ -260,32 +363,47 @@ async function prepareStreamPayload(body: any): Promise<DebateStreamPayload> {
 
   const modelId = ensureString(body.modelId, "modelId");
   const topic = ensureString(body.topic, "topic");
-  const role = normalizeRole(body.role);
-  const position: "FOR" | "AGAINST" = role === "AFFIRMATIVE" ? "FOR" : "AGAINST";
   const rawIntensity = body.intensityLevel ?? body.intensity;
   const intensityLevel = ensureNumber(rawIntensity, "intensityLevel");
   const turnNumber = ensureNumber(body.turnNumber, "turnNumber");
-  const model1Id = ensureString(body.model1Id, "model1Id");
-  const model2Id = ensureString(body.model2Id, "model2Id");
+  const seating = parseDebateSeating(body);
+  const requestedFormat = parseDebateFormat(body);
+  const model1Id = ensureString(body.model1Id ?? seating?.participants[0].modelId, "model1Id");
+  const model2Id = ensureString(body.model2Id ?? seating?.participants[1].modelId, "model2Id");
   const intensityGuidance = sanitizeText(body.intensityGuidance);
   const intensityHeading = sanitizeText(body.intensityHeading);
   const intensityLabel = sanitizeText(body.intensityLabel);
   const intensitySummary = sanitizeText(body.intensitySummary);
   const intensityFullText = sanitizeText(body.intensityFullText);
 
-  const debateSessionId = await resolveDebateSessionId({
+  const debateSession = await resolveDebateSession({
     sessionId: typeof body.sessionId === "string" ? body.sessionId : undefined,
     turnNumber,
     topic,
     model1Id,
     model2Id,
-    intensityLevel
+    intensityLevel,
+    seating,
+    format: requestedFormat
   });
 
-  const opponentMessage =
+  const format = resolveSessionFormat(debateSession);
+  const formatSlot = format ? debateTurnSlot(buildDebateTurnPlan(format, debateSession), turnNumber) : null;
+  if (format && !formatSlot) {
+    throw new HttpError(`The ${format.name} format has no turn ${turnNumber}; the debate is complete`, 400);
+  }
+  const participant = resolveStreamParticipant(debateSession, body, modelId, turnNumber, formatSlot);
+  if (isHumanParticipant(participant)) {
+    throw new HttpError(`Turn ${turnNumber} belongs to a human seat; submit it to /api/debate/session/:id/human-turn`, 400);
+  }
+  const maxTokens = normalizeMaxTokens(body.maxTokens);
+
+  // A human's argument is taken from the saved transcript rather than trusted from the client
+  const opponentMessage = previousHumanTurn(debateSession, turnNumber) ?? (
     typeof body.opponentMessage === "string" && body.opponentMessage.trim().length > 0
       ? body.opponentMessage
-      : null;
+      : null
+  );
   const previousResponseId =
     typeof body.previousResponseId === "string" && body.previousResponseId.trim().length > 0
       ? body.previousResponseId.trim()
@@ -294,8 +412,12 @@ async function prepareStreamPayload(body: any): Promise<DebateStreamPayload> {
   return {
     modelId,
     topic,
-    role,
-    position,
+    participantId: participant.id,
+    role: participant.label.toUpperCase(),
+    position: participant.position,
+    participants: resolveDebateParticipants(debateSession),
+    format,
+    formatSlot,
     intensityLevel,
     intensityGuidance,
     intensityHeading,
@@ -309,244 +431,13 @@ async function prepareStreamPayload(body: any): Promise<DebateStreamPayload> {
     reasoningSummary: normalizeReasoningSummary(body.reasoningSummary),
     reasoningVerbosity: normalizeReasoningVerbosity(body.reasoningVerbosity),
     temperature: normalizeTemperature(body.temperature),
-    maxTokens: normalizeMaxTokens(body.maxTokens),
-    debateSessionId,
-    model1Id,
-    model2Id
-  };
-}
-
-interface DebatePromptContext {
-  messages: Array<{ role: string; content: string }>;
-  intensityValue: string;
-  intensityGuidance: string;
-  intensityHeading: string;
-  intensityLabel: string;
-  intensityLevel: string;
-  intensitySummary: string;
-}
-
-function formatOpponentQuote(message: string | null): string {
-  const trimmed = message?.trim();
-  if (!trimmed) {
-    return "";
-  }
-  return `Opponent's latest statement:\n"""\n${trimmed}\n"""\n\n`;
-}
-
-function describeSupport(position: "FOR" | "AGAINST"): { verb: string; outcome: string } {
-  if (position === "FOR") {
-    return { verb: "support", outcome: "should be adopted" };
-  }
-  return { verb: "oppose", outcome: "should be rejected" };
-}
-
-function buildOpeningInstruction(payload: DebateStreamPayload, intensityHeading: string): string {
-  const { verb } = describeSupport(payload.position);
-  return `Present your opening argument following Robert's Rules of Order. Explain why the proposition "${payload.topic}" should ${verb}. Maintain the ${intensityHeading} adversarial guidance provided in the developer message.`;
-}
-
-function buildRebuttalInstruction(payload: DebateStreamPayload, intensityHeading: string): string {
-  const { outcome } = describeSupport(payload.position);
-  const opponentSection = formatOpponentQuote(payload.opponentMessage);
-  return `${opponentSection}Deliver a rebuttal that:
-1. Addresses your opponent's specific claims.
-2. Refutes their arguments with evidence and logic.
-3. Reinforces why the proposition "${payload.topic}" ${outcome}.
-4. Maintains the ${intensityHeading} adversarial guidance provided in the developer message.`;
-}
-
-function buildPromptContext(
-  payload: DebateStreamPayload,
-  instructions: DebateInstructions | null,
-): DebatePromptContext {
-  const descriptor = getDebateIntensityDescriptor(instructions, payload.intensityLevel);
-  const intensityLevel = String(payload.intensityLevel);
-  const intensityHeading = payload.intensityHeading || descriptor?.heading || `Level ${intensityLevel}`;
-  const intensityLabel = payload.intensityLabel || descriptor?.label || intensityHeading;
-  const intensitySummary = payload.intensitySummary || descriptor?.summary || "";
-  const descriptorGuidance = descriptor?.guidance?.trim() ?? "";
-  const providedGuidance = payload.intensityGuidance || "";
-  const intensityGuidance = providedGuidance || descriptorGuidance;
-  const descriptorFullText = descriptor?.fullText ?? (descriptorGuidance ? `${intensityHeading}\n${descriptorGuidance}` : intensityHeading);
-  const providedFullText = payload.intensityFullText || "";
-  const intensityValue = providedFullText || descriptorFullText;
-
-  const developerSections = [
-    "You are engaged in a debate with another LLM. The debate follows standard parliamentary procedure. You are ethically obligated to provide the best defense for your position. Your opponent will attempt to sway you and the jury; you must stick to your position and convictions.",
-  ];
-
-  if (intensityGuidance) {
-    developerSections.push(`Adversarial intensity guidance:\n${intensityGuidance}`);
-  } else if (descriptorFullText) {
-    developerSections.push(`Adversarial intensity guidance:\n${descriptorFullText}`);
-  } else {
-    developerSections.push(`Adversarial intensity level: ${intensityLevel}`);
-  }
-
-  const baseTemplate = instructions?.baseTemplate?.trim() ||
-    `You are the {role} debater arguing {position} the proposition: "{topic}". Maintain the adversarial guidance provided: {intensity}.`;
-
-  const systemMessage = formatDebateTemplate(baseTemplate, {
-    role: payload.role,
-    position: payload.position,
-    topic: payload.topic,
-    intensity: intensityValue,
-    intensity_level: intensityLevel,
-    intensity_label: intensityLabel,
-    intensity_heading: intensityHeading,
-    intensity_summary: intensitySummary,
-    intensity_guidance: intensityGuidance,
-  }).trim();
-
-  const userMessage = payload.turnNumber <= 2
-    ? buildOpeningInstruction(payload, intensityHeading)
-    : buildRebuttalInstruction(payload, intensityHeading);
-
-  return {
-    messages: [
-      { role: "developer", content: developerSections.join("\n\n") },
-      { role: "system", content: systemMessage },
-      { role: "user", content: userMessage },
-    ],
-    intensityValue,
-    intensityGuidance,
-    intensityHeading,
-    intensityLabel,
-    intensityLevel,
-    intensitySummary,
+    maxTokens: formatSlot?.phase.maxTokens ? Math.min(maxTokens, formatSlot.phase.maxTokens) : maxTokens,
+    debateSessionId: debateSession.id,
+    model1Id: debateSession.model1Id,
+    model2Id: debateSession.model2Id
   };
 }
 
-async function streamDebateTurn(harness: StreamHarness, payload: DebateStreamPayload): Promise<void> {
-  try {
-    harness.status("validating_session", undefined, {
-      debateSessionId: payload.debateSessionId,
-      turnNumber: payload.turnNumber
-    });
-
-    const debateSession = await storage.getDebateSession(payload.debateSessionId);
-    if (!debateSession) {
-      harness.error("Debate session not found", "SESSION_NOT_FOUND");
-      return;
-    }
-
-    let actualPreviousResponseId = payload.previousResponseId ?? null;
-
-    if (payload.turnNumber > 2) {
-      const isModel1 = payload.modelId === debateSession.model1Id;
-      const responseIds = (isModel1
-        ? (debateSession.model1ResponseIds as string[])
-        : (debateSession.model2ResponseIds as string[])) || [];
-      actualPreviousResponseId = responseIds[responseIds.length - 1] || null;
-    }
-
-    const debateInstructions = loadDebateInstructions();
-    const promptContext = buildPromptContext(payload, debateInstructions);
-    const inputMessages = promptContext.messages;
-    const promptVariables: Record<string, string> = {
-      intensity: promptContext.intensityValue,
-      position: payload.position,
-      topic: payload.topic,
-      role: payload.role,
-    };
-
-    harness.status("resolving_provider", undefined, { modelId: payload.modelId });
-    let provider: BaseProvider;
-    try {
-      provider = getProviderForModel(payload.modelId);
-    } catch (error) {
-      console.error("Failed to resolve provider for debate stream:", error);
-      harness.error("Provider not found for selected model", "PROVIDER_NOT_FOUND");
-      return;
-    }
-
-    if (!provider.callModelStreaming) {
-      harness.error("Streaming not supported for this provider", "STREAMING_NOT_SUPPORTED");
-      return;
-    }
-
-    harness.status("provider_ready", undefined, { provider: provider.name });
-    harness.status("stream_start", undefined, { provider: provider.name });
-
-    await provider.callModelStreaming({
-      modelId: payload.modelId,
-      messages: inputMessages,
-      previousResponseId: actualPreviousResponseId || undefined,
-      temperature: payload.temperature,
-      maxTokens: payload.maxTokens,
-      reasoningConfig: {
-        effort: payload.reasoningEffort,
-        summary: payload.reasoningSummary,
-        verbosity: payload.reasoningVerbosity
-      },
-      prompt: {
-        ...STORED_DEBATE_PROMPT,
-        variables: promptVariables,
-      },
-      onStatus: (phase, data) => {
-        harness.status(phase, undefined, {
-          provider: provider.name,
-          ...(data ?? {})
-        });
-      },
-      onReasoningChunk: (chunk: string) => {
-        harness.pushReasoning(chunk);
-      },
-      onContentChunk: (chunk: string) => {
-        harness.pushContent(chunk);
-      },
-      onJsonChunk: (chunk: unknown) => {
-        harness.pushJsonChunk(chunk);
-      },
-      onComplete: async (responseId: string, tokenUsage: any, cost: any, extras) => {
-        harness.status("persisting", undefined, { responseId });
-        const finalContent = extras?.content ?? harness.getContent();
-        const finalReasoning = extras?.reasoning ?? harness.getReasoning();
-        const structuredOutput = extras?.structuredOutput ?? harness.getJsonChunks();
-
-        try {
-          const turnCostRaw = typeof cost?.total === "number" ? cost.total : Number(cost ?? 0);
-          const turnCost = Number.isFinite(turnCostRaw) ? turnCostRaw : 0;
-          await storage.updateDebateSession(payload.debateSessionId, {
-            turn: payload.turnNumber,
-            modelId: payload.modelId,
-            content: finalContent,
-            reasoning: finalReasoning,
-            responseId,
-            cost: turnCost,
-            costBreakdown: cost,
-            tokenUsage,
-            structuredOutput,
-            summary: finalReasoning
-          });
-        } catch (error) {
-          console.error("Failed to save turn data:", error);
-        }
-
-        harness.complete({
-          responseId,
-          tokenUsage,
-          cost,
-          responseSummary: finalReasoning,
-          metadata: {
-            debateSessionId: payload.debateSessionId,
-            turnNumber: payload.turnNumber,
-            structuredOutput,
-            promptVariables
-          }
-        });
-      },
-      onError: (error: Error) => {
-        harness.error(error);
-      }
-    });
-  } catch (error) {
-    console.error("Debate stream error:", error);
-    harness.error(error instanceof Error ? error : new Error("Unknown error"));
-  }
-}
-
 router.get("/sessions", async (req, res) => {
   try {
     const sessions = await storage.listDebateSessions();
@@ -589,6 +480,27 @@ router.get("/sessions", async (req, res) => {
         payload.jurySummary = jurySummary;
       }
 
+      if (session.verdict) {
+        payload.verdict = session.verdict;
+      }
+
+      if (session.participants) {
+        payload.participants = session.participants;
+      }
+
+      if (session.format) {
+        payload.format = session.format;
+      }
+
+      if (session.autoRun) {
+        payload.autoRun = { status: session.autoRun.status, targetTurns: session.autoRun.targetTurns };
+      }
+
+      if (session.parentSessionId) {
+        payload.parentSessionId = session.parentSessionId;
+        payload.forkedAtTurn = session.forkedAtTurn;
+      }
+
       return payload;
     });
 
@@ -603,11 +515,19 @@ router.get("/sessions", async (req, res) => {
 // NOW WITH CREDIT CHECKS - 5 credits to create session
 router.post("/session", ensureDeviceUser, async (req, res) => {
   try {
-    const { topic, model1Id, model2Id, adversarialLevel } = req.body;
+    const { topic, adversarialLevel } = req.body;
+    const seating = parseDebateSeating(req.body);
+    const format = parseDebateFormat(req.body);
+    const model1Id = seating?.participants[0].modelId ?? req.body.model1Id;
+    const model2Id = seating?.participants[1].modelId ?? req.body.model2Id;
 
     if (!topic || !model1Id || !model2Id || adversarialLevel == null) {
       return res.status(400).json({ error: "Missing required fields" });
     }
+    const seats = seating?.participants ?? resolveDebateParticipants({ model1Id, model2Id });
+    if (seats.every(isHumanParticipant)) {
+      return res.status(400).json({ error: "At least one debater must be a model" });
+    }
 
     // Reserve 5 credits for debate session creation
     const reservationMiddleware = reserveDeviceCredits(5);
@@ -631,7 +551,10 @@ router.post("/session", ensureDeviceUser, async (req, res) => {
         adversarialLevel: adversarialLevel,
         turnHistory: [],
         model1ResponseIds: [],
-        model2ResponseIds: []
+        model2ResponseIds: [],
+        participants: seating?.participants ?? null,
+        speakingOrder: seating?.speakingOrder ?? null,
+        format: format?.id ?? null
       });
 
       // COMMIT credits after successful session creation
@@ -642,6 +565,9 @@ router.post("/session", ensureDeviceUser, async (req, res) => {
         topic: debateSession.topicText,
         model1Id: debateSession.model1Id,
         model2Id: debateSession.model2Id,
+        participants: resolveDebateParticipants(debateSession),
+        speakingOrder: resolveSpeakingOrder(debateSession),
+        format: debateSession.format ?? null,
         adversarialLevel: debateSession.adversarialLevel,
         createdAt: debateSession.createdAt,
         creditsUsed: 5,
@@ -652,11 +578,39 @@ router.post("/session", ensureDeviceUser, async (req, res) => {
       throw sessionError;
     }
   } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error("Failed to create debate session:", error);
     res.status(500).json({ error: "Failed to create debate session" });
   }
 });
 
+/** Full session payload served by GET /session/:id and returned when a session is forked */
+function toSessionDetails(session: DebateSession) {
+  return {
+    id: session.id,
+    topic: session.topicText,
+    model1Id: session.model1Id,
+    model2Id: session.model2Id,
+    participants: resolveDebateParticipants(session),
+    speakingOrder: resolveSpeakingOrder(session),
+    format: session.format ?? null,
+    adversarialLevel: session.adversarialLevel,
+    turnHistory: session.turnHistory,
+    model1ResponseIds: session.model1ResponseIds,
+    model2ResponseIds: session.model2ResponseIds,
+    participantResponseIds: resolveParticipantResponseIds(session),
+    totalCost: session.totalCost,
+    verdict: session.verdict ?? null,
+    autoRun: session.autoRun ?? null,
+    parentSessionId: session.parentSessionId ?? null,
+    forkedAtTurn: session.forkedAtTurn ?? null,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt
+  };
+}
+
 // GET /api/debate/session/:id - Get specific debate session
 router.get("/session/:id", async (req, res) => {
   try {
@@ -667,25 +621,295 @@ router.get("/session/:id", async (req, res) => {
       return res.status(404).json({ error: "Debate session not found" });
     }
 
-    res.json({
-      id: session.id,
-      topic: session.topicText,
-      model1Id: session.model1Id,
-      model2Id: session.model2Id,
-      adversarialLevel: session.adversarialLevel,
-      turnHistory: session.turnHistory,
-      model1ResponseIds: session.model1ResponseIds,
-      model2ResponseIds: session.model2ResponseIds,
-      totalCost: session.totalCost,
-      createdAt: session.createdAt,
-      updatedAt: session.updatedAt
-    });
+    res.json(toSessionDetails(session));
   } catch (error) {
     console.error("Failed to get debate session:", error);
     res.status(500).json({ error: "Failed to get debate session" });
   }
 });
 
+// POST /api/debate/session/:id/adjudicate - Have the judge model score the turns and pick a winner
+// Charges DEBATE_JUDGE_CREDITS; re-adjudicating replaces the stored verdict
+router.post("/session/:id/adjudicate", ensureDeviceUser, async (req, res) => {
+  try {
+    const judgeModelId = req.body?.judgeModelId === undefined
+      ? undefined
+      : ensureString(req.body.judgeModelId, "judgeModelId");
+
+    const session = await storage.getDebateSession(req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: "Debate session not found" });
+    }
+
+    const creditsNeeded = getDebateJudgeConfig().creditCost;
+    const reservationMiddleware = reserveDeviceCredits(creditsNeeded);
+    try {
+      await new Promise<void>((resolve, reject) => {
+        reservationMiddleware(req, res, (err?: any) => {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+    } catch (reservationError) {
+      // Reservation failed - already sent 402 response
+      return;
+    }
+
+    try {
+      const verdict = await debateAdjudicatorService.adjudicate(session, { judgeModelId });
+      await commitDeviceCredits(req);
+      res.json({ verdict, creditsUsed: creditsNeeded });
+    } catch (adjudicationError) {
+      await refundDeviceCredits(req);
+      throw adjudicationError;
+    }
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    sendRouteError(res, error, "Failed to adjudicate debate session");
+  }
+});
+
+const factCheckSchema = z.object({
+  /** Turn numbers to check; every turn with content when omitted */
+  turns: z.array(z.number().int().positive()).max(100).optional(),
+  checkerModelId: z.string().min(1).optional(),
+  /** Re-check turns that already carry a fact-check */
+  force: z.boolean().optional(),
+});
+
+// POST /api/debate/session/:id/fact-check - Rate the factual claims of finished turns with a checker model
+// Charges DEBATE_FACT_CHECK_CREDITS per turn checked; turns that fail to check are not charged
+router.post("/session/:id/fact-check", ensureDeviceUser, async (req, res) => {
+  try {
+    const body = factCheckSchema.parse(req.body ?? {});
+    const session = await storage.getDebateSession(req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: "Debate session not found" });
+    }
+
+    const turns = debateFactCheckService.selectTurns(session, body.turns, body.force);
+    const creditsPerTurn = getDebateFactCheckConfig().creditCost;
+    if (req.deviceUser && turns.length * creditsPerTurn > 0) {
+      const credits = await storage.getUserCredits(req.deviceUser.id);
+      if (credits < turns.length * creditsPerTurn) {
+        return res.status(402).json({
+          error: "Insufficient credits",
+          message: `Fact-checking ${turns.length} turn(s) costs ${turns.length * creditsPerTurn} credits; you have ${credits}.`,
+          credits,
+          requiresPayment: true,
+        });
+      }
+    }
+
+    const results: Array<{ turn: number; factCheck: unknown }> = [];
+    const failures: Array<{ turn: number; error: string }> = [];
+    let firstError: unknown = null;
+    for (const turn of turns) {
+      try {
+        results.push({ turn, factCheck: await debateFactCheckService.checkTurn(session, turn, { checkerModelId: body.checkerModelId }) });
+      } catch (error) {
+        firstError ??= error;
+        failures.push({ turn, error: error instanceof Error ? error.message : "Fact-check failed" });
+      }
+    }
+    if (results.length === 0 && firstError) {
+      throw firstError;
+    }
+
+    await deductCreditsForSuccessfulCalls(req, results.length, creditsPerTurn);
+    res.json({ results, failures, creditsUsed: results.length * creditsPerTurn });
+  } catch (error) {
+    sendRouteError(res, error, "Failed to fact-check debate turns");
+  }
+});
+
+const forkSchema = z.object({
+  /** Last turn copied into the fork */
+  atTurn: z.number().int().positive(),
+  adversarialLevel: z.number().int().min(1).max(4).optional(),
+  /** Seat id -> model that plays the seat from the fork onwards */
+  seatModels: z.record(z.string().min(1)).optional(),
+});
+
+// POST /api/debate/session/:id/fork - Copy the debate up to a turn into a new session that can continue differently
+// Charges the same 5 credits as creating a session; the copied turns are not charged again
+router.post("/session/:id/fork", ensureDeviceUser, async (req, res) => {
+  try {
+    const body = forkSchema.parse(req.body ?? {});
+    const session = await storage.getDebateSession(req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: "Debate session not found" });
+    }
+
+    const reservationMiddleware = reserveDeviceCredits(5);
+    try {
+      await new Promise<void>((resolve, reject) => {
+        reservationMiddleware(req, res, (err?: any) => {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+    } catch (reservationError) {
+      // Reservation failed - already sent 402 response
+      return;
+    }
+
+    try {
+      const fork = await debateForkService.fork(session, body);
+      await commitDeviceCredits(req);
+      res.status(201).json({ ...toSessionDetails(fork), creditsUsed: 5 });
+    } catch (forkError) {
+      await refundDeviceCredits(req);
+      throw forkError;
+    }
+  } catch (error) {
+    sendRouteError(res, error, "Failed to fork debate session");
+  }
+});
+
+const seatSettingsSchema = z.object({
+  reasoningEffort: z.enum(["minimal", "low", "medium", "high"]).optional(),
+  reasoningSummary: z.enum(["auto", "detailed", "concise"]).optional(),
+  reasoningVerbosity: z.enum(["low", "medium", "high"]).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().positive().optional(),
+});
+
+const startRunSchema = z.object({
+  turns: z.number().int().positive().optional(),
+  seatSettings: z.record(seatSettingsSchema).optional(),
+});
+
+/** 402 in the same shape as reserveDeviceCredits when the device cannot pay for the next turn */
+async function ensureCreditsForTurn(req: Request, res: Response): Promise<boolean> {
+  const creditsPerTurn = getDebateRunConfig().creditsPerTurn;
+  if (!req.deviceUser || creditsPerTurn === 0) return true;
+  const credits = await storage.getUserCredits(req.deviceUser.id);
+  if (credits >= creditsPerTurn) return true;
+  res.status(402).json({
+    error: "Insufficient credits",
+    message: `Each server-played turn costs ${creditsPerTurn} credits; you have ${credits}.`,
+    credits,
+    requiresPayment: true,
+  });
+  return false;
+}
+
+/** Checks the caller started the session's run; responds 404/403 and returns false otherwise */
+async function ensureRunOwner(req: Request, res: Response): Promise<boolean> {
+  const session = await storage.getDebateSession(req.params.id);
+  if (!session?.autoRun) {
+    res.status(404).json({ error: "Debate run not found" });
+    return false;
+  }
+  if (session.autoRun.ownerId && session.autoRun.ownerId !== req.deviceUser?.id) {
+    res.status(403).json({ error: "Only the device that started this debate run can control it" });
+    return false;
+  }
+  return true;
+}
+
+// POST /api/debate/session/:id/run - Play the remaining turns on the server, with no browser attached
+// Charges DEBATE_RUN_CREDITS_PER_TURN per turn played; the run stops itself when credits run out
+router.post("/session/:id/run", ensureDeviceUser, async (req, res) => {
+  try {
+    const body = startRunSchema.parse(req.body ?? {});
+    if (!(await storage.getDebateSession(req.params.id))) {
+      return res.status(404).json({ error: "Debate session not found" });
+    }
+    if (!(await ensureCreditsForTurn(req, res))) return;
+
+    const run = await debateOrchestrator.startRun(req.params.id, {
+      turns: body.turns,
+      seatSettings: body.seatSettings,
+      ownerId: req.deviceUser?.id ?? null,
+    });
+    res.status(202).json(run);
+  } catch (error) {
+    sendRouteError(res, error, "Failed to start debate run");
+  }
+});
+
+// POST /api/debate/session/:id/run/stop - The turn in flight finishes and is saved; no further turns start
+router.post("/session/:id/run/stop", ensureDeviceUser, async (req, res) => {
+  try {
+    if (!(await ensureRunOwner(req, res))) return;
+    res.json(await debateOrchestrator.stopRun(req.params.id));
+  } catch (error) {
+    sendRouteError(res, error, "Failed to stop debate run");
+  }
+});
+
+// POST /api/debate/session/:id/run/resume - Continue a stopped, failed or orphaned run from the last saved turn
+router.post("/session/:id/run/resume", ensureDeviceUser, async (req, res) => {
+  try {
+    if (!(await ensureRunOwner(req, res))) return;
+    if (!(await ensureCreditsForTurn(req, res))) return;
+    res.json(await debateOrchestrator.resumeRun(req.params.id));
+  } catch (error) {
+    sendRouteError(res, error, "Failed to resume debate run");
+  }
+});
+
+router.get("/session/:id/run", async (req, res) => {
+  try {
+    const run = await debateOrchestrator.getSummary(req.params.id);
+    if (!run) {
+      return res.status(404).json({ error: "Debate run not found" });
+    }
+    res.json(run);
+  } catch (error) {
+    sendRouteError(res, error, "Failed to get debate run");
+  }
+});
+
+// GET /api/debate/session/:id/run/events - SSE: run.snapshot, then turn.* events until run.end; re-attach any time
+router.get("/session/:id/run/events", async (req, res) => {
+  try {
+    if (!(await debateOrchestrator.getSummary(req.params.id))) {
+      return res.status(404).json({ error: "Debate run not found" });
+    }
+    await debateOrchestrator.attach(req.params.id, res);
+  } catch (error) {
+    if (res.headersSent) {
+      console.error("Debate run event stream failed:", error);
+      return;
+    }
+    sendRouteError(res, error, "Failed to attach to debate run");
+  }
+});
+
+const humanTurnSchema = z.object({
+  turnNumber: z.number().int().positive(),
+  participantId: z.string().min(1).optional(),
+  content: z.string().trim().min(1).max(DEBATE_HUMAN_TURN_MAX_CHARS),
+});
+
+// POST /api/debate/session/:id/human-turn - Record the argument typed for a human seat as the next turn
+// Free; the model speaking next answers it through the normal stream routes
+router.post("/session/:id/human-turn", ensureDeviceUser, async (req, res) => {
+  try {
+    const body = humanTurnSchema.parse(req.body ?? {});
+    const session = await storage.getDebateSession(req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: "Debate session not found" });
+    }
+
+    const participant = await recordHumanTurn(session, body);
+    void adjudicateAfterFinalTurn(session.id, body.turnNumber, req.deviceUser?.id ?? null);
+    res.status(201).json({
+      debateSessionId: session.id,
+      turnNumber: body.turnNumber,
+      participantId: participant.id,
+      content: body.content,
+    });
+  } catch (error) {
+    sendRouteError(res, error, "Failed to record human turn");
+  }
+});
+
 router.post("/stream/init", ensureDeviceUser, async (req, res) => {
   if (!isStreamingEnabled()) {
     res.status(503).json({ error: "Streaming is disabled by configuration" });
@@ -713,7 +937,10 @@ router.post("/stream/init", ensureDeviceUser, async (req, res) => {
 
       const taskId = buildTaskId(payload);
       const modelKey = payload.modelId;
-      const { sessionId, expiresAt } = streamSessionRegistry.createSession(taskId, modelKey, payload);
+      const { sessionId, expiresAt } = streamSessionRegistry.createSession(taskId, modelKey, {
+        ...payload,
+        ownerId: req.deviceUser?.id ?? null,
+      });
 
       // COMMIT credits after successful stream initialization
       await commitDeviceCredits(req);
@@ -723,6 +950,7 @@ router.post("/stream/init", ensureDeviceUser, async (req, res) => {
         taskId,
         modelKey,
         debateSessionId: payload.debateSessionId,
+        participantId: payload.participantId,
         expiresAt: new Date(expiresAt).toISOString(),
         creditsUsed: 5,
       });
@@ -750,9 +978,22 @@ router.get("/stream/:taskId/:modelKey/:sessionId", async (req, res) => {
   cleanupExpiredStreamSessions();
 
   const { taskId, modelKey, sessionId } = req.params;
+  const lastEventId = parseLastEventId(req);
+
+  // Reconnect: replay what the client missed, then follow the turn that is still streaming
+  if (lastEventId !== null) {
+    const resumed = streamSessionRegistry.resumeSession(sessionId, { taskId, modelKey });
+    if (!resumed?.stream) {
+      res.status(404).json({ error: "Stream session not found or expired" });
+      return;
+    }
+    resumed.stream.attach(new SseStreamManager(res, { taskId, modelKey, sessionId, retryMs: STREAM_RETRY_MS }), lastEventId);
+    return;
+  }
+
   const sessionEntry = streamSessionRegistry.consumeSession(sessionId, { taskId, modelKey });
 
-  if (!sessionEntry) {
+  if (!sessionEntry?.stream) {
     res.status(404).json({ error: "Stream session not found or expired" });
     return;
   }
@@ -760,10 +1001,19 @@ router.get("/stream/:taskId/:modelKey/:sessionId", async (req, res) => {
   const manager = new SseStreamManager(res, {
     taskId,
     modelKey,
-    sessionId
+    sessionId,
+    retryMs: STREAM_RETRY_MS
   });
+  sessionEntry.stream.attach(manager, null);
+
+  const { payload } = sessionEntry;
+  const turn = watchTurn(sessionEntry.stream);
+  // Not awaited: the judge runs after the client has its turn, which then polls for the verdict
+  void turn.finished.then(completed => completed
+    ? adjudicateAfterFinalTurn(payload.debateSessionId, payload.turnNumber, payload.ownerId)
+    : undefined);
 
-  const harness = new StreamHarness(manager);
+  const harness = new StreamHarness(turn.sink);
   harness.init({
     debateSessionId: sessionEntry.payload.debateSessionId,
     turnNumber: sessionEntry.payload.turnNumber,
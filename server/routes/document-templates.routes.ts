@@ -0,0 +1,35 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Document template HTTP endpoints: list the templates pipelines can run, and fetch one with its
+ *          variables, section DAG and prompts so the Document Builder can render its form and tracker.
+ * SRP/DRY check: Pass - Response mapping only; discovery lives in DocumentTemplateService.
+ */
+import { Router } from "express";
+import { documentTemplateService } from "../services/document-template.service.js";
+import { ValidationError, sendRouteError } from "../errors.js";
+import { ApiResponse } from "../utils/response.js";
+
+const router = Router();
+
+router.get("/", async (_req, res) => {
+  try {
+    return ApiResponse.success(res, documentTemplateService.list());
+  } catch (error) {
+    return sendRouteError(res, error, "Failed to list document templates");
+  }
+});
+
+router.get("/:id", async (req, res) => {
+  try {
+    return ApiResponse.success(res, documentTemplateService.get(req.params.id));
+  } catch (error) {
+    // The only ValidationError here is an unknown template id
+    if (error instanceof ValidationError) {
+      return ApiResponse.error(res, error.message, 404);
+    }
+    return sendRouteError(res, error, "Failed to fetch document template");
+  }
+});
+
+export { router as documentTemplateRoutes };
@@ -153,7 +153,8 @@ router.post("/", ensureDeviceUser, async (req, res) => {
               tokenUsage: result.tokenUsage ?? { input: 0, output: 0 },
               cost: result.cost ?? { total: 0, input: 0, output: 0 },
               resolvedPrompt,
-              modelConfig: result.modelConfig
+              modelConfig: result.modelConfig,
+              route: result.route
             })}\n\n`);
 
           } catch (error) {
@@ -330,6 +331,7 @@ router.post("/structured", async (req, res) => {
       tokenUsage: result.tokenUsage,
       cost: result.cost,
       modelConfig: result.modelConfig,
+      route: result.route,
       audit: auditInfo,
       messageStructure: messages.map((m: any) => ({ role: m.role, contentLength: m.content.length }))
     });
@@ -6,8 +6,9 @@
  */
 import { Router } from "express";
 import { getDatabaseManager } from "../db.js";
-import { getAllModels } from "../providers/index.js";
+import { getAllModels, getCircuitBreakerMetrics, setCircuitBreakerOverride } from "../providers/index.js";
 import { contextLog } from "../request-context.js";
+import { requireAdminToken } from "../middleware/admin-auth.js";
 
 const router = Router();
 
@@ -129,4 +130,35 @@ router.get("/ready", async (req, res) => {
   }
 });
 
+// Per-provider circuit breaker state with rolling failure rate, latency percentiles and last error
+router.get("/providers", (req, res) => {
+  const providers = getCircuitBreakerMetrics();
+  const openProviders = Object.entries(providers)
+    .filter(([, metrics]) => metrics.state === "OPEN")
+    .map(([name]) => name);
+
+  contextLog("Provider health requested", { openProviders });
+  res.json({
+    status: openProviders.length === 0 ? "healthy" : "degraded",
+    timestamp: new Date().toISOString(),
+    openProviders,
+    providers
+  });
+});
+
+// Operator overrides: reset clears a tripped (or forced) breaker, force-open holds it OPEN until reset
+router.post("/providers/:provider/:action(reset|force-open)", requireAdminToken, (req, res) => {
+  const action = req.params.action as "reset" | "force-open";
+  const metrics = setCircuitBreakerOverride(req.params.provider, action);
+  if (!metrics) {
+    return res.status(404).json({
+      error: "Provider not found",
+      message: `No circuit breaker registered for provider '${req.params.provider}'`
+    });
+  }
+
+  console.warn(`[health] Circuit breaker ${action} for provider ${req.params.provider}`);
+  res.json({ provider: req.params.provider, action, breaker: metrics });
+});
+
 export { router as healthRoutes };
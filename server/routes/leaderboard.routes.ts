@@ -0,0 +1,136 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Leaderboard HTTP endpoints. Serves Elo / Bradley-Terry tables filtered by compare-prompts.md
+ *          category and matchup source, lists the categories, and records human compare/battle votes
+ *          and debate jury verdicts as pairwise matchups. Judge verdicts are recorded by the judge route.
+ * SRP/DRY check: Pass - Request validation and response shaping only; rating and ingestion live in
+ *                LeaderboardService.
+ */
+import { Router } from "express";
+import { z } from "zod";
+import { leaderboardService } from "../services/leaderboard.service.js";
+import { getStorage } from "../storage.js";
+import { ValidationError, sendRouteError } from "../errors.js";
+import { ensureDeviceUser } from "../device-auth.js";
+import { ApiResponse } from "../utils/response.js";
+import { MATCHUP_SOURCES, RATING_METHODS } from "../../shared/leaderboard-types.js";
+
+const router = Router();
+
+const leaderboardQuerySchema = z.object({
+  method: z.enum(RATING_METHODS).default('elo'),
+  category: z.string().min(1).optional(),
+  // Comma-separated, e.g. ?source=human_vote,judge
+  source: z.string().optional().transform((value, ctx) => {
+    const sources = (value ?? '').split(',').map(source => source.trim()).filter(Boolean);
+    const unknown = sources.filter(source => !(MATCHUP_SOURCES as readonly string[]).includes(source));
+    if (unknown.length > 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown source: ${unknown.join(', ')}` });
+      return z.NEVER;
+    }
+    return sources as typeof MATCHUP_SOURCES[number][];
+  }),
+});
+
+const voteSchema = z.object({
+  source: z.enum(['human_vote', 'battle']).default('human_vote'),
+  // Compare votes may omit modelIds/category and let the stored comparison supply them
+  comparisonId: z.string().min(1).optional(),
+  referenceId: z.string().min(1).optional(),
+  modelIds: z.array(z.string().min(1)).min(2).optional(),
+  winnerModelId: z.string().min(1).nullable().default(null),
+  category: z.string().min(1).optional(),
+});
+
+const juryVerdictSchema = z.object({
+  annotations: z.record(z.object({ points: z.number() }).passthrough()),
+});
+
+// Ratings table; ?method=elo|bradley-terry&category=<section id>&source=<comma list>
+router.get("/", async (req, res) => {
+  try {
+    const query = leaderboardQuerySchema.parse(req.query);
+    const leaderboard = await leaderboardService.getLeaderboard({
+      method: query.method,
+      category: query.category,
+      sources: query.source,
+    });
+    return ApiResponse.success(res, leaderboard);
+  } catch (error) {
+    return sendRouteError(res, error, "Failed to build leaderboard");
+  }
+});
+
+// Prompt categories (## sections of compare-prompts.md) the leaderboard can be filtered by
+router.get("/categories", (req, res) => {
+  return ApiResponse.success(res, leaderboardService.getCategories(req.app.locals.templateCompiler));
+});
+
+// Human "best response" vote for a comparison, or a battle winner; winnerModelId null records a tie
+router.post("/votes", ensureDeviceUser, async (req, res) => {
+  try {
+    const vote = voteSchema.parse(req.body ?? {});
+    let modelIds = vote.modelIds;
+    let category = vote.category ?? null;
+
+    if (vote.comparisonId) {
+      const storage = await getStorage();
+      const comparison = await storage.getComparison(vote.comparisonId);
+      if (!comparison) {
+        return ApiResponse.error(res, "Comparison not found", 404);
+      }
+      const outsiders = (modelIds ?? []).filter(modelId => !comparison.selectedModels.includes(modelId));
+      if (outsiders.length > 0) {
+        throw new ValidationError(`Models were not part of this comparison: ${outsiders.join(', ')}`, {
+          comparisonId: comparison.id,
+          modelIds: outsiders,
+        });
+      }
+      modelIds = modelIds ?? comparison.selectedModels;
+      category = category ?? leaderboardService.categorizePrompt(comparison.prompt, req.app.locals.templateCompiler);
+    }
+    if (!modelIds) {
+      return ApiResponse.error(res, "modelIds or comparisonId is required", 400);
+    }
+    // Without a reference a device could post the same vote again and again
+    const referenceId = vote.comparisonId ?? vote.referenceId;
+    if (!referenceId) {
+      return ApiResponse.error(res, "comparisonId or referenceId is required", 400);
+    }
+
+    const recorded = await leaderboardService.recordVote({
+      source: vote.source,
+      modelIds,
+      winnerModelId: vote.winnerModelId,
+      category,
+      referenceId,
+      voterId: req.deviceUser?.id ?? null,
+    });
+    return ApiResponse.success(res, { recorded, category });
+  } catch (error) {
+    return sendRouteError(res, error, "Failed to record vote");
+  }
+});
+
+// Jury verdict for a persisted debate; body mirrors the client's JuryAnnotation map keyed by participant id
+router.post("/debates/:sessionId/jury", ensureDeviceUser, async (req, res) => {
+  try {
+    const { annotations } = juryVerdictSchema.parse(req.body ?? {});
+    const storage = await getStorage();
+    const session = await storage.getDebateSession(req.params.sessionId);
+    if (!session) {
+      return ApiResponse.error(res, "Debate session not found", 404);
+    }
+
+    const points = Object.fromEntries(
+      Object.entries(annotations).map(([participantId, annotation]) => [participantId, annotation.points])
+    );
+    const matchups = await leaderboardService.recordDebateJury(session, points, req.deviceUser?.id ?? null);
+    return ApiResponse.success(res, { matchups });
+  } catch (error) {
+    return sendRouteError(res, error, "Failed to record jury verdict");
+  }
+});
+
+export { router as leaderboardRoutes };
@@ -1,31 +1,87 @@
 /*
  * Author: Cascade
  * Date: October 14, 2025 and 7:23pm UTC-04:00
- * PURPOSE: This routes file handles model-related endpoints, including retrieving available AI models from the catalog, comparing models with parallel processing, and managing comparison history. It integrates with providers for model calls, storage for persistence, and device-auth for credit checks.
+ * PURPOSE: This routes file handles model-related endpoints, including retrieving available AI models from the catalog, comparing models with parallel processing (buffered or streamed over SSE), and managing comparison history. It integrates with providers for model calls, storage for persistence, and device-auth for credit checks.
  * SRP/DRY check: Pass - Focused solely on model catalog and comparison logic. Model patterns were repeated in the monolithic routes.ts; this extracts them. Reviewed existing model code to ensure no duplication.
  */
 import { Router } from "express";
+import { randomUUID } from "crypto";
 import { z } from "zod";
 import { callModel } from "../providers/index.js";
 import { modelService } from "../services/model.service.js";
+import { judgeService } from "../services/judge.service.js";
+import { leaderboardService } from "../services/leaderboard.service.js";
+import { gradingService } from "../services/grading.service.js";
 import { getStorage } from "../storage.js";
-import { getDisplayForModelId, MODEL_CATALOG } from "../../shared/model-catalog.js";
-import { ensureDeviceUser, reserveDeviceCredits, commitDeviceCredits, refundDeviceCredits } from "../device-auth.js";
+import { getDisplayForModelId, MODEL_CATALOG, MOCK_MODEL_CATALOG } from "../../shared/model-catalog.js";
+import { REFERENCE_GRADER_TYPES } from "../../shared/reference-answer.js";
+import { getGradingConfig, getJudgeConfig, getMockProviderConfig } from "../config.js";
+import { sendRouteError } from "../errors.js";
+import {
+  ensureDeviceUser,
+  reserveDeviceCredits,
+  commitDeviceCredits,
+  refundDeviceCredits,
+  commitCreditReservation,
+  refundCreditReservation,
+} from "../device-auth.js";
 import { ApiResponse } from "../utils/response.js";
+import { StreamSessionRegistry } from "../streaming/session-registry.js";
+import { SseStreamManager } from "../streaming/sse-manager.js";
+import { CompareStreamHarness } from "../streaming/compare-stream-harness.js";
 
 const router = Router();
 
+interface CompareStreamPayload {
+  prompt: string;
+  modelIds: string[];
+  /** Held from init until the stream settles: committed if any model answers, refunded otherwise */
+  reservationId: string;
+}
+
+// All selected models share one multiplexed SSE channel, keyed by this fixed model key
+const COMPARE_STREAM_MODEL_KEY = "all";
+const COMPARE_STREAM_TTL_MS = 5 * 60 * 1000;
+// A session nobody opened releases its credits; the reservation's own expiry backs this up
+const compareStreamSessions = new StreamSessionRegistry<CompareStreamPayload>(COMPARE_STREAM_TTL_MS, {
+  onUnconsumedExpiry: entry => void refundCreditReservation(entry.payload.reservationId),
+});
+
 const compareModelsSchema = z.object({
   prompt: z.string().min(1).max(4000),
   mode: z.enum(['compare', 'generate', 'reasoning']).default('compare'),
   modelIds: z.array(z.string()).min(1),
 });
 
+const judgeComparisonSchema = z.object({
+  judgeModelId: z.string().min(1).optional(),
+  rubric: z.array(z.object({
+    id: z.string().min(1).max(40),
+    label: z.string().min(1).max(80),
+    description: z.string().max(500).default(''),
+    weight: z.number().positive().max(10).default(1),
+  })).min(1).max(10).optional(),
+});
+
+// Either an inline reference answer or a template id; with neither, the prompt is matched against annotated templates
+const gradeComparisonSchema = z.object({
+  templateId: z.string().min(1).optional(),
+  reference: z.object({
+    answer: z.string().min(1).max(2000),
+    grader: z.enum(REFERENCE_GRADER_TYPES),
+    tolerance: z.number().nonnegative().optional(),
+    relativeTolerance: z.boolean().optional(),
+  }).optional(),
+});
+
 // Get available models - using centralized configuration
 router.get("/", async (req, res) => {
   try {
-    // Use MODEL_CATALOG for display metadata
-    const models = Object.values(MODEL_CATALOG).map(model => {
+    // Use MODEL_CATALOG for display metadata; offline mock models only when the mock provider is on
+    const catalog = getMockProviderConfig().enabled
+      ? { ...MODEL_CATALOG, ...MOCK_MODEL_CATALOG }
+      : MODEL_CATALOG;
+    const models = Object.values(catalog).map(model => {
       // Helper function to parse cost ranges like "$0.40 - $1.20"
       const parseCost = (costString: string): number => {
         const cleaned = costString.replace(/\$/g, '');
@@ -140,6 +196,98 @@ router.post("/compare", ensureDeviceUser, async (req, res) => {
   }
 });
 
+// Streaming compare, step 1: validate, reserve credits and hand back an SSE session. The reservation is settled
+// by the stream itself, like /compare: committed once any model answers, refunded if none do or it is never opened.
+router.post("/compare/stream/init", ensureDeviceUser, async (req, res) => {
+  try {
+    const { prompt, modelIds } = compareModelsSchema.parse(req.body);
+    const creditsNeeded = modelIds.length * 5;
+
+    const reservationMiddleware = reserveDeviceCredits(creditsNeeded);
+    try {
+      await new Promise<void>((resolve, reject) => {
+        reservationMiddleware(req, res, (err?: any) => {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+    } catch (reservationError) {
+      // Reservation failed - already sent 402 response
+      return;
+    }
+
+    try {
+      compareStreamSessions.cleanupExpired();
+      const taskId = `compare-${randomUUID()}`;
+      const { sessionId, expiresAt } = compareStreamSessions.createSession(taskId, COMPARE_STREAM_MODEL_KEY, {
+        prompt,
+        modelIds,
+        reservationId: (req as any).creditReservationId,
+      });
+
+      return ApiResponse.success(res, {
+        sessionId,
+        taskId,
+        modelKey: COMPARE_STREAM_MODEL_KEY,
+        modelIds,
+        expiresAt: new Date(expiresAt).toISOString(),
+        creditsReserved: creditsNeeded,
+      });
+    } catch (initError) {
+      await refundDeviceCredits(req);
+      throw initError;
+    }
+  } catch (error) {
+    return sendRouteError(res, error, "Failed to initialize compare stream");
+  }
+});
+
+// Streaming compare, step 2: fan out to every model and multiplex their chunks over one SSE channel
+router.get("/compare/stream/:taskId/:modelKey/:sessionId", async (req, res) => {
+  const { taskId, modelKey, sessionId } = req.params;
+  const sessionEntry = compareStreamSessions.consumeSession(sessionId, { taskId, modelKey });
+
+  if (!sessionEntry) {
+    return res.status(404).json({ error: "Stream session not found or expired" });
+  }
+
+  const { prompt, modelIds, reservationId } = sessionEntry.payload;
+  const harness = new CompareStreamHarness(new SseStreamManager(res, { taskId, modelKey, sessionId }));
+  harness.init({ prompt, modelIds });
+
+  let settled = false;
+  try {
+    const responses = await modelService.streamComparison(prompt, modelIds, harness);
+    const successfulCalls = modelIds.filter(modelId => responses[modelId]?.status === 'success').length;
+    const storage = await getStorage();
+    const comparison = await storage.createComparison({
+      prompt,
+      selectedModels: modelIds,
+      responses,
+    });
+
+    if (successfulCalls > 0) {
+      await commitCreditReservation(reservationId);
+    } else {
+      await refundCreditReservation(reservationId);
+    }
+    settled = true;
+
+    harness.complete({
+      id: comparison.id,
+      responses,
+      successfulCalls,
+      creditsUsed: successfulCalls > 0 ? modelIds.length * 5 : 0,
+    });
+  } catch (error) {
+    console.error("Compare stream error:", error);
+    if (!settled) {
+      await refundCreditReservation(reservationId);
+    }
+    harness.error(error instanceof Error ? error : new Error("Unknown error"));
+  }
+});
+
 // Get comparison history
 router.get("/comparisons", async (req, res) => {
   try {
@@ -159,12 +307,106 @@ router.get("/comparisons/:id", async (req, res) => {
     if (!comparison) {
       return res.status(404).json({ error: "Comparison not found" });
     }
-    res.json(comparison);
+    // Latest LLM judge verdict (scores, rationale, rankings), or null if never judged
+    const judgement = await judgeService.getLatestJudgement(comparison.id);
+    // Reference-answer grades, or null if the comparison was never graded
+    const grading = await gradingService.getGrades(comparison.id);
+    res.json({ ...comparison, judgement, grading });
   } catch (error) {
     res.status(500).json({ error: "Failed to fetch comparison" });
   }
 });
 
+// Score a stored comparison with the configured (or requested) judge model and rubric
+router.post("/comparisons/:id/judge", ensureDeviceUser, async (req, res) => {
+  try {
+    const options = judgeComparisonSchema.parse(req.body ?? {});
+    const storage = await getStorage();
+    const comparison = await storage.getComparison(req.params.id);
+    if (!comparison) {
+      return ApiResponse.error(res, "Comparison not found", 404);
+    }
+
+    const creditsNeeded = getJudgeConfig().creditCost;
+    const reservationMiddleware = reserveDeviceCredits(creditsNeeded);
+    await new Promise<void>((resolve, reject) => {
+      reservationMiddleware(req, res, (err?: any) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+
+    try {
+      const judgement = await judgeService.judgeComparison(comparison, options);
+      await commitDeviceCredits(req);
+      try {
+        const category = leaderboardService.categorizePrompt(comparison.prompt, req.app.locals.templateCompiler);
+        await leaderboardService.recordJudgement(judgement, category);
+      } catch (leaderboardError) {
+        // The verdict is already paid for and stored; a missed leaderboard update is not fatal
+        console.warn("Failed to record judge verdict on leaderboard:", leaderboardError);
+      }
+      return ApiResponse.success(res, { ...judgement, creditsUsed: creditsNeeded });
+    } catch (judgeError) {
+      await refundDeviceCredits(req);
+      throw judgeError;
+    }
+  } catch (error) {
+    return sendRouteError(res, error, "Failed to judge comparison");
+  }
+});
+
+// Grade every successful response against the prompt's reference answer (pass/fail per model)
+router.post("/comparisons/:id/grade", ensureDeviceUser, async (req, res) => {
+  try {
+    const options = gradeComparisonSchema.parse(req.body ?? {});
+    const storage = await getStorage();
+    const comparison = await storage.getComparison(req.params.id);
+    if (!comparison) {
+      return ApiResponse.error(res, "Comparison not found", 404);
+    }
+
+    // Deterministic graders are free; grading-model calls are charged per call within the device's balance
+    const { creditCost } = getGradingConfig();
+    const userId = req.deviceUser!.id;
+    const credits = await storage.getUserCredits(userId);
+    const maxLlmCalls = creditCost > 0 ? Math.floor(credits / creditCost) : Number.POSITIVE_INFINITY;
+    if (options.reference?.grader === 'llm' && maxLlmCalls < comparison.selectedModels.length) {
+      return res.status(402).json({
+        error: 'Insufficient credits',
+        message: `LLM grading needs ${comparison.selectedModels.length * creditCost} credits; you have ${credits}.`,
+        credits,
+        requiresPayment: true
+      });
+    }
+
+    const result = await gradingService.gradeComparison(comparison, {
+      ...options,
+      templateCompiler: req.app.locals.templateCompiler,
+      maxLlmCalls,
+    });
+    const creditsUsed = result.llmCalls * creditCost;
+    if (creditsUsed > 0) {
+      await storage.deductCredits(userId, creditsUsed);
+    }
+    const { llmCalls: _llmCalls, ...grading } = result;
+    return ApiResponse.success(res, { ...grading, creditsUsed });
+  } catch (error) {
+    return sendRouteError(res, error, "Failed to grade comparison");
+  }
+});
+
+// Reference-answer accuracy per model; ?category= limits it to one compare-prompts.md section
+router.get("/accuracy", async (req, res) => {
+  try {
+    const category = typeof req.query.category === 'string' && req.query.category ? req.query.category : undefined;
+    return ApiResponse.success(res, await gradingService.getAccuracy(category));
+  } catch (error) {
+    console.error("Model accuracy error:", error);
+    return ApiResponse.error(res, "Failed to load model accuracy", 500, error instanceof Error ? error.message : 'Unknown error');
+  }
+});
+
 // Single Model Response Route - NOW WITH CREDIT CHECKS
 router.post("/respond", ensureDeviceUser, async (req, res) => {
   try {
@@ -196,6 +438,7 @@ router.post("/respond", ensureDeviceUser, async (req, res) => {
         tokenUsage: result.tokenUsage,
         cost: result.cost,
         modelConfig: result.modelConfig,
+        route: result.route,
         creditsUsed: 5,
       });
     } catch (modelError) {
@@ -2,10 +2,25 @@
  * Author: Cascade
  * Date: October 14, 2025 and 7:23pm UTC-04:00
  * PURPOSE: This routes file handles Vixra session persistence endpoints for saving and retrieving session data. It integrates with storage for session management.
+ *          /:id/pipeline hands a paper to the server-side section pipeline and /:id/pipeline/events streams its progress.
+ *          /:id/sections/:sectionId/pick makes one model's version of an ensemble section the winner.
+ *          /:id/pipeline/regenerate re-runs finished sections, optionally with every section built on them.
+ *          /:id/export/latex and /:id/export/pdf download the paper as an arXiv-style LaTeX bundle or typeset PDF.
+ *          A session's `template` names the document template (vixra, grant-proposal, ...) its pipeline and exports follow.
+ *          PUT /:id only edits variables, template and responses, and is refused while a pipeline is running.
  * SRP/DRY check: Pass - Focused solely on session logic. Session patterns were repeated in the monolithic routes.ts; this extracts them. Reviewed existing session code to ensure no duplication.
  */
-import { Router } from "express";
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
 import { getStorage } from "../storage.js";
+import { getVixraPipelineConfig } from "../config.js";
+import { VixraPipelineStateError, sendRouteError } from "../errors.js";
+import { ensureDeviceUser } from "../device-auth.js";
+import { vixraPipelineService } from "../services/vixra-pipeline.service.js";
+import { vixraExportService, type VixraExportFormat } from "../services/vixra-export.service.js";
+import { documentTemplateService } from "../services/document-template.service.js";
+import { VIXRA_PICK_MODES } from "../../shared/vixra-pipeline.js";
+import { insertVixraSessionSchema } from "../../shared/schema.js";
 
 const router = Router();
 
@@ -32,12 +47,26 @@ router.post("/", async (req, res) => {
   }
 });
 
+// Only what a browser-generated paper owns; pipeline state and ensemble versions are written by the server
+const updateSessionSchema = insertVixraSessionSchema
+  .pick({ variables: true, template: true, responses: true })
+  .partial()
+  .strict();
+
 router.put("/:id", async (req, res) => {
   try {
     const { id } = req.params;
-    const updates = req.body;
+    const updates = updateSessionSchema.parse(req.body ?? {});
 
     const storage = await getStorage();
+    const existing = await storage.getVixraSession(id);
+    if (!existing) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+    if (existing.pipeline?.status === "running") {
+      throw new VixraPipelineStateError("Wait for the running pipeline to finish before editing the paper", { sessionId: id });
+    }
+
     const session = await storage.updateVixraSession(id, updates);
     if (!session) {
       return res.status(404).json({ error: "Session not found" });
@@ -45,8 +74,7 @@ router.put("/:id", async (req, res) => {
 
     res.json(session);
   } catch (error) {
-    console.error("Update Vixra session error:", error);
-    res.status(500).json({ error: "Failed to update session" });
+    return sendRouteError(res, error, "Failed to update session");
   }
 });
 
@@ -78,4 +106,188 @@ router.get("/", async (req, res) => {
   }
 });
 
+const startPipelineSchema = z.object({
+  modelId: z.string().min(1),
+  concurrency: z.number().int().min(1).optional(),
+  options: z.object({
+    temperature: z.number().min(0).max(2).optional(),
+    maxTokens: z.number().int().positive().optional(),
+    reasoningConfig: z.object({
+      effort: z.enum(["low", "medium", "high"]).optional(),
+      summary: z.enum(["auto", "detailed"]).optional(),
+      verbosity: z.enum(["low", "medium", "high"]).optional(),
+    }).optional(),
+  }).optional(),
+  /** Section id -> models that each write a version of it; the winner is picked per pickMode */
+  sectionModels: z.record(z.array(z.string().min(1)).min(1)).optional(),
+  pickMode: z.enum(VIXRA_PICK_MODES).optional(),
+  judgeModelId: z.string().min(1).optional(),
+});
+
+const regenerateSectionsSchema = z.object({
+  sectionIds: z.array(z.string().min(1)).min(1),
+  cascade: z.boolean().optional(),
+  modelId: z.string().min(1).optional(),
+});
+
+const pickAlternativeSchema = z.object({
+  modelId: z.string().min(1),
+});
+
+/** 402 in the same shape as reserveDeviceCredits when the device cannot pay for the next section */
+async function ensureCreditsForSection(req: Request, res: Response): Promise<boolean> {
+  const creditsPerSection = getVixraPipelineConfig().creditsPerSection;
+  if (!req.deviceUser || creditsPerSection === 0) return true;
+  const storage = await getStorage();
+  const credits = await storage.getUserCredits(req.deviceUser.id);
+  if (credits >= creditsPerSection) return true;
+  res.status(402).json({
+    error: "Insufficient credits",
+    message: `Each server-generated section costs ${creditsPerSection} credits; you have ${credits}.`,
+    credits,
+    requiresPayment: true,
+  });
+  return false;
+}
+
+/** Checks the caller started the session's pipeline; responds 404/403 and returns false otherwise */
+async function ensurePipelineOwner(req: Request, res: Response): Promise<boolean> {
+  const storage = await getStorage();
+  const session = await storage.getVixraSession(req.params.id);
+  if (!session?.pipeline) {
+    res.status(404).json({ error: "Vixra pipeline not found" });
+    return false;
+  }
+  if (session.pipeline.ownerId && session.pipeline.ownerId !== req.deviceUser?.id) {
+    res.status(403).json({ error: "Only the device that started this pipeline can control it" });
+    return false;
+  }
+  return true;
+}
+
+// POST /api/sessions/:id/pipeline - Generate the paper's unfinished sections on the server, independent ones in parallel
+// Charges VIXRA_PIPELINE_CREDITS_PER_SECTION per section; the pipeline stops itself when credits run out
+router.post("/:id/pipeline", ensureDeviceUser, async (req, res) => {
+  try {
+    const body = startPipelineSchema.parse(req.body ?? {});
+    const storage = await getStorage();
+    if (!(await storage.getVixraSession(req.params.id))) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+    if (!(await ensureCreditsForSection(req, res))) return;
+
+    const pipeline = await vixraPipelineService.startRun(req.params.id, {
+      modelId: body.modelId,
+      options: body.options,
+      concurrency: body.concurrency,
+      ownerId: req.deviceUser?.id ?? null,
+      sectionModels: body.sectionModels,
+      pickMode: body.pickMode,
+      judgeModelId: body.judgeModelId,
+    });
+    res.status(202).json(pipeline);
+  } catch (error) {
+    sendRouteError(res, error, "Failed to start Vixra pipeline");
+  }
+});
+
+// POST /api/sessions/:id/pipeline/stop - Sections in flight finish and are saved; no further sections start
+router.post("/:id/pipeline/stop", ensureDeviceUser, async (req, res) => {
+  try {
+    if (!(await ensurePipelineOwner(req, res))) return;
+    res.json(await vixraPipelineService.stopRun(req.params.id));
+  } catch (error) {
+    sendRouteError(res, error, "Failed to stop Vixra pipeline");
+  }
+});
+
+// POST /api/sessions/:id/pipeline/resume - Retry every unfinished section of a stopped, failed or orphaned pipeline
+router.post("/:id/pipeline/resume", ensureDeviceUser, async (req, res) => {
+  try {
+    if (!(await ensurePipelineOwner(req, res))) return;
+    if (!(await ensureCreditsForSection(req, res))) return;
+    res.json(await vixraPipelineService.resumeRun(req.params.id));
+  } catch (error) {
+    sendRouteError(res, error, "Failed to resume Vixra pipeline");
+  }
+});
+
+// POST /api/sessions/:id/pipeline/regenerate - Generate finished sections again; cascade also regenerates their dependents
+// Dependents left alone show as stale in the pipeline summary until they are regenerated
+router.post("/:id/pipeline/regenerate", ensureDeviceUser, async (req, res) => {
+  try {
+    const body = regenerateSectionsSchema.parse(req.body ?? {});
+    if (!(await ensurePipelineOwner(req, res))) return;
+    if (!(await ensureCreditsForSection(req, res))) return;
+    res.status(202).json(await vixraPipelineService.regenerateSections(req.params.id, body));
+  } catch (error) {
+    sendRouteError(res, error, "Failed to regenerate Vixra sections");
+  }
+});
+
+// POST /api/sessions/:id/sections/:sectionId/pick - Make one model's saved version the section's output
+// Unblocks the dependents of a section waiting for its pick; on a finished section it swaps the version in
+router.post("/:id/sections/:sectionId/pick", ensureDeviceUser, async (req, res) => {
+  try {
+    const body = pickAlternativeSchema.parse(req.body ?? {});
+    if (!(await ensurePipelineOwner(req, res))) return;
+    const response = await vixraPipelineService.pickAlternative(req.params.id, req.params.sectionId, body.modelId);
+    res.json({
+      sectionId: req.params.sectionId,
+      response,
+      pipeline: await vixraPipelineService.getSummary(req.params.id),
+    });
+  } catch (error) {
+    sendRouteError(res, error, "Failed to pick Vixra section version");
+  }
+});
+
+router.get("/:id/pipeline", async (req, res) => {
+  try {
+    const pipeline = await vixraPipelineService.getSummary(req.params.id);
+    if (!pipeline) {
+      return res.status(404).json({ error: "Vixra pipeline not found" });
+    }
+    res.json(pipeline);
+  } catch (error) {
+    sendRouteError(res, error, "Failed to get Vixra pipeline");
+  }
+});
+
+// GET /api/sessions/:id/pipeline/events - SSE: pipeline.snapshot, then section.* events until pipeline.end; re-attach any time
+router.get("/:id/pipeline/events", async (req, res) => {
+  try {
+    if (!(await vixraPipelineService.getSummary(req.params.id))) {
+      return res.status(404).json({ error: "Vixra pipeline not found" });
+    }
+    await vixraPipelineService.attach(req.params.id, res);
+  } catch (error) {
+    if (res.headersSent) {
+      console.error("Vixra pipeline event stream failed:", error);
+      return;
+    }
+    sendRouteError(res, error, "Failed to attach to Vixra pipeline");
+  }
+});
+
+// GET /api/sessions/:id/export/latex - main.tex + references.bib as .tar.gz; /export/pdf - the typeset paper
+// Only sections saved as successful are included; 400 while the paper has none
+router.get("/:id/export/:format(latex|pdf)", async (req, res) => {
+  try {
+    const storage = await getStorage();
+    const session = await storage.getVixraSession(req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    const template = documentTemplateService.get(session.template);
+    const file = vixraExportService.render(session, template, req.params.format as VixraExportFormat);
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+    res.send(file.body);
+  } catch (error) {
+    sendRouteError(res, error, "Failed to export Vixra paper");
+  }
+});
+
 export { router as sessionsRoutes };
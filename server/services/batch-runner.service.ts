@@ -0,0 +1,337 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Batch evaluation runs. Crosses a prompt suite (a compare-prompts.md section or an uploaded
+ *          JSONL file) with a list of models, persists one `batch_run_items` row per cell up front, then
+ *          works through the pending cells with a bounded in-process worker pool. Pausing or cancelling
+ *          stops new cells from starting (in-flight calls finish and are saved); resuming restarts the
+ *          pool on whatever is still pending, including runs orphaned by a server restart. Credits are
+ *          charged per successful cell, and a run pauses itself when the owner runs out.
+ * SRP/DRY check: Pass - Run lifecycle and scheduling only; model calls go through the provider registry
+ *                (breakers, retries, rate limits, fallbacks) and persistence through the storage layer.
+ */
+import { callModel, getModelById } from "../providers/index.js";
+import { getBatchConfig } from "../config.js";
+import { BatchRunStateError, ValidationError } from "../errors.js";
+import { getStorage } from "../storage.js";
+import type { TemplateCompiler } from "../template-compiler.js";
+import type { BatchRun, BatchRunItem } from "../../shared/schema.js";
+import type {
+  BatchModelStats,
+  BatchPrompt,
+  BatchPromptSource,
+  BatchRunProgress,
+  BatchRunSummary,
+} from "../../shared/batch-types.js";
+
+export interface CreateBatchRunInput {
+  name?: string;
+  modelIds: string[];
+  concurrency?: number;
+  source: BatchPromptSource;
+  prompts: BatchPrompt[];
+  ownerId: string | null;
+}
+
+interface ActiveRun {
+  /** Set by pause/cancel; workers stop picking up new cells once it is non-null */
+  stopRequested: 'paused' | 'cancelled' | null;
+  done: Promise<void>;
+}
+
+const INSUFFICIENT_CREDITS_REASON = 'Paused: insufficient credits';
+
+/** One prompt per non-empty line: {"prompt": "..."} (or "question"), with an optional "id" */
+export function parsePromptJsonl(text: string): BatchPrompt[] {
+  const prompts: BatchPrompt[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      throw new ValidationError(`JSONL line ${index + 1} is not valid JSON`, { line: index + 1 });
+    }
+    const record = (parsed && typeof parsed === 'object' ? parsed : {}) as Record<string, unknown>;
+    const prompt = typeof record.prompt === 'string' ? record.prompt : record.question;
+    if (typeof prompt !== 'string' || !prompt.trim()) {
+      throw new ValidationError(`JSONL line ${index + 1} has no "prompt" string`, { line: index + 1 });
+    }
+    const id = typeof record.id === 'string' || typeof record.id === 'number' ? String(record.id) : `line-${index + 1}`;
+    prompts.push({ id, prompt });
+  });
+  return prompts;
+}
+
+/** Every template in a compare-mode section, rendered with its variable defaults */
+export function promptsFromCategory(templateCompiler: TemplateCompiler | undefined, categoryId: string): BatchPrompt[] {
+  const category = templateCompiler?.getTemplatesByMode('compare').find(entry => entry.id === categoryId);
+  if (!templateCompiler || !category) {
+    throw new ValidationError(`Unknown prompt category: ${categoryId}`, { categoryId });
+  }
+  return category.templates.map(template => ({
+    id: template.id,
+    prompt: templateCompiler.renderTemplate(template.id, {}),
+  }));
+}
+
+function summarizeProgress(items: BatchRunItem[]): BatchRunProgress {
+  const progress: BatchRunProgress = { total: items.length, pending: 0, running: 0, succeeded: 0, failed: 0 };
+  for (const item of items) {
+    if (item.status === 'pending') progress.pending++;
+    else if (item.status === 'running') progress.running++;
+    else if (item.status === 'success') progress.succeeded++;
+    else progress.failed++;
+  }
+  return progress;
+}
+
+export class BatchRunner {
+  private active = new Map<string, ActiveRun>();
+
+  async createRun(input: CreateBatchRunInput): Promise<BatchRunSummary> {
+    const config = getBatchConfig();
+    const modelIds = Array.from(new Set(input.modelIds));
+    const unknownModels = modelIds.filter(modelId => !getModelById(modelId));
+    if (unknownModels.length > 0) {
+      throw new ValidationError(`Unknown model ids: ${unknownModels.join(', ')}`, { modelIds: unknownModels });
+    }
+    if (input.prompts.length === 0) {
+      throw new ValidationError('The prompt set is empty');
+    }
+    const cells = input.prompts.length * modelIds.length;
+    if (cells > config.maxCells) {
+      throw new ValidationError(`Batch has ${cells} cells; the limit is ${config.maxCells}`, { cells, maxCells: config.maxCells });
+    }
+
+    const storage = await getStorage();
+    const run = await storage.createBatchRun(
+      {
+        name: input.name?.trim() || `Batch ${new Date().toISOString()}`,
+        status: 'running',
+        source: input.source,
+        modelIds,
+        concurrency: Math.min(Math.max(1, input.concurrency ?? config.maxConcurrency), config.maxConcurrency),
+        ownerId: input.ownerId,
+        creditsUsed: 0,
+        statusReason: null,
+      },
+      input.prompts.flatMap((prompt, promptIndex) => modelIds.map(modelId => ({
+        promptIndex,
+        promptId: prompt.id,
+        prompt: prompt.prompt,
+        modelId,
+        status: 'pending' as const,
+      })))
+    );
+
+    this.start(run.id);
+    return await this.getSummary(run.id) as BatchRunSummary;
+  }
+
+  async pauseRun(runId: string): Promise<BatchRunSummary> {
+    return this.stop(runId, 'paused');
+  }
+
+  async cancelRun(runId: string): Promise<BatchRunSummary> {
+    return this.stop(runId, 'cancelled');
+  }
+
+  /** Paused runs, and "running" runs with no live workers (the server restarted mid-run), pick up where they stopped */
+  async resumeRun(runId: string): Promise<BatchRunSummary> {
+    const storage = await getStorage();
+    const run = await this.requireRun(runId);
+    const orphaned = run.status === 'running' && !this.active.has(runId);
+    if (run.status !== 'paused' && !orphaned) {
+      throw new BatchRunStateError(`Cannot resume a ${run.status} run`, { runId, status: run.status });
+    }
+
+    // Cells that were mid-call when the run stopped never got a result; queue them again
+    for (const item of await storage.getBatchRunItems(runId)) {
+      if (item.status === 'running') {
+        await storage.updateBatchRunItem(item.id, { status: 'pending' });
+      }
+    }
+    await storage.updateBatchRun(runId, { status: 'running', statusReason: null });
+    this.start(runId);
+    return await this.getSummary(runId) as BatchRunSummary;
+  }
+
+  /** Resolves once the run's workers have drained (immediately if none are active) */
+  async whenIdle(runId: string): Promise<void> {
+    await this.active.get(runId)?.done;
+  }
+
+  async getSummary(runId: string): Promise<BatchRunSummary | undefined> {
+    const storage = await getStorage();
+    const run = await storage.getBatchRun(runId);
+    if (!run) return undefined;
+    return this.toSummary(run, await storage.getBatchRunItems(runId));
+  }
+
+  async listRuns(limit = 20): Promise<BatchRunSummary[]> {
+    const storage = await getStorage();
+    const runs = await storage.listBatchRuns(limit);
+    return Promise.all(runs.map(async run => this.toSummary(run, await storage.getBatchRunItems(run.id))));
+  }
+
+  async getItems(runId: string): Promise<BatchRunItem[]> {
+    await this.requireRun(runId);
+    const storage = await getStorage();
+    return storage.getBatchRunItems(runId);
+  }
+
+  async getModelStats(runId: string): Promise<BatchModelStats[]> {
+    const run = await this.requireRun(runId);
+    const items = await this.getItems(runId);
+    return run.modelIds.map(modelId => {
+      const modelItems = items.filter(item => item.modelId === modelId);
+      const succeeded = modelItems.filter(item => item.status === 'success');
+      const timed = succeeded.filter(item => item.responseTimeMs !== null);
+      return {
+        modelId,
+        succeeded: succeeded.length,
+        failed: modelItems.filter(item => item.status === 'error').length,
+        avgResponseTimeMs: timed.length > 0
+          ? Math.round(timed.reduce((sum, item) => sum + (item.responseTimeMs ?? 0), 0) / timed.length)
+          : null,
+        totalCost: succeeded.reduce((sum, item) => sum + (item.cost?.total ?? 0), 0),
+      };
+    });
+  }
+
+  private async requireRun(runId: string): Promise<BatchRun> {
+    const storage = await getStorage();
+    const run = await storage.getBatchRun(runId);
+    if (!run) {
+      throw new ValidationError(`Batch run not found: ${runId}`, { runId });
+    }
+    return run;
+  }
+
+  private async stop(runId: string, status: 'paused' | 'cancelled'): Promise<BatchRunSummary> {
+    const run = await this.requireRun(runId);
+    const allowed = status === 'paused' ? ['running'] : ['running', 'paused'];
+    if (!allowed.includes(run.status)) {
+      throw new BatchRunStateError(`Cannot ${status === 'paused' ? 'pause' : 'cancel'} a ${run.status} run`, { runId, status: run.status });
+    }
+    const active = this.active.get(runId);
+    if (active) {
+      active.stopRequested = status;
+    }
+    const storage = await getStorage();
+    await storage.updateBatchRun(runId, {
+      status,
+      statusReason: null,
+      completedAt: status === 'cancelled' ? new Date() : null,
+    });
+    return await this.getSummary(runId) as BatchRunSummary;
+  }
+
+  private start(runId: string): void {
+    const existing = this.active.get(runId);
+    if (existing) {
+      // Resumed while the previous workers are still finishing their in-flight calls
+      if (existing.stopRequested) {
+        void existing.done.then(() => this.start(runId));
+      }
+      return;
+    }
+    const state: ActiveRun = { stopRequested: null, done: Promise.resolve() };
+    state.done = this.execute(runId, state)
+      .catch(async (error) => {
+        console.error(`[batch] Run ${runId} failed:`, error);
+        const storage = await getStorage();
+        await storage.updateBatchRun(runId, {
+          status: 'failed',
+          statusReason: error instanceof Error ? error.message : String(error),
+          completedAt: new Date(),
+        }).catch(() => undefined);
+      })
+      .finally(() => {
+        this.active.delete(runId);
+      });
+    this.active.set(runId, state);
+  }
+
+  private async execute(runId: string, state: ActiveRun): Promise<void> {
+    const storage = await getStorage();
+    const run = await this.requireRun(runId);
+    if (run.status !== 'running') return;
+    const creditsPerCall = getBatchConfig().creditsPerCall;
+    const queue = (await storage.getBatchRunItems(runId)).filter(item => item.status === 'pending');
+    let creditsUsed = run.creditsUsed;
+    let outOfCredits = false;
+
+    const hasCreditsForNextCell = async () => {
+      if (!run.ownerId || creditsPerCall === 0) return true;
+      return (await storage.getUserCredits(run.ownerId)) >= creditsPerCall;
+    };
+
+    const worker = async () => {
+      while (queue.length > 0 && !state.stopRequested && !outOfCredits) {
+        const item = queue.shift()!;
+        if (!(await hasCreditsForNextCell())) {
+          outOfCredits = true;
+          break;
+        }
+
+        await storage.updateBatchRunItem(item.id, { status: 'running' });
+        try {
+          const result = await callModel(item.prompt, item.modelId);
+          await storage.updateBatchRunItem(item.id, {
+            status: 'success',
+            content: result.content,
+            reasoning: result.reasoning ?? null,
+            responseTimeMs: Math.round(result.responseTime),
+            tokenUsage: result.tokenUsage ?? null,
+            cost: result.cost ?? null,
+            error: null,
+            completedAt: new Date(),
+          });
+          if (run.ownerId && creditsPerCall > 0) {
+            await storage.deductCredits(run.ownerId, creditsPerCall);
+            creditsUsed += creditsPerCall;
+            await storage.updateBatchRun(runId, { creditsUsed });
+          }
+        } catch (error) {
+          await storage.updateBatchRunItem(item.id, {
+            status: 'error',
+            error: error instanceof Error ? error.message : String(error),
+            completedAt: new Date(),
+          });
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(run.concurrency, Math.max(queue.length, 1)) }, worker));
+
+    // pause/cancel already persisted their own status
+    if (state.stopRequested) return;
+    if (outOfCredits) {
+      await storage.updateBatchRun(runId, { status: 'paused', statusReason: INSUFFICIENT_CREDITS_REASON });
+      return;
+    }
+    await storage.updateBatchRun(runId, { status: 'completed', completedAt: new Date() });
+  }
+
+  private toSummary(run: BatchRun, items: BatchRunItem[]): BatchRunSummary {
+    return {
+      id: run.id,
+      name: run.name,
+      status: run.status,
+      source: run.source,
+      modelIds: run.modelIds,
+      concurrency: run.concurrency,
+      progress: summarizeProgress(items),
+      totalCost: items.reduce((sum, item) => sum + (item.status === 'success' ? item.cost?.total ?? 0 : 0), 0),
+      creditsUsed: run.creditsUsed,
+      statusReason: run.statusReason,
+      createdAt: (run.createdAt ?? new Date()).toISOString(),
+      updatedAt: (run.updatedAt ?? new Date()).toISOString(),
+      completedAt: run.completedAt ? run.completedAt.toISOString() : null,
+    };
+  }
+}
+
+export const batchRunner = new BatchRunner();
@@ -0,0 +1,316 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Judge-model adjudication for finished debates. Sends the full `turnHistory` of a
+ *          `debate_sessions` row to a configurable judge model, validates the JSON verdict (a score
+ *          and comment for every turn, cited strongest/weakest points, a winner), computes per-side
+ *          averages server-side and stores the result on the session's `verdict` column. Debaters are
+ *          shown by side only so model names cannot bias the verdict. Panel seats join a side by team,
+ *          else by position; two sides are Affirmative/Negative, and a panel with more sides is judged
+ *          side by side with each side's stance, so multi-position panels get a verdict too.
+ *          autoAdjudicate runs the same step once the final planned turn is saved, charging its owner.
+ * SRP/DRY check: Pass - Adjudication only; model calls go through the provider registry and persistence
+ *                through the storage layer.
+ */
+import { z } from "zod";
+import { callModelWithMessages } from "../providers/index.js";
+import type { ModelMessage } from "../providers/base.js";
+import { getDebateJudgeConfig } from "../config.js";
+import { JudgeError, ValidationError } from "../errors.js";
+import { getStorage } from "../storage.js";
+import type { DebateSession } from "../../shared/schema.js";
+import { resolveDebateParticipants, speakerForTurn, type DebateParticipant } from "../../shared/debate-participants.js";
+import {
+  DEBATE_ARGUMENT_SCORE_MAX,
+  DEBATE_ARGUMENT_SCORE_MIN,
+  type DebateCitedPoint,
+  type DebateSide,
+  type DebateTurnScore,
+  type DebateVerdict,
+  type DebateVerdictSide,
+} from "../../shared/debate-verdict-types.js";
+
+export interface AdjudicateOptions {
+  judgeModelId?: string;
+}
+
+export interface AutoAdjudicateOptions {
+  /** Last turn the debate plans; a verdict that already scores it is kept */
+  finalTurn: number;
+  /** Charged the usual judge credits; null plays for free, like an ownerless server run */
+  ownerId: string | null;
+}
+
+export interface AutoAdjudication {
+  verdict: DebateVerdict;
+  creditsUsed: number;
+}
+
+const sideSchema = z.string().transform(value => value.trim().toLowerCase());
+
+const citedPointSchema = z.object({
+  side: sideSchema,
+  turn: z.coerce.number().int().nullable().optional(),
+  point: z.string().min(1),
+});
+
+const adjudicationSchema = z.object({
+  turnScores: z.array(z.object({
+    turn: z.coerce.number().int(),
+    score: z.coerce.number(),
+    comment: z.string(),
+  })).min(1),
+  strongestPoints: z.array(citedPointSchema).default([]),
+  weakestPoints: z.array(citedPointSchema).default([]),
+  winner: sideSchema,
+  summary: z.string(),
+});
+
+type Adjudication = z.infer<typeof adjudicationSchema>;
+
+interface TranscriptTurn {
+  turn: number;
+  side: DebateSide;
+  modelId: string;
+  content: string;
+}
+
+/** The sides of a debate and the side each seat (by participant id) argues for */
+interface DebateSides {
+  sides: DebateVerdictSide[];
+  seats: Map<string, { side: DebateSide; participant: DebateParticipant }>;
+}
+
+export class DebateAdjudicatorService {
+  /** Sessions with an automatic adjudication in flight, so a retried final turn is not judged twice */
+  private autoAdjudicating = new Set<string>();
+
+  async adjudicate(session: DebateSession, options: AdjudicateOptions = {}): Promise<DebateVerdict> {
+    const judgeModelId = options.judgeModelId || getDebateJudgeConfig().modelId;
+    const sides = this.assignSides(session);
+    const transcript = this.buildTranscript(session, sides);
+
+    const sidesHeard = new Set(transcript.map(entry => entry.side));
+    if (sidesHeard.size < 2) {
+      throw new ValidationError('At least two sides must have spoken before the debate can be adjudicated', {
+        sessionId: session.id,
+        turns: transcript.length,
+      });
+    }
+
+    const result = await callModelWithMessages(
+      this.buildMessages(session.topicText, transcript, sides.sides),
+      judgeModelId,
+      { temperature: 0 }
+    );
+    const adjudication = this.parseAdjudication(result.content, judgeModelId);
+
+    const turnScores: DebateTurnScore[] = transcript.map(entry => {
+      const scored = adjudication.turnScores.find(score => score.turn === entry.turn);
+      if (!scored || Number.isNaN(scored.score)) {
+        throw new JudgeError(`Judge verdict is missing a score for turn ${entry.turn}`, { judgeModelId });
+      }
+      return {
+        turn: entry.turn,
+        modelId: entry.modelId,
+        side: entry.side,
+        score: Math.min(DEBATE_ARGUMENT_SCORE_MAX, Math.max(DEBATE_ARGUMENT_SCORE_MIN, scored.score)),
+        comment: scored.comment.trim(),
+      };
+    });
+
+    const winner = this.parseWinner(adjudication.winner, sides, judgeModelId);
+    const verdict: DebateVerdict = {
+      judgeModelId,
+      winner,
+      winnerModelId: winner === 'tie' ? null : this.modelForSide(sides, winner),
+      turnScores,
+      sides: sides.sides,
+      sideAverages: Object.fromEntries(sides.sides.map(side => [side.id, this.average(turnScores, side.id)])),
+      strongestPoints: this.toCitedPoints(adjudication.strongestPoints, sides, transcript),
+      weakestPoints: this.toCitedPoints(adjudication.weakestPoints, sides, transcript),
+      summary: adjudication.summary.trim(),
+      cost: result.cost ?? null,
+      createdAt: new Date().toISOString(),
+    };
+
+    const storage = await getStorage();
+    await storage.setDebateVerdict(session.id, verdict);
+    return verdict;
+  }
+
+  /**
+   * Adjudicates a debate whose final planned turn was just saved. Never throws: a debate that cannot be
+   * judged, an owner short of credits or a judge failure leaves the session without a verdict, and the
+   * adjudicate route can still run it by hand.
+   */
+  async autoAdjudicate(sessionId: string, options: AutoAdjudicateOptions): Promise<AutoAdjudication | null> {
+    if (this.autoAdjudicating.has(sessionId)) {
+      return null;
+    }
+    this.autoAdjudicating.add(sessionId);
+    try {
+      const storage = await getStorage();
+      const session = await storage.getDebateSession(sessionId);
+      if (!session || session.verdict?.turnScores.some(score => score.turn >= options.finalTurn)) {
+        return null;
+      }
+      const creditCost = getDebateJudgeConfig().creditCost;
+      if (options.ownerId && creditCost > 0 && (await storage.getUserCredits(options.ownerId)) < creditCost) {
+        console.warn(`[debate-adjudication] Skipped automatic verdict for ${sessionId}: insufficient credits`);
+        return null;
+      }
+
+      const verdict = await this.adjudicate(session);
+      const creditsUsed = options.ownerId ? creditCost : 0;
+      if (options.ownerId && creditsUsed > 0) {
+        await storage.deductCredits(options.ownerId, creditsUsed);
+      }
+      return { verdict, creditsUsed };
+    } catch (error) {
+      // Debates where only one side has spoken are expected; anything else is worth a log line
+      if (!(error instanceof ValidationError)) {
+        console.warn(`[debate-adjudication] Automatic verdict for ${sessionId} failed:`, error instanceof Error ? error.message : error);
+      }
+      return null;
+    } finally {
+      this.autoAdjudicating.delete(sessionId);
+    }
+  }
+
+  /**
+   * Seats sharing a team (or, without one, a position) argue together. With two sides the one holding
+   * the first seat is the affirmative; more sides are numbered in seat order.
+   */
+  private assignSides(session: DebateSession): DebateSides {
+    const participants = resolveDebateParticipants(session);
+    const sideKeys = Array.from(new Set(participants.map(participant => participant.team ?? participant.position)));
+    const twoSided = sideKeys.length <= 2;
+
+    const sides: DebateVerdictSide[] = sideKeys.map((key, index) => {
+      const members = participants.filter(participant => (participant.team ?? participant.position) === key);
+      const twoSidedId: DebateSide = index === 0 ? 'affirmative' : 'negative';
+      return {
+        id: twoSided ? twoSidedId : `side-${index + 1}`,
+        label: twoSided
+          ? (index === 0 ? 'Affirmative' : 'Negative')
+          : members[0].team ?? (members.length === 1 ? members[0].label : key),
+        position: members[0].position,
+        modelIds: Array.from(new Set(members.map(member => member.modelId))),
+      };
+    });
+    const seats = new Map(participants.map(participant => {
+      const side = sides[sideKeys.indexOf(participant.team ?? participant.position)].id;
+      return [participant.id, { side, participant }] as const;
+    }));
+    return { sides, seats };
+  }
+
+  /** Turns recorded without a participant id fall back to the speaking order */
+  private buildTranscript(session: DebateSession, sides: DebateSides): TranscriptTurn[] {
+    const turnHistory = Array.isArray(session.turnHistory) ? session.turnHistory as any[] : [];
+    return turnHistory
+      .filter(entry => typeof entry?.turn === 'number' && typeof entry?.content === 'string' && entry.content.trim())
+      .map(entry => {
+        const seat = sides.seats.get(entry.participantId) ?? sides.seats.get(speakerForTurn(session, entry.turn).id)!;
+        return { turn: entry.turn, side: seat.side, modelId: seat.participant.modelId, content: entry.content };
+      })
+      .sort((a, b) => a.turn - b.turn);
+  }
+
+  private buildMessages(topic: string, transcript: TranscriptTurn[], sides: DebateVerdictSide[]): ModelMessage[] {
+    const twoSided = sides.length <= 2;
+    const sideIds = sides.map(side => side.id);
+    const intro = twoSided
+      ? 'You are an impartial debate adjudicator. Two debaters argued a proposition: the Affirmative argued FOR it and the Negative AGAINST it.'
+      : [
+          `You are an impartial debate adjudicator. A panel of ${sides.length} sides argued a proposition, each for its own position:`,
+          ...sides.map(side => `- ${side.label} (side id "${side.id}"): ${side.position}`),
+        ].join('\n');
+    const system = [
+      intro,
+      `Score the argument made in every turn from ${DEBATE_ARGUMENT_SCORE_MIN} (very weak) to ${DEBATE_ARGUMENT_SCORE_MAX} (decisive), judging evidence, logic and how well it answers the opponent${twoSided ? '' : 's'}.`,
+      'Then cite the strongest and weakest points made by each side and decide who won the debate overall. Ignore which side you personally agree with.',
+      '',
+      'Reply with JSON only, no prose or code fences, in exactly this shape:',
+      `{"turnScores":[{"turn":1,"score":<number>,"comment":"<1-2 sentences>"}],"strongestPoints":[{"side":"${sideIds[0]}","turn":1,"point":"<the point>"}],"weakestPoints":[{"side":"${sideIds[1]}","turn":2,"point":"<the point>"}],"winner":"${[...sideIds, 'tie'].join('|')}","summary":"<one paragraph explaining the verdict>"}`,
+      'Include one turnScores entry per turn.',
+    ].join('\n');
+
+    const labels = new Map(sides.map(side => [side.id, side.label]));
+    const turns = transcript
+      .map(entry => `### Turn ${entry.turn} - ${labels.get(entry.side) ?? entry.side}\n${entry.content}`)
+      .join('\n\n');
+
+    return [
+      { role: 'system', content: system },
+      { role: 'user', content: `## Proposition\n${topic}\n\n## Transcript\n${turns}` },
+    ];
+  }
+
+  private parseAdjudication(content: string, judgeModelId: string): Adjudication {
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+      throw new JudgeError('Judge model did not return JSON', { judgeModelId });
+    }
+    let raw: unknown;
+    try {
+      raw = JSON.parse(content.slice(start, end + 1));
+    } catch {
+      throw new JudgeError('Judge model returned malformed JSON', { judgeModelId });
+    }
+    const parsed = adjudicationSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new JudgeError('Debate verdict did not match the expected shape', {
+        judgeModelId,
+        issues: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`),
+      });
+    }
+    return parsed.data;
+  }
+
+  /** A side id, or a side's label, since judges sometimes answer with the name they were shown */
+  private parseWinner(value: string, sides: DebateSides, judgeModelId: string): DebateSide | 'tie' {
+    if (value === 'tie') {
+      return value;
+    }
+    const side = sides.sides.find(entry => entry.id === value || entry.label.toLowerCase() === value);
+    if (side) {
+      return side.id;
+    }
+    throw new JudgeError(`Judge named an unknown winner "${value}"`, { judgeModelId });
+  }
+
+  /** Points naming a turn take that turn's side; points on unknown turns keep the judge's side */
+  private toCitedPoints(
+    points: Adjudication['strongestPoints'],
+    sides: DebateSides,
+    transcript: TranscriptTurn[]
+  ): DebateCitedPoint[] {
+    return points.flatMap(point => {
+      const turn = transcript.find(entry => entry.turn === point.turn);
+      const side = turn?.side ?? sides.sides.find(entry => entry.id === point.side)?.id ?? null;
+      if (!side) {
+        return [];
+      }
+      return [{ side, modelId: turn?.modelId ?? this.modelForSide(sides, side), turn: turn?.turn ?? null, point: point.point.trim() }];
+    });
+  }
+
+  /** First seat's model on a side; teams share one verdict */
+  private modelForSide(sides: DebateSides, side: DebateSide): string {
+    return Array.from(sides.seats.values()).find(seat => seat.side === side)!.participant.modelId;
+  }
+
+  private average(scores: DebateTurnScore[], side: DebateSide): number {
+    const sideScores = scores.filter(entry => entry.side === side);
+    if (sideScores.length === 0) {
+      return 0;
+    }
+    const total = sideScores.reduce((sum, entry) => sum + entry.score, 0);
+    return Math.round((total / sideScores.length) * 100) / 100;
+  }
+}
+
+export const debateAdjudicatorService = new DebateAdjudicatorService();
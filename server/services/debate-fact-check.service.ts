@@ -0,0 +1,161 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Fact-check pass for debate turns. Sends one turn's content to a configurable checker model,
+ *          which pulls out the factual claims (statistics, cited sources, other checkable assertions),
+ *          quotes each verbatim and rates its reliability. The validated annotations are stored as
+ *          `factCheck` on that turn's record in `debate_sessions.turn_history`, so clients can highlight
+ *          disputed claims inline and see which debater is inventing statistics. Each turn is checked
+ *          on its own, without the debaters' identities.
+ * SRP/DRY check: Pass - Claim extraction and rating only; model calls go through the provider registry
+ *                and persistence through the storage layer.
+ */
+import { z } from "zod";
+import { callModelWithMessages } from "../providers/index.js";
+import type { ModelMessage } from "../providers/base.js";
+import { getDebateFactCheckConfig } from "../config.js";
+import { JudgeError, ValidationError } from "../errors.js";
+import { getStorage } from "../storage.js";
+import type { DebateSession } from "../../shared/schema.js";
+import {
+  DEBATE_CLAIM_RATINGS,
+  type DebateFactCheckClaim,
+  type DebateTurnFactCheck,
+} from "../../shared/debate-fact-check-types.js";
+
+export interface FactCheckOptions {
+  checkerModelId?: string;
+}
+
+const claimsSchema = z.object({
+  claims: z.array(z.object({
+    quote: z.string().trim().min(1),
+    kind: z.string().transform(value => value.trim().toLowerCase()),
+    rating: z.string().transform(value => value.trim().toLowerCase()),
+    note: z.string().default(""),
+  })).default([]),
+});
+
+type ExtractedClaims = z.infer<typeof claimsSchema>;
+
+interface CheckableTurn {
+  turn: number;
+  content: string;
+  factCheck?: DebateTurnFactCheck;
+}
+
+export class DebateFactCheckService {
+  /**
+   * Turns to check: the requested ones (each must exist and have content), or every turn with content.
+   * Turns already checked are skipped unless `force` is set.
+   */
+  selectTurns(session: DebateSession, requested?: number[], force = false): number[] {
+    const turns = this.checkableTurns(session);
+    if (requested && requested.length > 0) {
+      const missing = requested.filter(turn => !turns.some(entry => entry.turn === turn));
+      if (missing.length > 0) {
+        throw new ValidationError(`No turn with content to check: ${missing.join(", ")}`, { sessionId: session.id, turns: missing });
+      }
+    }
+    return turns
+      .filter(entry => !requested?.length || requested.includes(entry.turn))
+      .filter(entry => force || !entry.factCheck)
+      .map(entry => entry.turn);
+  }
+
+  async checkTurn(session: DebateSession, turn: number, options: FactCheckOptions = {}): Promise<DebateTurnFactCheck> {
+    const config = getDebateFactCheckConfig();
+    const checkerModelId = options.checkerModelId || config.modelId;
+    const entry = this.checkableTurns(session).find(candidate => candidate.turn === turn);
+    if (!entry) {
+      throw new ValidationError(`Turn ${turn} has no content to check`, { sessionId: session.id, turn });
+    }
+
+    const result = await callModelWithMessages(
+      this.buildMessages(session.topicText, entry.content, config.maxClaims),
+      checkerModelId,
+      { temperature: 0 }
+    );
+    const claims = this.toClaims(this.parseClaims(result.content, checkerModelId), entry.content).slice(0, config.maxClaims);
+
+    const factCheck: DebateTurnFactCheck = {
+      checkerModelId,
+      claims,
+      disputedCount: claims.filter(claim => claim.rating === "disputed").length,
+      cost: result.cost ?? null,
+      checkedAt: new Date().toISOString(),
+    };
+
+    const storage = await getStorage();
+    await storage.setDebateTurnFactCheck(session.id, turn, factCheck);
+    return factCheck;
+  }
+
+  private checkableTurns(session: DebateSession): CheckableTurn[] {
+    const turnHistory = Array.isArray(session.turnHistory) ? session.turnHistory as any[] : [];
+    return turnHistory
+      .filter(entry => typeof entry?.turn === "number" && typeof entry?.content === "string" && entry.content.trim())
+      .map(entry => ({ turn: entry.turn, content: entry.content, factCheck: entry.factCheck ?? undefined }))
+      .sort((a, b) => a.turn - b.turn);
+  }
+
+  private buildMessages(topic: string, content: string, maxClaims: number): ModelMessage[] {
+    const system = [
+      "You are a fact-checker reviewing one speech from a debate. Identify the factual claims it makes: statistics, numbers and rankings; claims attributed to a study, source or person; and other assertions that could be checked against the record.",
+      "Opinions, predictions, value judgments and rhetorical questions are not factual claims; skip them.",
+      `List at most ${maxClaims} claims, statistics and cited sources first. Quote each claim exactly as it appears in the speech, character for character, keeping the quote short enough to cover just the claim.`,
+      "Rate each claim: \"supported\" when it agrees with well-established sources, \"unverified\" when it is plausible but you cannot confirm it, \"disputed\" when it contradicts well-established sources or looks invented (for example a precise figure attributed to an unnamed study).",
+      "",
+      "Reply with JSON only, no prose or code fences, in exactly this shape:",
+      '{"claims":[{"quote":"<exact text from the speech>","kind":"statistic|citation|fact","rating":"supported|unverified|disputed","note":"<1-2 sentences on why>"}]}',
+      'Reply {"claims":[]} when the speech makes no factual claims.',
+    ].join("\n");
+
+    return [
+      { role: "system", content: system },
+      { role: "user", content: `## Proposition debated\n${topic}\n\n## Speech\n${content}` },
+    ];
+  }
+
+  private parseClaims(content: string, checkerModelId: string): ExtractedClaims {
+    const start = content.indexOf("{");
+    const end = content.lastIndexOf("}");
+    if (start === -1 || end <= start) {
+      throw new JudgeError("Fact-check model did not return JSON", { checkerModelId });
+    }
+    let raw: unknown;
+    try {
+      raw = JSON.parse(content.slice(start, end + 1));
+    } catch {
+      throw new JudgeError("Fact-check model returned malformed JSON", { checkerModelId });
+    }
+    const parsed = claimsSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new JudgeError("Fact-check did not match the expected shape", {
+        checkerModelId,
+        issues: parsed.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`),
+      });
+    }
+    return parsed.data;
+  }
+
+  /** Unknown ratings count as unverified and unknown kinds as facts; quotes are matched back to the turn's casing */
+  private toClaims(extracted: ExtractedClaims, content: string): DebateFactCheckClaim[] {
+    return extracted.claims.map(claim => ({
+      quote: this.locateQuote(content, claim.quote),
+      kind: claim.kind === "statistic" || claim.kind === "citation" ? claim.kind : "fact",
+      rating: DEBATE_CLAIM_RATINGS.find(rating => rating === claim.rating) ?? "unverified",
+      note: claim.note.trim(),
+    }));
+  }
+
+  private locateQuote(content: string, quote: string): string {
+    if (content.includes(quote)) {
+      return quote;
+    }
+    const index = content.toLowerCase().indexOf(quote.toLowerCase());
+    return index === -1 ? quote : content.slice(index, index + quote.length);
+  }
+}
+
+export const debateFactCheckService = new DebateFactCheckService();
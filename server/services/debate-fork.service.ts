@@ -0,0 +1,90 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Forks a debate session at any recorded turn. The fork copies the turn records up to that turn,
+ *          rebuilds each seat's previous_response_id chain (and the legacy model1/model2 arrays) from the
+ *          copied turns, and remembers its parent and fork turn. Seats may be handed to a different model
+ *          and the intensity level changed, so several continuations can be compared from one position.
+ *          Verdicts and server-run state are not copied; the fork starts with neither.
+ * SRP/DRY check: Pass - Fork rules only; HTTP validation stays in debate.routes.ts and the turn service
+ *                decides how a swapped seat continues without the other model's response chain.
+ */
+import { ValidationError } from "../errors.js";
+import { getModelById } from "../providers/index.js";
+import { getStorage } from "../storage.js";
+import type { DebateSession } from "../../shared/schema.js";
+import {
+  DEBATE_HUMAN_MODEL_ID,
+  isHumanParticipant,
+  resolveDebateParticipants,
+  speakerForTurn,
+  type DebateParticipant,
+} from "../../shared/debate-participants.js";
+
+export interface DebateForkOptions {
+  /** Last turn copied into the fork; the fork continues with the turn after it */
+  atTurn: number;
+  /** Intensity for the fork's remaining turns; the parent's level when omitted */
+  adversarialLevel?: number;
+  /** New model per seat id; seats not listed keep the parent's model */
+  seatModels?: Record<string, string>;
+}
+
+export class DebateForkService {
+  async fork(session: DebateSession, options: DebateForkOptions): Promise<DebateSession> {
+    const turnHistory = Array.isArray(session.turnHistory) ? session.turnHistory as any[] : [];
+    if (!turnHistory.some(entry => entry?.turn === options.atTurn)) {
+      throw new ValidationError(`Turn ${options.atTurn} has not been recorded on this debate`, { atTurn: options.atTurn });
+    }
+
+    const participants = this.swapSeatModels(resolveDebateParticipants(session), options.seatModels ?? {});
+    if (participants.every(isHumanParticipant)) {
+      throw new ValidationError("At least one debater must be a model");
+    }
+
+    const copiedTurns = turnHistory
+      .filter(entry => typeof entry?.turn === "number" && entry.turn <= options.atTurn)
+      .sort((a, b) => a.turn - b.turn);
+    const chains: Record<string, string[]> = Object.fromEntries(participants.map(seat => [seat.id, []]));
+    for (const entry of copiedTurns) {
+      const seatId = entry.participantId ?? speakerForTurn(session, entry.turn).id;
+      if (typeof entry.responseId === "string" && entry.responseId) {
+        (chains[seatId] ??= []).push(entry.responseId);
+      }
+    }
+    const totalCost = copiedTurns.reduce((sum, entry) => sum + (Number(entry.cost) || 0), 0);
+
+    const storage = await getStorage();
+    return storage.createDebateSession({
+      topicText: session.topicText,
+      model1Id: participants[0].modelId,
+      model2Id: participants[1].modelId,
+      adversarialLevel: options.adversarialLevel ?? session.adversarialLevel,
+      turnHistory: copiedTurns,
+      model1ResponseIds: chains[participants[0].id],
+      model2ResponseIds: chains[participants[1].id],
+      // Legacy two-model sessions stay legacy; their seats resolve from model1Id/model2Id
+      participants: session.participants ? participants : null,
+      speakingOrder: session.speakingOrder ?? null,
+      participantResponseIds: chains,
+      format: session.format ?? null,
+      totalCost: String(totalCost),
+      parentSessionId: session.id,
+      forkedAtTurn: options.atTurn,
+    });
+  }
+
+  private swapSeatModels(participants: DebateParticipant[], seatModels: Record<string, string>): DebateParticipant[] {
+    for (const [seatId, modelId] of Object.entries(seatModels)) {
+      if (!participants.some(seat => seat.id === seatId)) {
+        throw new ValidationError(`Unknown debate seat: ${seatId}`, { seatId });
+      }
+      if (modelId !== DEBATE_HUMAN_MODEL_ID && !getModelById(modelId)) {
+        throw new ValidationError(`Unknown model: ${modelId}`, { seatId, modelId });
+      }
+    }
+    return participants.map(seat => seatModels[seat.id] ? { ...seat, modelId: seatModels[seat.id] } : seat);
+  }
+}
+
+export const debateForkService = new DebateForkService();
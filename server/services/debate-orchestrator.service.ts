@@ -0,0 +1,316 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Server-driven debate runs. Plays the turns of a `debate_sessions` row one after another in
+ *          the background (each seat on its own response chain, format sessions following their turn
+ *          plan), persisting every turn as it finishes, so a debate keeps going after the browser closes.
+ *          Run state lives on the session's `auto_run` column; clients attach to a DebateRunChannel for
+ *          live events. Stopping lets the turn in flight finish and be saved; resuming continues from
+ *          the last saved turn. Runs a server restart orphaned are marked failed at startup, with the
+ *          restart as their reason, so they can be resumed. Credits are charged per
+ *          turn, and a run stops itself when the owner runs out. Sessions with a human seat cannot be queued.
+ *          A run that plays the debate's final turn (the format's last, else the run's target) has the
+ *          judge model adjudicate it before the run completes; the judge credits count toward the run.
+ * SRP/DRY check: Pass - Run lifecycle and scheduling only; prompt assembly and turn streaming live in
+ *                debate-turn.service.ts and persistence in the storage layer.
+ */
+import type { Response } from "express";
+import { getDebateRunConfig } from "../config.js";
+import { DebateRunStateError, ValidationError } from "../errors.js";
+import { getStorage } from "../storage.js";
+import { DebateRunChannel } from "../streaming/debate-run-channel.js";
+import { StreamHarness } from "../streaming/stream-harness.js";
+import { debateAdjudicatorService } from "./debate-adjudicator.service.js";
+import { buildSessionTurnPayload, planDebateTurn, plannedDebateTurnCount, streamDebateTurn } from "./debate-turn.service.js";
+import { isHumanParticipant, resolveDebateParticipants } from "../../shared/debate-participants.js";
+import type { DebateAutoRun, DebateRunSeatSettings, DebateRunSummary } from "../../shared/debate-run-types.js";
+import type { DebateSession } from "../../shared/schema.js";
+
+export interface StartDebateRunInput {
+  /** Turn number to stop after; defaults to the format's last turn, or three rounds of the speaking order */
+  turns?: number;
+  /** Model settings per participant id */
+  seatSettings?: Record<string, DebateRunSeatSettings>;
+  ownerId: string | null;
+}
+
+interface ActiveDebateRun {
+  /** Set by stop; the loop finishes the turn in flight and plays no more */
+  stopRequested: boolean;
+  channel: DebateRunChannel;
+  currentTurn: number | null;
+  done: Promise<void>;
+}
+
+const INSUFFICIENT_CREDITS_REASON = "Stopped: insufficient credits";
+const ORPHANED_RUN_REASON = "Interrupted by a server restart; resume to continue from the last saved turn";
+const DEFAULT_ROUNDS = 3;
+
+/** Highest turn number saved on the session */
+function completedTurns(session: DebateSession): number {
+  const turnHistory = Array.isArray(session.turnHistory) ? session.turnHistory as Array<{ turn?: unknown }> : [];
+  return turnHistory.reduce((max, entry) => typeof entry?.turn === "number" ? Math.max(max, entry.turn) : max, 0);
+}
+
+export class DebateOrchestrator {
+  private active = new Map<string, ActiveDebateRun>();
+
+  async startRun(sessionId: string, input: StartDebateRunInput): Promise<DebateRunSummary> {
+    const session = await this.requireSession(sessionId);
+    if (this.active.has(sessionId) || session.autoRun?.status === "running") {
+      throw new DebateRunStateError("This debate already has a run in progress", { sessionId });
+    }
+
+    const config = getDebateRunConfig();
+    const turnsCompleted = completedTurns(session);
+    const plannedTurns = plannedDebateTurnCount(session);
+    const seats = resolveDebateParticipants(session);
+    if (seats.some(isHumanParticipant)) {
+      throw new ValidationError("Debates with a human seat are played turn by turn, not on the server", { sessionId });
+    }
+    const seatIds = seats.map(seat => seat.id);
+    const unknownSeats = Object.keys(input.seatSettings ?? {}).filter(id => !seatIds.includes(id));
+    if (unknownSeats.length > 0) {
+      throw new ValidationError(`Unknown participant ids: ${unknownSeats.join(", ")}`, { participantIds: unknownSeats });
+    }
+
+    let targetTurns: number;
+    if (input.turns !== undefined) {
+      targetTurns = plannedTurns === null ? input.turns : Math.min(input.turns, plannedTurns);
+      if (targetTurns - turnsCompleted > config.maxTurns) {
+        throw new ValidationError(`A run may play at most ${config.maxTurns} turns`, { turns: input.turns, maxTurns: config.maxTurns });
+      }
+    } else {
+      targetTurns = Math.min(plannedTurns ?? seatIds.length * DEFAULT_ROUNDS, turnsCompleted + config.maxTurns);
+    }
+    if (targetTurns <= turnsCompleted) {
+      throw new ValidationError(`The debate already has ${turnsCompleted} turns; nothing left to play`, { turnsCompleted, targetTurns });
+    }
+    // Fails fast when the session's format was removed from debate-prompts.md
+    planDebateTurn(session, turnsCompleted + 1);
+
+    const now = new Date().toISOString();
+    const storage = await getStorage();
+    await storage.setDebateAutoRun(sessionId, {
+      status: "running",
+      targetTurns,
+      ownerId: input.ownerId,
+      seatSettings: input.seatSettings ?? {},
+      creditsUsed: 0,
+      statusReason: null,
+      startedAt: now,
+      updatedAt: now,
+      completedAt: null,
+    });
+
+    this.start(sessionId);
+    return await this.getSummary(sessionId) as DebateRunSummary;
+  }
+
+  async stopRun(sessionId: string): Promise<DebateRunSummary> {
+    const run = await this.requireRun(sessionId);
+    if (run.status !== "running") {
+      throw new DebateRunStateError(`Cannot stop a ${run.status} run`, { sessionId, status: run.status });
+    }
+    const active = this.active.get(sessionId);
+    if (active) {
+      active.stopRequested = true;
+    }
+    await this.updateRun(sessionId, { status: "stopped", statusReason: "Stopped by the owner" });
+    return await this.getSummary(sessionId) as DebateRunSummary;
+  }
+
+  /** Stopped and failed runs, and "running" runs nobody is playing (the server restarted), continue from the last saved turn */
+  async resumeRun(sessionId: string): Promise<DebateRunSummary> {
+    const run = await this.requireRun(sessionId);
+    const orphaned = run.status === "running" && !this.active.has(sessionId);
+    if (run.status !== "stopped" && run.status !== "failed" && !orphaned) {
+      throw new DebateRunStateError(`Cannot resume a ${run.status} run`, { sessionId, status: run.status });
+    }
+    await this.updateRun(sessionId, { status: "running", statusReason: null, completedAt: null });
+    this.start(sessionId);
+    return await this.getSummary(sessionId) as DebateRunSummary;
+  }
+
+  /**
+   * Marks runs a previous server process left "running" as failed. Nothing would ever play them, and clients
+   * attaching would see a run that never moves. Called once at startup; returns how many were found.
+   */
+  async recoverOrphanedRuns(): Promise<number> {
+    const storage = await getStorage();
+    const orphaned = (await storage.listDebateSessions())
+      .filter(session => session.autoRun?.status === "running" && !this.active.has(session.id));
+    for (const session of orphaned) {
+      await this.updateRun(session.id, {
+        status: "failed",
+        statusReason: ORPHANED_RUN_REASON,
+        completedAt: new Date().toISOString(),
+      });
+    }
+    return orphaned.length;
+  }
+
+  /** Resolves once the run's loop has exited (immediately if none is active) */
+  async whenIdle(sessionId: string): Promise<void> {
+    await this.active.get(sessionId)?.done;
+  }
+
+  async getSummary(sessionId: string): Promise<DebateRunSummary | undefined> {
+    const storage = await getStorage();
+    const session = await storage.getDebateSession(sessionId);
+    if (!session?.autoRun) return undefined;
+    const active = this.active.get(sessionId);
+    return {
+      ...session.autoRun,
+      sessionId,
+      turnsCompleted: completedTurns(session),
+      currentTurn: active?.currentTurn ?? null,
+      live: Boolean(active),
+    };
+  }
+
+  /**
+   * Streams the run's events to `res`: a `run.snapshot` first, then live turn events until the run ends.
+   * A run that is not playing gets the snapshot and an immediate `run.end`.
+   */
+  async attach(sessionId: string, res: Response): Promise<void> {
+    const snapshot = await this.getSummary(sessionId);
+    if (!snapshot) {
+      throw new ValidationError(`Debate session ${sessionId} has no server-driven run`, { sessionId });
+    }
+    const active = this.active.get(sessionId);
+    if (active) {
+      active.channel.attach(res, { run: snapshot });
+      return;
+    }
+    const channel = new DebateRunChannel(sessionId);
+    channel.attach(res, { run: snapshot });
+    channel.end({ run: snapshot });
+  }
+
+  private async requireSession(sessionId: string): Promise<DebateSession> {
+    const storage = await getStorage();
+    const session = await storage.getDebateSession(sessionId);
+    if (!session) {
+      throw new ValidationError(`Debate session not found: ${sessionId}`, { sessionId });
+    }
+    return session;
+  }
+
+  private async requireRun(sessionId: string): Promise<DebateAutoRun> {
+    const session = await this.requireSession(sessionId);
+    if (!session.autoRun) {
+      throw new DebateRunStateError("This debate has no server-driven run", { sessionId });
+    }
+    return session.autoRun;
+  }
+
+  /** Merges into the stored run state, so a loop that is winding down never overwrites a newer status */
+  private async updateRun(sessionId: string, patch: Partial<DebateAutoRun>): Promise<DebateAutoRun> {
+    const storage = await getStorage();
+    const current = await this.requireRun(sessionId);
+    const next: DebateAutoRun = { ...current, ...patch, updatedAt: new Date().toISOString() };
+    await storage.setDebateAutoRun(sessionId, next);
+    return next;
+  }
+
+  private start(sessionId: string): void {
+    const existing = this.active.get(sessionId);
+    if (existing) {
+      // Resumed while the previous loop is still finishing its in-flight turn
+      if (existing.stopRequested) {
+        void existing.done.then(() => this.start(sessionId));
+      }
+      return;
+    }
+    const state: ActiveDebateRun = {
+      stopRequested: false,
+      channel: new DebateRunChannel(sessionId),
+      currentTurn: null,
+      done: Promise.resolve(),
+    };
+    state.done = this.execute(sessionId, state)
+      .catch(async (error) => {
+        console.error(`[debate-run] Run for session ${sessionId} failed:`, error);
+        await this.updateRun(sessionId, {
+          status: "failed",
+          statusReason: error instanceof Error ? error.message : String(error),
+          completedAt: new Date().toISOString(),
+        }).catch(() => undefined);
+      })
+      .finally(async () => {
+        this.active.delete(sessionId);
+        const summary = await this.getSummary(sessionId).catch(() => undefined);
+        state.channel.end({ run: summary ?? null });
+      });
+    this.active.set(sessionId, state);
+  }
+
+  private async execute(sessionId: string, state: ActiveDebateRun): Promise<void> {
+    const storage = await getStorage();
+    const creditsPerTurn = getDebateRunConfig().creditsPerTurn;
+
+    while (!state.stopRequested) {
+      const session = await this.requireSession(sessionId);
+      const run = session.autoRun;
+      // stop already persisted its own status
+      if (!run || run.status !== "running") return;
+
+      const turnNumber = completedTurns(session) + 1;
+      if (turnNumber > run.targetTurns) {
+        await this.updateRun(sessionId, { status: "completed", completedAt: new Date().toISOString() });
+        return;
+      }
+      if (run.ownerId && creditsPerTurn > 0 && (await storage.getUserCredits(run.ownerId)) < creditsPerTurn) {
+        await this.updateRun(sessionId, { status: "stopped", statusReason: INSUFFICIENT_CREDITS_REASON });
+        return;
+      }
+
+      const { participant } = planDebateTurn(session, turnNumber);
+      const payload = buildSessionTurnPayload(session, turnNumber, run.seatSettings[participant.id]);
+      const { sink, outcome } = state.channel.turnSink({
+        turnNumber,
+        participantId: payload.participantId,
+        modelId: payload.modelId,
+      });
+      const harness = new StreamHarness(sink);
+      state.currentTurn = turnNumber;
+      harness.init({
+        debateSessionId: sessionId,
+        turnNumber,
+        modelId: payload.modelId,
+        role: payload.role,
+      });
+      await streamDebateTurn(harness, payload);
+      const result = await outcome;
+      state.currentTurn = null;
+
+      if (!result.ok) {
+        await this.updateRun(sessionId, {
+          status: "failed",
+          statusReason: `Turn ${turnNumber} failed: ${result.error}`,
+          completedAt: new Date().toISOString(),
+        });
+        return;
+      }
+      // The turn engine logs persistence failures and still completes; replaying the turn would loop forever
+      if (completedTurns(await this.requireSession(sessionId)) < turnNumber) {
+        throw new Error(`Turn ${turnNumber} finished but was not saved`);
+      }
+      if (run.ownerId && creditsPerTurn > 0) {
+        await storage.deductCredits(run.ownerId, creditsPerTurn);
+        await this.updateRun(sessionId, { creditsUsed: run.creditsUsed + creditsPerTurn });
+      }
+      // The closing turn ends the debate: the verdict is stored before the run reports completed
+      if (turnNumber >= (plannedDebateTurnCount(session) ?? run.targetTurns)) {
+        const adjudication = await debateAdjudicatorService.autoAdjudicate(sessionId, { finalTurn: turnNumber, ownerId: run.ownerId });
+        if (adjudication && adjudication.creditsUsed > 0) {
+          const current = await this.requireRun(sessionId);
+          await this.updateRun(sessionId, { creditsUsed: current.creditsUsed + adjudication.creditsUsed });
+        }
+      }
+    }
+  }
+}
+
+export const debateOrchestrator = new DebateOrchestrator();
@@ -0,0 +1,164 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Persisted debate topic catalog. The first read of an empty catalog seeds it from the Debate Topics
+ *          section of debate-prompts.md; after that the markdown is no longer consulted, and users add their
+ *          own topics with tags and a difficulty level. Lists can be filtered by tag, difficulty, source or
+ *          a text query. A proposition already in the catalog cannot be added twice.
+ * SRP/DRY check: Pass - Catalog rules only; markdown parsing is shared with the client and rows go through
+ *                the storage layer. Ownership checks live in the routes.
+ */
+import { DebateTopicConflictError } from "../errors.js";
+import { getStorage, type DebateTopicUpdate } from "../storage.js";
+import { loadDebateInstructions } from "./debate-turn.service.js";
+import type { DebateTopicRecord, InsertDebateTopic } from "../../shared/schema.js";
+import {
+  DEFAULT_DEBATE_TOPIC_DIFFICULTY,
+  normalizeDebateTopicTags,
+  type DebateTopicCatalog,
+  type DebateTopicDifficulty,
+  type DebateTopicEntry,
+  type DebateTopicSource,
+} from "../../shared/debate-topic-types.js";
+
+export interface DebateTopicFilter {
+  tag?: string;
+  difficulty?: DebateTopicDifficulty;
+  source?: DebateTopicSource;
+  /** Case-insensitive match on title or proposition */
+  q?: string;
+}
+
+export interface DebateTopicInput {
+  title: string;
+  proposition: string;
+  tags?: string[];
+  difficulty?: DebateTopicDifficulty;
+}
+
+/** Propositions differing only in case, punctuation or spacing count as the same topic */
+function propositionKey(proposition: string): string {
+  return proposition.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+export function toDebateTopicEntry(record: DebateTopicRecord): DebateTopicEntry {
+  return {
+    id: record.id,
+    title: record.title,
+    proposition: record.proposition,
+    tags: record.tags ?? [],
+    difficulty: record.difficulty,
+    source: record.source,
+    ownerId: record.ownerId ?? null,
+    createdAt: record.createdAt ? record.createdAt.toISOString() : null,
+    updatedAt: record.updatedAt ? record.updatedAt.toISOString() : null,
+  };
+}
+
+export class DebateTopicCatalogService {
+  private seeding: Promise<void> | null = null;
+
+  async list(filter: DebateTopicFilter = {}): Promise<DebateTopicCatalog> {
+    const records = await this.loadAll();
+    const query = filter.q?.trim().toLowerCase();
+    const tag = filter.tag?.trim().toLowerCase();
+    const topics = records.filter(record =>
+      (!tag || (record.tags ?? []).includes(tag)) &&
+      (!filter.difficulty || record.difficulty === filter.difficulty) &&
+      (!filter.source || record.source === filter.source) &&
+      (!query || record.title.toLowerCase().includes(query) || record.proposition.toLowerCase().includes(query))
+    );
+    const tags = Array.from(new Set(records.flatMap(record => record.tags ?? []))).sort();
+    return { topics: topics.map(toDebateTopicEntry), tags };
+  }
+
+  async get(id: string): Promise<DebateTopicRecord | undefined> {
+    await this.ensureSeeded();
+    const storage = await getStorage();
+    return storage.getDebateTopic(id);
+  }
+
+  async create(input: DebateTopicInput, ownerId: string | null): Promise<DebateTopicEntry> {
+    const proposition = input.proposition.trim();
+    await this.assertUniqueProposition(proposition);
+    const storage = await getStorage();
+    const created = await storage.createDebateTopic({
+      title: input.title.trim(),
+      proposition,
+      tags: normalizeDebateTopicTags(input.tags ?? []),
+      difficulty: input.difficulty ?? DEFAULT_DEBATE_TOPIC_DIFFICULTY,
+      source: "custom",
+      ownerId,
+    });
+    return toDebateTopicEntry(created);
+  }
+
+  async update(id: string, input: Partial<DebateTopicInput>): Promise<DebateTopicEntry | undefined> {
+    const update: DebateTopicUpdate = {};
+    if (input.title !== undefined) update.title = input.title.trim();
+    if (input.proposition !== undefined) {
+      update.proposition = input.proposition.trim();
+      await this.assertUniqueProposition(update.proposition, id);
+    }
+    if (input.tags !== undefined) update.tags = normalizeDebateTopicTags(input.tags);
+    if (input.difficulty !== undefined) update.difficulty = input.difficulty;
+
+    const storage = await getStorage();
+    const updated = await storage.updateDebateTopic(id, update);
+    return updated ? toDebateTopicEntry(updated) : undefined;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const storage = await getStorage();
+    return storage.deleteDebateTopic(id);
+  }
+
+  private async loadAll(): Promise<DebateTopicRecord[]> {
+    await this.ensureSeeded();
+    const storage = await getStorage();
+    return storage.listDebateTopics();
+  }
+
+  private async assertUniqueProposition(proposition: string, exceptId?: string) {
+    const key = propositionKey(proposition);
+    const existing = (await this.loadAll()).find(record => record.id !== exceptId && propositionKey(record.proposition) === key);
+    if (existing) {
+      throw new DebateTopicConflictError("This proposition is already in the topic catalog", { topicId: existing.id });
+    }
+  }
+
+  /** Seeds an empty catalog from debate-prompts.md, once per process; a failed attempt is retried on the next read */
+  private ensureSeeded(): Promise<void> {
+    this.seeding ??= this.seedFromMarkdown().catch(error => {
+      this.seeding = null;
+      throw error;
+    });
+    return this.seeding;
+  }
+
+  private async seedFromMarkdown(): Promise<void> {
+    const storage = await getStorage();
+    if ((await storage.listDebateTopics()).length > 0) {
+      return;
+    }
+    const seen = new Set<string>();
+    const seeds: InsertDebateTopic[] = [];
+    for (const topic of loadDebateInstructions()?.topics ?? []) {
+      const key = propositionKey(topic.proposition);
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+      seeds.push({
+        id: topic.id,
+        title: topic.title,
+        proposition: topic.proposition,
+        tags: topic.tags ?? [],
+        difficulty: topic.difficulty ?? DEFAULT_DEBATE_TOPIC_DIFFICULTY,
+        source: "seed",
+        ownerId: null,
+      });
+    }
+    await storage.seedDebateTopics(seeds);
+  }
+}
+
+export const debateTopicCatalog = new DebateTopicCatalogService();
@@ -0,0 +1,721 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Debate turn engine shared by the interactive stream routes and server-driven debate runs.
+ *          Loads debate-prompts.md, builds the developer/system/user prompt for one turn (opening,
+ *          rebuttal, panel floor statements or a format phase), streams it through the seat's provider
+ *          on its own previous_response_id chain, and persists the finished turn on the session before
+ *          the harness reports completion. Moved out of debate.routes.ts so a turn can be played with
+ *          no browser attached. Human seats do not stream: their typed argument is recorded as the turn,
+ *          and the model speaking next receives it as its opponent's statement. When a forked seat's
+ *          chain ends in another model's response, the new model starts a fresh chain with the
+ *          transcript so far quoted in its prompt.
+ * SRP/DRY check: Pass - Prompt assembly and one-turn streaming only; HTTP validation stays in
+ *                debate.routes.ts and run scheduling in debate-orchestrator.service.ts.
+ */
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import {
+  extractDebateInstructions,
+  formatDebateTemplate,
+  getDebateIntensityDescriptor,
+  type DebateInstructions,
+} from "../../shared/debate-instructions.js";
+import {
+  DEBATE_HUMAN_MODEL_ID,
+  DEBATE_POSITION_AGAINST,
+  DEBATE_POSITION_FOR,
+  debateTeammates,
+  isHumanParticipant,
+  resolveDebateParticipants,
+  resolveParticipantResponseIds,
+  speakerForTurn,
+  type DebateParticipant,
+} from "../../shared/debate-participants.js";
+import {
+  buildDebateTurnPlan,
+  debateTurnSlot,
+  describePhaseLimit,
+  describeStance,
+  DEBATE_WORDS_PER_MINUTE,
+  findDebateFormat,
+  type DebateFormat,
+  type DebateTurnSlot,
+} from "../../shared/debate-formats.js";
+import type { DebateRunSeatSettings } from "../../shared/debate-run-types.js";
+import type { DebateSession } from "../../shared/schema.js";
+import { getProviderForModel, type BaseProvider } from "../providers/index.js";
+import { storage } from "../storage.js";
+import type { StreamHarness } from "../streaming/stream-harness.js";
+import { DebateRunStateError, ValidationError } from "../errors.js";
+
+const DEBATE_PROMPTS_PATH = path.resolve(
+  process.cwd(),
+  "client",
+  "public",
+  "docs",
+  "debate-prompts.md",
+);
+
+export function loadDebateInstructions(): DebateInstructions | null {
+  try {
+    // Read file fresh every time - no caching for simplicity
+    const markdown = readFileSync(DEBATE_PROMPTS_PATH, "utf-8");
+    return extractDebateInstructions(markdown);
+  } catch (error) {
+    console.error(
+      `Failed to load debate prompts markdown at ${DEBATE_PROMPTS_PATH}:`,
+      error,
+    );
+    return null;
+  }
+}
+
+export interface DebateStreamPayload {
+  modelId: string;
+  topic: string;
+  participantId: string;
+  /** Upper-cased seat label, e.g. "AFFIRMATIVE" or "PANELIST 3" */
+  role: string;
+  /** "FOR", "AGAINST" or the seat's free-text stance */
+  position: string;
+  participants: DebateParticipant[];
+  /** Structured format the session follows and this turn's place in it; null for the open-ended flow */
+  format: DebateFormat | null;
+  formatSlot: DebateTurnSlot | null;
+  intensityLevel: number;
+  intensityGuidance: string;
+  intensityHeading: string;
+  intensityLabel: string;
+  intensitySummary: string;
+  intensityFullText: string;
+  opponentMessage: string | null;
+  previousResponseId: string | null;
+  turnNumber: number;
+  reasoningEffort: "low" | "medium" | "high";
+  reasoningSummary: "auto" | "detailed";
+  reasoningVerbosity: "low" | "medium" | "high";
+  temperature: number;
+  maxTokens: number;
+  debateSessionId: string;
+  model1Id: string;
+  model2Id: string;
+}
+
+/*
+ * Author: gpt-5-codex
+ * Date: 2025-10-22 19:40 UTC
+ * PURPOSE: Default debate Prompt Template reference. Use version "latest" and let the provider
+ *          omit the explicit version so OpenAI resolves to the newest published template.
+ * SRP/DRY check: Pass - Centralized default for debate prompt reference only.
+ */
+const STORED_DEBATE_PROMPT: { id: string; version: string } = {
+  id: "pmpt_6856e018a02c8196aa1ccd7eac56ee020cbd4441b7c750b1",
+  version: "latest"
+};
+
+const VALID_REASONING_EFFORTS = new Set(["minimal", "low", "medium", "high"]);
+const VALID_REASONING_SUMMARIES = new Set(["auto", "detailed", "concise"]);
+const VALID_REASONING_VERBOSITIES = new Set(["low", "medium", "high"]);
+
+export function normalizeReasoningEffort(value: unknown): "low" | "medium" | "high" {
+  if (typeof value !== "string") {
+    return "medium";
+  }
+  const normalized = value.toLowerCase();
+  if (!VALID_REASONING_EFFORTS.has(normalized)) {
+    return "medium";
+  }
+  if (normalized === "minimal") {
+    return "low";
+  }
+  return (normalized as "low" | "medium" | "high") || "medium";
+}
+
+export function normalizeReasoningSummary(value: unknown): "auto" | "detailed" {
+  if (typeof value !== "string") {
+    return "detailed";
+  }
+  const normalized = value.toLowerCase();
+  if (!VALID_REASONING_SUMMARIES.has(normalized)) {
+    return "detailed";
+  }
+  if (normalized === "concise") {
+    return "auto";
+  }
+  return (normalized as "auto" | "detailed") || "detailed";
+}
+
+export function normalizeReasoningVerbosity(value: unknown): "low" | "medium" | "high" {
+  if (typeof value !== "string") {
+    return "high";
+  }
+  const normalized = value.toLowerCase();
+  if (!VALID_REASONING_VERBOSITIES.has(normalized)) {
+    return "high";
+  }
+  return normalized as "low" | "medium" | "high";
+}
+
+export function normalizeTemperature(value: unknown): number {
+  if (value === null || value === undefined) {
+    return 0.7;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    return 0.7;
+  }
+  return Math.min(Math.max(parsed, 0), 2);
+}
+
+export function normalizeMaxTokens(value: unknown): number {
+  if (value === null || value === undefined) {
+    return 16384;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return 16384;
+  }
+  return Math.floor(parsed);
+}
+
+interface DebatePromptContext {
+  messages: Array<{ role: string; content: string }>;
+  intensityValue: string;
+  intensityGuidance: string;
+  intensityHeading: string;
+  intensityLabel: string;
+  intensityLevel: string;
+  intensitySummary: string;
+}
+
+/** A statement made by another seat since the current speaker last had the floor */
+interface FloorStatement {
+  turn: number;
+  speaker: DebateParticipant;
+  content: string;
+}
+
+function formatOpponentQuote(message: string | null): string {
+  const trimmed = message?.trim();
+  if (!trimmed) {
+    return "";
+  }
+  return `Opponent's latest statement:\n"""\n${trimmed}\n"""\n\n`;
+}
+
+function quoteStatements(statements: FloorStatement[]): string {
+  return statements
+    .map(({ turn, speaker, content }) => `Turn ${turn} - ${speaker.label} (${speaker.position}):\n"""\n${content.trim()}\n"""`)
+    .join("\n\n");
+}
+
+function formatFloorStatements(statements: FloorStatement[]): string {
+  if (statements.length === 0) {
+    return "";
+  }
+  return `Statements made since your last turn:\n${quoteStatements(statements)}\n\n`;
+}
+
+/** Every earlier turn, for a model taking over a seat without that seat's response chain */
+function formatDebateTranscript(statements: FloorStatement[]): string {
+  if (statements.length === 0) {
+    return "";
+  }
+  return `The debate so far (your seat's earlier turns were argued by another debater; continue them as your own):\n${quoteStatements(statements)}\n\n`;
+}
+
+function isClassicPosition(position: string): boolean {
+  return position === DEBATE_POSITION_FOR || position === DEBATE_POSITION_AGAINST;
+}
+
+function describeSupport(position: string): { verb: string; outcome: string } {
+  if (position === DEBATE_POSITION_FOR) {
+    return { verb: "support", outcome: "should be adopted" };
+  }
+  return { verb: "oppose", outcome: "should be rejected" };
+}
+
+function buildOpeningInstruction(payload: DebateStreamPayload, intensityHeading: string): string {
+  if (!isClassicPosition(payload.position)) {
+    return `Present your opening argument following Robert's Rules of Order. On the proposition "${payload.topic}", make the case for your assigned position: ${payload.position}. Maintain the ${intensityHeading} adversarial guidance provided in the developer message.`;
+  }
+  const { verb } = describeSupport(payload.position);
+  return `Present your opening argument following Robert's Rules of Order. Explain why the proposition "${payload.topic}" should ${verb}. Maintain the ${intensityHeading} adversarial guidance provided in the developer message.`;
+}
+
+function buildRebuttalInstruction(
+  payload: DebateStreamPayload,
+  intensityHeading: string,
+  floorStatements: FloorStatement[],
+): string {
+  const reinforcement = isClassicPosition(payload.position)
+    ? `why the proposition "${payload.topic}" ${describeSupport(payload.position).outcome}`
+    : `your assigned position on "${payload.topic}": ${payload.position}`;
+  if (payload.participants.length > 2) {
+    return `${formatFloorStatements(floorStatements)}Deliver a rebuttal that:
+1. Addresses the specific claims of the speakers who disagree with you.
+2. Refutes their arguments with evidence and logic.
+3. Reinforces ${reinforcement}.
+4. Maintains the ${intensityHeading} adversarial guidance provided in the developer message.`;
+  }
+  const opponentSection = formatOpponentQuote(payload.opponentMessage);
+  return `${opponentSection}Deliver a rebuttal that:
+1. Addresses your opponent's specific claims.
+2. Refutes their arguments with evidence and logic.
+3. Reinforces ${reinforcement}.
+4. Maintains the ${intensityHeading} adversarial guidance provided in the developer message.`;
+}
+
+/** Phase instruction for a format turn, with the statements since this seat last spoke quoted above it */
+function buildFormatInstruction(
+  payload: DebateStreamPayload,
+  slot: DebateTurnSlot,
+  intensityHeading: string,
+  floorStatements: FloorStatement[],
+): string {
+  const { phase } = slot;
+  const counterpart = payload.participants.find(seat => seat.id === slot.counterpartId);
+  const fallback = slot.action === "question"
+    ? "Ask the {opponent_role} one pointed question about their case. Ask only the question."
+    : slot.action === "answer"
+      ? "Answer the question from the {opponent_role} quoted above directly, defending the position that {stance}."
+      : "Deliver your {phase} speech as the {role}, arguing that {stance}.";
+  const template = (slot.action === "answer" ? phase.answerInstruction : phase.instruction) || fallback;
+  const wordBudget = phase.timeLimitSeconds
+    ? String(Math.round((phase.timeLimitSeconds / 60) * DEBATE_WORDS_PER_MINUTE))
+    : "a reasonable number of";
+
+  const instruction = formatDebateTemplate(template, {
+    topic: payload.topic,
+    role: payload.role,
+    position: payload.position,
+    stance: describeStance(payload.topic, payload.position),
+    phase: phase.name,
+    opponent_role: counterpart ? counterpart.label.toUpperCase() : "opposing side",
+    time_limit: describePhaseLimit(phase) ?? "no limit",
+    word_budget: wordBudget,
+  }).trim();
+
+  return `${formatFloorStatements(floorStatements)}${instruction}\n\nMaintain the ${intensityHeading} adversarial guidance provided in the developer message.`;
+}
+
+function earlierTurns(session: DebateSession, payload: DebateStreamPayload): any[] {
+  const turnHistory = Array.isArray(session.turnHistory) ? session.turnHistory as any[] : [];
+  return turnHistory.filter(entry => typeof entry?.turn === "number" && entry.turn < payload.turnNumber);
+}
+
+function turnSpeaker(session: DebateSession, payload: DebateStreamPayload, entry: any): DebateParticipant {
+  return payload.participants.find(seat => seat.id === entry.participantId) ?? speakerForTurn(session, entry.turn);
+}
+
+/** Turn records with content as floor statements, oldest first */
+function toFloorStatements(session: DebateSession, payload: DebateStreamPayload, entries: any[]): FloorStatement[] {
+  return entries
+    .filter(entry => typeof entry.content === "string" && entry.content.trim())
+    .sort((a, b) => a.turn - b.turn)
+    .map(entry => ({ turn: entry.turn, speaker: turnSpeaker(session, payload, entry), content: entry.content }));
+}
+
+/** Turns by other seats since this seat last spoke, oldest first; the panel equivalent of opponentMessage */
+function collectFloorStatements(session: DebateSession, payload: DebateStreamPayload): FloorStatement[] {
+  const earlier = earlierTurns(session, payload);
+  const seatOf = (entry: any) => turnSpeaker(session, payload, entry);
+  const lastOwnTurn = Math.max(0, ...earlier.filter(entry => seatOf(entry).id === payload.participantId).map(entry => entry.turn));
+
+  return toFloorStatements(session, payload, earlier.filter(entry => entry.turn > lastOwnTurn));
+}
+
+/**
+ * True when the seat's stored chain ends in a response from another model, as after a fork that handed the
+ * seat to a different model. That response cannot be continued by this model (or even this provider).
+ */
+function chainedFromOtherModel(session: DebateSession, payload: DebateStreamPayload, responseId: string | null): boolean {
+  if (!responseId) {
+    return false;
+  }
+  const turnHistory = Array.isArray(session.turnHistory) ? session.turnHistory as any[] : [];
+  const source = turnHistory.find(entry => entry?.responseId === responseId);
+  return Boolean(source?.modelId) && source.modelId !== payload.modelId;
+}
+
+function buildPromptContext(
+  payload: DebateStreamPayload,
+  instructions: DebateInstructions | null,
+  floorStatements: FloorStatement[] = [],
+  transcript: FloorStatement[] = [],
+): DebatePromptContext {
+  const descriptor = getDebateIntensityDescriptor(instructions, payload.intensityLevel);
+  const intensityLevel = String(payload.intensityLevel);
+  const intensityHeading = payload.intensityHeading || descriptor?.heading || `Level ${intensityLevel}`;
+  const intensityLabel = payload.intensityLabel || descriptor?.label || intensityHeading;
+  const intensitySummary = payload.intensitySummary || descriptor?.summary || "";
+  const descriptorGuidance = descriptor?.guidance?.trim() ?? "";
+  const providedGuidance = payload.intensityGuidance || "";
+  const intensityGuidance = providedGuidance || descriptorGuidance;
+  const descriptorFullText = descriptor?.fullText ?? (descriptorGuidance ? `${intensityHeading}\n${descriptorGuidance}` : intensityHeading);
+  const providedFullText = payload.intensityFullText || "";
+  const intensityValue = providedFullText || descriptorFullText;
+
+  const humanSeats = payload.participants.filter(seat => seat.id !== payload.participantId && isHumanParticipant(seat)).length;
+  const developerSections = payload.participants.length > 2
+    ? [
+      `You are engaged in a panel debate with ${payload.participants.length - 1} other ${humanSeats > 0 ? `debaters, ${humanSeats} of them human` : "LLMs"}. The debate follows standard parliamentary procedure. You are ethically obligated to provide the best defense for your position. The other speakers will attempt to sway you and the jury; you must stick to your position and convictions.`,
+    ]
+    : [
+      `You are engaged in a debate with ${humanSeats > 0 ? "a human debater practicing their arguments" : "another LLM"}. The debate follows standard parliamentary procedure. You are ethically obligated to provide the best defense for your position. Your opponent will attempt to sway you and the jury; you must stick to your position and convictions.`,
+    ];
+
+  const speaker = payload.participants.find(seat => seat.id === payload.participantId);
+  const teammates = speaker ? debateTeammates(payload.participants, speaker) : [];
+  if (speaker?.team && teammates.length > 0) {
+    developerSections.push(
+      `You argue for team "${speaker.team}" alongside ${teammates.map(seat => seat.label).join(", ")}. Build on your teammates' arguments rather than repeating them.`
+    );
+  }
+
+  const slot = payload.formatSlot;
+  if (payload.format && slot) {
+    const limit = describePhaseLimit(slot.phase);
+    const counterpart = payload.participants.find(seat => seat.id === slot.counterpartId);
+    const exchange = slot.action === "question"
+      ? ` This is cross-examination: you ask the questions and ${counterpart?.label ?? "your opponent"} answers.`
+      : slot.action === "answer"
+        ? ` This is cross-examination: ${counterpart?.label ?? "your opponent"} asks the questions and you answer them.`
+        : "";
+    developerSections.push(
+      `This debate follows the ${payload.format.name} format. Current phase: ${slot.phase.name}${limit ? ` (${limit})` : ""}. ${slot.phase.description}${exchange}`.trim()
+    );
+  }
+
+  if (intensityGuidance) {
+    developerSections.push(`Adversarial intensity guidance:\n${intensityGuidance}`);
+  } else if (descriptorFullText) {
+    developerSections.push(`Adversarial intensity guidance:\n${descriptorFullText}`);
+  } else {
+    developerSections.push(`Adversarial intensity level: ${intensityLevel}`);
+  }
+
+  const baseTemplate = instructions?.baseTemplate?.trim() ||
+    `You are the {role} debater arguing {position} the proposition: "{topic}". Maintain the adversarial guidance provided: {intensity}.`;
+
+  const systemMessage = formatDebateTemplate(baseTemplate, {
+    role: payload.role,
+    position: payload.position,
+    topic: payload.topic,
+    intensity: intensityValue,
+    intensity_level: intensityLevel,
+    intensity_label: intensityLabel,
+    intensity_heading: intensityHeading,
+    intensity_summary: intensitySummary,
+    intensity_guidance: intensityGuidance,
+  }).trim();
+
+  const instruction = slot
+    ? buildFormatInstruction(payload, slot, intensityHeading, floorStatements)
+    : payload.turnNumber <= payload.participants.length
+      ? buildOpeningInstruction(payload, intensityHeading)
+      : buildRebuttalInstruction(payload, intensityHeading, floorStatements);
+  const userMessage = `${formatDebateTranscript(transcript)}${instruction}`;
+
+  return {
+    messages: [
+      { role: "developer", content: developerSections.join("\n\n") },
+      { role: "system", content: systemMessage },
+      { role: "user", content: userMessage },
+    ],
+    intensityValue,
+    intensityGuidance,
+    intensityHeading,
+    intensityLabel,
+    intensityLevel,
+    intensitySummary,
+  };
+}
+
+export async function streamDebateTurn(harness: StreamHarness, payload: DebateStreamPayload): Promise<void> {
+  try {
+    harness.status("validating_session", undefined, {
+      debateSessionId: payload.debateSessionId,
+      turnNumber: payload.turnNumber
+    });
+
+    const debateSession = await storage.getDebateSession(payload.debateSessionId);
+    if (!debateSession) {
+      harness.error("Debate session not found", "SESSION_NOT_FOUND");
+      return;
+    }
+
+    let actualPreviousResponseId = payload.previousResponseId ?? null;
+
+    if (payload.formatSlot || payload.turnNumber > payload.participants.length) {
+      const responseIds = resolveParticipantResponseIds(debateSession)[payload.participantId] ?? [];
+      actualPreviousResponseId = responseIds[responseIds.length - 1] || null;
+    }
+
+    // A forked seat played by a new model starts a fresh chain and reads the whole debate instead
+    const transcript = chainedFromOtherModel(debateSession, payload, actualPreviousResponseId)
+      ? toFloorStatements(debateSession, payload, earlierTurns(debateSession, payload))
+      : [];
+    if (transcript.length > 0) {
+      actualPreviousResponseId = null;
+    }
+
+    const debateInstructions = loadDebateInstructions();
+    const floorStatements = transcript.length === 0 && (payload.formatSlot || payload.participants.length > 2)
+      ? collectFloorStatements(debateSession, payload)
+      : [];
+    const promptContext = buildPromptContext(
+      transcript.length > 0 ? { ...payload, opponentMessage: null } : payload,
+      debateInstructions,
+      floorStatements,
+      transcript,
+    );
+    const inputMessages = promptContext.messages;
+    const promptVariables: Record<string, string> = {
+      intensity: promptContext.intensityValue,
+      position: payload.position,
+      topic: payload.topic,
+      role: payload.role,
+    };
+
+    harness.status("resolving_provider", undefined, { modelId: payload.modelId });
+    let provider: BaseProvider;
+    try {
+      provider = getProviderForModel(payload.modelId);
+    } catch (error) {
+      console.error("Failed to resolve provider for debate stream:", error);
+      harness.error("Provider not found for selected model", "PROVIDER_NOT_FOUND");
+      return;
+    }
+
+    if (!provider.callModelStreaming) {
+      harness.error("Streaming not supported for this provider", "STREAMING_NOT_SUPPORTED");
+      return;
+    }
+
+    harness.status("provider_ready", undefined, { provider: provider.name });
+    harness.status("stream_start", undefined, { provider: provider.name });
+
+    await provider.callModelStreaming({
+      modelId: payload.modelId,
+      messages: inputMessages,
+      previousResponseId: actualPreviousResponseId || undefined,
+      temperature: payload.temperature,
+      maxTokens: payload.maxTokens,
+      reasoningConfig: {
+        effort: payload.reasoningEffort,
+        summary: payload.reasoningSummary,
+        verbosity: payload.reasoningVerbosity
+      },
+      prompt: {
+        ...STORED_DEBATE_PROMPT,
+        variables: promptVariables,
+      },
+      onStatus: (phase, data) => {
+        harness.status(phase, undefined, {
+          provider: provider.name,
+          ...(data ?? {})
+        });
+      },
+      onReasoningChunk: (chunk: string) => {
+        harness.pushReasoning(chunk);
+      },
+      onContentChunk: (chunk: string) => {
+        harness.pushContent(chunk);
+      },
+      onJsonChunk: (chunk: unknown) => {
+        harness.pushJsonChunk(chunk);
+      },
+      onComplete: async (responseId: string, tokenUsage: any, cost: any, extras) => {
+        harness.status("persisting", undefined, { responseId });
+        const finalContent = extras?.content ?? harness.getContent();
+        const finalReasoning = extras?.reasoning ?? harness.getReasoning();
+        const structuredOutput = extras?.structuredOutput ?? harness.getJsonChunks();
+
+        try {
+          const turnCostRaw = typeof cost?.total === "number" ? cost.total : Number(cost ?? 0);
+          const turnCost = Number.isFinite(turnCostRaw) ? turnCostRaw : 0;
+          await storage.updateDebateSession(payload.debateSessionId, {
+            turn: payload.turnNumber,
+            modelId: payload.modelId,
+            participantId: payload.participantId,
+            content: finalContent,
+            reasoning: finalReasoning,
+            responseId,
+            cost: turnCost,
+            costBreakdown: cost,
+            tokenUsage,
+            structuredOutput,
+            summary: finalReasoning
+          });
+        } catch (error) {
+          console.error("Failed to save turn data:", error);
+        }
+
+        harness.complete({
+          responseId,
+          tokenUsage,
+          cost,
+          responseSummary: finalReasoning,
+          metadata: {
+            debateSessionId: payload.debateSessionId,
+            turnNumber: payload.turnNumber,
+            participantId: payload.participantId,
+            structuredOutput,
+            promptVariables
+          }
+        });
+      },
+      onError: (error: Error) => {
+        harness.error(error);
+      }
+    });
+  } catch (error) {
+    console.error("Debate stream error:", error);
+    harness.error(error instanceof Error ? error : new Error("Unknown error"));
+  }
+}
+
+/** Text of the turn before `turnNumber` when a human seat spoke it; the model answering it gets it verbatim */
+export function previousHumanTurn(session: DebateSession, turnNumber: number): string | null {
+  const participants = resolveDebateParticipants(session);
+  const turnHistory = Array.isArray(session.turnHistory) ? session.turnHistory as any[] : [];
+  const previousTurn = turnHistory.find(entry => entry?.turn === turnNumber - 1);
+  const seat = participants.find(participant => participant.id === previousTurn?.participantId);
+  if (!seat || !isHumanParticipant(seat) || typeof previousTurn.content !== "string" || !previousTurn.content.trim()) {
+    return null;
+  }
+  return previousTurn.content;
+}
+
+export interface HumanTurnInput {
+  turnNumber: number;
+  /** Defaults to the seat planned for the turn */
+  participantId?: string;
+  content: string;
+}
+
+/**
+ * Records a human seat's argument as the next turn of the session. The turn must be the next one and
+ * belong to a human seat; it is saved with no response id or cost, so model response chains are untouched.
+ */
+export async function recordHumanTurn(session: DebateSession, input: HumanTurnInput): Promise<DebateParticipant> {
+  if (session.autoRun?.status === "running") {
+    throw new DebateRunStateError("The server is playing this debate; stop the run before taking a turn", { debateSessionId: session.id });
+  }
+  const turnHistory = Array.isArray(session.turnHistory) ? session.turnHistory as any[] : [];
+  const nextTurn = Math.max(0, ...turnHistory.map(entry => Number(entry?.turn) || 0)) + 1;
+  if (input.turnNumber !== nextTurn) {
+    throw new ValidationError(`Turn ${nextTurn} is next, not turn ${input.turnNumber}`, { turnNumber: input.turnNumber, nextTurn });
+  }
+
+  const { participant } = planDebateTurn(session, input.turnNumber);
+  if (input.participantId !== undefined && input.participantId !== participant.id) {
+    throw new ValidationError(`Turn ${input.turnNumber} belongs to participant ${participant.id}, not ${input.participantId}`, {
+      turnNumber: input.turnNumber,
+      participantId: input.participantId,
+    });
+  }
+  if (!isHumanParticipant(participant)) {
+    throw new ValidationError(`Turn ${input.turnNumber} belongs to ${participant.label} (${participant.modelId}), not a human seat`, {
+      turnNumber: input.turnNumber,
+      participantId: participant.id,
+    });
+  }
+
+  await storage.updateDebateSession(session.id, {
+    turn: input.turnNumber,
+    modelId: DEBATE_HUMAN_MODEL_ID,
+    participantId: participant.id,
+    content: input.content,
+    reasoning: "",
+    responseId: "",
+    cost: 0,
+    metadata: { author: "human" },
+  });
+  return participant;
+}
+
+export interface PlannedDebateTurn {
+  participant: DebateParticipant;
+  format: DebateFormat | null;
+  formatSlot: DebateTurnSlot | null;
+}
+
+/** Turns a stored session plays: its format's plan length, or null for the open-ended flow */
+export function plannedDebateTurnCount(session: DebateSession): number | null {
+  const format = resolveStoredFormat(session);
+  return format ? buildDebateTurnPlan(format, session).length : null;
+}
+
+/** Seat and format slot of a stored session's turn; a turn past the end of its format is a ValidationError */
+export function planDebateTurn(session: DebateSession, turnNumber: number): PlannedDebateTurn {
+  const format = resolveStoredFormat(session);
+  const formatSlot = format ? debateTurnSlot(buildDebateTurnPlan(format, session), turnNumber) : null;
+  if (format && !formatSlot) {
+    throw new ValidationError(`The ${format.name} format has no turn ${turnNumber}; the debate is complete`, {
+      debateSessionId: session.id,
+      turnNumber,
+    });
+  }
+  const participant = (formatSlot && resolveDebateParticipants(session).find(seat => seat.id === formatSlot.participantId))
+    || speakerForTurn(session, turnNumber);
+  return { participant, format, formatSlot };
+}
+
+/**
+ * Stream payload for a turn the server plays on its own: the planned seat speaks, intensity comes from
+ * the session's level in debate-prompts.md, and the previous turn stands in for the opponent's message.
+ */
+export function buildSessionTurnPayload(
+  session: DebateSession,
+  turnNumber: number,
+  settings: DebateRunSeatSettings = {},
+): DebateStreamPayload {
+  const { participant, format, formatSlot } = planDebateTurn(session, turnNumber);
+  const turnHistory = Array.isArray(session.turnHistory) ? session.turnHistory as any[] : [];
+  const previousTurn = turnHistory
+    .filter(entry => typeof entry?.turn === "number" && entry.turn < turnNumber && typeof entry.content === "string")
+    .sort((a, b) => b.turn - a.turn)[0];
+  const maxTokens = normalizeMaxTokens(settings.maxTokens);
+
+  return {
+    modelId: participant.modelId,
+    topic: session.topicText,
+    participantId: participant.id,
+    role: participant.label.toUpperCase(),
+    position: participant.position,
+    participants: resolveDebateParticipants(session),
+    format,
+    formatSlot,
+    intensityLevel: session.adversarialLevel,
+    intensityGuidance: "",
+    intensityHeading: "",
+    intensityLabel: "",
+    intensitySummary: "",
+    intensityFullText: "",
+    opponentMessage: previousTurn?.content?.trim() ? previousTurn.content : null,
+    previousResponseId: null,
+    turnNumber,
+    reasoningEffort: normalizeReasoningEffort(settings.reasoningEffort),
+    reasoningSummary: normalizeReasoningSummary(settings.reasoningSummary),
+    reasoningVerbosity: normalizeReasoningVerbosity(settings.reasoningVerbosity),
+    temperature: normalizeTemperature(settings.temperature),
+    maxTokens: formatSlot?.phase.maxTokens ? Math.min(maxTokens, formatSlot.phase.maxTokens) : maxTokens,
+    debateSessionId: session.id,
+    model1Id: session.model1Id,
+    model2Id: session.model2Id,
+  };
+}
+
+function resolveStoredFormat(session: DebateSession): DebateFormat | null {
+  if (!session.format) {
+    return null;
+  }
+  const format = findDebateFormat(loadDebateInstructions()?.formats, session.format);
+  if (!format) {
+    throw new ValidationError(`Debate format "${session.format}" is no longer defined`, { format: session.format });
+  }
+  return format;
+}
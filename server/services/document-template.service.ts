@@ -0,0 +1,52 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Loads the document templates pipelines can run: the Vixra paper from vixra-prompts.md plus every
+ *          markdown file in client/public/docs/templates (grant proposal, technical RFC, literature review,
+ *          or any file dropped in next to them). Files are read fresh on every call, so template edits apply
+ *          without a restart; the template id comes from its DOCUMENT marker or, failing that, the file name.
+ * SRP/DRY check: Pass - File discovery only; parsing and the section DAG live in shared/document-templates.ts.
+ */
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { ValidationError } from "../errors.js";
+import {
+  parseDocumentTemplate,
+  summarizeDocumentTemplate,
+  type DocumentTemplate,
+  type DocumentTemplateSummary,
+} from "../../shared/document-templates.js";
+import { VIXRA_TEMPLATE_ID } from "../../shared/vixra-pipeline.js";
+
+const DOCS_DIR = path.resolve(process.cwd(), "client", "public", "docs");
+const VIXRA_PROMPTS_PATH = path.join(DOCS_DIR, "vixra-prompts.md");
+const TEMPLATES_DIR = path.join(DOCS_DIR, "templates");
+
+export class DocumentTemplateService {
+  /** Every template, Vixra first and the rest by name */
+  list(): DocumentTemplateSummary[] {
+    return this.loadAll().map(summarizeDocumentTemplate);
+  }
+
+  get(templateId: string): DocumentTemplate {
+    const template = this.loadAll().find(candidate => candidate.id === templateId);
+    if (!template) {
+      throw new ValidationError(`Unknown document template: ${templateId}`, { templateId });
+    }
+    return template;
+  }
+
+  private loadAll(): DocumentTemplate[] {
+    const vixra = parseDocumentTemplate(readFileSync(VIXRA_PROMPTS_PATH, "utf-8"), VIXRA_TEMPLATE_ID);
+    const files = existsSync(TEMPLATES_DIR)
+      ? readdirSync(TEMPLATES_DIR).filter(file => file.endsWith(".md")).sort()
+      : [];
+    const others = files
+      .map(file => parseDocumentTemplate(readFileSync(path.join(TEMPLATES_DIR, file), "utf-8"), path.basename(file, ".md")))
+      .filter(template => template.id !== VIXRA_TEMPLATE_ID)
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return [vixra, ...others];
+  }
+}
+
+export const documentTemplateService = new DocumentTemplateService();
@@ -0,0 +1,359 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Reference-answer grading for stored comparisons. Finds the prompt's known answer (inline,
+ *          by template id, or by matching the prompt against annotated compare-prompts.md templates),
+ *          grades every successful response with a pluggable grader (exact, numeric tolerance, regex
+ *          or LLM-as-grader), optionally lets the grading model re-check deterministic misses, and
+ *          persists pass/fail rows that roll up into per-model accuracy.
+ * SRP/DRY check: Pass - Grading only; the `> Answer:` annotation is parsed in shared/reference-answer.ts,
+ *                model calls go through the provider registry and persistence through the storage layer.
+ */
+import { z } from "zod";
+import { callModelWithMessages } from "../providers/index.js";
+import { getGradingConfig } from "../config.js";
+import { GraderError, ValidationError } from "../errors.js";
+import { getStorage } from "../storage.js";
+import type { TemplateCompiler } from "../template-compiler.js";
+import type { Comparison, InsertResponseGrade, ResponseGradeRecord } from "../../shared/schema.js";
+import type {
+  ComparisonGradingResult,
+  ModelAccuracy,
+  ReferenceAnswer,
+  ReferenceGraderType,
+  ResponseGrade,
+} from "../../shared/reference-answer.js";
+
+type ModelCost = { total: number; input: number; output: number; reasoning?: number };
+
+export interface GradeOutcome {
+  passed: boolean;
+  extractedAnswer: string | null;
+  explanation: string | null;
+  cost?: ModelCost | null;
+}
+
+export interface GradeContext {
+  prompt: string;
+  /** Model used by graders that call an LLM */
+  graderModelId: string;
+}
+
+export interface ReferenceGrader {
+  grade(response: string, reference: ReferenceAnswer, context: GradeContext): Promise<GradeOutcome>;
+}
+
+export interface GradeComparisonOptions {
+  reference?: ReferenceAnswer;
+  templateId?: string;
+  templateCompiler?: TemplateCompiler;
+  /** Upper bound on grading-model calls (credit budget); deterministic grading is always free */
+  maxLlmCalls?: number;
+}
+
+export interface GradeComparisonResult extends ComparisonGradingResult {
+  /** Grading-model calls made, for credit accounting */
+  llmCalls: number;
+}
+
+interface ResolvedReference {
+  reference: ReferenceAnswer;
+  templateId: string | null;
+  category: string | null;
+}
+
+// Same threshold the leaderboard uses before trusting a template/prompt text match
+const MIN_TEMPLATE_MATCH_LENGTH = 20;
+
+const llmVerdictSchema = z.object({
+  correct: z.boolean(),
+  extractedAnswer: z.string().nullable().optional(),
+  explanation: z.string().optional(),
+});
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/** Lower-cases and drops markdown/LaTeX decoration and trailing punctuation */
+function normalizeAnswer(text: string): string {
+  return normalizeText(text.replace(/[*_`$]/g, '').replace(/\\text\{([^}]*)\}/g, '$1')).replace(/[.,;:!]+$/, '');
+}
+
+/** Drops a leading "The answer is" / "Final answer:" from a normalized answer */
+function stripAnswerPrefix(text: string): string {
+  return text.replace(/^(?:the\s+)?(?:final\s+)?answer(?:\s+is\b\s*[:：]?|\s*[:：])\s*/, '');
+}
+
+/**
+ * Pulls the final answer out of a free-form response: the last \boxed{...}, else the last
+ * "Final answer:" / "Answer:" line, else the last non-empty line.
+ */
+export function extractFinalAnswer(response: string): string | null {
+  const boxed = Array.from(response.matchAll(/\\boxed\{([^{}]*(?:\{[^{}]*\}[^{}]*)*)\}/g));
+  if (boxed.length > 0) {
+    return boxed[boxed.length - 1][1].trim();
+  }
+  const lines = response.split('\n').map(line => line.trim()).filter(Boolean);
+  for (let index = lines.length - 1; index >= 0; index--) {
+    const match = lines[index].match(/^[*_#>\s-]*(?:final\s+)?answer\s*(?:is)?\s*[*_]*\s*[:：]\s*(.+)$/i);
+    if (match) {
+      return match[1].replace(/^[*_\s]+|[*_\s]+$/g, '').trim();
+    }
+  }
+  return lines.length > 0 ? lines[lines.length - 1] : null;
+}
+
+export const exactGrader: ReferenceGrader = {
+  async grade(response, reference) {
+    const extractedAnswer = extractFinalAnswer(response);
+    const expected = normalizeAnswer(reference.answer);
+    // Only the "The answer is" lead-in is dropped; "B, not A" must not pass for "A"
+    const actual = extractedAnswer ? stripAnswerPrefix(normalizeAnswer(extractedAnswer)) : '';
+    return { passed: actual === expected, extractedAnswer, explanation: null };
+  },
+};
+
+export const numericGrader: ReferenceGrader = {
+  async grade(response, reference) {
+    const expected = Number.parseFloat(reference.answer.replace(/,/g, ''));
+    if (!Number.isFinite(expected)) {
+      throw new ValidationError('Numeric reference answer is not a number', { answer: reference.answer });
+    }
+    const extractedAnswer = extractFinalAnswer(response);
+    const numbers = extractedAnswer?.replace(/(\d),(?=\d{3}\b)/g, '$1').match(/[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) ?? [];
+    if (numbers.length === 0) {
+      return { passed: false, extractedAnswer, explanation: 'No number found in the final answer' };
+    }
+    const actual = Number.parseFloat(numbers[numbers.length - 1]);
+    const tolerance = reference.relativeTolerance
+      ? Math.abs(expected) * (reference.tolerance ?? 0)
+      : reference.tolerance ?? 1e-9 * Math.max(1, Math.abs(expected));
+    const difference = Math.abs(actual - expected);
+    return {
+      passed: difference <= tolerance,
+      extractedAnswer: String(actual),
+      explanation: difference <= tolerance ? null : `Off by ${difference} (tolerance ${tolerance})`,
+    };
+  },
+};
+
+export const regexGrader: ReferenceGrader = {
+  async grade(response, reference) {
+    const extractedAnswer = extractFinalAnswer(response);
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(reference.answer, 'i');
+    } catch (error) {
+      // Patterns come straight from prompt markdown; a broken one fails the grade instead of the whole run
+      const reason = error instanceof Error ? error.message : String(error);
+      return { passed: false, extractedAnswer, explanation: `Reference pattern is not a valid regular expression: ${reason}` };
+    }
+    return { passed: extractedAnswer !== null && pattern.test(extractedAnswer), extractedAnswer, explanation: null };
+  },
+};
+
+export const llmGrader: ReferenceGrader = {
+  async grade(response, reference, context) {
+    const system = [
+      'You check whether an AI response reaches the correct final answer to a question with a known reference answer.',
+      'Equivalent forms count as correct (different notation, units spelled out, reordered terms).',
+      'Only the final answer matters; ignore reasoning quality, length and style.',
+      reference.grader === 'numeric' && reference.tolerance !== undefined
+        ? `Numeric answers within ${reference.relativeTolerance ? `${reference.tolerance * 100}%` : reference.tolerance} of the reference are correct.`
+        : '',
+      'Reply with JSON only, no prose or code fences: {"correct":true|false,"extractedAnswer":"<the response\'s final answer>","explanation":"<one sentence>"}',
+    ].filter(Boolean).join('\n');
+
+    const result = await callModelWithMessages(
+      [
+        { role: 'system', content: system },
+        { role: 'user', content: `## Question\n${context.prompt}\n\n## Reference answer\n${reference.answer}\n\n## Response\n${response}` },
+      ],
+      context.graderModelId,
+      { temperature: 0 }
+    );
+
+    const start = result.content.indexOf('{');
+    const end = result.content.lastIndexOf('}');
+    let raw: unknown = null;
+    try {
+      raw = start === -1 || end <= start ? null : JSON.parse(result.content.slice(start, end + 1));
+    } catch {
+      raw = null;
+    }
+    const parsed = llmVerdictSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new GraderError('Grading model did not return a valid verdict', { graderModelId: context.graderModelId });
+    }
+    return {
+      passed: parsed.data.correct,
+      extractedAnswer: parsed.data.extractedAnswer?.trim() || null,
+      explanation: parsed.data.explanation?.trim() || null,
+      cost: result.cost ?? null,
+    };
+  },
+};
+
+const graders = new Map<ReferenceGraderType, ReferenceGrader>([
+  ['exact', exactGrader],
+  ['numeric', numericGrader],
+  ['regex', regexGrader],
+  ['llm', llmGrader],
+]);
+
+/** Swap in a different implementation for a grader kind (e.g. a stricter exact matcher) */
+export function registerReferenceGrader(type: ReferenceGraderType, grader: ReferenceGrader): void {
+  graders.set(type, grader);
+}
+
+export class GradingService {
+  /** Annotated compare template whose content appears in the prompt, if any */
+  findReference(prompt: string, templateCompiler?: TemplateCompiler): ResolvedReference | null {
+    const normalizedPrompt = normalizeText(prompt);
+    for (const category of templateCompiler?.getTemplatesByMode('compare') ?? []) {
+      for (const template of category.templates) {
+        if (!template.referenceAnswer) continue;
+        const content = normalizeText(template.content);
+        if (content.length >= MIN_TEMPLATE_MATCH_LENGTH && normalizedPrompt.includes(content)) {
+          return { reference: template.referenceAnswer, templateId: template.id, category: category.id };
+        }
+      }
+    }
+    return null;
+  }
+
+  async gradeComparison(comparison: Comparison, options: GradeComparisonOptions = {}): Promise<GradeComparisonResult> {
+    const resolved = this.resolveReference(comparison, options);
+    if (!resolved) {
+      return { comparisonId: comparison.id, templateId: null, reference: null, grades: [], llmCalls: 0 };
+    }
+
+    const config = getGradingConfig();
+    const context: GradeContext = { prompt: comparison.prompt, graderModelId: config.modelId };
+    let llmBudget = options.maxLlmCalls ?? Number.POSITIVE_INFINITY;
+    let llmCalls = 0;
+
+    const rows: InsertResponseGrade[] = [];
+    for (const modelId of comparison.selectedModels) {
+      const response = comparison.responses[modelId];
+      // Errored responses have no answer to grade
+      if (response?.status !== 'success' || !response.content.trim()) continue;
+
+      const primaryType = resolved.reference.grader;
+      if (primaryType === 'llm') {
+        if (llmBudget <= 0) {
+          throw new ValidationError('Not enough credits to grade every response with the grading model', { comparisonId: comparison.id });
+        }
+        llmBudget--;
+        llmCalls++;
+      }
+      let outcome = await this.grader(primaryType).grade(response.content, resolved.reference, context);
+      let grader: ReferenceGraderType = primaryType;
+      let fallbackFrom: ReferenceGraderType | null = null;
+
+      // Deterministic misses are often formatting ("18." vs "eighteen"); let the grading model re-check
+      if (!outcome.passed && primaryType !== 'llm' && config.llmFallback && llmBudget > 0) {
+        llmBudget--;
+        llmCalls++;
+        try {
+          const recheck = await this.grader('llm').grade(response.content, resolved.reference, context);
+          outcome = { ...recheck, extractedAnswer: recheck.extractedAnswer ?? outcome.extractedAnswer };
+          grader = 'llm';
+          fallbackFrom = primaryType;
+        } catch (error) {
+          // Keep the deterministic verdict when the fallback itself fails
+          console.warn(`LLM grading fallback failed for ${modelId}:`, error instanceof Error ? error.message : error);
+        }
+      }
+
+      rows.push({
+        comparisonId: comparison.id,
+        modelId,
+        templateId: resolved.templateId,
+        category: resolved.category,
+        reference: resolved.reference,
+        grader,
+        fallbackFrom,
+        passed: outcome.passed,
+        extractedAnswer: outcome.extractedAnswer,
+        explanation: outcome.explanation,
+        cost: outcome.cost ?? null,
+      });
+    }
+
+    const storage = await getStorage();
+    const records = await storage.replaceResponseGrades(comparison.id, rows);
+    return {
+      comparisonId: comparison.id,
+      templateId: resolved.templateId,
+      reference: resolved.reference,
+      grades: records.map(toResponseGrade),
+      llmCalls,
+    };
+  }
+
+  async getGrades(comparisonId: string): Promise<ComparisonGradingResult | null> {
+    const storage = await getStorage();
+    const records = await storage.getResponseGrades(comparisonId);
+    if (records.length === 0) {
+      return null;
+    }
+    return {
+      comparisonId,
+      templateId: records[0].templateId,
+      reference: records[0].reference,
+      grades: records.map(toResponseGrade),
+    };
+  }
+
+  /** Pass rate per model over every graded response, best first */
+  async getAccuracy(category?: string): Promise<ModelAccuracy[]> {
+    const storage = await getStorage();
+    const totals = new Map<string, ModelAccuracy>();
+    for (const record of await storage.listResponseGrades({ category })) {
+      const entry = totals.get(record.modelId) ?? { modelId: record.modelId, graded: 0, passed: 0, accuracy: 0 };
+      entry.graded++;
+      if (record.passed) entry.passed++;
+      entry.accuracy = entry.passed / entry.graded;
+      totals.set(record.modelId, entry);
+    }
+    return Array.from(totals.values()).sort((a, b) => b.accuracy - a.accuracy || b.graded - a.graded);
+  }
+
+  private resolveReference(comparison: Comparison, options: GradeComparisonOptions): ResolvedReference | null {
+    if (options.reference) {
+      const matched = this.findReference(comparison.prompt, options.templateCompiler);
+      return { reference: options.reference, templateId: null, category: matched?.category ?? null };
+    }
+    if (options.templateId) {
+      const template = options.templateCompiler?.getTemplate(options.templateId);
+      if (!template?.referenceAnswer) {
+        throw new ValidationError('Template has no reference answer', { templateId: options.templateId });
+      }
+      return { reference: template.referenceAnswer, templateId: template.id, category: options.templateId.split(':')[0] };
+    }
+    return this.findReference(comparison.prompt, options.templateCompiler);
+  }
+
+  private grader(type: ReferenceGraderType): ReferenceGrader {
+    const grader = graders.get(type);
+    if (!grader) {
+      throw new ValidationError(`Unknown grader "${type}"`);
+    }
+    return grader;
+  }
+}
+
+function toResponseGrade(record: ResponseGradeRecord): ResponseGrade {
+  return {
+    modelId: record.modelId,
+    passed: record.passed,
+    grader: record.grader,
+    fallbackFrom: record.fallbackFrom ?? null,
+    extractedAnswer: record.extractedAnswer,
+    explanation: record.explanation,
+  };
+}
+
+export const gradingService = new GradingService();
@@ -0,0 +1,213 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: LLM judge for stored comparisons. Sends the prompt plus every successful response from a
+ *          `comparisons` row to a configurable judge model with a weighted rubric, validates the
+ *          JSON verdict, recomputes overall scores server-side, ranks the models and persists the
+ *          result as a `comparison_judgements` row. Responses are shown to the judge under neutral
+ *          labels (Response A, B, ...) so model names cannot bias the scores.
+ * SRP/DRY check: Pass - Judging only; model calls go through the provider registry and persistence
+ *                through the storage layer.
+ */
+import { z } from "zod";
+import { callModelWithMessages } from "../providers/index.js";
+import type { ModelMessage } from "../providers/base.js";
+import { getJudgeConfig } from "../config.js";
+import { JudgeError, ValidationError } from "../errors.js";
+import { getStorage } from "../storage.js";
+import type { Comparison, ComparisonJudgement } from "../../shared/schema.js";
+import {
+  JUDGE_SCORE_MAX,
+  JUDGE_SCORE_MIN,
+  type ComparisonJudgementResult,
+  type JudgeCriterion,
+  type JudgeModelScore,
+  type JudgeRanking,
+} from "../../shared/judge-types.js";
+
+export interface JudgeOptions {
+  judgeModelId?: string;
+  rubric?: JudgeCriterion[];
+}
+
+const judgeVerdictSchema = z.object({
+  evaluations: z.array(z.object({
+    label: z.string(),
+    scores: z.record(z.coerce.number()),
+    rationale: z.string(),
+  })).min(1),
+  summary: z.string().optional(),
+});
+
+type JudgeVerdict = z.infer<typeof judgeVerdictSchema>;
+
+interface Candidate {
+  label: string;
+  modelId: string;
+  content: string;
+}
+
+export class JudgeService {
+  async judgeComparison(comparison: Comparison, options: JudgeOptions = {}): Promise<ComparisonJudgementResult> {
+    const config = getJudgeConfig();
+    const judgeModelId = options.judgeModelId || config.modelId;
+    const rubric = options.rubric?.length ? options.rubric : config.rubric;
+
+    const candidates: Candidate[] = [];
+    const excludedModelIds: string[] = [];
+    for (const modelId of comparison.selectedModels) {
+      const response = comparison.responses[modelId];
+      if (response?.status === 'success' && response.content.trim()) {
+        candidates.push({ label: String.fromCharCode(65 + candidates.length), modelId, content: response.content });
+      } else {
+        excludedModelIds.push(modelId);
+      }
+    }
+
+    if (candidates.length === 0) {
+      throw new ValidationError('Comparison has no successful responses to judge', { comparisonId: comparison.id });
+    }
+
+    const result = await callModelWithMessages(
+      this.buildMessages(comparison.prompt, candidates, rubric),
+      judgeModelId,
+      { temperature: 0 }
+    );
+    const verdict = this.parseVerdict(result.content, judgeModelId);
+
+    const scores: Record<string, JudgeModelScore> = {};
+    for (const candidate of candidates) {
+      const evaluation = verdict.evaluations.find(entry => this.normalizeLabel(entry.label) === candidate.label);
+      if (!evaluation) {
+        throw new JudgeError(`Judge verdict is missing Response ${candidate.label}`, { judgeModelId });
+      }
+      const criteria = Object.fromEntries(rubric.map(criterion => {
+        const raw = evaluation.scores[criterion.id];
+        if (raw === undefined || Number.isNaN(raw)) {
+          throw new JudgeError(`Judge verdict is missing "${criterion.id}" for Response ${candidate.label}`, { judgeModelId });
+        }
+        return [criterion.id, Math.min(JUDGE_SCORE_MAX, Math.max(JUDGE_SCORE_MIN, raw))];
+      }));
+      scores[candidate.modelId] = {
+        modelId: candidate.modelId,
+        criteria,
+        overall: this.weightedOverall(criteria, rubric),
+        rationale: evaluation.rationale.trim(),
+      };
+    }
+
+    const storage = await getStorage();
+    const record = await storage.createComparisonJudgement({
+      comparisonId: comparison.id,
+      judgeModelId,
+      rubric,
+      scores,
+      rankings: this.rank(candidates, scores),
+      summary: verdict.summary?.trim() || null,
+      excludedModelIds,
+      cost: result.cost ?? null,
+    });
+    return toJudgementResult(record);
+  }
+
+  async getLatestJudgement(comparisonId: string): Promise<ComparisonJudgementResult | null> {
+    const storage = await getStorage();
+    const [latest] = await storage.getComparisonJudgements(comparisonId);
+    return latest ? toJudgementResult(latest) : null;
+  }
+
+  private buildMessages(prompt: string, candidates: Candidate[], rubric: JudgeCriterion[]): ModelMessage[] {
+    const criteriaList = rubric
+      .map(criterion => `- ${criterion.id} (${criterion.label}, weight ${criterion.weight}): ${criterion.description}`)
+      .join('\n');
+    const scoreKeys = rubric.map(criterion => `"${criterion.id}": <${JUDGE_SCORE_MIN}-${JUDGE_SCORE_MAX}>`).join(', ');
+
+    const system = [
+      'You are an impartial judge comparing answers from different AI models to the same prompt.',
+      `Score every response on each rubric criterion from ${JUDGE_SCORE_MIN} (very poor) to ${JUDGE_SCORE_MAX} (excellent).`,
+      'Judge only the content. Ignore length unless it hurts clarity, and do not favour a response for its position.',
+      '',
+      'Rubric:',
+      criteriaList,
+      '',
+      'Reply with JSON only, no prose or code fences, in exactly this shape:',
+      `{"evaluations":[{"label":"A","scores":{${scoreKeys}},"rationale":"<2-4 sentences>"}],"summary":"<one paragraph comparing the responses>"}`,
+      'Include one evaluation per response label.',
+    ].join('\n');
+
+    const responses = candidates
+      .map(candidate => `### Response ${candidate.label}\n${candidate.content}`)
+      .join('\n\n');
+
+    return [
+      { role: 'system', content: system },
+      { role: 'user', content: `## Prompt\n${prompt}\n\n## Responses\n${responses}` },
+    ];
+  }
+
+  private parseVerdict(content: string, judgeModelId: string): JudgeVerdict {
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+      throw new JudgeError('Judge model did not return JSON', { judgeModelId });
+    }
+    let raw: unknown;
+    try {
+      raw = JSON.parse(content.slice(start, end + 1));
+    } catch {
+      throw new JudgeError('Judge model returned malformed JSON', { judgeModelId });
+    }
+    const parsed = judgeVerdictSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new JudgeError('Judge verdict did not match the expected shape', {
+        judgeModelId,
+        issues: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`),
+      });
+    }
+    return parsed.data;
+  }
+
+  /** Accepts "A", "Response A" or "response a" */
+  private normalizeLabel(label: string): string {
+    return label.trim().replace(/^response\s+/i, '').toUpperCase();
+  }
+
+  private weightedOverall(criteria: Record<string, number>, rubric: JudgeCriterion[]): number {
+    const totalWeight = rubric.reduce((sum, criterion) => sum + criterion.weight, 0) || 1;
+    const weighted = rubric.reduce((sum, criterion) => sum + criteria[criterion.id] * criterion.weight, 0);
+    return Math.round((weighted / totalWeight) * 100) / 100;
+  }
+
+  /** Highest overall first; ties share a rank and keep comparison order */
+  private rank(candidates: Candidate[], scores: Record<string, JudgeModelScore>): JudgeRanking[] {
+    const ordered = [...candidates].sort((a, b) => scores[b.modelId].overall - scores[a.modelId].overall);
+    const rankings: JudgeRanking[] = [];
+    ordered.forEach((candidate, index) => {
+      const overall = scores[candidate.modelId].overall;
+      const previous = rankings[index - 1];
+      rankings.push({
+        modelId: candidate.modelId,
+        rank: previous && previous.overall === overall ? previous.rank : index + 1,
+        overall,
+      });
+    });
+    return rankings;
+  }
+}
+
+function toJudgementResult(record: ComparisonJudgement): ComparisonJudgementResult {
+  return {
+    id: record.id,
+    comparisonId: record.comparisonId,
+    judgeModelId: record.judgeModelId,
+    rubric: record.rubric,
+    scores: record.scores,
+    rankings: record.rankings,
+    summary: record.summary,
+    excludedModelIds: record.excludedModelIds,
+    cost: record.cost ?? null,
+    createdAt: record.createdAt ? record.createdAt.toISOString() : null,
+  };
+}
+
+export const judgeService = new JudgeService();
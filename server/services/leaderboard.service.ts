@@ -0,0 +1,338 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Pairwise model leaderboard. Turns human compare votes, LLM judge verdicts, debate jury
+ *          scores and battle outcomes into `model_matchups` rows, then rates models from them on
+ *          read with either sequential Elo or a Bradley-Terry fit. Comparisons are bucketed into the
+ *          `## ` sections of compare-prompts.md (via the template compiler) so the table can be
+ *          filtered by prompt category. A debate jury verdict becomes one matchup per pair of scored
+ *          seats, so panel debates rate every model the jury scored. Votes must name catalog models
+ *          and the comparison or battle they are about, so each voter holds one vote per reference.
+ * SRP/DRY check: Pass - Ingestion and rating only; persistence goes through the storage layer and
+ *                prompt sections come from TemplateCompiler rather than a second markdown parser.
+ */
+import { getLeaderboardConfig } from "../config.js";
+import { ValidationError } from "../errors.js";
+import { getStorage } from "../storage.js";
+import { getModelById } from "../providers/index.js";
+import type { TemplateCompiler } from "../template-compiler.js";
+import type { DebateSession, InsertModelMatchup, ModelMatchup } from "../../shared/schema.js";
+import type { ComparisonJudgementResult } from "../../shared/judge-types.js";
+import { isHumanParticipant, resolveDebateParticipants, type DebateParticipant } from "../../shared/debate-participants.js";
+import type {
+  LeaderboardCategory,
+  LeaderboardEntry,
+  LeaderboardResult,
+  MatchupOutcome,
+  MatchupSource,
+  RatingMethod,
+} from "../../shared/leaderboard-types.js";
+
+const BASE_RATING = 1000;
+const BT_MAX_ITERATIONS = 500;
+const BT_TOLERANCE = 1e-7;
+// Prompts shorter than this are too generic to pin to a section by substring match
+const MIN_TEMPLATE_MATCH_LENGTH = 20;
+
+type Pairing = Pick<ModelMatchup, 'modelAId' | 'modelBId' | 'outcome'>;
+
+export interface LeaderboardQuery {
+  method?: RatingMethod;
+  category?: string;
+  sources?: MatchupSource[];
+}
+
+export interface VoteInput {
+  source: Extract<MatchupSource, 'human_vote' | 'battle'>;
+  modelIds: string[];
+  /** Omit for a tie between every listed model */
+  winnerModelId?: string | null;
+  category?: string | null;
+  /** Comparison or battle voted on; the voter's earlier vote on it is replaced */
+  referenceId: string;
+  voterId?: string | null;
+}
+
+function scoreFor(outcome: MatchupOutcome): number {
+  return outcome === 'a' ? 1 : outcome === 'b' ? 0 : 0.5;
+}
+
+/** Sequential Elo in matchup order (callers pass them oldest first) */
+export function computeEloRatings(matchups: Pairing[], k: number): Map<string, number> {
+  const ratings = new Map<string, number>();
+  const rating = (modelId: string) => ratings.get(modelId) ?? BASE_RATING;
+
+  for (const matchup of matchups) {
+    const ra = rating(matchup.modelAId);
+    const rb = rating(matchup.modelBId);
+    const expectedA = 1 / (1 + Math.pow(10, (rb - ra) / 400));
+    const delta = k * (scoreFor(matchup.outcome) - expectedA);
+    ratings.set(matchup.modelAId, ra + delta);
+    ratings.set(matchup.modelBId, rb - delta);
+  }
+  return ratings;
+}
+
+/**
+ * Bradley-Terry strengths via Hunter's MM iterations, ties counted as half a win each. Every model
+ * also plays one virtual tie against a fixed strength-1 anchor so unbeaten or winless models stay
+ * finite. Strengths are reported on the Elo scale (1000 + 400 * log10 p).
+ */
+export function computeBradleyTerryRatings(matchups: Pairing[]): Map<string, number> {
+  const wins = new Map<string, number>();
+  const games = new Map<string, Map<string, number>>();
+  const addGame = (a: string, b: string) => {
+    const row = games.get(a) ?? new Map<string, number>();
+    row.set(b, (row.get(b) ?? 0) + 1);
+    games.set(a, row);
+  };
+
+  for (const matchup of matchups) {
+    const scoreA = scoreFor(matchup.outcome);
+    wins.set(matchup.modelAId, (wins.get(matchup.modelAId) ?? 0) + scoreA);
+    wins.set(matchup.modelBId, (wins.get(matchup.modelBId) ?? 0) + (1 - scoreA));
+    addGame(matchup.modelAId, matchup.modelBId);
+    addGame(matchup.modelBId, matchup.modelAId);
+  }
+
+  const models = Array.from(wins.keys());
+  let strengths = new Map(models.map(modelId => [modelId, 1]));
+
+  for (let iteration = 0; iteration < BT_MAX_ITERATIONS; iteration++) {
+    const next = new Map<string, number>();
+    let maxChange = 0;
+    for (const modelId of models) {
+      const p = strengths.get(modelId)!;
+      let denominator = 1 / (p + 1); // virtual tie against the anchor
+      for (const [opponent, count] of Array.from(games.get(modelId)!.entries())) {
+        denominator += count / (p + strengths.get(opponent)!);
+      }
+      const updated = (wins.get(modelId)! + 0.5) / denominator;
+      maxChange = Math.max(maxChange, Math.abs(updated - p) / p);
+      next.set(modelId, updated);
+    }
+    strengths = next;
+    if (maxChange < BT_TOLERANCE) {
+      break;
+    }
+  }
+
+  return new Map(models.map(modelId => [modelId, BASE_RATING + 400 * Math.log10(strengths.get(modelId)!)]));
+}
+
+/** Every pair from a ranking; equal ranks tie */
+function pairwiseFromRanks(ranked: Array<{ modelId: string; rank: number }>): Pairing[] {
+  const pairs: Pairing[] = [];
+  for (let i = 0; i < ranked.length; i++) {
+    for (let j = i + 1; j < ranked.length; j++) {
+      const a = ranked[i];
+      const b = ranked[j];
+      pairs.push({
+        modelAId: a.modelId,
+        modelBId: b.modelId,
+        outcome: a.rank === b.rank ? 'tie' : a.rank < b.rank ? 'a' : 'b',
+      });
+    }
+  }
+  return pairs;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+export class LeaderboardService {
+  /** Compare-mode prompt sections, e.g. "analysis---reasoning" for "## Analysis & Reasoning" */
+  getCategories(templateCompiler?: TemplateCompiler): LeaderboardCategory[] {
+    return (templateCompiler?.getTemplatesByMode('compare') ?? []).map(category => ({
+      id: category.id,
+      name: category.name,
+    }));
+  }
+
+  /** Section whose template text the prompt contains, or null for free-form prompts */
+  categorizePrompt(prompt: string, templateCompiler?: TemplateCompiler): string | null {
+    const normalizedPrompt = normalizeText(prompt);
+    for (const category of templateCompiler?.getTemplatesByMode('compare') ?? []) {
+      const matched = category.templates.some(template => {
+        const content = normalizeText(template.content);
+        return content.length >= MIN_TEMPLATE_MATCH_LENGTH && normalizedPrompt.includes(content);
+      });
+      if (matched) {
+        return category.id;
+      }
+    }
+    return null;
+  }
+
+  /** Re-judging a comparison replaces its earlier judge matchups */
+  async recordJudgement(judgement: ComparisonJudgementResult, category: string | null): Promise<number> {
+    const pairs = pairwiseFromRanks(judgement.rankings);
+    const storage = await getStorage();
+    const records = await storage.recordModelMatchups(
+      pairs.map(pair => ({ ...pair, source: 'judge', category, referenceId: judgement.comparisonId })),
+      { source: 'judge', referenceId: judgement.comparisonId }
+    );
+    return records.length;
+  }
+
+  /**
+   * A winner beats every other listed model; no winner ties them all. Only catalog models are rated, and
+   * re-voting on the same reference replaces the voter's earlier vote.
+   */
+  async recordVote(input: VoteInput): Promise<number> {
+    const modelIds = Array.from(new Set(input.modelIds));
+    if (modelIds.length < 2) {
+      throw new ValidationError('A vote needs at least two distinct models', { modelIds: input.modelIds });
+    }
+    const unknown = modelIds.filter(modelId => !getModelById(modelId));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown models: ${unknown.join(', ')}`, { modelIds: unknown });
+    }
+    if (input.winnerModelId && !modelIds.includes(input.winnerModelId)) {
+      throw new ValidationError('Winner must be one of the voted models', { winnerModelId: input.winnerModelId });
+    }
+
+    const ranked = modelIds.map(modelId => ({
+      modelId,
+      rank: !input.winnerModelId || modelId === input.winnerModelId ? 1 : 2,
+    }));
+    // Losers only meet the winner; they did not play each other
+    const pairs = pairwiseFromRanks(ranked).filter(pair =>
+      !input.winnerModelId || pair.modelAId === input.winnerModelId || pair.modelBId === input.winnerModelId
+    );
+
+    const storage = await getStorage();
+    const records = await storage.recordModelMatchups(
+      pairs.map(pair => ({
+        ...pair,
+        source: input.source,
+        category: input.category ?? null,
+        referenceId: input.referenceId,
+        voterId: input.voterId ?? null,
+      })),
+      { source: input.source, referenceId: input.referenceId, voterId: input.voterId }
+    );
+    return records.length;
+  }
+
+  /**
+   * Pairwise matchups between the seats the jury scored; more points wins each pair. Points are keyed by
+   * participant id, or by model id when exactly one seat plays that model (two-model sessions). Human
+   * seats and pairs of seats on the same model are not rated. Re-submitting replaces the juror's earlier verdict.
+   */
+  async recordDebateJury(session: DebateSession, points: Record<string, number>, voterId: string | null): Promise<InsertModelMatchup[]> {
+    const seats = resolveDebateParticipants(session);
+    const scored = new Map<string, { seat: DebateParticipant; points: number }>();
+    const unknown: string[] = [];
+    for (const [key, value] of Object.entries(points)) {
+      const modelSeats = seats.filter(seat => seat.modelId === key);
+      const seat = seats.find(candidate => candidate.id === key) ?? (modelSeats.length === 1 ? modelSeats[0] : undefined);
+      if (seat) {
+        scored.set(seat.id, { seat, points: value });
+      } else {
+        unknown.push(key);
+      }
+    }
+    if (unknown.length > 0) {
+      throw new ValidationError(`Jury points name unknown participants: ${unknown.join(', ')}`, {
+        sessionId: session.id,
+        expected: seats.map(seat => seat.id),
+      });
+    }
+
+    const rated = Array.from(scored.values()).filter(entry => !isHumanParticipant(entry.seat));
+    if (rated.length < 2) {
+      throw new ValidationError(scored.size > rated.length
+        ? 'Practice debates against a human seat are not rated'
+        : 'Jury points are required for at least two debaters', {
+        sessionId: session.id,
+        expected: seats.filter(seat => !isHumanParticipant(seat)).map(seat => seat.id),
+      });
+    }
+
+    const matchups: InsertModelMatchup[] = [];
+    rated.forEach((a, index) => {
+      for (const b of rated.slice(index + 1)) {
+        if (a.seat.modelId === b.seat.modelId) continue;
+        matchups.push({
+          modelAId: a.seat.modelId,
+          modelBId: b.seat.modelId,
+          outcome: a.points === b.points ? 'tie' : a.points > b.points ? 'a' : 'b',
+          source: 'debate_jury',
+          category: null,
+          referenceId: session.id,
+          voterId,
+        });
+      }
+    });
+    if (matchups.length === 0) {
+      throw new ValidationError('Same-model debates cannot be rated', { sessionId: session.id });
+    }
+
+    const storage = await getStorage();
+    await storage.recordModelMatchups(matchups, { source: 'debate_jury', referenceId: session.id, voterId });
+    return matchups;
+  }
+
+  async getLeaderboard(query: LeaderboardQuery = {}): Promise<LeaderboardResult> {
+    const config = getLeaderboardConfig();
+    const method = query.method ?? 'elo';
+    const storage = await getStorage();
+    const matchups = (await storage.getModelMatchups({ category: query.category, sources: query.sources }))
+      .filter(matchup => matchup.modelAId !== matchup.modelBId)
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+
+    const ratings = method === 'elo'
+      ? computeEloRatings(matchups, config.eloK)
+      : computeBradleyTerryRatings(matchups);
+
+    const tallies = new Map<string, { wins: number; losses: number; ties: number }>();
+    const tally = (modelId: string) => {
+      const existing = tallies.get(modelId) ?? { wins: 0, losses: 0, ties: 0 };
+      tallies.set(modelId, existing);
+      return existing;
+    };
+    for (const matchup of matchups) {
+      if (matchup.outcome === 'tie') {
+        tally(matchup.modelAId).ties++;
+        tally(matchup.modelBId).ties++;
+      } else {
+        const [winner, loser] = matchup.outcome === 'a'
+          ? [matchup.modelAId, matchup.modelBId]
+          : [matchup.modelBId, matchup.modelAId];
+        tally(winner).wins++;
+        tally(loser).losses++;
+      }
+    }
+
+    const entries: LeaderboardEntry[] = Array.from(tallies.entries())
+      .map(([modelId, { wins, losses, ties }]) => {
+        const matches = wins + losses + ties;
+        return {
+          modelId,
+          rank: 0,
+          rating: Math.round((ratings.get(modelId) ?? BASE_RATING) * 10) / 10,
+          matches,
+          wins,
+          losses,
+          ties,
+          winRate: matches > 0 ? Math.round(((wins + ties / 2) / matches) * 1000) / 1000 : 0,
+        };
+      })
+      .filter(entry => entry.matches >= config.minMatches)
+      .sort((a, b) => b.rating - a.rating || b.matches - a.matches);
+    entries.forEach((entry, index) => { entry.rank = index + 1; });
+
+    return {
+      method,
+      category: query.category ?? null,
+      sources: query.sources ?? [],
+      totalMatches: matchups.length,
+      entries,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+}
+
+export const leaderboardService = new LeaderboardService();
@@ -1,11 +1,12 @@
 /*
  * Author: Cascade
  * Date: October 14, 2025 and 7:23pm UTC-04:00
- * PURPOSE: This service file provides model-related business logic, including parallel model comparisons and response formatting. It integrates with providers for model calls and handles credit deduction.
+ * PURPOSE: This service file provides model-related business logic, including parallel model comparisons (buffered and streamed) and response formatting. It integrates with providers for model calls and handles credit deduction.
  * SRP/DRY check: Pass - Focused solely on model service logic. Model service patterns were repeated in routes; this centralizes them. Reviewed existing model code to ensure no duplication.
  */
-import { callModel } from "../providers/index.js";
+import { callModel, getProviderForModel } from "../providers/index.js";
 import { deductCreditsForSuccessfulCalls } from "../device-auth.js";
+import type { CompareStreamHarness } from "../streaming/compare-stream-harness.js";
 
 export class ModelService {
   async compareModels(prompt: string, modelIds: string[], req: any) {
@@ -18,6 +19,90 @@ export class ModelService {
     return responses;
   }
 
+  /**
+   * Streaming variant of compareModels: every model starts at once and its reasoning/content is
+   * pushed to the shared harness as it arrives, so slow reasoning models no longer hold back the
+   * rest of the grid. Providers without streaming support fall back to a single buffered chunk.
+   * Resolves with the same response map compareModels returns, ready for persistence.
+   */
+  async streamComparison(prompt: string, modelIds: string[], harness: CompareStreamHarness) {
+    const responses: Record<string, any> = {};
+    await Promise.all(
+      modelIds.map(async (modelId) => {
+        responses[modelId] = await this.streamModel(prompt, modelId, harness);
+      })
+    );
+    return responses;
+  }
+
+  private async streamModel(prompt: string, modelId: string, harness: CompareStreamHarness) {
+    const startTime = Date.now();
+    const fail = (error: unknown, code?: string) => {
+      const message = error instanceof Error ? error.message : String(error ?? 'Unknown error');
+      harness.modelError(modelId, message, code);
+      return {
+        content: harness.getContent(modelId),
+        reasoning: harness.getReasoning(modelId) || undefined,
+        status: 'error',
+        responseTime: Date.now() - startTime,
+        error: message,
+      };
+    };
+
+    let provider;
+    try {
+      provider = getProviderForModel(modelId);
+    } catch (error) {
+      return fail(error, 'PROVIDER_NOT_FOUND');
+    }
+
+    if (!provider.callModelStreaming) {
+      harness.status(modelId, 'buffered', { provider: provider.name });
+      try {
+        const result = await callModel(prompt, modelId, {
+          onStatus: (phase, data) => harness.status(modelId, phase, { provider: provider.name, ...(data ?? {}) }),
+        });
+        harness.pushReasoning(modelId, result.reasoning ?? '');
+        harness.pushContent(modelId, result.content);
+        harness.modelComplete(modelId, {
+          responseTime: result.responseTime,
+          tokenUsage: result.tokenUsage,
+          cost: result.cost,
+          route: result.route,
+        });
+        return this.formatModelResponse(result);
+      } catch (error) {
+        return fail(error);
+      }
+    }
+
+    const streaming = provider;
+    return new Promise<Record<string, any>>((resolve) => {
+      harness.status(modelId, 'stream_start', { provider: streaming.name });
+      streaming.callModelStreaming!({
+        modelId,
+        messages: [{ role: 'user', content: prompt }],
+        onStatus: (phase, data) => harness.status(modelId, phase, { provider: streaming.name, ...(data ?? {}) }),
+        onReasoningChunk: (chunk) => harness.pushReasoning(modelId, chunk),
+        onContentChunk: (chunk) => harness.pushContent(modelId, chunk),
+        onComplete: (responseId, usage, cost, extras) => {
+          const responseTime = Date.now() - startTime;
+          const tokenUsage = normalizeStreamUsage(usage);
+          harness.modelComplete(modelId, { responseId, responseTime, tokenUsage, cost }, extras);
+          resolve({
+            content: extras?.content ?? harness.getContent(modelId),
+            reasoning: (extras?.reasoning ?? harness.getReasoning(modelId)) || undefined,
+            responseTime,
+            tokenUsage,
+            cost,
+            status: 'success',
+          });
+        },
+        onError: (error) => resolve(fail(error)),
+      }).catch((error) => resolve(fail(error)));
+    });
+  }
+
   private async callModel(prompt: string, modelId: string) {
     try {
       const result = await callModel(prompt, modelId);
@@ -40,9 +125,25 @@ export class ModelService {
       tokenUsage: result.tokenUsage,
       cost: result.cost,
       modelConfig: result.modelConfig,
+      route: result.route,
       status: 'success'
     };
   }
 }
 
+/** Responses-style streaming usage ({input_tokens, ...}) mapped onto the ModelResponse shape */
+function normalizeStreamUsage(usage: any): { input: number; output: number; reasoning?: number } | undefined {
+  if (!usage || typeof usage !== 'object') {
+    return undefined;
+  }
+  const input = Number(usage.input_tokens ?? usage.input ?? 0);
+  const output = Number(usage.output_tokens ?? usage.output ?? 0);
+  const reasoning = usage.output_tokens_details?.reasoning_tokens ?? usage.reasoning;
+  return {
+    input: Number.isFinite(input) ? input : 0,
+    output: Number.isFinite(output) ? output : 0,
+    reasoning: typeof reasoning === 'number' && reasoning > 0 ? reasoning : undefined,
+  };
+}
+
 export const modelService = new ModelService();
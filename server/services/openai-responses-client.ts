@@ -9,6 +9,8 @@
  */
 
 import { z } from 'zod';
+import { getProviderCassette } from '../providers/cassette.js';
+import { getProviderRateLimiter } from '../providers/rate-limiter.js';
 
 const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
 const RESPONSES_PATH = '/responses';
@@ -139,11 +141,15 @@ let cachedClient: OpenAiResponsesClient | null = null;
 
 export function getOpenAiResponsesClient(): OpenAiResponsesClient {
   if (!cachedClient) {
-    const apiKey = process.env.OPENAI_API_KEY;
+    const cassette = getProviderCassette();
+    // Replayed cassettes never reach the network, so a placeholder key is sufficient
+    const apiKey = process.env.OPENAI_API_KEY || (cassette.mode === 'replay' ? 'cassette-replay' : undefined);
     if (!apiKey) {
       throw new Error('OPENAI_API_KEY environment variable is required to run agent SDK flows.');
     }
-    cachedClient = new OpenAiResponsesClient({ apiKey });
+    // Agent runs share the OpenAI provider's rate limits with compare/debate traffic
+    const fetchFn = cassette.wrapFetch(getProviderRateLimiter().wrapFetch(fetch, 'OpenAI'));
+    cachedClient = new OpenAiResponsesClient({ apiKey, fetchFn });
   }
   return cachedClient;
 }
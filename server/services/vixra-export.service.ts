@@ -0,0 +1,571 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Renders a `vixra_sessions` row as an arXiv-style paper: a LaTeX source bundle (main.tex with
+ *          title block, abstract, numbered sections and a thebibliography built from the Citations
+ *          section, plus references.bib) packed as .tar.gz, and a typeset PDF with the same structure.
+ *          Section outputs are Markdown; headings, emphasis, lists, tables, code, inline/display math and
+ *          [n] citation markers are translated, LaTeX specials escaped and Greek/math symbols mapped to
+ *          commands (or spelled out in the PDF, whose standard fonts cannot show them). Any document
+ *          template exports the same way, in its own section order; sections with the ids abstract,
+ *          citations and acknowledgments are typeset as the abstract, bibliography and acknowledgments.
+ * SRP/DRY check: Pass - Paper assembly and format translation only; archive and PDF encoding live in
+ *                server/utils/tar-archive.ts and server/utils/pdf-writer.ts, section order in the document template.
+ */
+import { ValidationError } from "../errors.js";
+import { createTarGz } from "../utils/tar-archive.js";
+import { PdfDocument, type PdfTextOptions } from "../utils/pdf-writer.js";
+import type { DocumentTemplate } from "../../shared/document-templates.js";
+import type { VixraSession } from "../../shared/schema.js";
+
+export type VixraExportFormat = "latex" | "pdf";
+
+export interface VixraExportFile {
+  filename: string;
+  contentType: string;
+  body: Buffer;
+}
+
+type PaperBlock =
+  | { type: "heading"; level: number; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "table"; rows: string[][] }
+  | { type: "code"; text: string }
+  | { type: "math"; text: string };
+
+interface PaperSection {
+  name: string;
+  blocks: PaperBlock[];
+}
+
+interface VixraPaper {
+  title: string;
+  authors: string;
+  institution: string | null;
+  /** Subject line under the title; null for templates without a science category */
+  category: string | null;
+  date: string;
+  abstract: PaperBlock[] | null;
+  /** Numbered body sections, Introduction through Conclusion */
+  sections: PaperSection[];
+  acknowledgments: PaperBlock[] | null;
+  references: string[];
+}
+
+const UNNUMBERED_SECTIONS = new Set(["abstract", "citations", "acknowledgments"]);
+
+// Unicode symbols models like to emit: [LaTeX math command, plain-text spelling for the PDF fonts]
+const SYMBOLS: Record<string, [string, string]> = {
+  "α": ["\\alpha", "alpha"], "β": ["\\beta", "beta"], "γ": ["\\gamma", "gamma"], "δ": ["\\delta", "delta"],
+  "ε": ["\\epsilon", "epsilon"], "ζ": ["\\zeta", "zeta"], "η": ["\\eta", "eta"], "θ": ["\\theta", "theta"],
+  "ι": ["\\iota", "iota"], "κ": ["\\kappa", "kappa"], "λ": ["\\lambda", "lambda"], "μ": ["\\mu", "mu"],
+  "ν": ["\\nu", "nu"], "ξ": ["\\xi", "xi"], "π": ["\\pi", "pi"], "ρ": ["\\rho", "rho"],
+  "σ": ["\\sigma", "sigma"], "τ": ["\\tau", "tau"], "υ": ["\\upsilon", "upsilon"], "φ": ["\\phi", "phi"],
+  "χ": ["\\chi", "chi"], "ψ": ["\\psi", "psi"], "ω": ["\\omega", "omega"], "Γ": ["\\Gamma", "Gamma"],
+  "Δ": ["\\Delta", "Delta"], "Θ": ["\\Theta", "Theta"], "Λ": ["\\Lambda", "Lambda"], "Ξ": ["\\Xi", "Xi"],
+  "Π": ["\\Pi", "Pi"], "Σ": ["\\Sigma", "Sigma"], "Φ": ["\\Phi", "Phi"], "Ψ": ["\\Psi", "Psi"],
+  "Ω": ["\\Omega", "Omega"], "ℏ": ["\\hbar", "hbar"], "∞": ["\\infty", "infinity"], "∂": ["\\partial", "d"],
+  "∇": ["\\nabla", "nabla"], "∑": ["\\sum", "sum"], "∏": ["\\prod", "prod"], "∫": ["\\int", "integral"],
+  "√": ["\\surd", "sqrt"], "≈": ["\\approx", "~"], "≤": ["\\leq", "<="], "≥": ["\\geq", ">="],
+  "≠": ["\\neq", "!="], "≡": ["\\equiv", "=="], "∝": ["\\propto", "~"], "∈": ["\\in", "in"],
+  "∀": ["\\forall", "for all"], "∃": ["\\exists", "exists"], "→": ["\\rightarrow", "->"],
+  "←": ["\\leftarrow", "<-"], "↔": ["\\leftrightarrow", "<->"], "⇒": ["\\Rightarrow", "=>"],
+  "×": ["\\times", "\u00d7"], "±": ["\\pm", "\u00b1"], "÷": ["\\div", "\u00f7"], "·": ["\\cdot", "\u00b7"],
+  "°": ["^\\circ", "\u00b0"], "²": ["^2", "\u00b2"], "³": ["^3", "\u00b3"],
+};
+
+const LATEX_SPECIALS: Record<string, string> = {
+  "\\": "\\textbackslash{}", "{": "\\{", "}": "\\}", "$": "\\$", "&": "\\&", "#": "\\#",
+  "%": "\\%", "_": "\\_", "~": "\\textasciitilde{}", "^": "\\textasciicircum{}",
+};
+
+// Code spans, emphasis, links and inline math, tried left to right
+const INLINE_TOKEN = /(\$\$[^$]+\$\$|\$[^$\s](?:[^$\n]*[^$\s])?\$|\\\([^\n]+?\\\)|`[^`\n]+`|\*\*[^*\n]+\*\*|__[^_\n]+__|\*[^*\s][^*\n]*\*|\[[^\]\n]+\]\([^)\s]+\))/g;
+const CITATION_MARKER = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+const LIST_ITEM = /^\s*(?:([-*+\u2022])|(\d+)[.)])\s+(.*)$/;
+
+// --- Markdown structure ---------------------------------------------------------------------
+
+function parseMarkdownBlocks(content: string): PaperBlock[] {
+  const blocks: PaperBlock[] = [];
+  const lines = content.replace(/\r\n?/g, "\n").split("\n");
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: "paragraph", text: paragraph.join(" ") });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith("```")) {
+      flushParagraph();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith("```")) code.push(lines[i]);
+      blocks.push({ type: "code", text: code.join("\n") });
+      continue;
+    }
+
+    const mathOpen = trimmed.startsWith("$$") ? "$$" : trimmed.startsWith("\\[") ? "\\[" : null;
+    if (mathOpen) {
+      flushParagraph();
+      const mathClose = mathOpen === "$$" ? "$$" : "\\]";
+      let math = trimmed.slice(2);
+      while (!math.trimEnd().endsWith(mathClose) && i + 1 < lines.length) {
+        math += "\n" + lines[++i];
+      }
+      math = math.trimEnd();
+      if (math.endsWith(mathClose)) math = math.slice(0, -2);
+      blocks.push({ type: "math", text: math.trim() });
+      continue;
+    }
+
+    if (!trimmed || /^([-*_])(\s*\1){2,}$/.test(trimmed)) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = trimmed.match(/^(#{1,6})\s+(.*?)\s*#*$/);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: "heading", level: heading[1].length, text: heading[2] });
+      continue;
+    }
+
+    if (trimmed.startsWith("|")) {
+      flushParagraph();
+      const rows: string[][] = [];
+      for (; i < lines.length && lines[i].trim().startsWith("|"); i++) {
+        const row = lines[i].trim().replace(/^\||\|$/g, "").split("|").map(cell => cell.trim());
+        if (!row.every(cell => /^:?-{2,}:?$/.test(cell))) rows.push(row);
+      }
+      i--;
+      blocks.push({ type: "table", rows });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      flushParagraph();
+      const ordered = Boolean(item[2]);
+      const items = [item[3]];
+      while (i + 1 < lines.length) {
+        const next = lines[i + 1];
+        const nextItem = next.match(LIST_ITEM);
+        if (nextItem && Boolean(nextItem[2]) === ordered) {
+          items.push(nextItem[3]);
+        } else if (next.trim() && /^\s+/.test(next) && !nextItem) {
+          items[items.length - 1] += ` ${next.trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ type: "list", ordered, items });
+      continue;
+    }
+
+    paragraph.push(trimmed);
+  }
+  flushParagraph();
+  return blocks;
+}
+
+function normalizeLabel(text: string): string {
+  return text.replace(/[*_#:"'\s]+/g, " ").trim().toLowerCase();
+}
+
+/** Drops leading headings (or whole-bold lines) that only repeat the section name or paper title */
+function withoutPreamble(blocks: PaperBlock[], labels: string[]): PaperBlock[] {
+  const known = labels.map(normalizeLabel).filter(Boolean);
+  let start = 0;
+  while (start < blocks.length) {
+    const block = blocks[start];
+    const text = block.type === "heading"
+      ? block.text
+      : block.type === "paragraph" && /^\*\*[^*]+\*\*:?$/.test(block.text) ? block.text : null;
+    if (text === null) break;
+    const label = normalizeLabel(text);
+    if (!known.includes(label) && !label.startsWith("title ")) break;
+    start++;
+  }
+  return blocks.slice(start);
+}
+
+function parseReferences(content: string): string[] {
+  const references: string[] = [];
+  let startsNew = true;
+  for (const raw of content.replace(/\r\n?/g, "\n").split("\n")) {
+    const line = raw.trim();
+    if (!line || /^#{1,6}\s/.test(line) || /^\*\*[^*]+\*\*:?$/.test(line)) {
+      startsNew = true;
+      continue;
+    }
+    const marker = line.match(/^(?:\[\d+\]|\d+[.)]|[-*+\u2022])\s+(.*)$/);
+    if (marker || startsNew || references.length === 0) {
+      references.push(marker ? marker[1] : line);
+    } else {
+      references[references.length - 1] += ` ${line}`;
+    }
+    startsNew = false;
+  }
+  return references;
+}
+
+function successfulContent(session: VixraSession, sectionId: string): string | null {
+  const response = session.responses?.[sectionId];
+  return response?.status === "success" && response.content.trim() ? response.content : null;
+}
+
+function untitled(template: DocumentTemplate): string {
+  return `Untitled ${template.name}`;
+}
+
+function buildPaper(session: VixraSession, template: DocumentTemplate): VixraPaper {
+  const variables = session.variables ?? {};
+  const abstractContent = successfulContent(session, "abstract");
+  const abstractBlocks = abstractContent ? parseMarkdownBlocks(abstractContent) : null;
+  const title = variables.Title?.trim()
+    || abstractBlocks?.find((block): block is Extract<PaperBlock, { type: "heading" }> => (
+      block.type === "heading" && normalizeLabel(block.text) !== "abstract"
+    ))?.text.replace(/^title:\s*/i, "").trim()
+    || untitled(template);
+
+  const sections = template.sections
+    .filter(section => !UNNUMBERED_SECTIONS.has(section.id))
+    .flatMap(section => {
+      const content = successfulContent(session, section.id);
+      return content ? [{ name: section.name, blocks: withoutPreamble(parseMarkdownBlocks(content), [section.name, title]) }] : [];
+    });
+
+  const acknowledgments = successfulContent(session, "acknowledgments");
+  const citations = successfulContent(session, "citations");
+  if (!abstractBlocks && sections.length === 0 && !acknowledgments && !citations) {
+    throw new ValidationError("Nothing to export: no section of this paper has been generated yet", { sessionId: session.id });
+  }
+
+  return {
+    title,
+    authors: variables.Authors || variables.Author || variables.ResearcherName || "Anonymous Research Collective",
+    institution: variables.Institution?.trim() || null,
+    category: variables.ScienceCategory?.trim()
+      || template.variables.find(variable => variable.name === "ScienceCategory")?.defaultValue
+      || null,
+    date: (session.createdAt ?? new Date()).toLocaleDateString("en-US", {
+      month: "long", day: "numeric", year: "numeric", timeZone: "UTC",
+    }),
+    abstract: abstractBlocks ? withoutPreamble(abstractBlocks, ["Abstract", title]) : null,
+    sections,
+    acknowledgments: acknowledgments ? withoutPreamble(parseMarkdownBlocks(acknowledgments), ["Acknowledgments", "Acknowledgements"]) : null,
+    references: citations ? parseReferences(citations) : [],
+  };
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60);
+}
+
+function exportFilename(title: string, template: DocumentTemplate, extension: string): string {
+  const slug = title === untitled(template) ? "" : slugify(title);
+  return `${slug || slugify(template.name) || "document"}.${extension}`;
+}
+
+// --- LaTeX ----------------------------------------------------------------------------------
+
+function escapeLatex(text: string): string {
+  let result = "";
+  for (const char of text.normalize("NFC")) {
+    const code = char.codePointAt(0) ?? 0;
+    if (LATEX_SPECIALS[char]) {
+      result += LATEX_SPECIALS[char];
+    } else if (SYMBOLS[char]) {
+      result += `\\ensuremath{${SYMBOLS[char][0]}}`;
+    } else if (code < 0x250 || (code >= 0x2010 && code <= 0x2026)) {
+      // ASCII, Latin letters and typographic punctuation are covered by inputenc/fontenc
+      result += char;
+    } else if (code < 0xd800 || code > 0xdfff) {
+      result += code > 0xffff ? "" : "?";
+    }
+  }
+  return result;
+}
+
+function latexMath(math: string): string {
+  return Array.from(math).map(char => {
+    if (!SYMBOLS[char]) return char;
+    const command = SYMBOLS[char][0];
+    return /[a-zA-Z]$/.test(command) ? `${command} ` : command;
+  }).join("");
+}
+
+function latexCitations(text: string, referenceCount: number): string {
+  let result = "";
+  let last = 0;
+  for (const match of text.matchAll(CITATION_MARKER)) {
+    const numbers = match[1].split(",").map(value => Number(value.trim()));
+    if (!numbers.every(value => value >= 1 && value <= referenceCount)) continue;
+    result += escapeLatex(text.slice(last, match.index)) + `\\cite{${numbers.map(value => `ref${value}`).join(",")}}`;
+    last = (match.index ?? 0) + match[0].length;
+  }
+  return result + escapeLatex(text.slice(last));
+}
+
+function latexInline(text: string, referenceCount: number): string {
+  let result = "";
+  let last = 0;
+  for (const match of text.matchAll(INLINE_TOKEN)) {
+    const token = match[0];
+    result += latexCitations(text.slice(last, match.index), referenceCount);
+    last = (match.index ?? 0) + token.length;
+
+    if (token.startsWith("$$")) {
+      result += `\\[${latexMath(token.slice(2, -2))}\\]`;
+    } else if (token.startsWith("$")) {
+      result += `$${latexMath(token.slice(1, -1))}$`;
+    } else if (token.startsWith("\\(")) {
+      result += `\\(${latexMath(token.slice(2, -2))}\\)`;
+    } else if (token.startsWith("`")) {
+      result += `\\texttt{${escapeLatex(token.slice(1, -1))}}`;
+    } else if (token.startsWith("**") || token.startsWith("__")) {
+      result += `\\textbf{${latexInline(token.slice(2, -2), referenceCount)}}`;
+    } else if (token.startsWith("*")) {
+      result += `\\emph{${latexInline(token.slice(1, -1), referenceCount)}}`;
+    } else {
+      const link = token.match(/^\[([^\]]+)\]\(([^)]+)\)$/);
+      const url = (link?.[2] ?? "").replace(/[%#&\\{}]/g, char => `\\${char}`);
+      result += `\\href{${url}}{${latexInline(link?.[1] ?? "", referenceCount)}}`;
+    }
+  }
+  return result + latexCitations(text.slice(last), referenceCount);
+}
+
+function latexBlocks(blocks: PaperBlock[], referenceCount: number, inAbstract = false): string {
+  return blocks.map(block => {
+    switch (block.type) {
+      case "heading": {
+        const text = latexInline(block.text, referenceCount);
+        if (inAbstract) return `\\textbf{${text}}\\par`;
+        return block.level <= 2 ? `\\subsection*{${text}}` : `\\subsubsection*{${text}}`;
+      }
+      case "paragraph":
+        return latexInline(block.text, referenceCount);
+      case "list": {
+        const environment = block.ordered ? "enumerate" : "itemize";
+        const items = block.items.map(item => `  \\item ${latexInline(item, referenceCount)}`);
+        return [`\\begin{${environment}}`, ...items, `\\end{${environment}}`].join("\n");
+      }
+      case "table": {
+        const columns = Math.max(1, ...block.rows.map(row => row.length));
+        const width = (0.9 / columns).toFixed(2);
+        const rows = block.rows.map((row, index) => {
+          const cells = Array.from({ length: columns }, (_, column) => latexInline(row[column] ?? "", referenceCount));
+          return `${index === 0 ? cells.map(cell => `\\textbf{${cell}}`).join(" & ") : cells.join(" & ")} \\\\ \\hline`;
+        });
+        return [
+          "\\begin{center}",
+          `\\begin{tabular}{|${Array(columns).fill(`p{${width}\\linewidth}`).join("|")}|}`,
+          "\\hline",
+          ...rows,
+          "\\end{tabular}",
+          "\\end{center}",
+        ].join("\n");
+      }
+      case "code":
+        return ["\\begin{verbatim}", block.text.replace(/\\end\{verbatim\}/g, "\\end {verbatim}"), "\\end{verbatim}"].join("\n");
+      case "math":
+        return `\\[\n${latexMath(block.text)}\n\\]`;
+    }
+  }).join("\n\n");
+}
+
+function renderLatex(paper: VixraPaper): { mainTex: string; bibtex: string } {
+  const referenceCount = paper.references.length;
+  const author = paper.institution
+    ? `${escapeLatex(paper.authors)} \\\\ \\small ${escapeLatex(paper.institution)}`
+    : escapeLatex(paper.authors);
+
+  const body: string[] = [];
+  if (paper.abstract) {
+    body.push(["\\begin{abstract}", latexBlocks(paper.abstract, referenceCount, true), "\\end{abstract}"].join("\n"));
+  }
+  for (const section of paper.sections) {
+    body.push(`\\section{${section.name}}\n\n${latexBlocks(section.blocks, referenceCount)}`);
+  }
+  if (paper.acknowledgments) {
+    body.push(`\\section*{Acknowledgments}\n\n${latexBlocks(paper.acknowledgments, referenceCount)}`);
+  }
+  if (referenceCount > 0) {
+    body.push([
+      `\\begin{thebibliography}{${referenceCount}}`,
+      ...paper.references.map((reference, index) => `\\bibitem{ref${index + 1}} ${latexInline(reference, 0)}`),
+      "\\end{thebibliography}",
+    ].join("\n"));
+  }
+
+  const mainTex = [
+    `% ${paper.title.replace(/\s+/g, " ")}`,
+    "% Exported from Vixra mode. Build with `pdflatex main.tex` twice so citations resolve;",
+    "% references.bib holds the same bibliography for BibTeX users.",
+    "\\documentclass[11pt]{article}",
+    "\\usepackage[utf8]{inputenc}",
+    "\\usepackage[T1]{fontenc}",
+    "\\usepackage{lmodern}",
+    "\\usepackage{amsmath,amssymb}",
+    "\\usepackage[margin=1in]{geometry}",
+    "\\usepackage{hyperref}",
+    "",
+    `\\title{${escapeLatex(paper.title)}}`,
+    `\\author{${author}}`,
+    `\\date{${paper.category ? `${escapeLatex(paper.category)} \\\\ ` : ""}${paper.date}}`,
+    "",
+    "\\begin{document}",
+    "\\maketitle",
+    "",
+    body.join("\n\n"),
+    "",
+    "\\end{document}",
+    "",
+  ].join("\n");
+
+  const bibtex = paper.references
+    .map((reference, index) => `@misc{ref${index + 1},\n  note = {${latexInline(reference, 0)}}\n}\n`)
+    .join("\n");
+
+  return { mainTex, bibtex };
+}
+
+// --- PDF ------------------------------------------------------------------------------------
+
+function plainMath(math: string): string {
+  const commands = new Map(Object.values(SYMBOLS).map(([command, text]) => [command.replace(/^\^/, ""), text]));
+  const simplified = math
+    .replace(/\\(?:text|mathrm|mathbf|mathit|operatorname)\{([^}]*)\}/g, "$1")
+    .replace(/\\frac\{([^}]*)\}\{([^}]*)\}/g, "($1)/($2)")
+    .replace(/\\[,;:!]/g, " ");
+  return Array.from(simplified.replace(/\\([a-zA-Z]+)/g, (_command, name: string) => commands.get(`\\${name}`) ?? name))
+    .map(char => SYMBOLS[char]?.[1] ?? char)
+    .join("")
+    .replace(/[{}]/g, "");
+}
+
+function plainInline(text: string): string {
+  return text
+    .replace(INLINE_TOKEN, token => {
+      if (token.startsWith("$$")) return plainMath(token.slice(2, -2));
+      if (token.startsWith("$")) return plainMath(token.slice(1, -1));
+      if (token.startsWith("\\(")) return plainMath(token.slice(2, -2));
+      if (token.startsWith("**") || token.startsWith("__")) return plainInline(token.slice(2, -2));
+      if (token.startsWith("`") || token.startsWith("*")) return plainInline(token.slice(1, -1));
+      return token.match(/^\[([^\]]+)\]/)?.[1] ?? token;
+    })
+    .replace(/[^\x00-\x7f]/g, char => SYMBOLS[char]?.[1] ?? char);
+}
+
+function pdfBlocks(pdf: PdfDocument, blocks: PaperBlock[], base: PdfTextOptions): void {
+  const size = base.size ?? 11;
+  const left = base.leftIndent ?? 0;
+  for (const block of blocks) {
+    switch (block.type) {
+      case "heading":
+        pdf.addText(plainInline(block.text), { ...base, font: "bold", align: "left", spaceBefore: 4, spaceAfter: 2, keepWithNext: true });
+        break;
+      case "paragraph":
+        pdf.addText(plainInline(block.text), { ...base, align: "justify", spaceAfter: 6 });
+        break;
+      case "list":
+        block.items.forEach((item, index) => {
+          pdf.addText(plainInline(item), {
+            ...base,
+            align: "left",
+            leftIndent: left + 18,
+            label: block.ordered ? `${index + 1}.` : "\u2022",
+            spaceAfter: index === block.items.length - 1 ? 6 : 2,
+          });
+        });
+        break;
+      case "table":
+        block.rows.forEach((row, index) => {
+          pdf.addText(row.map(plainInline).join("  |  "), {
+            ...base,
+            font: index === 0 ? "bold" : "regular",
+            size: size - 1,
+            align: "left",
+            spaceAfter: index === block.rows.length - 1 ? 6 : 1,
+          });
+        });
+        break;
+      case "code":
+        pdf.addText(block.text, { ...base, font: "mono", size: size - 2, align: "left", preformatted: true, spaceAfter: 6 });
+        break;
+      case "math":
+        pdf.addText(plainMath(block.text), { ...base, font: "italic", align: "center", spaceAfter: 6 });
+        break;
+    }
+  }
+}
+
+function renderPdf(paper: VixraPaper, createdAt: Date): Buffer {
+  const pdf = new PdfDocument({
+    title: plainInline(paper.title),
+    author: plainInline(paper.authors),
+    subject: paper.category ?? undefined,
+    creator: "AI Model Comparison Tool - Vixra mode",
+  });
+
+  pdf.addText(plainInline(paper.title), { font: "bold", size: 17, align: "center", spaceAfter: 10 });
+  pdf.addText(plainInline(paper.authors), { size: 12, align: "center", spaceAfter: 2 });
+  if (paper.institution) {
+    pdf.addText(plainInline(paper.institution), { size: 10, align: "center", spaceAfter: 2 });
+  }
+  pdf.addText(paper.category ? `${paper.category}  \u2022  ${paper.date}` : paper.date, { font: "italic", size: 10, align: "center", spaceAfter: 18 });
+
+  if (paper.abstract) {
+    pdf.addText("Abstract", { font: "bold", size: 10, align: "center", spaceAfter: 4 });
+    pdfBlocks(pdf, paper.abstract, { size: 10, leftIndent: 36, rightIndent: 36 });
+    pdf.addSpace(10);
+  }
+  paper.sections.forEach((section, index) => {
+    pdf.addText(`${index + 1}  ${section.name}`, { font: "bold", size: 13, spaceBefore: 8, spaceAfter: 4, keepWithNext: true });
+    pdfBlocks(pdf, section.blocks, { size: 11 });
+  });
+  if (paper.acknowledgments) {
+    pdf.addText("Acknowledgments", { font: "bold", size: 13, spaceBefore: 8, spaceAfter: 4, keepWithNext: true });
+    pdfBlocks(pdf, paper.acknowledgments, { size: 11 });
+  }
+  if (paper.references.length > 0) {
+    pdf.addText("References", { font: "bold", size: 13, spaceBefore: 8, spaceAfter: 4, keepWithNext: true });
+    paper.references.forEach((reference, index) => {
+      pdf.addText(plainInline(reference), { size: 10, leftIndent: 24, label: `[${index + 1}]`, spaceAfter: 3 });
+    });
+  }
+
+  return pdf.toBuffer(createdAt);
+}
+
+export class VixraExportService {
+  render(session: VixraSession, template: DocumentTemplate, format: VixraExportFormat): VixraExportFile {
+    const paper = buildPaper(session, template);
+    if (format === "latex") {
+      const { mainTex, bibtex } = renderLatex(paper);
+      const entries = [{ name: "main.tex", content: mainTex }];
+      if (bibtex) entries.push({ name: "references.bib", content: bibtex });
+      return {
+        filename: exportFilename(paper.title, template, "tar.gz"),
+        contentType: "application/gzip",
+        body: createTarGz(entries),
+      };
+    }
+    return {
+      filename: exportFilename(paper.title, template, "pdf"),
+      contentType: "application/pdf",
+      body: renderPdf(paper, new Date()),
+    };
+  }
+}
+
+export const vixraExportService = new VixraExportService();
@@ -0,0 +1,716 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Server-side Vixra paper pipelines. Generates the sections of a `vixra_sessions` row in the
+ *          background following the section dependency DAG: every section whose dependencies are done
+ *          runs in parallel (up to the run's concurrency), and each output is saved into the session's
+ *          `responses` as soon as it finishes, so a paper completes after the browser closes. A missing
+ *          title or author is generated first from the generate-title/generate-author templates. Run state
+ *          lives on the session's `pipeline` column; clients attach to a VixraPipelineChannel for progress.
+ *          A failed section leaves the rest of the DAG running and only blocks the sections that need
+ *          it. Stopping lets sections in flight finish and be saved; resuming retries whatever is not
+ *          done, including runs orphaned by a server restart. Credits are charged per section, and a
+ *          run stops itself when the owner runs out. Ensemble sections are written by several models in
+ *          parallel; every version is saved into `alternatives`, and a judge model (or the user, through
+ *          pickAlternative) picks the winner. Only the winner is saved into `responses` and quoted by later
+ *          prompts, and any saved version can be picked again later to swap it in. regenerateSections
+ *          re-runs finished sections (optionally with everything built on them); dependents it leaves alone
+ *          are reported as stale until they are regenerated too. The session's `template` picks the
+ *          document template to run (Vixra, grant proposal, RFC, ...): its sections, prompts and variable
+ *          helpers drive the run, and a run whose only failures are optional sections still completes.
+ * SRP/DRY check: Pass - Run lifecycle and scheduling only; the DAG and templating live in
+ *                shared/document-templates.ts, model calls in the provider registry and persistence in storage.
+ */
+import type { Response } from "express";
+import { callModel, getModelById } from "../providers/index.js";
+import { getVixraPipelineConfig } from "../config.js";
+import { ValidationError, VixraPipelineStateError } from "../errors.js";
+import { getStorage } from "../storage.js";
+import { VixraPipelineChannel } from "../streaming/vixra-pipeline-channel.js";
+import { vixraSectionJudgeService } from "./vixra-section-judge.service.js";
+import { documentTemplateService } from "./document-template.service.js";
+import {
+  buildSectionVariables,
+  getDependentSections,
+  getReadySections,
+  getStaleSections,
+  getTemplateSection,
+  substituteTemplateVariables,
+  type DocumentTemplate,
+} from "../../shared/document-templates.js";
+import {
+  getVixraSectionModels,
+  type VixraPickMode,
+  type VixraPipelineCallOptions,
+  type VixraPipelineRun,
+  type VixraPipelineSectionStatus,
+  type VixraPipelineSummary,
+} from "../../shared/vixra-pipeline.js";
+import type { VixraSectionResponse, VixraSession } from "../../shared/schema.js";
+
+export interface StartVixraPipelineInput {
+  modelId: string;
+  options?: VixraPipelineCallOptions;
+  /** Most sections generated at the same time; capped by VIXRA_PIPELINE_CONCURRENCY */
+  concurrency?: number;
+  ownerId: string | null;
+  /** Sections written by several models, each capped by VIXRA_ENSEMBLE_MAX_MODELS */
+  sectionModels?: Record<string, string[]>;
+  pickMode?: VixraPickMode;
+  judgeModelId?: string;
+}
+
+export interface RegenerateVixraSectionsInput {
+  sectionIds: string[];
+  /** Also regenerate every section built on them */
+  cascade?: boolean;
+  /** Switch the run to another model for these sections */
+  modelId?: string;
+}
+
+interface ActivePipeline {
+  /** Set by stop; no new sections start once it is true */
+  stopRequested: boolean;
+  channel: VixraPipelineChannel;
+  /** Sections being generated right now */
+  running: Set<string>;
+  /** Finished sections this run generates again */
+  redo: Set<string>;
+  /** Sections whose output is saved, and the winning text later prompts quote */
+  completed: string[];
+  outputs: Record<string, string>;
+  /** Ensemble sections whose versions are saved but whose winner is still to be picked by the user */
+  awaitingPick: Set<string>;
+  /** Set while the scheduler has nothing in flight and waits for a pick (or a stop) */
+  wake: (() => void) | null;
+  done: Promise<void>;
+}
+
+interface SectionOutcome {
+  /** The section's output (the winner, for ensembles); null while an ensemble waits for a pick */
+  response: VixraSectionResponse | null;
+  /** Credits the section cost: each successful generation, plus the judge call */
+  credits: number;
+}
+
+const INSUFFICIENT_CREDITS_REASON = "Stopped: insufficient credits";
+
+function hasText(value: string | undefined | null): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/** Ensemble sections with at least one successful version but no winner saved yet */
+function awaitingPickSections(session: VixraSession): string[] {
+  return Object.entries(session.alternatives ?? {})
+    .filter(([sectionId, versions]) => (
+      session.responses?.[sectionId]?.status !== "success"
+      && Object.values(versions).some(version => version.status === "success")
+    ))
+    .map(([sectionId]) => sectionId);
+}
+
+/** Section ids of the template whose saved output is a success */
+function completedSections(session: VixraSession, template: DocumentTemplate): string[] {
+  return Object.entries(session.responses ?? {})
+    .filter(([sectionId, response]) => response?.status === "success" && Boolean(getTemplateSection(template, sectionId)))
+    .map(([sectionId]) => sectionId);
+}
+
+export class VixraPipelineService {
+  private active = new Map<string, ActivePipeline>();
+  /** Pending run-state writes per session; parallel sections and stop requests update the same column */
+  private runWrites = new Map<string, Promise<unknown>>();
+
+  async startRun(sessionId: string, input: StartVixraPipelineInput): Promise<VixraPipelineSummary> {
+    const session = await this.requireSession(sessionId);
+    if (this.active.has(sessionId) || session.pipeline?.status === "running") {
+      throw new VixraPipelineStateError("This paper already has a pipeline running", { sessionId });
+    }
+    if (!getModelById(input.modelId)) {
+      throw new ValidationError(`Unknown model: ${input.modelId}`, { modelId: input.modelId });
+    }
+    const template = documentTemplateService.get(session.template);
+    if (completedSections(session, template).length === template.sections.length) {
+      throw new ValidationError("Every section of this paper is already generated", { sessionId });
+    }
+    // Variables a helper or default can fill in are never missing
+    const missing = template.variables.find(variable => (
+      variable.required && !variable.generate && !hasText(variable.defaultValue) && !hasText(session.variables?.[variable.name])
+    ));
+    if (missing) {
+      throw new ValidationError(`${missing.label} is required for a ${template.name}`, { sessionId, variable: missing.name });
+    }
+
+    const config = getVixraPipelineConfig();
+    const sectionModels = this.validateSectionModels(template, input.sectionModels, config.maxModelsPerSection);
+    const pickMode = input.pickMode ?? "judge";
+    const judgeModelId = input.judgeModelId ?? config.judgeModelId;
+    if (sectionModels && pickMode === "judge" && !getModelById(judgeModelId)) {
+      throw new ValidationError(`Unknown judge model: ${judgeModelId}`, { judgeModelId });
+    }
+
+    const now = new Date().toISOString();
+    const storage = await getStorage();
+    await storage.setVixraPipeline(sessionId, {
+      status: "running",
+      modelId: input.modelId,
+      options: input.options ?? {},
+      ownerId: input.ownerId,
+      ...(sectionModels ? { sectionModels, pickMode, judgeModelId } : {}),
+      concurrency: Math.min(Math.max(1, input.concurrency ?? config.maxConcurrency), config.maxConcurrency),
+      creditsUsed: 0,
+      statusReason: null,
+      startedAt: now,
+      updatedAt: now,
+      completedAt: null,
+    });
+
+    this.start(sessionId);
+    return await this.getSummary(sessionId) as VixraPipelineSummary;
+  }
+
+  async stopRun(sessionId: string): Promise<VixraPipelineSummary> {
+    const run = await this.requireRun(sessionId);
+    if (run.status !== "running") {
+      throw new VixraPipelineStateError(`Cannot stop a ${run.status} pipeline`, { sessionId, status: run.status });
+    }
+    const active = this.active.get(sessionId);
+    if (active) {
+      active.stopRequested = true;
+    }
+    await this.updateRun(sessionId, { status: "stopped", statusReason: "Stopped by the owner" });
+    active?.wake?.();
+    return await this.getSummary(sessionId) as VixraPipelineSummary;
+  }
+
+  /** Stopped and failed pipelines, and "running" ones nobody is executing (the server restarted), retry every unfinished section */
+  async resumeRun(sessionId: string): Promise<VixraPipelineSummary> {
+    const run = await this.requireRun(sessionId);
+    const orphaned = run.status === "running" && !this.active.has(sessionId);
+    if (run.status !== "stopped" && run.status !== "failed" && !orphaned) {
+      throw new VixraPipelineStateError(`Cannot resume a ${run.status} pipeline`, { sessionId, status: run.status });
+    }
+    await this.updateRun(sessionId, { status: "running", statusReason: null, completedAt: null });
+    this.start(sessionId);
+    return await this.getSummary(sessionId) as VixraPipelineSummary;
+  }
+
+  /**
+   * Generates finished (or failed) sections again on a pipeline that is not running. With `cascade`,
+   * every section built on them is regenerated after them; otherwise those dependents turn stale.
+   */
+  async regenerateSections(sessionId: string, input: RegenerateVixraSectionsInput): Promise<VixraPipelineSummary> {
+    const session = await this.requireSession(sessionId);
+    const run = await this.requireRun(sessionId);
+    if (run.status === "running") {
+      throw new VixraPipelineStateError("Wait for the running pipeline to finish before regenerating sections", { sessionId });
+    }
+    const template = documentTemplateService.get(session.template);
+    const unknown = input.sectionIds.find(sectionId => !getTemplateSection(template, sectionId));
+    if (unknown) {
+      throw new ValidationError(`Unknown ${template.name} section: ${unknown}`, { sectionId: unknown });
+    }
+    if (input.modelId && !getModelById(input.modelId)) {
+      throw new ValidationError(`Unknown model: ${input.modelId}`, { modelId: input.modelId });
+    }
+
+    const redo = new Set(input.sectionIds);
+    if (input.cascade) {
+      for (const sectionId of input.sectionIds) {
+        getDependentSections(template, sectionId).forEach(dependent => redo.add(dependent));
+      }
+    }
+    await this.updateRun(sessionId, {
+      status: "running",
+      statusReason: null,
+      completedAt: null,
+      ...(input.modelId ? { modelId: input.modelId } : {}),
+    });
+    this.start(sessionId, [...redo]);
+    return await this.getSummary(sessionId) as VixraPipelineSummary;
+  }
+
+  /**
+   * Makes one model's saved version of a section its output. Picking an ensemble section that waits for
+   * its winner lets the running pipeline go on with its dependents; picking a finished section swaps it.
+   */
+  async pickAlternative(sessionId: string, sectionId: string, modelId: string): Promise<VixraSectionResponse> {
+    const session = await this.requireSession(sessionId);
+    const version = session.alternatives?.[sectionId]?.[modelId];
+    if (version?.status !== "success") {
+      throw new ValidationError(`No successful version of ${sectionId} by ${modelId} to pick`, { sessionId, sectionId, modelId });
+    }
+    const active = this.active.get(sessionId);
+    if (active?.running.has(sectionId)) {
+      throw new VixraPipelineStateError(`The ${sectionId} section is still generating`, { sessionId, sectionId });
+    }
+
+    // Picked now, so sections written from the previous winner show as stale
+    const response: VixraSectionResponse = { ...version, pickedBy: "user", completedAt: new Date().toISOString() };
+    const storage = await getStorage();
+    await storage.setVixraSectionResponse(sessionId, sectionId, response);
+    if (active) {
+      active.outputs[sectionId] = response.content;
+      if (active.awaitingPick.delete(sectionId)) {
+        active.completed.push(sectionId);
+      }
+      active.channel.broadcast("section.complete", { sectionId, response });
+      active.wake?.();
+    }
+    return response;
+  }
+
+  /** Resolves once the pipeline's sections have drained (immediately if none is active) */
+  async whenIdle(sessionId: string): Promise<void> {
+    await this.active.get(sessionId)?.done;
+  }
+
+  async getSummary(sessionId: string): Promise<VixraPipelineSummary | undefined> {
+    const storage = await getStorage();
+    const session = await storage.getVixraSession(sessionId);
+    if (!session?.pipeline) return undefined;
+    const active = this.active.get(sessionId);
+    const template = documentTemplateService.get(session.template);
+    const completed = completedSections(session, template);
+    const awaitingPick = awaitingPickSections(session);
+    const stale = getStaleSections(template, session.responses ?? {});
+    // While a run regenerates sections, their previous output no longer counts as done
+    const isDone = (sectionId: string) => (
+      active?.redo.has(sectionId) ? active.completed.includes(sectionId) : completed.includes(sectionId)
+    );
+    const sections = Object.fromEntries(template.sections.map(section => {
+      let status: VixraPipelineSectionStatus;
+      if (active?.running.has(section.id)) status = "running";
+      else if (active?.awaitingPick.has(section.id)) status = "awaiting-pick";
+      else if (!isDone(section.id) && completed.includes(section.id)) status = section.dependencies.every(isDone) ? "pending" : "locked";
+      else if (stale.includes(section.id)) status = "stale";
+      else if (completed.includes(section.id)) status = "completed";
+      else if (awaitingPick.includes(section.id)) status = "awaiting-pick";
+      else if (session.responses?.[section.id]?.status === "error") status = "failed";
+      else status = section.dependencies.every(isDone) ? "pending" : "locked";
+      return [section.id, status];
+    }));
+
+    return {
+      ...session.pipeline,
+      sessionId,
+      sections,
+      completedSections: completed.length,
+      totalSections: template.sections.length,
+      live: Boolean(active),
+    };
+  }
+
+  /**
+   * Streams the pipeline's events to `res`: a `pipeline.snapshot` first, then section events until the
+   * run ends. A pipeline that is not executing gets the snapshot and an immediate `pipeline.end`.
+   */
+  async attach(sessionId: string, res: Response): Promise<void> {
+    const snapshot = await this.getSummary(sessionId);
+    if (!snapshot) {
+      throw new ValidationError(`Vixra session ${sessionId} has no server-side pipeline`, { sessionId });
+    }
+    const active = this.active.get(sessionId);
+    if (active) {
+      active.channel.attach(res, { pipeline: snapshot });
+      return;
+    }
+    const channel = new VixraPipelineChannel(sessionId);
+    channel.attach(res, { pipeline: snapshot });
+    channel.end({ pipeline: snapshot });
+  }
+
+  private async requireSession(sessionId: string): Promise<VixraSession> {
+    const storage = await getStorage();
+    const session = await storage.getVixraSession(sessionId);
+    if (!session) {
+      throw new ValidationError(`Vixra session not found: ${sessionId}`, { sessionId });
+    }
+    return session;
+  }
+
+  /** Known models per section of the template, de-duplicated; undefined when no section has an ensemble */
+  private validateSectionModels(
+    template: DocumentTemplate,
+    sectionModels: Record<string, string[]> | undefined,
+    maxModels: number,
+  ): VixraPipelineRun["sectionModels"] {
+    const result: Record<string, string[]> = {};
+    for (const [sectionId, modelIds] of Object.entries(sectionModels ?? {})) {
+      const section = getTemplateSection(template, sectionId);
+      if (!section) {
+        throw new ValidationError(`Unknown ${template.name} section: ${sectionId}`, { sectionId });
+      }
+      const unique = Array.from(new Set(modelIds));
+      if (unique.length > maxModels) {
+        throw new ValidationError(`At most ${maxModels} models can write one section`, { sectionId, maxModels });
+      }
+      const unknown = unique.find(modelId => !getModelById(modelId));
+      if (unknown) {
+        throw new ValidationError(`Unknown model: ${unknown}`, { modelId: unknown });
+      }
+      if (unique.length > 0) {
+        result[section.id] = unique;
+      }
+    }
+    return Object.keys(result).length > 0 ? result : undefined;
+  }
+
+  private async requireRun(sessionId: string): Promise<VixraPipelineRun> {
+    const session = await this.requireSession(sessionId);
+    if (!session.pipeline) {
+      throw new VixraPipelineStateError("This paper has no server-side pipeline", { sessionId });
+    }
+    return session.pipeline;
+  }
+
+  /** Merges into the stored run state one write at a time, so a finishing section never overwrites a newer status */
+  private updateRun(sessionId: string, patch: Partial<VixraPipelineRun>): Promise<VixraPipelineRun> {
+    const previous = this.runWrites.get(sessionId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(async () => {
+      const storage = await getStorage();
+      const current = await this.requireRun(sessionId);
+      const merged: VixraPipelineRun = { ...current, ...patch, updatedAt: new Date().toISOString() };
+      await storage.setVixraPipeline(sessionId, merged);
+      return merged;
+    });
+    this.runWrites.set(sessionId, next);
+    void next.catch(() => undefined).finally(() => {
+      if (this.runWrites.get(sessionId) === next) this.runWrites.delete(sessionId);
+    });
+    return next;
+  }
+
+  private start(sessionId: string, redo: string[] = []): void {
+    const existing = this.active.get(sessionId);
+    if (existing) {
+      // Resumed while the previous run is still finishing its in-flight sections
+      if (existing.stopRequested) {
+        void existing.done.then(() => this.start(sessionId, redo));
+      }
+      return;
+    }
+    const state: ActivePipeline = {
+      stopRequested: false,
+      channel: new VixraPipelineChannel(sessionId),
+      running: new Set(),
+      redo: new Set(redo),
+      completed: [],
+      outputs: {},
+      awaitingPick: new Set(),
+      wake: null,
+      done: Promise.resolve(),
+    };
+    state.done = this.execute(sessionId, state)
+      .catch(async (error) => {
+        console.error(`[vixra-pipeline] Pipeline for session ${sessionId} failed:`, error);
+        await this.updateRun(sessionId, {
+          status: "failed",
+          statusReason: error instanceof Error ? error.message : String(error),
+          completedAt: new Date().toISOString(),
+        }).catch(() => undefined);
+      })
+      .finally(async () => {
+        this.active.delete(sessionId);
+        const summary = await this.getSummary(sessionId).catch(() => undefined);
+        state.channel.end({ pipeline: summary ?? null });
+      });
+    this.active.set(sessionId, state);
+  }
+
+  private async execute(sessionId: string, state: ActivePipeline): Promise<void> {
+    const storage = await getStorage();
+    const session = await this.requireSession(sessionId);
+    const run = session.pipeline;
+    if (!run || run.status !== "running") return;
+
+    // Read fresh for every run so template edits apply without a restart
+    const template = documentTemplateService.get(session.template);
+    const variables = await this.prepareVariables(session, run, template);
+    const creditsPerSection = getVixraPipelineConfig().creditsPerSection;
+    state.completed.push(...completedSections(session, template).filter(sectionId => !state.redo.has(sectionId)));
+    for (const sectionId of state.completed) {
+      state.outputs[sectionId] = session.responses[sectionId].content;
+    }
+    // Versions saved before a stop or restart keep waiting for their pick instead of being generated again
+    for (const sectionId of awaitingPickSections(session)) {
+      if (!state.redo.has(sectionId)) state.awaitingPick.add(sectionId);
+    }
+    const failed: string[] = [];
+    let creditsUsed = run.creditsUsed;
+    let outOfCredits = false;
+
+    const generate = async (sectionId: string) => {
+      const cost = creditsPerSection * getVixraSectionModels(run, sectionId).length;
+      if (run.ownerId && cost > 0 && (await storage.getUserCredits(run.ownerId)) < cost) {
+        outOfCredits = true;
+        return;
+      }
+      const outcome = await this.generateSection(sessionId, sectionId, run, template, variables, state);
+      if (run.ownerId && outcome.credits > 0) {
+        await storage.deductCredits(run.ownerId, outcome.credits);
+        creditsUsed += outcome.credits;
+        await this.updateRun(sessionId, { creditsUsed });
+      }
+      if (!outcome.response) {
+        state.awaitingPick.add(sectionId);
+      } else if (outcome.response.status !== "success") {
+        failed.push(sectionId);
+      } else {
+        state.outputs[sectionId] = outcome.response.content;
+        state.completed.push(sectionId);
+      }
+    };
+
+    // Launch every ready section up to the concurrency limit; each one that settles (or is picked) schedules the next wave
+    await new Promise<void>((resolve, reject) => {
+      const schedule = () => {
+        state.wake = null;
+        if (!state.stopRequested && !outOfCredits) {
+          const ready = getReadySections(template, state.completed, [...state.running, ...failed, ...state.awaitingPick]);
+          for (const sectionId of ready) {
+            if (state.running.size >= run.concurrency) break;
+            state.running.add(sectionId);
+            generate(sectionId)
+              .then(() => {
+                state.running.delete(sectionId);
+                schedule();
+              })
+              .catch(reject);
+          }
+        }
+        if (state.running.size > 0) return;
+        // Nothing in flight: a pending pick may still unlock more sections, so wait for it unless the run is over
+        if (state.awaitingPick.size > 0 && !state.stopRequested && !outOfCredits) {
+          state.wake = schedule;
+          return;
+        }
+        resolve();
+      };
+      schedule();
+    });
+
+    // stop already persisted its own status
+    if (state.stopRequested) return;
+    if (outOfCredits) {
+      await this.updateRun(sessionId, { status: "stopped", statusReason: INSUFFICIENT_CREDITS_REASON });
+      return;
+    }
+    // Optional sections may fail (or be blocked by a failure) without failing the document
+    const requiredMissing = template.sections.some(section => section.required && !state.completed.includes(section.id));
+    if (failed.length > 0 && requiredMissing) {
+      await this.updateRun(sessionId, {
+        status: "failed",
+        statusReason: `Sections failed: ${failed.join(", ")}`,
+        completedAt: new Date().toISOString(),
+      });
+      return;
+    }
+    await this.updateRun(sessionId, {
+      status: "completed",
+      statusReason: failed.length > 0 ? `Optional sections failed: ${failed.join(", ")}` : null,
+      completedAt: new Date().toISOString(),
+    });
+  }
+
+  /** Generates one section (every model of an ensemble) and saves it, or its error, into the session */
+  private async generateSection(
+    sessionId: string,
+    sectionId: string,
+    run: VixraPipelineRun,
+    template: DocumentTemplate,
+    variables: Record<string, string>,
+    state: ActivePipeline,
+  ): Promise<SectionOutcome> {
+    const sectionPrompt = template.prompts[sectionId];
+    const prompt = sectionPrompt !== undefined
+      ? substituteTemplateVariables(sectionPrompt, buildSectionVariables(template, sectionId, variables, state.outputs))
+      : null;
+    const modelIds = getVixraSectionModels(run, sectionId);
+    if (modelIds.length > 1) {
+      return this.generateEnsemble(sessionId, sectionId, modelIds, run, template, prompt, state.channel);
+    }
+
+    const storage = await getStorage();
+    const modelName = getModelById(run.modelId)?.name ?? run.modelId;
+    state.channel.broadcast("section.start", { sectionId, modelId: run.modelId });
+    await storage.setVixraSectionResponse(sessionId, sectionId, {
+      content: "",
+      status: "loading",
+      responseTime: 0,
+      modelName,
+      modelId: run.modelId,
+    });
+
+    const response = await this.callSectionModel(sectionId, prompt, run.modelId, run.options);
+    await storage.setVixraSectionResponse(sessionId, sectionId, response);
+    if (response.status === "success") {
+      state.channel.broadcast("section.complete", { sectionId, response });
+    } else {
+      state.channel.broadcast("section.error", { sectionId, error: response.error });
+    }
+    return { response, credits: response.status === "success" ? getVixraPipelineConfig().creditsPerSection : 0 };
+  }
+
+  /**
+   * Every model writes the section in parallel and each version is saved into `alternatives`. A lone
+   * success wins outright; otherwise the judge picks in judge mode, and in manual mode (or when the judge
+   * fails or cannot be paid for) the section waits for the user's pick.
+   */
+  private async generateEnsemble(
+    sessionId: string,
+    sectionId: string,
+    modelIds: string[],
+    run: VixraPipelineRun,
+    template: DocumentTemplate,
+    prompt: string | null,
+    channel: VixraPipelineChannel,
+  ): Promise<SectionOutcome> {
+    const storage = await getStorage();
+    const config = getVixraPipelineConfig();
+    channel.broadcast("section.start", { sectionId, modelIds });
+
+    const versions = await Promise.all(modelIds.map(async (modelId) => {
+      await storage.setVixraSectionAlternative(sessionId, sectionId, modelId, {
+        content: "",
+        status: "loading",
+        responseTime: 0,
+        modelName: getModelById(modelId)?.name ?? modelId,
+        modelId,
+      });
+      const response = await this.callSectionModel(sectionId, prompt, modelId, run.options);
+      await storage.setVixraSectionAlternative(sessionId, sectionId, modelId, response);
+      channel.broadcast("section.alternative", { sectionId, modelId, response });
+      return { modelId, response };
+    }));
+
+    const successes = versions.filter(version => version.response.status === "success");
+    let credits = successes.length * config.creditsPerSection;
+    if (successes.length === 0) {
+      const response: VixraSectionResponse = {
+        content: "",
+        status: "error",
+        responseTime: Math.max(...versions.map(version => version.response.responseTime)),
+        modelName: versions.map(version => version.response.modelName).join(", "),
+        error: `Every model failed: ${versions.map(version => `${version.response.modelName}: ${version.response.error}`).join("; ")}`,
+      };
+      await storage.setVixraSectionResponse(sessionId, sectionId, response);
+      channel.broadcast("section.error", { sectionId, error: response.error });
+      return { response, credits };
+    }
+
+    let winner: VixraSectionResponse | null = null;
+    if (successes.length === 1) {
+      winner = { ...successes[0].response, pickedBy: "only-success" };
+    } else if ((run.pickMode ?? "judge") === "judge") {
+      const affordable = !run.ownerId || config.judgeCredits === 0
+        || (await storage.getUserCredits(run.ownerId)) >= credits + config.judgeCredits;
+      if (affordable) {
+        try {
+          const verdict = await vixraSectionJudgeService.pickWinner(
+            template.kind,
+            getTemplateSection(template, sectionId)?.name ?? sectionId,
+            prompt ?? "",
+            successes.map(version => ({ modelId: version.modelId, content: version.response.content })),
+            run.judgeModelId ?? config.judgeModelId,
+          );
+          const picked = successes.find(version => version.modelId === verdict.modelId) ?? successes[0];
+          winner = { ...picked.response, pickedBy: "judge", pickRationale: verdict.rationale };
+          credits += config.judgeCredits;
+        } catch (error) {
+          console.warn(`[vixra-pipeline] Judge could not pick ${sectionId} for session ${sessionId}; leaving it to the user:`, error);
+        }
+      }
+    }
+
+    if (!winner) {
+      channel.broadcast("section.awaiting-pick", { sectionId, modelIds: successes.map(version => version.modelId) });
+      return { response: null, credits };
+    }
+    await storage.setVixraSectionResponse(sessionId, sectionId, winner);
+    channel.broadcast("section.complete", { sectionId, response: winner });
+    return { response: winner, credits };
+  }
+
+  /** One model's version of a section; failures come back as an error response rather than a throw */
+  private async callSectionModel(
+    sectionId: string,
+    prompt: string | null,
+    modelId: string,
+    options: VixraPipelineCallOptions,
+  ): Promise<VixraSectionResponse> {
+    const startedAt = Date.now();
+    try {
+      if (prompt === null) {
+        throw new Error(`The document template has no prompt for section "${sectionId}"`);
+      }
+      const result = await callModel(prompt, modelId, options);
+      return {
+        content: result.content,
+        reasoning: result.reasoning,
+        status: "success",
+        responseTime: Math.round(result.responseTime),
+        tokenUsage: result.tokenUsage,
+        cost: result.cost,
+        modelName: result.modelConfig.name,
+        modelId: result.modelConfig.id,
+        completedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      return {
+        content: "",
+        status: "error",
+        responseTime: Date.now() - startedAt,
+        modelName: getModelById(modelId)?.name ?? modelId,
+        modelId,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * The document's variables with blanks filled in, in the order the template declares them: a helper
+   * prompt run by the run's model writes the value first, and its default (which may quote variables
+   * filled in above it) applies when there is no helper or it fails. Saved back so the page can show them.
+   */
+  private async prepareVariables(
+    session: VixraSession,
+    run: VixraPipelineRun,
+    template: DocumentTemplate,
+  ): Promise<Record<string, string>> {
+    const variables: Record<string, string> = { ...(session.variables ?? {}) };
+
+    const generateVariable = async (helperId: string): Promise<string> => {
+      const prompt = template.prompts[helperId];
+      if (prompt === undefined) return "";
+      try {
+        const result = await callModel(substituteTemplateVariables(prompt, variables), run.modelId, run.options);
+        return result.content.trim();
+      } catch (error) {
+        console.warn(`[vixra-pipeline] Could not generate ${helperId}:`, error);
+        return "";
+      }
+    };
+
+    // Declared variables still blank substitute into defaults as empty text rather than staying {Name}
+    const blanks = Object.fromEntries(template.variables.map(variable => [variable.name, ""]));
+    for (const variable of template.variables) {
+      if (hasText(variables[variable.name])) continue;
+      if (variable.generate) {
+        const generated = await generateVariable(variable.generate);
+        if (hasText(generated)) {
+          variables[variable.name] = generated;
+          continue;
+        }
+      }
+      const fallback = variable.defaultValue !== undefined ? substituteTemplateVariables(variable.defaultValue, { ...blanks, ...variables }) : "";
+      if (hasText(fallback)) variables[variable.name] = fallback;
+    }
+
+    const storage = await getStorage();
+    await storage.updateVixraSession(session.id, { variables });
+    return variables;
+  }
+}
+
+export const vixraPipelineService = new VixraPipelineService();
@@ -0,0 +1,91 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Picks the winning version of a Vixra ensemble section. Sends the section's prompt and every
+ *          model's version to a judge model under neutral labels (Version A, B, ...), so model names cannot
+ *          bias the pick, and validates the JSON verdict naming the winner and why. The judge edits whatever
+ *          kind of document the session's template declares (a satirical paper, a grant proposal, ...).
+ * SRP/DRY check: Pass - Judging only; the pipeline decides when to judge and saves the winner. Mirrors the
+ *                label/verdict handling of judge.service.ts, which scores whole comparisons instead.
+ */
+import { z } from "zod";
+import { callModelWithMessages } from "../providers/index.js";
+import type { ModelMessage } from "../providers/base.js";
+import { JudgeError } from "../errors.js";
+
+export interface VixraSectionCandidate {
+  modelId: string;
+  content: string;
+}
+
+export interface VixraSectionVerdict {
+  modelId: string;
+  rationale: string;
+}
+
+const sectionVerdictSchema = z.object({
+  winner: z.string(),
+  rationale: z.string(),
+});
+
+export class VixraSectionJudgeService {
+  async pickWinner(
+    documentKind: string,
+    sectionName: string,
+    prompt: string,
+    candidates: VixraSectionCandidate[],
+    judgeModelId: string,
+  ): Promise<VixraSectionVerdict> {
+    const labelled = candidates.map((candidate, index) => ({ ...candidate, label: String.fromCharCode(65 + index) }));
+    const result = await callModelWithMessages(this.buildMessages(documentKind, sectionName, prompt, labelled), judgeModelId, { temperature: 0 });
+    const verdict = this.parseVerdict(result.content, judgeModelId);
+
+    const label = verdict.winner.trim().replace(/^version\s+/i, "").toUpperCase();
+    const winner = labelled.find(candidate => candidate.label === label);
+    if (!winner) {
+      throw new JudgeError(`Judge picked an unknown version: ${verdict.winner}`, { judgeModelId });
+    }
+    return { modelId: winner.modelId, rationale: verdict.rationale.trim() };
+  }
+
+  private buildMessages(documentKind: string, sectionName: string, prompt: string, candidates: Array<VixraSectionCandidate & { label: string }>): ModelMessage[] {
+    const system = [
+      `You are the editor of a ${documentKind} choosing the best version of its ${sectionName} section.`,
+      `Prefer the version that follows the section prompt most faithfully, reads most like a well-made ${documentKind},`,
+      "and fits the rest of the document. Do not favour a version for its length or position.",
+      "",
+      "Reply with JSON only, no prose or code fences, in exactly this shape:",
+      '{"winner":"A","rationale":"<1-3 sentences>"}',
+    ].join("\n");
+
+    const versions = candidates
+      .map(candidate => `### Version ${candidate.label}\n${candidate.content}`)
+      .join("\n\n");
+
+    return [
+      { role: "system", content: system },
+      { role: "user", content: `## Section prompt\n${prompt}\n\n## Versions\n${versions}` },
+    ];
+  }
+
+  private parseVerdict(content: string, judgeModelId: string): z.infer<typeof sectionVerdictSchema> {
+    const start = content.indexOf("{");
+    const end = content.lastIndexOf("}");
+    if (start === -1 || end <= start) {
+      throw new JudgeError("Judge model did not return JSON", { judgeModelId });
+    }
+    let raw: unknown;
+    try {
+      raw = JSON.parse(content.slice(start, end + 1));
+    } catch {
+      throw new JudgeError("Judge model returned malformed JSON", { judgeModelId });
+    }
+    const parsed = sectionVerdictSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new JudgeError("Judge verdict did not match the expected shape", { judgeModelId });
+    }
+    return parsed.data;
+  }
+}
+
+export const vixraSectionJudgeService = new VixraSectionJudgeService();
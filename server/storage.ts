@@ -4,9 +4,11 @@
  * Author: gpt-5-codex
  * Date: 2025-10-20 18:46 UTC
  * PURPOSE: Maintain a unified storage abstraction for database and in-memory persistence,
- *          ensuring debate sessions, comparisons, prompts, and auth flows share
+ *          ensuring debate sessions, debate topics, comparisons, prompts, and auth flows share
  *          consistent CRUD operations while surfacing fallbacks when PostgreSQL
- *          is unavailable.
+ *          is unavailable. A debate session can be created pre-filled with the turns and response
+ *          chains of the session it was forked from. Vixra section outputs and ensemble versions are
+ *          merged one section (and model) at a time so parallel writers never overwrite each other.
  * SRP/DRY check: Pass - Module centralizes persistence logic, delegating higher-level
  *                orchestration to callers without duplicating query implementations.
  *
@@ -25,12 +27,20 @@
  * and availability.
  */
 
-import { type Comparison, type InsertComparison, type VixraSession, type InsertVixraSession, type PromptAuditRecord, type InsertPromptAudit, type User, type InsertUser, type UpsertUser, type StripeInfo, type CreditReservation, type InsertCreditReservation, type LuigiRun, type InsertLuigiRun, type LuigiMessage, type InsertLuigiMessage, type LuigiArtifact, type InsertLuigiArtifact, type ArcRun, type InsertArcRun, type ArcMessage, type InsertArcMessage, type ArcArtifact, type InsertArcArtifact, type DebateSession, type InsertDebateSession, comparisons, vixraSessions, promptAudits, users, creditReservations, luigiRuns, luigiMessages, luigiArtifacts, arcRuns, arcMessages, arcArtifacts, debateSessions } from "@shared/schema";
+import { type Comparison, type InsertComparison, type ComparisonJudgement, type InsertComparisonJudgement, type ModelMatchup, type InsertModelMatchup, type ResponseGradeRecord, type InsertResponseGrade, type BatchRun, type InsertBatchRun, type BatchRunItem, type InsertBatchRunItem, type VixraSession, type InsertVixraSession, type VixraSectionResponse, type PromptAuditRecord, type InsertPromptAudit, type User, type InsertUser, type UpsertUser, type StripeInfo, type CreditReservation, type InsertCreditReservation, type LuigiRun, type InsertLuigiRun, type LuigiMessage, type InsertLuigiMessage, type LuigiArtifact, type InsertLuigiArtifact, type ArcRun, type InsertArcRun, type ArcMessage, type InsertArcMessage, type ArcArtifact, type InsertArcArtifact, type DebateSession, type InsertDebateSession, type DebateTopicRecord, type InsertDebateTopic, comparisons, vixraSessions, promptAudits, users, creditReservations, luigiRuns, luigiMessages, luigiArtifacts, arcRuns, arcMessages, arcArtifacts, debateSessions, debateTopics, comparisonJudgements, modelMatchups, responseGrades, batchRuns, batchRunItems } from "@shared/schema";
 import type { LuigiRunStatus, LuigiStageId } from "@shared/luigi-types";
 import type { ArcRunStatus, ArcStageId, ArcMessageRole } from "@shared/arc-types";
+import type { MatchupSource } from "@shared/leaderboard-types";
+import type { BatchItemStatus, BatchRunStatus } from "@shared/batch-types";
+import type { DebateVerdict } from "@shared/debate-verdict-types";
+import type { DebateTurnFactCheck } from "@shared/debate-fact-check-types";
+import type { DebateAutoRun } from "@shared/debate-run-types";
+import type { DebateTopicDifficulty } from "@shared/debate-topic-types";
+import type { VixraPipelineRun } from "@shared/vixra-pipeline";
+import { resolveDebateParticipants, resolveParticipantResponseIds } from "@shared/debate-participants";
 import { randomUUID, createHash } from "crypto";
 import { db, ensureTablesExist } from "./db";
-import { eq, desc, sql } from "drizzle-orm";
+import { and, asc, eq, desc, inArray, isNull, sql } from "drizzle-orm";
 
 /**
  * Hash device ID for privacy - ensures no PII is stored in database
@@ -52,6 +62,41 @@ function hashStripeId(stripeId: string): string {
     .digest('hex');
 }
 
+/**
+ * Appends a turn's response id to its seat's chain and, for the first two seats, to the legacy
+ * model1/model2 arrays. Seats are matched by participantId, falling back to the model id.
+ */
+function appendDebateResponseId(session: DebateSession, participantId: string | undefined, modelId: string, responseId: string) {
+  const participants = resolveDebateParticipants(session);
+  const seatIndex = Math.max(0, participantId
+    ? participants.findIndex(participant => participant.id === participantId)
+    : participants.findIndex(participant => participant.modelId === modelId));
+  const seat = participants[seatIndex];
+  const chains = resolveParticipantResponseIds(session);
+  // Human turns have no provider response to chain from
+  const appended = responseId ? [responseId] : [];
+
+  return {
+    participantId: seat.id,
+    participantResponseIds: { ...chains, [seat.id]: [...(chains[seat.id] ?? []), ...appended] },
+    model1ResponseIds: seatIndex === 0
+      ? [...(session.model1ResponseIds as string[]), ...appended]
+      : (session.model1ResponseIds as string[]),
+    model2ResponseIds: seatIndex === 1
+      ? [...(session.model2ResponseIds as string[]), ...appended]
+      : (session.model2ResponseIds as string[]),
+  };
+}
+
+/** turnHistory with `factCheck` set on the given turn's record, or null when no record has that turn */
+function withTurnFactCheck(session: DebateSession, turn: number, factCheck: DebateTurnFactCheck): unknown[] | null {
+  const turnHistory = Array.isArray(session.turnHistory) ? session.turnHistory as any[] : [];
+  if (!turnHistory.some(entry => entry?.turn === turn)) {
+    return null;
+  }
+  return turnHistory.map(entry => entry?.turn === turn ? { ...entry, factCheck } : entry);
+}
+
 type LuigiStagesPayload = Record<string, unknown>;
 
 export interface LuigiRunUpdate {
@@ -84,16 +129,84 @@ export interface ArcRunUpdate {
   updatedAt?: Date | null;
 }
 
+export interface ModelMatchupKey {
+  source: MatchupSource;
+  referenceId: string;
+  voterId?: string | null;
+}
+
+export interface ModelMatchupFilter {
+  category?: string;
+  sources?: MatchupSource[];
+}
+
+export interface ResponseGradeFilter {
+  category?: string;
+}
+
+export interface BatchRunUpdate {
+  status?: BatchRunStatus;
+  statusReason?: string | null;
+  creditsUsed?: number;
+  completedAt?: Date | null;
+}
+
+export interface DebateTopicUpdate {
+  title?: string;
+  proposition?: string;
+  tags?: string[];
+  difficulty?: DebateTopicDifficulty;
+}
+
+export interface BatchRunItemUpdate {
+  status?: BatchItemStatus;
+  content?: string | null;
+  reasoning?: string | null;
+  responseTimeMs?: number | null;
+  tokenUsage?: BatchRunItem['tokenUsage'];
+  cost?: BatchRunItem['cost'];
+  error?: string | null;
+  completedAt?: Date | null;
+}
+
 export interface IStorage {
   createComparison(comparison: InsertComparison): Promise<Comparison>;
   getComparison(id: string): Promise<Comparison | undefined>;
   getComparisons(): Promise<Comparison[]>;
+
+  // LLM judge verdicts for comparisons (newest first)
+  createComparisonJudgement(judgement: InsertComparisonJudgement): Promise<ComparisonJudgement>;
+  getComparisonJudgements(comparisonId: string): Promise<ComparisonJudgement[]>;
+
+  // Leaderboard matchups; `replace` drops earlier rows for the same source/reference/voter first
+  recordModelMatchups(matchups: InsertModelMatchup[], replace?: ModelMatchupKey): Promise<ModelMatchup[]>;
+  getModelMatchups(filter?: ModelMatchupFilter): Promise<ModelMatchup[]>;
+
+  // Reference-answer grades; replacing drops the comparison's earlier grades first
+  replaceResponseGrades(comparisonId: string, grades: InsertResponseGrade[]): Promise<ResponseGradeRecord[]>;
+  getResponseGrades(comparisonId: string): Promise<ResponseGradeRecord[]>;
+  listResponseGrades(filter?: ResponseGradeFilter): Promise<ResponseGradeRecord[]>;
+
+  // Batch evaluation runs; the run and all of its (prompt, model) items are created together
+  createBatchRun(run: InsertBatchRun, items: Omit<InsertBatchRunItem, 'runId'>[]): Promise<BatchRun>;
+  updateBatchRun(id: string, update: BatchRunUpdate): Promise<BatchRun | undefined>;
+  getBatchRun(id: string): Promise<BatchRun | undefined>;
+  listBatchRuns(limit?: number): Promise<BatchRun[]>;
+  // Ordered by prompt index, then model id
+  getBatchRunItems(runId: string): Promise<BatchRunItem[]>;
+  updateBatchRunItem(id: string, update: BatchRunItemUpdate): Promise<BatchRunItem | undefined>;
   
   // Vixra session persistence
   createVixraSession(session: InsertVixraSession): Promise<VixraSession>;
   updateVixraSession(id: string, session: Partial<InsertVixraSession>): Promise<VixraSession | undefined>;
   getVixraSession(id: string): Promise<VixraSession | undefined>;
   getVixraSessions(): Promise<VixraSession[]>;
+  /** Replaces the session's server-side pipeline state */
+  setVixraPipeline(id: string, pipeline: VixraPipelineRun): Promise<VixraSession | undefined>;
+  /** Stores one section's output without touching the others, so parallel sections never overwrite each other */
+  setVixraSectionResponse(id: string, sectionId: string, response: VixraSectionResponse): Promise<VixraSession | undefined>;
+  /** Stores one model's version of an ensemble section; versions from parallel models never overwrite each other */
+  setVixraSectionAlternative(id: string, sectionId: string, modelId: string, response: VixraSectionResponse): Promise<VixraSession | undefined>;
   
   // Prompt audit trail
   createPromptAudit(audit: InsertPromptAudit): Promise<PromptAuditRecord>;
@@ -120,7 +233,7 @@ export interface IStorage {
   saveArcArtifact(artifact: InsertArcArtifact): Promise<ArcArtifact>;
   getArcArtifacts(runId: string): Promise<ArcArtifact[]>;
 
-  // Debate session operations
+  // Debate session operations; a fork passes the turns, response chains and cost it copied from its parent
   createDebateSession(session: InsertDebateSession): Promise<DebateSession>;
   updateDebateSession(id: string, turnData: {
     turn: number;
@@ -134,9 +247,22 @@ export interface IStorage {
     structuredOutput?: unknown;
     summary?: string;
     metadata?: Record<string, unknown>;
+    participantId?: string;
   }): Promise<void>;
   getDebateSession(id: string): Promise<DebateSession | undefined>;
   listDebateSessions(): Promise<DebateSession[]>;
+  setDebateVerdict(id: string, verdict: DebateVerdict): Promise<DebateSession | undefined>;
+  setDebateAutoRun(id: string, autoRun: DebateAutoRun): Promise<DebateSession | undefined>;
+  /** Stores a fact-check on one turn record; undefined when the session or turn is missing */
+  setDebateTurnFactCheck(id: string, turn: number, factCheck: DebateTurnFactCheck): Promise<DebateSession | undefined>;
+
+  // Debate topic catalog, oldest first; seeding leaves topics whose id already exists untouched
+  listDebateTopics(): Promise<DebateTopicRecord[]>;
+  getDebateTopic(id: string): Promise<DebateTopicRecord | undefined>;
+  createDebateTopic(topic: Omit<InsertDebateTopic, 'id'>): Promise<DebateTopicRecord>;
+  seedDebateTopics(topics: InsertDebateTopic[]): Promise<void>;
+  updateDebateTopic(id: string, update: DebateTopicUpdate): Promise<DebateTopicRecord | undefined>;
+  deleteDebateTopic(id: string): Promise<boolean>;
 
   // User authentication operations
   getUser(id: string): Promise<User | undefined>;
@@ -189,6 +315,125 @@ export class DbStorage implements IStorage {
       .orderBy(desc(comparisons.createdAt));
   }
 
+  async createComparisonJudgement(judgement: InsertComparisonJudgement): Promise<ComparisonJudgement> {
+    const [result] = await requireDb()
+      .insert(comparisonJudgements)
+      .values(judgement as any)
+      .returning();
+    return result;
+  }
+
+  async getComparisonJudgements(comparisonId: string): Promise<ComparisonJudgement[]> {
+    return await requireDb()
+      .select()
+      .from(comparisonJudgements)
+      .where(eq(comparisonJudgements.comparisonId, comparisonId))
+      .orderBy(desc(comparisonJudgements.createdAt));
+  }
+
+  async recordModelMatchups(matchups: InsertModelMatchup[], replace?: ModelMatchupKey): Promise<ModelMatchup[]> {
+    return await requireDb().transaction(async (tx) => {
+      if (replace) {
+        await tx.delete(modelMatchups).where(and(
+          eq(modelMatchups.source, replace.source),
+          eq(modelMatchups.referenceId, replace.referenceId),
+          replace.voterId ? eq(modelMatchups.voterId, replace.voterId) : isNull(modelMatchups.voterId)
+        ));
+      }
+      if (matchups.length === 0) {
+        return [];
+      }
+      return await tx.insert(modelMatchups).values(matchups as any).returning();
+    });
+  }
+
+  async getModelMatchups(filter: ModelMatchupFilter = {}): Promise<ModelMatchup[]> {
+    const conditions = [
+      filter.category ? eq(modelMatchups.category, filter.category) : undefined,
+      filter.sources?.length ? inArray(modelMatchups.source, filter.sources) : undefined,
+    ].filter((condition): condition is NonNullable<typeof condition> => condition !== undefined);
+    return await requireDb()
+      .select()
+      .from(modelMatchups)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(modelMatchups.createdAt));
+  }
+
+  async replaceResponseGrades(comparisonId: string, grades: InsertResponseGrade[]): Promise<ResponseGradeRecord[]> {
+    return await requireDb().transaction(async (tx) => {
+      await tx.delete(responseGrades).where(eq(responseGrades.comparisonId, comparisonId));
+      if (grades.length === 0) {
+        return [];
+      }
+      return await tx.insert(responseGrades).values(grades as any).returning();
+    });
+  }
+
+  async getResponseGrades(comparisonId: string): Promise<ResponseGradeRecord[]> {
+    return await requireDb()
+      .select()
+      .from(responseGrades)
+      .where(eq(responseGrades.comparisonId, comparisonId))
+      .orderBy(asc(responseGrades.modelId));
+  }
+
+  async listResponseGrades(filter: ResponseGradeFilter = {}): Promise<ResponseGradeRecord[]> {
+    return await requireDb()
+      .select()
+      .from(responseGrades)
+      .where(filter.category ? eq(responseGrades.category, filter.category) : undefined)
+      .orderBy(asc(responseGrades.createdAt));
+  }
+
+  async createBatchRun(run: InsertBatchRun, items: Omit<InsertBatchRunItem, 'runId'>[]): Promise<BatchRun> {
+    return await requireDb().transaction(async (tx) => {
+      const [created] = await tx.insert(batchRuns).values(run as any).returning();
+      if (items.length > 0) {
+        await tx.insert(batchRunItems).values(items.map(item => ({ ...item, runId: created.id })) as any);
+      }
+      return created;
+    });
+  }
+
+  async updateBatchRun(id: string, update: BatchRunUpdate): Promise<BatchRun | undefined> {
+    const [result] = await requireDb()
+      .update(batchRuns)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(batchRuns.id, id))
+      .returning();
+    return result;
+  }
+
+  async getBatchRun(id: string): Promise<BatchRun | undefined> {
+    const [result] = await requireDb().select().from(batchRuns).where(eq(batchRuns.id, id));
+    return result;
+  }
+
+  async listBatchRuns(limit = 50): Promise<BatchRun[]> {
+    return await requireDb()
+      .select()
+      .from(batchRuns)
+      .orderBy(desc(batchRuns.createdAt))
+      .limit(limit);
+  }
+
+  async getBatchRunItems(runId: string): Promise<BatchRunItem[]> {
+    return await requireDb()
+      .select()
+      .from(batchRunItems)
+      .where(eq(batchRunItems.runId, runId))
+      .orderBy(asc(batchRunItems.promptIndex), asc(batchRunItems.modelId));
+  }
+
+  async updateBatchRunItem(id: string, update: BatchRunItemUpdate): Promise<BatchRunItem | undefined> {
+    const [result] = await requireDb()
+      .update(batchRunItems)
+      .set(update)
+      .where(eq(batchRunItems.id, id))
+      .returning();
+    return result;
+  }
+
   async createVixraSession(insertSession: InsertVixraSession): Promise<VixraSession> {
     const [result] = await requireDb()
       .insert(vixraSessions)
@@ -218,6 +463,40 @@ export class DbStorage implements IStorage {
       .orderBy(desc(vixraSessions.updatedAt));
   }
 
+  async setVixraPipeline(id: string, pipeline: VixraPipelineRun): Promise<VixraSession | undefined> {
+    const [result] = await requireDb()
+      .update(vixraSessions)
+      .set({ pipeline, updatedAt: new Date() } as any)
+      .where(eq(vixraSessions.id, id))
+      .returning();
+    return result || undefined;
+  }
+
+  async setVixraSectionResponse(id: string, sectionId: string, response: VixraSectionResponse): Promise<VixraSession | undefined> {
+    const [result] = await requireDb()
+      .update(vixraSessions)
+      .set({
+        responses: sql`${vixraSessions.responses} || jsonb_build_object(${sectionId}::text, ${JSON.stringify(response)}::jsonb)`,
+        updatedAt: new Date(),
+      } as any)
+      .where(eq(vixraSessions.id, id))
+      .returning();
+    return result || undefined;
+  }
+
+  async setVixraSectionAlternative(id: string, sectionId: string, modelId: string, response: VixraSectionResponse): Promise<VixraSession | undefined> {
+    const alternatives = sql`coalesce(${vixraSessions.alternatives}, '{}'::jsonb)`;
+    const [result] = await requireDb()
+      .update(vixraSessions)
+      .set({
+        alternatives: sql`${alternatives} || jsonb_build_object(${sectionId}::text, coalesce(${alternatives} -> ${sectionId}::text, '{}'::jsonb) || jsonb_build_object(${modelId}::text, ${JSON.stringify(response)}::jsonb))`,
+        updatedAt: new Date(),
+      } as any)
+      .where(eq(vixraSessions.id, id))
+      .returning();
+    return result || undefined;
+  }
+
   async createPromptAudit(insertAudit: InsertPromptAudit): Promise<PromptAuditRecord> {
     const [result] = await requireDb()
       .insert(promptAudits)
@@ -406,10 +685,16 @@ export class DbStorage implements IStorage {
         model1Id: session.model1Id,
         model2Id: session.model2Id,
         adversarialLevel: session.adversarialLevel,
-        turnHistory: [],
-        model1ResponseIds: [],
-        model2ResponseIds: [],
-        totalCost: 0
+        turnHistory: session.turnHistory ?? [],
+        model1ResponseIds: session.model1ResponseIds ?? [],
+        model2ResponseIds: session.model2ResponseIds ?? [],
+        participants: session.participants ?? null,
+        speakingOrder: session.speakingOrder ?? null,
+        participantResponseIds: session.participantResponseIds ?? {},
+        format: session.format ?? null,
+        totalCost: session.totalCost ?? 0,
+        parentSessionId: session.parentSessionId ?? null,
+        forkedAtTurn: session.forkedAtTurn ?? null
       } as any)
       .returning();
     return result;
@@ -429,13 +714,16 @@ export class DbStorage implements IStorage {
       structuredOutput?: unknown;
       summary?: string;
       metadata?: Record<string, unknown>;
+      participantId?: string;
     }
   ): Promise<void> {
     const session = await this.getDebateSession(id);
     if (!session) throw new Error('Session not found');
 
+    const responseChains = appendDebateResponseId(session, turnData.participantId, turnData.modelId, turnData.responseId);
     const turnRecord = {
       turn: turnData.turn,
+      participantId: responseChains.participantId,
       modelId: turnData.modelId,
       content: turnData.content,
       reasoning: turnData.reasoning,
@@ -450,21 +738,13 @@ export class DbStorage implements IStorage {
 
     const turnHistory = [...(session.turnHistory as any[]), turnRecord];
 
-    // Update appropriate response ID array
-    const isModel1 = turnData.modelId === session.model1Id;
-    const model1ResponseIds = isModel1
-      ? [...(session.model1ResponseIds as string[]), turnData.responseId]
-      : (session.model1ResponseIds as string[]);
-    const model2ResponseIds = !isModel1
-      ? [...(session.model2ResponseIds as string[]), turnData.responseId]
-      : (session.model2ResponseIds as string[]);
-
     await requireDb()
       .update(debateSessions)
       .set({
         turnHistory,
-        model1ResponseIds,
-        model2ResponseIds,
+        model1ResponseIds: responseChains.model1ResponseIds,
+        model2ResponseIds: responseChains.model2ResponseIds,
+        participantResponseIds: responseChains.participantResponseIds,
         totalCost: Number(session.totalCost || 0) + turnData.cost,
         updatedAt: new Date()
       } as any)
@@ -488,6 +768,72 @@ export class DbStorage implements IStorage {
       .orderBy(desc(debateSessions.updatedAt), desc(debateSessions.createdAt));
   }
 
+  async setDebateVerdict(id: string, verdict: DebateVerdict): Promise<DebateSession | undefined> {
+    const [result] = await requireDb()
+      .update(debateSessions)
+      .set({ verdict, updatedAt: new Date() } as any)
+      .where(eq(debateSessions.id, id))
+      .returning();
+    return result || undefined;
+  }
+
+  async setDebateAutoRun(id: string, autoRun: DebateAutoRun): Promise<DebateSession | undefined> {
+    const [result] = await requireDb()
+      .update(debateSessions)
+      .set({ autoRun, updatedAt: new Date() } as any)
+      .where(eq(debateSessions.id, id))
+      .returning();
+    return result || undefined;
+  }
+
+  async setDebateTurnFactCheck(id: string, turn: number, factCheck: DebateTurnFactCheck): Promise<DebateSession | undefined> {
+    const session = await this.getDebateSession(id);
+    const turnHistory = session ? withTurnFactCheck(session, turn, factCheck) : null;
+    if (!turnHistory) return undefined;
+    const [result] = await requireDb()
+      .update(debateSessions)
+      .set({ turnHistory, updatedAt: new Date() } as any)
+      .where(eq(debateSessions.id, id))
+      .returning();
+    return result || undefined;
+  }
+
+  async listDebateTopics(): Promise<DebateTopicRecord[]> {
+    return await requireDb()
+      .select()
+      .from(debateTopics)
+      .orderBy(asc(debateTopics.createdAt), asc(debateTopics.title));
+  }
+
+  async getDebateTopic(id: string): Promise<DebateTopicRecord | undefined> {
+    const [result] = await requireDb().select().from(debateTopics).where(eq(debateTopics.id, id));
+    return result;
+  }
+
+  async createDebateTopic(topic: Omit<InsertDebateTopic, 'id'>): Promise<DebateTopicRecord> {
+    const [result] = await requireDb().insert(debateTopics).values(topic as any).returning();
+    return result;
+  }
+
+  async seedDebateTopics(topics: InsertDebateTopic[]): Promise<void> {
+    if (topics.length === 0) return;
+    await requireDb().insert(debateTopics).values(topics as any).onConflictDoNothing({ target: debateTopics.id });
+  }
+
+  async updateDebateTopic(id: string, update: DebateTopicUpdate): Promise<DebateTopicRecord | undefined> {
+    const [result] = await requireDb()
+      .update(debateTopics)
+      .set({ ...update, updatedAt: new Date() } as any)
+      .where(eq(debateTopics.id, id))
+      .returning();
+    return result;
+  }
+
+  async deleteDebateTopic(id: string): Promise<boolean> {
+    const deleted = await requireDb().delete(debateTopics).where(eq(debateTopics.id, id)).returning({ id: debateTopics.id });
+    return deleted.length > 0;
+  }
+
   // User authentication operations
   async getUser(id: string): Promise<User | undefined> {
     const [result] = await requireDb().select().from(users).where(eq(users.id, id));
@@ -790,6 +1136,11 @@ export class DbStorage implements IStorage {
 
 export class MemStorage implements IStorage {
   private comparisons: Map<string, Comparison>;
+  private comparisonJudgements: Map<string, ComparisonJudgement[]>;
+  private modelMatchups: ModelMatchup[];
+  private responseGrades: ResponseGradeRecord[];
+  private batchRuns: Map<string, BatchRun>;
+  private batchRunItems: Map<string, BatchRunItem[]>;
   private vixraSessions: Map<string, VixraSession>;
   private promptAudits: Map<string, PromptAuditRecord>;
   private users: Map<string, User>;
@@ -801,10 +1152,16 @@ export class MemStorage implements IStorage {
   private arcMessages: Map<string, ArcMessage[]>;
   private arcArtifacts: Map<string, ArcArtifact[]>;
   private debateSessions: Map<string, DebateSession>;
+  private debateTopics: Map<string, DebateTopicRecord>;
 
 
   constructor() {
     this.comparisons = new Map();
+    this.comparisonJudgements = new Map();
+    this.modelMatchups = [];
+    this.responseGrades = [];
+    this.batchRuns = new Map();
+    this.batchRunItems = new Map();
     this.vixraSessions = new Map();
     this.promptAudits = new Map();
     this.users = new Map();
@@ -816,6 +1173,7 @@ export class MemStorage implements IStorage {
     this.arcMessages = new Map();
     this.arcArtifacts = new Map();
     this.debateSessions = new Map();
+    this.debateTopics = new Map();
   }
 
   async createComparison(insertComparison: InsertComparison): Promise<Comparison> {
@@ -841,22 +1199,170 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async createComparisonJudgement(judgement: InsertComparisonJudgement): Promise<ComparisonJudgement> {
+    const record: ComparisonJudgement = {
+      id: randomUUID(),
+      comparisonId: judgement.comparisonId,
+      judgeModelId: judgement.judgeModelId,
+      rubric: judgement.rubric as ComparisonJudgement['rubric'],
+      scores: judgement.scores as ComparisonJudgement['scores'],
+      rankings: judgement.rankings as ComparisonJudgement['rankings'],
+      summary: judgement.summary ?? null,
+      excludedModelIds: judgement.excludedModelIds as string[],
+      cost: (judgement.cost ?? null) as ComparisonJudgement['cost'],
+      createdAt: new Date(),
+    };
+    const existing = this.comparisonJudgements.get(judgement.comparisonId) ?? [];
+    this.comparisonJudgements.set(judgement.comparisonId, [record, ...existing]);
+    return record;
+  }
+
+  async getComparisonJudgements(comparisonId: string): Promise<ComparisonJudgement[]> {
+    return [...(this.comparisonJudgements.get(comparisonId) ?? [])];
+  }
+
+  async recordModelMatchups(matchups: InsertModelMatchup[], replace?: ModelMatchupKey): Promise<ModelMatchup[]> {
+    if (replace) {
+      this.modelMatchups = this.modelMatchups.filter(matchup => !(
+        matchup.source === replace.source &&
+        matchup.referenceId === replace.referenceId &&
+        (matchup.voterId ?? null) === (replace.voterId ?? null)
+      ));
+    }
+    const records: ModelMatchup[] = matchups.map(matchup => ({
+      id: randomUUID(),
+      modelAId: matchup.modelAId,
+      modelBId: matchup.modelBId,
+      outcome: matchup.outcome as ModelMatchup['outcome'],
+      source: matchup.source as ModelMatchup['source'],
+      category: matchup.category ?? null,
+      referenceId: matchup.referenceId ?? null,
+      voterId: matchup.voterId ?? null,
+      createdAt: new Date(),
+    }));
+    this.modelMatchups.push(...records);
+    return records;
+  }
+
+  async getModelMatchups(filter: ModelMatchupFilter = {}): Promise<ModelMatchup[]> {
+    return this.modelMatchups.filter(matchup =>
+      (!filter.category || matchup.category === filter.category) &&
+      (!filter.sources?.length || filter.sources.includes(matchup.source))
+    );
+  }
+
+  async replaceResponseGrades(comparisonId: string, grades: InsertResponseGrade[]): Promise<ResponseGradeRecord[]> {
+    this.responseGrades = this.responseGrades.filter(grade => grade.comparisonId !== comparisonId);
+    const records: ResponseGradeRecord[] = grades.map(grade => ({
+      id: randomUUID(),
+      comparisonId: grade.comparisonId,
+      modelId: grade.modelId,
+      templateId: grade.templateId ?? null,
+      category: grade.category ?? null,
+      reference: grade.reference as ResponseGradeRecord['reference'],
+      grader: grade.grader as ResponseGradeRecord['grader'],
+      fallbackFrom: (grade.fallbackFrom ?? null) as ResponseGradeRecord['fallbackFrom'],
+      passed: grade.passed,
+      extractedAnswer: grade.extractedAnswer ?? null,
+      explanation: grade.explanation ?? null,
+      cost: (grade.cost ?? null) as ResponseGradeRecord['cost'],
+      createdAt: new Date(),
+    }));
+    this.responseGrades.push(...records);
+    return records;
+  }
+
+  async getResponseGrades(comparisonId: string): Promise<ResponseGradeRecord[]> {
+    return this.responseGrades
+      .filter(grade => grade.comparisonId === comparisonId)
+      .sort((a, b) => a.modelId.localeCompare(b.modelId));
+  }
+
+  async listResponseGrades(filter: ResponseGradeFilter = {}): Promise<ResponseGradeRecord[]> {
+    return this.responseGrades.filter(grade => !filter.category || grade.category === filter.category);
+  }
+
+  async createBatchRun(run: InsertBatchRun, items: Omit<InsertBatchRunItem, 'runId'>[]): Promise<BatchRun> {
+    const now = new Date();
+    const record: BatchRun = {
+      id: randomUUID(),
+      name: run.name,
+      status: run.status as BatchRun['status'],
+      source: run.source as BatchRun['source'],
+      modelIds: run.modelIds as string[],
+      concurrency: run.concurrency,
+      ownerId: run.ownerId ?? null,
+      creditsUsed: run.creditsUsed ?? 0,
+      statusReason: run.statusReason ?? null,
+      createdAt: now,
+      updatedAt: now,
+      completedAt: null,
+    };
+    this.batchRuns.set(record.id, record);
+    this.batchRunItems.set(record.id, items
+      .map(item => ({
+        id: randomUUID(),
+        runId: record.id,
+        promptIndex: item.promptIndex,
+        promptId: item.promptId,
+        prompt: item.prompt,
+        modelId: item.modelId,
+        status: item.status as BatchRunItem['status'],
+        content: item.content ?? null,
+        reasoning: item.reasoning ?? null,
+        responseTimeMs: item.responseTimeMs ?? null,
+        tokenUsage: (item.tokenUsage ?? null) as BatchRunItem['tokenUsage'],
+        cost: (item.cost ?? null) as BatchRunItem['cost'],
+        error: item.error ?? null,
+        createdAt: now,
+        completedAt: null,
+      }))
+      .sort((a, b) => a.promptIndex - b.promptIndex || a.modelId.localeCompare(b.modelId)));
+    return record;
+  }
+
+  async updateBatchRun(id: string, update: BatchRunUpdate): Promise<BatchRun | undefined> {
+    const existing = this.batchRuns.get(id);
+    if (!existing) return undefined;
+    const updated: BatchRun = { ...existing, ...update, updatedAt: new Date() };
+    this.batchRuns.set(id, updated);
+    return updated;
+  }
+
+  async getBatchRun(id: string): Promise<BatchRun | undefined> {
+    return this.batchRuns.get(id);
+  }
+
+  async listBatchRuns(limit = 50): Promise<BatchRun[]> {
+    return Array.from(this.batchRuns.values())
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0))
+      .slice(0, limit);
+  }
+
+  async getBatchRunItems(runId: string): Promise<BatchRunItem[]> {
+    return [...(this.batchRunItems.get(runId) ?? [])];
+  }
+
+  async updateBatchRunItem(id: string, update: BatchRunItemUpdate): Promise<BatchRunItem | undefined> {
+    for (const items of Array.from(this.batchRunItems.values())) {
+      const index = items.findIndex(item => item.id === id);
+      if (index !== -1) {
+        items[index] = { ...items[index], ...update };
+        return items[index];
+      }
+    }
+    return undefined;
+  }
+
   async createVixraSession(insertSession: InsertVixraSession): Promise<VixraSession> {
     const id = randomUUID();
     const session: VixraSession = {
       id,
       variables: insertSession.variables,
       template: insertSession.template,
-      responses: insertSession.responses as Record<string, {
-        content: string;
-        reasoning?: string;
-        status: 'success' | 'error' | 'loading';
-        responseTime: number;
-        tokenUsage?: { input: number; output: number; reasoning?: number };
-        cost?: { total: number; input: number; output: number; reasoning?: number };
-        modelName: string;
-        error?: string;
-      }>,
+      responses: insertSession.responses as Record<string, VixraSectionResponse>,
+      pipeline: null,
+      alternatives: null,
       createdAt: new Date(),
       updatedAt: new Date()
     };
@@ -871,16 +1377,7 @@ export class MemStorage implements IStorage {
     const updated: VixraSession = {
       ...existing,
       ...updates,
-      responses: updates.responses ? updates.responses as Record<string, {
-        content: string;
-        reasoning?: string;
-        status: 'success' | 'error' | 'loading';
-        responseTime: number;
-        tokenUsage?: { input: number; output: number; reasoning?: number };
-        cost?: { total: number; input: number; output: number; reasoning?: number };
-        modelName: string;
-        error?: string;
-      }> : existing.responses,
+      responses: updates.responses ? updates.responses as Record<string, VixraSectionResponse> : existing.responses,
       updatedAt: new Date()
     };
     this.vixraSessions.set(id, updated);
@@ -897,6 +1394,39 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async setVixraPipeline(id: string, pipeline: VixraPipelineRun): Promise<VixraSession | undefined> {
+    const existing = this.vixraSessions.get(id);
+    if (!existing) return undefined;
+    const updated: VixraSession = { ...existing, pipeline, updatedAt: new Date() };
+    this.vixraSessions.set(id, updated);
+    return updated;
+  }
+
+  async setVixraSectionResponse(id: string, sectionId: string, response: VixraSectionResponse): Promise<VixraSession | undefined> {
+    const existing = this.vixraSessions.get(id);
+    if (!existing) return undefined;
+    const updated: VixraSession = {
+      ...existing,
+      responses: { ...existing.responses, [sectionId]: response },
+      updatedAt: new Date(),
+    };
+    this.vixraSessions.set(id, updated);
+    return updated;
+  }
+
+  async setVixraSectionAlternative(id: string, sectionId: string, modelId: string, response: VixraSectionResponse): Promise<VixraSession | undefined> {
+    const existing = this.vixraSessions.get(id);
+    if (!existing) return undefined;
+    const alternatives = existing.alternatives ?? {};
+    const updated: VixraSession = {
+      ...existing,
+      alternatives: { ...alternatives, [sectionId]: { ...alternatives[sectionId], [modelId]: response } },
+      updatedAt: new Date(),
+    };
+    this.vixraSessions.set(id, updated);
+    return updated;
+  }
+
   async createPromptAudit(insertAudit: InsertPromptAudit): Promise<PromptAuditRecord> {
     const id = randomUUID();
     const audit: PromptAuditRecord = {
@@ -1157,10 +1687,18 @@ export class MemStorage implements IStorage {
       model1Id: session.model1Id,
       model2Id: session.model2Id,
       adversarialLevel: session.adversarialLevel,
-      turnHistory: [],
-      model1ResponseIds: [],
-      model2ResponseIds: [],
-      totalCost: '0',
+      turnHistory: session.turnHistory ?? [],
+      model1ResponseIds: session.model1ResponseIds ?? [],
+      model2ResponseIds: session.model2ResponseIds ?? [],
+      participants: (session.participants as DebateSession['participants']) ?? null,
+      speakingOrder: (session.speakingOrder as DebateSession['speakingOrder']) ?? null,
+      participantResponseIds: (session.participantResponseIds as DebateSession['participantResponseIds']) ?? {},
+      format: session.format ?? null,
+      totalCost: session.totalCost ?? '0',
+      verdict: null,
+      autoRun: null,
+      parentSessionId: session.parentSessionId ?? null,
+      forkedAtTurn: session.forkedAtTurn ?? null,
       createdAt: new Date(),
       updatedAt: new Date()
     };
@@ -1182,13 +1720,16 @@ export class MemStorage implements IStorage {
       structuredOutput?: unknown;
       summary?: string;
       metadata?: Record<string, unknown>;
+      participantId?: string;
     }
   ): Promise<void> {
     const existing = this.debateSessions.get(id);
     if (!existing) throw new Error('Session not found');
 
+    const responseChains = appendDebateResponseId(existing, turnData.participantId, turnData.modelId, turnData.responseId);
     const turnRecord = {
       turn: turnData.turn,
+      participantId: responseChains.participantId,
       modelId: turnData.modelId,
       content: turnData.content,
       reasoning: turnData.reasoning,
@@ -1203,22 +1744,14 @@ export class MemStorage implements IStorage {
 
     const turnHistory = [...(existing.turnHistory as any[]), turnRecord];
 
-    // Update appropriate response ID array
-    const isModel1 = turnData.modelId === existing.model1Id;
-    const model1ResponseIds = isModel1
-      ? [...(existing.model1ResponseIds as string[]), turnData.responseId]
-      : (existing.model1ResponseIds as string[]);
-    const model2ResponseIds = !isModel1
-      ? [...(existing.model2ResponseIds as string[]), turnData.responseId]
-      : (existing.model2ResponseIds as string[]);
-
     const nextTotalCost = Number(existing.totalCost ?? 0) + turnData.cost;
 
     const updated: DebateSession = {
       ...existing,
       turnHistory,
-      model1ResponseIds,
-      model2ResponseIds,
+      model1ResponseIds: responseChains.model1ResponseIds,
+      model2ResponseIds: responseChains.model2ResponseIds,
+      participantResponseIds: responseChains.participantResponseIds,
       totalCost: `${nextTotalCost}`,
       updatedAt: new Date()
     };
@@ -1242,6 +1775,81 @@ export class MemStorage implements IStorage {
     });
   }
 
+  async setDebateVerdict(id: string, verdict: DebateVerdict): Promise<DebateSession | undefined> {
+    const existing = this.debateSessions.get(id);
+    if (!existing) return undefined;
+    const updated: DebateSession = { ...existing, verdict, updatedAt: new Date() };
+    this.debateSessions.set(id, updated);
+    return updated;
+  }
+
+  async setDebateAutoRun(id: string, autoRun: DebateAutoRun): Promise<DebateSession | undefined> {
+    const existing = this.debateSessions.get(id);
+    if (!existing) return undefined;
+    const updated: DebateSession = { ...existing, autoRun, updatedAt: new Date() };
+    this.debateSessions.set(id, updated);
+    return updated;
+  }
+
+  async setDebateTurnFactCheck(id: string, turn: number, factCheck: DebateTurnFactCheck): Promise<DebateSession | undefined> {
+    const existing = this.debateSessions.get(id);
+    const turnHistory = existing ? withTurnFactCheck(existing, turn, factCheck) : null;
+    if (!existing || !turnHistory) return undefined;
+    const updated: DebateSession = { ...existing, turnHistory, updatedAt: new Date() };
+    this.debateSessions.set(id, updated);
+    return updated;
+  }
+
+  async listDebateTopics(): Promise<DebateTopicRecord[]> {
+    return Array.from(this.debateTopics.values())
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0) || a.title.localeCompare(b.title));
+  }
+
+  async getDebateTopic(id: string): Promise<DebateTopicRecord | undefined> {
+    return this.debateTopics.get(id);
+  }
+
+  async createDebateTopic(topic: Omit<InsertDebateTopic, 'id'>): Promise<DebateTopicRecord> {
+    return this.insertDebateTopic({ ...topic, id: randomUUID() });
+  }
+
+  async seedDebateTopics(topics: InsertDebateTopic[]): Promise<void> {
+    for (const topic of topics) {
+      if (topic.id && !this.debateTopics.has(topic.id)) {
+        this.insertDebateTopic(topic);
+      }
+    }
+  }
+
+  async updateDebateTopic(id: string, update: DebateTopicUpdate): Promise<DebateTopicRecord | undefined> {
+    const existing = this.debateTopics.get(id);
+    if (!existing) return undefined;
+    const updated: DebateTopicRecord = { ...existing, ...update, updatedAt: new Date() };
+    this.debateTopics.set(id, updated);
+    return updated;
+  }
+
+  async deleteDebateTopic(id: string): Promise<boolean> {
+    return this.debateTopics.delete(id);
+  }
+
+  private insertDebateTopic(topic: InsertDebateTopic): DebateTopicRecord {
+    const now = new Date();
+    const record: DebateTopicRecord = {
+      id: topic.id ?? randomUUID(),
+      title: topic.title,
+      proposition: topic.proposition,
+      tags: topic.tags as string[],
+      difficulty: topic.difficulty as DebateTopicDifficulty,
+      source: topic.source as DebateTopicRecord['source'],
+      ownerId: topic.ownerId ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.debateTopics.set(record.id, record);
+    return record;
+  }
+
   // User authentication operations
   async getUser(id: string): Promise<User | undefined> {
     return this.users.get(id);
@@ -0,0 +1,148 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Multiplexed counterpart to StreamHarness for the compare page. Several models share one
+ *          SSE channel, so every status/chunk event is tagged with its modelId and each model's
+ *          completion or failure is announced with a dedicated event that leaves the channel open.
+ *          The channel only closes once the whole comparison has been persisted.
+ * SRP/DRY check: Pass - Buffers per-model stream state and emits events only; provider fan-out lives
+ *                in ModelService and persistence in the models routes.
+ */
+import { SseStreamManager } from "./sse-manager.js";
+
+export interface CompareStreamInitMeta {
+  prompt: string;
+  modelIds: string[];
+}
+
+export interface CompareModelCompletePayload {
+  responseId?: string;
+  responseTime: number;
+  tokenUsage?: unknown;
+  cost?: unknown;
+  route?: unknown;
+}
+
+interface CompareModelState {
+  reasoning: string;
+  content: string;
+  finished: boolean;
+}
+
+export class CompareStreamHarness {
+  private readonly manager: SseStreamManager;
+  private readonly models = new Map<string, CompareModelState>();
+
+  constructor(manager: SseStreamManager) {
+    this.manager = manager;
+  }
+
+  init(meta: CompareStreamInitMeta): void {
+    for (const modelId of meta.modelIds) {
+      this.models.set(modelId, { reasoning: "", content: "", finished: false });
+    }
+    this.manager.init({
+      prompt: meta.prompt,
+      modelIds: meta.modelIds,
+    });
+  }
+
+  status(modelId: string, phase: string, extra: Record<string, unknown> = {}): void {
+    this.manager.status({
+      modelId,
+      phase,
+      ...extra,
+    });
+  }
+
+  pushReasoning(modelId: string, delta: string): void {
+    const state = this.stateFor(modelId);
+    if (!delta || state.finished) {
+      return;
+    }
+    state.reasoning += delta;
+    this.manager.chunk({
+      modelId,
+      type: "reasoning",
+      delta,
+      cumulative: state.reasoning,
+      timestamp: Date.now(),
+    });
+  }
+
+  pushContent(modelId: string, delta: string): void {
+    const state = this.stateFor(modelId);
+    if (!delta || state.finished) {
+      return;
+    }
+    state.content += delta;
+    this.manager.chunk({
+      modelId,
+      type: "text",
+      delta,
+      cumulative: state.content,
+      timestamp: Date.now(),
+    });
+  }
+
+  modelComplete(modelId: string, payload: CompareModelCompletePayload, final?: { content?: string; reasoning?: string }): void {
+    const state = this.stateFor(modelId);
+    if (state.finished) {
+      return;
+    }
+    state.finished = true;
+    if (final?.content) {
+      state.content = final.content;
+    }
+    if (final?.reasoning) {
+      state.reasoning = final.reasoning;
+    }
+    this.manager.event("stream.model.complete", {
+      modelId,
+      ...payload,
+      reasoning: state.reasoning,
+      content: state.content,
+    });
+  }
+
+  modelError(modelId: string, error: Error | string, code: string = "MODEL_ERROR"): void {
+    const state = this.stateFor(modelId);
+    if (state.finished) {
+      return;
+    }
+    state.finished = true;
+    this.manager.event("stream.model.error", {
+      modelId,
+      error: error instanceof Error ? error.message : error,
+      code,
+    });
+  }
+
+  error(error: Error | string, code: string = "STREAM_ERROR"): void {
+    this.manager.error({
+      error: error instanceof Error ? error.message : error,
+      code,
+    });
+  }
+
+  complete(payload: Record<string, unknown>): void {
+    this.manager.complete(payload);
+  }
+
+  getReasoning(modelId: string): string {
+    return this.stateFor(modelId).reasoning;
+  }
+
+  getContent(modelId: string): string {
+    return this.stateFor(modelId).content;
+  }
+
+  private stateFor(modelId: string): CompareModelState {
+    let state = this.models.get(modelId);
+    if (!state) {
+      state = { reasoning: "", content: "", finished: false };
+      this.models.set(modelId, state);
+    }
+    return state;
+  }
+}
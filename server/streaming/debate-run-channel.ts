@@ -0,0 +1,125 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Live event channel for one server-driven debate run. Any number of SSE clients attach (and
+ *          re-attach after a reload) while the orchestrator plays turns; each client first receives a
+ *          `run.snapshot` with the run summary and the in-progress turn's text so far, then every turn's
+ *          events tagged with its turnNumber and participantId. Unlike a turn stream, a finished or failed
+ *          turn leaves the channel open; it closes only when the run ends.
+ * SRP/DRY check: Pass - Fan-out and live-turn buffering only; turn streaming lives in debate-turn.service.ts
+ *                and run state in debate-orchestrator.service.ts.
+ */
+import { randomUUID } from "node:crypto";
+import type { Response } from "express";
+import { SseStreamManager } from "./sse-manager.js";
+import type { StreamEventSink } from "./stream-harness.js";
+
+export interface DebateRunTurnMeta {
+  turnNumber: number;
+  participantId: string;
+  modelId: string;
+}
+
+export type DebateRunTurnOutcome =
+  | { ok: true; responseId: string | null }
+  | { ok: false; error: string; code: string };
+
+interface LiveTurnState extends DebateRunTurnMeta {
+  content: string;
+  reasoning: string;
+}
+
+export class DebateRunChannel {
+  private readonly debateSessionId: string;
+  private readonly clients = new Set<SseStreamManager>();
+  private liveTurn: LiveTurnState | null = null;
+
+  constructor(debateSessionId: string) {
+    this.debateSessionId = debateSessionId;
+  }
+
+  get clientCount(): number {
+    return this.clients.size;
+  }
+
+  /** The turn being streamed right now, with its text so far */
+  get currentTurn(): LiveTurnState | null {
+    return this.liveTurn ? { ...this.liveTurn } : null;
+  }
+
+  attach(res: Response, snapshot: Record<string, unknown>): SseStreamManager {
+    const manager = new SseStreamManager(res, {
+      taskId: `debate-run:${this.debateSessionId}`,
+      modelKey: "debate",
+      sessionId: randomUUID(),
+    });
+    manager.event("run.snapshot", { ...snapshot, liveTurn: this.currentTurn });
+    this.clients.add(manager);
+    res.on("close", () => {
+      this.clients.delete(manager);
+    });
+    return manager;
+  }
+
+  broadcast(event: string, payload: Record<string, unknown>): void {
+    for (const client of this.clients) {
+      client.event(event, { debateSessionId: this.debateSessionId, ...payload });
+    }
+  }
+
+  /** Sink for one turn's StreamHarness; `outcome` settles when the turn completes or errors */
+  turnSink(meta: DebateRunTurnMeta): { sink: StreamEventSink; outcome: Promise<DebateRunTurnOutcome> } {
+    let settle: (outcome: DebateRunTurnOutcome) => void = () => undefined;
+    const outcome = new Promise<DebateRunTurnOutcome>(resolve => {
+      settle = resolve;
+    });
+    const tag = { turnNumber: meta.turnNumber, participantId: meta.participantId, modelId: meta.modelId };
+    const finish = () => {
+      if (this.liveTurn?.turnNumber === meta.turnNumber) {
+        this.liveTurn = null;
+      }
+    };
+
+    const sink: StreamEventSink = {
+      init: (payload = {}) => {
+        this.liveTurn = { ...meta, content: "", reasoning: "" };
+        this.broadcast("turn.init", { ...payload, ...tag });
+      },
+      status: payload => {
+        this.broadcast("turn.status", { ...payload, ...tag });
+      },
+      chunk: payload => {
+        if (this.liveTurn?.turnNumber === meta.turnNumber && typeof payload.cumulative === "string") {
+          if (payload.type === "text") this.liveTurn.content = payload.cumulative;
+          if (payload.type === "reasoning") this.liveTurn.reasoning = payload.cumulative;
+        }
+        this.broadcast("turn.chunk", { ...payload, ...tag });
+      },
+      error: payload => {
+        finish();
+        this.broadcast("turn.error", { ...payload, ...tag });
+        settle({
+          ok: false,
+          error: typeof payload.error === "string" ? payload.error : "Turn failed",
+          code: typeof payload.code === "string" ? payload.code : "STREAM_ERROR",
+        });
+      },
+      complete: payload => {
+        finish();
+        this.broadcast("turn.complete", { ...payload, ...tag });
+        settle({ ok: true, responseId: typeof payload.responseId === "string" ? payload.responseId : null });
+      },
+    };
+    return { sink, outcome };
+  }
+
+  /** Announces the end of the run and closes every attached client */
+  end(payload: Record<string, unknown>): void {
+    this.liveTurn = null;
+    this.broadcast("run.end", payload);
+    for (const client of this.clients) {
+      client.close();
+    }
+    this.clients.clear();
+  }
+}
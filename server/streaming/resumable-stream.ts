@@ -0,0 +1,117 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Resumable SSE stream for one streaming session. Every event the harness emits gets an increasing
+ *          id and is kept in a bounded replay buffer, then forwarded to whichever connection is currently
+ *          attached. When a proxy cuts the connection mid-turn, the browser reconnects with `Last-Event-ID`;
+ *          the new connection is sent every buffered event after that id and then follows the live stream.
+ *          A connection that attaches after the stream finished gets the missed events, including the
+ *          final complete/error event, and is closed. The time of the last event lets the session registry
+ *          drop a live stream that has gone idle.
+ * SRP/DRY check: Pass - Event numbering, buffering and connection hand-over only; SSE framing stays in
+ *                SseStreamManager and session bookkeeping in StreamSessionRegistry.
+ */
+import type { SseStreamManager } from "./sse-manager.js";
+import type { StreamEventSink } from "./stream-harness.js";
+
+export interface SseReplayEvent {
+  id: number;
+  event: string;
+  payload: Record<string, unknown>;
+}
+
+export class ResumableSseStream implements StreamEventSink {
+  private readonly capacity: number;
+  private readonly events: SseReplayEvent[] = [];
+  private nextId = 1;
+  private client: SseStreamManager | null = null;
+  private finishedAt: number | null = null;
+  private lastActivityAt = Date.now();
+
+  constructor(capacity: number) {
+    this.capacity = Math.max(1, capacity);
+  }
+
+  /** When the last event was recorded, or when the stream was created if nothing was recorded yet */
+  get lastEventAt(): number {
+    return this.lastActivityAt;
+  }
+
+  /** When the complete or error event was emitted; null while the stream is live */
+  get closedAt(): number | null {
+    return this.finishedAt;
+  }
+
+  /**
+   * Makes `manager` the live connection. With a `lastEventId` (a reconnect), the buffered events after it are
+   * sent first; if some of them were already evicted, a `replay_truncated` status precedes what is left.
+   */
+  attach(manager: SseStreamManager, lastEventId: number | null): void {
+    this.client?.close();
+    this.client = null;
+
+    if (lastEventId !== null) {
+      const oldestId = this.events[0]?.id ?? this.nextId;
+      if (lastEventId + 1 < oldestId) {
+        manager.status({
+          phase: "replay_truncated",
+          message: `Events ${lastEventId + 1}-${oldestId - 1} are no longer buffered; chunks carry cumulative text`,
+          lastEventId,
+          oldestEventId: oldestId,
+        });
+      }
+      for (const entry of this.events) {
+        if (entry.id > lastEventId) {
+          manager.replay(entry);
+        }
+      }
+    }
+
+    if (this.finishedAt !== null) {
+      manager.close();
+      return;
+    }
+    this.client = manager;
+  }
+
+  init(additionalPayload: Record<string, unknown> = {}): void {
+    this.record("stream.init", { ...additionalPayload, connectedAt: new Date().toISOString() });
+  }
+
+  status(payload: Record<string, unknown>): void {
+    this.record("stream.status", payload);
+  }
+
+  chunk(payload: Record<string, unknown>): void {
+    this.record("stream.chunk", payload);
+  }
+
+  error(payload: Record<string, unknown>): void {
+    this.record("stream.error", payload);
+    this.finish();
+  }
+
+  complete(payload: Record<string, unknown>): void {
+    this.record("stream.complete", payload);
+    this.finish();
+  }
+
+  private record(event: string, payload: Record<string, unknown>): void {
+    if (this.finishedAt !== null) {
+      return;
+    }
+    this.lastActivityAt = Date.now();
+    const entry: SseReplayEvent = { id: this.nextId++, event, payload };
+    this.events.push(entry);
+    if (this.events.length > this.capacity) {
+      this.events.shift();
+    }
+    this.client?.replay(entry);
+  }
+
+  private finish(): void {
+    this.finishedAt = Date.now();
+    this.client?.close();
+    this.client = null;
+  }
+}
@@ -3,11 +3,17 @@
  * Date: 2025-10-17 and the 16:24 UTC
  * PURPOSE: Maintain a TTL-backed registry of pending streaming sessions so the POST→GET handshake
  *          can validate model/task metadata before upgrading to SSE, preventing duplicate launches
- *          and enforcing the new Responses API streaming contract.
+ *          and enforcing the new Responses API streaming contract. Registries created with a replay buffer
+ *          keep a consumed session and its ResumableSseStream until the stream finishes and the TTL passes,
+ *          so a client whose connection dropped can resume it with Last-Event-ID. A live stream that
+ *          records no event for the idle timeout is dropped too, so a turn whose harness never finishes
+ *          does not hold its buffer forever. An onUnconsumedExpiry hook lets a caller release what it
+ *          set aside for a session that was never opened, such as a credit reservation.
  * SRP/DRY check: Pass - File encapsulates handshake session bookkeeping only; confirmed no other
  *                registry implementation exists in the project.
  */
 import { randomUUID } from 'crypto';
+import { ResumableSseStream } from './resumable-stream.js';
 
 export interface StreamSessionEntry<TPayload> {
   sessionId: string;
@@ -16,6 +22,8 @@ export interface StreamSessionEntry<TPayload> {
   payload: TPayload;
   createdAt: number;
   expiresAt: number;
+  /** Set once the session is consumed by a registry with a replay buffer */
+  stream: ResumableSseStream | null;
 }
 
 export interface CreateSessionResult {
@@ -30,12 +38,30 @@ interface SessionAssertion {
   modelKey?: string;
 }
 
+export interface StreamSessionRegistryOptions<TPayload = unknown> {
+  /** Events kept per session for Last-Event-ID replay; sessions are dropped on consume when unset */
+  replayBufferSize?: number;
+  /** How long a live stream may go without an event before it is dropped (default 15 minutes) */
+  liveIdleTimeoutMs?: number;
+  /** Called when a session expires before anyone consumed it */
+  onUnconsumedExpiry?: (entry: StreamSessionEntry<TPayload>) => void;
+}
+
+// Longer than a provider call's own timeout, so only a stream whose harness is stuck is dropped
+const DEFAULT_LIVE_IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+
 export class StreamSessionRegistry<TPayload> {
   private readonly ttlMs: number;
+  private readonly replayBufferSize: number | null;
+  private readonly liveIdleTimeoutMs: number;
+  private readonly onUnconsumedExpiry: ((entry: StreamSessionEntry<TPayload>) => void) | null;
   private readonly sessions = new Map<string, StreamSessionEntry<TPayload>>();
 
-  constructor(ttlMs: number) {
+  constructor(ttlMs: number, options: StreamSessionRegistryOptions<TPayload> = {}) {
     this.ttlMs = ttlMs;
+    this.replayBufferSize = options.replayBufferSize ?? null;
+    this.liveIdleTimeoutMs = options.liveIdleTimeoutMs ?? DEFAULT_LIVE_IDLE_TIMEOUT_MS;
+    this.onUnconsumedExpiry = options.onUnconsumedExpiry ?? null;
   }
 
   createSession(taskId: string, modelKey: string, payload: TPayload, ttlOverrideMs?: number): CreateSessionResult {
@@ -52,21 +78,57 @@ export class StreamSessionRegistry<TPayload> {
       modelKey,
       payload,
       createdAt: now,
-      expiresAt
+      expiresAt,
+      stream: null
     });
 
     return { sessionId, taskId, modelKey, expiresAt };
   }
 
+  /** Hands out a pending session once; with a replay buffer the entry stays behind holding its stream */
   consumeSession(sessionId: string, assertion?: SessionAssertion): StreamSessionEntry<TPayload> | null {
+    const entry = this.findSession(sessionId, assertion);
+    if (!entry || entry.stream) {
+      return null;
+    }
+
+    if (this.replayBufferSize === null) {
+      this.sessions.delete(sessionId);
+      return entry;
+    }
+
+    entry.stream = new ResumableSseStream(this.replayBufferSize);
+    entry.expiresAt = Date.now() + this.ttlMs;
+    return entry;
+  }
+
+  /** A consumed session whose stream a reconnecting client can re-attach to */
+  resumeSession(sessionId: string, assertion?: SessionAssertion): StreamSessionEntry<TPayload> | null {
+    const entry = this.findSession(sessionId, assertion);
+    return entry?.stream ? entry : null;
+  }
+
+  cleanupExpired(): void {
+    const now = Date.now();
+    for (const entry of Array.from(this.sessions.values())) {
+      if (this.isExpired(entry, now)) {
+        this.expire(entry);
+      }
+    }
+  }
+
+  size(): number {
+    return this.sessions.size;
+  }
+
+  private findSession(sessionId: string, assertion?: SessionAssertion): StreamSessionEntry<TPayload> | null {
     const entry = this.sessions.get(sessionId);
     if (!entry) {
       return null;
     }
 
-    const now = Date.now();
-    if (entry.expiresAt <= now) {
-      this.sessions.delete(sessionId);
+    if (this.isExpired(entry, Date.now())) {
+      this.expire(entry);
       return null;
     }
 
@@ -76,21 +138,28 @@ export class StreamSessionRegistry<TPayload> {
     if (assertion?.modelKey && entry.modelKey !== assertion.modelKey) {
       return null;
     }
-
-    this.sessions.delete(sessionId);
     return entry;
   }
 
-  cleanupExpired(): void {
-    const now = Date.now();
-    for (const [sessionId, entry] of this.sessions.entries()) {
-      if (entry.expiresAt <= now) {
-        this.sessions.delete(sessionId);
-      }
+  private expire(entry: StreamSessionEntry<TPayload>): void {
+    this.sessions.delete(entry.sessionId);
+    if (!entry.stream) {
+      this.onUnconsumedExpiry?.(entry);
     }
   }
 
-  size(): number {
-    return this.sessions.size;
+  /**
+   * A live stream expires once it has been idle for liveIdleTimeoutMs; a finished one stays resumable
+   * for a TTL after its last event
+   */
+  private isExpired(entry: StreamSessionEntry<TPayload>, now: number): boolean {
+    if (!entry.stream) {
+      return entry.expiresAt <= now;
+    }
+    const closedAt = entry.stream.closedAt;
+    if (closedAt === null) {
+      return entry.stream.lastEventAt + this.liveIdleTimeoutMs <= now;
+    }
+    return Math.max(entry.expiresAt, closedAt + this.ttlMs) <= now;
   }
 }
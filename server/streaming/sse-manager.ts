@@ -3,16 +3,20 @@
  * Date: 2025-10-17 and the 16:24 UTC
  * PURPOSE: Provide a reusable SSE manager that applies headers, enriches every payload with task/model
  *          metadata, and maintains heartbeat keepalives so streaming routes can stay DRY while matching
- *          the documented Responses API contract.
+ *          the documented Responses API contract. Replayed events carry an `id:` line so a browser that
+ *          reconnects reports the last one it saw as `Last-Event-ID`.
  * SRP/DRY check: Pass - Class only handles SSE response orchestration; no provider or business logic.
  */
 import type { Response } from "express";
+import type { SseReplayEvent } from "./resumable-stream.js";
 
 export interface SseStreamManagerOptions {
   taskId: string;
   modelKey: string;
   sessionId: string;
   heartbeatIntervalMs?: number;
+  /** Reconnection delay to suggest to the browser's EventSource */
+  retryMs?: number;
 }
 
 export class SseStreamManager {
@@ -34,6 +38,9 @@ export class SseStreamManager {
     this.connectedAtIso = new Date().toISOString();
 
     this.applyHeaders();
+    if (options.retryMs !== undefined) {
+      this.res.write(`retry: ${options.retryMs}\n\n`);
+    }
     this.attachLifecycleHooks();
     this.startHeartbeat();
   }
@@ -67,6 +74,16 @@ export class SseStreamManager {
     this.close();
   }
 
+  /** Emit a named event without closing the stream (used by multiplexed channels) */
+  event(event: string, payload: Record<string, unknown>): void {
+    this.emit(event, payload);
+  }
+
+  /** Emit a buffered event with its id, without closing the stream */
+  replay(entry: SseReplayEvent): void {
+    this.emit(entry.event, entry.payload, entry.id);
+  }
+
   keepalive(): void {
     this.emit("stream.keepalive", { timestamp: Date.now() });
   }
@@ -120,7 +137,7 @@ export class SseStreamManager {
     }, this.heartbeatIntervalMs);
   }
 
-  private emit(event: string, payload: Record<string, unknown>): void {
+  private emit(event: string, payload: Record<string, unknown>, id?: number): void {
     if (this.closed || this.res.writableEnded) {
       return;
     }
@@ -134,6 +151,9 @@ export class SseStreamManager {
     };
 
     try {
+      if (id !== undefined) {
+        this.res.write(`id: ${id}\n`);
+      }
       this.res.write(`event: ${event}\n`);
       this.res.write(`data: ${JSON.stringify(enrichedPayload)}\n\n`);
     } catch (error) {
@@ -3,10 +3,14 @@
  * Date: 2025-10-17 and the 16:24 UTC
  * PURPOSE: Wrap the SSE manager with domain-aware helpers that buffer reasoning/text/json chunks,
  *          emit normalized stream events, and expose the final aggregates for persistence so debate
- *          streaming can follow the shared modal contract without duplicating glue code.
+ *          streaming can follow the shared modal contract without duplicating glue code. Events go to any
+ *          StreamEventSink, so a server-driven debate run can fan one turn out to every attached client.
  * SRP/DRY check: Pass - Harness coordinates streaming metadata only; model invocation stays elsewhere.
  */
-import { SseStreamManager } from "./sse-manager.js";
+import type { SseStreamManager } from "./sse-manager.js";
+
+/** Where harness events go: a single SSE response, or a channel that tags and fans them out */
+export type StreamEventSink = Pick<SseStreamManager, "init" | "status" | "chunk" | "error" | "complete">;
 
 export interface StreamHarnessInitMeta {
   debateSessionId: string;
@@ -30,14 +34,14 @@ interface StreamHarnessState {
 }
 
 export class StreamHarness {
-  private readonly manager: SseStreamManager;
+  private readonly manager: StreamEventSink;
   private readonly state: StreamHarnessState = {
     reasoning: "",
     content: "",
     jsonChunks: [],
   };
 
-  constructor(manager: SseStreamManager) {
+  constructor(manager: StreamEventSink) {
     this.manager = manager;
   }
 
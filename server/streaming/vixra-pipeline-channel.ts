@@ -0,0 +1,54 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Live event channel for one server-side Vixra pipeline. Any number of SSE clients attach (and
+ *          re-attach after a reload) while sections generate; each client first receives a
+ *          `pipeline.snapshot` with the run summary, then `section.start`, `section.complete` and
+ *          `section.error` events tagged with their sectionId, and a final `pipeline.end`.
+ * SRP/DRY check: Pass - Fan-out only; scheduling and persistence live in vixra-pipeline.service.ts.
+ */
+import { randomUUID } from "node:crypto";
+import type { Response } from "express";
+import { SseStreamManager } from "./sse-manager.js";
+
+export class VixraPipelineChannel {
+  private readonly vixraSessionId: string;
+  private readonly clients = new Set<SseStreamManager>();
+
+  constructor(vixraSessionId: string) {
+    this.vixraSessionId = vixraSessionId;
+  }
+
+  get clientCount(): number {
+    return this.clients.size;
+  }
+
+  attach(res: Response, snapshot: Record<string, unknown>): SseStreamManager {
+    const manager = new SseStreamManager(res, {
+      taskId: `vixra-pipeline:${this.vixraSessionId}`,
+      modelKey: "vixra",
+      sessionId: randomUUID(),
+    });
+    manager.event("pipeline.snapshot", snapshot);
+    this.clients.add(manager);
+    res.on("close", () => {
+      this.clients.delete(manager);
+    });
+    return manager;
+  }
+
+  broadcast(event: string, payload: Record<string, unknown>): void {
+    for (const client of this.clients) {
+      client.event(event, { vixraSessionId: this.vixraSessionId, ...payload });
+    }
+  }
+
+  /** Announces the end of the run and closes every attached client */
+  end(payload: Record<string, unknown>): void {
+    this.broadcast("pipeline.end", payload);
+    for (const client of this.clients) {
+      client.close();
+    }
+    this.clients.clear();
+  }
+}
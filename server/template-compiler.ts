@@ -14,6 +14,7 @@ import { VariableEngine } from '../shared/variable-engine.js';
 import { VARIABLE_REGISTRIES, type ModeType } from '../shared/variable-registry.js';
 import { getTemplateConfig } from './config.js';
 import { StructuredTemplate, VariableDefinition, TemplateMetadata } from '../shared/api-types.js';
+import { extractReferenceAnswer, type ReferenceAnswer } from '../shared/reference-answer.js';
 
 export interface CompiledTemplate {
   id: string;
@@ -23,6 +24,8 @@ export interface CompiledTemplate {
   mode?: ModeType;
   category: string;
   filePath: string;
+  /** Known correct answer from a `> Answer:` annotation; never part of content */
+  referenceAnswer?: ReferenceAnswer;
 }
 
 export interface CompiledTemplateCategory {
@@ -88,14 +91,16 @@ export class TemplateCompiler {
       };
 
       for (const template of category.prompts) {
+        const { content: templateContent, referenceAnswer } = extractReferenceAnswer(template.content);
         const compiledTemplate: CompiledTemplate = {
           id: `${category.id}:${template.id}`,
           name: template.name,
-          content: template.content,
-          variables: this.extractVariables(template.content),
+          content: templateContent,
+          variables: this.extractVariables(templateContent),
           mode,
           category: category.name,
-          filePath
+          filePath,
+          ...(referenceAnswer ? { referenceAnswer } : {})
         };
 
         // Validate template can be rendered
@@ -120,7 +125,7 @@ export class TemplateCompiler {
   }
 
   private extractVariables(content: string): string[] {
-    const variableMatches = content.match(/\\{([^}|]+)(?:\\|[^}]*)?\\}/g) || [];
+    const variableMatches = content.match(/\{([^}|]+)(?:\|[^}]*)?\}/g) || [];
     return [...new Set(variableMatches.map(match => {
       const varName = match.slice(1, -1).split('|')[0]; // Handle default values
       return varName;
@@ -140,7 +145,7 @@ export class TemplateCompiler {
 
   private parseMarkdownContent(markdown: string) {
     const categories: Array<{ id: string; name: string; prompts: Array<{ id: string; name: string; content: string }> }> = [];
-    const lines = markdown.split('\\n');
+    const lines = markdown.split('\n');
     
     let currentCategory: { id: string; name: string; prompts: Array<{ id: string; name: string; content: string }> } | null = null;
     let currentPrompt: { id: string; name: string; content: string } | null = null;
@@ -154,7 +159,7 @@ export class TemplateCompiler {
       if (line.startsWith('## ') && !line.includes('Author') && !line.includes('Date')) {
         // Save previous prompt if exists
         if (currentPrompt && currentCategory) {
-          currentPrompt.content = contentLines.join('\\n').trim();
+          currentPrompt.content = contentLines.join('\n').trim();
           currentCategory.prompts.push(currentPrompt);
         }
         
@@ -178,7 +183,7 @@ export class TemplateCompiler {
       else if (line.startsWith('### ') && currentCategory) {
         // Save previous prompt if exists
         if (currentPrompt) {
-          currentPrompt.content = contentLines.join('\\n').trim();
+          currentPrompt.content = contentLines.join('\n').trim();
           currentCategory.prompts.push(currentPrompt);
         }
         
@@ -204,7 +209,7 @@ export class TemplateCompiler {
     
     // Save final prompt and category
     if (currentPrompt && currentCategory) {
-      currentPrompt.content = contentLines.join('\\n').trim();
+      currentPrompt.content = contentLines.join('\n').trim();
       currentCategory.prompts.push(currentPrompt);
     }
     if (currentCategory) {
@@ -0,0 +1,330 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Dependency-free PDF typesetter for server-side exports (Vixra papers). Lays out paragraphs on
+ *          US Letter pages with the standard Type1 fonts (Times and Courier, WinAnsiEncoding), so no font
+ *          files are embedded: greedy line breaking from the AFM widths, justified text via word spacing,
+ *          hanging labels for lists and references, headings kept with the next lines, page numbers, and
+ *          Flate-compressed content streams. Characters outside WinAnsi print as "?"; callers transliterate
+ *          anything they care about first.
+ * SRP/DRY check: Pass - Layout and PDF serialization only; what goes on the page is up to the caller.
+ */
+import { deflateSync } from "node:zlib";
+
+export type PdfFontStyle = "regular" | "bold" | "italic" | "mono";
+
+export interface PdfTextOptions {
+  font?: PdfFontStyle;
+  /** Font size in points */
+  size?: number;
+  align?: "left" | "center" | "justify";
+  leftIndent?: number;
+  rightIndent?: number;
+  /** Printed in the left indent of the first line (list bullets, reference numbers) */
+  label?: string;
+  spaceBefore?: number;
+  spaceAfter?: number;
+  /** Moves to a new page unless a couple of body lines fit below the text (headings) */
+  keepWithNext?: boolean;
+  /** Keeps line breaks and runs of spaces (code blocks) */
+  preformatted?: boolean;
+}
+
+export interface PdfDocumentInfo {
+  title: string;
+  author?: string;
+  subject?: string;
+  creator?: string;
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+const LINE_HEIGHT = 1.3;
+const FOOTER_Y = 40;
+
+const FONTS: Record<PdfFontStyle, { resource: string; baseFont: string }> = {
+  regular: { resource: "F1", baseFont: "Times-Roman" },
+  bold: { resource: "F2", baseFont: "Times-Bold" },
+  italic: { resource: "F3", baseFont: "Times-Italic" },
+  mono: { resource: "F4", baseFont: "Courier" },
+};
+
+// AFM advance widths for ASCII 32..126, per 1000 units of font size
+const ASCII_WIDTHS: Record<Exclude<PdfFontStyle, "mono">, number[]> = {
+  regular: [
+    250, 333, 408, 500, 500, 833, 778, 180, 333, 333, 500, 564, 250, 333, 250, 278,
+    500, 500, 500, 500, 500, 500, 500, 500, 500, 500, 278, 278, 564, 564, 564, 444,
+    921, 722, 667, 667, 722, 611, 556, 722, 722, 333, 389, 722, 611, 889, 722, 722,
+    556, 722, 667, 556, 611, 722, 722, 944, 722, 722, 611, 333, 278, 333, 469, 500,
+    333, 444, 500, 444, 500, 444, 333, 500, 500, 278, 278, 500, 278, 778, 500, 500,
+    500, 500, 333, 389, 278, 500, 500, 722, 500, 500, 444, 480, 200, 480, 541,
+  ],
+  bold: [
+    250, 333, 555, 500, 500, 1000, 833, 278, 333, 333, 500, 570, 250, 333, 250, 278,
+    500, 500, 500, 500, 500, 500, 500, 500, 500, 500, 333, 333, 570, 570, 570, 500,
+    930, 722, 667, 722, 722, 667, 611, 778, 778, 389, 500, 778, 667, 944, 722, 778,
+    611, 778, 722, 556, 667, 722, 722, 1000, 722, 722, 667, 333, 278, 333, 581, 500,
+    333, 500, 556, 444, 556, 444, 333, 500, 556, 278, 333, 556, 278, 833, 556, 500,
+    556, 556, 444, 389, 333, 556, 500, 722, 500, 500, 444, 394, 220, 394, 520,
+  ],
+  italic: [
+    250, 333, 420, 500, 500, 833, 778, 214, 333, 333, 500, 675, 250, 333, 250, 278,
+    500, 500, 500, 500, 500, 500, 500, 500, 500, 500, 333, 333, 675, 675, 675, 500,
+    920, 611, 611, 667, 722, 611, 611, 722, 722, 333, 444, 667, 556, 833, 667, 722,
+    611, 722, 611, 500, 556, 722, 611, 833, 611, 556, 556, 389, 278, 389, 422, 500,
+    333, 500, 500, 444, 500, 444, 278, 500, 500, 278, 278, 444, 278, 722, 500, 500,
+    500, 500, 389, 389, 278, 500, 444, 667, 444, 444, 389, 400, 275, 400, 541,
+  ],
+};
+
+// Widths for the WinAnsi upper half that differ noticeably from the 500-unit average
+const UPPER_WIDTHS: Record<number, number> = {
+  0x85: 1000, 0x91: 333, 0x92: 333, 0x93: 444, 0x94: 444, 0x95: 350, 0x96: 500, 0x97: 1000,
+  0xa0: 250, 0xb0: 400, 0xb1: 564, 0xb7: 250, 0xd7: 564, 0xf7: 564,
+};
+
+// Unicode code points that WinAnsiEncoding places in 0x80..0x9F
+const WIN_ANSI_UPPER: Record<number, number> = {
+  0x20ac: 0x80, 0x201a: 0x82, 0x0192: 0x83, 0x201e: 0x84, 0x2026: 0x85, 0x2020: 0x86, 0x2021: 0x87,
+  0x02c6: 0x88, 0x2030: 0x89, 0x0160: 0x8a, 0x2039: 0x8b, 0x0152: 0x8c, 0x017d: 0x8e, 0x2018: 0x91,
+  0x2019: 0x92, 0x201c: 0x93, 0x201d: 0x94, 0x2022: 0x95, 0x2013: 0x96, 0x2014: 0x97, 0x02dc: 0x98,
+  0x2122: 0x99, 0x0161: 0x9a, 0x203a: 0x9b, 0x0153: 0x9c, 0x017e: 0x9e, 0x0178: 0x9f,
+};
+
+/** Re-encodes text as WinAnsi bytes held in a latin1 string; unsupported characters become "?" */
+function toWinAnsi(text: string): string {
+  let result = "";
+  for (const char of text.normalize("NFC")) {
+    const code = char.codePointAt(0) ?? 0x3f;
+    if (code === 0x09) {
+      result += " ";
+    } else if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) {
+      result += char;
+    } else if (WIN_ANSI_UPPER[code] !== undefined) {
+      result += String.fromCharCode(WIN_ANSI_UPPER[code]);
+    } else if (code >= 0x20) {
+      result += "?";
+    }
+  }
+  return result;
+}
+
+function charWidth(font: PdfFontStyle, code: number): number {
+  if (font === "mono") return 600;
+  if (code >= 32 && code <= 126) return ASCII_WIDTHS[font][code - 32];
+  return UPPER_WIDTHS[code] ?? 500;
+}
+
+function textWidth(text: string, font: PdfFontStyle, size: number): number {
+  let units = 0;
+  for (let i = 0; i < text.length; i++) {
+    units += charWidth(font, text.charCodeAt(i));
+  }
+  return (units * size) / 1000;
+}
+
+function escapePdfString(text: string): string {
+  return text.replace(/[\\()]/g, match => `\\${match}`);
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function pdfDate(date: Date): string {
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`
+    + `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+export class PdfDocument {
+  private readonly info: PdfDocumentInfo;
+  private readonly pages: string[][] = [];
+  private cursorY = 0;
+
+  constructor(info: PdfDocumentInfo) {
+    this.info = info;
+    this.newPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addSpace(points: number): void {
+    this.cursorY -= points;
+  }
+
+  addText(text: string, options: PdfTextOptions = {}): void {
+    const font = options.font ?? "regular";
+    const size = options.size ?? 11;
+    const align = options.align ?? "left";
+    const leftIndent = options.leftIndent ?? 0;
+    const left = MARGIN + leftIndent;
+    const maxWidth = PAGE_WIDTH - MARGIN * 2 - leftIndent - (options.rightIndent ?? 0);
+    const lineHeight = size * LINE_HEIGHT;
+
+    const lines = options.preformatted
+      ? text.split(/\r?\n/).flatMap(line => this.breakCharacters(toWinAnsi(line), font, size, maxWidth))
+      : this.breakWords(toWinAnsi(text), font, size, maxWidth);
+    if (lines.length === 0) return;
+
+    this.cursorY -= options.spaceBefore ?? 0;
+    const needed = options.keepWithNext ? lineHeight * lines.length + 11 * LINE_HEIGHT * 2 : lineHeight;
+    if (this.cursorY - needed < MARGIN) {
+      this.newPage();
+    }
+
+    lines.forEach((line, index) => {
+      if (this.cursorY - lineHeight < MARGIN) {
+        this.newPage();
+      }
+      this.cursorY -= lineHeight;
+      const width = textWidth(line, font, size);
+      let x = left;
+      let wordSpacing = 0;
+      if (align === "center") {
+        x = left + (maxWidth - width) / 2;
+      } else if (align === "justify" && index < lines.length - 1) {
+        const gaps = line.split(" ").length - 1;
+        if (gaps > 0) wordSpacing = (maxWidth - width) / gaps;
+      }
+
+      const ops = this.currentPage();
+      if (index === 0 && options.label) {
+        const label = toWinAnsi(options.label);
+        const labelX = Math.max(MARGIN, left - textWidth(label, font, size) - size * 0.5);
+        ops.push(`BT /${FONTS[font].resource} ${size} Tf 0 Tw ${formatNumber(labelX)} ${formatNumber(this.cursorY)} Td (${escapePdfString(label)}) Tj ET`);
+      }
+      ops.push(
+        `BT /${FONTS[font].resource} ${size} Tf ${formatNumber(wordSpacing)} Tw `
+        + `${formatNumber(x)} ${formatNumber(this.cursorY)} Td (${escapePdfString(line)}) Tj ET`,
+      );
+    });
+
+    this.cursorY -= options.spaceAfter ?? 0;
+  }
+
+  toBuffer(createdAt: Date = new Date()): Buffer {
+    const objects: string[] = [];
+    const reserve = () => objects.push("");
+    const set = (id: number, body: string) => {
+      objects[id - 1] = body;
+    };
+
+    const catalogId = reserve();
+    const pagesId = reserve();
+    const fontIds = Object.fromEntries(
+      (Object.keys(FONTS) as PdfFontStyle[]).map(style => [style, reserve()]),
+    ) as Record<PdfFontStyle, number>;
+    const infoId = reserve();
+
+    const streams = new Map<number, Buffer>();
+    const pageIds: number[] = [];
+    this.pages.forEach((ops, index) => {
+      const footer = String(index + 1);
+      const footerX = (PAGE_WIDTH - textWidth(footer, "regular", 9)) / 2;
+      const content = [...ops, `BT /F1 9 Tf 0 Tw ${formatNumber(footerX)} ${FOOTER_Y} Td (${footer}) Tj ET`].join("\n");
+      const compressed = deflateSync(Buffer.from(content, "latin1"));
+      const contentId = reserve();
+      streams.set(contentId, compressed);
+      set(contentId, `<< /Length ${compressed.length} /Filter /FlateDecode >>`);
+      const pageId = reserve();
+      pageIds.push(pageId);
+      set(pageId, `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Contents ${contentId} 0 R /Resources << /Font << ${
+        (Object.keys(FONTS) as PdfFontStyle[]).map(style => `/${FONTS[style].resource} ${fontIds[style]} 0 R`).join(" ")
+      } >> >> >>`);
+    });
+
+    set(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+    set(pagesId, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`);
+    for (const style of Object.keys(FONTS) as PdfFontStyle[]) {
+      set(fontIds[style], `<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS[style].baseFont} /Encoding /WinAnsiEncoding >>`);
+    }
+    const infoEntries = [
+      `/Title (${escapePdfString(toWinAnsi(this.info.title))})`,
+      this.info.author ? `/Author (${escapePdfString(toWinAnsi(this.info.author))})` : "",
+      this.info.subject ? `/Subject (${escapePdfString(toWinAnsi(this.info.subject))})` : "",
+      this.info.creator ? `/Creator (${escapePdfString(toWinAnsi(this.info.creator))})` : "",
+      `/CreationDate (${pdfDate(createdAt)})`,
+    ].filter(Boolean);
+    set(infoId, `<< ${infoEntries.join(" ")} >>`);
+
+    const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+    let offset = chunks[0].length;
+    const offsets: number[] = [];
+    objects.forEach((body, index) => {
+      const id = index + 1;
+      offsets.push(offset);
+      const stream = streams.get(id);
+      const parts = stream
+        ? [Buffer.from(`${id} 0 obj\n${body}\nstream\n`, "latin1"), stream, Buffer.from("\nendstream\nendobj\n", "latin1")]
+        : [Buffer.from(`${id} 0 obj\n${body}\nendobj\n`, "latin1")];
+      for (const part of parts) {
+        chunks.push(part);
+        offset += part.length;
+      }
+    });
+
+    const xref = [
+      "xref",
+      `0 ${objects.length + 1}`,
+      "0000000000 65535 f ",
+      ...offsets.map(value => `${value.toString().padStart(10, "0")} 00000 n `),
+      "trailer",
+      `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+      "startxref",
+      String(offset),
+      "%%EOF",
+      "",
+    ].join("\n");
+    chunks.push(Buffer.from(xref, "latin1"));
+    return Buffer.concat(chunks);
+  }
+
+  private newPage(): void {
+    this.pages.push([]);
+    this.cursorY = PAGE_HEIGHT - MARGIN;
+  }
+
+  private currentPage(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private breakWords(text: string, font: PdfFontStyle, size: number, maxWidth: number): string[] {
+    const lines: string[] = [];
+    let line = "";
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, font, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      if (textWidth(word, font, size) <= maxWidth) {
+        line = word;
+      } else {
+        const pieces = this.breakCharacters(word, font, size, maxWidth);
+        line = pieces.pop() ?? "";
+        lines.push(...pieces);
+      }
+    }
+    if (line) lines.push(line);
+    return lines;
+  }
+
+  private breakCharacters(text: string, font: PdfFontStyle, size: number, maxWidth: number): string[] {
+    const lines: string[] = [];
+    let line = "";
+    for (const char of text) {
+      if (line && textWidth(line + char, font, size) > maxWidth) {
+        lines.push(line);
+        line = "";
+      }
+      line += char;
+    }
+    lines.push(line);
+    return lines;
+  }
+}
@@ -25,7 +25,8 @@ export class ApiResponse {
       responseTime: result.responseTime,
       tokenUsage: result.tokenUsage,
       cost: result.cost,
-      modelConfig: result.modelConfig
+      modelConfig: result.modelConfig,
+      route: result.route
     });
   }
 
@@ -0,0 +1,61 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Minimal ustar writer for download bundles (the Vixra LaTeX source export). Regular files only,
+ *          gzipped with node:zlib, so `tar xzf` and arXiv's uploader unpack it without extra dependencies.
+ * SRP/DRY check: Pass - Archive encoding only; callers decide what goes in the bundle.
+ */
+import { gzipSync } from "node:zlib";
+
+export interface TarEntry {
+  /** Path inside the archive, at most 100 bytes */
+  name: string;
+  content: string | Buffer;
+}
+
+const BLOCK_SIZE = 512;
+
+function writeField(header: Buffer, offset: number, length: number, value: string): void {
+  header.write(value.slice(0, length), offset, length, "utf8");
+}
+
+function octal(value: number, length: number): string {
+  return value.toString(8).padStart(length - 1, "0") + "\0";
+}
+
+function entryHeader(name: string, size: number, mtime: number): Buffer {
+  if (Buffer.byteLength(name) > 100) {
+    throw new Error(`Tar entry name too long: ${name}`);
+  }
+  const header = Buffer.alloc(BLOCK_SIZE);
+  writeField(header, 0, 100, name);
+  writeField(header, 100, 8, octal(0o644, 8));
+  writeField(header, 108, 8, octal(0, 8));
+  writeField(header, 116, 8, octal(0, 8));
+  writeField(header, 124, 12, octal(size, 12));
+  writeField(header, 136, 12, octal(mtime, 12));
+  // The checksum is computed with its own field filled with spaces
+  writeField(header, 148, 8, "        ");
+  writeField(header, 156, 1, "0");
+  writeField(header, 257, 6, "ustar\0");
+  writeField(header, 263, 2, "00");
+
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  writeField(header, 148, 8, checksum.toString(8).padStart(6, "0") + "\0 ");
+  return header;
+}
+
+export function createTarGz(entries: TarEntry[], modifiedAt: Date = new Date()): Buffer {
+  const mtime = Math.floor(modifiedAt.getTime() / 1000);
+  const chunks: Buffer[] = [];
+  for (const entry of entries) {
+    const content = typeof entry.content === "string" ? Buffer.from(entry.content, "utf8") : entry.content;
+    chunks.push(entryHeader(entry.name, content.length, mtime), content);
+    const padding = (BLOCK_SIZE - (content.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding > 0) chunks.push(Buffer.alloc(padding));
+  }
+  // Two zero blocks mark the end of the archive
+  chunks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return gzipSync(Buffer.concat(chunks));
+}
@@ -0,0 +1,61 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Shared contracts for batch evaluation runs: a prompt suite (a compare-prompts.md section or an
+ *          uploaded JSONL file) crossed with a list of model ids, executed server-side with bounded
+ *          concurrency, persisted cell by cell, and pausable/resumable.
+ * SRP/DRY check: Pass - Types only; execution lives in server/services/batch-runner.service.ts.
+ */
+
+export const BATCH_RUN_STATUSES = ['running', 'paused', 'completed', 'failed', 'cancelled'] as const;
+
+export type BatchRunStatus = typeof BATCH_RUN_STATUSES[number];
+
+export const BATCH_ITEM_STATUSES = ['pending', 'running', 'success', 'error'] as const;
+
+export type BatchItemStatus = typeof BATCH_ITEM_STATUSES[number];
+
+export type BatchPromptSource =
+  | { type: 'category'; categoryId: string }
+  | { type: 'jsonl'; fileName?: string };
+
+/** One prompt of the suite; `id` is the template id or the JSONL line's id (or its 1-based line number) */
+export interface BatchPrompt {
+  id: string;
+  prompt: string;
+}
+
+export interface BatchRunProgress {
+  total: number;
+  pending: number;
+  running: number;
+  succeeded: number;
+  failed: number;
+}
+
+export interface BatchRunSummary {
+  id: string;
+  name: string;
+  status: BatchRunStatus;
+  source: BatchPromptSource;
+  modelIds: string[];
+  concurrency: number;
+  progress: BatchRunProgress;
+  /** Sum of provider-reported cost over successful cells, in USD */
+  totalCost: number;
+  creditsUsed: number;
+  /** Why the run stopped early (paused for credits, failed to start, ...) */
+  statusReason: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+/** Per-model roll-up across the suite */
+export interface BatchModelStats {
+  modelId: string;
+  succeeded: number;
+  failed: number;
+  avgResponseTimeMs: number | null;
+  totalCost: number;
+}
@@ -0,0 +1,34 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Shared contract for fact-checking debate turns: the factual claims a checker model pulled out
+ *          of one turn, each quoted verbatim with a reliability rating and a short note. Stored as
+ *          `factCheck` on the turn's entry in `debate_sessions.turn_history`, returned by
+ *          POST /api/debate/session/:id/fact-check, and highlighted inline by DebateMessageCard.
+ * SRP/DRY check: Pass - Types only; checking lives in server/services/debate-fact-check.service.ts.
+ */
+
+/** supported: consistent with well-established sources; unverified: plausible but not checkable; disputed: likely wrong or invented */
+export type DebateClaimRating = 'supported' | 'unverified' | 'disputed';
+
+export const DEBATE_CLAIM_RATINGS: DebateClaimRating[] = ['supported', 'unverified', 'disputed'];
+
+/** statistic: a number, percentage or ranking; citation: attributed to a study, source or person; fact: any other checkable assertion */
+export type DebateClaimKind = 'statistic' | 'citation' | 'fact';
+
+export interface DebateFactCheckClaim {
+  /** Exact text from the turn, so clients can highlight it in place */
+  quote: string;
+  kind: DebateClaimKind;
+  rating: DebateClaimRating;
+  /** Why the checker rated it so, in one or two sentences */
+  note: string;
+}
+
+export interface DebateTurnFactCheck {
+  checkerModelId: string;
+  claims: DebateFactCheckClaim[];
+  disputedCount: number;
+  cost: { input: number; output: number; reasoning?: number; total: number } | null;
+  checkedAt: string;
+}
@@ -0,0 +1,177 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Debate-format engine. A format (Lincoln-Douglas, Oxford, parliamentary, ...) is a list of named
+ *          phases with optional time or token limits; speech phases give the floor to sides or seats, and
+ *          cross-examination phases alternate a questioner and a respondent. Formats are parsed from the
+ *          "Debate Formats" section of debate-prompts.md (see debate-instructions.ts) and expanded here
+ *          into a turn plan that both the server prompt builder and the debate stage timeline follow.
+ * SRP/DRY check: Pass - Format types and turn planning only; markdown parsing stays in debate-instructions.ts
+ *                and seat resolution in debate-participants.ts.
+ */
+
+import {
+  DEBATE_POSITION_AGAINST,
+  DEBATE_POSITION_FOR,
+  resolveDebateParticipants,
+  resolveSpeakingOrder,
+  speakerForTurn,
+  type DebateParticipant,
+  type DebateParticipantSource,
+} from "./debate-participants.ts";
+
+/** Speaking rate used to turn a phase's time limit into a word budget for the prompt */
+export const DEBATE_WORDS_PER_MINUTE = 150;
+
+export type DebateFormatPhaseKind = "speech" | "cross-examination";
+
+/** What a seat does on one turn of a format */
+export type DebateTurnAction = "speech" | "question" | "answer";
+
+export interface DebateFormatPhase {
+  id: string;
+  name: string;
+  kind: DebateFormatPhaseKind;
+  description: string;
+  /**
+   * Speech phases: who holds the floor, in order. Each entry is "all" (every seat in speaking order),
+   * "affirmative"/"negative" (every seat on that side), "affirmative:2" (the side's second seat) or a seat id.
+   */
+  speakers: string[];
+  /** Speech phases: how many times the speaker list repeats */
+  rounds: number;
+  /** Cross-examination phases: the asking and answering side or seat */
+  questioner: string | null;
+  respondent: string | null;
+  /** Cross-examination phases: question-and-answer pairs */
+  exchanges: number;
+  timeLimitSeconds: number | null;
+  maxTokens: number | null;
+  /** Speech instruction, or the question instruction in a cross-examination */
+  instruction: string;
+  /** Cross-examination only: instruction for the respondent's answer */
+  answerInstruction: string;
+}
+
+export interface DebateFormat {
+  id: string;
+  name: string;
+  summary: string;
+  phases: DebateFormatPhase[];
+}
+
+export interface DebateTurnSlot {
+  /** 1-based turn number */
+  turn: number;
+  phaseIndex: number;
+  phase: DebateFormatPhase;
+  action: DebateTurnAction;
+  participantId: string;
+  /** The other seat in a cross-examination exchange; null for speeches */
+  counterpartId: string | null;
+}
+
+export function findDebateFormat(formats: DebateFormat[] | null | undefined, formatId: string | null | undefined): DebateFormat | null {
+  if (!formats || !formatId) {
+    return null;
+  }
+  return formats.find(format => format.id === formatId) ?? null;
+}
+
+/** Seats a phase token names, in speaking order; unknown tokens resolve to no seats */
+function seatsForToken(source: DebateParticipantSource, token: string): DebateParticipant[] {
+  const participants = resolveDebateParticipants(source);
+  const ordered = resolveSpeakingOrder(source)
+    .map(id => participants.find(participant => participant.id === id))
+    .filter((participant): participant is DebateParticipant => Boolean(participant));
+
+  const [name, ordinal] = token.trim().toLowerCase().split(":");
+  if (name === "all") {
+    return ordered;
+  }
+
+  let seats: DebateParticipant[];
+  if (name === "affirmative" || name === "negative") {
+    const anchor = participants[name === "affirmative" ? 0 : 1];
+    seats = ordered.filter(participant => participant.id === anchor.id || (anchor.team !== null && participant.team === anchor.team));
+  } else {
+    seats = ordered.filter(participant => participant.id.toLowerCase() === name);
+  }
+
+  if (ordinal && seats.length > 0) {
+    const index = Math.max(1, Number.parseInt(ordinal, 10) || 1) - 1;
+    return [seats[index % seats.length]];
+  }
+  return seats;
+}
+
+/** Expands a format into one slot per turn for the given seats */
+export function buildDebateTurnPlan(format: DebateFormat, source: DebateParticipantSource): DebateTurnSlot[] {
+  const plan: DebateTurnSlot[] = [];
+  const push = (slot: Omit<DebateTurnSlot, "turn">) => plan.push({ turn: plan.length + 1, ...slot });
+
+  format.phases.forEach((phase, phaseIndex) => {
+    if (phase.kind === "cross-examination") {
+      const askers = seatsForToken(source, phase.questioner ?? "negative");
+      const answerers = seatsForToken(source, phase.respondent ?? "affirmative");
+      if (askers.length === 0 || answerers.length === 0) {
+        return;
+      }
+      for (let exchange = 0; exchange < phase.exchanges; exchange++) {
+        const asker = askers[exchange % askers.length];
+        const answerer = answerers[exchange % answerers.length];
+        push({ phaseIndex, phase, action: "question", participantId: asker.id, counterpartId: answerer.id });
+        push({ phaseIndex, phase, action: "answer", participantId: answerer.id, counterpartId: asker.id });
+      }
+      return;
+    }
+
+    for (let round = 0; round < phase.rounds; round++) {
+      phase.speakers
+        .flatMap(token => seatsForToken(source, token))
+        .forEach(speaker => push({ phaseIndex, phase, action: "speech", participantId: speaker.id, counterpartId: null }));
+    }
+  });
+
+  return plan;
+}
+
+/** Slot for a 1-based turn, or null once the format is over */
+export function debateTurnSlot(plan: DebateTurnSlot[] | null | undefined, turn: number): DebateTurnSlot | null {
+  return plan?.[turn - 1] ?? null;
+}
+
+/** Speaker for a turn: the format's slot when there is a plan, otherwise the round-robin speaking order */
+export function speakerForFormatTurn(
+  source: DebateParticipantSource,
+  plan: DebateTurnSlot[] | null | undefined,
+  turn: number
+): DebateParticipant {
+  const slot = debateTurnSlot(plan, turn);
+  const participants = resolveDebateParticipants(source);
+  return (slot && participants.find(participant => participant.id === slot.participantId)) ?? speakerForTurn(source, turn);
+}
+
+export function describePhaseLimit(phase: DebateFormatPhase): string | null {
+  const parts: string[] = [];
+  if (phase.timeLimitSeconds) {
+    const minutes = phase.timeLimitSeconds / 60;
+    const words = Math.round(minutes * DEBATE_WORDS_PER_MINUTE);
+    parts.push(`${Number.isInteger(minutes) ? minutes : minutes.toFixed(1)} min (about ${words} words)`);
+  }
+  if (phase.maxTokens) {
+    parts.push(`${phase.maxTokens} tokens`);
+  }
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+/** Phrase for what a seat argues, e.g. `the proposition "X" should be adopted` */
+export function describeStance(topic: string, position: string): string {
+  if (position === DEBATE_POSITION_FOR) {
+    return `the proposition "${topic}" should be adopted`;
+  }
+  if (position === DEBATE_POSITION_AGAINST) {
+    return `the proposition "${topic}" should be rejected`;
+  }
+  return `your assigned position on "${topic}": ${position}`;
+}
@@ -3,17 +3,26 @@
  * Date: 2025-10-19 00:00 UTC
  * PURPOSE: Expose reusable debate prompt parsing utilities so both client and
  *          server can derive base templates, intensity descriptors, and topic
- *          metadata from the canonical markdown source.
+ *          metadata from the canonical markdown source. Parsed topics (with
+ *          tags and difficulty) seed the server's persisted topic catalog.
  * SRP/DRY check: Pass - Dedicated to parsing debate instructions without mixing
  *                transport or storage responsibilities.
  */
 
 import { replaceTemplatePlaceholders } from "./template-tokens.ts";
+import type { DebateFormat, DebateFormatPhase } from "./debate-formats.ts";
+import {
+  DEBATE_TOPIC_DIFFICULTIES,
+  normalizeDebateTopicTags,
+  type DebateTopicDifficulty,
+} from "./debate-topic-types.ts";
 
 export interface DebateTopic {
   id: string;
   title: string;
   proposition: string;
+  tags?: string[];
+  difficulty?: DebateTopicDifficulty;
 }
 
 export interface DebateFlowTemplates {
@@ -36,6 +45,7 @@ export interface DebateInstructions {
   intensities: Record<number, DebateIntensityDescriptor>;
   topics: DebateTopic[];
   templates: DebateFlowTemplates;
+  formats: DebateFormat[];
 }
 
 function splitLines(markdown: string): string[] {
@@ -107,10 +117,17 @@ function parseIntensityDescriptor(lines: string[], level: number): DebateIntensi
   };
 }
 
+/**
+ * Topics under "## Debate Topics": a "### N. Title" heading, a **Proposition:** line, then optional
+ * **Difficulty:** and **Tags:** bullets. The list number is dropped from the title; repeated titles get
+ * numbered ids so each topic stays addressable.
+ */
 function parseTopics(lines: string[]): DebateTopic[] {
   const topics: DebateTopic[] = [];
   let inTopicsSection = false;
   let currentTitle: string | null = null;
+  let currentTopic: DebateTopic | null = null;
+  const titleCounts = new Map<string, number>();
 
   for (let i = 0; i < lines.length; i++) {
     const trimmed = lines[i].trim();
@@ -127,7 +144,8 @@ function parseTopics(lines: string[]): DebateTopic[] {
     }
 
     if (trimmed.startsWith("### ")) {
-      currentTitle = trimmed.substring(4).trim();
+      currentTitle = trimmed.substring(4).trim().replace(/^\d+\.\s*/, "");
+      currentTopic = null;
       continue;
     }
 
@@ -136,9 +154,23 @@ function parseTopics(lines: string[]): DebateTopic[] {
         .replace("**Proposition:**", "")
         .trim()
         .replace(/^"|"$/g, "");
-      const id = currentTitle.toLowerCase().replace(/[^a-z0-9]/g, "-");
-      topics.push({ id, title: currentTitle, proposition });
+      const baseId = slugify(currentTitle);
+      const count = (titleCounts.get(baseId) ?? 0) + 1;
+      titleCounts.set(baseId, count);
+      currentTopic = { id: count > 1 ? `${baseId}-${count}` : baseId, title: currentTitle, proposition };
+      topics.push(currentTopic);
       currentTitle = null;
+      continue;
+    }
+
+    const field = currentTopic ? trimmed.match(/^-\s+\*\*(Difficulty|Tags):\*\*\s*(.*)$/i) : null;
+    if (currentTopic && field) {
+      const value = field[2].trim();
+      if (field[1].toLowerCase() === "tags") {
+        currentTopic.tags = normalizeDebateTopicTags(value.split(","));
+      } else {
+        currentTopic.difficulty = DEBATE_TOPIC_DIFFICULTIES.find(level => level === value.toLowerCase());
+      }
     }
   }
 
@@ -164,6 +196,155 @@ function parseFlowTemplates(lines: string[]): DebateFlowTemplates {
   return templates;
 }
 
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+function parsePositiveInt(value: string): number | null {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+function parseTimeLimit(value: string): number | null {
+  const match = value.match(/^(\d+(?:\.\d+)?)\s*(s|sec|secs|seconds?|m|min|mins|minutes?)?$/i);
+  if (!match) {
+    return null;
+  }
+  const amount = Number.parseFloat(match[1]);
+  const unit = (match[2] ?? "min").toLowerCase();
+  return Math.round(unit.startsWith("s") ? amount : amount * 60);
+}
+
+function createPhase(name: string): DebateFormatPhase {
+  return {
+    id: slugify(name),
+    name,
+    kind: "speech",
+    description: "",
+    speakers: ["all"],
+    rounds: 1,
+    questioner: null,
+    respondent: null,
+    exchanges: 1,
+    timeLimitSeconds: null,
+    maxTokens: null,
+    instruction: "",
+    answerInstruction: "",
+  };
+}
+
+function applyPhaseField(phase: DebateFormatPhase, field: string, value: string): void {
+  switch (field) {
+    case "kind":
+      phase.kind = /^cross/i.test(value) ? "cross-examination" : "speech";
+      break;
+    case "speakers":
+      phase.speakers = value.split(",").map(token => token.trim()).filter(Boolean);
+      break;
+    case "rounds":
+      phase.rounds = parsePositiveInt(value) ?? 1;
+      break;
+    case "questioner":
+      phase.questioner = value || null;
+      break;
+    case "respondent":
+      phase.respondent = value || null;
+      break;
+    case "exchanges":
+      phase.exchanges = parsePositiveInt(value) ?? 1;
+      break;
+    case "time limit":
+      phase.timeLimitSeconds = parseTimeLimit(value);
+      break;
+    case "max tokens":
+      phase.maxTokens = parsePositiveInt(value);
+      break;
+    case "description":
+      phase.description = value;
+      break;
+  }
+}
+
+/**
+ * Parses the "Debate Formats" section: each `### Name` is a format with `**Id:**` and `**Summary:**`
+ * lines, each `#### Phase: Name` a phase with `- **Field:** value` bullets and fenced instructions
+ * labelled `**Instruction:**` and (for cross-examination) `**Answer instruction:**`.
+ */
+function parseDebateFormats(lines: string[]): DebateFormat[] {
+  const formats: DebateFormat[] = [];
+  let inFormatsSection = false;
+  let format: DebateFormat | null = null;
+  let phase: DebateFormatPhase | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+
+    if (!inFormatsSection) {
+      if (/^##\s+Debate\s+Formats/i.test(trimmed)) {
+        inFormatsSection = true;
+      }
+      continue;
+    }
+
+    if (/^(##\s|---$)/.test(trimmed)) {
+      break;
+    }
+
+    if (trimmed.startsWith("```") || trimmed.startsWith("~~~")) {
+      while (i + 1 < lines.length && !/^(```|~~~)/.test(lines[i + 1].trim())) {
+        i++;
+      }
+      i++;
+      continue;
+    }
+
+    const phaseMatch = trimmed.match(/^####\s+Phase:\s*(.+)$/i);
+    if (phaseMatch && format) {
+      phase = createPhase(phaseMatch[1].trim());
+      format.phases.push(phase);
+      continue;
+    }
+
+    if (trimmed.startsWith("### ")) {
+      const name = trimmed.substring(4).trim();
+      format = { id: slugify(name), name, summary: "", phases: [] };
+      formats.push(format);
+      phase = null;
+      continue;
+    }
+
+    if (!format) {
+      continue;
+    }
+
+    const labelMatch = trimmed.match(/^(?:-\s+)?\*\*([^*]+?):\*\*\s*(.*)$/);
+    if (!labelMatch) {
+      continue;
+    }
+    const field = labelMatch[1].trim().toLowerCase();
+    const value = labelMatch[2].trim();
+
+    if (!phase) {
+      if (field === "id" && value) {
+        format.id = slugify(value);
+      } else if (field === "summary") {
+        format.summary = value;
+      }
+      continue;
+    }
+
+    if (field === "instruction") {
+      phase.instruction = collectCodeFence(lines, i + 1);
+    } else if (field === "answer instruction") {
+      phase.answerInstruction = collectCodeFence(lines, i + 1);
+    } else {
+      applyPhaseField(phase, field, value);
+    }
+  }
+
+  return formats.filter(entry => entry.phases.length > 0);
+}
+
 export function extractDebateInstructions(markdown: string): DebateInstructions {
   const lines = splitLines(markdown);
 
@@ -183,6 +364,7 @@ export function extractDebateInstructions(markdown: string): DebateInstructions
     intensities,
     topics: parseTopics(lines),
     templates: parseFlowTemplates(lines),
+    formats: parseDebateFormats(lines),
   };
 }
 
@@ -0,0 +1,138 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Participant model for debates with two or more debaters. Each seat has a model, an assigned
+ *          position ("FOR", "AGAINST" or free text for panel and multi-way policy debates) and an
+ *          optional team; a speaking order of seat ids repeats round-robin across turns. Legacy
+ *          sessions that only carry model1Id/model2Id resolve to the classic Affirmative/Negative pair.
+ *          A seat whose model is DEBATE_HUMAN_MODEL_ID is played by a person typing their arguments.
+ * SRP/DRY check: Pass - One definition of seats and turn order shared by debate.routes.ts, storage,
+ *                the adjudicator and the debate page.
+ */
+
+export const DEBATE_MIN_PARTICIPANTS = 2;
+export const DEBATE_MAX_PARTICIPANTS = 6;
+
+/** Model id of a seat played by a person instead of a model */
+export const DEBATE_HUMAN_MODEL_ID = 'human';
+/** Longest argument a human seat may submit for one turn */
+export const DEBATE_HUMAN_TURN_MAX_CHARS = 8000;
+
+export const DEBATE_POSITION_FOR = 'FOR';
+export const DEBATE_POSITION_AGAINST = 'AGAINST';
+
+export interface DebateParticipant {
+  /** Stable seat id ("p1", "p2", ...); turn records and response chains are keyed by it */
+  id: string;
+  modelId: string;
+  /** Display role, e.g. "Affirmative", "Negative" or "Panelist 3" */
+  label: string;
+  /** "FOR", "AGAINST" or a free-text stance such as "Adopt a carbon tax" */
+  position: string;
+  /** Seats on the same team argue together; null for a seat arguing alone */
+  team: string | null;
+}
+
+/** Session fields the resolvers read; matches both `debate_sessions` rows and API payloads */
+export interface DebateParticipantSource {
+  model1Id: string;
+  model2Id: string;
+  participants?: DebateParticipant[] | null;
+  speakingOrder?: string[] | null;
+}
+
+export function defaultDebateParticipants(model1Id: string, model2Id: string): DebateParticipant[] {
+  return [
+    { id: 'p1', modelId: model1Id, label: 'Affirmative', position: DEBATE_POSITION_FOR, team: 'Affirmative' },
+    { id: 'p2', modelId: model2Id, label: 'Negative', position: DEBATE_POSITION_AGAINST, team: 'Negative' },
+  ];
+}
+
+export function resolveDebateParticipants(source: DebateParticipantSource): DebateParticipant[] {
+  return source.participants && source.participants.length >= DEBATE_MIN_PARTICIPANTS
+    ? source.participants
+    : defaultDebateParticipants(source.model1Id, source.model2Id);
+}
+
+export function isHumanParticipant(participant: Pick<DebateParticipant, 'modelId'>): boolean {
+  return participant.modelId === DEBATE_HUMAN_MODEL_ID;
+}
+
+/** Seat ids in speaking order; unknown ids are dropped and missing seats appended in seat order */
+export function resolveSpeakingOrder(source: DebateParticipantSource): string[] {
+  const participants = resolveDebateParticipants(source);
+  const seatIds = participants.map(participant => participant.id);
+  const ordered = (source.speakingOrder ?? []).filter((id, index, all) => seatIds.includes(id) && all.indexOf(id) === index);
+  return [...ordered, ...seatIds.filter(id => !ordered.includes(id))];
+}
+
+/** Participant who speaks on a 1-based turn number */
+export function speakerForTurn(source: DebateParticipantSource, turn: number): DebateParticipant {
+  const participants = resolveDebateParticipants(source);
+  const order = resolveSpeakingOrder(source);
+  const seatId = order[(Math.max(1, Math.floor(turn)) - 1) % order.length];
+  return participants.find(participant => participant.id === seatId) ?? participants[0];
+}
+
+/** Teammates of a participant, excluding the participant itself */
+export function debateTeammates(participants: DebateParticipant[], participant: DebateParticipant): DebateParticipant[] {
+  if (!participant.team) {
+    return [];
+  }
+  return participants.filter(other => other.id !== participant.id && other.team === participant.team);
+}
+
+/**
+ * Fills in seat ids, labels, positions and teams for participants supplied by a client. The first two
+ * seats default to the Affirmative/Negative teams; seats without a position take their team's, and a
+ * later seat with neither keeps an empty position.
+ */
+export function normalizeDebateParticipants(
+  input: Array<{ id?: string; modelId: string; label?: string; position?: string; team?: string | null }>
+): DebateParticipant[] {
+  const seats = input.map((entry, index) => {
+    const defaults = index === 0
+      ? { label: 'Affirmative', position: DEBATE_POSITION_FOR, team: 'Affirmative' }
+      : index === 1
+        ? { label: 'Negative', position: DEBATE_POSITION_AGAINST, team: 'Negative' }
+        : { label: `Panelist ${index + 1}`, position: '', team: null };
+    const stated = entry.position?.trim() ?? '';
+    const upper = stated.toUpperCase();
+    return {
+      id: entry.id?.trim() || `p${index + 1}`,
+      modelId: entry.modelId,
+      label: entry.label?.trim() || defaults.label,
+      position: upper === DEBATE_POSITION_FOR || upper === DEBATE_POSITION_AGAINST ? upper : stated,
+      team: entry.team === undefined ? defaults.team : entry.team?.trim() || null,
+      defaultPosition: defaults.position,
+    };
+  });
+
+  return seats.map(({ defaultPosition, ...seat }) => {
+    const teammate = seat.team
+      ? seats.find(other => other.team === seat.team && (other.position || other.defaultPosition))
+      : undefined;
+    const teamPosition = teammate ? teammate.position || teammate.defaultPosition : undefined;
+    return { ...seat, position: seat.position || teamPosition || defaultPosition };
+  });
+}
+
+/** Session fields holding previous_response_id chains, per seat and (for legacy rows) per model slot */
+export interface DebateResponseChainSource extends DebateParticipantSource {
+  model1ResponseIds?: unknown;
+  model2ResponseIds?: unknown;
+  participantResponseIds?: Record<string, string[]> | null;
+}
+
+/** Response id chain per seat; legacy rows without per-seat chains map model1/model2 ids onto the first two seats */
+export function resolveParticipantResponseIds(source: DebateResponseChainSource): Record<string, string[]> {
+  if (source.participantResponseIds) {
+    return source.participantResponseIds;
+  }
+  const participants = resolveDebateParticipants(source);
+  const asIds = (value: unknown) => (Array.isArray(value) ? value as string[] : []);
+  return {
+    [participants[0].id]: asIds(source.model1ResponseIds),
+    [participants[1].id]: asIds(source.model2ResponseIds),
+  };
+}
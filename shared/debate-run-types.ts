@@ -0,0 +1,45 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Shared contracts for server-driven debate runs: the server plays every turn of a
+ *          `debate_sessions` row in the background, persisting each one as it finishes, so a debate keeps
+ *          going after the browser tab closes and clients can attach to its live event stream later.
+ * SRP/DRY check: Pass - Types only; execution lives in server/services/debate-orchestrator.service.ts.
+ */
+
+export const DEBATE_RUN_STATUSES = ["running", "stopped", "completed", "failed"] as const;
+
+export type DebateRunStatus = typeof DEBATE_RUN_STATUSES[number];
+
+/** Per-seat model settings for server-played turns, as the debate page's seat config holds them; omitted fields use the interactive defaults */
+export interface DebateRunSeatSettings {
+  reasoningEffort?: "minimal" | "low" | "medium" | "high";
+  reasoningSummary?: "auto" | "detailed" | "concise";
+  reasoningVerbosity?: "low" | "medium" | "high";
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/** Stored on the session's `auto_run` column; null for sessions driven from the browser */
+export interface DebateAutoRun {
+  status: DebateRunStatus;
+  /** Turn number the run stops after (the format's last turn, or the requested count) */
+  targetTurns: number;
+  ownerId: string | null;
+  seatSettings: Record<string, DebateRunSeatSettings>;
+  creditsUsed: number;
+  /** Why the run stopped early (stopped by the owner, out of credits, a failed turn, ...) */
+  statusReason: string | null;
+  startedAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+export interface DebateRunSummary extends DebateAutoRun {
+  sessionId: string;
+  turnsCompleted: number;
+  /** Turn being played right now, or null between turns and once the run is over */
+  currentTurn: number | null;
+  /** True while this server process is executing the run */
+  live: boolean;
+}
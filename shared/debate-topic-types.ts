@@ -0,0 +1,45 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Shared contract for the persisted debate topic catalog: difficulty levels, where a topic came
+ *          from (seeded from the Debate Topics section of debate-prompts.md, or submitted by a user), tag
+ *          limits, and the JSON shape served by /api/debate/topics.
+ * SRP/DRY check: Pass - Types and constants only; the catalog lives in server/services/debate-topic.service.ts.
+ */
+
+export const DEBATE_TOPIC_DIFFICULTIES = ['introductory', 'intermediate', 'advanced'] as const;
+
+export type DebateTopicDifficulty = typeof DEBATE_TOPIC_DIFFICULTIES[number];
+
+export const DEFAULT_DEBATE_TOPIC_DIFFICULTY: DebateTopicDifficulty = 'intermediate';
+
+/** seed: parsed from debate-prompts.md and read-only through the API; custom: submitted by a device */
+export const DEBATE_TOPIC_SOURCES = ['seed', 'custom'] as const;
+
+export type DebateTopicSource = typeof DEBATE_TOPIC_SOURCES[number];
+
+export const DEBATE_TOPIC_MAX_TAGS = 8;
+
+/** Tags are stored lowercased and trimmed, without duplicates */
+export function normalizeDebateTopicTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+}
+
+export interface DebateTopicEntry {
+  id: string;
+  title: string;
+  proposition: string;
+  tags: string[];
+  difficulty: DebateTopicDifficulty;
+  source: DebateTopicSource;
+  /** Device user that submitted a custom topic; null for seed topics */
+  ownerId: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+/** GET /api/debate/topics: the matching topics plus every tag in the catalog, for filters */
+export interface DebateTopicCatalog {
+  topics: DebateTopicEntry[];
+  tags: string[];
+}
@@ -0,0 +1,73 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Shared contract for judge-model adjudication of a finished debate: per-turn argument scores,
+ *          the strongest and weakest points the judge cited, and the winner. Stored on the
+ *          `debate_sessions.verdict` column and returned by POST /api/debate/session/:id/adjudicate
+ *          and GET /api/debate/session/:id. Two-sided debates keep the affirmative/negative side ids;
+ *          panels with more sides get one side per team or position, listed in `sides`.
+ * SRP/DRY check: Pass - Types and side labelling only; adjudication lives in
+ *                server/services/debate-adjudicator.service.ts.
+ */
+
+export const DEBATE_ARGUMENT_SCORE_MIN = 1;
+export const DEBATE_ARGUMENT_SCORE_MAX = 10;
+
+/**
+ * Side id. Two sides are 'affirmative' (holding the first seat) and 'negative'; a panel with more
+ * sides numbers them 'side-1', 'side-2', ... in seat order. Seats join a side by team or position.
+ */
+export type DebateSide = string;
+
+export interface DebateVerdictSide {
+  id: DebateSide;
+  /** "Affirmative", a team name, or the seat label of a panelist arguing alone */
+  label: string;
+  /** Stance the side argued, e.g. "FOR" or a free-text policy position */
+  position: string;
+  modelIds: string[];
+}
+
+export interface DebateTurnScore {
+  turn: number;
+  modelId: string;
+  side: DebateSide;
+  /** DEBATE_ARGUMENT_SCORE_MIN..DEBATE_ARGUMENT_SCORE_MAX */
+  score: number;
+  comment: string;
+}
+
+export interface DebateCitedPoint {
+  side: DebateSide;
+  modelId: string;
+  /** Turn the point was made in, null when the judge did not tie it to one turn */
+  turn: number | null;
+  point: string;
+}
+
+export interface DebateVerdict {
+  judgeModelId: string;
+  /** 'tie' when the judge could not separate the sides */
+  winner: DebateSide | 'tie';
+  /** Null on a tie */
+  winnerModelId: string | null;
+  turnScores: DebateTurnScore[];
+  /** Every side, in seat order; absent on verdicts stored before panels could be adjudicated */
+  sides?: DebateVerdictSide[];
+  /** Mean turn score per side id, computed server-side */
+  sideAverages: Record<DebateSide, number>;
+  strongestPoints: DebateCitedPoint[];
+  weakestPoints: DebateCitedPoint[];
+  summary: string;
+  cost: { input: number; output: number; reasoning?: number; total: number } | null;
+  createdAt: string;
+}
+
+/** Display label of a side, falling back to Affirmative/Negative for verdicts without `sides` */
+export function debateSideLabel(verdict: Pick<DebateVerdict, 'sides'>, side: DebateSide): string {
+  const label = verdict.sides?.find(entry => entry.id === side)?.label;
+  if (label) return label;
+  if (side === 'affirmative') return 'Affirmative';
+  if (side === 'negative') return 'Negative';
+  return side;
+}
@@ -0,0 +1,239 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Document-template engine behind the section assembly line. A template is a markdown file whose
+ *          prompts sit between <!-- SECTION_START:id ... --> and <!-- SECTION_END:id --> markers; attributes
+ *          on the start marker declare the section's name, the sections it depends on, whether the document
+ *          needs it, and an alias its output is also quoted as. `helper` blocks are prompts that write a
+ *          variable rather than a section. <!-- DOCUMENT ... --> names the template and <!-- VARIABLE:Name ... -->
+ *          declares the inputs it asks for, with defaults and helpers that fill them in when left blank.
+ *          Vixra papers, grant proposals, RFCs and literature reviews all run on the same DAG helpers here.
+ * SRP/DRY check: Pass - Parsing, DAG and substitution only; templates are loaded by
+ *                server/services/document-template.service.ts and run by the Vixra pipeline service.
+ */
+
+export interface DocumentTemplateVariable {
+  name: string;
+  label: string;
+  required: boolean;
+  /** Used when the value is left blank; may quote other variables as {Name} */
+  defaultValue?: string;
+  /** Helper prompt that writes the value when it is left blank, before the default applies */
+  generate?: string;
+  /** Choices the form offers; free text is still accepted */
+  options?: string[];
+}
+
+export interface DocumentTemplateSection {
+  id: string;
+  name: string;
+  /** Sections declared above this one whose outputs its prompt quotes */
+  dependencies: string[];
+  /** A run only fails when a required section cannot be generated */
+  required: boolean;
+  /** Extra placeholder dependents quote this section's output as, e.g. {Abstract} */
+  alias?: string;
+}
+
+export interface DocumentTemplateSummary {
+  id: string;
+  name: string;
+  description: string;
+  /** What an editor (or judge model) would call one of these documents */
+  kind: string;
+  sectionCount: number;
+}
+
+export interface DocumentTemplate extends Omit<DocumentTemplateSummary, 'sectionCount'> {
+  variables: DocumentTemplateVariable[];
+  /** Document sections in file order, which is a topological order of their dependencies */
+  sections: DocumentTemplateSection[];
+  /** Prompt of every section and helper block by id */
+  prompts: Record<string, string>;
+}
+
+/** The parts of a template the DAG helpers need; VIXRA_SECTIONS satisfies it too */
+export interface DocumentSectionGraph {
+  sections: ReadonlyArray<{ id: string; dependencies: readonly string[]; alias?: string }>;
+}
+
+const DOCUMENT_MARKER = /<!-- DOCUMENT\b([^>]*?)-->/;
+const VARIABLE_MARKER = /<!-- VARIABLE:(\w+)\b([^>]*?)-->/g;
+const SECTION_BLOCK = /<!-- SECTION_START:([\w-]+)\b([^>]*?)-->([\s\S]*?)<!-- SECTION_END:\1 -->/g;
+const ATTRIBUTE = /([\w-]+)(?:="([^"]*)")?/g;
+
+/** `name="Intro" required depends="a,b"` -> { name: 'Intro', required: '', depends: 'a,b' } */
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    attributes[match[1]] = match[2] ?? '';
+  }
+  return attributes;
+}
+
+function listAttribute(value: string | undefined): string[] {
+  return (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function titleCase(id: string): string {
+  return id.split(/[-_]/).filter(Boolean).map(word => word[0].toUpperCase() + word.slice(1)).join(' ');
+}
+
+/**
+ * Reads a template file. Sections may only depend on sections declared above them, so file order is
+ * always a valid generation order; unknown or forward dependencies and duplicate ids throw.
+ */
+export function parseDocumentTemplate(markdownContent: string, fallbackId: string): DocumentTemplate {
+  const document = parseAttributes(markdownContent.match(DOCUMENT_MARKER)?.[1] ?? '');
+
+  const variables: DocumentTemplateVariable[] = [];
+  for (const match of markdownContent.matchAll(VARIABLE_MARKER)) {
+    const attributes = parseAttributes(match[2]);
+    const options = listAttribute(attributes.options);
+    variables.push({
+      name: match[1],
+      label: attributes.label || titleCase(match[1]),
+      required: 'required' in attributes,
+      ...(attributes.default !== undefined ? { defaultValue: attributes.default } : {}),
+      ...(attributes.generate ? { generate: attributes.generate } : {}),
+      ...(options.length > 0 ? { options } : {}),
+    });
+  }
+
+  const sections: DocumentTemplateSection[] = [];
+  const prompts: Record<string, string> = {};
+  for (const match of markdownContent.matchAll(SECTION_BLOCK)) {
+    const [, id, attributeSource, content] = match;
+    if (prompts[id] !== undefined) {
+      throw new Error(`Template ${fallbackId} declares "${id}" twice`);
+    }
+    prompts[id] = content.trim();
+    const attributes = parseAttributes(attributeSource);
+    if ('helper' in attributes) continue;
+
+    const dependencies = listAttribute(attributes.depends);
+    const undeclared = dependencies.find(dep => !sections.some(section => section.id === dep));
+    if (undeclared) {
+      throw new Error(`Section "${id}" of template ${fallbackId} depends on "${undeclared}", which is not a section declared above it`);
+    }
+    sections.push({
+      id,
+      name: attributes.name || titleCase(id),
+      dependencies,
+      required: 'required' in attributes,
+      ...(attributes.alias ? { alias: attributes.alias } : {}),
+    });
+  }
+
+  const missingHelper = variables.find(variable => variable.generate && prompts[variable.generate] === undefined);
+  if (missingHelper) {
+    throw new Error(`Variable ${missingHelper.name} of template ${fallbackId} is generated by a missing "${missingHelper.generate}" block`);
+  }
+
+  return {
+    id: document.id || fallbackId,
+    name: document.name || titleCase(fallbackId),
+    description: document.description ?? '',
+    kind: document.kind || 'document',
+    variables,
+    sections,
+    prompts,
+  };
+}
+
+export function summarizeDocumentTemplate(template: DocumentTemplate): DocumentTemplateSummary {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    kind: template.kind,
+    sectionCount: template.sections.length,
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Replaces every {Key} with its value; blank values substitute as empty text */
+export function substituteTemplateVariables(template: string, variables: Record<string, string | undefined>): string {
+  let result = template;
+  for (const [key, value] of Object.entries(variables)) {
+    if (!key) continue;
+    const replacement = typeof value === 'string' && value.trim().length > 0 ? value : '';
+    result = result.replace(new RegExp(`\\{${escapeRegExp(key)}\\}`, 'g'), replacement);
+  }
+  return result;
+}
+
+export function getTemplateSection<T extends DocumentSectionGraph>(graph: T, sectionId: string): T['sections'][number] | undefined {
+  return graph.sections.find(section => section.id === sectionId);
+}
+
+/** Sections not yet done (nor in `excluded`) whose dependencies are all completed, in document order */
+export function getReadySections(graph: DocumentSectionGraph, completed: readonly string[], excluded: readonly string[] = []): string[] {
+  return graph.sections
+    .filter(section => !completed.includes(section.id) && !excluded.includes(section.id))
+    .filter(section => section.dependencies.every(dep => completed.includes(dep)))
+    .map(section => section.id);
+}
+
+/** Every section built on `sectionId`, directly or through other sections, in document order */
+export function getDependentSections(graph: DocumentSectionGraph, sectionId: string): string[] {
+  const affected = new Set<string>([sectionId]);
+  // Document order is a topological order of the DAG, so one pass reaches every transitive dependent
+  for (const section of graph.sections) {
+    if (section.dependencies.some(dep => affected.has(dep))) {
+      affected.add(section.id);
+    }
+  }
+  return graph.sections.filter(section => section.id !== sectionId && affected.has(section.id)).map(section => section.id);
+}
+
+/**
+ * Successful sections that a dependency outdates: the dependency was completed after them (it was
+ * regenerated or swapped), or is itself stale. Document order.
+ */
+export function getStaleSections(
+  graph: DocumentSectionGraph,
+  responses: Record<string, { status: string; completedAt?: string } | undefined>,
+): string[] {
+  const stale = new Set<string>();
+  for (const section of graph.sections) {
+    const own = responses[section.id];
+    if (own?.status !== 'success' || !own.completedAt) continue;
+    const completedAt = own.completedAt;
+    const outdated = section.dependencies.some(dep => (
+      stale.has(dep) || (responses[dep]?.status === 'success' && (responses[dep]?.completedAt ?? '') > completedAt)
+    ));
+    if (outdated) stale.add(section.id);
+  }
+  return graph.sections.filter(section => stale.has(section.id)).map(section => section.id);
+}
+
+/**
+ * Document variables plus the dependency outputs a section's prompt refers to: each as {depId}, a lone
+ * dependency also as {response}, and aliased ones under their alias. For ensembles pass only the winners.
+ */
+export function buildSectionVariables(
+  graph: DocumentSectionGraph,
+  sectionId: string,
+  variables: Record<string, string>,
+  outputs: Record<string, string | undefined>,
+): Record<string, string> {
+  const result: Record<string, string> = { ...variables };
+  const dependencies = getTemplateSection(graph, sectionId)?.dependencies ?? [];
+  for (const depId of dependencies) {
+    const content = outputs[depId];
+    if (!content) continue;
+    result[depId] = content;
+    if (dependencies.length === 1) {
+      result.response = content;
+    }
+    const alias = getTemplateSection(graph, depId)?.alias;
+    if (alias) {
+      result[alias] = content;
+    }
+  }
+  return result;
+}
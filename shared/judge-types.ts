@@ -0,0 +1,55 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Shared contracts for LLM-judged comparisons: the rubric sent to the judge model, the
+ *          per-model scores and rationale it returns, and the ranking persisted alongside a
+ *          `comparisons` row and surfaced by GET /api/models/comparisons/:id.
+ * SRP/DRY check: Pass - Types only; judging logic lives in server/services/judge.service.ts.
+ */
+
+export interface JudgeCriterion {
+  id: string;
+  label: string;
+  description: string;
+  /** Relative weight when folding criterion scores into the overall score */
+  weight: number;
+}
+
+export const JUDGE_SCORE_MIN = 1;
+export const JUDGE_SCORE_MAX = 10;
+
+export const DEFAULT_JUDGE_RUBRIC: JudgeCriterion[] = [
+  { id: 'accuracy', label: 'Accuracy', description: 'Factually correct, no fabricated claims or errors.', weight: 3 },
+  { id: 'completeness', label: 'Completeness', description: 'Addresses every part of the prompt.', weight: 2 },
+  { id: 'reasoning', label: 'Reasoning', description: 'Sound, well-supported logic and insight.', weight: 2 },
+  { id: 'clarity', label: 'Clarity', description: 'Clear, well organised and appropriately concise.', weight: 1 },
+];
+
+export interface JudgeModelScore {
+  modelId: string;
+  /** Score per rubric criterion id, JUDGE_SCORE_MIN..JUDGE_SCORE_MAX */
+  criteria: Record<string, number>;
+  /** Weighted average of the criterion scores, computed server-side */
+  overall: number;
+  rationale: string;
+}
+
+export interface JudgeRanking {
+  modelId: string;
+  rank: number;
+  overall: number;
+}
+
+export interface ComparisonJudgementResult {
+  id: string;
+  comparisonId: string;
+  judgeModelId: string;
+  rubric: JudgeCriterion[];
+  scores: Record<string, JudgeModelScore>;
+  rankings: JudgeRanking[];
+  summary: string | null;
+  /** Models left out because their comparison response errored or was empty */
+  excludedModelIds: string[];
+  cost: { input: number; output: number; reasoning?: number; total: number } | null;
+  createdAt: string | null;
+}
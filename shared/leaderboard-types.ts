@@ -0,0 +1,46 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Shared contracts for the pairwise model leaderboard: the matchup records distilled from
+ *          human compare votes, LLM judge verdicts, debate jury scores and battle outcomes, and the
+ *          Elo / Bradley-Terry rating tables served by GET /api/leaderboard.
+ * SRP/DRY check: Pass - Types only; ingestion and rating math live in server/services/leaderboard.service.ts.
+ */
+
+export const MATCHUP_SOURCES = ['human_vote', 'judge', 'debate_jury', 'battle'] as const;
+
+export type MatchupSource = typeof MATCHUP_SOURCES[number];
+
+/** 'a' = modelA won, 'b' = modelB won */
+export type MatchupOutcome = 'a' | 'b' | 'tie';
+
+export const RATING_METHODS = ['elo', 'bradley-terry'] as const;
+
+export type RatingMethod = typeof RATING_METHODS[number];
+
+export interface LeaderboardEntry {
+  modelId: string;
+  rank: number;
+  rating: number;
+  matches: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  /** Wins plus half of ties, over matches */
+  winRate: number;
+}
+
+export interface LeaderboardCategory {
+  /** Slug of a `## ` section in compare-prompts.md */
+  id: string;
+  name: string;
+}
+
+export interface LeaderboardResult {
+  method: RatingMethod;
+  category: string | null;
+  sources: MatchupSource[];
+  totalMatches: number;
+  entries: LeaderboardEntry[];
+  generatedAt: string;
+}
@@ -15,7 +15,7 @@ export type ModelDisplay = {
     input: string;
     output: string;
   };
-  provider: 'OpenAI' | 'Anthropic' | 'Gemini' | 'DeepSeek' | 'OpenRouter';
+  provider: 'OpenAI' | 'Anthropic' | 'Gemini' | 'DeepSeek' | 'OpenRouter' | 'Mock';
   responseTime: {
     speed: 'fast' | 'moderate' | 'slow';
     estimate: string;
@@ -797,7 +797,59 @@ export const MODEL_CATALOG: Record<string, ModelDisplay> = {
   },
 };
 
+// Offline mock models - only listed when the server enables the mock provider
+export const MOCK_MODEL_CATALOG: Record<string, ModelDisplay> = {
+  'mock-fast': {
+    key: 'mock-fast',
+    name: 'Mock Fast (offline)',
+    color: 'bg-slate-400',
+    premium: false,
+    cost: { input: '$1.00', output: '$2.00' },
+    provider: 'Mock',
+    responseTime: { speed: 'fast', estimate: '<1 sec' },
+    apiModelName: 'mock-fast',
+    modelType: 'mock',
+    contextWindow: 128000,
+    maxOutputTokens: 4096,
+    releaseDate: '2025-11',
+    supportsTemperature: true,
+    isReasoning: false,
+  },
+  'mock-reasoning': {
+    key: 'mock-reasoning',
+    name: 'Mock Reasoning (offline)',
+    color: 'bg-slate-500',
+    premium: false,
+    cost: { input: '$2.00', output: '$8.00' },
+    provider: 'Mock',
+    responseTime: { speed: 'fast', estimate: '<1 sec' },
+    apiModelName: 'mock-reasoning',
+    modelType: 'mock',
+    contextWindow: 200000,
+    maxOutputTokens: 16384,
+    releaseDate: '2025-11',
+    supportsTemperature: true,
+    isReasoning: true,
+  },
+  'mock-outage': {
+    key: 'mock-outage',
+    name: 'Mock Outage (always fails)',
+    color: 'bg-slate-600',
+    premium: false,
+    cost: { input: '$0.00', output: '$0.00' },
+    provider: 'Mock',
+    responseTime: { speed: 'fast', estimate: '<1 sec' },
+    apiModelName: 'mock-outage',
+    modelType: 'mock',
+    contextWindow: 8192,
+    maxOutputTokens: 1024,
+    releaseDate: '2025-11',
+    supportsTemperature: true,
+    isReasoning: false,
+  },
+};
+
 // Backward compatibility function
 export function getDisplayForModelId(modelId: string): ModelDisplay | undefined {
-  return MODEL_CATALOG[modelId];
+  return MODEL_CATALOG[modelId] ?? MOCK_MODEL_CATALOG[modelId];
 }
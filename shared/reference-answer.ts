@@ -0,0 +1,99 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Reference answers for prompts with a known correct answer (e.g. the HLE Questions in
+ *          compare-prompts.md). Declares the markdown annotation both the client prompt parser and
+ *          the server TemplateCompiler read, the grader kinds, and the per-response grade returned
+ *          by POST /api/models/comparisons/:id/grade.
+ *
+ *          Annotation, placed anywhere inside a `### Prompt` section:
+ *            > Answer: 18
+ *            > Grader: numeric        (exact | numeric | regex | llm; optional)
+ *            > Tolerance: 0.5         (numeric only; absolute, or relative with a % suffix)
+ *          The annotation lines are removed from the prompt content so models never see the answer.
+ * SRP/DRY check: Pass - One parser for the annotation shared by client and server; grading logic
+ *                lives in server/services/grading.service.ts.
+ */
+
+export const REFERENCE_GRADER_TYPES = ['exact', 'numeric', 'regex', 'llm'] as const;
+export type ReferenceGraderType = typeof REFERENCE_GRADER_TYPES[number];
+
+export interface ReferenceAnswer {
+  /** Expected answer; for the regex grader this is the pattern */
+  answer: string;
+  grader: ReferenceGraderType;
+  /** Numeric grader only: allowed absolute difference, or a fraction of the answer when relative */
+  tolerance?: number;
+  relativeTolerance?: boolean;
+}
+
+export interface ResponseGrade {
+  modelId: string;
+  passed: boolean;
+  /** Grader that produced the verdict; 'llm' when the LLM fallback overrode a deterministic miss */
+  grader: ReferenceGraderType;
+  /** Deterministic grader that missed before the LLM fallback was consulted */
+  fallbackFrom: ReferenceGraderType | null;
+  /** The answer the grader pulled out of the response, when it could find one */
+  extractedAnswer: string | null;
+  explanation: string | null;
+}
+
+export interface ComparisonGradingResult {
+  comparisonId: string;
+  /** Template the reference answer came from ("category:prompt"), null when supplied inline */
+  templateId: string | null;
+  reference: ReferenceAnswer | null;
+  grades: ResponseGrade[];
+}
+
+export interface ModelAccuracy {
+  modelId: string;
+  graded: number;
+  passed: number;
+  /** passed / graded, 0..1 */
+  accuracy: number;
+}
+
+const ANNOTATION_PATTERN = /^>\s*(answer|grader|tolerance)\s*:\s*(.*)$/i;
+
+/**
+ * Splits a prompt section's content into the prompt shown to models and its reference answer.
+ * Content without an `> Answer:` line comes back unchanged with no reference.
+ */
+export function extractReferenceAnswer(content: string): { content: string; referenceAnswer?: ReferenceAnswer } {
+  const fields: Record<string, string> = {};
+  const kept: string[] = [];
+  for (const line of content.split('\n')) {
+    const match = line.trim().match(ANNOTATION_PATTERN);
+    if (match) {
+      fields[match[1].toLowerCase()] = match[2].trim();
+    } else {
+      kept.push(line);
+    }
+  }
+
+  if (!fields.answer) {
+    return { content };
+  }
+
+  const requested = fields.grader?.toLowerCase();
+  const grader: ReferenceGraderType = REFERENCE_GRADER_TYPES.find(type => type === requested)
+    ?? (isNumericAnswer(fields.answer) ? 'numeric' : 'exact');
+  const referenceAnswer: ReferenceAnswer = { answer: fields.answer, grader };
+
+  if (grader === 'numeric' && fields.tolerance) {
+    const relative = fields.tolerance.endsWith('%');
+    const tolerance = Number.parseFloat(fields.tolerance);
+    if (Number.isFinite(tolerance) && tolerance >= 0) {
+      referenceAnswer.tolerance = relative ? tolerance / 100 : tolerance;
+      referenceAnswer.relativeTolerance = relative;
+    }
+  }
+
+  return { content: kept.join('\n').trim(), referenceAnswer };
+}
+
+function isNumericAnswer(answer: string): boolean {
+  return /^[-+]?(\d+(\.\d*)?|\.\d+)(e[-+]?\d+)?$/i.test(answer.replace(/,/g, ''));
+}
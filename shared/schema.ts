@@ -19,9 +19,18 @@
  */
 
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, jsonb, integer, numeric } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, jsonb, integer, numeric, boolean } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { JudgeCriterion, JudgeModelScore, JudgeRanking } from "./judge-types";
+import type { MatchupOutcome, MatchupSource } from "./leaderboard-types";
+import type { BatchItemStatus, BatchPromptSource, BatchRunStatus } from "./batch-types";
+import type { ReferenceAnswer, ReferenceGraderType } from "./reference-answer";
+import type { DebateVerdict } from "./debate-verdict-types";
+import type { DebateParticipant } from "./debate-participants";
+import type { DebateAutoRun } from "./debate-run-types";
+import type { DebateTopicDifficulty, DebateTopicSource } from "./debate-topic-types";
+import type { VixraPipelineRun } from "./vixra-pipeline";
 
 export const comparisons = pgTable("comparisons", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -36,21 +45,83 @@ export const comparisons = pgTable("comparisons", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// LLM judge verdicts for a comparison; the newest row is the one surfaced with the comparison
+export const comparisonJudgements = pgTable("comparison_judgements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  comparisonId: varchar("comparison_id")
+    .notNull()
+    .references(() => comparisons.id, { onDelete: 'cascade' }),
+  judgeModelId: varchar("judge_model_id").notNull(),
+  rubric: jsonb("rubric").notNull().$type<JudgeCriterion[]>(),
+  scores: jsonb("scores").notNull().$type<Record<string, JudgeModelScore>>(),
+  rankings: jsonb("rankings").notNull().$type<JudgeRanking[]>(),
+  summary: text("summary"),
+  excludedModelIds: jsonb("excluded_model_ids").notNull().$type<string[]>(),
+  cost: jsonb("cost").$type<{ total: number; input: number; output: number; reasoning?: number }>(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Pairwise model outcomes feeding the leaderboard; referenceId points at the comparison or debate
+export const modelMatchups = pgTable("model_matchups", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  modelAId: varchar("model_a_id").notNull(),
+  modelBId: varchar("model_b_id").notNull(),
+  outcome: varchar("outcome").notNull().$type<MatchupOutcome>(),
+  source: varchar("source").notNull().$type<MatchupSource>(),
+  category: varchar("category"),
+  referenceId: varchar("reference_id"),
+  voterId: varchar("voter_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Pass/fail grades of comparison responses against the prompt's reference answer; re-grading replaces them
+export const responseGrades = pgTable("response_grades", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  comparisonId: varchar("comparison_id")
+    .notNull()
+    .references(() => comparisons.id, { onDelete: 'cascade' }),
+  modelId: varchar("model_id").notNull(),
+  templateId: varchar("template_id"),
+  category: varchar("category"),
+  reference: jsonb("reference").notNull().$type<ReferenceAnswer>(),
+  grader: varchar("grader").notNull().$type<ReferenceGraderType>(),
+  fallbackFrom: varchar("fallback_from").$type<ReferenceGraderType>(),
+  passed: boolean("passed").notNull(),
+  extractedAnswer: text("extracted_answer"),
+  explanation: text("explanation"),
+  cost: jsonb("cost").$type<{ total: number; input: number; output: number; reasoning?: number }>(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One generated section of a Vixra paper, keyed by section id in `responses`
+export interface VixraSectionResponse {
+  content: string;
+  reasoning?: string;
+  status: 'success' | 'error' | 'loading';
+  responseTime: number;
+  tokenUsage?: { input: number; output: number; reasoning?: number };
+  cost?: { total: number; input: number; output: number; reasoning?: number };
+  modelName: string;
+  /** Set by the server pipeline: the model that wrote the section and when it finished */
+  modelId?: string;
+  completedAt?: string;
+  error?: string;
+  /** Ensemble winners only: who picked this version over the alternatives, and the judge's reason */
+  pickedBy?: 'judge' | 'user' | 'only-success';
+  pickRationale?: string;
+}
+
+/** Every model's version of each ensemble section: sectionId -> modelId -> output */
+export type VixraSectionAlternatives = Record<string, Record<string, VixraSectionResponse>>;
+
 // Vixra sessions for persisting satirical paper generation
 export const vixraSessions = pgTable("vixra_sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   variables: jsonb("variables").notNull().$type<Record<string, string>>(),
   template: text("template").notNull(),
-  responses: jsonb("responses").notNull().$type<Record<string, {
-    content: string;
-    reasoning?: string;
-    status: 'success' | 'error' | 'loading';
-    responseTime: number;
-    tokenUsage?: { input: number; output: number; reasoning?: number };
-    cost?: { total: number; input: number; output: number; reasoning?: number };
-    modelName: string;
-    error?: string;
-  }>>(),
+  responses: jsonb("responses").notNull().$type<Record<string, VixraSectionResponse>>(),
+  pipeline: jsonb("pipeline").$type<VixraPipelineRun>(), // Server-side pipeline state; null for browser-generated papers
+  alternatives: jsonb("alternatives").$type<VixraSectionAlternatives>(), // Ensemble sections: every model's version; the winner is also in responses
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -210,18 +281,105 @@ export const debateSessions = pgTable('debate_sessions', {
   turnHistory: jsonb('turn_history').notNull(), // Array of turn records
   model1ResponseIds: jsonb('model1_response_ids').notNull(), // Array of response IDs
   model2ResponseIds: jsonb('model2_response_ids').notNull(), // Array of response IDs
+  participants: jsonb('participants').$type<DebateParticipant[]>(), // Null on two-model sessions created before seats existed
+  speakingOrder: jsonb('speaking_order').$type<string[]>(), // Seat ids, repeated round-robin
+  participantResponseIds: jsonb('participant_response_ids').$type<Record<string, string[]>>(), // Response chain per seat id
+  format: text('format'), // Debate format id from debate-prompts.md; null for the open-ended flow
   totalCost: numeric('total_cost').default('0'),
+  verdict: jsonb('verdict').$type<DebateVerdict>(), // Judge-model adjudication, null until requested
+  autoRun: jsonb('auto_run').$type<DebateAutoRun>(), // Server-driven run state; null for browser-driven debates
+  parentSessionId: text('parent_session_id'), // Session this one was forked from; null for original debates
+  forkedAtTurn: integer('forked_at_turn'), // Last turn copied from the parent session
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Debate topic catalog; seeded once from debate-prompts.md, then extended with user-submitted topics
+export const debateTopics = pgTable('debate_topics', {
+  id: varchar('id').primaryKey().default(sql`gen_random_uuid()`), // Seed topics keep their markdown slug
+  title: text('title').notNull(),
+  proposition: text('proposition').notNull(),
+  tags: jsonb('tags').notNull().$type<string[]>(),
+  difficulty: varchar('difficulty').notNull().$type<DebateTopicDifficulty>(),
+  source: varchar('source').notNull().$type<DebateTopicSource>(),
+  ownerId: varchar('owner_id'), // Device user that submitted a custom topic; null for seed topics
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// Batch evaluation runs: a prompt suite crossed with a model list, one item row per (prompt, model) cell
+export const batchRuns = pgTable("batch_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  status: varchar("status").notNull().$type<BatchRunStatus>(),
+  source: jsonb("source").notNull().$type<BatchPromptSource>(),
+  modelIds: jsonb("model_ids").notNull().$type<string[]>(),
+  concurrency: integer("concurrency").notNull(),
+  ownerId: varchar("owner_id"),
+  creditsUsed: integer("credits_used").notNull().default(0),
+  statusReason: text("status_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const batchRunItems = pgTable("batch_run_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  runId: varchar("run_id")
+    .notNull()
+    .references(() => batchRuns.id, { onDelete: 'cascade' }),
+  promptIndex: integer("prompt_index").notNull(),
+  promptId: varchar("prompt_id").notNull(),
+  prompt: text("prompt").notNull(),
+  modelId: varchar("model_id").notNull(),
+  status: varchar("status").notNull().$type<BatchItemStatus>(),
+  content: text("content"),
+  reasoning: text("reasoning"),
+  responseTimeMs: integer("response_time_ms"),
+  tokenUsage: jsonb("token_usage").$type<{ input: number; output: number; reasoning?: number }>(),
+  cost: jsonb("cost").$type<{ total: number; input: number; output: number; reasoning?: number }>(),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
 export const insertComparisonSchema = createInsertSchema(comparisons).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertComparisonJudgementSchema = createInsertSchema(comparisonJudgements).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertModelMatchupSchema = createInsertSchema(modelMatchups).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertResponseGradeSchema = createInsertSchema(responseGrades).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertBatchRunSchema = createInsertSchema(batchRuns).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  completedAt: true,
+});
+
+export const insertBatchRunItemSchema = createInsertSchema(batchRunItems).omit({
+  id: true,
+  createdAt: true,
+  completedAt: true,
+});
+
 export const insertVixraSessionSchema = createInsertSchema(vixraSessions).omit({
   id: true,
+  pipeline: true, // Written only by the pipeline service (setVixraPipeline)
+  alternatives: true, // Written only by pipeline ensembles (setVixraSectionAlternative)
   createdAt: true,
   updatedAt: true,
 });
@@ -284,8 +442,23 @@ export const insertDebateSessionSchema = createInsertSchema(debateSessions).omit
   updatedAt: true,
 });
 
+export const insertDebateTopicSchema = createInsertSchema(debateTopics).omit({
+  createdAt: true,
+  updatedAt: true,
+});
+
 export type InsertComparison = z.infer<typeof insertComparisonSchema>;
 export type Comparison = typeof comparisons.$inferSelect;
+export type InsertComparisonJudgement = z.infer<typeof insertComparisonJudgementSchema>;
+export type ComparisonJudgement = typeof comparisonJudgements.$inferSelect;
+export type InsertModelMatchup = z.infer<typeof insertModelMatchupSchema>;
+export type ModelMatchup = typeof modelMatchups.$inferSelect;
+export type InsertResponseGrade = z.infer<typeof insertResponseGradeSchema>;
+export type ResponseGradeRecord = typeof responseGrades.$inferSelect;
+export type InsertBatchRun = z.infer<typeof insertBatchRunSchema>;
+export type BatchRun = typeof batchRuns.$inferSelect;
+export type InsertBatchRunItem = z.infer<typeof insertBatchRunItemSchema>;
+export type BatchRunItem = typeof batchRunItems.$inferSelect;
 export type InsertVixraSession = z.infer<typeof insertVixraSessionSchema>;
 export type VixraSession = typeof vixraSessions.$inferSelect;
 export type InsertPromptAudit = z.infer<typeof insertPromptAuditSchema>;
@@ -315,6 +488,8 @@ export type ArcArtifact = typeof arcArtifacts.$inferSelect;
 
 export type InsertDebateSession = z.infer<typeof insertDebateSessionSchema>;
 export type DebateSession = typeof debateSessions.$inferSelect;
+export type InsertDebateTopic = z.infer<typeof insertDebateTopicSchema>;
+export type DebateTopicRecord = typeof debateTopics.$inferSelect;
 
 // Additional types for authentication and billing
 export type UpsertUser = Omit<InsertUser, 'id'> & { id?: string };
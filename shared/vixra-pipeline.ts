@@ -0,0 +1,153 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Vixra paper assembly line shared by the server pipeline and the Vixra page: the section
+ *          dependency DAG, template parsing for vixra-prompts.md, variable substitution (dependency
+ *          outputs become {sectionId}, a lone dependency also {response}, the abstract also {Abstract}),
+ *          and the run contracts for server-side pipelines. The helpers wrap shared/document-templates.ts,
+ *          and pipelines run any document template the same way; Vixra is the template whose layout the
+ *          Vixra page hard-codes. A pipeline generates every section whose
+ *          dependencies are done in parallel and persists each one into `vixra_sessions.responses`.
+ *          Ensemble sections are written by several models; every version is kept in
+ *          `vixra_sessions.alternatives` and only the picked winner reaches `responses` and later prompts.
+ *          A section finished after one of its transitive dependents leaves those dependents stale.
+ * SRP/DRY check: Pass - DAG, templating and types only; execution lives in
+ *                server/services/vixra-pipeline.service.ts and rendering in client/src/pages/vixra.tsx.
+ */
+
+import {
+  buildSectionVariables,
+  getDependentSections,
+  getReadySections,
+  getStaleSections,
+  parseDocumentTemplate,
+  substituteTemplateVariables,
+  type DocumentSectionGraph,
+} from './document-templates.ts';
+
+/** Template id of Vixra papers; its prompts live in client/public/docs/vixra-prompts.md */
+export const VIXRA_TEMPLATE_ID = 'vixra';
+
+/** The sections vixra-prompts.md declares; the Vixra page lays out its paper from this list */
+export const VIXRA_SECTIONS = [
+  { id: 'abstract', name: 'Abstract', dependencies: [], alias: 'Abstract' },
+  { id: 'introduction', name: 'Introduction', dependencies: ['abstract'] },
+  { id: 'methodology', name: 'Methodology', dependencies: ['introduction'] },
+  { id: 'results', name: 'Results', dependencies: ['abstract', 'methodology'] },
+  { id: 'discussion', name: 'Discussion', dependencies: ['results'] },
+  { id: 'conclusion', name: 'Conclusion', dependencies: ['discussion'] },
+  { id: 'citations', name: 'Citations', dependencies: ['abstract', 'results'] },
+  { id: 'acknowledgments', name: 'Acknowledgments', dependencies: ['conclusion'] },
+] as const;
+
+export type VixraSectionId = typeof VIXRA_SECTIONS[number]['id'];
+
+/** Templates in vixra-prompts.md that fill in a missing title or author */
+export const VIXRA_VARIABLE_TEMPLATES = {
+  title: 'generate-title',
+  author: 'generate-author',
+} as const;
+
+export const VIXRA_DEFAULT_CATEGORY = 'General Science and Philosophy';
+
+export const VIXRA_PIPELINE_STATUSES = ['running', 'stopped', 'completed', 'failed'] as const;
+
+export type VixraPipelineStatus = typeof VIXRA_PIPELINE_STATUSES[number];
+
+/** 'stale' is a completed section built on an older version of one of its dependencies */
+export type VixraPipelineSectionStatus = 'locked' | 'pending' | 'running' | 'awaiting-pick' | 'completed' | 'stale' | 'failed';
+
+/** How an ensemble section's winner is chosen: by a judge model, or by the user through /sections/:id/pick */
+export const VIXRA_PICK_MODES = ['judge', 'manual'] as const;
+
+export type VixraPickMode = typeof VIXRA_PICK_MODES[number];
+
+/** Generation settings applied to every section of a run, as the Vixra page's model config builds them */
+export interface VixraPipelineCallOptions {
+  temperature?: number;
+  maxTokens?: number;
+  reasoningConfig?: {
+    effort?: 'low' | 'medium' | 'high';
+    summary?: 'auto' | 'detailed';
+    verbosity?: 'low' | 'medium' | 'high';
+  };
+}
+
+/** Stored on the session's `pipeline` column; null for papers generated from the browser */
+export interface VixraPipelineRun {
+  status: VixraPipelineStatus;
+  modelId: string;
+  options: VixraPipelineCallOptions;
+  ownerId: string | null;
+  /** Ensemble sections and the models that each write a version of them; other sections use modelId alone */
+  sectionModels?: Record<string, string[]>;
+  /** Defaults to 'judge' */
+  pickMode?: VixraPickMode;
+  /** Model that picks ensemble winners in judge mode */
+  judgeModelId?: string;
+  /** Most sections generated at the same time */
+  concurrency: number;
+  creditsUsed: number;
+  /** Why the run ended early (stopped by the owner, out of credits, failed sections, ...) */
+  statusReason: string | null;
+  startedAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+export interface VixraPipelineSummary extends VixraPipelineRun {
+  sessionId: string;
+  /** Status of every section of the session's document template */
+  sections: Record<string, VixraPipelineSectionStatus>;
+  completedSections: number;
+  totalSections: number;
+  /** True while this server process is executing the run */
+  live: boolean;
+}
+
+/** Vixra's section DAG in the shape the document-template helpers take */
+const VIXRA_GRAPH: DocumentSectionGraph = { sections: VIXRA_SECTIONS };
+
+/** Prompt of every section and helper block in vixra-prompts.md, by id */
+export function parseVixraTemplates(markdownContent: string): Map<string, string> {
+  return new Map(Object.entries(parseDocumentTemplate(markdownContent, VIXRA_TEMPLATE_ID).prompts));
+}
+
+/** Replaces every {Key} with its value; blank values substitute as empty text */
+export const substituteVixraVariables = substituteTemplateVariables;
+
+export function getVixraSection(sectionId: string) {
+  return VIXRA_SECTIONS.find(section => section.id === sectionId);
+}
+
+/** Sections not yet done (nor in `excluded`) whose dependencies are all completed, in paper order */
+export function getReadyVixraSections(completed: readonly string[], excluded: readonly string[] = []): VixraSectionId[] {
+  return getReadySections(VIXRA_GRAPH, completed, excluded) as VixraSectionId[];
+}
+
+/** Every section built on `sectionId`, directly or through other sections, in paper order */
+export function getVixraDependentSections(sectionId: string): VixraSectionId[] {
+  return getDependentSections(VIXRA_GRAPH, sectionId) as VixraSectionId[];
+}
+
+/** Successful sections a regenerated, swapped or stale dependency outdates, in paper order */
+export function getStaleVixraSections(
+  responses: Record<string, { status: string; completedAt?: string } | undefined>,
+): VixraSectionId[] {
+  return getStaleSections(VIXRA_GRAPH, responses) as VixraSectionId[];
+}
+
+/** Models that write a section in a run: its ensemble when one is configured, otherwise the run's model */
+export function getVixraSectionModels(run: Pick<VixraPipelineRun, 'modelId' | 'sectionModels'>, sectionId: string): string[] {
+  const models = run.sectionModels?.[sectionId];
+  return models && models.length > 0 ? models : [run.modelId];
+}
+
+/** Paper variables plus the dependency outputs a section's template refers to; for ensembles pass only the winners */
+export function buildVixraSectionVariables(
+  sectionId: string,
+  variables: Record<string, string>,
+  outputs: Record<string, string | undefined>,
+): Record<string, string> {
+  return buildSectionVariables(VIXRA_GRAPH, sectionId, variables, outputs);
+}
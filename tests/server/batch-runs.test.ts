@@ -0,0 +1,165 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Verify /api/batch-runs runs a prompt suite (uploaded JSONL or a compare-prompts.md section)
+ *          against several models, stores per-cell results and costs, charges credits per successful
+ *          cell, and can be paused and resumed by the owning device only.
+ * SRP/DRY check: Pass - Router-level integration against MemStorage and the offline mock provider.
+ */
+
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import express from 'express';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+
+vi.hoisted(() => {
+  for (const key of ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'DEEPSEEK_API_KEY', 'OPENROUTER_API_KEY']) {
+    process.env[key] ??= 'test-placeholder';
+  }
+  process.env.PROVIDER_RETRY_BASE_DELAY_MS = '1';
+  // Slow enough that a pause lands while cells are still queued
+  process.env.MOCK_PROVIDER_LATENCY_MS = '20';
+});
+
+import { batchRoutes } from '../../server/routes/batch.routes';
+import { batchRunner } from '../../server/services/batch-runner.service';
+import { TemplateCompiler } from '../../server/template-compiler';
+
+const deviceId = 'batch-runs-test-device';
+let server: import('node:http').Server | null = null;
+let baseUrl = '';
+let templateCompiler: TemplateCompiler;
+
+function post(path: string, body: Record<string, unknown>, device = deviceId) {
+  return fetch(`${baseUrl}/api/batch-runs${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-device-id': device },
+    body: JSON.stringify(body),
+  });
+}
+
+function jsonl(count: number) {
+  return Array.from({ length: count }, (_, index) => JSON.stringify({ id: `q${index + 1}`, prompt: `Question ${index + 1}?` })).join('\n');
+}
+
+beforeAll(async () => {
+  templateCompiler = new TemplateCompiler();
+  await templateCompiler.compileAllTemplates();
+
+  const app = express();
+  app.use(express.json());
+  app.locals.templateCompiler = templateCompiler;
+  app.use('/api/batch-runs', batchRoutes);
+  server = app.listen(0);
+  await once(server, 'listening');
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  if (server) {
+    server.close();
+    await once(server, 'close');
+  }
+});
+
+describe('batch runs', () => {
+  test('runs a JSONL suite across models and stores per-cell results', async () => {
+    const response = await post('/', {
+      name: 'HLE sample',
+      modelIds: ['mock-fast', 'mock-outage'],
+      source: { type: 'jsonl', fileName: 'hle.jsonl', content: `${jsonl(2)}\n` },
+    });
+    expect(response.status).toBe(201);
+    const created = await response.json();
+    expect(created).toMatchObject({
+      name: 'HLE sample',
+      status: 'running',
+      source: { type: 'jsonl', fileName: 'hle.jsonl' },
+      progress: { total: 4 },
+    });
+
+    await batchRunner.whenIdle(created.id);
+
+    const detail = await (await fetch(`${baseUrl}/api/batch-runs/${created.id}`)).json();
+    expect(detail.run).toMatchObject({
+      status: 'completed',
+      progress: { total: 4, pending: 0, succeeded: 2, failed: 2 },
+      creditsUsed: 10,
+    });
+    expect(detail.run.totalCost).toBeGreaterThan(0);
+    expect(detail.models).toEqual([
+      expect.objectContaining({ modelId: 'mock-fast', succeeded: 2, failed: 0 }),
+      expect.objectContaining({ modelId: 'mock-outage', succeeded: 0, failed: 2, totalCost: 0 }),
+    ]);
+
+    const failed = await (await fetch(`${baseUrl}/api/batch-runs/${created.id}/items?status=error`)).json();
+    expect(failed).toHaveLength(2);
+    expect(failed[0]).toMatchObject({ promptId: 'q1', modelId: 'mock-outage' });
+    expect(failed[0].error).toBeTruthy();
+
+    const succeeded = await (await fetch(`${baseUrl}/api/batch-runs/${created.id}/items?status=success`)).json();
+    expect(succeeded.map((item: { promptId: string }) => item.promptId)).toEqual(['q1', 'q2']);
+    expect(succeeded[0].content).toBeTruthy();
+    expect(succeeded[0].cost.total).toBeGreaterThan(0);
+  });
+
+  test('expands a compare-prompts.md section into one cell per template', async () => {
+    const [category] = templateCompiler.getTemplatesByMode('compare');
+    const response = await post('/', {
+      modelIds: ['mock-fast'],
+      concurrency: 2,
+      source: { type: 'category', categoryId: category.id },
+    });
+    expect(response.status).toBe(201);
+    const created = await response.json();
+    expect(created.progress.total).toBe(category.templates.length);
+
+    await batchRunner.whenIdle(created.id);
+    const items = await (await fetch(`${baseUrl}/api/batch-runs/${created.id}/items`)).json();
+    expect(items.map((item: { promptId: string }) => item.promptId)).toEqual(category.templates.map(template => template.id));
+    expect(items.every((item: { status: string }) => item.status === 'success')).toBe(true);
+  });
+
+  test('pauses, refuses other devices, and resumes to completion', async () => {
+    const created = await (await post('/', {
+      modelIds: ['mock-fast'],
+      concurrency: 1,
+      source: { type: 'jsonl', content: jsonl(5) },
+    })).json();
+
+    const forbidden = await post(`/${created.id}/pause`, {}, 'someone-else');
+    expect(forbidden.status).toBe(403);
+
+    const paused = await post(`/${created.id}/pause`, {});
+    expect(paused.status).toBe(200);
+    await batchRunner.whenIdle(created.id);
+
+    const afterPause = (await (await fetch(`${baseUrl}/api/batch-runs/${created.id}`)).json()).run;
+    expect(afterPause.status).toBe('paused');
+    expect(afterPause.progress.pending).toBeGreaterThan(0);
+    expect(afterPause.progress.running).toBe(0);
+
+    const again = await post(`/${created.id}/pause`, {});
+    expect(again.status).toBe(409);
+
+    const resumed = await post(`/${created.id}/resume`, {});
+    expect(resumed.status).toBe(200);
+    await batchRunner.whenIdle(created.id);
+
+    const final = (await (await fetch(`${baseUrl}/api/batch-runs/${created.id}`)).json()).run;
+    expect(final).toMatchObject({ status: 'completed', progress: { succeeded: 5, pending: 0 } });
+  });
+
+  test('rejects malformed JSONL, unknown models and batches the device cannot afford', async () => {
+    const badLine = await post('/', { modelIds: ['mock-fast'], source: { type: 'jsonl', content: '{"prompt":"ok"}\nnot json' } });
+    expect(badLine.status).toBe(400);
+    expect((await badLine.json()).details).toMatchObject({ code: 'VALIDATION_ERROR', line: 2 });
+
+    const unknownModel = await post('/', { modelIds: ['no-such-model'], source: { type: 'jsonl', content: jsonl(1) } });
+    expect(unknownModel.status).toBe(400);
+
+    const tooExpensive = await post('/', { modelIds: ['mock-fast', 'mock-reasoning'], source: { type: 'jsonl', content: jsonl(60) } });
+    expect(tooExpensive.status).toBe(402);
+    expect(await tooExpensive.json()).toMatchObject({ error: 'Insufficient credits', requiresPayment: true });
+  });
+});
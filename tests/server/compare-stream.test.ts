@@ -0,0 +1,172 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Verify the streaming compare handshake fans out to every selected model over one multiplexed
+ *          SSE channel, tags chunks with their modelId, isolates per-model failures and persists the
+ *          finished comparison. The credit reservation is charged only once a model answers, and is
+ *          released when every model fails or the session expires unopened.
+ * SRP/DRY check: Pass - Router-level integration against the offline mock provider; no provider mocks.
+ */
+
+import { beforeAll, afterAll, describe, expect, test, vi } from 'vitest';
+import express from 'express';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+
+// Vendor SDK clients are constructed at import time; placeholders keep them quiet since only mock models run
+vi.hoisted(() => {
+  for (const key of ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'DEEPSEEK_API_KEY', 'OPENROUTER_API_KEY']) {
+    process.env[key] ??= 'test-placeholder';
+  }
+  process.env.PROVIDER_RETRY_BASE_DELAY_MS = '1';
+});
+
+const modelsRoutesModulePath = new URL('../../server/routes/models.routes.ts', import.meta.url).href;
+const storageModulePath = new URL('../../server/storage.ts', import.meta.url).href;
+
+let server: import('node:http').Server | null = null;
+let baseUrl = '';
+let storage: typeof import('../../server/storage');
+const deviceId = 'compare-stream-test-device';
+
+function initStream(modelIds: string[]) {
+  return fetch(`${baseUrl}/api/models/compare/stream/init`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-device-id': deviceId },
+    body: JSON.stringify({ prompt: 'Compare two caching strategies.', modelIds })
+  });
+}
+
+function streamUrl(init: { taskId: string; modelKey: string; sessionId: string }) {
+  return `${baseUrl}/api/models/compare/stream/${encodeURIComponent(init.taskId)}/${encodeURIComponent(init.modelKey)}/${encodeURIComponent(init.sessionId)}`;
+}
+
+/** Credits the device could still reserve: its balance less every pending reservation */
+async function availableCredits() {
+  const user = await storage.storage.ensureDeviceUser(deviceId);
+  const probe = await storage.storage.reserveCredits(user.id, 0);
+  await storage.storage.refundReservation(probe.reservationId!);
+  return probe.remainingCredits!;
+}
+
+async function readSseEvents(response: Response): Promise<Array<{ event: string; data: any }>> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  const events: Array<{ event: string; data: any }> = [];
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const lines = rawEvent.split('\n');
+      const eventName = (lines.find(line => line.startsWith('event:')) ?? '').replace('event:', '').trim();
+      const payloadText = (lines.find(line => line.startsWith('data:')) ?? '').replace('data:', '').trim();
+      if (eventName) {
+        events.push({ event: eventName, data: payloadText ? JSON.parse(payloadText) : null });
+      }
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  return events;
+}
+
+beforeAll(async () => {
+  const [routesModule, storageModule] = await Promise.all([
+    import(modelsRoutesModulePath),
+    import(storageModulePath)
+  ]);
+  storage = storageModule;
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/models', routesModule.modelsRoutes);
+
+  server = app.listen(0);
+  await once(server, 'listening');
+  const address = server.address() as AddressInfo;
+  baseUrl = `http://127.0.0.1:${address.port}`;
+});
+
+afterAll(async () => {
+  if (server) {
+    await new Promise<void>((resolve, reject) => {
+      server!.close(error => (error ? reject(error) : resolve()));
+    });
+  }
+});
+
+describe('Streaming compare handshake', () => {
+  test('streams every model over one channel and persists the comparison', async () => {
+    const modelIds = ['mock-fast', 'mock-reasoning', 'mock-outage'];
+    const before = await availableCredits();
+    const initResponse = await initStream(modelIds);
+    expect(initResponse.status).toBe(200);
+    const init = await initResponse.json();
+    expect(init).toMatchObject({ modelIds, creditsReserved: 15 });
+
+    const streamResponse = await fetch(streamUrl(init));
+    expect(streamResponse.headers.get('content-type')).toContain('text/event-stream');
+    const events = await readSseEvents(streamResponse);
+
+    expect(events[0].event).toBe('stream.init');
+    const chunkModels = new Set(events.filter(evt => evt.event === 'stream.chunk').map(evt => evt.data.modelId));
+    expect(chunkModels).toEqual(new Set(['mock-fast', 'mock-reasoning']));
+    expect(events.some(evt => evt.event === 'stream.chunk' && evt.data.type === 'reasoning')).toBe(true);
+
+    const completed = events.filter(evt => evt.event === 'stream.model.complete').map(evt => evt.data.modelId);
+    expect(completed.sort()).toEqual(['mock-fast', 'mock-reasoning']);
+    const failed = events.find(evt => evt.event === 'stream.model.error');
+    expect(failed?.data.modelId).toBe('mock-outage');
+
+    const final = events[events.length - 1];
+    expect(final.event).toBe('stream.complete');
+    expect(final.data).toMatchObject({ successfulCalls: 2, creditsUsed: 15 });
+    expect(await availableCredits()).toBe(before - 15);
+    expect(final.data.responses['mock-reasoning'].tokenUsage.reasoning).toBeGreaterThan(0);
+
+    const persisted = await storage.storage.getComparison(final.data.id);
+    expect(persisted?.selectedModels).toEqual(modelIds);
+  });
+
+  test('rejects a reused stream session', async () => {
+    const init = await (await initStream(['mock-fast'])).json();
+    const url = streamUrl(init);
+
+    await readSseEvents(await fetch(url));
+    const replay = await fetch(url);
+    expect(replay.status).toBe(404);
+  });
+
+  test('refunds the reservation when every model fails', async () => {
+    const before = await availableCredits();
+    const init = await (await initStream(['mock-outage'])).json();
+    const events = await readSseEvents(await fetch(streamUrl(init)));
+
+    const final = events[events.length - 1];
+    expect(final.data).toMatchObject({ successfulCalls: 0, creditsUsed: 0 });
+    expect(await availableCredits()).toBe(before);
+  });
+
+  test('refunds the reservation of a session that expires unopened', async () => {
+    const before = await availableCredits();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const init = await (await initStream(['mock-fast', 'mock-reasoning'])).json();
+      expect(await availableCredits()).toBe(before - 10);
+
+      vi.advanceTimersByTime(5 * 60 * 1000 + 1);
+      expect((await fetch(streamUrl(init))).status).toBe(404);
+      await vi.waitFor(async () => expect(await availableCredits()).toBe(before));
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,113 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Verify POST /api/models/comparisons/:id/judge scores a stored comparison with the judge
+ *          model, recomputes weighted overall scores and rankings, persists them for
+ *          GET /api/models/comparisons/:id, and refunds credits when the verdict is unusable.
+ * SRP/DRY check: Pass - Router-level integration against the offline mock provider with a scripted
+ *                judge verdict; no provider mocks.
+ */
+
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import express from 'express';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+
+vi.hoisted(() => {
+  for (const key of ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'DEEPSEEK_API_KEY', 'OPENROUTER_API_KEY']) {
+    process.env[key] ??= 'test-placeholder';
+  }
+  process.env.PROVIDER_RETRY_BASE_DELAY_MS = '1';
+  process.env.MOCK_PROVIDER_SCRIPT = new URL('../fixtures/mock-scripts/judge.json', import.meta.url).pathname;
+});
+
+import { modelsRoutes } from '../../server/routes/models.routes';
+import { getStorage } from '../../server/storage';
+
+const deviceId = 'comparison-judge-test-device';
+let server: import('node:http').Server | null = null;
+let baseUrl = '';
+let comparisonId = '';
+
+function judge(body: Record<string, unknown>) {
+  return fetch(`${baseUrl}/api/models/comparisons/${comparisonId}/judge`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-device-id': deviceId },
+    body: JSON.stringify(body),
+  });
+}
+
+beforeAll(async () => {
+  const storage = await getStorage();
+  const comparison = await storage.createComparison({
+    prompt: 'Explain why the sky is blue.',
+    selectedModels: ['model-one', 'model-two', 'model-three'],
+    responses: {
+      'model-one': { content: 'Because it reflects the ocean.', status: 'success', responseTime: 10 },
+      'model-two': { content: 'Rayleigh scattering favours short wavelengths.', status: 'success', responseTime: 12 },
+      'model-three': { content: '', status: 'error', responseTime: 0, error: 'HTTP 503' },
+    },
+  });
+  comparisonId = comparison.id;
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/models', modelsRoutes);
+  server = app.listen(0);
+  await once(server, 'listening');
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  if (server) {
+    server.close();
+    await once(server, 'close');
+  }
+});
+
+describe('comparison judge', () => {
+  test('scores, ranks and persists a verdict for the successful responses', async () => {
+    const response = await judge({ judgeModelId: 'mock-fast' });
+    expect(response.status).toBe(200);
+    const judgement = await response.json();
+
+    expect(judgement).toMatchObject({
+      comparisonId,
+      judgeModelId: 'mock-fast',
+      excludedModelIds: ['model-three'],
+      summary: 'B is stronger on substance.',
+      creditsUsed: 5,
+    });
+    // Weights 3/2/2/1; the out-of-range clarity score of 12 is clamped to 10
+    expect(judgement.scores['model-one'].overall).toBeCloseTo((6 * 3 + 7 * 2 + 5 * 2 + 9) / 8);
+    expect(judgement.scores['model-two'].criteria.clarity).toBe(10);
+    expect(judgement.scores['model-two'].rationale).toBe('Correct and well argued.');
+    expect(judgement.rankings.map((entry: { modelId: string; rank: number }) => [entry.modelId, entry.rank])).toEqual([
+      ['model-two', 1],
+      ['model-one', 2],
+    ]);
+
+    const stored = await (await fetch(`${baseUrl}/api/models/comparisons/${comparisonId}`)).json();
+    expect(stored.judgement).toMatchObject({ id: judgement.id, rankings: judgement.rankings });
+  });
+
+  test('rejects an unusable verdict and refunds the reservation', async () => {
+    const storage = await getStorage();
+    const user = await storage.ensureDeviceUser(deviceId);
+    const before = await storage.getUserCredits(user.id);
+
+    const response = await judge({ judgeModelId: 'mock-reasoning' });
+    expect(response.status).toBe(502);
+    expect((await response.json()).details.code).toBe('JUDGE_ERROR');
+    expect(await storage.getUserCredits(user.id)).toBe(before);
+  });
+
+  test('returns 404 for unknown comparisons', async () => {
+    const response = await fetch(`${baseUrl}/api/models/comparisons/missing/judge`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-device-id': deviceId },
+      body: '{}',
+    });
+    expect(response.status).toBe(404);
+  });
+});
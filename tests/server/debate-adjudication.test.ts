@@ -0,0 +1,198 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Verify POST /api/debate/session/:id/adjudicate sends a finished debate to the judge model,
+ *          stores the validated verdict (winner, per-turn scores, cited points) on the session for
+ *          GET /api/debate/session/:id, and refunds credits when the debate or verdict is unusable.
+ *          Streaming the closing turn of a format debate adjudicates it without a request.
+ * SRP/DRY check: Pass - Router-level integration against MemStorage and the offline mock provider
+ *                with a scripted verdict; no provider mocks.
+ */
+
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import express from 'express';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+
+vi.hoisted(() => {
+  for (const key of ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'DEEPSEEK_API_KEY', 'OPENROUTER_API_KEY']) {
+    process.env[key] ??= 'test-placeholder';
+  }
+  process.env.PROVIDER_RETRY_BASE_DELAY_MS = '1';
+  process.env.DEBATE_JUDGE_MODEL = 'mock-fast';
+  process.env.MOCK_PROVIDER_SCRIPT = new URL('../fixtures/mock-scripts/debate-verdict.json', import.meta.url).pathname;
+});
+
+import { debateRoutes } from '../../server/routes/debate.routes';
+import { getStorage } from '../../server/storage';
+
+const deviceId = 'debate-adjudication-test-device';
+let server: import('node:http').Server | null = null;
+let baseUrl = '';
+
+function adjudicate(sessionId: string, body: Record<string, unknown> = {}) {
+  return fetch(`${baseUrl}/api/debate/session/${sessionId}/adjudicate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-device-id': deviceId },
+    body: JSON.stringify(body),
+  });
+}
+
+async function createDebate(turns: number): Promise<string> {
+  const storage = await getStorage();
+  const session = await storage.createDebateSession({
+    topicText: 'Cities should ban cars from their centres',
+    model1Id: 'debater-a',
+    model2Id: 'debater-b',
+    adversarialLevel: 2,
+    turnHistory: [],
+    model1ResponseIds: [],
+    model2ResponseIds: [],
+  });
+  for (let turn = 1; turn <= turns; turn++) {
+    await storage.updateDebateSession(session.id, {
+      turn,
+      modelId: turn % 2 === 1 ? 'debater-a' : 'debater-b',
+      content: `Argument for turn ${turn}.`,
+      reasoning: '',
+      responseId: `resp-${turn}`,
+      cost: 0.001,
+    });
+  }
+  return session.id;
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/debate', debateRoutes);
+  server = app.listen(0);
+  await once(server, 'listening');
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  if (server) {
+    server.close();
+    await once(server, 'close');
+  }
+});
+
+describe('debate adjudication', () => {
+  test('scores every turn, names the winner and stores the verdict on the session', async () => {
+    const sessionId = await createDebate(4);
+    const storage = await getStorage();
+    const user = await storage.ensureDeviceUser(deviceId);
+    const before = await storage.getUserCredits(user.id);
+
+    const response = await adjudicate(sessionId);
+    expect(response.status).toBe(200);
+    const { verdict, creditsUsed } = await response.json();
+
+    expect(creditsUsed).toBe(5);
+    expect(await storage.getUserCredits(user.id)).toBe(before - 5);
+    expect(verdict).toMatchObject({
+      judgeModelId: 'mock-fast',
+      winner: 'affirmative',
+      winnerModelId: 'debater-a',
+      summary: 'The affirmative backed its case with evidence.',
+    });
+    // The out-of-range score of 12 is clamped to 10
+    expect(verdict.turnScores.map((entry: { turn: number; side: string; score: number }) => [entry.turn, entry.side, entry.score])).toEqual([
+      [1, 'affirmative', 7],
+      [2, 'negative', 5],
+      [3, 'affirmative', 10],
+      [4, 'negative', 6],
+    ]);
+    expect(verdict.sideAverages).toEqual({ affirmative: 8.5, negative: 5.5 });
+    // A point cited on turn 3 belongs to the affirmative whatever side the judge wrote
+    expect(verdict.strongestPoints).toEqual([
+      { side: 'affirmative', modelId: 'debater-a', turn: 3, point: 'Pilot cities saw fewer collisions.' },
+    ]);
+    expect(verdict.weakestPoints).toEqual([
+      { side: 'negative', modelId: 'debater-b', turn: null, point: 'Never quantified the cost.' },
+    ]);
+
+    const stored = await (await fetch(`${baseUrl}/api/debate/session/${sessionId}`)).json();
+    expect(stored.verdict).toEqual(verdict);
+    const summaries = await (await fetch(`${baseUrl}/api/debate/sessions`)).json();
+    expect(summaries.find((entry: { id: string }) => entry.id === sessionId).verdict.winner).toBe('affirmative');
+  });
+
+  test('refunds when only one side has spoken or the verdict is unusable', async () => {
+    const storage = await getStorage();
+    const user = await storage.ensureDeviceUser(deviceId);
+    const before = await storage.getUserCredits(user.id);
+
+    const unfinished = await adjudicate(await createDebate(1));
+    expect(unfinished.status).toBe(400);
+    expect((await unfinished.json()).details.code).toBe('VALIDATION_ERROR');
+
+    const unusable = await adjudicate(await createDebate(2), { judgeModelId: 'mock-reasoning' });
+    expect(unusable.status).toBe(502);
+    expect((await unusable.json()).details.code).toBe('JUDGE_ERROR');
+
+    expect(await storage.getUserCredits(user.id)).toBe(before);
+  });
+
+  test('adjudicates a format debate on its own once its closing turn streams', async () => {
+    const storage = await getStorage();
+    const user = await storage.ensureDeviceUser(deviceId);
+    const session = await storage.createDebateSession({
+      topicText: 'Cities should charge congestion tolls',
+      model1Id: 'mock-fast',
+      model2Id: 'mock-reasoning',
+      adversarialLevel: 2,
+      format: 'parliamentary',
+      turnHistory: [],
+      model1ResponseIds: [],
+      model2ResponseIds: [],
+    });
+    // Parliamentary speaking plan: p1, p2, p1, p2, p2, then the government's closing speech
+    for (const [index, participantId] of ['p1', 'p2', 'p1', 'p2', 'p2'].entries()) {
+      await storage.updateDebateSession(session.id, {
+        turn: index + 1,
+        modelId: participantId === 'p1' ? 'mock-fast' : 'mock-reasoning',
+        participantId,
+        content: `Speech ${index + 1}.`,
+        reasoning: '',
+        responseId: `resp-${index + 1}`,
+        cost: 0.001,
+      });
+    }
+    const before = await storage.getUserCredits(user.id);
+
+    const init = await fetch(`${baseUrl}/api/debate/stream/init`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-device-id': deviceId },
+      body: JSON.stringify({
+        sessionId: session.id,
+        turnNumber: 6,
+        modelId: 'mock-fast',
+        topic: session.topicText,
+        intensityLevel: 2,
+        model1Id: 'mock-fast',
+        model2Id: 'mock-reasoning',
+      }),
+    });
+    expect(init.status).toBe(200);
+    const handshake = await init.json();
+    const stream = await fetch(`${baseUrl}/api/debate/stream/${encodeURIComponent(handshake.taskId)}/${encodeURIComponent(handshake.modelKey)}/${encodeURIComponent(handshake.sessionId)}`);
+    expect(await stream.text()).toContain('event: stream.complete');
+
+    // The judge runs after the closing turn's stream has ended
+    await vi.waitFor(async () => {
+      expect((await storage.getDebateSession(session.id))?.verdict).toBeTruthy();
+    });
+    const stored = await (await fetch(`${baseUrl}/api/debate/session/${session.id}`)).json();
+    expect(stored.verdict).toMatchObject({ winner: 'negative', winnerModelId: 'mock-reasoning' });
+    expect(stored.verdict.turnScores).toHaveLength(6);
+    // The turn stream and the judge are both charged to the device that streamed the closing turn
+    expect(await storage.getUserCredits(user.id)).toBe(before - 10);
+  });
+
+  test('returns 404 for unknown sessions', async () => {
+    const response = await adjudicate('debate_missing');
+    expect(response.status).toBe(404);
+  });
+});
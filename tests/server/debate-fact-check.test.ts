@@ -0,0 +1,125 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Verify POST /api/debate/session/:id/fact-check has the checker model rate each turn's factual
+ *          claims, stores the normalised ratings as `factCheck` on the turn record returned by
+ *          GET /api/debate/session/:id, skips turns already checked unless forced, and reports turns
+ *          whose check failed without charging for them.
+ * SRP/DRY check: Pass - Router-level integration against MemStorage and the offline mock provider with
+ *                scripted checker replies; no provider mocks.
+ */
+
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import express from 'express';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+
+vi.hoisted(() => {
+  for (const key of ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'DEEPSEEK_API_KEY', 'OPENROUTER_API_KEY']) {
+    process.env[key] ??= 'test-placeholder';
+  }
+  process.env.PROVIDER_RETRY_BASE_DELAY_MS = '1';
+  process.env.DEBATE_FACT_CHECK_MODEL = 'mock-reasoning';
+  process.env.MOCK_PROVIDER_SCRIPT = new URL('../fixtures/mock-scripts/debate-fact-check.json', import.meta.url).pathname;
+});
+
+import { debateRoutes } from '../../server/routes/debate.routes';
+import { getStorage } from '../../server/storage';
+
+const deviceId = 'debate-fact-check-test-device';
+const statisticTurn = 'Rent control cut new construction by 60% in every city that tried it, according to a 2019 Stanford study. Worse, landlords convert units to condos.';
+let server: import('node:http').Server | null = null;
+let baseUrl = '';
+
+function factCheck(sessionId: string, body: Record<string, unknown> = {}) {
+  return fetch(`${baseUrl}/api/debate/session/${sessionId}/fact-check`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-device-id': deviceId },
+    body: JSON.stringify(body),
+  });
+}
+
+async function createDebate(contents: string[]): Promise<string> {
+  const storage = await getStorage();
+  const session = await storage.createDebateSession({
+    topicText: 'Cities should adopt rent control',
+    model1Id: 'debater-a',
+    model2Id: 'debater-b',
+    adversarialLevel: 2,
+    turnHistory: [],
+    model1ResponseIds: [],
+    model2ResponseIds: [],
+  });
+  for (const [index, content] of contents.entries()) {
+    await storage.updateDebateSession(session.id, {
+      turn: index + 1,
+      modelId: index % 2 === 0 ? 'debater-a' : 'debater-b',
+      content,
+      reasoning: '',
+      responseId: `resp-${index + 1}`,
+      cost: 0.001,
+    });
+  }
+  return session.id;
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/debate', debateRoutes);
+  server = app.listen(0);
+  await once(server, 'listening');
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  if (server) {
+    server.close();
+    await once(server, 'close');
+  }
+});
+
+describe('debate fact-check', () => {
+  test('rates the claims of a turn and stores them on the turn record', async () => {
+    const sessionId = await createDebate([statisticTurn, 'Tenants deserve stability in their homes.']);
+
+    const response = await factCheck(sessionId, { turns: [1] });
+    expect(response.status).toBe(200);
+    const { results, failures, creditsUsed } = await response.json();
+    expect(failures).toEqual([]);
+    expect(creditsUsed).toBe(2);
+    expect(results).toHaveLength(1);
+    expect(results[0].turn).toBe(1);
+    expect(results[0].factCheck).toMatchObject({ checkerModelId: 'mock-reasoning', disputedCount: 1 });
+    // Casing is restored from the turn, unknown kinds and ratings are normalised
+    expect(results[0].factCheck.claims.map((claim: any) => [claim.quote, claim.kind, claim.rating])).toEqual([
+      ['cut new construction by 60% in every city', 'statistic', 'disputed'],
+      ['a 2019 Stanford study', 'citation', 'supported'],
+      ['landlords convert units to condos', 'fact', 'unverified'],
+    ]);
+
+    const stored = await (await fetch(`${baseUrl}/api/debate/session/${sessionId}`)).json();
+    expect(stored.turnHistory[0].factCheck.claims).toHaveLength(3);
+    expect(stored.turnHistory[0].content).toBe(statisticTurn);
+    expect(stored.turnHistory[1].factCheck).toBeUndefined();
+  });
+
+  test('skips checked turns unless forced and reports failed checks', async () => {
+    const sessionId = await createDebate([statisticTurn, 'Tenants deserve stability in their homes.']);
+    expect((await factCheck(sessionId, { turns: [1] })).status).toBe(200);
+
+    // Turn 1 is skipped; turn 2's checker reply is not JSON, so only the failure comes back
+    const rest = await factCheck(sessionId);
+    expect(rest.status).toBe(502);
+
+    const forced = await factCheck(sessionId, { force: true });
+    expect(forced.status).toBe(200);
+    const body = await forced.json();
+    expect(body.results.map((result: any) => result.turn)).toEqual([1]);
+    expect(body.failures).toMatchObject([{ turn: 2 }]);
+    expect(body.creditsUsed).toBe(2);
+
+    expect((await factCheck(sessionId, { turns: [7] })).status).toBe(400);
+    expect((await factCheck('no-such-session')).status).toBe(404);
+  });
+});
@@ -0,0 +1,133 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Verify POST /api/debate/session/:id/fork copies the turns and per-seat response chains up to the
+ *          fork turn into a child session that records its parent, applies seat model and intensity changes,
+ *          and that a seat handed to another model continues without the old chain, reading the transcript
+ *          so far instead. Invalid fork turns, seats and models are rejected.
+ * SRP/DRY check: Pass - Router-level integration against MemStorage and the offline mock provider with a
+ *                scripted reply that only matches when the transcript reaches the new model's prompt.
+ */
+
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import express from 'express';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+
+vi.hoisted(() => {
+  for (const key of ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'DEEPSEEK_API_KEY', 'OPENROUTER_API_KEY']) {
+    process.env[key] ??= 'test-placeholder';
+  }
+  process.env.PROVIDER_RETRY_BASE_DELAY_MS = '1';
+  process.env.MOCK_PROVIDER_SCRIPT = new URL('../fixtures/mock-scripts/debate-fork.json', import.meta.url).pathname;
+});
+
+import { debateRoutes } from '../../server/routes/debate.routes';
+
+const deviceId = 'debate-fork-test-device';
+const topic = 'Cities should adopt rent control';
+let server: import('node:http').Server | null = null;
+let baseUrl = '';
+
+function post(path: string, body: Record<string, unknown>) {
+  return fetch(`${baseUrl}/api/debate${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-device-id': deviceId },
+    body: JSON.stringify(body),
+  });
+}
+
+async function getSession(sessionId: string) {
+  return (await fetch(`${baseUrl}/api/debate/session/${sessionId}`)).json();
+}
+
+/** Initializes a turn and drains its SSE stream until stream.complete */
+async function streamTurn(sessionId: string, turnNumber: number, modelId: string) {
+  const init = await post('/stream/init', { sessionId, turnNumber, modelId, topic, intensityLevel: 2, model1Id: 'mock-fast', model2Id: 'mock-fast' });
+  expect(init.status).toBe(200);
+  const handshake = await init.json();
+  const stream = await fetch(`${baseUrl}/api/debate/stream/${encodeURIComponent(handshake.taskId)}/${encodeURIComponent(handshake.modelKey)}/${encodeURIComponent(handshake.sessionId)}`);
+  expect(await stream.text()).toContain('event: stream.complete');
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/debate', debateRoutes);
+  server = app.listen(0);
+  await once(server, 'listening');
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  if (server) {
+    server.close();
+    await once(server, 'close');
+  }
+});
+
+describe('debate forks', () => {
+  test('a fork copies the debate up to a turn and a new model continues from there', async () => {
+    const created = await post('/session', { topic, adversarialLevel: 2, model1Id: 'mock-fast', model2Id: 'mock-fast' });
+    expect(created.status).toBe(200);
+    const parent = await created.json();
+    for (const turn of [1, 2, 3]) {
+      await streamTurn(parent.id, turn, 'mock-fast');
+    }
+    const original = await getSession(parent.id);
+
+    const forked = await post(`/session/${parent.id}/fork`, { atTurn: 2, adversarialLevel: 4, seatModels: { p1: 'mock-reasoning' } });
+    expect(forked.status).toBe(201);
+    const fork = await forked.json();
+    expect(fork).toMatchObject({
+      parentSessionId: parent.id,
+      forkedAtTurn: 2,
+      adversarialLevel: 4,
+      model1Id: 'mock-reasoning',
+      model2Id: 'mock-fast',
+    });
+    expect(fork.id).not.toBe(parent.id);
+    expect(fork.turnHistory).toEqual(original.turnHistory.slice(0, 2));
+    expect(fork.participantResponseIds).toEqual({
+      p1: [original.turnHistory[0].responseId],
+      p2: [original.turnHistory[1].responseId],
+    });
+    expect(fork.model1ResponseIds).toEqual([original.turnHistory[0].responseId]);
+    expect(fork.model2ResponseIds).toEqual([original.turnHistory[1].responseId]);
+
+    // The swapped seat cannot continue mock-fast's chain, so it is sent the transcript instead
+    await streamTurn(fork.id, 3, 'mock-reasoning');
+    const continued = await getSession(fork.id);
+    expect(continued.turnHistory).toHaveLength(3);
+    expect(continued.turnHistory[2]).toMatchObject({
+      modelId: 'mock-reasoning',
+      participantId: 'p1',
+      content: 'Forked rebuttal: picking up the affirmative case where it was left.',
+    });
+    expect(continued.participantResponseIds.p1).toHaveLength(2);
+
+    // The parent is untouched and lists its fork
+    expect((await getSession(parent.id)).turnHistory).toHaveLength(3);
+    const summaries = await (await fetch(`${baseUrl}/api/debate/sessions`)).json();
+    expect(summaries.find((summary: any) => summary.id === fork.id)).toMatchObject({ parentSessionId: parent.id, forkedAtTurn: 2 });
+    expect(summaries.find((summary: any) => summary.id === parent.id).parentSessionId).toBeUndefined();
+  });
+
+  test('rejects forks at unrecorded turns, unknown seats or models, and all-human seating', async () => {
+    const created = await post('/session', { topic, adversarialLevel: 2, model1Id: 'mock-fast', model2Id: 'mock-fast' });
+    const parent = await created.json();
+    await streamTurn(parent.id, 1, 'mock-fast');
+
+    expect((await post(`/session/${parent.id}/fork`, { atTurn: 2 })).status).toBe(400);
+    expect((await post(`/session/${parent.id}/fork`, { atTurn: 0 })).status).toBe(400);
+    expect((await post(`/session/${parent.id}/fork`, { atTurn: 1, seatModels: { p9: 'mock-fast' } })).status).toBe(400);
+    expect((await post(`/session/${parent.id}/fork`, { atTurn: 1, seatModels: { p2: 'no-such-model' } })).status).toBe(400);
+    expect((await post(`/session/${parent.id}/fork`, { atTurn: 1, seatModels: { p1: 'human', p2: 'human' } })).status).toBe(400);
+    expect((await post('/session/no-such-session/fork', { atTurn: 1 })).status).toBe(404);
+
+    // Forking at the latest turn is a plain copy
+    const copy = await post(`/session/${parent.id}/fork`, { atTurn: 1 });
+    expect(copy.status).toBe(201);
+    expect((await copy.json()).turnHistory).toHaveLength(1);
+  });
+});
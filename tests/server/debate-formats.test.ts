@@ -0,0 +1,125 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Verify structured debate formats: the formats in debate-prompts.md parse into phases with time
+ *          limits and cross-examination, the Lincoln-Douglas turn plan alternates questions and answers,
+ *          and /stream/init only accepts the planned seat, quotes the question to the respondent and
+ *          refuses turns past the end of the format.
+ * SRP/DRY check: Pass - Parses the real markdown and drives the router against MemStorage and the offline
+ *                mock provider with a scripted cross-examination; no provider mocks.
+ */
+
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import express from 'express';
+import { once } from 'node:events';
+import { readFileSync } from 'node:fs';
+import type { AddressInfo } from 'node:net';
+
+vi.hoisted(() => {
+  for (const key of ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'DEEPSEEK_API_KEY', 'OPENROUTER_API_KEY']) {
+    process.env[key] ??= 'test-placeholder';
+  }
+  process.env.PROVIDER_RETRY_BASE_DELAY_MS = '1';
+  process.env.MOCK_PROVIDER_SCRIPT = new URL('../fixtures/mock-scripts/debate-format.json', import.meta.url).pathname;
+});
+
+import { debateRoutes } from '../../server/routes/debate.routes';
+import { extractDebateInstructions } from '../../shared/debate-instructions';
+import { buildDebateTurnPlan, findDebateFormat } from '../../shared/debate-formats';
+
+const deviceId = 'debate-formats-test-device';
+const topic = 'The city should fund a new light-rail line';
+let server: import('node:http').Server | null = null;
+let baseUrl = '';
+
+function post(path: string, body: Record<string, unknown>) {
+  return fetch(`${baseUrl}/api/debate${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-device-id': deviceId },
+    body: JSON.stringify(body),
+  });
+}
+
+function initTurn(sessionId: string, turnNumber: number, modelId: string) {
+  return post('/stream/init', { sessionId, turnNumber, modelId, topic, intensityLevel: 2, model1Id: 'mock-fast', model2Id: 'mock-reasoning' });
+}
+
+/** Initializes a turn and drains its SSE stream until stream.complete */
+async function streamTurn(sessionId: string, turnNumber: number, modelId: string) {
+  const init = await initTurn(sessionId, turnNumber, modelId);
+  expect(init.status).toBe(200);
+  const handshake = await init.json();
+  const stream = await fetch(`${baseUrl}/api/debate/stream/${encodeURIComponent(handshake.taskId)}/${encodeURIComponent(handshake.modelKey)}/${encodeURIComponent(handshake.sessionId)}`);
+  const body = await stream.text();
+  expect(body).toContain('event: stream.complete');
+  return handshake as { participantId: string };
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/debate', debateRoutes);
+  server = app.listen(0);
+  await once(server, 'listening');
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  if (server) {
+    server.close();
+    await once(server, 'close');
+  }
+});
+
+describe('debate formats', () => {
+  test('parses the Lincoln-Douglas format from debate-prompts.md into a turn plan', () => {
+    const markdown = readFileSync(new URL('../../client/public/docs/debate-prompts.md', import.meta.url), 'utf-8');
+    const { formats } = extractDebateInstructions(markdown);
+    expect(formats.map(format => format.id)).toEqual(['roberts-rules', 'lincoln-douglas', 'oxford', 'parliamentary']);
+
+    const lincolnDouglas = findDebateFormat(formats, 'lincoln-douglas')!;
+    expect(lincolnDouglas.phases.map(phase => phase.timeLimitSeconds)).toEqual([360, 180, 420, 180, 240, 360, 180]);
+    const crossExamination = lincolnDouglas.phases[1];
+    expect(crossExamination).toMatchObject({ kind: 'cross-examination', questioner: 'negative', respondent: 'affirmative', exchanges: 2 });
+    expect(crossExamination.answerInstruction).toContain('{opponent_role}');
+
+    const plan = buildDebateTurnPlan(lincolnDouglas, { model1Id: 'mock-fast', model2Id: 'mock-reasoning' });
+    expect(plan).toHaveLength(13);
+    expect(plan.slice(0, 6).map(slot => `${slot.action}:${slot.participantId}`)).toEqual([
+      'speech:p1', 'question:p2', 'answer:p1', 'question:p2', 'answer:p1', 'speech:p2',
+    ]);
+    expect(plan[12]).toMatchObject({ participantId: 'p1', phase: { name: 'Second Affirmative Rebuttal' } });
+  });
+
+  test('runs a Lincoln-Douglas session turn by turn and stops at the end of the format', async () => {
+    const unknown = await post('/session', { topic, adversarialLevel: 2, model1Id: 'mock-fast', model2Id: 'mock-reasoning', format: 'town-hall' });
+    expect(unknown.status).toBe(400);
+
+    const created = await post('/session', { topic, adversarialLevel: 2, model1Id: 'mock-fast', model2Id: 'mock-reasoning', format: 'lincoln-douglas' });
+    expect(created.status).toBe(200);
+    const session = await created.json();
+    expect(session.format).toBe('lincoln-douglas');
+
+    expect((await streamTurn(session.id, 1, 'mock-fast')).participantId).toBe('p1');
+
+    // Turn 2 is the Negative's first cross-examination question, not another Affirmative speech
+    const wrongSeat = await post('/stream/init', { sessionId: session.id, turnNumber: 2, modelId: 'mock-fast', participantId: 'p1', topic, intensityLevel: 2, model1Id: 'mock-fast', model2Id: 'mock-reasoning' });
+    expect(wrongSeat.status).toBe(400);
+    expect((await wrongSeat.json()).error).toContain('Cross-Examination of the Affirmative');
+
+    expect((await streamTurn(session.id, 2, 'mock-reasoning')).participantId).toBe('p2');
+    expect((await streamTurn(session.id, 3, 'mock-fast')).participantId).toBe('p1');
+
+    const stored = await (await fetch(`${baseUrl}/api/debate/session/${session.id}`)).json();
+    expect(stored.format).toBe('lincoln-douglas');
+    const turns = stored.turnHistory as Array<{ participantId: string; content: string }>;
+    expect(turns.map(turn => turn.participantId)).toEqual(['p1', 'p2', 'p1']);
+    // The answer prompt quoted the scripted question, which the scripted answer keys on
+    expect(turns[1].content).toBe('Question: who pays for the line once federal grants run out?');
+    expect(turns[2].content).toBe('Answer: fares and a dedicated transit bond.');
+
+    const pastEnd = await initTurn(session.id, 14, 'mock-fast');
+    expect(pastEnd.status).toBe(400);
+    expect((await pastEnd.json()).error).toContain('complete');
+  });
+});
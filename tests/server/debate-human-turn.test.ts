@@ -0,0 +1,113 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Verify practice debates with a human seat: sessions need at least one model seat, a human turn
+ *          is recorded through /session/:id/human-turn only when it is that seat's turn, the model answering
+ *          it receives the saved text as its opponent's statement, human turns leave response chains alone,
+ *          and such sessions cannot be queued as server runs.
+ * SRP/DRY check: Pass - Router-level integration against MemStorage and the offline mock provider with a
+ *                scripted rebuttal that only matches when the human's argument reaches the prompt.
+ */
+
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import express from 'express';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+
+vi.hoisted(() => {
+  for (const key of ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'DEEPSEEK_API_KEY', 'OPENROUTER_API_KEY']) {
+    process.env[key] ??= 'test-placeholder';
+  }
+  process.env.PROVIDER_RETRY_BASE_DELAY_MS = '1';
+  process.env.MOCK_PROVIDER_SCRIPT = new URL('../fixtures/mock-scripts/debate-human.json', import.meta.url).pathname;
+});
+
+import { debateRoutes } from '../../server/routes/debate.routes';
+
+const deviceId = 'debate-human-turn-test-device';
+const topic = 'Cities should adopt rent control';
+const humanArgument = 'Rent control freezes the supply of new housing, so the shortage it answers only gets worse.';
+let server: import('node:http').Server | null = null;
+let baseUrl = '';
+
+function post(path: string, body: Record<string, unknown>) {
+  return fetch(`${baseUrl}/api/debate${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-device-id': deviceId },
+    body: JSON.stringify(body),
+  });
+}
+
+/** Initializes the model seat's turn and drains its SSE stream until stream.complete */
+async function streamModelTurn(sessionId: string, turnNumber: number, extra: Record<string, unknown> = {}) {
+  const init = await post('/stream/init', { sessionId, turnNumber, modelId: 'mock-fast', topic, intensityLevel: 3, model1Id: 'human', model2Id: 'mock-fast', ...extra });
+  expect(init.status).toBe(200);
+  const handshake = await init.json();
+  const stream = await fetch(`${baseUrl}/api/debate/stream/${encodeURIComponent(handshake.taskId)}/${encodeURIComponent(handshake.modelKey)}/${encodeURIComponent(handshake.sessionId)}`);
+  expect(await stream.text()).toContain('event: stream.complete');
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/debate', debateRoutes);
+  server = app.listen(0);
+  await once(server, 'listening');
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  if (server) {
+    server.close();
+    await once(server, 'close');
+  }
+});
+
+describe('human debate participant', () => {
+  test('a human argues against a model, which rebuts the saved argument', async () => {
+    const allHuman = await post('/session', { topic, adversarialLevel: 3, model1Id: 'human', model2Id: 'human' });
+    expect(allHuman.status).toBe(400);
+
+    const created = await post('/session', { topic, adversarialLevel: 3, model1Id: 'human', model2Id: 'mock-fast' });
+    expect(created.status).toBe(200);
+    const session = await created.json();
+
+    // The human seat never streams
+    const streamed = await post('/stream/init', { sessionId: session.id, turnNumber: 1, modelId: 'human', topic, intensityLevel: 3, model1Id: 'human', model2Id: 'mock-fast' });
+    expect(streamed.status).toBe(400);
+
+    expect((await post(`/session/${session.id}/human-turn`, { turnNumber: 2, content: humanArgument })).status).toBe(400);
+    expect((await post(`/session/${session.id}/human-turn`, { turnNumber: 1, content: '   ' })).status).toBe(400);
+    expect((await post('/session/no-such-session/human-turn', { turnNumber: 1, content: humanArgument })).status).toBe(404);
+
+    const opening = await post(`/session/${session.id}/human-turn`, { turnNumber: 1, content: 'Rent control protects tenants from sudden hikes.' });
+    expect(opening.status).toBe(201);
+    expect(await opening.json()).toMatchObject({ turnNumber: 1, participantId: 'p1' });
+
+    // The model's turn cannot be typed by the human
+    expect((await post(`/session/${session.id}/human-turn`, { turnNumber: 2, content: 'Not my turn' })).status).toBe(400);
+    await streamModelTurn(session.id, 2);
+
+    const rebuttal = await post(`/session/${session.id}/human-turn`, { turnNumber: 3, participantId: 'p1', content: humanArgument });
+    expect(rebuttal.status).toBe(201);
+
+    // The saved argument wins over whatever the client sends as opponentMessage
+    await streamModelTurn(session.id, 4, { opponentMessage: 'A stale message from another tab' });
+
+    const stored = await (await fetch(`${baseUrl}/api/debate/session/${session.id}`)).json();
+    expect(stored.turnHistory.map((turn: any) => [turn.turn, turn.participantId, turn.modelId])).toEqual([
+      [1, 'p1', 'human'],
+      [2, 'p2', 'mock-fast'],
+      [3, 'p1', 'human'],
+      [4, 'p2', 'mock-fast'],
+    ]);
+    expect(stored.turnHistory[3].content).toBe('Rebuttal: tenants facing eviction cannot wait for new supply to arrive.');
+    expect(stored.turnHistory[0].cost).toBe(0);
+    expect(stored.participantResponseIds.p1).toEqual([]);
+    expect(stored.participantResponseIds.p2).toHaveLength(2);
+    expect(stored.model1ResponseIds).toEqual([]);
+
+    const queued = await post(`/session/${session.id}/run`, {});
+    expect(queued.status).toBe(400);
+  });
+});
@@ -0,0 +1,168 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Verify server-driven debate runs: /session/:id/run plays every turn in the background on each
+ *          seat's model, persists the turns and charges credits per turn, clients attached to
+ *          /run/events get a snapshot plus live turn events (and can re-attach after the run), and the
+ *          owning device alone can stop a run and resume it from the last saved turn. A run that plays
+ *          the last turn has the debate adjudicated before it completes. A run a restart left "running"
+ *          is marked failed at startup and can be resumed.
+ * SRP/DRY check: Pass - Router-level integration against MemStorage and the offline mock provider.
+ */
+
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import express from 'express';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+
+vi.hoisted(() => {
+  for (const key of ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'DEEPSEEK_API_KEY', 'OPENROUTER_API_KEY']) {
+    process.env[key] ??= 'test-placeholder';
+  }
+  process.env.PROVIDER_RETRY_BASE_DELAY_MS = '1';
+  // Slow enough that a stop lands while turns are still left to play
+  process.env.MOCK_PROVIDER_LATENCY_MS = '20';
+  process.env.DEBATE_JUDGE_MODEL = 'mock-fast';
+  process.env.MOCK_PROVIDER_SCRIPT = new URL('../fixtures/mock-scripts/debate-verdict.json', import.meta.url).pathname;
+});
+
+import { debateRoutes } from '../../server/routes/debate.routes';
+import { debateOrchestrator } from '../../server/services/debate-orchestrator.service';
+import { getStorage } from '../../server/storage';
+
+const deviceId = 'debate-orchestrator-test-device';
+const topic = 'Cities should ban cars from their downtown cores';
+let server: import('node:http').Server | null = null;
+let baseUrl = '';
+
+function post(path: string, body: Record<string, unknown>, device = deviceId) {
+  return fetch(`${baseUrl}/api/debate${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-device-id': device },
+    body: JSON.stringify(body),
+  });
+}
+
+async function createSession() {
+  const created = await post('/session', { topic, adversarialLevel: 2, model1Id: 'mock-fast', model2Id: 'mock-reasoning' });
+  expect(created.status).toBe(200);
+  return (await created.json()).id as string;
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/debate', debateRoutes);
+  server = app.listen(0);
+  await once(server, 'listening');
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  if (server) {
+    server.close();
+    await once(server, 'close');
+  }
+});
+
+describe('server-driven debate runs', () => {
+  test('plays every turn in the background and streams them to attached clients', async () => {
+    const sessionId = await createSession();
+
+    const started = await post(`/session/${sessionId}/run`, { turns: 4, seatSettings: { p2: { temperature: 0.2 } } });
+    expect(started.status).toBe(202);
+    expect(await started.json()).toMatchObject({ sessionId, status: 'running', targetTurns: 4, live: true });
+
+    const events = fetch(`${baseUrl}/api/debate/session/${sessionId}/run/events`).then(response => response.text());
+    const duplicate = await post(`/session/${sessionId}/run`, {});
+    expect(duplicate.status).toBe(409);
+
+    await debateOrchestrator.whenIdle(sessionId);
+    const stream = await events;
+    expect(stream).toContain('event: run.snapshot');
+    expect(stream).toContain('event: turn.chunk');
+    expect(stream).toContain('event: turn.complete');
+    expect(stream.trim().split('\n\n').pop()).toContain('event: run.end');
+
+    const run = await (await fetch(`${baseUrl}/api/debate/session/${sessionId}/run`)).json();
+    // Four turns at 5 credits, then 5 for the verdict the judge gives once the last turn is saved
+    expect(run).toMatchObject({ status: 'completed', turnsCompleted: 4, creditsUsed: 25, currentTurn: null, live: false });
+
+    const stored = await (await fetch(`${baseUrl}/api/debate/session/${sessionId}`)).json();
+    const turns = stored.turnHistory as Array<{ turn: number; participantId: string; modelId: string; content: string }>;
+    expect(turns.map(turn => `${turn.turn}:${turn.participantId}:${turn.modelId}`)).toEqual([
+      '1:p1:mock-fast', '2:p2:mock-reasoning', '3:p1:mock-fast', '4:p2:mock-reasoning',
+    ]);
+    expect(turns.every(turn => turn.content.length > 0)).toBe(true);
+    expect(stored.participantResponseIds.p1).toHaveLength(2);
+    expect(stored.autoRun.status).toBe('completed');
+    expect(stored.verdict).toMatchObject({ judgeModelId: 'mock-fast', winner: 'affirmative', winnerModelId: 'mock-fast' });
+    expect(stored.verdict.turnScores).toHaveLength(4);
+
+    // Re-attaching after the run replays the snapshot and ends at once
+    const replay = await (await fetch(`${baseUrl}/api/debate/session/${sessionId}/run/events`)).text();
+    expect(replay).toContain('"turnsCompleted":4');
+    expect(replay).toContain('event: run.end');
+
+    const nothingLeft = await post(`/session/${sessionId}/run`, { turns: 4 });
+    expect(nothingLeft.status).toBe(400);
+  });
+
+  test('only the owning device can stop a run, and resume continues from the last saved turn', async () => {
+    const sessionId = await createSession();
+    const unknownSeat = await post(`/session/${sessionId}/run`, { seatSettings: { p9: { temperature: 1 } } });
+    expect(unknownSeat.status).toBe(400);
+
+    expect((await post(`/session/${sessionId}/run`, { turns: 6 })).status).toBe(202);
+
+    const stranger = await post(`/session/${sessionId}/run/stop`, {}, 'someone-else');
+    expect(stranger.status).toBe(403);
+
+    const stopped = await post(`/session/${sessionId}/run/stop`, {});
+    expect(stopped.status).toBe(200);
+    expect(await stopped.json()).toMatchObject({ status: 'stopped' });
+    await debateOrchestrator.whenIdle(sessionId);
+
+    const afterStop = await (await fetch(`${baseUrl}/api/debate/session/${sessionId}/run`)).json();
+    expect(afterStop).toMatchObject({ status: 'stopped', live: false });
+    expect(afterStop.turnsCompleted).toBeLessThan(6);
+    expect((await post(`/session/${sessionId}/run/stop`, {})).status).toBe(409);
+
+    const resumed = await post(`/session/${sessionId}/run/resume`, {});
+    expect(resumed.status).toBe(200);
+    await debateOrchestrator.whenIdle(sessionId);
+
+    const final = await (await fetch(`${baseUrl}/api/debate/session/${sessionId}/run`)).json();
+    expect(final).toMatchObject({ status: 'completed', turnsCompleted: 6, creditsUsed: 35 });
+    const stored = await (await fetch(`${baseUrl}/api/debate/session/${sessionId}`)).json();
+    expect((stored.turnHistory as Array<{ turn: number }>).map(turn => turn.turn)).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  test('a run left running by a restart is marked failed at startup and can be resumed', async () => {
+    const sessionId = await createSession();
+    const storage = await getStorage();
+    const now = new Date().toISOString();
+    await storage.setDebateAutoRun(sessionId, {
+      status: 'running',
+      targetTurns: 2,
+      ownerId: null,
+      seatSettings: {},
+      creditsUsed: 0,
+      statusReason: null,
+      startedAt: now,
+      updatedAt: now,
+      completedAt: null,
+    });
+
+    expect(await debateOrchestrator.recoverOrphanedRuns()).toBe(1);
+    const events = await (await fetch(`${baseUrl}/api/debate/session/${sessionId}/run/events`)).text();
+    expect(events).toContain('event: run.end');
+    const recovered = await (await fetch(`${baseUrl}/api/debate/session/${sessionId}/run`)).json();
+    expect(recovered).toMatchObject({ status: 'failed', live: false, statusReason: expect.stringContaining('server restart') });
+
+    expect((await post(`/session/${sessionId}/run/resume`, {})).status).toBe(200);
+    await debateOrchestrator.whenIdle(sessionId);
+    const final = await (await fetch(`${baseUrl}/api/debate/session/${sessionId}/run`)).json();
+    expect(final).toMatchObject({ status: 'completed', turnsCompleted: 2 });
+  });
+});
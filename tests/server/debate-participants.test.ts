@@ -0,0 +1,152 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Verify debates with more than two participants: POST /api/debate/session validates seats and
+ *          speaking order, /stream/init picks the next seat round-robin and rejects a model that does not
+ *          hold the seat, every seat keeps its own previous_response_id chain, panel rebuttals quote the
+ *          statements made since the speaker's last turn, and a panel of three sides is adjudicated side by side.
+ * SRP/DRY check: Pass - Router-level integration against MemStorage and the offline mock provider
+ *                with a scripted rebuttal; no provider mocks.
+ */
+
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import express from 'express';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+
+vi.hoisted(() => {
+  for (const key of ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'DEEPSEEK_API_KEY', 'OPENROUTER_API_KEY']) {
+    process.env[key] ??= 'test-placeholder';
+  }
+  process.env.PROVIDER_RETRY_BASE_DELAY_MS = '1';
+  process.env.DEBATE_JUDGE_MODEL = 'mock-fast';
+  process.env.MOCK_PROVIDER_SCRIPT = new URL('../fixtures/mock-scripts/debate-panel.json', import.meta.url).pathname;
+});
+
+import { debateRoutes } from '../../server/routes/debate.routes';
+
+const deviceId = 'debate-participants-test-device';
+const topic = 'The city should fund a new light-rail line';
+let server: import('node:http').Server | null = null;
+let baseUrl = '';
+
+function post(path: string, body: Record<string, unknown>) {
+  return fetch(`${baseUrl}/api/debate${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-device-id': deviceId },
+    body: JSON.stringify(body),
+  });
+}
+
+/** Initializes a turn and drains its SSE stream until stream.complete */
+async function streamTurn(sessionId: string, turnNumber: number, modelId: string, extra: Record<string, unknown> = {}) {
+  const init = await post('/stream/init', { sessionId, turnNumber, modelId, topic, intensityLevel: 2, model1Id: 'mock-fast', model2Id: 'mock-reasoning', ...extra });
+  expect(init.status).toBe(200);
+  const handshake = await init.json();
+  const stream = await fetch(`${baseUrl}/api/debate/stream/${encodeURIComponent(handshake.taskId)}/${encodeURIComponent(handshake.modelKey)}/${encodeURIComponent(handshake.sessionId)}`);
+  const body = await stream.text();
+  expect(body).toContain('event: stream.complete');
+  return handshake as { participantId: string };
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/debate', debateRoutes);
+  server = app.listen(0);
+  await once(server, 'listening');
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  if (server) {
+    server.close();
+    await once(server, 'close');
+  }
+});
+
+describe('debate participants', () => {
+  test('validates seats and speaking order when a session is created', async () => {
+    const tooMany = await post('/session', {
+      topic,
+      adversarialLevel: 2,
+      participants: Array.from({ length: 7 }, () => ({ modelId: 'mock-fast' })),
+    });
+    expect(tooMany.status).toBe(400);
+
+    const noPosition = await post('/session', {
+      topic,
+      adversarialLevel: 2,
+      participants: [{ modelId: 'mock-fast' }, { modelId: 'mock-reasoning' }, { modelId: 'mock-fast' }],
+    });
+    expect(noPosition.status).toBe(400);
+
+    const badOrder = await post('/session', {
+      topic,
+      adversarialLevel: 2,
+      participants: [{ modelId: 'mock-fast' }, { modelId: 'mock-reasoning' }],
+      speakingOrder: ['p2', 'p9'],
+    });
+    expect(badOrder.status).toBe(400);
+
+    const teamed = await post('/session', {
+      topic,
+      adversarialLevel: 2,
+      participants: [{ modelId: 'mock-fast' }, { modelId: 'mock-reasoning' }, { modelId: 'mock-fast', team: 'Negative' }],
+    });
+    expect(teamed.status).toBe(200);
+    expect((await teamed.json()).participants[2]).toEqual({
+      id: 'p3', modelId: 'mock-fast', label: 'Panelist 3', position: 'AGAINST', team: 'Negative',
+    });
+  });
+
+  test('runs a three-way debate in speaking order with one response chain per seat', async () => {
+    const created = await post('/session', {
+      topic,
+      adversarialLevel: 2,
+      participants: [
+        { modelId: 'mock-fast' },
+        { modelId: 'mock-reasoning' },
+        { modelId: 'mock-fast', label: 'Bus advocate', position: 'Spend the money on bus rapid transit instead', team: null },
+      ],
+      speakingOrder: ['p3', 'p1'],
+    });
+    expect(created.status).toBe(200);
+    const session = await created.json();
+    expect(session).toMatchObject({ model1Id: 'mock-fast', model2Id: 'mock-reasoning', speakingOrder: ['p3', 'p1', 'p2'] });
+
+    // Turn 1 belongs to p3; the Negative's model cannot take it
+    const wrongModel = await post('/stream/init', { sessionId: session.id, turnNumber: 1, modelId: 'mock-reasoning', topic, intensityLevel: 2, model1Id: 'mock-fast', model2Id: 'mock-reasoning' });
+    expect(wrongModel.status).toBe(400);
+
+    expect((await streamTurn(session.id, 1, 'mock-fast')).participantId).toBe('p3');
+    expect((await streamTurn(session.id, 2, 'mock-fast')).participantId).toBe('p1');
+    expect((await streamTurn(session.id, 3, 'mock-reasoning', { participantId: 'p2' })).participantId).toBe('p2');
+    expect((await streamTurn(session.id, 4, 'mock-fast')).participantId).toBe('p3');
+
+    const stored = await (await fetch(`${baseUrl}/api/debate/session/${session.id}`)).json();
+    const turns = stored.turnHistory as Array<{ participantId: string; responseId: string; content: string }>;
+    expect(turns.map(turn => turn.participantId)).toEqual(['p3', 'p1', 'p2', 'p3']);
+    expect(stored.participantResponseIds).toEqual({
+      p3: [turns[0].responseId, turns[3].responseId],
+      p1: [turns[1].responseId],
+      p2: [turns[2].responseId],
+    });
+    expect(stored.model1ResponseIds).toEqual([turns[1].responseId]);
+    expect(stored.model2ResponseIds).toEqual([turns[2].responseId]);
+    // The rebuttal prompt quoted the floor since p3's opening, which the scripted reply keys on
+    expect(turns[3].content).toBe('Answering the floor: neither side priced the transition.');
+    expect(turns[0].content).not.toBe(turns[3].content);
+
+    const adjudication = await post(`/session/${session.id}/adjudicate`, {});
+    expect(adjudication.status).toBe(200);
+    const { verdict } = await adjudication.json();
+    expect(verdict.sides.map((side: { id: string; label: string }) => [side.id, side.label])).toEqual([
+      ['side-1', expect.any(String)],
+      ['side-2', expect.any(String)],
+      ['side-3', 'Bus advocate'],
+    ]);
+    expect(verdict).toMatchObject({ winner: 'side-3', winnerModelId: 'mock-fast' });
+    expect(Object.keys(verdict.sideAverages)).toEqual(['side-1', 'side-2', 'side-3']);
+  });
+});
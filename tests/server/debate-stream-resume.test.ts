@@ -0,0 +1,182 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Verify resumable debate turn streams: every event carries an id, a client whose connection is cut
+ *          mid-turn reconnects with Last-Event-ID and receives exactly the events it missed before following
+ *          the live stream, a reconnect after the turn finished still gets the final event, and a stream
+ *          cannot be launched twice. Also checks the bounded replay buffer reports evicted events and that a
+ *          live stream left idle past the registry's timeout is dropped.
+ * SRP/DRY check: Pass - Router-level integration against MemStorage and the offline mock provider, plus a
+ *                unit check of ResumableSseStream with a recording manager and of StreamSessionRegistry expiry.
+ */
+
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import express from 'express';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+
+vi.hoisted(() => {
+  for (const key of ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'DEEPSEEK_API_KEY', 'OPENROUTER_API_KEY']) {
+    process.env[key] ??= 'test-placeholder';
+  }
+  process.env.PROVIDER_RETRY_BASE_DELAY_MS = '1';
+  // Slow enough that the first connection can be cut while chunks are still coming
+  process.env.MOCK_PROVIDER_CHUNK_DELAY_MS = '10';
+});
+
+import { debateRoutes } from '../../server/routes/debate.routes';
+import { ResumableSseStream } from '../../server/streaming/resumable-stream';
+import { StreamSessionRegistry } from '../../server/streaming/session-registry';
+import type { SseStreamManager } from '../../server/streaming/sse-manager';
+
+const deviceId = 'debate-stream-resume-test-device';
+const topic = 'Remote work should be the default for office jobs';
+let server: import('node:http').Server | null = null;
+let baseUrl = '';
+
+interface ParsedEvent {
+  id: number | null;
+  event: string;
+  data: Record<string, any>;
+}
+
+function parseEvents(text: string): ParsedEvent[] {
+  return text.split('\n\n').flatMap(block => {
+    const lines = block.split('\n');
+    const event = lines.find(line => line.startsWith('event: '))?.slice(7);
+    const data = lines.find(line => line.startsWith('data: '))?.slice(6);
+    if (!event || !data) return [];
+    const id = lines.find(line => line.startsWith('id: '))?.slice(4);
+    return [{ id: id ? Number(id) : null, event, data: JSON.parse(data) }];
+  });
+}
+
+async function initTurn() {
+  const response = await fetch(`${baseUrl}/api/debate/stream/init`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-device-id': deviceId },
+    body: JSON.stringify({ modelId: 'mock-reasoning', topic, intensityLevel: 3, turnNumber: 1, model1Id: 'mock-reasoning', model2Id: 'mock-fast' }),
+  });
+  expect(response.status).toBe(200);
+  const handshake = await response.json();
+  return `${baseUrl}/api/debate/stream/${encodeURIComponent(handshake.taskId)}/${encodeURIComponent(handshake.modelKey)}/${encodeURIComponent(handshake.sessionId)}`;
+}
+
+/** Reads the stream until `count` chunk events have arrived, then drops the connection */
+async function readThenDisconnect(url: string, count: number): Promise<ParsedEvent[]> {
+  const controller = new AbortController();
+  const response = await fetch(url, { signal: controller.signal });
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  while (parseEvents(text).filter(entry => entry.event === 'stream.chunk').length < count) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value, { stream: true });
+  }
+  controller.abort();
+  // Only whole events count as received
+  return parseEvents(text.slice(0, text.lastIndexOf('\n\n') + 2));
+}
+
+function textOf(events: ParsedEvent[], type: 'text' | 'reasoning') {
+  return events.filter(entry => entry.event === 'stream.chunk' && entry.data.type === type).map(entry => entry.data.delta).join('');
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/debate', debateRoutes);
+  server = app.listen(0);
+  await once(server, 'listening');
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  if (server) {
+    server.close();
+    await once(server, 'close');
+  }
+});
+
+describe('resumable debate streams', () => {
+  test('a client cut off mid-turn resumes with Last-Event-ID and receives exactly the missed events', async () => {
+    const url = await initTurn();
+    const before = await readThenDisconnect(url, 3);
+    expect(before.every(entry => entry.id !== null)).toBe(true);
+    const lastId = before[before.length - 1].id!;
+
+    // The turn cannot be launched a second time
+    expect((await fetch(url)).status).toBe(404);
+
+    const resumed = await fetch(url, { headers: { 'Last-Event-ID': String(lastId) } });
+    expect(resumed.status).toBe(200);
+    const after = parseEvents(await resumed.text());
+    expect(after[0].id).toBe(lastId + 1);
+    expect(after.map(entry => entry.id)).toEqual(after.map((_, index) => lastId + 1 + index));
+
+    const complete = after.find(entry => entry.event === 'stream.complete')!;
+    expect(complete).toBeDefined();
+    const events = [...before, ...after];
+    expect(textOf(events, 'reasoning')).toBe(complete.data.reasoning);
+    expect(textOf(events, 'text')).toBe(complete.data.content);
+    expect(complete.data.content.length).toBeGreaterThan(0);
+
+    // After the turn finished, a late reconnect still gets the final event, and the turn was saved once
+    const late = parseEvents(await (await fetch(`${url}?lastEventId=${complete.id! - 1}`)).text());
+    expect(late.map(entry => entry.event)).toEqual(['stream.complete']);
+
+    const session = await (await fetch(`${baseUrl}/api/debate/session/${complete.data.metadata.debateSessionId}`)).json();
+    expect(session.turnHistory).toHaveLength(1);
+    expect(session.turnHistory[0].content).toBe(complete.data.content);
+
+    const unknown = await fetch(`${baseUrl}/api/debate/stream/task/model/no-such-session`, { headers: { 'Last-Event-ID': '3' } });
+    expect(unknown.status).toBe(404);
+  });
+
+  test('the replay buffer is bounded and flags evicted events', () => {
+    const written: Array<{ kind: string; id?: number; phase?: unknown }> = [];
+    const manager = {
+      replay: (entry: { id: number }) => written.push({ kind: 'replay', id: entry.id }),
+      status: (payload: Record<string, unknown>) => written.push({ kind: 'status', phase: payload.phase }),
+      close: () => written.push({ kind: 'close' }),
+    } as unknown as SseStreamManager;
+
+    const stream = new ResumableSseStream(3);
+    for (let index = 0; index < 5; index++) {
+      stream.chunk({ type: 'text', delta: `${index}`, cumulative: '' });
+    }
+    stream.attach(manager, 1);
+    expect(written).toEqual([
+      { kind: 'status', phase: 'replay_truncated' },
+      { kind: 'replay', id: 3 },
+      { kind: 'replay', id: 4 },
+      { kind: 'replay', id: 5 },
+    ]);
+
+    stream.complete({ responseId: 'resp_1' });
+    expect(written.slice(-2)).toEqual([{ kind: 'replay', id: 6 }, { kind: 'close' }]);
+    expect(stream.closedAt).not.toBeNull();
+  });
+
+  test('a live stream that goes quiet past the idle timeout is dropped', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const registry = new StreamSessionRegistry<null>(60_000, { replayBufferSize: 10, liveIdleTimeoutMs: 5_000 });
+      const { sessionId } = registry.createSession('task', 'model', null);
+      const entry = registry.consumeSession(sessionId);
+      expect(entry?.stream).toBeTruthy();
+
+      vi.advanceTimersByTime(4_000);
+      entry?.stream?.chunk({ type: 'text', delta: 'still going', cumulative: 'still going' });
+      vi.advanceTimersByTime(4_000);
+      expect(registry.resumeSession(sessionId)).toBe(entry);
+
+      vi.advanceTimersByTime(1_000);
+      expect(registry.resumeSession(sessionId)).toBeNull();
+      expect(registry.size()).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
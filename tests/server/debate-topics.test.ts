@@ -0,0 +1,105 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Verify the debate topic catalog at /api/debate/topics: the first read seeds it from the Debate
+ *          Topics section of debate-prompts.md (titles without list numbers, with tags and difficulty),
+ *          lists filter by tag, difficulty, source and text, custom topics can be submitted, edited and
+ *          deleted by the submitting device only, seed topics are read-only, and a proposition already
+ *          in the catalog is refused.
+ * SRP/DRY check: Pass - Router-level integration against MemStorage and the repository's markdown seed.
+ */
+
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import express from 'express';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+
+vi.hoisted(() => {
+  for (const key of ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'DEEPSEEK_API_KEY', 'OPENROUTER_API_KEY']) {
+    process.env[key] ??= 'test-placeholder';
+  }
+});
+
+import { debateTopicRoutes } from '../../server/routes/debate-topics.routes';
+
+let server: import('node:http').Server | null = null;
+let baseUrl = '';
+
+function request(method: string, path: string, body?: Record<string, unknown>, deviceId = 'debate-topics-owner') {
+  return fetch(`${baseUrl}/api/debate/topics${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', 'x-device-id': deviceId },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/debate/topics', debateTopicRoutes);
+  server = app.listen(0);
+  await once(server, 'listening');
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  if (server) {
+    server.close();
+    await once(server, 'close');
+  }
+});
+
+describe('debate topic catalog', () => {
+  test('seeds from debate-prompts.md and filters the list', async () => {
+    const catalog = await (await request('GET', '')).json();
+    const titles = catalog.topics.map((topic: any) => topic.title);
+    expect(titles).toContain('Death Penalty');
+    expect(new Set(titles).size).toBe(titles.length);
+    expect(catalog.topics.every((topic: any) => topic.source === 'seed' && topic.ownerId === null)).toBe(true);
+    expect(catalog.topics.find((topic: any) => topic.id === 'nuclear-energy')).toMatchObject({
+      title: 'Nuclear Energy',
+      difficulty: 'introductory',
+      tags: ['energy', 'environment'],
+    });
+    expect(catalog.tags).toContain('justice');
+
+    const justice = await (await request('GET', '?tag=justice&difficulty=introductory')).json();
+    expect(justice.topics.map((topic: any) => topic.id)).toEqual(['death-penalty', 'drug-policy']);
+    const search = await (await request('GET', '?q=NUCLEAR')).json();
+    expect(search.topics.map((topic: any) => topic.id)).toEqual(['nuclear-energy']);
+    expect((await request('GET', '?difficulty=impossible')).status).toBe(400);
+  });
+
+  test('custom topics belong to the device that submitted them', async () => {
+    const created = await request('POST', '', {
+      title: 'Four-Day Week',
+      proposition: 'Employers should move to a four-day working week.',
+      tags: ['Work', ' economics ', 'work'],
+    });
+    expect(created.status).toBe(201);
+    const topic = await created.json();
+    expect(topic).toMatchObject({ source: 'custom', difficulty: 'intermediate', tags: ['work', 'economics'] });
+    expect(topic.ownerId).toBeTruthy();
+
+    // Same proposition, different casing and punctuation
+    const duplicate = await request('POST', '', { title: 'Again', proposition: 'employers should move to a four-day working week' });
+    expect(duplicate.status).toBe(409);
+    expect((await request('POST', '', { title: 'Too short', proposition: 'Yes.' })).status).toBe(400);
+
+    expect((await request('PATCH', `/${topic.id}`, { difficulty: 'advanced' }, 'another-device')).status).toBe(403);
+    const updated = await request('PATCH', `/${topic.id}`, { difficulty: 'advanced', tags: ['work'] });
+    expect(updated.status).toBe(200);
+    expect(await updated.json()).toMatchObject({ difficulty: 'advanced', tags: ['work'], title: 'Four-Day Week' });
+    expect((await request('PATCH', `/${topic.id}`, {})).status).toBe(400);
+
+    const custom = await (await request('GET', '?source=custom')).json();
+    expect(custom.topics.map((entry: any) => entry.id)).toEqual([topic.id]);
+
+    expect((await request('PATCH', '/death-penalty', { title: 'Renamed' })).status).toBe(403);
+    expect((await request('DELETE', '/death-penalty')).status).toBe(403);
+
+    expect((await request('DELETE', `/${topic.id}`, undefined, 'another-device')).status).toBe(403);
+    expect((await request('DELETE', `/${topic.id}`)).status).toBe(204);
+    expect((await request('GET', `/${topic.id}`)).status).toBe(404);
+  });
+});
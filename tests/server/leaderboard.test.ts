@@ -0,0 +1,220 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Verify the leaderboard rating math (Elo and Bradley-Terry) and the /api/leaderboard routes:
+ *          compare votes categorised by compare-prompts.md section, re-votes replacing earlier ones,
+ *          votes limited to catalog models of the voted comparison, debate jury verdicts (one matchup
+ *          per pair of scored panel seats), and filtering by category, source and method.
+ * SRP/DRY check: Pass - Pure functions are checked directly; routes run against MemStorage and the
+ *                real template compiler.
+ */
+
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import express from 'express';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+
+vi.hoisted(() => {
+  for (const key of ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'DEEPSEEK_API_KEY', 'OPENROUTER_API_KEY']) {
+    process.env[key] ??= 'test-placeholder';
+  }
+});
+
+import { leaderboardRoutes } from '../../server/routes/leaderboard.routes';
+import { computeBradleyTerryRatings, computeEloRatings } from '../../server/services/leaderboard.service';
+import { TemplateCompiler } from '../../server/template-compiler';
+import { getStorage } from '../../server/storage';
+
+const deviceId = 'leaderboard-test-device';
+let server: import('node:http').Server | null = null;
+let baseUrl = '';
+let categoryId = '';
+let comparisonId = '';
+
+function post(path: string, body: Record<string, unknown>) {
+  return fetch(`${baseUrl}/api/leaderboard${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-device-id': deviceId },
+    body: JSON.stringify(body),
+  });
+}
+
+async function leaderboard(query: string) {
+  const response = await fetch(`${baseUrl}/api/leaderboard?${query}`);
+  expect(response.status).toBe(200);
+  return await response.json();
+}
+
+beforeAll(async () => {
+  const templateCompiler = new TemplateCompiler();
+  await templateCompiler.compileAllTemplates();
+  const [category] = templateCompiler.getTemplatesByMode('compare');
+  categoryId = category.id;
+
+  const storage = await getStorage();
+  const comparison = await storage.createComparison({
+    prompt: `${category.templates[0].content}\n\nAnswer concisely.`,
+    selectedModels: ['mock-fast', 'mock-reasoning', 'mock-outage'],
+    responses: {},
+  });
+  comparisonId = comparison.id;
+
+  const app = express();
+  app.use(express.json());
+  app.locals.templateCompiler = templateCompiler;
+  app.use('/api/leaderboard', leaderboardRoutes);
+  server = app.listen(0);
+  await once(server, 'listening');
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  if (server) {
+    server.close();
+    await once(server, 'close');
+  }
+});
+
+describe('rating math', () => {
+  test('Elo moves K/2 on an even first match and conserves rating', () => {
+    const ratings = computeEloRatings([
+      { modelAId: 'a', modelBId: 'b', outcome: 'a' },
+      { modelAId: 'b', modelBId: 'c', outcome: 'tie' },
+    ], 32);
+    expect(ratings.get('a')).toBe(1016);
+    expect(ratings.get('b')).toBeCloseTo(984 + 32 * (0.5 - 1 / (1 + Math.pow(10, 16 / 400))));
+    const total = Array.from(ratings.values()).reduce((sum, rating) => sum + rating, 0);
+    expect(total).toBeCloseTo(3000);
+  });
+
+  test('Bradley-Terry orders a transitive chain and keeps unbeaten models finite', () => {
+    const ratings = computeBradleyTerryRatings([
+      { modelAId: 'a', modelBId: 'b', outcome: 'a' },
+      { modelAId: 'b', modelBId: 'c', outcome: 'a' },
+      { modelAId: 'a', modelBId: 'c', outcome: 'a' },
+    ]);
+    expect(ratings.get('a')!).toBeGreaterThan(ratings.get('b')!);
+    expect(ratings.get('b')!).toBeCloseTo(1000, 0);
+    expect(ratings.get('b')!).toBeGreaterThan(ratings.get('c')!);
+    expect(Number.isFinite(ratings.get('a')!)).toBe(true);
+  });
+});
+
+describe('leaderboard routes', () => {
+  test('lists compare-prompt categories', async () => {
+    const categories = await (await fetch(`${baseUrl}/api/leaderboard/categories`)).json();
+    expect(categories.length).toBeGreaterThan(0);
+    expect(categories[0]).toMatchObject({ id: categoryId });
+  });
+
+  test('records a compare vote under the prompt category and replaces it on re-vote', async () => {
+    const first = await post('/votes', { comparisonId, winnerModelId: 'mock-outage' });
+    expect(first.status).toBe(200);
+    expect(await first.json()).toEqual({ recorded: 2, category: categoryId });
+
+    const revote = await post('/votes', { comparisonId, winnerModelId: 'mock-fast' });
+    expect(revote.status).toBe(200);
+
+    const board = await leaderboard(`category=${categoryId}&source=human_vote`);
+    expect(board.totalMatches).toBe(2);
+    expect(board.entries[0]).toMatchObject({ modelId: 'mock-fast', rank: 1, wins: 2, losses: 0, winRate: 1 });
+    expect(board.entries.find((entry: { modelId: string }) => entry.modelId === 'mock-outage')).toMatchObject({ losses: 1 });
+  });
+
+  test('rejects a winner outside the voted models and unknown sources', async () => {
+    const battle = { source: 'battle', referenceId: 'battle-1', modelIds: ['mock-fast', 'mock-reasoning'] };
+    const response = await post('/votes', { ...battle, winnerModelId: 'lb-zeta' });
+    expect(response.status).toBe(400);
+    expect((await response.json()).details).toMatchObject({ code: 'VALIDATION_ERROR' });
+
+    const badSource = await fetch(`${baseUrl}/api/leaderboard?source=crowd`);
+    expect(badSource.status).toBe(400);
+  });
+
+  test('only rates catalog models from the voted comparison, once per voter and reference', async () => {
+    const unknownModel = await post('/votes', { source: 'battle', referenceId: 'battle-2', modelIds: ['mock-fast', 'not-a-model'] });
+    expect(unknownModel.status).toBe(400);
+
+    const outsider = await post('/votes', { comparisonId, modelIds: ['mock-fast', 'gpt-5-nano-2025-08-07'], winnerModelId: 'mock-fast' });
+    expect(outsider.status).toBe(400);
+
+    const unreferenced = await post('/votes', { source: 'battle', modelIds: ['mock-fast', 'mock-reasoning'], winnerModelId: 'mock-fast' });
+    expect(unreferenced.status).toBe(400);
+
+    for (let vote = 0; vote < 3; vote++) {
+      const repeated = await post('/votes', { source: 'battle', referenceId: 'battle-3', modelIds: ['mock-fast', 'mock-reasoning'], winnerModelId: 'mock-reasoning' });
+      expect(repeated.status).toBe(200);
+    }
+    const board = await leaderboard('source=battle');
+    expect(board.totalMatches).toBe(1);
+  });
+
+  test('records a debate jury verdict from annotation points', async () => {
+    const storage = await getStorage();
+    const session = await storage.createDebateSession({
+      topicText: 'Tabs or spaces',
+      model1Id: 'lb-delta',
+      model2Id: 'lb-beta',
+      adversarialLevel: 2,
+      turnHistory: [],
+      model1ResponseIds: [],
+      model2ResponseIds: [],
+    });
+
+    const response = await post(`/debates/${session.id}/jury`, {
+      annotations: {
+        'lb-delta': { modelId: 'lb-delta', points: 1, tags: [], notes: '', needsReview: false },
+        'lb-beta': { modelId: 'lb-beta', points: 4, tags: [], notes: '', needsReview: false },
+      },
+    });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      matchups: [{ modelAId: 'lb-delta', modelBId: 'lb-beta', outcome: 'b' }],
+    });
+
+    const board = await leaderboard('source=debate_jury&method=bradley-terry');
+    expect(board).toMatchObject({ method: 'bradley-terry', totalMatches: 1 });
+    expect(board.entries.map((entry: { modelId: string }) => entry.modelId)).toEqual(['lb-beta', 'lb-delta']);
+
+    const missing = await post('/debates/no-such-debate/jury', { annotations: {} });
+    expect(missing.status).toBe(404);
+  });
+
+  test('rates every pair of scored seats in a panel debate jury', async () => {
+    const storage = await getStorage();
+    const session = await storage.createDebateSession({
+      topicText: 'Monorepos or polyrepos',
+      model1Id: 'lb-panel-a',
+      model2Id: 'lb-panel-b',
+      participants: [
+        { id: 'p1', modelId: 'lb-panel-a', label: 'Panelist 1', position: 'Monorepos', team: null },
+        { id: 'p2', modelId: 'lb-panel-b', label: 'Panelist 2', position: 'Polyrepos', team: null },
+        { id: 'p3', modelId: 'lb-panel-c', label: 'Panelist 3', position: 'It depends', team: null },
+      ],
+      adversarialLevel: 2,
+      turnHistory: [],
+      model1ResponseIds: [],
+      model2ResponseIds: [],
+    });
+
+    const annotation = (modelId: string, points: number) => ({ modelId, points, tags: [], notes: '', needsReview: false });
+    const response = await post(`/debates/${session.id}/jury`, {
+      annotations: {
+        p1: annotation('lb-panel-a', 3),
+        p2: annotation('lb-panel-b', 1),
+        p3: annotation('lb-panel-c', 3),
+      },
+    });
+    expect(response.status).toBe(200);
+    expect((await response.json()).matchups).toEqual([
+      expect.objectContaining({ modelAId: 'lb-panel-a', modelBId: 'lb-panel-b', outcome: 'a' }),
+      expect.objectContaining({ modelAId: 'lb-panel-a', modelBId: 'lb-panel-c', outcome: 'tie' }),
+      expect.objectContaining({ modelAId: 'lb-panel-b', modelBId: 'lb-panel-c', outcome: 'b' }),
+    ]);
+
+    const unknownSeat = await post(`/debates/${session.id}/jury`, {
+      annotations: { p1: annotation('lb-panel-a', 1), p9: annotation('lb-panel-z', 2) },
+    });
+    expect(unknownSeat.status).toBe(400);
+  });
+});
@@ -0,0 +1,147 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Verify /health/providers reports breaker state, failure rate, latency percentiles and the
+ *          last error class per provider, and that the admin reset/force-open actions require the
+ *          admin token and change what callModelWithMessages and streamed calls do.
+ * SRP/DRY check: Pass - Router-level integration against the offline mock provider.
+ */
+
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+
+vi.hoisted(() => {
+  for (const key of ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'DEEPSEEK_API_KEY', 'OPENROUTER_API_KEY']) {
+    process.env[key] ??= 'test-placeholder';
+  }
+  process.env.PROVIDER_RETRY_BASE_DELAY_MS = '1';
+  process.env.ADMIN_API_TOKEN = 'test-admin-token';
+});
+
+import { healthRoutes } from '../../server/routes/health.routes';
+import { callModelWithMessages, getProviderForModel } from '../../server/providers/index';
+import { CircuitBreakerError } from '../../server/errors';
+
+const messages = [{ role: 'user' as const, content: 'ping' }];
+
+/** Streams through the registry and resolves with the delivered content or the reported error */
+function streamModel(modelId: string): Promise<{ content: string; error: Error | null }> {
+  return new Promise((resolve, reject) => {
+    let content = '';
+    const stream = getProviderForModel(modelId).callModelStreaming;
+    if (!stream) {
+      reject(new Error(`${modelId} cannot stream`));
+      return;
+    }
+    void stream({
+      modelId,
+      messages,
+      onReasoningChunk: () => {},
+      onContentChunk: chunk => { content += chunk; },
+      onComplete: () => resolve({ content, error: null }),
+      onError: error => resolve({ content, error }),
+    });
+  });
+}
+
+let server: import('node:http').Server | null = null;
+let baseUrl = '';
+
+beforeAll(async () => {
+  const app = express();
+  app.use('/health', healthRoutes);
+  server = app.listen(0);
+  await once(server, 'listening');
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  if (server) {
+    server.close();
+    await once(server, 'close');
+  }
+});
+
+describe('provider health endpoints', () => {
+  it('reports rolling failure rate, latency and the last error class', async () => {
+    await callModelWithMessages(messages, 'mock-fast');
+    await expect(callModelWithMessages(messages, 'mock-outage')).rejects.toThrow();
+
+    const response = await fetch(`${baseUrl}/health/providers`);
+    expect(response.status).toBe(200);
+    const body = await response.json();
+
+    expect(body.status).toBe('healthy');
+    expect(body.providers.Mock).toMatchObject({
+      state: 'CLOSED',
+      forcedOpen: false,
+      failureCount: 1,
+      recentCalls: 2,
+      recentFailures: 1,
+      failureRate: 0.5,
+      lastError: expect.objectContaining({ status: 503 }),
+    });
+    expect(body.providers.Mock.latencyP50Ms).toBeGreaterThanOrEqual(0);
+    expect(body.providers.Mock.latencyP95Ms).toBeGreaterThanOrEqual(body.providers.Mock.latencyP50Ms);
+    expect(body.providers.OpenAI).toMatchObject({ state: 'CLOSED', recentCalls: 0, failureRate: null });
+  });
+
+  it('rejects admin actions without the admin token', async () => {
+    const missing = await fetch(`${baseUrl}/health/providers/Mock/force-open`, { method: 'POST' });
+    expect(missing.status).toBe(401);
+
+    const wrong = await fetch(`${baseUrl}/health/providers/Mock/force-open`, {
+      method: 'POST',
+      headers: { 'x-admin-token': 'nope' },
+    });
+    expect(wrong.status).toBe(401);
+  });
+
+  it('force-opens and resets a breaker', async () => {
+    const forced = await fetch(`${baseUrl}/health/providers/mock/force-open`, {
+      method: 'POST',
+      headers: { authorization: 'Bearer test-admin-token' },
+    });
+    expect(forced.status).toBe(200);
+    expect((await forced.json()).breaker).toMatchObject({ state: 'OPEN', forcedOpen: true, retryAt: null });
+
+    await expect(callModelWithMessages(messages, 'mock-fast')).rejects.toBeInstanceOf(CircuitBreakerError);
+    const degraded = await (await fetch(`${baseUrl}/health/providers`)).json();
+    expect(degraded.status).toBe('degraded');
+    expect(degraded.openProviders).toEqual(['Mock']);
+    expect(degraded.providers.Mock.recentRejections).toBe(1);
+
+    const reset = await fetch(`${baseUrl}/health/providers/Mock/reset`, {
+      method: 'POST',
+      headers: { 'x-admin-token': 'test-admin-token' },
+    });
+    expect(reset.status).toBe(200);
+    expect((await reset.json()).breaker).toMatchObject({ state: 'CLOSED', forcedOpen: false, failureCount: 0 });
+    await expect(callModelWithMessages(messages, 'mock-fast')).resolves.toMatchObject({ content: expect.any(String) });
+  });
+
+  it('counts streamed calls in the breaker and refuses them while it is open', async () => {
+    expect((await streamModel('mock-fast')).error).toBeNull();
+    expect((await streamModel('mock-outage')).error).toMatchObject({ status: 503 });
+    const afterStreams = (await (await fetch(`${baseUrl}/health/providers`)).json()).providers.Mock;
+    expect(afterStreams).toMatchObject({ state: 'CLOSED', failureCount: 1 });
+
+    await fetch(`${baseUrl}/health/providers/Mock/force-open`, { method: 'POST', headers: { 'x-admin-token': 'test-admin-token' } });
+    const refused = await streamModel('mock-fast');
+    expect(refused.error).toBeInstanceOf(CircuitBreakerError);
+    expect(refused.content).toBe('');
+
+    await fetch(`${baseUrl}/health/providers/Mock/reset`, { method: 'POST', headers: { 'x-admin-token': 'test-admin-token' } });
+    expect((await streamModel('mock-fast')).error).toBeNull();
+  });
+
+  it('returns 404 for unknown providers', async () => {
+    const response = await fetch(`${baseUrl}/health/providers/Nope/reset`, {
+      method: 'POST',
+      headers: { 'x-admin-token': 'test-admin-token' },
+    });
+    expect(response.status).toBe(404);
+  });
+});
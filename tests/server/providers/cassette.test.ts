@@ -0,0 +1,91 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Verify provider cassettes record calls, streamed turns, and fetches to disk and replay
+ *          them byte-for-byte without invoking the underlying provider.
+ * SRP/DRY check: Pass - Uses the mock provider as the recording source; no network access.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { ProviderCassette } from '../../../server/providers/cassette';
+import { MockProvider } from '../../../server/providers/mock';
+
+const messages = [{ role: 'user' as const, content: 'Summarize the debate in one line.' }];
+
+function collectStream(cassette: ProviderCassette, provider: MockProvider) {
+  const result = { reasoning: '', content: '', responseId: '', error: null as Error | null, phases: [] as string[] };
+  return cassette.wrapStreaming(provider, {
+    modelId: 'mock-reasoning',
+    messages,
+    temperature: 0.3,
+    onStatus: phase => { result.phases.push(phase); },
+    onReasoningChunk: chunk => { result.reasoning += chunk; },
+    onContentChunk: chunk => { result.content += chunk; },
+    onComplete: responseId => { result.responseId = responseId; },
+    onError: error => { result.error = error; },
+  }).then(() => result);
+}
+
+describe('ProviderCassette', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'cassettes-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replays a recorded call without invoking the provider', async () => {
+    const provider = new MockProvider();
+    const recorder = new ProviderCassette({ mode: 'record', dir, replaySpeed: 0 });
+    const request = { modelId: 'mock-fast', messages, options: { temperature: 0.2 } };
+    const recorded = await recorder.wrapCall(request, () => provider.callModel(messages, 'mock-fast'));
+    expect(readdirSync(dir)).toHaveLength(1);
+
+    const player = new ProviderCassette({ mode: 'replay', dir, replaySpeed: 0 });
+    const operation = vi.fn();
+    const replayed = await player.wrapCall(request, operation);
+    expect(operation).not.toHaveBeenCalled();
+    expect(replayed).toEqual(recorded);
+  });
+
+  it('throws a ProviderError on a replay miss', async () => {
+    const player = new ProviderCassette({ mode: 'replay', dir, replaySpeed: 0 });
+    await expect(player.wrapCall({ modelId: 'mock-fast', messages }, vi.fn())).rejects.toMatchObject({
+      code: 'PROVIDER_ERROR',
+    });
+  });
+
+  it('records and replays streamed chunks in order', async () => {
+    const provider = new MockProvider();
+    const recorded = await collectStream(new ProviderCassette({ mode: 'record', dir, replaySpeed: 0 }), provider);
+
+    const spy = vi.spyOn(provider, 'callModelStreaming');
+    const replayed = await collectStream(new ProviderCassette({ mode: 'replay', dir, replaySpeed: 0 }), provider);
+
+    expect(spy).not.toHaveBeenCalled();
+    expect(replayed.error).toBeNull();
+    expect(replayed.content).toBe(recorded.content);
+    expect(replayed.reasoning).toBe(recorded.reasoning);
+    expect(replayed.responseId).toBe(recorded.responseId);
+    expect(replayed.phases).toEqual(recorded.phases);
+  });
+
+  it('replays recorded fetch responses for the Responses client', async () => {
+    const upstream = vi.fn(async () => new Response('{"output_text":"ok"}', { status: 200 }));
+    const init = { method: 'POST', body: JSON.stringify({ model: 'gpt-test', input: 'hi' }) };
+
+    const recordFetch = new ProviderCassette({ mode: 'record', dir, replaySpeed: 0 }).wrapFetch(upstream as any);
+    await recordFetch('https://api.openai.com/v1/responses', init);
+
+    const replayFetch = new ProviderCassette({ mode: 'replay', dir, replaySpeed: 0 }).wrapFetch(upstream as any);
+    const response = await replayFetch('https://api.openai.com/v1/responses', init);
+    expect(upstream).toHaveBeenCalledTimes(1);
+    expect(await response.json()).toEqual({ output_text: 'ok' });
+  });
+});
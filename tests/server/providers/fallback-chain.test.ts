@@ -0,0 +1,144 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Verify callModelWithMessages walks the configured fallback chain only once a provider's
+ *          circuit breaker is OPEN, and that route, cost and modelConfig describe the model that ran.
+ *          Streams walk the same chain, except a stream continuing a previous response.
+ * SRP/DRY check: Pass - Exercises the provider registry with vendor calls stubbed on the prototypes.
+ */
+
+import { afterAll, describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+  for (const key of ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'DEEPSEEK_API_KEY', 'OPENROUTER_API_KEY']) {
+    process.env[key] ??= 'test-placeholder';
+  }
+  process.env.PROVIDER_RETRY_BASE_DELAY_MS = '1';
+  process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD = '2';
+  process.env.PROVIDER_FALLBACK_CHAINS = JSON.stringify({
+    'claude-sonnet-4-5': ['openrouter/claude-sonnet-4.5'],
+    'claude-haiku-4-5-20251015': ['openrouter/claude-haiku-4.5'],
+    'gpt-5-nano-2025-08-07': ['mock-fast'],
+  });
+});
+
+import {
+  AnthropicProvider,
+  OpenAIProvider,
+  OpenRouterProvider,
+  callModelWithMessages,
+  getProviderForModel,
+} from '../../../server/providers/index';
+import { CircuitBreakerError, ProviderError } from '../../../server/errors';
+
+const messages = [{ role: 'user' as const, content: 'Summarise the outage report.' }];
+
+const anthropicSpy = vi.spyOn(AnthropicProvider.prototype, 'callModel').mockImplementation(async () => {
+  throw Object.assign(new Error('overloaded_error'), { status: 529 });
+});
+
+const openRouterSpy = vi.spyOn(OpenRouterProvider.prototype, 'callModel').mockImplementation(async function (this: OpenRouterProvider, _messages, model) {
+  const modelConfig = this.models.find(m => m.model === model)!;
+  const tokenUsage = { input: 1000, output: 1000 };
+  return {
+    content: `served by ${model}`,
+    responseTime: 5,
+    tokenUsage,
+    cost: this.calculateCost(modelConfig, tokenUsage),
+  };
+});
+
+const openAiStreamSpy = vi.spyOn(OpenAIProvider.prototype, 'callModelStreaming').mockImplementation(async options => {
+  options.onError(Object.assign(new Error('overloaded_error'), { status: 529 }));
+});
+
+afterAll(() => {
+  anthropicSpy.mockRestore();
+  openRouterSpy.mockRestore();
+  openAiStreamSpy.mockRestore();
+});
+
+function streamModel(modelId: string, previousResponseId?: string) {
+  return new Promise<{ content: string; error: Error | null; statuses: Array<{ phase: string; data?: Record<string, unknown> }> }>(resolve => {
+    let content = '';
+    const statuses: Array<{ phase: string; data?: Record<string, unknown> }> = [];
+    void getProviderForModel(modelId).callModelStreaming!({
+      modelId,
+      messages,
+      previousResponseId,
+      onReasoningChunk: () => {},
+      onContentChunk: chunk => {
+        content += chunk;
+      },
+      onStatus: (phase, data) => statuses.push({ phase, data }),
+      onComplete: () => resolve({ content, error: null, statuses }),
+      onError: error => resolve({ content, error, statuses }),
+    });
+  });
+}
+
+describe('provider fallback chains', () => {
+  it('surfaces ordinary provider errors while the breaker is still closed', async () => {
+    await expect(callModelWithMessages(messages, 'claude-sonnet-4-5')).rejects.toBeInstanceOf(ProviderError);
+    expect(openRouterSpy).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the OpenRouter route once the Anthropic breaker trips', async () => {
+    const result = await callModelWithMessages(messages, 'claude-sonnet-4-5');
+
+    expect(result.content).toBe('served by anthropic/claude-sonnet-4.5');
+    expect(result.route).toMatchObject({
+      requestedModelId: 'claude-sonnet-4-5',
+      servedModelId: 'openrouter/claude-sonnet-4.5',
+      provider: 'OpenRouter',
+      fallbackUsed: true,
+    });
+    expect(result.route.skipped).toEqual([
+      expect.objectContaining({ modelId: 'claude-sonnet-4-5', provider: 'Anthropic' }),
+    ]);
+    expect(result.modelConfig.id).toBe('openrouter/claude-sonnet-4.5');
+    expect(result.cost?.total).toBeCloseTo(0.018);
+  });
+
+  it('skips the open provider entirely on later calls', async () => {
+    anthropicSpy.mockClear();
+    const result = await callModelWithMessages(messages, 'claude-haiku-4-5-20251015');
+
+    expect(anthropicSpy).not.toHaveBeenCalled();
+    expect(result.route.servedModelId).toBe('openrouter/claude-haiku-4.5');
+    expect(result.cost?.total).toBeCloseTo(0.006);
+  });
+
+  it('still throws when a model has no fallback chain', async () => {
+    await expect(callModelWithMessages(messages, 'claude-3-haiku-20240307')).rejects.toBeInstanceOf(CircuitBreakerError);
+  });
+});
+
+describe('streamed fallback chains', () => {
+  it('surfaces stream errors until the breaker trips, then streams from the next model in the chain', async () => {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const failed = await streamModel('gpt-5-nano-2025-08-07');
+      expect(failed.error).toMatchObject({ status: 529 });
+    }
+
+    openAiStreamSpy.mockClear();
+    const served = await streamModel('gpt-5-nano-2025-08-07');
+    expect(openAiStreamSpy).not.toHaveBeenCalled();
+    expect(served.error).toBeNull();
+    expect(served.content).not.toBe('');
+    expect(served.statuses).toContainEqual({
+      phase: 'fallback',
+      data: expect.objectContaining({
+        requestedModelId: 'gpt-5-nano-2025-08-07',
+        servedModelId: 'mock-fast',
+        provider: 'Mock',
+      }),
+    });
+  });
+
+  it('keeps a stream that continues a previous response on its own model', async () => {
+    const refused = await streamModel('gpt-5-nano-2025-08-07', 'resp_previous');
+    expect(refused.error).toBeInstanceOf(CircuitBreakerError);
+    expect(refused.statuses.some(status => status.phase === 'fallback')).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Verify the offline mock provider is deterministic, streams reasoning before content,
+ *          reports Responses-style usage, and simulates outages for resilience tests.
+ * SRP/DRY check: Pass - Exercises MockProvider in isolation; no registry or route wiring.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { MockProvider } from '../../../server/providers/mock';
+
+const messages = [
+  { role: 'system' as const, content: 'You are a careful analyst.' },
+  { role: 'user' as const, content: 'Compare two caching strategies.' },
+];
+
+describe('MockProvider', () => {
+  it('returns identical content, usage and cost for identical prompts', async () => {
+    const provider = new MockProvider();
+    const first = await provider.callModel(messages, 'mock-reasoning');
+    const second = await provider.callModel(messages, 'mock-reasoning');
+
+    expect(first.content).toBe(second.content);
+    expect(first.reasoning).toBe(second.reasoning);
+    expect(first.reasoning).toBeTruthy();
+    expect(first.tokenUsage).toEqual(second.tokenUsage);
+    expect(first.cost?.total).toBeGreaterThan(0);
+    expect((first as any).responseId).toMatch(/^mock_resp_/);
+  });
+
+  it('varies output with the prompt', async () => {
+    const provider = new MockProvider();
+    const a = await provider.callModel(messages, 'mock-fast');
+    const b = await provider.callModel([{ role: 'user', content: 'Something else entirely.' }], 'mock-fast');
+    expect(a.content).not.toBe(b.content);
+    expect(a.reasoning).toBeUndefined();
+  });
+
+  it('streams reasoning chunks before content and completes with usage', async () => {
+    const provider = new MockProvider();
+    const order: string[] = [];
+    let reasoning = '';
+    let content = '';
+    let completed: { responseId: string; usage: any; cost: any } | null = null;
+
+    await provider.callModelStreaming({
+      modelId: 'mock-reasoning',
+      messages,
+      onReasoningChunk: chunk => { order.push('reasoning'); reasoning += chunk; },
+      onContentChunk: chunk => { order.push('content'); content += chunk; },
+      onComplete: (responseId, usage, cost) => { completed = { responseId, usage, cost }; },
+      onError: error => { throw error; },
+    });
+
+    const direct = await provider.callModel(messages, 'mock-reasoning');
+    expect(content).toBe(direct.content);
+    expect(reasoning).toBe(direct.reasoning);
+    expect(order.indexOf('content')).toBeGreaterThan(order.lastIndexOf('reasoning'));
+    expect(completed).not.toBeNull();
+    expect(completed!.usage.input_tokens).toBe(direct.tokenUsage?.input);
+    expect(completed!.cost.total).toBeCloseTo(direct.cost!.total);
+  });
+
+  it('simulates a vendor outage with an HTTP status', async () => {
+    const provider = new MockProvider();
+    await expect(provider.callModel(messages, 'mock-outage')).rejects.toMatchObject({ status: 503 });
+
+    let streamError: Error | null = null;
+    await provider.callModelStreaming({
+      modelId: 'mock-outage',
+      messages,
+      onReasoningChunk: () => {},
+      onContentChunk: () => {},
+      onComplete: () => {},
+      onError: error => { streamError = error; },
+    });
+    expect(streamError).toBeInstanceOf(Error);
+  });
+});
@@ -0,0 +1,179 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Verify the provider rate limiter caps concurrency per provider and per model, reports
+ *          queue positions as they change, throttles with a refilling token bucket, and drops a waiter
+ *          whose caller aborts.
+ * SRP/DRY check: Pass - Exercises ProviderRateLimiter in isolation with explicit limits.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ProviderRateLimiter } from '../../../server/providers/rate-limiter';
+
+const unlimited = { maxConcurrent: 0, requestsPerMinute: 0 };
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('ProviderRateLimiter', () => {
+  it('queues beyond the provider concurrency limit and reports positions', async () => {
+    const limiter = new ProviderRateLimiter({
+      providerDefaults: { maxConcurrent: 1, requestsPerMinute: 0 },
+      modelDefaults: unlimited,
+      providers: {},
+      models: {},
+    });
+    const gate = deferred();
+    const positions: Record<string, number[]> = { b: [], c: [] };
+    const order: string[] = [];
+
+    const a = limiter.run({ provider: 'OpenAI', modelId: 'gpt' }, async () => { order.push('a'); await gate.promise; });
+    const b = limiter.run({ provider: 'OpenAI', modelId: 'gpt' }, async () => { order.push('b'); }, {
+      onQueued: position => positions.b.push(position),
+    });
+    const c = limiter.run({ provider: 'OpenAI', modelId: 'gpt' }, async () => { order.push('c'); }, {
+      onQueued: position => positions.c.push(position),
+    });
+
+    await Promise.resolve();
+    expect(order).toEqual(['a']);
+    expect(limiter.snapshot().providers.OpenAI).toMatchObject({ active: 1, queued: 2 });
+
+    gate.resolve();
+    await Promise.all([a, b, c]);
+
+    expect(order).toEqual(['a', 'b', 'c']);
+    expect(positions.b).toEqual([1]);
+    expect(positions.c).toEqual([2, 1]);
+    expect(limiter.snapshot().providers.OpenAI).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  it('does not let a saturated model block other models on the same provider', async () => {
+    const limiter = new ProviderRateLimiter({
+      providerDefaults: { maxConcurrent: 4, requestsPerMinute: 0 },
+      modelDefaults: { maxConcurrent: 1, requestsPerMinute: 0 },
+      providers: {},
+      models: {},
+    });
+    const gate = deferred();
+    const started: string[] = [];
+
+    const first = limiter.run({ provider: 'Anthropic', modelId: 'sonnet' }, async () => { started.push('sonnet-1'); await gate.promise; });
+    const second = limiter.run({ provider: 'Anthropic', modelId: 'sonnet' }, async () => { started.push('sonnet-2'); });
+    const other = limiter.run({ provider: 'Anthropic', modelId: 'haiku' }, async () => { started.push('haiku'); });
+
+    await other;
+    expect(started).toEqual(['sonnet-1', 'haiku']);
+
+    gate.resolve();
+    await Promise.all([first, second]);
+    expect(started).toEqual(['sonnet-1', 'haiku', 'sonnet-2']);
+  });
+
+  it('throttles with a token bucket that refills over time', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+    const limiter = new ProviderRateLimiter({
+      providerDefaults: { maxConcurrent: 0, requestsPerMinute: 2 },
+      modelDefaults: unlimited,
+      providers: {},
+      models: {},
+    });
+    const started: number[] = [];
+    const waits: number[] = [];
+    const run = (id: number) => limiter.run({ provider: 'OpenRouter', modelId: 'grok' }, async () => { started.push(id); }, {
+      onDequeued: waitedMs => waits.push(waitedMs),
+    });
+
+    await Promise.all([run(1), run(2)]);
+    const third = run(3);
+    await Promise.resolve();
+    expect(started).toEqual([1, 2]);
+
+    // Two requests per minute -> one token every 30 seconds
+    await vi.advanceTimersByTimeAsync(30_000);
+    await third;
+    expect(started).toEqual([1, 2, 3]);
+    expect(waits).toEqual([30_000]);
+  });
+
+  it('applies per-provider and per-model overrides', () => {
+    const limiter = new ProviderRateLimiter({
+      providerDefaults: { maxConcurrent: 8, requestsPerMinute: 120 },
+      modelDefaults: { maxConcurrent: 4, requestsPerMinute: 0 },
+      providers: { OpenAI: { maxConcurrent: 2 } },
+      models: { 'gpt-5': { requestsPerMinute: 10 } },
+    });
+    void limiter.acquire({ provider: 'OpenAI', modelId: 'gpt-5' });
+    const snapshot = limiter.snapshot();
+    expect(snapshot.providers.OpenAI).toMatchObject({ maxConcurrent: 2, requestsPerMinute: 120 });
+    expect(snapshot.models['gpt-5']).toMatchObject({ maxConcurrent: 4, requestsPerMinute: 10, tokens: 9 });
+  });
+
+  it('removes an aborted waiter from the queue and rejects it with the abort reason', async () => {
+    const limiter = new ProviderRateLimiter({
+      providerDefaults: { maxConcurrent: 1, requestsPerMinute: 0 },
+      modelDefaults: unlimited,
+      providers: {},
+      models: {},
+    });
+    const gate = deferred();
+    const controller = new AbortController();
+    const positions: number[] = [];
+    const order: string[] = [];
+
+    const a = limiter.run({ provider: 'OpenAI', modelId: 'gpt' }, async () => { order.push('a'); await gate.promise; });
+    const b = limiter.run({ provider: 'OpenAI', modelId: 'gpt' }, async () => { order.push('b'); }, {
+      signal: controller.signal,
+    });
+    const c = limiter.run({ provider: 'OpenAI', modelId: 'gpt' }, async () => { order.push('c'); }, {
+      onQueued: position => positions.push(position),
+    });
+    expect(limiter.snapshot().providers.OpenAI.queued).toBe(2);
+
+    controller.abort(new Error('caller went away'));
+    await expect(b).rejects.toThrow('caller went away');
+    expect(limiter.snapshot().providers.OpenAI.queued).toBe(1);
+    expect(positions).toEqual([2, 1]);
+
+    gate.resolve();
+    await Promise.all([a, c]);
+    expect(order).toEqual(['a', 'c']);
+  });
+
+  it('never runs a fetch whose signal aborts while it waits', async () => {
+    const limiter = new ProviderRateLimiter({
+      providerDefaults: { maxConcurrent: 1, requestsPerMinute: 0 },
+      modelDefaults: unlimited,
+      providers: {},
+      models: {},
+    });
+    const gate = deferred();
+    const fetchFn = vi.fn(async () => new Response('{}'));
+    const busy = limiter.run({ provider: 'OpenAI', modelId: 'gpt' }, () => gate.promise);
+
+    const controller = new AbortController();
+    const wrapped = limiter.wrapFetch(fetchFn as unknown as typeof fetch, 'OpenAI');
+    const pending = wrapped('https://api.example.test/v1/responses', {
+      method: 'POST',
+      body: JSON.stringify({ model: 'gpt' }),
+      signal: controller.signal,
+    });
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    await expect(wrapped('https://api.example.test/v1/responses', { signal: controller.signal }))
+      .rejects.toMatchObject({ name: 'AbortError' });
+
+    gate.resolve();
+    await busy;
+    expect(fetchFn).not.toHaveBeenCalled();
+    expect(limiter.snapshot().providers.OpenAI.queued).toBe(0);
+  });
+});
@@ -0,0 +1,168 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Verify the shared provider retry policy classifies errors (never retrying aborts), honours
+ *          Retry-After, backs off with bounded jitter, and only retries streamed calls before the first chunk.
+ * SRP/DRY check: Pass - Exercises RetryPolicy in isolation with an injected clock-free sleep.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { RetryPolicy, getRetryAfterMs, isRetryableError } from '../../../server/providers/retry-policy';
+
+const config = { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1000, maxRetryAfterMs: 5000 };
+
+function httpError(status: number, headers?: Record<string, string>) {
+  return Object.assign(new Error(`HTTP ${status}`), { status, headers });
+}
+
+function createPolicy() {
+  const sleeps: number[] = [];
+  const policy = new RetryPolicy(config, {
+    sleep: async ms => { sleeps.push(ms); },
+    random: () => 0.5,
+  });
+  return { policy, sleeps };
+}
+
+describe('RetryPolicy', () => {
+  it('separates transient failures from permanent ones', () => {
+    expect(isRetryableError(httpError(429))).toBe(true);
+    expect(isRetryableError(httpError(503))).toBe(true);
+    expect(isRetryableError(httpError(529))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toBe(true);
+    expect(isRetryableError(httpError(400))).toBe(false);
+    expect(isRetryableError(httpError(401))).toBe(false);
+    expect(isRetryableError(new Error('Model not found'))).toBe(false);
+  });
+
+  it('does not retry calls aborted by their own timeout or a caller signal', async () => {
+    const callerAbort = await fetch('http://127.0.0.1:9', { signal: AbortSignal.abort() }).catch(error => error);
+    const timeoutAbort = await fetch('http://127.0.0.1:9', {
+      signal: AbortSignal.abort(new DOMException('The operation timed out.', 'TimeoutError')),
+    }).catch(error => error);
+    expect(isRetryableError(callerAbort)).toBe(false);
+    expect(isRetryableError(timeoutAbort)).toBe(false);
+    expect(isRetryableError(Object.assign(new Error('Request was aborted.'), { name: 'APIUserAbortError' }))).toBe(false);
+    expect(isRetryableError(Object.assign(new Error('Request timed out.'), { name: 'APIConnectionTimeoutError' }))).toBe(false);
+
+    const { policy, sleeps } = createPolicy();
+    let calls = 0;
+    await expect(policy.execute(async () => {
+      calls++;
+      throw callerAbort;
+    })).rejects.toBe(callerAbort);
+    expect(calls).toBe(1);
+    expect(sleeps).toEqual([]);
+  });
+
+  it('reads Retry-After in seconds, HTTP dates and retry-after-ms', () => {
+    expect(getRetryAfterMs(httpError(429, { 'retry-after': '2' }))).toBe(2000);
+    expect(getRetryAfterMs(httpError(429, { 'Retry-After-Ms': '150' }))).toBe(150);
+    const now = Date.parse('2026-10-19T12:00:00Z');
+    expect(getRetryAfterMs(httpError(429, { 'retry-after': 'Mon, 19 Oct 2026 12:00:03 GMT' }), now)).toBe(3000);
+    expect(getRetryAfterMs(httpError(429))).toBeUndefined();
+  });
+
+  it('retries transient errors with jittered exponential backoff, then succeeds', async () => {
+    const { policy, sleeps } = createPolicy();
+    let calls = 0;
+    const result = await policy.execute(async () => {
+      calls++;
+      if (calls < 3) throw httpError(502);
+      return 'ok';
+    });
+
+    expect(result).toBe('ok');
+    expect(calls).toBe(3);
+    // Equal jitter with random=0.5: 75% of 100ms, then 75% of 200ms
+    expect(sleeps).toEqual([75, 150]);
+  });
+
+  it('honours Retry-After and gives up when it exceeds the cap', async () => {
+    const { policy, sleeps } = createPolicy();
+    let calls = 0;
+    await policy.execute(async () => {
+      calls++;
+      if (calls === 1) throw httpError(429, { 'retry-after': '1' });
+      return 'ok';
+    });
+    expect(sleeps).toEqual([1000]);
+
+    await expect(policy.execute(async () => {
+      throw httpError(429, { 'retry-after': '60' });
+    })).rejects.toMatchObject({ status: 429 });
+    expect(sleeps).toEqual([1000]);
+  });
+
+  it('does not retry permanent errors or past maxAttempts', async () => {
+    const { policy } = createPolicy();
+    let permanentCalls = 0;
+    await expect(policy.execute(async () => {
+      permanentCalls++;
+      throw httpError(400);
+    })).rejects.toMatchObject({ status: 400 });
+    expect(permanentCalls).toBe(1);
+
+    let transientCalls = 0;
+    await expect(policy.execute(async () => {
+      transientCalls++;
+      throw httpError(503);
+    })).rejects.toMatchObject({ status: 503 });
+    expect(transientCalls).toBe(3);
+  });
+
+  it('reports retries through onStatus for streams that failed before any chunk', async () => {
+    const { policy } = createPolicy();
+    const phases: Array<{ phase: string; data?: Record<string, unknown> }> = [];
+    let content = '';
+    let completed = false;
+    let attempts = 0;
+
+    await policy.executeStreaming({
+      modelId: 'test-model',
+      messages: [],
+      onStatus: (phase, data) => phases.push({ phase, data }),
+      onReasoningChunk: () => {},
+      onContentChunk: chunk => { content += chunk; },
+      onComplete: () => { completed = true; },
+      onError: error => { throw error; },
+    }, async options => {
+      attempts++;
+      if (attempts === 1) {
+        options.onError(httpError(429));
+        return;
+      }
+      options.onContentChunk('hello');
+      options.onComplete('resp_1', {}, {});
+    });
+
+    expect(attempts).toBe(2);
+    expect(completed).toBe(true);
+    expect(content).toBe('hello');
+    expect(phases).toEqual([
+      { phase: 'retrying', data: expect.objectContaining({ attempt: 1, maxAttempts: 3, status: 429 }) },
+    ]);
+  });
+
+  it('surfaces stream failures after content has been delivered', async () => {
+    const { policy } = createPolicy();
+    let attempts = 0;
+    let streamError: Error | null = null;
+
+    await policy.executeStreaming({
+      modelId: 'test-model',
+      messages: [],
+      onReasoningChunk: () => {},
+      onContentChunk: () => {},
+      onComplete: () => {},
+      onError: error => { streamError = error; },
+    }, async options => {
+      attempts++;
+      options.onContentChunk('partial');
+      options.onError(httpError(503));
+    });
+
+    expect(attempts).toBe(1);
+    expect(streamError).toMatchObject({ status: 503 });
+  });
+});
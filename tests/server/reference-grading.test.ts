@@ -0,0 +1,153 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Verify reference answers are parsed out of compare-prompts.md (and hidden from the prompt),
+ *          that exact grading needs the whole final answer to match and a broken regex fails the grade,
+ *          and that POST /api/models/comparisons/:id/grade grades each response with the matching
+ *          deterministic grader, falls back to the grading model on misses, charges only for
+ *          grading-model calls, and feeds GET /api/models/accuracy.
+ * SRP/DRY check: Pass - Router-level integration against MemStorage and the offline mock provider
+ *                with a scripted grading verdict.
+ */
+
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import express from 'express';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+
+vi.hoisted(() => {
+  for (const key of ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'DEEPSEEK_API_KEY', 'OPENROUTER_API_KEY']) {
+    process.env[key] ??= 'test-placeholder';
+  }
+  process.env.PROVIDER_RETRY_BASE_DELAY_MS = '1';
+  process.env.REFERENCE_GRADER_MODEL = 'mock-fast';
+  process.env.MOCK_PROVIDER_SCRIPT = new URL('../fixtures/mock-scripts/grading.json', import.meta.url).pathname;
+});
+
+import { modelsRoutes } from '../../server/routes/models.routes';
+import { getStorage } from '../../server/storage';
+import { TemplateCompiler } from '../../server/template-compiler';
+import { exactGrader, regexGrader } from '../../server/services/grading.service';
+import { extractReferenceAnswer } from '../../shared/reference-answer';
+
+const deviceId = 'reference-grading-test-device';
+const ellipticTemplateId = 'hle-questions:elliptic-curves';
+let server: import('node:http').Server | null = null;
+let baseUrl = '';
+let templateCompiler: TemplateCompiler;
+
+function grade(comparisonId: string, body: Record<string, unknown> = {}) {
+  return fetch(`${baseUrl}/api/models/comparisons/${comparisonId}/grade`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-device-id': deviceId },
+    body: JSON.stringify(body),
+  });
+}
+
+beforeAll(async () => {
+  templateCompiler = new TemplateCompiler();
+  await templateCompiler.compileAllTemplates();
+
+  const app = express();
+  app.use(express.json());
+  app.locals.templateCompiler = templateCompiler;
+  app.use('/api/models', modelsRoutes);
+  server = app.listen(0);
+  await once(server, 'listening');
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  if (server) {
+    server.close();
+    await once(server, 'close');
+  }
+});
+
+describe('reference answers', () => {
+  test('parses the annotation and keeps it out of the prompt', () => {
+    const parsed = extractReferenceAnswer('How far is it?\n\n> Answer: 12.5\n> Tolerance: 2%');
+    expect(parsed).toEqual({
+      content: 'How far is it?',
+      referenceAnswer: { answer: '12.5', grader: 'numeric', tolerance: 0.02, relativeTolerance: true },
+    });
+    expect(extractReferenceAnswer('> Answer: Cs\n> Grader: regex')).toMatchObject({ referenceAnswer: { answer: 'Cs', grader: 'regex' } });
+    expect(extractReferenceAnswer('No answer here.')).toEqual({ content: 'No answer here.' });
+
+    const template = templateCompiler.getTemplate(ellipticTemplateId);
+    expect(template?.referenceAnswer).toEqual({ answer: '18', grader: 'numeric' });
+    expect(template?.content).not.toContain('Answer:');
+  });
+
+  test('exact grading compares the whole final answer and a broken pattern fails the grade', async () => {
+    const context = { prompt: 'Which option?', graderModelId: 'mock-fast' };
+    const grade = (response: string, answer: string, grader: 'exact' | 'regex' = 'exact') =>
+      (grader === 'exact' ? exactGrader : regexGrader).grade(response, { answer, grader }, context);
+
+    expect((await grade('Thinking...\nThe answer is **A**.', 'A')).passed).toBe(true);
+    expect((await grade('Final answer: 42', '42')).passed).toBe(true);
+    expect((await grade('B, not A', 'A')).passed).toBe(false);
+    expect((await grade('not 42', '42')).passed).toBe(false);
+
+    const broken = await grade('Answer: Cs', '(Cs', 'regex');
+    expect(broken).toMatchObject({ passed: false, extractedAnswer: 'Cs' });
+    expect(broken.explanation).toContain('not a valid regular expression');
+  });
+
+  test('grades responses, re-checks misses with the grading model and charges only for those calls', async () => {
+    const storage = await getStorage();
+    const user = await storage.ensureDeviceUser(deviceId);
+    const before = await storage.getUserCredits(user.id);
+    const prompt = templateCompiler.getTemplate(ellipticTemplateId)!.content;
+    const comparison = await storage.createComparison({
+      prompt,
+      selectedModels: ['model-one', 'model-two', 'model-three', 'model-four'],
+      responses: {
+        'model-one': { content: 'Working through Najman\'s classification...\n\nFinal answer: 18', status: 'success', responseTime: 10 },
+        'model-two': { content: 'The largest is **eighteen**.', status: 'success', responseTime: 10 },
+        'model-three': { content: 'Answer: 16', status: 'success', responseTime: 10 },
+        'model-four': { content: '', status: 'error', responseTime: 0, error: 'HTTP 503' },
+      },
+    });
+
+    const response = await grade(comparison.id);
+    expect(response.status).toBe(200);
+    const result = await response.json();
+    expect(result).toMatchObject({ templateId: ellipticTemplateId, reference: { answer: '18' }, creditsUsed: 2 });
+    expect(result.grades).toEqual([
+      expect.objectContaining({ modelId: 'model-one', passed: true, grader: 'numeric', fallbackFrom: null, extractedAnswer: '18' }),
+      expect.objectContaining({ modelId: 'model-two', passed: true, grader: 'llm', fallbackFrom: 'numeric', extractedAnswer: 'eighteen' }),
+      expect.objectContaining({ modelId: 'model-three', passed: false, grader: 'llm', fallbackFrom: 'numeric' }),
+    ]);
+    expect(await storage.getUserCredits(user.id)).toBe(before - 2);
+
+    const stored = await (await fetch(`${baseUrl}/api/models/comparisons/${comparison.id}`)).json();
+    expect(stored.grading.grades).toHaveLength(3);
+
+    const accuracy = await (await fetch(`${baseUrl}/api/models/accuracy?category=hle-questions`)).json();
+    expect(accuracy.map((entry: { modelId: string; accuracy: number }) => [entry.modelId, entry.accuracy])).toEqual([
+      ['model-one', 1],
+      ['model-two', 1],
+      ['model-three', 0],
+    ]);
+  });
+
+  test('accepts an inline reference and skips prompts without one', async () => {
+    const storage = await getStorage();
+    const comparison = await storage.createComparison({
+      prompt: 'Spell the answer backwards.',
+      selectedModels: ['model-one'],
+      responses: { 'model-one': { content: 'Easy.\n**Final answer:** YEYO.', status: 'success', responseTime: 5 } },
+    });
+
+    const ungraded = await (await grade(comparison.id)).json();
+    expect(ungraded).toMatchObject({ reference: null, grades: [], creditsUsed: 0 });
+
+    const inline = await (await grade(comparison.id, { reference: { answer: 'yeyo', grader: 'exact' } })).json();
+    expect(inline.grades).toEqual([expect.objectContaining({ modelId: 'model-one', passed: true, grader: 'exact', extractedAnswer: 'YEYO.' })]);
+    expect(inline.creditsUsed).toBe(0);
+
+    const badTemplate = await grade(comparison.id, { templateId: 'analysis---reasoning:general-calibration' });
+    expect(badTemplate.status).toBe(400);
+  });
+});
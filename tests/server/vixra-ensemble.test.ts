@@ -0,0 +1,144 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Verify Vixra section ensembles: several models write the same section in parallel and every
+ *          version is kept in the session's alternatives; a judge model picks the winner (or, in manual
+ *          mode, the pipeline waits for the owner's pick), only the winner is quoted by dependent sections,
+ *          and a saved version can be swapped in later through /api/sessions/:id/sections/:sectionId/pick,
+ *          which leaves the sections built on the old winner stale.
+ * SRP/DRY check: Pass - Router-level integration against MemStorage and the offline mock provider.
+ */
+
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import express from 'express';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+
+vi.hoisted(() => {
+  for (const key of ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'DEEPSEEK_API_KEY', 'OPENROUTER_API_KEY']) {
+    process.env[key] ??= 'test-placeholder';
+  }
+  process.env.PROVIDER_RETRY_BASE_DELAY_MS = '1';
+  process.env.MOCK_PROVIDER_LATENCY_MS = '20';
+  process.env.MOCK_PROVIDER_SCRIPT = new URL('../fixtures/mock-scripts/vixra-ensemble.json', import.meta.url).pathname;
+});
+
+import { sessionsRoutes } from '../../server/routes/sessions.routes';
+import { vixraPipelineService } from '../../server/services/vixra-pipeline.service';
+
+const deviceId = 'vixra-ensemble-test-device';
+let server: import('node:http').Server | null = null;
+let baseUrl = '';
+
+function post(path: string, body: Record<string, unknown>, device = deviceId) {
+  return fetch(`${baseUrl}/api/sessions${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-device-id': device },
+    body: JSON.stringify(body),
+  });
+}
+
+async function createSession(variables: Record<string, string>) {
+  const created = await post('', { variables, template: 'vixra', responses: {} });
+  expect(created.status).toBe(200);
+  return (await created.json()).id as string;
+}
+
+async function getSession(sessionId: string) {
+  return (await fetch(`${baseUrl}/api/sessions/${sessionId}`)).json();
+}
+
+async function getPipeline(sessionId: string) {
+  return (await fetch(`${baseUrl}/api/sessions/${sessionId}/pipeline`)).json();
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/sessions', sessionsRoutes);
+  server = app.listen(0);
+  await once(server, 'listening');
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  if (server) {
+    server.close();
+    await once(server, 'close');
+  }
+});
+
+describe('Vixra section ensembles', () => {
+  test('a judge picks the winning version and only the winner flows into dependent sections', async () => {
+    const sessionId = await createSession({ Author: 'Dr. Max Power', ScienceCategory: 'Physics - Quantum Physics', Title: 'Quantum Lasagna Dynamics' });
+
+    const started = await post(`/${sessionId}/pipeline`, {
+      modelId: 'mock-fast',
+      sectionModels: { abstract: ['mock-fast', 'mock-reasoning'] },
+      judgeModelId: 'mock-fast',
+    });
+    expect(started.status).toBe(202);
+    const events = fetch(`${baseUrl}/api/sessions/${sessionId}/pipeline/events`).then(response => response.text());
+    await vixraPipelineService.whenIdle(sessionId);
+
+    const stream = await events;
+    expect(stream).toContain('event: section.alternative');
+    const pipeline = await getPipeline(sessionId);
+    expect(pipeline).toMatchObject({ status: 'completed', sectionModels: { abstract: ['mock-fast', 'mock-reasoning'] }, pickMode: 'judge' });
+
+    const stored = await getSession(sessionId);
+    expect(Object.keys(stored.alternatives.abstract)).toEqual(['mock-fast', 'mock-reasoning']);
+    expect(stored.alternatives.abstract['mock-fast']).toMatchObject({ status: 'success', content: 'ABSTRACT: lasagna is a boson.' });
+    expect(stored.responses.abstract).toMatchObject({
+      content: 'ABSTRACT: lasagna is a fermion.',
+      modelId: 'mock-reasoning',
+      pickedBy: 'judge',
+      pickRationale: 'Version B commits harder to the particle physics bit.',
+    });
+    // The results prompt quoted the judge's pick, which is what the scripted reply matches on
+    expect(stored.responses.results.content).toBe('RESULTS: Pauli exclusion of sauce.');
+    // Sections written by one model are never judged
+    expect(stored.alternatives.results).toBeUndefined();
+  });
+
+  test('manual mode waits for the owner to pick, and a saved version can be swapped in later', async () => {
+    const badSection = await post(`/${await createSession({ Author: 'A', Title: 'T' })}/pipeline`, {
+      modelId: 'mock-fast',
+      sectionModels: { preface: ['mock-fast', 'mock-reasoning'] },
+    });
+    expect(badSection.status).toBe(400);
+
+    const sessionId = await createSession({ Author: 'Prof. Pick', ScienceCategory: 'Mathematics', Title: 'Hand-Picked Lasagna' });
+    expect((await post(`/${sessionId}/pipeline`, {
+      modelId: 'mock-fast',
+      sectionModels: { abstract: ['mock-fast', 'mock-reasoning'] },
+      pickMode: 'manual',
+    })).status).toBe(202);
+
+    let pipeline = await getPipeline(sessionId);
+    for (let attempt = 0; attempt < 100 && pipeline.sections.abstract !== 'awaiting-pick'; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      pipeline = await getPipeline(sessionId);
+    }
+    expect(pipeline).toMatchObject({ status: 'running', live: true });
+    expect(pipeline.sections).toMatchObject({ abstract: 'awaiting-pick', results: 'locked' });
+
+    expect((await post(`/${sessionId}/sections/abstract/pick`, { modelId: 'mock-fast' }, 'someone-else')).status).toBe(403);
+    expect((await post(`/${sessionId}/sections/abstract/pick`, { modelId: 'mock-outage' })).status).toBe(400);
+    const picked = await post(`/${sessionId}/sections/abstract/pick`, { modelId: 'mock-fast' });
+    expect(picked.status).toBe(200);
+    expect(await picked.json()).toMatchObject({ sectionId: 'abstract', response: { modelId: 'mock-fast', pickedBy: 'user' } });
+
+    await vixraPipelineService.whenIdle(sessionId);
+    expect(await getPipeline(sessionId)).toMatchObject({ status: 'completed' });
+    let stored = await getSession(sessionId);
+    expect(stored.responses.results.content).toBe('RESULTS: 42 sigma of sauce.');
+
+    const swapped = await post(`/${sessionId}/sections/abstract/pick`, { modelId: 'mock-reasoning' });
+    expect(swapped.status).toBe(200);
+    stored = await getSession(sessionId);
+    expect(stored.responses.abstract).toMatchObject({ content: 'ABSTRACT: lasagna is a fermion.', pickedBy: 'user' });
+    // Sections written from the previous winner are now out of date
+    expect((await getPipeline(sessionId)).sections).toMatchObject({ abstract: 'completed', introduction: 'stale', results: 'stale' });
+  });
+});
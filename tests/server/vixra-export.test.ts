@@ -0,0 +1,146 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Verify Vixra paper exports: /api/sessions/:id/export/latex returns a .tar.gz whose main.tex has
+ *          the title block, abstract, numbered sections, escaped Markdown and a thebibliography built from
+ *          the Citations section (with [n] markers turned into \cite), and /export/pdf returns a well-formed
+ *          PDF with the same structure; papers without any generated section are rejected.
+ * SRP/DRY check: Pass - Router-level integration against MemStorage; no model calls involved.
+ */
+
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import express from 'express';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+import { gunzipSync, inflateSync } from 'node:zlib';
+
+vi.hoisted(() => {
+  for (const key of ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'DEEPSEEK_API_KEY', 'OPENROUTER_API_KEY']) {
+    process.env[key] ??= 'test-placeholder';
+  }
+});
+
+import { sessionsRoutes } from '../../server/routes/sessions.routes';
+
+let server: import('node:http').Server | null = null;
+let baseUrl = '';
+
+function section(content: string) {
+  return { content, status: 'success', responseTime: 1200, modelName: 'Mock Fast', modelId: 'mock-fast' };
+}
+
+async function createSession(variables: Record<string, string>, responses: Record<string, unknown>) {
+  const created = await fetch(`${baseUrl}/api/sessions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-device-id': 'vixra-export-test-device' },
+    body: JSON.stringify({ variables, template: 'vixra', responses }),
+  });
+  expect(created.status).toBe(200);
+  return (await created.json()).id as string;
+}
+
+/** name -> content for every regular file in a ustar archive */
+function readTar(archive: Buffer): Record<string, string> {
+  const files: Record<string, string> = {};
+  for (let offset = 0; offset + 512 <= archive.length && archive[offset] !== 0;) {
+    const name = archive.subarray(offset, offset + 100).toString('utf8').replace(/\0.*$/s, '');
+    const size = parseInt(archive.subarray(offset + 124, offset + 136).toString('utf8'), 8);
+    files[name] = archive.subarray(offset + 512, offset + 512 + size).toString('utf8');
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+  return files;
+}
+
+const paperResponses = {
+  abstract: section('# Quantum Lasagna Dynamics\n\n## Abstract\n\nWe show that 50% of lasagna & 100% of sauce obey $E = mc^2$ with α ≈ 3 [1].'),
+  introduction: section('## Introduction\n\nPasta_layers are **entangled** and *delicious* [2, 3].\n\n- Layer one\n- Layer two'),
+  methodology: section('| Layer | Energy |\n|---|---|\n| Top | 42 eV |'),
+  results: section('$$\n\\int_0^1 \\text{sauce}\\, dx = 1\n$$'),
+  discussion: { content: '', status: 'error', responseTime: 10, modelName: 'Mock Fast', error: 'Mock refusal' },
+  citations: section('1. Power, M. (3024). Lasagna as a Boson. *Journal of Crystal Vibrations*, 7(4).\n2. Starseed, A. (1066). Noodles Beyond Time.\n   Ethereal Press.\n3. Power, M. (2099). Sauce Entanglement Revisited.'),
+  acknowledgments: section('We thank the oven.'),
+};
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/sessions', sessionsRoutes);
+  server = app.listen(0);
+  await once(server, 'listening');
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  if (server) {
+    server.close();
+    await once(server, 'close');
+  }
+});
+
+describe('Vixra paper exports', () => {
+  test('renders an arXiv-style LaTeX bundle with a bibliography from the Citations section', async () => {
+    const sessionId = await createSession({ Author: 'Dr. Max Power', ScienceCategory: 'Physics - Quantum Physics', Title: '' }, paperResponses);
+
+    const response = await fetch(`${baseUrl}/api/sessions/${sessionId}/export/latex`);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('application/gzip');
+    expect(response.headers.get('content-disposition')).toBe('attachment; filename="quantum-lasagna-dynamics.tar.gz"');
+
+    const files = readTar(gunzipSync(Buffer.from(await response.arrayBuffer())));
+    expect(Object.keys(files)).toEqual(['main.tex', 'references.bib']);
+    const tex = files['main.tex'];
+
+    expect(tex).toContain('\\documentclass[11pt]{article}');
+    expect(tex).toContain('\\title{Quantum Lasagna Dynamics}');
+    expect(tex).toContain('\\author{Dr. Max Power}');
+    expect(tex).toContain('\\date{Physics - Quantum Physics \\\\ ');
+    // The repeated title and "Abstract" headings are dropped; specials escaped, math kept, [1] cited
+    expect(tex).toContain('\\begin{abstract}\nWe show that 50\\% of lasagna \\& 100\\% of sauce obey $E = mc^2$ with \\ensuremath{\\alpha} \\ensuremath{\\approx} 3 \\cite{ref1}.\n\\end{abstract}');
+    expect(tex).toContain('\\section{Introduction}\n\nPasta\\_layers are \\textbf{entangled} and \\emph{delicious} \\cite{ref2,ref3}.');
+    expect(tex).toContain('\\begin{itemize}\n  \\item Layer one\n  \\item Layer two\n\\end{itemize}');
+    expect(tex).toContain('\\textbf{Layer} & \\textbf{Energy} \\\\ \\hline\nTop & 42 eV \\\\ \\hline');
+    expect(tex).toContain('\\section{Results}\n\n\\[\n\\int_0^1 \\text{sauce}\\, dx = 1\n\\]');
+    // Failed sections are left out rather than printed as empty sections
+    expect(tex).not.toContain('\\section{Discussion}');
+    expect(tex).toContain('\\section*{Acknowledgments}\n\nWe thank the oven.');
+    expect(tex).toContain('\\begin{thebibliography}{3}\n\\bibitem{ref1} Power, M. (3024). Lasagna as a Boson. \\emph{Journal of Crystal Vibrations}, 7(4).');
+    expect(tex).toContain('\\bibitem{ref2} Starseed, A. (1066). Noodles Beyond Time. Ethereal Press.');
+    expect(tex.indexOf('\\section{Introduction}')).toBeLessThan(tex.indexOf('\\section{Methodology}'));
+    expect(tex.trimEnd().endsWith('\\end{document}')).toBe(true);
+
+    expect(files['references.bib']).toContain('@misc{ref3,\n  note = {Power, M. (2099). Sauce Entanglement Revisited.}\n}');
+  });
+
+  test('typesets a PDF and rejects papers with nothing generated', async () => {
+    const sessionId = await createSession({ Author: 'Dr. Max Power', Title: 'Quantum Lasagna Dynamics' }, paperResponses);
+
+    const response = await fetch(`${baseUrl}/api/sessions/${sessionId}/export/pdf`);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/pdf');
+    const pdf = Buffer.from(await response.arrayBuffer());
+    const raw = pdf.toString('latin1');
+
+    expect(raw.startsWith('%PDF-1.4')).toBe(true);
+    expect(raw.trimEnd().endsWith('%%EOF')).toBe(true);
+    const startxref = Number(raw.match(/startxref\n(\d+)/)?.[1]);
+    expect(raw.slice(startxref, startxref + 4)).toBe('xref');
+    expect(raw).toContain('/Title (Quantum Lasagna Dynamics)');
+    expect(raw).toContain('/BaseFont /Times-Roman');
+
+    const text = [...raw.matchAll(/stream\n([\s\S]*?)\nendstream/g)]
+      .map(match => inflateSync(Buffer.from(match[1], 'latin1')).toString('latin1'))
+      .join('\n');
+    expect(text).toContain('(Quantum Lasagna Dynamics) Tj');
+    expect(text).toContain('(1 Introduction) Tj');
+    expect(text).toContain('(3 Results) Tj');
+    expect(text).toContain('(References) Tj');
+    expect(text).toContain('([2]) Tj');
+    expect(text).toContain('alpha ~ 3');
+    expect(text).toContain('(integral_0^1 sauce dx = 1) Tj');
+
+    const emptyId = await createSession({ Author: 'Nobody' }, {});
+    expect((await fetch(`${baseUrl}/api/sessions/${emptyId}/export/pdf`)).status).toBe(400);
+    expect((await fetch(`${baseUrl}/api/sessions/no-such-session/export/latex`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/api/sessions/${sessionId}/export/docx`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,150 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Verify server-side Vixra pipelines: /api/sessions/:id/pipeline fills in a missing title,
+ *          generates every section in the background following the dependency DAG (independent sections
+ *          in parallel, dependency outputs substituted into later prompts), saves each output into the
+ *          session's responses, charges credits per section and streams progress to attached clients;
+ *          a failed section only blocks the sections that depend on it, and only the owner can stop a run.
+ *          PUT edits neither pipeline state nor a paper whose pipeline is running.
+ * SRP/DRY check: Pass - Router-level integration against MemStorage and the offline mock provider.
+ */
+
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import express from 'express';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+
+vi.hoisted(() => {
+  for (const key of ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'DEEPSEEK_API_KEY', 'OPENROUTER_API_KEY']) {
+    process.env[key] ??= 'test-placeholder';
+  }
+  process.env.PROVIDER_RETRY_BASE_DELAY_MS = '1';
+  process.env.MOCK_PROVIDER_LATENCY_MS = '20';
+  process.env.MOCK_PROVIDER_SCRIPT = new URL('../fixtures/mock-scripts/vixra-pipeline.json', import.meta.url).pathname;
+});
+
+import { sessionsRoutes } from '../../server/routes/sessions.routes';
+import { vixraPipelineService } from '../../server/services/vixra-pipeline.service';
+
+const deviceId = 'vixra-pipeline-test-device';
+let server: import('node:http').Server | null = null;
+let baseUrl = '';
+
+function post(path: string, body: Record<string, unknown>, device = deviceId) {
+  return fetch(`${baseUrl}/api/sessions${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-device-id': device },
+    body: JSON.stringify(body),
+  });
+}
+
+function put(path: string, body: Record<string, unknown>) {
+  return fetch(`${baseUrl}/api/sessions${path}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+async function createSession(variables: Record<string, string>) {
+  const created = await post('', { variables, template: 'vixra', responses: {} });
+  expect(created.status).toBe(200);
+  return (await created.json()).id as string;
+}
+
+/** [event, sectionId] pairs in the order the stream delivered them */
+function sectionEvents(stream: string): string[] {
+  return stream.split('\n\n').flatMap(block => {
+    const event = block.match(/^event: (section\.\w+)$/m)?.[1];
+    const data = block.match(/^data: (.*)$/m)?.[1];
+    return event && data ? [`${event}:${JSON.parse(data).sectionId}`] : [];
+  });
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/sessions', sessionsRoutes);
+  server = app.listen(0);
+  await once(server, 'listening');
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  if (server) {
+    server.close();
+    await once(server, 'close');
+  }
+});
+
+describe('server-side Vixra pipelines', () => {
+  test('generates the whole paper along the dependency DAG and streams progress', async () => {
+    const sessionId = await createSession({ Author: 'Dr. Max Power', ScienceCategory: 'Physics - Quantum Physics', Title: '' });
+
+    const started = await post(`/${sessionId}/pipeline`, { modelId: 'mock-fast', options: { temperature: 0.4 } });
+    expect(started.status).toBe(202);
+    expect(await started.json()).toMatchObject({ sessionId, status: 'running', modelId: 'mock-fast', live: true, totalSections: 8 });
+
+    const events = fetch(`${baseUrl}/api/sessions/${sessionId}/pipeline/events`).then(response => response.text());
+    const duplicate = await post(`/${sessionId}/pipeline`, { modelId: 'mock-fast' });
+    expect(duplicate.status).toBe(409);
+    const editWhileRunning = await put(`/${sessionId}`, { responses: {} });
+    expect(editWhileRunning.status).toBe(409);
+
+    await vixraPipelineService.whenIdle(sessionId);
+    const stream = await events;
+    expect(stream).toContain('event: pipeline.snapshot');
+    expect(stream.trim().split('\n\n').pop()).toContain('event: pipeline.end');
+
+    // Discussion and citations both only wait on results, so they run side by side
+    const order = sectionEvents(stream);
+    expect(order.indexOf('section.start:citations')).toBeLessThan(order.indexOf('section.complete:discussion'));
+    expect(order.indexOf('section.complete:results')).toBeLessThan(order.indexOf('section.start:citations'));
+
+    const pipeline = await (await fetch(`${baseUrl}/api/sessions/${sessionId}/pipeline`)).json();
+    expect(pipeline).toMatchObject({ status: 'completed', completedSections: 8, creditsUsed: 40, live: false });
+    expect(Object.values(pipeline.sections)).toEqual(Array(8).fill('completed'));
+
+    const stored = await (await fetch(`${baseUrl}/api/sessions/${sessionId}`)).json();
+    expect(stored.variables).toMatchObject({ Title: 'Quantum Lasagna Dynamics', Authors: 'Dr. Max Power' });
+    expect(stored.responses.abstract).toMatchObject({ status: 'success', content: 'ABSTRACT: lasagna is a boson.', modelId: 'mock-fast' });
+    // The results prompt quoted the abstract, which is what the scripted reply matches on
+    expect(stored.responses.results.content).toBe('RESULTS: 42 sigma of sauce.');
+
+    const nothingLeft = await post(`/${sessionId}/pipeline`, { modelId: 'mock-fast' });
+    expect(nothingLeft.status).toBe(400);
+
+    // Pipeline state is server-written; a client can only edit the paper itself
+    const forged = await put(`/${sessionId}`, { pipeline: { ...pipeline, ownerId: null, status: 'stopped' } });
+    expect(forged.status).toBe(400);
+    const edited = await put(`/${sessionId}`, { variables: { ...stored.variables, Title: 'Renamed' } });
+    expect(edited.status).toBe(200);
+    expect(await edited.json()).toMatchObject({ variables: { Title: 'Renamed' }, pipeline: { status: 'completed' } });
+  });
+
+  test('a failed section blocks only its dependents, and only the owner can stop a pipeline', async () => {
+    const unknownModel = await post(`/${await createSession({ Author: 'A', Title: 'T' })}/pipeline`, { modelId: 'no-such-model' });
+    expect(unknownModel.status).toBe(400);
+
+    const sessionId = await createSession({ Author: 'Prof. Doom', ScienceCategory: 'Mathematics', Title: 'Doomed Paper' });
+    expect((await post(`/${sessionId}/pipeline`, { modelId: 'mock-fast' })).status).toBe(202);
+    expect((await post(`/${sessionId}/pipeline/stop`, {}, 'someone-else')).status).toBe(403);
+    await vixraPipelineService.whenIdle(sessionId);
+
+    const pipeline = await (await fetch(`${baseUrl}/api/sessions/${sessionId}/pipeline`)).json();
+    expect(pipeline).toMatchObject({ status: 'failed', statusReason: 'Sections failed: discussion', creditsUsed: 25 });
+    expect(pipeline.sections).toMatchObject({
+      citations: 'completed',
+      discussion: 'failed',
+      conclusion: 'locked',
+      acknowledgments: 'locked',
+    });
+
+    const stored = await (await fetch(`${baseUrl}/api/sessions/${sessionId}`)).json();
+    expect(stored.responses.discussion).toMatchObject({ status: 'error' });
+    expect(stored.responses.discussion.error).toContain('Mock refusal');
+    expect(stored.responses.conclusion).toBeUndefined();
+    expect((await post(`/${sessionId}/pipeline/stop`, {})).status).toBe(409);
+  });
+});
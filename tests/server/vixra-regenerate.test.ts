@@ -0,0 +1,113 @@
+/*
+ * Author: agent
+ * Date: 2026-10-19
+ * PURPOSE: Verify Vixra section regeneration: /api/sessions/:id/pipeline/regenerate generates finished
+ *          sections again (optionally on another model), the sections built on a regenerated section turn
+ *          stale in the pipeline summary, and a cascade regenerates a section together with every transitive
+ *          dependent while leaving the sections it depends on untouched.
+ * SRP/DRY check: Pass - Router-level integration against MemStorage and the offline mock provider.
+ */
+
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import express from 'express';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+
+vi.hoisted(() => {
+  for (const key of ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'DEEPSEEK_API_KEY', 'OPENROUTER_API_KEY']) {
+    process.env[key] ??= 'test-placeholder';
+  }
+  process.env.PROVIDER_RETRY_BASE_DELAY_MS = '1';
+  process.env.MOCK_PROVIDER_LATENCY_MS = '20';
+});
+
+import { sessionsRoutes } from '../../server/routes/sessions.routes';
+import { vixraPipelineService } from '../../server/services/vixra-pipeline.service';
+
+const deviceId = 'vixra-regenerate-test-device';
+let server: import('node:http').Server | null = null;
+let baseUrl = '';
+
+function post(path: string, body: Record<string, unknown>, device = deviceId) {
+  return fetch(`${baseUrl}/api/sessions${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-device-id': device },
+    body: JSON.stringify(body),
+  });
+}
+
+async function getPipeline(sessionId: string) {
+  return (await fetch(`${baseUrl}/api/sessions/${sessionId}/pipeline`)).json();
+}
+
+/** model id per section, as saved in the session's responses */
+async function sectionModels(sessionId: string): Promise<Record<string, string>> {
+  const session = await (await fetch(`${baseUrl}/api/sessions/${sessionId}`)).json();
+  return Object.fromEntries(Object.entries(session.responses as Record<string, { modelId: string }>)
+    .map(([sectionId, response]) => [sectionId, response.modelId]));
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/sessions', sessionsRoutes);
+  server = app.listen(0);
+  await once(server, 'listening');
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  if (server) {
+    server.close();
+    await once(server, 'close');
+  }
+});
+
+describe('Vixra section regeneration', () => {
+  test('regenerating a section leaves its transitive dependents stale until a cascade regenerates them', async () => {
+    const created = await post('', { variables: { Author: 'Dr. Redo', ScienceCategory: 'Mathematics', Title: 'Twice-Baked Lasagna' }, template: 'vixra', responses: {} });
+    const sessionId = (await created.json()).id as string;
+    expect((await post(`/${sessionId}/pipeline`, { modelId: 'mock-fast' })).status).toBe(202);
+    await vixraPipelineService.whenIdle(sessionId);
+
+    expect((await post(`/${sessionId}/pipeline/regenerate`, { sectionIds: ['preface'] })).status).toBe(400);
+    expect((await post(`/${sessionId}/pipeline/regenerate`, { sectionIds: ['methodology'] }, 'someone-else')).status).toBe(403);
+
+    const regenerated = await post(`/${sessionId}/pipeline/regenerate`, { sectionIds: ['methodology'], modelId: 'mock-reasoning' });
+    expect(regenerated.status).toBe(202);
+    expect((await regenerated.json()).sections).toMatchObject({ methodology: 'pending', results: 'completed' });
+    await vixraPipelineService.whenIdle(sessionId);
+
+    let pipeline = await getPipeline(sessionId);
+    expect(pipeline).toMatchObject({ status: 'completed', modelId: 'mock-reasoning' });
+    expect(pipeline.sections).toEqual({
+      abstract: 'completed',
+      introduction: 'completed',
+      methodology: 'completed',
+      results: 'stale',
+      discussion: 'stale',
+      conclusion: 'stale',
+      citations: 'stale',
+      acknowledgments: 'stale',
+    });
+    expect(await sectionModels(sessionId)).toMatchObject({ methodology: 'mock-reasoning', results: 'mock-fast' });
+
+    expect((await post(`/${sessionId}/pipeline/regenerate`, { sectionIds: ['results'], cascade: true })).status).toBe(202);
+    expect((await post(`/${sessionId}/pipeline/regenerate`, { sectionIds: ['results'] })).status).toBe(409);
+    await vixraPipelineService.whenIdle(sessionId);
+
+    pipeline = await getPipeline(sessionId);
+    expect(pipeline.status).toBe('completed');
+    expect(Object.values(pipeline.sections)).toEqual(Array(8).fill('completed'));
+    expect(await sectionModels(sessionId)).toEqual({
+      abstract: 'mock-fast',
+      introduction: 'mock-fast',
+      methodology: 'mock-reasoning',
+      results: 'mock-reasoning',
+      discussion: 'mock-reasoning',
+      conclusion: 'mock-reasoning',
+      citations: 'mock-reasoning',
+      acknowledgments: 'mock-reasoning',
+    });
+  });
+});